@@ -0,0 +1,30 @@
+/**
+ * 테스트용 입양 신청 생성
+ */
+
+import type { AdoptionApplication } from "@/types/pet";
+
+/**
+ * 테스트용 입양 신청 (심사 대기)
+ * @param {Partial<AdoptionApplication>} overrides 덮어쓸 값
+ */
+export function createTestApplication(
+  overrides: Partial<AdoptionApplication> = {}
+): AdoptionApplication {
+  return {
+    id: "application-1",
+    petId: "448000202400001",
+    applicantId: "applicant-1",
+    status: "pending",
+    applicationDate: "2024-05-01T00:00:00.000Z",
+    responses: [],
+    pet: {
+      name: "테스트",
+      careNm: "테스트동물보호센터",
+      careRegNo: "311322200900001",
+    },
+    createdAt: "2024-05-01T00:00:00.000Z",
+    updatedAt: "2024-05-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
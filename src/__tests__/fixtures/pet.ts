@@ -0,0 +1,38 @@
+/**
+ * 테스트용 Pet 생성
+ *
+ * 비교 근거가 될 만한 값은 모두 "정보 없음"으로 두고, 테스트에서 필요한 값만 덮어씁니다.
+ */
+
+import type { Pet } from "@/types/pet";
+
+/**
+ * 테스트용 Pet
+ * @param {Partial<Pet>} overrides 덮어쓸 값
+ */
+export function createTestPet(overrides: Partial<Pet> = {}): Pet {
+  return {
+    id: "448000202400001",
+    name: "테스트",
+    species: "dog",
+    breed: null,
+    age: { years: 3, months: 0, ageGroup: "adult" },
+    gender: "male",
+    size: "medium",
+    color: ["갈색"],
+    personality: [],
+    healthStatus: "good",
+    medicalRecords: [],
+    adoptionStatus: "available",
+    location: { city: "서울특별시", district: "강남구" },
+    images: [],
+    description: "",
+    houseTrained: null,
+    spayedNeutered: false,
+    microchipped: null,
+    vaccinated: null,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * 관리자 콘솔 페이지
+ *
+ * 대시보드, 사용자 관리, 보호소 소속 확인, 신고 처리, 동물 조회, 감사 로그를 탭으로 제공합니다.
+ * middleware가 관리자 콘솔 권한(access:admin)을 먼저 확인하고, 화면과 API도 다시 확인합니다.
+ */
+
+"use client";
+
+import Link from "next/link";
+import { ArrowLeft, ShieldAlert } from "lucide-react";
+import {
+  Button,
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "@/components/ui";
+import { MobileNavigation } from "@/components/common/mobile-navigation";
+import { RequirePermission } from "@/components/auth";
+import {
+  AdminAuditLogPanel,
+  AdminDashboardPanel,
+  AdminPetsPanel,
+  AdminReportsPanel,
+  AdminSheltersPanel,
+  AdminUsersPanel,
+} from "@/components/admin";
+import { useAuthStore } from "@/stores";
+import { ROUTES } from "@/utils/constants";
+
+const ADMIN_TABS = [
+  { value: "dashboard", label: "대시보드", Panel: AdminDashboardPanel },
+  { value: "users", label: "사용자", Panel: AdminUsersPanel },
+  { value: "shelters", label: "보호소", Panel: AdminSheltersPanel },
+  { value: "reports", label: "신고", Panel: AdminReportsPanel },
+  { value: "pets", label: "동물", Panel: AdminPetsPanel },
+  { value: "audit-log", label: "감사 로그", Panel: AdminAuditLogPanel },
+] as const;
+
+/**
+ * 관리자 콘솔 페이지 컴포넌트
+ *
+ * MVVM 아키텍처:
+ * - View: 이 컴포넌트와 탭별 관리자 패널
+ * - ViewModel: use-admin 훅 (관리자 API 조회/변경)
+ * - Model: 관리자 콘솔 API
+ */
+export default function AdminPage() {
+  const { isAuthenticated, showLogin } = useAuthStore();
+
+  const renderContent = () => {
+    if (!isAuthenticated) {
+      return (
+        <div className="text-center py-12">
+          <p className="text-gray-600 mb-6">관리자 계정으로 로그인해주세요</p>
+          <Button onClick={showLogin} className="px-8">
+            로그인하기
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <RequirePermission
+        permission="access:admin"
+        fallback={
+          <div className="flex flex-col items-center py-12 text-center">
+            <ShieldAlert className="h-12 w-12 text-gray-400 mb-2" />
+            <p className="text-gray-600">관리자만 이용할 수 있습니다.</p>
+          </div>
+        }
+      >
+        <Tabs defaultValue="dashboard">
+          <TabsList className="w-full overflow-x-auto">
+            {ADMIN_TABS.map((tab) => (
+              <TabsTrigger key={tab.value} value={tab.value} className="flex-1 text-xs">
+                {tab.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {ADMIN_TABS.map(({ value, Panel }) => (
+            <TabsContent key={value} value={value} className="pt-4">
+              <Panel />
+            </TabsContent>
+          ))}
+        </Tabs>
+      </RequirePermission>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200 px-4 py-3 sticky top-0 z-50">
+        <div className="flex items-center space-x-4">
+          <Link href={ROUTES.PROFILE}>
+            <ArrowLeft className="h-6 w-6 text-gray-600" />
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900">관리자 콘솔</h1>
+        </div>
+      </header>
+
+      <main className="pb-20 px-4 py-6">{renderContent()}</main>
+
+      <MobileNavigation />
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
  * 입양 상세 페이지
  *
  * 특정 반려동물의 상세 정보를 보여주는 페이지입니다.
- * 이미지 캐러셀, 기본 정보, 보호소 정보, 입양 절차를 포함합니다.
+ * 이미지 캐러셀, 기본 정보, 보호소 정보, 입양 절차, 비슷한 아이들을 포함합니다.
  */
 
 "use client";
@@ -20,6 +20,9 @@ import {
   Palette,
   AlertCircle,
   PawPrint,
+  Bell,
+  BellOff,
+  Flag,
 } from "lucide-react";
 import {
   Button,
@@ -38,10 +41,34 @@ import {
   AccordionTrigger,
   Separator,
 } from "@/components/ui";
-import { AdoptionChecklistSheet } from "@/components/adoption";
+import {
+  AdoptionApplicationSheet,
+  AdoptionChecklistSheet,
+  ContentReportSheet,
+  SimilarPetsSection,
+  NoticeUrgencyBadge,
+} from "@/components/adoption";
 import { useToastDebounce } from "@/hooks/use-toast-debounce";
 import { usePetDetail } from "@/hooks/use-pets";
-import { usePetStore } from "@/stores";
+import {
+  useMyApplications,
+  useSubmitApplication,
+} from "@/hooks/use-applications";
+import { useSubmitContentReport } from "@/hooks/use-admin";
+import { ShelterNameLink } from "@/components/shelters";
+import {
+  ApiError,
+  AuthenticationError,
+  ValidationApiError,
+} from "@/services/api/api-errors";
+import { isActiveApplication } from "@/services/api/adoption-application";
+import type {
+  AdoptionApplicationRequest,
+  ContentReportRequest,
+  ValidationError,
+} from "@/types/api";
+import { useAuthStore, usePetStore, useUserStore } from "@/stores";
+import { ROUTES } from "@/utils/constants";
 
 const adoptionProcess = [
   {
@@ -91,15 +118,36 @@ export default function AdoptionDetailPage({
   // React Query로 실제 데이터 가져오기
   const { data: pet, isLoading, error } = usePetDetail(petId);
 
-  // 즐겨찾기 상태 관리
-  const { isFavorite, toggleFavorite } = usePetStore();
+  // 관심 목록 상태 관리 (로그인하면 계정에 저장되어 다른 기기와 동기화)
+  const { isFavorite, toggleFavorite } = useUserStore();
+  const { hasNoticeAlert, toggleNoticeAlert } = usePetStore();
   const isLiked = pet ? isFavorite(pet.id) : false;
+  const isNoticeAlertOn = pet ? hasNoticeAlert(pet.id) : false;
+
+  // 입양 신청 상태 관리
+  const { isAuthenticated, showLogin } = useAuthStore();
+  const { data: myApplications } = useMyApplications();
+  const submitApplication = useSubmitApplication();
+  const submitReport = useSubmitContentReport();
+  const activeApplication = useMemo(
+    () =>
+      myApplications?.find(
+        (application) =>
+          application.petId === petId && isActiveApplication(application)
+      ),
+    [myApplications, petId]
+  );
 
   // 커스텀 훅
   const toast = useToastDebounce({ delay: 1000 });
 
   // 상태 관리
   const [showChecklist, setShowChecklist] = useState(false);
+  const [showApplicationForm, setShowApplicationForm] = useState(false);
+  const [applicationErrors, setApplicationErrors] = useState<ValidationError[]>(
+    []
+  );
+  const [showReportForm, setShowReportForm] = useState(false);
   const [isLikeProcessing, setIsLikeProcessing] = useState(false);
 
   /**
@@ -112,30 +160,55 @@ export default function AdoptionDetailPage({
   /**
    * 좋아요 토글 핸들러 (중복 클릭 방지)
    */
-  const handleLikeToggle = useCallback(() => {
+  const handleLikeToggle = useCallback(async () => {
     // 이미 처리 중이거나 pet 데이터가 없으면 리턴
     if (isLikeProcessing || !pet) return;
 
     setIsLikeProcessing(true);
 
-    toggleFavorite(pet.id);
+    try {
+      await toggleFavorite(pet.id);
+      toast.success(
+        isLiked ? "관심 동물에서 해제했습니다!" : "관심 동물로 등록했습니다!"
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "관심 동물을 저장하지 못했습니다."
+      );
+    } finally {
+      setIsLikeProcessing(false);
+    }
+  }, [isLikeProcessing, pet, toggleFavorite, isLiked, toast]);
+
+  /**
+   * 공고 마감 알림 토글 핸들러 (관심 등록한 동물만 가능)
+   */
+  const handleNoticeAlertToggle = useCallback(() => {
+    if (!pet) return;
 
+    if (!isLiked) {
+      toast.error("관심 동물로 등록하면 마감 알림을 받을 수 있어요.");
+      return;
+    }
+
+    toggleNoticeAlert(pet.id);
     toast.success(
-      isLiked ? "관심 동물에서 해제했습니다!" : "관심 동물로 등록했습니다!"
+      isNoticeAlertOn
+        ? "공고 마감 알림을 해제했습니다."
+        : "공고 마감이 다가오면 알려드릴게요!"
     );
-
-    // 500ms 후 다시 클릭 가능하도록 설정
-    setTimeout(() => {
-      setIsLikeProcessing(false);
-    }, 500);
-  }, [isLikeProcessing, pet, toggleFavorite, isLiked, toast]);
+  }, [pet, isLiked, isNoticeAlertOn, toggleNoticeAlert, toast]);
 
   /**
-   * 입양 신청 체크리스트 표시 핸들러
+   * 입양 신청 버튼 핸들러 (진행 중인 신청이 있으면 신청 내역으로 이동)
    */
   const handleShowChecklist = useCallback(() => {
+    if (activeApplication) {
+      router.push(ROUTES.MY_APPLICATIONS);
+      return;
+    }
     setShowChecklist(true);
-  }, []);
+  }, [activeApplication, router]);
 
   /**
    * 체크리스트 닫기 핸들러
@@ -145,13 +218,100 @@ export default function AdoptionDetailPage({
   }, []);
 
   /**
-   * 최종 입양 신청 핸들러
+   * 체크리스트 완료 핸들러 (로그인 확인 후 신청서 표시)
    */
   const handleFinalAdoptionApply = useCallback(() => {
-    toast.success(
-      "입양 신청이 접수되었습니다!\n보호소에서 연락드릴 예정입니다."
-    );
-  }, [toast]);
+    if (!isAuthenticated) {
+      toast.error("로그인하면 입양 신청서를 작성할 수 있어요.");
+      showLogin();
+      return;
+    }
+    setApplicationErrors([]);
+    setShowApplicationForm(true);
+  }, [isAuthenticated, showLogin, toast]);
+
+  /**
+   * 신청서 닫기 핸들러
+   */
+  const handleCloseApplicationForm = useCallback(() => {
+    setShowApplicationForm(false);
+  }, []);
+
+  /**
+   * 신청서 제출 핸들러
+   */
+  const handleSubmitApplication = useCallback(
+    (request: AdoptionApplicationRequest) => {
+      setApplicationErrors([]);
+      submitApplication.mutate(
+        { petId, request },
+        {
+          onSuccess: () => {
+            setShowApplicationForm(false);
+            toast.success(
+              "입양 신청이 접수되었습니다!\n보호소에서 연락드릴 예정입니다."
+            );
+          },
+          onError: (error) => {
+            if (error instanceof ValidationApiError) {
+              setApplicationErrors(error.errors);
+              return;
+            }
+            if (error instanceof AuthenticationError) {
+              setShowApplicationForm(false);
+              showLogin();
+            }
+            toast.error(error.message);
+          },
+        }
+      );
+    },
+    [petId, submitApplication, showLogin, toast]
+  );
+
+  /**
+   * 신고하기 핸들러 (로그인 확인 후 신고 바텀시트 표시)
+   */
+  const handleOpenReportForm = useCallback(() => {
+    if (!isAuthenticated) {
+      toast.error("로그인하면 공고를 신고할 수 있어요.");
+      showLogin();
+      return;
+    }
+    setShowReportForm(true);
+  }, [isAuthenticated, showLogin, toast]);
+
+  /**
+   * 신고 바텀시트 닫기 핸들러
+   */
+  const handleCloseReportForm = useCallback(() => {
+    setShowReportForm(false);
+  }, []);
+
+  /**
+   * 신고 제출 핸들러
+   */
+  const handleSubmitReport = useCallback(
+    (request: Pick<ContentReportRequest, "reason" | "details">) => {
+      submitReport.mutate(
+        { targetType: "pet", targetId: petId, ...request },
+        {
+          onSuccess: () => {
+            setShowReportForm(false);
+            toast.success("신고가 접수되었습니다.\n관리자가 확인 후 조치할 예정입니다.");
+          },
+          onError: (error) => {
+            if (error instanceof AuthenticationError) {
+              setShowReportForm(false);
+              showLogin();
+            }
+            toast.error(error.message);
+          },
+        }
+      );
+    },
+    [petId, submitReport, showLogin, toast]
+  );
 
   /**
    * 전화걸기 핸들러
@@ -207,16 +367,19 @@ export default function AdoptionDetailPage({
         <div className="flex flex-col items-center justify-center py-20">
           <AlertCircle className="h-16 w-16 text-red-400 mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">
-            정보를 불러올 수 없습니다
+            {error ? "정보를 불러올 수 없습니다" : "공고를 찾을 수 없습니다"}
           </h2>
           <p className="text-gray-600 mb-4">
             {error instanceof Error
               ? error.message
               : "반려동물 정보를 찾을 수 없습니다."}
           </p>
-          <Button variant="outline" onClick={() => window.location.reload()}>
-            다시 시도
-          </Button>
+          {/* 다시 시도해도 결과가 같은 오류(한도 초과 등)는 버튼을 숨김 */}
+          {error && (!(error instanceof ApiError) || error.retryable) && (
+            <Button variant="outline" onClick={() => window.location.reload()}>
+              다시 시도
+            </Button>
+          )}
         </div>
       </div>
     );
@@ -235,6 +398,13 @@ export default function AdoptionDetailPage({
             <ArrowLeft className="h-5 w-5 text-gray-600" />
           </button>
           <h1 className="ml-2 text-lg font-bold text-gray-900">상세 정보</h1>
+          <button
+            onClick={handleOpenReportForm}
+            className="ml-auto p-2 -mr-2 hover:bg-gray-100 rounded-full transition-colors"
+            aria-label="공고 신고하기"
+          >
+            <Flag className="h-5 w-5 text-gray-500" />
+          </button>
         </div>
       </header>
 
@@ -251,8 +421,11 @@ export default function AdoptionDetailPage({
                       <Image
                         src={image.url}
                         alt={image.alt || `${pet.name} 사진 ${index + 1}`}
-                        width={400}
-                        height={400}
+                        width={image.width ?? 400}
+                        height={image.height ?? 400}
+                        placeholder={image.blurDataURL ? "blur" : "empty"}
+                        blurDataURL={image.blurDataURL}
+                        unoptimized
                         className="w-full h-full object-cover"
                       />
                     </div>
@@ -287,6 +460,7 @@ export default function AdoptionDetailPage({
                 <CardTitle className="text-lg">
                   {pet.name} {genderText}
                 </CardTitle>
+                <NoticeUrgencyBadge notice={pet.notice} showNormal />
               </div>
             </CardHeader>
             <CardContent className="space-y-3">
@@ -364,9 +538,11 @@ export default function AdoptionDetailPage({
               <div className="flex items-start space-x-2">
                 <MapPin className="w-4 h-4 text-gray-500 mt-0.5 flex-shrink-0" />
                 <div className="min-w-0">
-                  <p className="text-sm font-medium text-gray-900">
-                    {pet.shelterInfo?.shelterName || "보호소 정보 없음"}
-                  </p>
+                  <ShelterNameLink
+                    careRegNo={pet.shelterInfo?.shelterId}
+                    name={pet.shelterInfo?.shelterName}
+                    className="block text-sm font-medium text-gray-900"
+                  />
                   <p className="text-sm text-gray-600 mt-1">
                     {pet.location.address ||
                       pet.location.city ||
@@ -375,6 +551,35 @@ export default function AdoptionDetailPage({
                 </div>
               </div>
 
+              {pet.notice?.endDate && (
+                <div className="flex items-center justify-between pt-2">
+                  <div className="flex items-center space-x-2">
+                    <Calendar className="w-4 h-4 text-gray-500" />
+                    <span className="text-sm text-gray-600">공고 기간</span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-gray-900">
+                      {pet.notice.startDate} ~ {pet.notice.endDate}
+                    </span>
+                    {pet.notice.urgency !== "ended" && (
+                      <button
+                        onClick={handleNoticeAlertToggle}
+                        className="p-1 rounded-full hover:bg-gray-100 transition-colors"
+                        aria-label={
+                          isNoticeAlertOn ? "마감 알림 해제" : "마감 알림 받기"
+                        }
+                      >
+                        {isNoticeAlertOn ? (
+                          <Bell className="w-4 h-4 text-blue-600 fill-current" />
+                        ) : (
+                          <BellOff className="w-4 h-4 text-gray-400" />
+                        )}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+
               <div className="flex items-center justify-between pt-2">
                 <div className="flex items-center space-x-2">
                   <Phone className="w-4 h-4 text-gray-500" />
@@ -418,6 +623,9 @@ export default function AdoptionDetailPage({
               </Accordion>
             </CardContent>
           </Card>
+
+          {/* 비슷한 아이들 */}
+          <SimilarPetsSection petId={pet.id} />
         </div>
       </main>
 
@@ -437,9 +645,10 @@ export default function AdoptionDetailPage({
           </button>
           <Button
             onClick={handleShowChecklist}
+            variant={activeApplication ? "outline" : "default"}
             className="flex-1 h-12 text-base font-semibold"
           >
-            입양 신청
+            {activeApplication ? "신청 내역 보기" : "입양 신청"}
           </Button>
         </div>
         <div className="text-center mt-2">
@@ -455,6 +664,25 @@ export default function AdoptionDetailPage({
         onClose={handleCloseChecklist}
         onApply={handleFinalAdoptionApply}
       />
+
+      {/* 입양 신청서 바텀시트 */}
+      <AdoptionApplicationSheet
+        isOpen={showApplicationForm}
+        petName={pet.name}
+        isSubmitting={submitApplication.isPending}
+        serverErrors={applicationErrors}
+        onClose={handleCloseApplicationForm}
+        onSubmit={handleSubmitApplication}
+      />
+
+      {/* 신고 바텀시트 */}
+      <ContentReportSheet
+        isOpen={showReportForm}
+        targetName={pet.name}
+        isSubmitting={submitReport.isPending}
+        onClose={handleCloseReportForm}
+        onSubmit={handleSubmitReport}
+      />
     </div>
   );
 }
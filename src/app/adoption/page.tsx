@@ -7,15 +7,24 @@
 
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { Button, Card, Badge } from "@/components/ui";
 import { MobileNavigation } from "@/components/common/mobile-navigation";
+import {
+  RegionPicker,
+  BreedPicker,
+  NoticeUrgencyBadge,
+  type RegionSelection,
+} from "@/components/adoption";
 import { ArrowLeft, Filter, Search, PawPrint } from "lucide-react";
 import { APP_NAME } from "@/utils/constants";
-import { useAllPets } from "@/hooks/use-pets";
+import { useAllPets, useUrgentPets } from "@/hooks/use-pets";
+import { ANIMAL_TYPE_CODES } from "@/services/api/animal-api";
+import { ApiError } from "@/services/api/api-errors";
 import { usePetStore } from "@/stores";
+import { ShelterNameLink } from "@/components/shelters";
 
 /**
  * 입양 페이지 컴포넌트
@@ -29,21 +38,38 @@ export default function AdoptionPage() {
   // 로컬 상태 관리
   const [selectedCategory, setSelectedCategory] = useState("전체");
   const [showFilter, setShowFilter] = useState(false);
+  const [appliedRegion, setAppliedRegion] = useState<RegionSelection>({});
+  const [draftRegion, setDraftRegion] = useState<RegionSelection>({});
+  const [appliedKind, setAppliedKind] = useState<string>();
+  const [draftKind, setDraftKind] = useState<string>();
+
+  // 품종 코드는 축종별로 다르므로 카테고리에 맞는 축종 코드를 사용
+  const breedUpkind =
+    selectedCategory === "고양이" ? ANIMAL_TYPE_CODES.CAT : ANIMAL_TYPE_CODES.DOG;
 
   // React Query로 실제 데이터 가져오기
   const { searchFilters } = usePetStore();
-  const filters =
-    selectedCategory !== "전체"
-      ? {
-          ...searchFilters,
-          species:
-            selectedCategory === "개"
-              ? ("dog" as const)
-              : selectedCategory === "고양이"
-                ? ("cat" as const)
-                : undefined,
-        }
-      : searchFilters;
+  const filters = useMemo(() => {
+    const categoryFilters =
+      selectedCategory !== "전체"
+        ? {
+            ...searchFilters,
+            species:
+              selectedCategory === "개"
+                ? ("dog" as const)
+                : selectedCategory === "고양이"
+                  ? ("cat" as const)
+                  : undefined,
+          }
+        : searchFilters;
+
+    return {
+      ...categoryFilters,
+      ...(appliedRegion.uprCd && { upr_cd: appliedRegion.uprCd }),
+      ...(appliedRegion.orgCd && { org_cd: appliedRegion.orgCd }),
+      ...(appliedKind && { upkind: breedUpkind, kind: appliedKind }),
+    };
+  }, [selectedCategory, searchFilters, appliedRegion, appliedKind, breedUpkind]);
 
   const {
     data,
@@ -56,18 +82,47 @@ export default function AdoptionPage() {
 
   const pets = data?.pages.flatMap((page) => page.pets) ?? [];
 
+  // 공고 마감 임박 동물 (같은 축종/지역 조건)
+  const urgentParams = useMemo(
+    () => ({
+      ...(selectedCategory === "개" && { upkind: ANIMAL_TYPE_CODES.DOG }),
+      ...(selectedCategory === "고양이" && { upkind: ANIMAL_TYPE_CODES.CAT }),
+      ...(appliedRegion.uprCd && { upr_cd: appliedRegion.uprCd }),
+      ...(appliedRegion.orgCd && { org_cd: appliedRegion.orgCd }),
+      numOfRows: 10,
+    }),
+    [selectedCategory, appliedRegion]
+  );
+  const { data: urgentData } = useUrgentPets(urgentParams);
+  const urgentPets = urgentData?.pets ?? [];
+
   /**
    * 필터 모달 토글
    */
   const handleToggleFilter = useCallback(() => {
+    if (!showFilter) {
+      setDraftRegion(appliedRegion);
+      setDraftKind(appliedKind);
+    }
     setShowFilter(!showFilter);
-  }, [showFilter]);
+  }, [showFilter, appliedRegion, appliedKind]);
+
+  /**
+   * 필터 적용 핸들러
+   */
+  const handleApplyFilter = useCallback(() => {
+    setAppliedRegion(draftRegion);
+    setAppliedKind(draftKind);
+    setShowFilter(false);
+  }, [draftRegion, draftKind]);
 
   /**
    * 카테고리 선택 핸들러
    */
   const handleCategorySelect = useCallback((category: string) => {
     setSelectedCategory(category);
+    // 축종이 바뀌면 이전 축종의 품종 선택은 유효하지 않음
+    setAppliedKind(undefined);
   }, []);
 
   /**
@@ -125,6 +180,58 @@ export default function AdoptionPage() {
             ))}
           </div>
 
+          {/* 공고 마감 임박 */}
+          {urgentPets.length > 0 && (
+            <section className="mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="font-semibold text-gray-900">
+                  공고 마감이 얼마 남지 않았어요
+                </h2>
+                <span className="text-xs text-gray-500">
+                  {urgentData?.withinDays}일 이내 마감
+                </span>
+              </div>
+              <div className="flex space-x-3 overflow-x-auto pb-1">
+                {urgentPets.map((pet) => (
+                  <Link
+                    key={pet.id}
+                    href={`/adoption/${pet.id}`}
+                    className="w-28 flex-shrink-0"
+                  >
+                    <div className="relative aspect-square rounded-lg bg-gray-200 overflow-hidden">
+                      {pet.images[0] ? (
+                        <Image
+                          src={pet.images[0].variants?.card ?? pet.images[0].url}
+                          placeholder={pet.images[0].blurDataURL ? "blur" : "empty"}
+                          blurDataURL={pet.images[0].blurDataURL}
+                          unoptimized
+                          alt={pet.name}
+                          width={112}
+                          height={112}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="flex items-center justify-center w-full h-full">
+                          <PawPrint className="h-8 w-8 text-gray-400" />
+                        </div>
+                      )}
+                      <NoticeUrgencyBadge
+                        notice={pet.notice}
+                        className="absolute bottom-1 left-1"
+                      />
+                    </div>
+                    <p className="mt-1 text-sm font-medium text-gray-900 truncate">
+                      {pet.name}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {pet.location.city}
+                    </p>
+                  </Link>
+                ))}
+              </div>
+            </section>
+          )}
+
           {/* 입양 가능한 반려동물 목록 */}
           <div className="space-y-4">
             {/* 로딩 상태 */}
@@ -145,13 +252,15 @@ export default function AdoptionPage() {
                     ? error.message
                     : "데이터를 불러오는데 실패했습니다."}
                 </p>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => window.location.reload()}
-                >
-                  다시 시도
-                </Button>
+                {(!(error instanceof ApiError) || error.retryable) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => window.location.reload()}
+                  >
+                    다시 시도
+                  </Button>
+                )}
               </div>
             )}
 
@@ -164,7 +273,10 @@ export default function AdoptionPage() {
                       <div className="w-20 h-20 bg-gray-200 rounded-lg overflow-hidden">
                         {pet.images && pet.images.length > 0 ? (
                           <Image
-                            src={pet.images[0].url}
+                            src={pet.images[0].variants?.thumb ?? pet.images[0].url}
+                            placeholder={pet.images[0].blurDataURL ? "blur" : "empty"}
+                            blurDataURL={pet.images[0].blurDataURL}
+                            unoptimized
                             alt={pet.name}
                             width={80}
                             height={80}
@@ -189,6 +301,7 @@ export default function AdoptionPage() {
                         <h4 className="font-semibold text-gray-900">
                           {pet.name}
                         </h4>
+                        <NoticeUrgencyBadge notice={pet.notice} />
                       </div>
                       <p className="text-sm text-gray-600 mb-1">
                         {pet.age.years > 0
@@ -211,6 +324,12 @@ export default function AdoptionPage() {
                       <p className="text-xs text-gray-500">
                         {pet.location.city || pet.location.address}
                       </p>
+                      <ShelterNameLink
+                        careRegNo={pet.shelterInfo?.shelterId}
+                        name={pet.shelterInfo?.shelterName}
+                        nested
+                        className="text-xs text-blue-600"
+                      />
                     </div>
                   </div>
                 </Card>
@@ -283,29 +402,19 @@ export default function AdoptionPage() {
                 <h4 className="text-lg font-semibold text-gray-900 mb-3">
                   지역
                 </h4>
-                <div className="relative">
-                  <input
-                    type="text"
-                    placeholder="지역으로 입양처 찾기"
-                    className="w-full px-4 py-3 bg-gray-100 rounded-lg text-gray-900 placeholder-gray-500"
-                  />
-                  <Search className="absolute right-3 top-3 h-5 w-5 text-gray-400" />
-                </div>
+                <RegionPicker value={draftRegion} onChange={setDraftRegion} />
               </div>
 
-              {/* 견종 */}
+              {/* 품종 */}
               <div className="mb-6">
                 <h4 className="text-lg font-semibold text-gray-900 mb-3">
-                  견종
+                  품종
                 </h4>
-                <div className="relative">
-                  <input
-                    type="text"
-                    placeholder="견종 검색하기"
-                    className="w-full px-4 py-3 bg-gray-100 rounded-lg text-gray-900 placeholder-gray-500"
-                  />
-                  <Search className="absolute right-3 top-3 h-5 w-5 text-gray-400" />
-                </div>
+                <BreedPicker
+                  upkind={breedUpkind}
+                  value={draftKind}
+                  onChange={setDraftKind}
+                />
               </div>
 
               {/* 성별 */}
@@ -346,7 +455,7 @@ export default function AdoptionPage() {
 
               <Button
                 className="w-full bg-gray-400 hover:bg-gray-500 text-white"
-                onClick={handleToggleFilter}
+                onClick={handleApplyFilter}
               >
                 필터 적용
               </Button>
@@ -0,0 +1,41 @@
+/**
+ * 관리자 감사 로그 API Route
+ *
+ * Authorization: Bearer <관리자 Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_SETTINGS } from '@/utils/constants/api';
+import { getAuditLogRepository, requireAdmin } from '@/services/server/admin';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * GET /api/admin/audit-log?actorId={관리자 ID}&targetId={대상 ID}
+ * 관리자 작업 감사 로그 (최근 순, 최대 AUDIT_LOG_LIMIT건)
+ */
+async function handleGet(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  try {
+    await requireAdmin(request, 'read:audit_log');
+    const entries = await getAuditLogRepository().list({
+      actorId: searchParams.get('actorId') ?? undefined,
+      targetId: searchParams.get('targetId') ?? undefined,
+      limit: ADMIN_SETTINGS.AUDIT_LOG_LIMIT,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: entries,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '감사 로그를 불러오는데 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const GET = withRateLimit('ADMIN', handleGet);
@@ -0,0 +1,39 @@
+/**
+ * 관리자 대시보드 API Route
+ *
+ * 사용자/보호소 소속/입양 신청/신고 집계와 최근 관리자 작업을 반환합니다.
+ * Authorization: Bearer <관리자 Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAdminDashboard,
+  getAdminRepositories,
+  requireAdmin,
+} from '@/services/server/admin';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * GET /api/admin/dashboard
+ * 관리자 대시보드 집계
+ */
+async function handleGet(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+    const dashboard = await getAdminDashboard(getAdminRepositories());
+
+    return NextResponse.json({
+      success: true,
+      data: dashboard,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '대시보드를 불러오는데 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const GET = withRateLimit('ADMIN', handleGet);
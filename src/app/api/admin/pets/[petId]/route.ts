@@ -0,0 +1,43 @@
+/**
+ * 관리자 동물 조회 API Route
+ *
+ * 공고 정보와 해당 동물의 입양 신청, 신고 내역을 함께 반환합니다.
+ * Authorization: Bearer <관리자 Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAdminPetOverview,
+  getAdminRepositories,
+  requireAdmin,
+} from '@/services/server/admin';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+type RouteContext = { params: Promise<{ petId: string }> };
+
+/**
+ * GET /api/admin/pets/[petId]
+ * 동물 공고 + 입양 신청 + 신고
+ */
+async function handleGet(request: NextRequest, { params }: RouteContext) {
+  const { petId } = await params;
+
+  try {
+    await requireAdmin(request, 'manage:reports');
+    const overview = await getAdminPetOverview(getAdminRepositories(), petId);
+
+    return NextResponse.json({
+      success: true,
+      data: overview,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '동물 정보를 불러오는데 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const GET = withRateLimit('ADMIN', handleGet);
@@ -0,0 +1,69 @@
+/**
+ * 관리자 신고 처리 API Route
+ *
+ * 처리 결과는 감사 로그에 기록됩니다.
+ * Authorization: Bearer <관리자 Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAdminRepositories,
+  requireAdmin,
+  resolveContentReport,
+} from '@/services/server/admin';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+type RouteContext = { params: Promise<{ reportId: string }> };
+
+/**
+ * PATCH /api/admin/reports/[reportId]
+ * 신고 처리 (body: { status: "resolved" | "dismissed", resolutionNote? })
+ */
+async function handlePatch(request: NextRequest, { params }: RouteContext) {
+  const { reportId } = await params;
+  const body = await request.json().catch(() => null);
+
+  if (body?.status !== 'resolved' && body?.status !== 'dismissed') {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'status는 resolved 또는 dismissed여야 합니다.',
+        field: 'status',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  if (body.resolutionNote !== undefined && typeof body.resolutionNote !== 'string') {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '처리 메모는 문자열이어야 합니다.',
+        field: 'resolutionNote',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const admin = await requireAdmin(request, 'manage:reports');
+    const report = await resolveContentReport(getAdminRepositories(), admin, reportId, {
+      status: body.status,
+      resolutionNote: body.resolutionNote,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '신고를 처리하지 못했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const PATCH = withRateLimit('ADMIN', handlePatch);
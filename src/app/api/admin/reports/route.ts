@@ -0,0 +1,71 @@
+/**
+ * 관리자 신고 목록 API Route
+ *
+ * Authorization: Bearer <관리자 Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ContentReportStatus, ContentReportTargetType } from '@/types/api';
+import {
+  CONTENT_REPORT_STATUS_LABELS,
+  CONTENT_REPORT_TARGET_LABELS,
+} from '@/utils/constants';
+import { getContentReportRepository, requireAdmin } from '@/services/server/admin';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+const STATUSES = Object.keys(CONTENT_REPORT_STATUS_LABELS) as ContentReportStatus[];
+const TARGET_TYPES = Object.keys(CONTENT_REPORT_TARGET_LABELS) as ContentReportTargetType[];
+
+/**
+ * 검증 오류 응답
+ */
+function validationError(message: string, field: string) {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message,
+      field,
+    },
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+/**
+ * GET /api/admin/reports?status={open|resolved|dismissed}&targetType={대상 종류}
+ * 신고 목록 (최근 신고 순, status 생략 시 접수된 신고)
+ */
+async function handleGet(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status') ?? 'open';
+  const targetType = searchParams.get('targetType');
+
+  if (!STATUSES.includes(status as ContentReportStatus)) {
+    return validationError(`status는 ${STATUSES.join(', ')} 중 하나여야 합니다.`, 'status');
+  }
+  if (targetType && !TARGET_TYPES.includes(targetType as ContentReportTargetType)) {
+    return validationError(`targetType은 ${TARGET_TYPES.join(', ')} 중 하나여야 합니다.`, 'targetType');
+  }
+
+  try {
+    await requireAdmin(request, 'manage:reports');
+    const reports = await getContentReportRepository().list({
+      statuses: [status as ContentReportStatus],
+      targetType: (targetType as ContentReportTargetType | null) ?? undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: reports,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '신고 목록을 불러오는데 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const GET = withRateLimit('ADMIN', handleGet);
@@ -0,0 +1,111 @@
+/**
+ * 관리자 보호소 소속 확인 API Route
+ *
+ * 보호소 직원 소속 신청을 확인/거절하고, 확인된 소속을 해제합니다.
+ * 처리 결과는 감사 로그에 기록됩니다.
+ * Authorization: Bearer <관리자 Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ShelterStaffStatus } from '@/types/api';
+import { SHELTER_STAFF_STATUS_LABELS } from '@/utils/constants';
+import {
+  getAdminRepositories,
+  requireAdmin,
+  reviewShelterMembership,
+} from '@/services/server/admin';
+import { getShelterStaffRepository } from '@/services/server/shelter-staff';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+const STATUSES = Object.keys(SHELTER_STAFF_STATUS_LABELS) as ShelterStaffStatus[];
+
+/**
+ * 검증 오류 응답
+ */
+function validationError(message: string, field: string) {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message,
+      field,
+    },
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+/**
+ * GET /api/admin/shelters?status={pending|verified|revoked}&careRegNo={보호소 번호}
+ * 보호소 직원 소속 목록 (최근 신청 순)
+ */
+async function handleGet(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status');
+
+  if (status && !STATUSES.includes(status as ShelterStaffStatus)) {
+    return validationError(`status는 ${STATUSES.join(', ')} 중 하나여야 합니다.`, 'status');
+  }
+
+  try {
+    await requireAdmin(request, 'manage:shelters');
+    const memberships = await getShelterStaffRepository().list({
+      careRegNo: searchParams.get('careRegNo') ?? undefined,
+      statuses: status ? [status as ShelterStaffStatus] : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: memberships,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '보호소 소속 목록을 불러오는데 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+/**
+ * PATCH /api/admin/shelters
+ * 소속 확인/거절/해제 (body: { userId, careRegNo, status: "verified" | "revoked", reason? })
+ */
+async function handlePatch(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+
+  if (typeof body?.userId !== 'string' || !body.userId) {
+    return validationError('userId가 필요합니다.', 'userId');
+  }
+  if (typeof body.careRegNo !== 'string' || !body.careRegNo) {
+    return validationError('careRegNo가 필요합니다.', 'careRegNo');
+  }
+  if (body.status !== 'verified' && body.status !== 'revoked') {
+    return validationError('status는 verified 또는 revoked여야 합니다.', 'status');
+  }
+  if (body.reason !== undefined && typeof body.reason !== 'string') {
+    return validationError('사유는 문자열이어야 합니다.', 'reason');
+  }
+
+  try {
+    const admin = await requireAdmin(request, 'manage:shelters');
+    const membership = await reviewShelterMembership(getAdminRepositories(), admin, {
+      userId: body.userId,
+      careRegNo: body.careRegNo,
+      status: body.status,
+      reason: body.reason,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: membership,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '보호소 소속을 처리하지 못했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const GET = withRateLimit('ADMIN', handleGet);
+export const PATCH = withRateLimit('ADMIN', handlePatch);
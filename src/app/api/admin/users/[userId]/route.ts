@@ -0,0 +1,114 @@
+/**
+ * 관리자 사용자 상세/변경 API Route
+ *
+ * 계정 활성화/비활성화와 역할 변경은 감사 로그에 기록됩니다.
+ * Authorization: Bearer <관리자 Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { UserRole } from '@/types/user';
+import { USER_ROLE_LABELS } from '@/utils/constants';
+import {
+  getAdminRepositories,
+  getAuditLogRepository,
+  getUserDirectory,
+  requireAdmin,
+  updateUserAccount,
+} from '@/services/server/admin';
+import { NotFoundError } from '@/services/api/api-errors';
+import { ADMIN_SETTINGS } from '@/utils/constants/api';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+const ROLES = Object.keys(USER_ROLE_LABELS) as UserRole[];
+
+/**
+ * 검증 오류 응답
+ */
+function validationError(message: string, field: string) {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message,
+      field,
+    },
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+/**
+ * GET /api/admin/users/[userId]
+ * 사용자 상세 (해당 사용자에 대한 최근 관리자 작업 포함)
+ */
+async function handleGet(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await params;
+
+  try {
+    await requireAdmin(request, 'manage:users');
+    const [user, auditLog] = await Promise.all([
+      getUserDirectory().get(userId),
+      getAuditLogRepository().list({
+        targetId: userId,
+        limit: ADMIN_SETTINGS.AUDIT_LOG_LIMIT,
+      }),
+    ]);
+    if (!user) throw new NotFoundError('사용자를 찾을 수 없습니다.');
+
+    return NextResponse.json({
+      success: true,
+      data: { user, auditLog },
+      timestamp: new Date().toISOString()
+    }, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '사용자 정보를 불러오는데 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+/**
+ * PATCH /api/admin/users/[userId]
+ * 계정 활성화/비활성화, 역할 변경 (body: { isActive?, role?, reason? })
+ */
+async function handlePatch(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await params;
+  const body = await request.json().catch(() => null);
+
+  if (body?.isActive === undefined && body?.role === undefined) {
+    return validationError('isActive 또는 role이 필요합니다.', 'isActive');
+  }
+  if (body.isActive !== undefined && typeof body.isActive !== 'boolean') {
+    return validationError('isActive는 true 또는 false여야 합니다.', 'isActive');
+  }
+  if (body.role !== undefined && !ROLES.includes(body.role)) {
+    return validationError(`role은 ${ROLES.join(', ')} 중 하나여야 합니다.`, 'role');
+  }
+  if (body.reason !== undefined && typeof body.reason !== 'string') {
+    return validationError('사유는 문자열이어야 합니다.', 'reason');
+  }
+
+  try {
+    const admin = await requireAdmin(request, 'manage:users');
+    const user = await updateUserAccount(getAdminRepositories(), admin, userId, {
+      isActive: body.isActive,
+      role: body.role,
+      reason: body.reason,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: user,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '사용자 계정을 변경하지 못했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const GET = withRateLimit('ADMIN', handleGet);
+export const PATCH = withRateLimit('ADMIN', handlePatch);
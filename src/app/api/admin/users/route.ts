@@ -0,0 +1,79 @@
+/**
+ * 관리자 사용자 검색 API Route
+ *
+ * Authorization: Bearer <관리자 Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { UserRole } from '@/types/user';
+import { ADMIN_SETTINGS } from '@/utils/constants/api';
+import { MAX_PAGE_SIZE, USER_ROLE_LABELS } from '@/utils/constants';
+import { getUserDirectory, requireAdmin } from '@/services/server/admin';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+const ROLES = Object.keys(USER_ROLE_LABELS) as UserRole[];
+
+/**
+ * 검증 오류 응답
+ */
+function validationError(message: string, field: string) {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message,
+      field,
+    },
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+/**
+ * GET /api/admin/users?keyword={검색어}&role={역할}&status={active|inactive}&page={페이지}&pageSize={페이지 크기}
+ * 사용자 검색 (최근 가입 순)
+ */
+async function handleGet(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const role = searchParams.get('role');
+  const status = searchParams.get('status');
+  const page = Number(searchParams.get('page') ?? 1);
+  const pageSize = Number(searchParams.get('pageSize') ?? ADMIN_SETTINGS.USER_PAGE_SIZE);
+
+  if (role && !ROLES.includes(role as UserRole)) {
+    return validationError(`role은 ${ROLES.join(', ')} 중 하나여야 합니다.`, 'role');
+  }
+  if (status && status !== 'active' && status !== 'inactive') {
+    return validationError('status는 active 또는 inactive여야 합니다.', 'status');
+  }
+  if (!Number.isInteger(page) || page < 1) {
+    return validationError('page는 1 이상의 정수여야 합니다.', 'page');
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return validationError(`pageSize는 1~${MAX_PAGE_SIZE} 사이의 정수여야 합니다.`, 'pageSize');
+  }
+
+  try {
+    await requireAdmin(request, 'manage:users');
+    const result = await getUserDirectory().search({
+      keyword: searchParams.get('keyword') ?? undefined,
+      role: (role as UserRole | null) ?? undefined,
+      isActive: status ? status === 'active' : undefined,
+      page,
+      pageSize,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '사용자 목록을 불러오는데 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const GET = withRateLimit('ADMIN', handleGet);
@@ -0,0 +1,70 @@
+/**
+ * 유기동물 상세 API Route
+ *
+ * 유기번호(desertionNo)로 동물 한 마리를 조회합니다.
+ * 서버 인덱스를 우선 사용하고, 없으면 제한된 폴백 검색을 수행합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { AnimalDetailResult } from '@/types/api';
+import { lookupAnimal } from '@/services/server/animal-index';
+import { lookupAnimalImageMetadata } from '@/services/server/images';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * GET /api/animals/[desertionNo]
+ * 유기동물 상세 조회
+ */
+async function handleGet(
+  _request: NextRequest,
+  { params }: { params: Promise<{ desertionNo: string }> }
+) {
+  const { desertionNo } = await params;
+
+  if (!/^\d+$/.test(desertionNo)) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '유효하지 않은 유기번호입니다.',
+        field: 'desertionNo',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const { animal, source, upstreamRequests } = await lookupAnimal(desertionNo);
+
+    if (!animal) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'RESOURCE_NOT_FOUND',
+          message: '해당 동물을 찾을 수 없습니다.',
+          details: { desertionNo, upstreamRequests },
+        },
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    const data: AnimalDetailResult = {
+      animal,
+      images: await lookupAnimalImageMetadata([animal]),
+    };
+
+    return NextResponse.json({
+      success: true,
+      data,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: { 'X-Animal-Lookup': source },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '상세 정보를 불러오는데 실패했습니다.');
+  }
+}
+
+export const GET = withRateLimit('PUBLIC_DATA', handleGet);
@@ -6,64 +6,37 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import type { AnimalApiParams, PublicDataResponse, AbandonmentAnimalItem } from '@/types/api';
-
-const API_BASE_URL = 'https://apis.data.go.kr/1543061/abandonmentPublicService_v2';
-const API_KEY = process.env.ANIMAL_API_KEY; // NEXT_PUBLIC_ 제거
-
-/**
- * 공통 API 요청 함수 (서버사이드)
- */
-async function fetchFromPublicAPI<T>(
-  endpoint: string, 
-  params: Record<string, string | number>
-): Promise<PublicDataResponse<T>> {
-  if (!API_KEY) {
-    throw new Error('API 키가 설정되지 않았습니다. 환경변수를 확인해주세요.');
-  }
-
-  const queryParams = new URLSearchParams({
-    serviceKey: API_KEY,
-    _type: 'json',
-    ...params
-  });
-
-  const url = `${API_BASE_URL}/${endpoint}?${queryParams.toString()}`;
-  
-  try {
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
-
-
-    if (!response.ok) {
-      throw new Error(`HTTP Error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    
-    // API 응답 상태 체크
-    if (data.response?.header?.resultCode !== '00') {
-      throw new Error(
-        data.response?.header?.resultMsg || 'API 요청에 실패했습니다.'
-      );
-    }
-
-    return data;
-  } catch (error) {
-    throw error;
-  }
-}
+import type {
+  AnimalApiParams,
+  AbandonmentAnimalItem,
+  AnimalListResult,
+  AnimalSearchResult,
+} from '@/types/api';
+import { FILTERED_SEARCH_SETTINGS } from '@/utils/constants/api';
+import {
+  fetchFromPublicAPICached,
+  buildCacheHeaders,
+  PUBLIC_API_ENDPOINTS,
+} from '@/services/server/public-data-client';
+import { animalIndex } from '@/services/server/animal-index';
+import { extractAnimalRecords } from '@/services/server/animal-records';
+import { lookupAnimalImageMetadata } from '@/services/server/images';
+import { runFilteredSearch } from '@/services/server/filtered-search';
+import {
+  getAnimalMirrorStore,
+  searchAnimalMirror,
+} from '@/services/server/mirror';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
 
 /**
  * GET /api/animals
  * 유기동물 목록 조회
+ *
+ * 업스트림 레코드를 검증하여 형식이 잘못된 레코드는 제외하고,
+ * 제외(dropped)/보정(repaired) 건수를 validation으로 함께 반환합니다.
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     
@@ -85,47 +58,72 @@ export async function GET(request: NextRequest) {
     if (searchParams.get('neut_yn')) params.neut_yn = searchParams.get('neut_yn')!;
 
     // 공공데이터 API 호출
-    const response = await fetchFromPublicAPI<AbandonmentAnimalItem>(
-      'abandonmentPublic_v2',
+    const cached = await fetchFromPublicAPICached<AbandonmentAnimalItem>(
+      PUBLIC_API_ENDPOINTS.ANIMALS,
       params
     );
-
-    const animals = response.response.body.items?.item || [];
-    const totalCount = response.response.body.totalCount || 0;
-    const pageNo = response.response.body.pageNo || 1;
-    const numOfRows = response.response.body.numOfRows || 0;
+    const response = cached.value;
+
+    const { animals, dropped, repaired } = extractAnimalRecords(response);
+    animalIndex.remember(animals);
+
+    const data: AnimalListResult = {
+      animals,
+      totalCount: response.response.body.totalCount || 0,
+      pageNo: response.response.body.pageNo || 1,
+      numOfRows: response.response.body.numOfRows || 0,
+      validation: { dropped, repaired },
+      images: await lookupAnimalImageMetadata(animals),
+    };
 
     // 클라이언트에 반환
     return NextResponse.json({
       success: true,
-      data: {
-        animals,
-        totalCount,
-        pageNo,
-        numOfRows
-      },
+      data,
       timestamp: new Date().toISOString()
+    }, {
+      headers: buildCacheHeaders([cached]),
     });
 
   } catch (error) {
-    return NextResponse.json({
-      success: false,
-      error: {
-        code: 'EXTERNAL_SERVICE_ERROR',
-        message: error instanceof Error ? error.message : '데이터를 불러오는데 실패했습니다.',
-      },
-      timestamp: new Date().toISOString()
-    }, { status: 500 });
+    return apiErrorResponse(error, '데이터를 불러오는데 실패했습니다.');
   }
 }
 
 /**
  * POST /api/animals
  * 유기동물 검색 (복잡한 파라미터를 body로 전달)
+ *
+ * 키워드/성별처럼 업스트림이 지원하지 않는 조건은 서버에서 필터링하며,
+ * 요청한 개수를 채울 때까지 업스트림 페이지를 이어서 조회합니다.
+ * 다음 페이지는 응답의 nextCursor를 body의 cursor로 전달해 조회합니다.
+ *
+ * mode: "mirror"이면 동기화된 로컬 미러에서 전문 검색, 다중 값 필터,
+ * 패싯 집계를 수행합니다.
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     const body = await request.json();
+
+    if (body.mode === 'mirror') {
+      const store = getAnimalMirrorStore();
+      if (!store) {
+        return NextResponse.json({
+          success: false,
+          error: {
+            code: 'SERVICE_UNAVAILABLE',
+            message: '유기동물 미러가 설정되지 않았습니다.',
+          },
+          timestamp: new Date().toISOString()
+        }, { status: 503 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: await searchAnimalMirror(store, body),
+        timestamp: new Date().toISOString()
+      });
+    }
     
     const {
       keyword,
@@ -135,15 +133,20 @@ export async function POST(request: NextRequest) {
       sido,
       sigungu,
       kind,
+      cursor,
       state = 'notice',
       pageNo = 1,
       numOfRows = 20
     } = body;
 
+    const pageSize = Math.min(
+      Math.max(parseInt(String(numOfRows)) || 20, 1),
+      FILTERED_SEARCH_SETTINGS.MAX_PAGE_SIZE
+    );
+    const pageNumber = Math.max(parseInt(String(pageNo)) || 1, 1);
+
     // API 파라미터 구성
     const params: Partial<AnimalApiParams> = {
-      numOfRows,
-      pageNo,
       state
     };
 
@@ -163,53 +166,54 @@ export async function POST(request: NextRequest) {
     if (kind) params.kind = kind;
     if (neuter) params.neut_yn = neuter;
 
-    // 공공데이터 API 호출
-    const response = await fetchFromPublicAPI<AbandonmentAnimalItem>(
-      'abandonmentPublic_v2',
-      params
-    );
-
-    let animals = response.response.body.items?.item || [];
-
-    // 키워드 검색 (클라이언트 사이드 필터링)
-    if (keyword) {
-      const searchKeyword = keyword.toLowerCase();
-      animals = animals.filter(animal =>
-        animal.kindCd.toLowerCase().includes(searchKeyword) ||
-        animal.happenPlace.toLowerCase().includes(searchKeyword) ||
-        animal.specialMark.toLowerCase().includes(searchKeyword) ||
-        animal.careNm.toLowerCase().includes(searchKeyword)
-      );
-    }
-
-    // 성별 필터링 (클라이언트 사이드)
-    if (sex) {
-      animals = animals.filter(animal => animal.sexCd === sex);
-    }
+    // 서버 필터 조건 (키워드, 성별)
+    const searchKeyword = keyword ? String(keyword).toLowerCase() : '';
+    const predicate = searchKeyword || sex
+      ? (animal: AbandonmentAnimalItem) => {
+          if (sex && animal.sexCd !== sex) return false;
+          if (!searchKeyword) return true;
+          return [
+            animal.kindCd,
+            animal.kindNm,
+            animal.happenPlace,
+            animal.specialMark,
+            animal.careNm,
+          ].some((field) => field?.toLowerCase().includes(searchKeyword));
+        }
+      : undefined;
+
+    const result = await runFilteredSearch({
+      params,
+      predicate,
+      pageSize,
+      cursor,
+      skip: cursor ? 0 : (pageNumber - 1) * pageSize,
+    });
 
-    const totalCount = animals.length;
-    const pageNumber = response.response.body.pageNo || 1;
-    const itemsPerPage = response.response.body.numOfRows || 20;
+    const data: AnimalSearchResult = {
+      animals: result.animals,
+      totalCount: result.totalCount,
+      totalCountExact: result.totalCountExact,
+      pageNo: pageNumber,
+      numOfRows: pageSize,
+      nextCursor: result.nextCursor,
+      hasMore: result.nextCursor !== null,
+      validation: result.validation,
+      images: await lookupAnimalImageMetadata(result.animals),
+    };
 
     return NextResponse.json({
       success: true,
-      data: {
-        animals,
-        totalCount,
-        pageNo: pageNumber,
-        numOfRows: itemsPerPage
-      },
+      data,
       timestamp: new Date().toISOString()
+    }, {
+      headers: buildCacheHeaders(result.cacheResults),
     });
 
   } catch (error) {
-    return NextResponse.json({
-      success: false,
-      error: {
-        code: 'EXTERNAL_SERVICE_ERROR',
-        message: error instanceof Error ? error.message : '검색에 실패했습니다.',
-      },
-      timestamp: new Date().toISOString()
-    }, { status: 500 });
+    return apiErrorResponse(error, '검색에 실패했습니다.');
   }
-}
\ No newline at end of file
+}
+
+export const GET = withRateLimit('PUBLIC_DATA', handleGet);
+export const POST = withRateLimit('SEARCH', handlePost);
@@ -0,0 +1,92 @@
+/**
+ * 공고 마감 임박 피드 API Route
+ *
+ * 공고 종료일까지 남은 일수가 within 이하인 공고중 동물을 마감이 가까운 순으로 반환합니다.
+ * 축종(upkind)과 지역(upr_cd/org_cd)으로 범위를 좁힐 수 있습니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { UrgentAnimalsResult } from '@/types/api';
+import { URGENT_FEED_SETTINGS } from '@/utils/constants/api';
+import { buildCacheHeaders } from '@/services/server/public-data-client';
+import { findUrgentAnimals } from '@/services/server/urgent-animals';
+import { lookupAnimalImageMetadata } from '@/services/server/images';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * 검증 오류 응답
+ */
+function validationError(message: string, field: string) {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message,
+      field,
+    },
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+/**
+ * GET /api/animals/urgent
+ * 공고 마감 임박 동물 조회
+ */
+async function handleGet(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  const withinDays = Number(searchParams.get('within') ?? URGENT_FEED_SETTINGS.DEFAULT_WITHIN_DAYS);
+  if (!Number.isInteger(withinDays) || withinDays < 0 || withinDays > URGENT_FEED_SETTINGS.MAX_WITHIN_DAYS) {
+    return validationError(
+      `within은 0~${URGENT_FEED_SETTINGS.MAX_WITHIN_DAYS} 사이의 정수여야 합니다.`,
+      'within'
+    );
+  }
+
+  const pageNo = Number(searchParams.get('pageNo') ?? 1);
+  const numOfRows = Number(searchParams.get('numOfRows') ?? 20);
+  if (!Number.isInteger(pageNo) || pageNo < 1) {
+    return validationError('pageNo는 1 이상의 정수여야 합니다.', 'pageNo');
+  }
+  if (!Number.isInteger(numOfRows) || numOfRows < 1 || numOfRows > URGENT_FEED_SETTINGS.MAX_PAGE_SIZE) {
+    return validationError(
+      `numOfRows는 1~${URGENT_FEED_SETTINGS.MAX_PAGE_SIZE} 사이의 정수여야 합니다.`,
+      'numOfRows'
+    );
+  }
+
+  try {
+    const outcome = await findUrgentAnimals({
+      upkind: searchParams.get('upkind') || undefined,
+      uprCd: searchParams.get('upr_cd') || undefined,
+      orgCd: searchParams.get('org_cd') || undefined,
+      withinDays,
+      pageNo,
+      numOfRows,
+    });
+
+    const data: UrgentAnimalsResult = {
+      animals: outcome.animals,
+      totalCount: outcome.totalCount,
+      totalCountExact: outcome.totalCountExact,
+      pageNo,
+      numOfRows,
+      withinDays,
+      images: await lookupAnimalImageMetadata(outcome.animals),
+    };
+
+    return NextResponse.json({
+      success: true,
+      data,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: buildCacheHeaders(outcome.cacheResults),
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '마감 임박 동물을 불러오는데 실패했습니다.');
+  }
+}
+
+export const GET = withRateLimit('PUBLIC_DATA', handleGet);
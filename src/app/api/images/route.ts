@@ -0,0 +1,65 @@
+/**
+ * 보호소 사진 프록시 API Route
+ *
+ * 허용된 호스트(공공데이터 동물보호관리시스템)의 원본 사진을 한 번만 가져와
+ * 크기별(thumb/card/full) webp로 변환해 저장하고, 이후에는 저장본으로 응답합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ImageVariant } from '@/types/common';
+import { IMAGE_PROXY_SETTINGS } from '@/utils/constants/api';
+import { getImageProxy } from '@/services/server/images';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * GET /api/images?url={원본 URL}&variant={thumb|card|full}
+ * 크기별 변환 사진 조회
+ */
+async function handleGet(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const sourceUrl = searchParams.get('url');
+  const variant = (searchParams.get('variant') || 'card') as ImageVariant;
+
+  if (!sourceUrl) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '이미지 주소가 필요합니다.',
+        field: 'url',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  if (!Object.hasOwn(IMAGE_PROXY_SETTINGS.VARIANTS, variant)) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: `variant는 ${Object.keys(IMAGE_PROXY_SETTINGS.VARIANTS).join(', ')} 중 하나여야 합니다.`,
+        field: 'variant',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const { body, metadata } = await getImageProxy().getVariant(sourceUrl, variant);
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': 'image/webp',
+        'Cache-Control': `public, max-age=${IMAGE_PROXY_SETTINGS.BROWSER_CACHE_MAX_AGE}, immutable`,
+        'X-Image-Width': String(metadata.width),
+        'X-Image-Height': String(metadata.height),
+      },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '이미지를 불러오는데 실패했습니다.', 'EXTERNAL_SERVICE_ERROR');
+  }
+}
+
+export const GET = withRateLimit('IMAGES', handleGet);
@@ -0,0 +1,67 @@
+/**
+ * 품종 코드 API Route
+ *
+ * 공공데이터포털의 공식 품종 코드 목록을 조회하고
+ * 로컬 품종 메타데이터(크기, 수명, 관리 난이도)를 덧붙여 반환합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { KindInfo } from '@/types/api';
+import { PUBLIC_DATA_CACHE_SETTINGS } from '@/utils/constants/api';
+import { ANIMAL_TYPE_CODES } from '@/services/api/animal-api';
+import { mapSpeciesFromUpkind } from '@/services/api/animal-adapter';
+import { buildBreedCatalog } from '@/services/api/breed-catalog';
+import {
+  fetchFromPublicAPICached,
+  extractItems,
+  buildCacheHeaders,
+  PUBLIC_API_ENDPOINTS,
+} from '@/services/server/public-data-client';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * GET /api/kinds?upkind=
+ * 품종 코드 목록 조회 (기본값: 개)
+ */
+async function handleGet(request: NextRequest) {
+  const upkind = request.nextUrl.searchParams.get('upkind') || ANIMAL_TYPE_CODES.DOG;
+
+  if (!Object.values(ANIMAL_TYPE_CODES).includes(upkind as typeof ANIMAL_TYPE_CODES[keyof typeof ANIMAL_TYPE_CODES])) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '지원하지 않는 축종 코드입니다.',
+        field: 'upkind',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const cached = await fetchFromPublicAPICached<KindInfo>(
+      PUBLIC_API_ENDPOINTS.KIND,
+      { up_kind_cd: upkind },
+      PUBLIC_DATA_CACHE_SETTINGS.FRESH_TTL.CODES
+    );
+
+    const catalog = buildBreedCatalog(
+      extractItems(cached.value),
+      mapSpeciesFromUpkind(upkind)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: catalog,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: buildCacheHeaders([cached]),
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '품종 목록을 불러오는데 실패했습니다.');
+  }
+}
+
+export const GET = withRateLimit('PUBLIC_DATA', handleGet);
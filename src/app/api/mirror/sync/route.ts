@@ -0,0 +1,99 @@
+/**
+ * 유기동물 미러 동기화 API Route
+ *
+ * 크론 등 외부 스케줄러가 호출합니다.
+ * Authorization: Bearer ${ANIMAL_MIRROR_SYNC_SECRET} 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAnimalMirrorStore,
+  syncAnimalMirror,
+  type MirrorSyncMode,
+} from '@/services/server/mirror';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * 동기화 요청 인증 확인
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.ANIMAL_MIRROR_SYNC_SECRET;
+  return !!secret && request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+/**
+ * 인증 실패 응답
+ */
+function unauthorizedResponse() {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'AUTHENTICATION_REQUIRED',
+      message: '동기화 권한이 없습니다.',
+    },
+    timestamp: new Date().toISOString()
+  }, { status: 401 });
+}
+
+/**
+ * 미러 미설정 응답
+ */
+function mirrorDisabledResponse() {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'SERVICE_UNAVAILABLE',
+      message: '유기동물 미러가 설정되지 않았습니다.',
+    },
+    timestamp: new Date().toISOString()
+  }, { status: 503 });
+}
+
+/**
+ * GET /api/mirror/sync
+ * 동기화 상태 조회
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) return unauthorizedResponse();
+
+  const store = getAnimalMirrorStore();
+  if (!store) return mirrorDisabledResponse();
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await store.getSyncState(),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return apiErrorResponse(error, '동기화 상태를 불러오는데 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+/**
+ * POST /api/mirror/sync
+ * 동기화 실행 (body.mode: "full" | "incremental", 생략 시 자동 결정)
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) return unauthorizedResponse();
+
+  const store = getAnimalMirrorStore();
+  if (!store) return mirrorDisabledResponse();
+
+  const body = await request.json().catch(() => ({}));
+  const mode: MirrorSyncMode | undefined =
+    body.mode === 'full' || body.mode === 'incremental' ? body.mode : undefined;
+
+  try {
+    const result = await syncAnimalMirror(store, mode);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '동기화에 실패했습니다.');
+  }
+}
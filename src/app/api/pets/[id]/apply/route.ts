@@ -0,0 +1,89 @@
+/**
+ * 입양 신청 API Route
+ *
+ * 로그인한 사용자의 입양 신청서를 접수합니다.
+ * Authorization: Bearer <Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAdoptionApplicationRepository,
+  submitAdoptionApplication,
+} from '@/services/server/applications';
+import { requireRequestUserId } from '@/services/server/request-identity';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * 검증 오류 응답
+ */
+function validationError(message: string, field: string) {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message,
+      field,
+    },
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+/**
+ * 질문 ID → 답변 객체인지 확인
+ */
+function isAnswerMap(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((answer) => typeof answer === 'string')
+  );
+}
+
+/**
+ * POST /api/pets/[id]/apply
+ * 입양 신청 (body: AdoptionApplicationRequest)
+ */
+async function handlePost(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!/^\d+$/.test(id)) {
+    return validationError('유효하지 않은 유기번호입니다.', 'id');
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!isAnswerMap(body?.answers)) {
+    return validationError('신청서 답변이 필요합니다.', 'answers');
+  }
+  if (body.message !== undefined && typeof body.message !== 'string') {
+    return validationError('전하고 싶은 말은 문자열이어야 합니다.', 'message');
+  }
+
+  try {
+    const applicantId = await requireRequestUserId(request);
+    const application = await submitAdoptionApplication(
+      getAdoptionApplicationRepository(),
+      {
+        petId: id,
+        applicantId,
+        answers: body.answers,
+        message: body.message,
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: application,
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+
+  } catch (error) {
+    return apiErrorResponse(error, '입양 신청에 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const POST = withRateLimit('APPLICATIONS', handlePost);
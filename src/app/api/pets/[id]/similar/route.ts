@@ -0,0 +1,108 @@
+/**
+ * 비슷한 반려동물 API Route
+ *
+ * 유기번호(id)의 동물과 축종/품종/크기/나이대/털색/성별/지역이 비슷한
+ * 입양 가능 동물을 유사도 순으로 반환합니다.
+ * 항목별 가중치는 weight* 쿼리 파라미터(예: weightBreed=0.4)로 조정할 수 있습니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { SimilarityFactor } from '@/types/search';
+import { SIMILAR_PETS_SETTINGS } from '@/utils/constants';
+import { buildCacheHeaders } from '@/services/server/public-data-client';
+import { findSimilarPets } from '@/services/server/search';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * 가중치 쿼리 파라미터 이름
+ */
+const WEIGHT_PARAMS: Record<SimilarityFactor, string> = {
+  species: 'weightSpecies',
+  breed: 'weightBreed',
+  size: 'weightSize',
+  ageGroup: 'weightAgeGroup',
+  color: 'weightColor',
+  gender: 'weightGender',
+  region: 'weightRegion',
+};
+
+/**
+ * 검증 오류 응답
+ */
+function validationError(message: string, field: string) {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message,
+      field,
+    },
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+/**
+ * GET /api/pets/[id]/similar
+ * 비슷한 반려동물 조회
+ */
+async function handleGet(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+
+  if (!/^\d+$/.test(id)) {
+    return validationError('유효하지 않은 유기번호입니다.', 'id');
+  }
+
+  const limit = Number(searchParams.get('limit') ?? SIMILAR_PETS_SETTINGS.DEFAULT_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1 || limit > SIMILAR_PETS_SETTINGS.MAX_LIMIT) {
+    return validationError(
+      `limit은 1~${SIMILAR_PETS_SETTINGS.MAX_LIMIT} 사이의 정수여야 합니다.`,
+      'limit'
+    );
+  }
+
+  const weights: Partial<Record<SimilarityFactor, number>> = {};
+  for (const [factor, param] of Object.entries(WEIGHT_PARAMS) as [SimilarityFactor, string][]) {
+    const raw = searchParams.get(param);
+    if (raw === null) continue;
+
+    const weight = Number(raw);
+    if (!Number.isFinite(weight) || weight < 0) {
+      return validationError('가중치는 0 이상의 숫자여야 합니다.', param);
+    }
+    weights[factor] = weight;
+  }
+
+  try {
+    const outcome = await findSimilarPets(id, { limit, weights });
+
+    if (!outcome) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'RESOURCE_NOT_FOUND',
+          message: '해당 동물을 찾을 수 없습니다.',
+          details: { id },
+        },
+        timestamp: new Date().toISOString()
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: outcome.result,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: buildCacheHeaders(outcome.cacheResults),
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '비슷한 동물을 불러오는데 실패했습니다.');
+  }
+}
+
+export const GET = withRateLimit('SEARCH', handleGet);
@@ -0,0 +1,52 @@
+/**
+ * 반려동물 검색 API Route
+ *
+ * SearchRequest body의 필터(BaseSearchFilters/AdvancedSearchFilters)를 모두 적용해
+ * SearchResults를 반환합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildCacheHeaders } from '@/services/server/public-data-client';
+import { parseSearchRequest, searchPets } from '@/services/server/search';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * POST /api/pets/search
+ * 반려동물 검색
+ */
+async function handlePost(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const parsed = parseSearchRequest(body);
+
+  if (!parsed.success) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '검색 조건이 올바르지 않습니다.',
+        details: {
+          errors: parsed.errors,
+        },
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const { results, cacheResults } = await searchPets(parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      data: results,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: buildCacheHeaders(cacheResults),
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '검색에 실패했습니다.');
+  }
+}
+
+export const POST = withRateLimit('SEARCH', handlePost);
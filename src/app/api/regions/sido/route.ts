@@ -0,0 +1,44 @@
+/**
+ * 시도 코드 API Route
+ *
+ * 공공데이터포털의 시도 코드 목록을 서버사이드에서 조회합니다.
+ */
+
+import { NextResponse } from 'next/server';
+import type { SidoInfo } from '@/types/api';
+import { PUBLIC_DATA_CACHE_SETTINGS } from '@/utils/constants/api';
+import {
+  fetchFromPublicAPICached,
+  extractItems,
+  buildCacheHeaders,
+  PUBLIC_API_ENDPOINTS,
+} from '@/services/server/public-data-client';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * GET /api/regions/sido
+ * 시도 코드 목록 조회
+ */
+async function handleGet() {
+  try {
+    const cached = await fetchFromPublicAPICached<SidoInfo>(
+      PUBLIC_API_ENDPOINTS.SIDO,
+      { numOfRows: 1000, pageNo: 1 },
+      PUBLIC_DATA_CACHE_SETTINGS.FRESH_TTL.CODES
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: extractItems(cached.value),
+      timestamp: new Date().toISOString()
+    }, {
+      headers: buildCacheHeaders([cached]),
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '시도 목록을 불러오는데 실패했습니다.');
+  }
+}
+
+export const GET = withRateLimit('PUBLIC_DATA', handleGet);
@@ -0,0 +1,58 @@
+/**
+ * 시군구 코드 API Route
+ *
+ * 공공데이터포털의 시군구 코드 목록을 서버사이드에서 조회합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { SigunguInfo } from '@/types/api';
+import { PUBLIC_DATA_CACHE_SETTINGS } from '@/utils/constants/api';
+import {
+  fetchFromPublicAPICached,
+  extractItems,
+  buildCacheHeaders,
+  PUBLIC_API_ENDPOINTS,
+} from '@/services/server/public-data-client';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * GET /api/regions/sigungu?upr_cd=
+ * 시군구 코드 목록 조회
+ */
+async function handleGet(request: NextRequest) {
+  const uprCd = request.nextUrl.searchParams.get('upr_cd');
+
+  if (!uprCd) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '시도 코드(upr_cd)가 필요합니다.',
+        field: 'upr_cd',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const cached = await fetchFromPublicAPICached<SigunguInfo>(
+      PUBLIC_API_ENDPOINTS.SIGUNGU,
+      { upr_cd: uprCd },
+      PUBLIC_DATA_CACHE_SETTINGS.FRESH_TTL.CODES
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: extractItems(cached.value),
+      timestamp: new Date().toISOString()
+    }, {
+      headers: buildCacheHeaders([cached]),
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '시군구 목록을 불러오는데 실패했습니다.');
+  }
+}
+
+export const GET = withRateLimit('PUBLIC_DATA', handleGet);
@@ -0,0 +1,63 @@
+/**
+ * 신고 접수 API Route
+ *
+ * 로그인 사용자가 동물 공고, 입양 신청 메시지, 사용자를 신고하면 관리자 신고 목록에 접수됩니다.
+ * Authorization: Bearer <Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getContentReportRepository,
+  submitContentReport,
+} from '@/services/server/admin';
+import { requireRequestUserId } from '@/services/server/request-identity';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * POST /api/reports
+ * 신고 (body: { targetType, targetId, reason, details? })
+ */
+async function handlePost(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+
+  const invalidField =
+    typeof body?.targetType !== 'string' ? 'targetType'
+    : typeof body.targetId !== 'string' ? 'targetId'
+    : typeof body.reason !== 'string' ? 'reason'
+    : body.details !== undefined && typeof body.details !== 'string' ? 'details'
+    : null;
+
+  if (invalidField) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: `${invalidField} 값이 올바르지 않습니다.`,
+        field: invalidField,
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const reporterId = await requireRequestUserId(request);
+    const report = await submitContentReport(getContentReportRepository(), reporterId, {
+      targetType: body.targetType,
+      targetId: body.targetId,
+      reason: body.reason,
+      details: body.details,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+
+  } catch (error) {
+    return apiErrorResponse(error, '신고를 접수하지 못했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const POST = withRateLimit('APPLICATIONS', handlePost);
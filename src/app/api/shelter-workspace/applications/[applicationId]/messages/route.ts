@@ -0,0 +1,66 @@
+/**
+ * 보호소 → 신청자 메시지 API Route
+ *
+ * Authorization: Bearer <Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAdoptionApplicationRepository,
+  postApplicationMessage,
+} from '@/services/server/applications';
+import {
+  assertShelterApplicationAccess,
+  getShelterStaffRepository,
+  requireShelterStaff,
+} from '@/services/server/shelter-staff';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * POST /api/shelter-workspace/applications/[applicationId]/messages
+ * 신청자에게 메시지 보내기 (body: { body })
+ */
+async function handlePost(
+  request: NextRequest,
+  { params }: { params: Promise<{ applicationId: string }> }
+) {
+  const { applicationId } = await params;
+  const body = await request.json().catch(() => null);
+
+  if (typeof body?.body !== 'string') {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '메시지를 입력해주세요.',
+        field: 'body',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const staff = await requireShelterStaff(request, getShelterStaffRepository());
+    const repository = getAdoptionApplicationRepository();
+    const application = await repository.get(applicationId);
+    assertShelterApplicationAccess(staff, application);
+
+    const message = await postApplicationMessage(repository, application, {
+      senderId: staff.userId,
+      senderRole: 'shelter',
+      body: body.body,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: message,
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+
+  } catch (error) {
+    return apiErrorResponse(error, '메시지를 보내지 못했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const POST = withRateLimit('APPLICATIONS', handlePost);
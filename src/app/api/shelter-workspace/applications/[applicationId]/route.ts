@@ -0,0 +1,108 @@
+/**
+ * 보호소 입양 신청 상세/검토 API Route
+ *
+ * 직원은 소속된 보호소의 신청만 조회하고 승인/거절할 수 있습니다.
+ * Authorization: Bearer <Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAdoptionApplicationRepository,
+  reviewAdoptionApplication,
+} from '@/services/server/applications';
+import {
+  assertShelterApplicationAccess,
+  getShelterStaffRepository,
+  requireShelterStaff,
+} from '@/services/server/shelter-staff';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+type RouteContext = { params: Promise<{ applicationId: string }> };
+
+/**
+ * GET /api/shelter-workspace/applications/[applicationId]
+ * 입양 신청 상세 (신청서 + 메시지)
+ */
+async function handleGet(request: NextRequest, { params }: RouteContext) {
+  const { applicationId } = await params;
+
+  try {
+    const staff = await requireShelterStaff(request, getShelterStaffRepository());
+    const repository = getAdoptionApplicationRepository();
+    const application = await repository.get(applicationId);
+    assertShelterApplicationAccess(staff, application);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        application,
+        messages: await repository.listMessages(application.id),
+      },
+      timestamp: new Date().toISOString()
+    }, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '입양 신청을 불러오는데 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+/**
+ * PATCH /api/shelter-workspace/applications/[applicationId]
+ * 입양 신청 검토 (body: { status: "approved" | "rejected", reviewNotes? })
+ */
+async function handlePatch(request: NextRequest, { params }: RouteContext) {
+  const { applicationId } = await params;
+  const body = await request.json().catch(() => null);
+
+  if (body?.status !== 'approved' && body?.status !== 'rejected') {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'status는 approved 또는 rejected여야 합니다.',
+        field: 'status',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  if (body.reviewNotes !== undefined && typeof body.reviewNotes !== 'string') {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '검토 메모는 문자열이어야 합니다.',
+        field: 'reviewNotes',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const staff = await requireShelterStaff(request, getShelterStaffRepository());
+    const repository = getAdoptionApplicationRepository();
+    const application = await repository.get(applicationId);
+    assertShelterApplicationAccess(staff, application);
+
+    const updated = await reviewAdoptionApplication(repository, application, {
+      status: body.status,
+      reviewerId: staff.userId,
+      reviewNotes: body.reviewNotes,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '입양 신청을 검토하지 못했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const GET = withRateLimit('SEARCH', handleGet);
+export const PATCH = withRateLimit('APPLICATIONS', handlePatch);
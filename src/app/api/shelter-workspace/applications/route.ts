@@ -0,0 +1,82 @@
+/**
+ * 보호소 입양 신청 목록 API Route
+ *
+ * 직원이 소속된 보호소의 동물에 접수된 입양 신청만 반환합니다.
+ * Authorization: Bearer <Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { AdoptionApplicationStatus } from '@/types/pet';
+import { APPLICATION_STATUS } from '@/utils/constants';
+import { getAdoptionApplicationRepository } from '@/services/server/applications';
+import {
+  getShelterStaffRepository,
+  requireShelterStaff,
+} from '@/services/server/shelter-staff';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+const STATUSES = Object.values(APPLICATION_STATUS) as AdoptionApplicationStatus[];
+
+/**
+ * 검증 오류 응답
+ */
+function validationError(message: string, field: string) {
+  return NextResponse.json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message,
+      field,
+    },
+    timestamp: new Date().toISOString()
+  }, { status: 400 });
+}
+
+/**
+ * GET /api/shelter-workspace/applications?careRegNo={보호소 번호}&status={상태}
+ * 보호소 입양 신청 목록 (careRegNo 생략 시 소속된 모든 보호소)
+ */
+async function handleGet(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const careRegNo = searchParams.get('careRegNo');
+  const status = searchParams.get('status');
+
+  if (status && !STATUSES.includes(status as AdoptionApplicationStatus)) {
+    return validationError(`status는 ${STATUSES.join(', ')} 중 하나여야 합니다.`, 'status');
+  }
+
+  try {
+    const staff = await requireShelterStaff(request, getShelterStaffRepository());
+
+    if (careRegNo && !staff.careRegNos.includes(careRegNo)) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'AUTHORIZATION_DENIED',
+          message: '소속된 보호소의 신청만 볼 수 있습니다.',
+          field: 'careRegNo',
+        },
+        timestamp: new Date().toISOString()
+      }, { status: 403 });
+    }
+
+    const applications = await getAdoptionApplicationRepository().list({
+      careRegNos: careRegNo ? [careRegNo] : staff.careRegNos,
+      statuses: status ? [status as AdoptionApplicationStatus] : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: applications,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '입양 신청 목록을 불러오는데 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const GET = withRateLimit('SEARCH', handleGet);
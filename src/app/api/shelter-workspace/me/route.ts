@@ -0,0 +1,78 @@
+/**
+ * 보호소 직원 소속 API Route
+ *
+ * 소속 보호소를 조회하고, 새 보호소 소속을 신청합니다 (관리자 확인 후 업무 공간 이용 가능).
+ * Authorization: Bearer <Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getShelterStaffRepository,
+  requestShelterMembership,
+} from '@/services/server/shelter-staff';
+import { requireRequestUserId } from '@/services/server/request-identity';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * GET /api/shelter-workspace/me
+ * 요청자의 보호소 소속 목록 (확인 대기/거절된 소속 포함)
+ */
+async function handleGet(request: NextRequest) {
+  try {
+    const userId = await requireRequestUserId(request);
+    const memberships = await getShelterStaffRepository().listByUser(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: memberships,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '보호소 소속 정보를 불러오는데 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+/**
+ * POST /api/shelter-workspace/me
+ * 보호소 소속 신청 (body: { careRegNo, careNm })
+ */
+async function handlePost(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+
+  if (typeof body?.careRegNo !== 'string' || typeof body?.careNm !== 'string') {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '보호소 번호와 보호소명이 필요합니다.',
+        field: typeof body?.careRegNo !== 'string' ? 'careRegNo' : 'careNm',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const userId = await requireRequestUserId(request);
+    const membership = await requestShelterMembership(getShelterStaffRepository(), {
+      userId,
+      careRegNo: body.careRegNo,
+      careNm: body.careNm,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: membership,
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+
+  } catch (error) {
+    return apiErrorResponse(error, '보호소 소속을 신청하지 못했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const GET = withRateLimit('SEARCH', handleGet);
+export const POST = withRateLimit('APPLICATIONS', handlePost);
@@ -0,0 +1,63 @@
+/**
+ * 보호소 상세 API Route
+ *
+ * 보호소 번호(careRegNo)로 보호소 연락처/주소, 구분별 동물 목록,
+ * 최근 입소/종료 통계를 조회합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ShelterDetail } from '@/types/api';
+import { buildCacheHeaders } from '@/services/server/public-data-client';
+import { findShelterDetail } from '@/services/server/shelter-detail';
+import { lookupAnimalImageMetadata } from '@/services/server/images';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * GET /api/shelters/[careRegNo]
+ * 보호소 상세 조회
+ */
+async function handleGet(
+  _request: NextRequest,
+  { params }: { params: Promise<{ careRegNo: string }> }
+) {
+  const { careRegNo } = await params;
+
+  if (!/^\d+$/.test(careRegNo)) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '유효하지 않은 보호소 번호입니다.',
+        field: 'careRegNo',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const { detail, cacheResults } = await findShelterDetail(careRegNo);
+
+    const data: ShelterDetail = {
+      ...detail,
+      images: await lookupAnimalImageMetadata([
+        ...detail.animals.notice,
+        ...detail.animals.protect,
+        ...detail.animals.ended,
+      ]),
+    };
+
+    return NextResponse.json({
+      success: true,
+      data,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: buildCacheHeaders(cacheResults),
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '보호소 정보를 불러오는데 실패했습니다.');
+  }
+}
+
+export const GET = withRateLimit('PUBLIC_DATA', handleGet);
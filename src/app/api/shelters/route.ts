@@ -0,0 +1,60 @@
+/**
+ * 보호소 API Route
+ *
+ * 공공데이터포털의 지역별 보호소 목록을 서버사이드에서 조회합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ShelterInfo } from '@/types/api';
+import { PUBLIC_DATA_CACHE_SETTINGS } from '@/utils/constants/api';
+import {
+  fetchFromPublicAPICached,
+  extractItems,
+  buildCacheHeaders,
+  PUBLIC_API_ENDPOINTS,
+} from '@/services/server/public-data-client';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * GET /api/shelters?upr_cd=&org_cd=
+ * 보호소 목록 조회
+ */
+async function handleGet(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const uprCd = searchParams.get('upr_cd');
+  const orgCd = searchParams.get('org_cd');
+
+  if (!uprCd || !orgCd) {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '시도 코드(upr_cd)와 시군구 코드(org_cd)가 필요합니다.',
+        field: !uprCd ? 'upr_cd' : 'org_cd',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const cached = await fetchFromPublicAPICached<ShelterInfo>(
+      PUBLIC_API_ENDPOINTS.SHELTER,
+      { upr_cd: uprCd, org_cd: orgCd },
+      PUBLIC_DATA_CACHE_SETTINGS.FRESH_TTL.CODES
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: extractItems(cached.value),
+      timestamp: new Date().toISOString()
+    }, {
+      headers: buildCacheHeaders([cached]),
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '보호소 목록을 불러오는데 실패했습니다.');
+  }
+}
+
+export const GET = withRateLimit('PUBLIC_DATA', handleGet);
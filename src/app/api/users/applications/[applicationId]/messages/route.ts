@@ -0,0 +1,88 @@
+/**
+ * 내 입양 신청 메시지 API Route
+ *
+ * 신청자와 보호소가 주고받은 메시지를 조회하고, 보호소에 답장합니다.
+ * Authorization: Bearer <Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  findApplicantApplication,
+  getAdoptionApplicationRepository,
+  postApplicationMessage,
+} from '@/services/server/applications';
+import { requireRequestUserId } from '@/services/server/request-identity';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+type RouteContext = { params: Promise<{ applicationId: string }> };
+
+/**
+ * GET /api/users/applications/[applicationId]/messages
+ * 메시지 목록 (오래된 순)
+ */
+async function handleGet(request: NextRequest, { params }: RouteContext) {
+  const { applicationId } = await params;
+
+  try {
+    const applicantId = await requireRequestUserId(request);
+    const repository = getAdoptionApplicationRepository();
+    const application = await findApplicantApplication(repository, applicationId, applicantId);
+
+    return NextResponse.json({
+      success: true,
+      data: await repository.listMessages(application.id),
+      timestamp: new Date().toISOString()
+    }, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '메시지를 불러오는데 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+/**
+ * POST /api/users/applications/[applicationId]/messages
+ * 보호소에 답장 (body: { body })
+ */
+async function handlePost(request: NextRequest, { params }: RouteContext) {
+  const { applicationId } = await params;
+  const body = await request.json().catch(() => null);
+
+  if (typeof body?.body !== 'string') {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '메시지를 입력해주세요.',
+        field: 'body',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const applicantId = await requireRequestUserId(request);
+    const repository = getAdoptionApplicationRepository();
+    const application = await findApplicantApplication(repository, applicationId, applicantId);
+
+    const message = await postApplicationMessage(repository, application, {
+      senderId: applicantId,
+      senderRole: 'applicant',
+      body: body.body,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: message,
+      timestamp: new Date().toISOString()
+    }, { status: 201 });
+
+  } catch (error) {
+    return apiErrorResponse(error, '메시지를 보내지 못했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const GET = withRateLimit('SEARCH', handleGet);
+export const POST = withRateLimit('APPLICATIONS', handlePost);
@@ -0,0 +1,59 @@
+/**
+ * 내 입양 신청 상태 변경 API Route
+ *
+ * 신청자는 검토 중인 신청을 철회(withdrawn)할 수만 있습니다.
+ * Authorization: Bearer <Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAdoptionApplicationRepository,
+  withdrawAdoptionApplication,
+} from '@/services/server/applications';
+import { requireRequestUserId } from '@/services/server/request-identity';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * PATCH /api/users/applications/[applicationId]
+ * 입양 신청 철회 (body: { status: "withdrawn" })
+ */
+async function handlePatch(
+  request: NextRequest,
+  { params }: { params: Promise<{ applicationId: string }> }
+) {
+  const { applicationId } = await params;
+  const body = await request.json().catch(() => null);
+
+  if (body?.status !== 'withdrawn') {
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '신청자는 입양 신청을 철회(withdrawn)할 수만 있습니다.',
+        field: 'status',
+      },
+      timestamp: new Date().toISOString()
+    }, { status: 400 });
+  }
+
+  try {
+    const applicantId = await requireRequestUserId(request);
+    const application = await withdrawAdoptionApplication(
+      getAdoptionApplicationRepository(),
+      applicationId,
+      applicantId
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: application,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '입양 신청을 철회하지 못했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const PATCH = withRateLimit('APPLICATIONS', handlePatch);
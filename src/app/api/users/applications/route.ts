@@ -0,0 +1,35 @@
+/**
+ * 내 입양 신청 목록 API Route
+ *
+ * Authorization: Bearer <Supabase 액세스 토큰> 헤더가 필요합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdoptionApplicationRepository } from '@/services/server/applications';
+import { requireRequestUserId } from '@/services/server/request-identity';
+import { withRateLimit } from '@/services/server/rate-limit';
+import { apiErrorResponse } from '@/services/server/api-response';
+
+/**
+ * GET /api/users/applications
+ * 내 입양 신청 목록 (최근 신청 순)
+ */
+async function handleGet(request: NextRequest) {
+  try {
+    const applicantId = await requireRequestUserId(request);
+    const applications = await getAdoptionApplicationRepository().list({ applicantId });
+
+    return NextResponse.json({
+      success: true,
+      data: applications,
+      timestamp: new Date().toISOString()
+    }, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+
+  } catch (error) {
+    return apiErrorResponse(error, '입양 신청 내역을 불러오는데 실패했습니다.', 'DATABASE_ERROR');
+  }
+}
+
+export const GET = withRateLimit('SEARCH', handleGet);
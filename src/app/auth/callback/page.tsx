@@ -10,8 +10,9 @@
 import { useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabase";
-import { useAuthStore } from "@/stores";
-import { ROUTES } from "@/utils/constants";
+import { resolveRedirectPath } from "@/services/api/permissions";
+import { resolveUserRole, useAuthStore } from "@/stores";
+import { ROUTES, STORAGE_KEYS } from "@/utils/constants";
 import { toast } from "sonner";
 
 /**
@@ -52,6 +53,7 @@ export default function AuthCallbackPage() {
               "사용자",
             profileImage:
               user.user_metadata?.avatar_url || user.user_metadata?.picture,
+            role: resolveUserRole(user.app_metadata),
             provider: user.app_metadata?.provider,
             createdAt: user.created_at,
             // Progressive Profiling을 위한 필드들
@@ -63,6 +65,13 @@ export default function AuthCallbackPage() {
 
           setAuthenticated(true);
 
+          // 로그인 필요 페이지에서 왔다면 원래 가려던 페이지로
+          const redirectPath = resolveRedirectPath(
+            sessionStorage.getItem(STORAGE_KEYS.AUTH_REDIRECT),
+            ROUTES.HOME
+          );
+          sessionStorage.removeItem(STORAGE_KEYS.AUTH_REDIRECT);
+
           // 신규 사용자인지 확인 (가입일이 최근 1분 이내)
           const isNewUser =
             new Date().getTime() - new Date(user.created_at).getTime() < 60000;
@@ -70,10 +79,10 @@ export default function AuthCallbackPage() {
           if (isNewUser) {
             toast.success("PawWise에 오신 것을 환영합니다! 🐾");
             // 신규 사용자는 온보딩 페이지로 (추후 구현)
-            router.push(ROUTES.HOME);
+            router.push(redirectPath);
           } else {
             toast.success("다시 오신 것을 환영합니다!");
-            router.push(ROUTES.HOME);
+            router.push(redirectPath);
           }
         } else {
           // 세션이 없는 경우 홈으로 이동
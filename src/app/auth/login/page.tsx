@@ -0,0 +1,129 @@
+/**
+ * 로그인 필요 페이지
+ *
+ * middleware가 로그인이 필요한 페이지 요청을 보내는 페이지입니다.
+ * 로그인 모달을 띄우고, 로그인을 마치면 원래 가려던 페이지로 이동시킵니다.
+ */
+
+"use client";
+
+import { use, useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Lock, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui";
+import { supabase, syncSessionCookie } from "@/lib/supabase";
+import { resolveRedirectPath } from "@/services/api/permissions";
+import { useAuthStore } from "@/stores";
+import { AUTH_REDIRECT_PARAM, ROUTES, STORAGE_KEYS } from "@/utils/constants";
+
+/** 원래 페이지로 보낸 뒤 이 시간 안에 다시 돌아오면 서버가 세션을 거절한 것으로 판단 (무한 이동 방지) */
+const FORWARD_LOOP_WINDOW = 10 * 1000;
+
+/**
+ * 로그인 필요 페이지 컴포넌트
+ *
+ * MVVM 아키텍처:
+ * - View: 이 컴포넌트 (로그인 안내 렌더링)
+ * - ViewModel: useAuthStore (로그인 모달/인증 상태 관리)
+ * - Model: Supabase Auth (세션 확인)
+ */
+export default function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ [AUTH_REDIRECT_PARAM]?: string }>;
+}) {
+  const { [AUTH_REDIRECT_PARAM]: nextParam } = use(searchParams);
+  const nextPath = resolveRedirectPath(nextParam ?? null, ROUTES.HOME);
+  const { isAuthenticated, showLogin, logout } = useAuthStore();
+  const [isRejected, setIsRejected] = useState(false);
+
+  /**
+   * 로그인 상태 확인 후 원래 페이지로 이동 (세션 쿠키를 먼저 맞춤)
+   */
+  useEffect(() => {
+    // 소셜 로그인은 콜백 페이지를 거치므로 돌아갈 경로를 보관
+    sessionStorage.setItem(STORAGE_KEYS.AUTH_REDIRECT, nextPath);
+
+    if (!isAuthenticated) {
+      showLogin();
+      return;
+    }
+
+    let cancelled = false;
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (cancelled) return;
+      if (!session) {
+        showLogin();
+        return;
+      }
+
+      const forwardedAt = Number(
+        sessionStorage.getItem(STORAGE_KEYS.AUTH_FORWARDED_AT) ?? 0
+      );
+      if (Date.now() - forwardedAt < FORWARD_LOOP_WINDOW) {
+        sessionStorage.removeItem(STORAGE_KEYS.AUTH_FORWARDED_AT);
+        setIsRejected(true);
+        return;
+      }
+
+      syncSessionCookie(session);
+      sessionStorage.setItem(STORAGE_KEYS.AUTH_FORWARDED_AT, String(Date.now()));
+      sessionStorage.removeItem(STORAGE_KEYS.AUTH_REDIRECT);
+      window.location.replace(nextPath);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, nextPath, showLogin]);
+
+  /**
+   * 다시 로그인 핸들러 (서버가 거절한 세션을 정리)
+   */
+  const handleLoginAgain = useCallback(async () => {
+    await logout();
+    setIsRejected(false);
+    showLogin();
+  }, [logout, showLogin]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="text-center max-w-sm">
+        {isRejected ? (
+          <>
+            <ShieldAlert className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">
+              로그인 정보를 확인할 수 없습니다
+            </h2>
+            <p className="text-gray-600 mb-6">
+              세션이 만료되었거나 이용이 제한된 계정일 수 있습니다.
+            </p>
+            <Button onClick={handleLoginAgain} className="px-8">
+              다시 로그인하기
+            </Button>
+          </>
+        ) : (
+          <>
+            <Lock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">
+              로그인이 필요합니다
+            </h2>
+            <p className="text-gray-600 mb-6">
+              로그인하면 요청하신 페이지로 이동합니다.
+            </p>
+            <Button onClick={showLogin} className="px-8">
+              로그인하기
+            </Button>
+          </>
+        )}
+        <Link
+          href={ROUTES.HOME}
+          className="block mt-4 text-sm text-gray-500 hover:text-gray-700"
+        >
+          홈으로 돌아가기
+        </Link>
+      </div>
+    </div>
+  );
+}
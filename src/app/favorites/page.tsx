@@ -0,0 +1,253 @@
+/**
+ * 관심 목록 페이지
+ *
+ * 관심 등록한 동물과 메모를 보여주고, 그 사이 입양되었거나
+ * 공고가 끝난 동물은 따로 표시합니다.
+ * 로그인하면 계정에 저장되어 다른 탭/기기와 동기화됩니다.
+ */
+
+"use client";
+
+import { useCallback, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { ArrowLeft, Heart, PawPrint, PencilLine, Trash2 } from "lucide-react";
+import { Badge, Button, Card, Textarea } from "@/components/ui";
+import { MobileNavigation } from "@/components/common/mobile-navigation";
+import { useFavoritePets, type FavoritePetItem } from "@/hooks/use-favorites";
+import { useToastDebounce } from "@/hooks/use-toast-debounce";
+import { isFavoriteUnavailable } from "@/services/api/favorite-status";
+import { useAuthStore, useUserStore } from "@/stores";
+import {
+  FAVORITE_AVAILABILITY_LABELS,
+  ROUTES,
+  USER_DATA_SETTINGS,
+} from "@/utils/constants";
+
+/**
+ * 관심 동물 카드
+ *
+ * @param {object} props
+ * @param {FavoritePetItem} props.item 관심 동물 항목
+ * @param {(favoriteId: string) => void} props.onRemove 관심 해제 핸들러
+ * @param {(favoriteId: string, notes: string) => Promise<void>} props.onSaveNotes 메모 저장 핸들러
+ */
+function FavoriteCard({
+  item,
+  onRemove,
+  onSaveNotes,
+}: {
+  item: FavoritePetItem;
+  onRemove: (favoriteId: string) => void;
+  onSaveNotes: (favoriteId: string, notes: string) => Promise<void>;
+}) {
+  const { favorite, pet, availability } = item;
+  const [isEditing, setIsEditing] = useState(false);
+  const [notes, setNotes] = useState(favorite.notes ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const isUnavailable = availability !== null && isFavoriteUnavailable(availability);
+  const image = pet?.images[0];
+
+  /**
+   * 메모 저장 (실패하면 편집 상태 유지)
+   */
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    try {
+      await onSaveNotes(favorite.id, notes.trim());
+      setIsEditing(false);
+    } catch {
+      // 오류 안내는 onSaveNotes에서 처리
+    } finally {
+      setIsSaving(false);
+    }
+  }, [favorite.id, notes, onSaveNotes]);
+
+  return (
+    <Card className={`p-4 border-0 shadow-sm ${isUnavailable ? "opacity-70" : ""}`}>
+      <Link
+        href={ROUTES.ADOPTION_DETAIL(favorite.petId)}
+        className="flex items-center space-x-3"
+      >
+        <div className="relative w-16 h-16 rounded-lg bg-gray-200 overflow-hidden flex-shrink-0">
+          {image ? (
+            <Image
+              src={image.variants?.thumb ?? image.url}
+              alt={image.alt || pet?.name || "관심 동물"}
+              fill
+              unoptimized
+              className={`object-cover ${isUnavailable ? "grayscale" : ""}`}
+            />
+          ) : (
+            <div className="flex items-center justify-center w-full h-full">
+              <PawPrint className="h-6 w-6 text-gray-400" />
+            </div>
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900 truncate">
+              {pet?.name ?? `공고번호 ${favorite.petId}`}
+            </h3>
+            {availability && (
+              <Badge variant={isUnavailable ? "destructive" : "secondary"}>
+                {FAVORITE_AVAILABILITY_LABELS[availability]}
+              </Badge>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            {new Date(favorite.createdAt).toLocaleDateString("ko-KR")} 관심 등록
+          </p>
+        </div>
+      </Link>
+
+      {isEditing ? (
+        <div className="mt-3 space-y-2">
+          <Textarea
+            value={notes}
+            maxLength={USER_DATA_SETTINGS.FAVORITE_NOTES_MAX_LENGTH}
+            placeholder="이 아이에 대해 기억해 두고 싶은 점을 적어 주세요"
+            onChange={(event) => setNotes(event.target.value)}
+          />
+          <div className="flex justify-end space-x-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={isSaving}
+              onClick={() => {
+                setNotes(favorite.notes ?? "");
+                setIsEditing(false);
+              }}
+            >
+              취소
+            </Button>
+            <Button size="sm" disabled={isSaving} onClick={handleSave}>
+              저장
+            </Button>
+          </div>
+        </div>
+      ) : (
+        favorite.notes && (
+          <p className="mt-3 rounded-lg bg-gray-50 p-3 text-sm text-gray-700 whitespace-pre-wrap">
+            {favorite.notes}
+          </p>
+        )
+      )}
+
+      {!isEditing && (
+        <div className="mt-3 flex items-center justify-end space-x-2">
+          <Button size="sm" variant="ghost" onClick={() => setIsEditing(true)}>
+            <PencilLine className="w-4 h-4 mr-1" />
+            {favorite.notes ? "메모 수정" : "메모 추가"}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onRemove(favorite.id)}>
+            <Trash2 className="w-4 h-4 mr-1" />
+            관심 해제
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * 관심 목록 페이지 컴포넌트
+ *
+ * MVVM 아키텍처:
+ * - View: 이 컴포넌트 (관심 목록 UI 렌더링)
+ * - ViewModel: useFavoritePets, useUserStore (관심 목록 조회/변경)
+ * - Model: 사용자 데이터 서비스, 반려동물 상세 API
+ */
+export default function FavoritesPage() {
+  const { isAuthenticated, showLogin } = useAuthStore();
+  const { removeFromFavorites, updateFavoriteNotes } = useUserStore();
+  const { items, unavailableCount, isLoading, error } = useFavoritePets();
+  const toast = useToastDebounce({ delay: 1000 });
+
+  /**
+   * 관심 해제 핸들러
+   */
+  const handleRemove = useCallback(
+    (favoriteId: string) => {
+      removeFromFavorites(favoriteId)
+        .then(() => toast.success("관심 동물에서 해제했습니다."))
+        .catch((error: Error) => toast.error(error.message));
+    },
+    [removeFromFavorites, toast]
+  );
+
+  /**
+   * 메모 저장 핸들러
+   */
+  const handleSaveNotes = useCallback(
+    (favoriteId: string, notes: string) =>
+      updateFavoriteNotes(favoriteId, notes).catch((error: Error) => {
+        toast.error(error.message);
+        throw error;
+      }),
+    [updateFavoriteNotes, toast]
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* 상단 헤더 */}
+      <header className="bg-white border-b border-gray-200 px-4 py-3 sticky top-0 z-50">
+        <div className="flex items-center space-x-4">
+          <Link href={ROUTES.PROFILE}>
+            <ArrowLeft className="h-6 w-6 text-gray-600" />
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900">관심 목록</h1>
+        </div>
+      </header>
+
+      <main className="pb-20 px-4 py-6">
+        {!isAuthenticated && items.length > 0 && (
+          <Card className="p-4 mb-4 border-0 shadow-sm bg-blue-50">
+            <p className="text-sm text-blue-900 mb-3">
+              지금은 이 기기에만 저장되어 있어요. 로그인하면 계정에 옮겨져 다른 기기에서도 볼 수 있어요.
+            </p>
+            <Button size="sm" onClick={showLogin}>
+              로그인하기
+            </Button>
+          </Card>
+        )}
+
+        {unavailableCount > 0 && (
+          <p className="mb-4 text-sm text-gray-600">
+            {unavailableCount}마리는 입양되었거나 공고가 끝나 더 이상 신청할 수 없어요.
+          </p>
+        )}
+
+        {isLoading && items.length === 0 ? (
+          <div className="flex flex-col items-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            <p className="mt-4 text-gray-600">관심 목록을 불러오는 중...</p>
+          </div>
+        ) : error && items.length === 0 ? (
+          <p className="text-center text-gray-600 py-12">{error}</p>
+        ) : items.length === 0 ? (
+          <div className="flex flex-col items-center py-12">
+            <Heart className="h-12 w-12 text-gray-400 mb-2" />
+            <p className="text-gray-500 mb-6">아직 관심 등록한 동물이 없습니다</p>
+            <Button asChild variant="outline">
+              <Link href={ROUTES.ADOPTION}>입양 가능한 아이들 보기</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {items.map((item) => (
+              <FavoriteCard
+                key={item.favorite.id}
+                item={item}
+                onRemove={handleRemove}
+                onSaveNotes={handleSaveNotes}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+
+      <MobileNavigation />
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * 접근 권한 없음 페이지
+ *
+ * middleware가 권한이 없는 페이지 요청을 403 상태로 보여주는 페이지입니다.
+ */
+
+import Link from "next/link";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui";
+import { ROUTES } from "@/utils/constants";
+
+/**
+ * 접근 권한 없음 페이지 컴포넌트
+ */
+export default function ForbiddenPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="text-center max-w-sm">
+        <ShieldAlert className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">
+          접근 권한이 없습니다
+        </h2>
+        <p className="text-gray-600 mb-6">
+          이 페이지를 이용할 수 있는 계정으로 로그인해주세요.
+        </p>
+        <Button asChild className="px-8">
+          <Link href={ROUTES.HOME}>홈으로 돌아가기</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
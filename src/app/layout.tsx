@@ -1,7 +1,7 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
-import { QueryProvider } from "@/components/providers";
+import { QueryProvider, NoticeAlertWatcher } from "@/components/providers";
 import { AuthProvider } from "@/components/providers/auth-provider";
 import { Toaster } from "sonner";
 import { APP_NAME, APP_DESCRIPTION } from "@/utils/constants";
@@ -72,6 +72,7 @@ export default function RootLayout({
         <QueryProvider>
           <AuthProvider>
             {children}
+            <NoticeAlertWatcher />
             <Toaster
               position="top-right"
               richColors
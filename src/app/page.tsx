@@ -210,7 +210,10 @@ export default function MobileHomePage() {
                           <div className="w-16 h-16 bg-gray-200 rounded-lg overflow-hidden">
                             {pet.images && pet.images.length > 0 ? (
                               <Image
-                                src={pet.images[0].url}
+                                src={pet.images[0].variants?.thumb ?? pet.images[0].url}
+                                placeholder={pet.images[0].blurDataURL ? "blur" : "empty"}
+                                blurDataURL={pet.images[0].blurDataURL}
+                                unoptimized
                                 alt={pet.name}
                                 width={64}
                                 height={64}
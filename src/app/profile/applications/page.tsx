@@ -0,0 +1,264 @@
+/**
+ * 내 입양 신청 페이지
+ *
+ * 로그인한 사용자의 입양 신청 내역과 진행 상태를 보여주고,
+ * 검토 중인 신청은 철회할 수 있습니다.
+ */
+
+"use client";
+
+import { useCallback, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { ArrowLeft, FileText, MessageCircle, PawPrint, Phone } from "lucide-react";
+import { Button, Card } from "@/components/ui";
+import { MobileNavigation } from "@/components/common/mobile-navigation";
+import { ShelterNameLink } from "@/components/shelters";
+import {
+  ApplicationMessageThread,
+  ApplicationStatusBadge,
+} from "@/components/applications";
+import {
+  useApplicationMessages,
+  useMyApplications,
+  useSendApplicationMessage,
+  useWithdrawApplication,
+} from "@/hooks/use-applications";
+import { useToastDebounce } from "@/hooks/use-toast-debounce";
+import { canTransitionApplication } from "@/services/api/adoption-application";
+import { buildImageProxyUrl } from "@/services/api/image-url";
+import { useAuthStore } from "@/stores";
+import type { AdoptionApplication } from "@/types/pet";
+import { ROUTES } from "@/utils/constants";
+
+/**
+ * 보호소와 주고받은 메시지
+ *
+ * @param {object} props
+ * @param {AdoptionApplication} props.application 입양 신청
+ */
+function ApplicantMessages({ application }: { application: AdoptionApplication }) {
+  const toast = useToastDebounce({ delay: 1000 });
+  const { data: messages, isLoading } = useApplicationMessages(application.id, true);
+  const sendMessage = useSendApplicationMessage(application.id);
+
+  /**
+   * 답장 전송 핸들러
+   */
+  const handleSend = useCallback(
+    (body: string) =>
+      sendMessage.mutateAsync(body).catch((error: Error) => {
+        toast.error(error.message);
+        throw error;
+      }),
+    [sendMessage, toast]
+  );
+
+  if (isLoading) {
+    return <p className="text-center text-sm text-gray-500 py-4">메시지를 불러오는 중...</p>;
+  }
+
+  return (
+    <ApplicationMessageThread
+      messages={messages ?? []}
+      viewerRole="applicant"
+      isSending={sendMessage.isPending}
+      disabledReason={
+        application.status === "withdrawn"
+          ? "철회된 신청에는 메시지를 보낼 수 없습니다."
+          : undefined
+      }
+      onSend={handleSend}
+    />
+  );
+}
+
+/**
+ * 입양 신청 카드
+ *
+ * @param {object} props
+ * @param {AdoptionApplication} props.application 입양 신청
+ * @param {boolean} props.isWithdrawing 철회 처리 중 여부
+ * @param {(id: string) => void} props.onWithdraw 철회 핸들러
+ */
+function ApplicationCard({
+  application,
+  isWithdrawing,
+  onWithdraw,
+}: {
+  application: AdoptionApplication;
+  isWithdrawing: boolean;
+  onWithdraw: (id: string) => void;
+}) {
+  const { pet } = application;
+  const [showMessages, setShowMessages] = useState(false);
+
+  return (
+    <Card className="p-4 border-0 shadow-sm">
+      <Link
+        href={ROUTES.ADOPTION_DETAIL(application.petId)}
+        className="flex items-center space-x-3"
+      >
+        <div className="relative w-16 h-16 rounded-lg bg-gray-200 overflow-hidden flex-shrink-0">
+          {pet.imageUrl ? (
+            <Image
+              src={buildImageProxyUrl(pet.imageUrl, "thumb")}
+              alt={pet.name}
+              fill
+              unoptimized
+              className="object-cover"
+            />
+          ) : (
+            <div className="flex items-center justify-center w-full h-full">
+              <PawPrint className="h-6 w-6 text-gray-400" />
+            </div>
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900 truncate">{pet.name}</h3>
+            <ApplicationStatusBadge status={application.status} />
+          </div>
+          <ShelterNameLink
+            careRegNo={pet.careRegNo}
+            name={pet.careNm}
+            nested
+            className="text-xs text-blue-600"
+          />
+          <p className="text-xs text-gray-500">
+            {new Date(application.applicationDate).toLocaleDateString("ko-KR")} 신청
+          </p>
+        </div>
+      </Link>
+
+      {application.reviewNotes && (
+        <p className="mt-3 rounded-lg bg-gray-50 p-3 text-sm text-gray-700">
+          보호소 메모: {application.reviewNotes}
+        </p>
+      )}
+
+      <div className="mt-3 flex items-center justify-end space-x-2">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setShowMessages((prev) => !prev)}
+        >
+          <MessageCircle className="w-4 h-4 mr-1" />
+          {showMessages ? "메시지 닫기" : "보호소 메시지"}
+        </Button>
+        {application.status === "approved" && pet.careTel && (
+          <Button asChild size="sm">
+            <a href={`tel:${pet.careTel}`}>
+              <Phone className="w-4 h-4 mr-1" />
+              보호소 연락
+            </a>
+          </Button>
+        )}
+        {canTransitionApplication(application.status, "withdrawn") && (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isWithdrawing}
+            onClick={() => onWithdraw(application.id)}
+          >
+            신청 철회
+          </Button>
+        )}
+      </div>
+
+      {showMessages && (
+        <div className="mt-3 border-t border-gray-100 pt-3">
+          <ApplicantMessages application={application} />
+        </div>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * 내 입양 신청 페이지 컴포넌트
+ *
+ * MVVM 아키텍처:
+ * - View: 이 컴포넌트 (신청 내역 UI 렌더링)
+ * - ViewModel: useMyApplications, useWithdrawApplication (신청 조회/철회)
+ * - Model: 입양 신청 API
+ */
+export default function MyApplicationsPage() {
+  const { isAuthenticated, showLogin } = useAuthStore();
+  const { data: applications, isLoading, error } = useMyApplications();
+  const withdraw = useWithdrawApplication();
+  const toast = useToastDebounce({ delay: 1000 });
+
+  /**
+   * 신청 철회 핸들러
+   */
+  const handleWithdraw = useCallback(
+    (applicationId: string) => {
+      if (!window.confirm("입양 신청을 철회할까요? 철회한 신청은 되돌릴 수 없습니다.")) {
+        return;
+      }
+      withdraw.mutate(applicationId, {
+        onSuccess: () => toast.success("입양 신청을 철회했습니다."),
+        onError: (error) => toast.error(error.message),
+      });
+    },
+    [withdraw, toast]
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* 상단 헤더 */}
+      <header className="bg-white border-b border-gray-200 px-4 py-3 sticky top-0 z-50">
+        <div className="flex items-center space-x-4">
+          <Link href={ROUTES.PROFILE}>
+            <ArrowLeft className="h-6 w-6 text-gray-600" />
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900">내 신청</h1>
+        </div>
+      </header>
+
+      <main className="pb-20 px-4 py-6">
+        {!isAuthenticated ? (
+          <div className="text-center py-12">
+            <p className="text-gray-600 mb-6">
+              로그인하면 입양 신청 내역을 볼 수 있어요
+            </p>
+            <Button onClick={showLogin} className="px-8">
+              로그인하기
+            </Button>
+          </div>
+        ) : isLoading ? (
+          <div className="flex flex-col items-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            <p className="mt-4 text-gray-600">신청 내역을 불러오는 중...</p>
+          </div>
+        ) : error ? (
+          <p className="text-center text-gray-600 py-12">{error.message}</p>
+        ) : !applications?.length ? (
+          <div className="flex flex-col items-center py-12">
+            <FileText className="h-12 w-12 text-gray-400 mb-2" />
+            <p className="text-gray-500 mb-6">아직 입양 신청 내역이 없습니다</p>
+            <Button asChild variant="outline">
+              <Link href={ROUTES.ADOPTION}>입양 가능한 아이들 보기</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {applications.map((application) => (
+              <ApplicationCard
+                key={application.id}
+                application={application}
+                isWithdrawing={
+                  withdraw.isPending && withdraw.variables === application.id
+                }
+                onWithdraw={handleWithdraw}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+
+      <MobileNavigation />
+    </div>
+  );
+}
@@ -9,9 +9,13 @@
 
 import { useCallback } from "react";
 import Link from "next/link";
-import { useAuthStore } from "@/stores";
+import { useAuthStore, useUserStore } from "@/stores";
+import { useMyApplications } from "@/hooks/use-applications";
+import { usePermission } from "@/hooks/use-permission";
+import { ROUTES } from "@/utils/constants";
 import { Button, Card } from "@/components/ui";
 import { MobileNavigation } from "@/components/common/mobile-navigation";
+import { RequirePermission } from "@/components/auth";
 import {
   ArrowLeft,
   User,
@@ -22,6 +26,8 @@ import {
   HelpCircle,
   LogOut,
   ChevronRight,
+  Building2,
+  ShieldCheck,
 } from "lucide-react";
 
 /**
@@ -29,12 +35,15 @@ import {
  *
  * MVVM 아키텍처:
  * - View: 이 컴포넌트 (프로필 페이지 UI 렌더링)
- * - ViewModel: useAuthStore (인증 상태 관리)
+ * - ViewModel: useAuthStore (인증 상태 관리), useUserStore (관심 목록)
  * - Model: 사용자 데이터 (스토어에서 관리)
  */
 export default function ProfilePage() {
   // ViewModel 계층 - 인증 상태 관리
   const { isAuthenticated, user, showLogin, logout } = useAuthStore();
+  const canReviewApplications = usePermission("review:applications");
+  const { data: applications } = useMyApplications();
+  const favoriteCount = useUserStore((state) => state.favorites.length);
 
   /**
    * 로그아웃 핸들러
@@ -130,35 +139,41 @@ export default function ProfilePage() {
 
             {/* 주요 메뉴 섹션 */}
             <div className="space-y-4 mb-8">
-              <Card className="p-4 border-0 shadow-sm">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-3">
-                    <Heart className="h-5 w-5 text-red-500" />
-                    <div>
-                      <h3 className="font-semibold text-gray-900">관심 목록</h3>
-                      <p className="text-sm text-gray-600">
-                        0개의 관심 반려동물
-                      </p>
+              <Link href={ROUTES.FAVORITES} className="block">
+                <Card className="p-4 border-0 shadow-sm">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <Heart className="h-5 w-5 text-red-500" />
+                      <div>
+                        <h3 className="font-semibold text-gray-900">관심 목록</h3>
+                        <p className="text-sm text-gray-600">
+                          {favoriteCount}개의 관심 반려동물
+                        </p>
+                      </div>
                     </div>
+                    <ChevronRight className="h-5 w-5 text-gray-400" />
                   </div>
-                  <ChevronRight className="h-5 w-5 text-gray-400" />
-                </div>
-              </Card>
+                </Card>
+              </Link>
 
-              <Card className="p-4 border-0 shadow-sm">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-3">
-                    <FileText className="h-5 w-5 text-blue-500" />
-                    <div>
-                      <h3 className="font-semibold text-gray-900">
-                        입양 신청 내역
-                      </h3>
-                      <p className="text-sm text-gray-600">0개의 신청</p>
+              <Link href={ROUTES.MY_APPLICATIONS} className="block">
+                <Card className="p-4 border-0 shadow-sm">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <FileText className="h-5 w-5 text-blue-500" />
+                      <div>
+                        <h3 className="font-semibold text-gray-900">
+                          입양 신청 내역
+                        </h3>
+                        <p className="text-sm text-gray-600">
+                          {applications?.length ?? 0}개의 신청
+                        </p>
+                      </div>
                     </div>
+                    <ChevronRight className="h-5 w-5 text-gray-400" />
                   </div>
-                  <ChevronRight className="h-5 w-5 text-gray-400" />
-                </div>
-              </Card>
+                </Card>
+              </Link>
 
               <Card className="p-4 border-0 shadow-sm">
                 <div className="flex items-center justify-between">
@@ -178,6 +193,50 @@ export default function ProfilePage() {
               </Card>
             </div>
 
+            {/* 보호소 직원/관리자 메뉴 */}
+            <div className="mb-8 space-y-3">
+              <Link href={ROUTES.SHELTER_WORKSPACE} className="block">
+                <Card className="p-4 border-0 shadow-sm">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <Building2 className="h-5 w-5 text-blue-600" />
+                      <div>
+                        <h3 className="font-semibold text-gray-900">
+                          보호소 업무 공간
+                        </h3>
+                        <p className="text-sm text-gray-600">
+                          {canReviewApplications
+                            ? "접수된 입양 신청 검토"
+                            : "보호소 직원이라면 소속을 신청해주세요"}
+                        </p>
+                      </div>
+                    </div>
+                    <ChevronRight className="h-5 w-5 text-gray-400" />
+                  </div>
+                </Card>
+              </Link>
+              <RequirePermission permission="access:admin">
+                <Link href={ROUTES.ADMIN} className="block">
+                  <Card className="p-4 border-0 shadow-sm">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <ShieldCheck className="h-5 w-5 text-blue-600" />
+                        <div>
+                          <h3 className="font-semibold text-gray-900">
+                            관리자 콘솔
+                          </h3>
+                          <p className="text-sm text-gray-600">
+                            사용자, 보호소 소속, 신고 관리
+                          </p>
+                        </div>
+                      </div>
+                      <ChevronRight className="h-5 w-5 text-gray-400" />
+                    </div>
+                  </Card>
+                </Link>
+              </RequirePermission>
+            </div>
+
             {/* 기타 메뉴 섹션 */}
             <div className="space-y-4 mb-8">
               <h3 className="text-lg font-semibold text-gray-900">기타</h3>
@@ -0,0 +1,244 @@
+/**
+ * 보호소 입양 신청 상세 페이지
+ *
+ * 신청서 답변을 확인하고, 검토 메모와 함께 승인/거절하며 신청자와 메시지를 주고받습니다.
+ */
+
+"use client";
+
+import { use, useCallback, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertCircle, ArrowLeft } from "lucide-react";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Textarea,
+} from "@/components/ui";
+import {
+  ApplicationMessageThread,
+  ApplicationStatusBadge,
+} from "@/components/applications";
+import {
+  useReviewApplication,
+  useSendShelterMessage,
+  useShelterApplicationDetail,
+} from "@/hooks/use-applications";
+import { useToastDebounce } from "@/hooks/use-toast-debounce";
+import { canTransitionApplication } from "@/services/api/adoption-application";
+import {
+  ADOPTION_APPLICATION_SETTINGS,
+  APPLICATION_STATUS_LABELS,
+  ROUTES,
+} from "@/utils/constants";
+
+/**
+ * 보호소 입양 신청 상세 페이지 컴포넌트
+ *
+ * MVVM 아키텍처:
+ * - View: 이 컴포넌트 (신청서/검토/메시지 UI 렌더링)
+ * - ViewModel: useShelterApplicationDetail, useReviewApplication, useSendShelterMessage
+ * - Model: 보호소 업무 공간 API
+ */
+export default function ShelterApplicationDetailPage({
+  params,
+}: {
+  params: Promise<{ applicationId: string }>;
+}) {
+  const { applicationId } = use(params);
+  const router = useRouter();
+  const toast = useToastDebounce({ delay: 1000 });
+  const { data, isLoading, error } = useShelterApplicationDetail(applicationId);
+  const review = useReviewApplication(applicationId);
+  const sendMessage = useSendShelterMessage(applicationId);
+  const [reviewNotes, setReviewNotes] = useState("");
+
+  /**
+   * 검토 핸들러
+   */
+  const handleReview = useCallback(
+    (status: "approved" | "rejected") => {
+      const label = APPLICATION_STATUS_LABELS[status];
+      if (!window.confirm(`이 신청을 ${label} 처리할까요? 처리 후에는 되돌릴 수 없습니다.`)) {
+        return;
+      }
+      review.mutate(
+        { status, reviewNotes: reviewNotes.trim() || undefined },
+        {
+          onSuccess: () => toast.success(`신청을 ${label} 처리했습니다.`),
+          onError: (reviewError) => toast.error(reviewError.message),
+        }
+      );
+    },
+    [review, reviewNotes, toast]
+  );
+
+  /**
+   * 메시지 전송 핸들러
+   */
+  const handleSendMessage = useCallback(
+    (body: string) =>
+      sendMessage.mutateAsync(body).catch((sendError: Error) => {
+        toast.error(sendError.message);
+        throw sendError;
+      }),
+    [sendMessage, toast]
+  );
+
+  const header = (
+    <header className="bg-white border-b border-gray-200 px-4 py-3 sticky top-0 z-50">
+      <div className="flex items-center">
+        <button
+          onClick={() => router.push(ROUTES.SHELTER_WORKSPACE)}
+          className="p-2 -ml-2 hover:bg-gray-100 rounded-full transition-colors"
+          aria-label="신청 목록으로"
+        >
+          <ArrowLeft className="h-5 w-5 text-gray-600" />
+        </button>
+        <h1 className="ml-2 text-lg font-bold text-gray-900">입양 신청 검토</h1>
+      </div>
+    </header>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        {header}
+        <div className="flex flex-col items-center py-20">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        {header}
+        <div className="flex flex-col items-center py-20 px-4 text-center">
+          <AlertCircle className="h-16 w-16 text-red-400 mb-4" />
+          <p className="text-gray-600">
+            {error?.message ?? "입양 신청을 찾을 수 없습니다."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { application, messages } = data;
+  const canReview = canTransitionApplication(application.status, "approved");
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {header}
+
+      <main className="px-4 py-6 space-y-4 pb-10">
+        {/* 신청 요약 */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center justify-between">
+              <span>{application.pet.name}</span>
+              <ApplicationStatusBadge status={application.status} />
+            </CardTitle>
+            <p className="text-xs text-gray-500">
+              {application.pet.careNm} • 유기번호 {application.petId} •{" "}
+              {new Date(application.applicationDate).toLocaleString("ko-KR")} 접수
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <dl className="space-y-3">
+              {application.responses.map((response) => (
+                <div key={response.questionId}>
+                  <dt className="text-xs text-gray-500">{response.question}</dt>
+                  <dd className="text-sm text-gray-900 whitespace-pre-wrap">
+                    {response.answer}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+            {application.message && (
+              <div className="rounded-lg bg-gray-50 p-3">
+                <p className="text-xs text-gray-500 mb-1">신청자가 전하는 말</p>
+                <p className="text-sm text-gray-800 whitespace-pre-wrap">
+                  {application.message}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* 검토 */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">검토</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {canReview ? (
+              <>
+                <Textarea
+                  value={reviewNotes}
+                  maxLength={ADOPTION_APPLICATION_SETTINGS.REVIEW_NOTES_MAX_LENGTH}
+                  onChange={(e) => setReviewNotes(e.target.value)}
+                  placeholder="검토 메모 (신청자에게도 표시됩니다)"
+                  rows={3}
+                />
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    disabled={review.isPending}
+                    onClick={() => handleReview("rejected")}
+                  >
+                    거절
+                  </Button>
+                  <Button
+                    className="flex-1"
+                    disabled={review.isPending}
+                    onClick={() => handleReview("approved")}
+                  >
+                    승인
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="text-sm text-gray-700 space-y-1">
+                <p>
+                  {APPLICATION_STATUS_LABELS[application.status]}
+                  {application.reviewedAt &&
+                    ` • ${new Date(application.reviewedAt).toLocaleString("ko-KR")}`}
+                </p>
+                {application.reviewNotes && (
+                  <p className="whitespace-pre-wrap text-gray-600">
+                    {application.reviewNotes}
+                  </p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* 메시지 */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">신청자와 메시지</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ApplicationMessageThread
+              messages={messages}
+              viewerRole="shelter"
+              isSending={sendMessage.isPending}
+              disabledReason={
+                application.status === "withdrawn"
+                  ? "철회된 신청에는 메시지를 보낼 수 없습니다."
+                  : undefined
+              }
+              onSend={handleSendMessage}
+            />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+/**
+ * 보호소 업무 공간 페이지
+ *
+ * 보호소 직원이 소속 보호소의 동물에 접수된 입양 신청을 상태별로 확인합니다.
+ */
+
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, ChevronRight, FileText, ShieldAlert } from "lucide-react";
+import {
+  Button,
+  Card,
+  Input,
+  Label,
+  Tabs,
+  TabsList,
+  TabsTrigger,
+} from "@/components/ui";
+import { MobileNavigation } from "@/components/common/mobile-navigation";
+import { ApplicationStatusBadge } from "@/components/applications";
+import {
+  useRequestShelterMembership,
+  useShelterApplications,
+  useShelterMemberships,
+} from "@/hooks/use-applications";
+import { useAuthStore } from "@/stores";
+import type { ShelterStaffMembership } from "@/types/api";
+import type { AdoptionApplicationStatus } from "@/types/pet";
+import {
+  APPLICATION_STATUS,
+  APPLICATION_STATUS_LABELS,
+  ROUTES,
+  SHELTER_STAFF_STATUS_LABELS,
+} from "@/utils/constants";
+
+type StatusFilter = AdoptionApplicationStatus | "all";
+
+const STATUS_FILTERS: StatusFilter[] = ["all", ...Object.values(APPLICATION_STATUS)];
+
+/**
+ * 보호소 소속 신청 패널 (확인된 소속이 없을 때)
+ *
+ * @param {object} props
+ * @param {ShelterStaffMembership[]} props.memberships 확인 대기/거절된 소속 목록
+ */
+function MembershipRequestPanel({
+  memberships,
+}: {
+  memberships: ShelterStaffMembership[];
+}) {
+  const requestMembership = useRequestShelterMembership();
+  const [careRegNo, setCareRegNo] = useState("");
+  const [careNm, setCareNm] = useState("");
+
+  /**
+   * 소속 신청 핸들러
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    requestMembership.mutate(
+      { careRegNo, careNm },
+      {
+        onSuccess: () => {
+          setCareRegNo("");
+          setCareNm("");
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col items-center py-6 text-center">
+        <ShieldAlert className="h-12 w-12 text-gray-400 mb-2" />
+        <p className="text-gray-600">
+          관리자가 소속을 확인한 보호소 직원 계정만 이용할 수 있습니다.
+        </p>
+      </div>
+
+      {memberships.length > 0 && (
+        <Card className="p-4 border-0 shadow-sm space-y-2">
+          <h3 className="font-semibold text-gray-900">소속 신청 내역</h3>
+          {memberships.map((membership) => (
+            <div
+              key={membership.careRegNo}
+              className="flex items-center justify-between text-sm"
+            >
+              <span className="text-gray-700 truncate">
+                {membership.careNm || membership.careRegNo}
+              </span>
+              <span className="text-gray-500 flex-shrink-0">
+                {SHELTER_STAFF_STATUS_LABELS[membership.status]}
+              </span>
+            </div>
+          ))}
+        </Card>
+      )}
+
+      <Card className="p-4 border-0 shadow-sm">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <h3 className="font-semibold text-gray-900">보호소 소속 신청</h3>
+          <div className="space-y-1">
+            <Label htmlFor="membership-care-reg-no">보호소 번호</Label>
+            <Input
+              id="membership-care-reg-no"
+              value={careRegNo}
+              onChange={(e) => setCareRegNo(e.target.value)}
+              placeholder="공고에 표시된 보호소 번호"
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="membership-care-nm">보호소명</Label>
+            <Input
+              id="membership-care-nm"
+              value={careNm}
+              onChange={(e) => setCareNm(e.target.value)}
+              required
+            />
+          </div>
+          {requestMembership.error && (
+            <p className="text-xs text-red-500">{requestMembership.error.message}</p>
+          )}
+          <Button
+            type="submit"
+            disabled={requestMembership.isPending}
+            className="w-full"
+          >
+            {requestMembership.isPending ? "신청하는 중..." : "소속 신청"}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
+
+/**
+ * 보호소 업무 공간 페이지 컴포넌트
+ *
+ * MVVM 아키텍처:
+ * - View: 이 컴포넌트 (신청 목록 UI 렌더링)
+ * - ViewModel: useShelterMemberships, useShelterApplications (소속/신청 조회)
+ * - Model: 보호소 업무 공간 API
+ */
+export default function ShelterWorkspacePage() {
+  const { isAuthenticated, showLogin } = useAuthStore();
+  const memberships = useShelterMemberships();
+  const [careRegNo, setCareRegNo] = useState<string | undefined>();
+  const [status, setStatus] = useState<StatusFilter>(APPLICATION_STATUS.PENDING);
+
+  const verifiedMemberships = useMemo(
+    () =>
+      memberships.data?.filter((membership) => membership.status === "verified") ??
+      [],
+    [memberships.data]
+  );
+
+  const applications = useShelterApplications(
+    { careRegNo, status: status === "all" ? undefined : status },
+    verifiedMemberships.length > 0
+  );
+
+  const renderContent = () => {
+    if (!isAuthenticated) {
+      return (
+        <div className="text-center py-12">
+          <p className="text-gray-600 mb-6">보호소 직원 계정으로 로그인해주세요</p>
+          <Button onClick={showLogin} className="px-8">
+            로그인하기
+          </Button>
+        </div>
+      );
+    }
+
+    if (memberships.isLoading) {
+      return (
+        <div className="flex flex-col items-center py-20">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      );
+    }
+
+    if (memberships.error || !memberships.data) {
+      return (
+        <div className="flex flex-col items-center py-12 text-center">
+          <ShieldAlert className="h-12 w-12 text-gray-400 mb-2" />
+          <p className="text-gray-600">
+            {memberships.error?.message ?? "소속 정보를 불러올 수 없습니다."}
+          </p>
+        </div>
+      );
+    }
+
+    if (verifiedMemberships.length === 0) {
+      return <MembershipRequestPanel memberships={memberships.data} />;
+    }
+
+    return (
+      <div className="space-y-4">
+        {/* 소속 보호소 선택 (여러 곳일 때만) */}
+        {verifiedMemberships.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {[undefined, ...verifiedMemberships.map((m) => m.careRegNo)].map((value) => {
+              const membership = verifiedMemberships.find((m) => m.careRegNo === value);
+              return (
+                <button
+                  key={value ?? "all"}
+                  onClick={() => setCareRegNo(value)}
+                  className={`px-3 py-1.5 rounded-full text-sm border ${
+                    careRegNo === value
+                      ? "bg-blue-600 border-blue-600 text-white"
+                      : "bg-white border-gray-300 text-gray-700"
+                  }`}
+                >
+                  {membership ? membership.careNm || membership.careRegNo : "전체 보호소"}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {/* 상태 필터 */}
+        <Tabs value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+          <TabsList className="w-full">
+            {STATUS_FILTERS.map((filter) => (
+              <TabsTrigger key={filter} value={filter} className="flex-1 text-xs">
+                {filter === "all" ? "전체" : APPLICATION_STATUS_LABELS[filter]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {applications.isLoading ? (
+          <p className="text-center text-gray-500 py-12">신청 목록을 불러오는 중...</p>
+        ) : applications.error ? (
+          <p className="text-center text-gray-600 py-12">{applications.error.message}</p>
+        ) : !applications.data?.length ? (
+          <div className="flex flex-col items-center py-12">
+            <FileText className="h-12 w-12 text-gray-400 mb-2" />
+            <p className="text-gray-500">해당하는 입양 신청이 없습니다</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {applications.data.map((application) => (
+              <Link
+                key={application.id}
+                href={ROUTES.SHELTER_APPLICATION_DETAIL(application.id)}
+                className="block"
+              >
+                <Card className="p-4 border-0 shadow-sm">
+                  <div className="flex items-center justify-between">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <h3 className="font-semibold text-gray-900 truncate">
+                          {application.pet.name}
+                        </h3>
+                        <ApplicationStatusBadge status={application.status} />
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {application.pet.careNm} •{" "}
+                        {new Date(application.applicationDate).toLocaleString("ko-KR")} 접수
+                      </p>
+                    </div>
+                    <ChevronRight className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  </div>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200 px-4 py-3 sticky top-0 z-50">
+        <div className="flex items-center space-x-4">
+          <Link href={ROUTES.PROFILE}>
+            <ArrowLeft className="h-6 w-6 text-gray-600" />
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900">보호소 업무 공간</h1>
+        </div>
+      </header>
+
+      <main className="pb-20 px-4 py-6">{renderContent()}</main>
+
+      <MobileNavigation />
+    </div>
+  );
+}
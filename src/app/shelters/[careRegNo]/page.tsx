@@ -0,0 +1,311 @@
+/**
+ * 보호소 상세 페이지
+ *
+ * 보호소 주소/연락처, 최근 입소·종료 통계, 공고중/보호중/보호 종료 동물 목록을 보여줍니다.
+ */
+
+"use client";
+
+import { use, useCallback } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import {
+  AlertCircle,
+  ArrowLeft,
+  Building2,
+  Clock,
+  MapPin,
+  PawPrint,
+  Phone,
+} from "lucide-react";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "@/components/ui";
+import { MobileNavigation } from "@/components/common/mobile-navigation";
+import { NoticeUrgencyBadge } from "@/components/adoption";
+import { useShelterDetail } from "@/hooks/use-shelters";
+import { ApiError } from "@/services/api/api-errors";
+import type { ShelterAnimalGroup } from "@/types/api";
+import type { Pet } from "@/types/pet";
+import {
+  SHELTER_ANIMAL_GROUP_LABELS,
+  SHELTER_OUTCOME_LABELS,
+} from "@/utils/constants";
+
+const ANIMAL_GROUPS: ShelterAnimalGroup[] = ["notice", "protect", "ended"];
+
+/**
+ * 보호소 동물 카드 (입양 상세 페이지로 이동)
+ *
+ * @param {object} props
+ * @param {Pet} props.pet 반려동물 정보
+ */
+function ShelterPetCard({ pet }: { pet: Pet }) {
+  const image = pet.images[0];
+
+  return (
+    <Link href={`/adoption/${pet.id}`} className="block">
+      <div className="relative aspect-square rounded-lg bg-gray-200 overflow-hidden">
+        {image ? (
+          <Image
+            src={image.variants?.card ?? image.url}
+            placeholder={image.blurDataURL ? "blur" : "empty"}
+            blurDataURL={image.blurDataURL}
+            unoptimized
+            alt={pet.name}
+            width={160}
+            height={160}
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <div className="flex items-center justify-center w-full h-full">
+            <PawPrint className="h-8 w-8 text-gray-400" />
+          </div>
+        )}
+        <NoticeUrgencyBadge
+          notice={pet.notice}
+          className="absolute bottom-1 left-1"
+        />
+      </div>
+      <p className="mt-1 text-sm font-medium text-gray-900 truncate">
+        {pet.name}
+      </p>
+      <p className="text-xs text-gray-500 truncate">
+        {pet.gender === "male" ? "수컷" : pet.gender === "female" ? "암컷" : "미상"}
+        {pet.age.years > 0 ? ` • ${pet.age.years}살` : ""}
+      </p>
+    </Link>
+  );
+}
+
+/**
+ * 보호소 상세 페이지 컴포넌트
+ *
+ * MVVM 아키텍처:
+ * - View: 이 컴포넌트 (보호소 정보/통계/동물 목록 렌더링)
+ * - ViewModel: useShelterDetail (보호소 상세 조회 및 Pet 변환)
+ * - Model: 보호소 상세 API
+ */
+export default function ShelterDetailPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ careRegNo: string }>;
+  searchParams: Promise<{ name?: string }>;
+}) {
+  const { careRegNo } = use(params);
+  const { name: fallbackName } = use(searchParams);
+  const router = useRouter();
+  const { data, isLoading, error } = useShelterDetail(careRegNo);
+
+  /**
+   * 뒤로가기 핸들러
+   */
+  const handleGoBack = useCallback(() => {
+    router.back();
+  }, [router]);
+
+  const shelter = data?.shelter;
+  const shelterName = shelter?.careNm || fallbackName || "보호소";
+
+  const header = (
+    <header className="bg-white border-b border-gray-200 px-4 py-3 sticky top-0 z-50">
+      <div className="flex items-center">
+        <button
+          onClick={handleGoBack}
+          className="p-2 -ml-2 hover:bg-gray-100 rounded-full transition-colors"
+          aria-label="뒤로가기"
+        >
+          <ArrowLeft className="h-5 w-5 text-gray-600" />
+        </button>
+        <h1 className="ml-2 text-lg font-bold text-gray-900 truncate">
+          {shelterName}
+        </h1>
+      </div>
+    </header>
+  );
+
+  // 로딩 상태
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        {header}
+        <div className="flex flex-col items-center py-20">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          <p className="mt-4 text-gray-600">보호소 정보를 불러오는 중...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // 에러 상태
+  if (error || !data || !shelter) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        {header}
+        <div className="flex flex-col items-center justify-center py-20 px-4 text-center">
+          <AlertCircle className="h-16 w-16 text-red-400 mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            보호소 정보를 불러올 수 없습니다
+          </h2>
+          <p className="text-gray-600 mb-4">
+            {error instanceof Error
+              ? error.message
+              : "보호소 정보를 찾을 수 없습니다."}
+          </p>
+          {(!(error instanceof ApiError) || error.retryable) && (
+            <Button variant="outline" onClick={() => window.location.reload()}>
+              다시 시도
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const { stats } = shelter;
+  const hasRecentRecords = stats.intake.total > 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {header}
+
+      <main className="pb-20">
+        <div className="px-4 py-6 space-y-4">
+          {/* 보호소 정보 */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center space-x-2">
+                <Building2 className="w-5 h-5 text-blue-600" />
+                <span>{shelterName}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex items-start space-x-2">
+                <MapPin className="w-4 h-4 text-gray-500 mt-0.5 flex-shrink-0" />
+                <span className="text-gray-700">
+                  {shelter.careAddr || "주소 정보 없음"}
+                </span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Phone className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                {shelter.careTel ? (
+                  <a
+                    href={`tel:${shelter.careTel}`}
+                    className="text-blue-600 font-medium hover:text-blue-700"
+                  >
+                    {shelter.careTel}
+                  </a>
+                ) : (
+                  <span className="text-gray-500">연락처 정보 없음</span>
+                )}
+              </div>
+              <div className="flex items-start space-x-2">
+                <Clock className="w-4 h-4 text-gray-500 mt-0.5 flex-shrink-0" />
+                <div className="text-gray-700 space-y-1">
+                  {shelter.orgNm && <p>관할 기관: {shelter.orgNm}</p>}
+                  {shelter.careOwnerNm && <p>운영: {shelter.careOwnerNm}</p>}
+                  <p className="text-xs text-gray-500">
+                    운영 시간과 방문 가능 여부는 방문 전 전화로 확인해주세요.
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* 입소/종료 통계 */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">보호 현황</CardTitle>
+              <p className="text-xs text-gray-500">
+                최근 {stats.periodDays}일 접수 기준
+                {!shelter.totalCountExact && " (일부만 집계)"}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="rounded-lg bg-gray-50 p-3">
+                  <p className="text-xs text-gray-500">최근 7일 입소</p>
+                  <p className="text-lg font-bold text-gray-900">
+                    {stats.intake.last7Days}
+                  </p>
+                </div>
+                <div className="rounded-lg bg-gray-50 p-3">
+                  <p className="text-xs text-gray-500">최근 30일 입소</p>
+                  <p className="text-lg font-bold text-gray-900">
+                    {stats.intake.last30Days}
+                  </p>
+                </div>
+                <div className="rounded-lg bg-blue-50 p-3">
+                  <p className="text-xs text-gray-500">보호중</p>
+                  <p className="text-lg font-bold text-blue-600">
+                    {stats.inCare}
+                  </p>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-700">
+                {(
+                  Object.keys(SHELTER_OUTCOME_LABELS) as (keyof typeof SHELTER_OUTCOME_LABELS)[]
+                ).map((outcome) => (
+                  <span key={outcome}>
+                    {SHELTER_OUTCOME_LABELS[outcome]}{" "}
+                    <span className="font-semibold">
+                      {stats.outcomes[outcome]}
+                    </span>
+                  </span>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* 구분별 동물 목록 */}
+          {hasRecentRecords ? (
+            <Tabs defaultValue="notice">
+              <TabsList className="w-full">
+                {ANIMAL_GROUPS.map((group) => (
+                  <TabsTrigger key={group} value={group} className="flex-1">
+                    {SHELTER_ANIMAL_GROUP_LABELS[group]} (
+                    {data.pets[group].length})
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {ANIMAL_GROUPS.map((group) => (
+                <TabsContent key={group} value={group}>
+                  {data.pets[group].length > 0 ? (
+                    <div className="grid grid-cols-3 gap-3 pt-2">
+                      {data.pets[group].map((pet) => (
+                        <ShelterPetCard key={pet.id} pet={pet} />
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-center text-sm text-gray-500 py-8">
+                      {SHELTER_ANIMAL_GROUP_LABELS[group]}인 동물이 없습니다
+                    </p>
+                  )}
+                </TabsContent>
+              ))}
+            </Tabs>
+          ) : (
+            <div className="flex flex-col items-center py-8">
+              <PawPrint className="h-12 w-12 text-gray-400 mb-2" />
+              <p className="text-gray-500 text-sm">
+                최근 {stats.periodDays}일간 등록된 동물이 없습니다
+              </p>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <MobileNavigation />
+    </div>
+  );
+}
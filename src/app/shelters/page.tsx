@@ -0,0 +1,108 @@
+/**
+ * 보호소 목록 페이지
+ *
+ * 시도/시군구를 선택하면 해당 지역의 동물보호센터 목록을 보여줍니다.
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Building2, ChevronRight } from "lucide-react";
+import { Card } from "@/components/ui";
+import { MobileNavigation } from "@/components/common/mobile-navigation";
+import { RegionPicker, type RegionSelection } from "@/components/adoption";
+import { getShelterHref } from "@/components/shelters";
+import { useShelterList } from "@/hooks/use-regions";
+
+/**
+ * 보호소 목록 페이지 컴포넌트
+ *
+ * MVVM 아키텍처:
+ * - View: 이 컴포넌트 (지역 선택 및 보호소 목록 렌더링)
+ * - ViewModel: useState (선택 지역), useShelterList (보호소 목록)
+ * - Model: 보호소 코드 API
+ */
+export default function SheltersPage() {
+  const [region, setRegion] = useState<RegionSelection>({});
+  const {
+    data: shelters = [],
+    isLoading,
+    error,
+  } = useShelterList(region.uprCd, region.orgCd);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* 상단 헤더 */}
+      <header className="bg-white border-b border-gray-200 px-4 py-3 sticky top-0 z-50">
+        <div className="flex items-center space-x-4">
+          <Link href="/adoption" aria-label="입양 페이지로 이동">
+            <ArrowLeft className="h-6 w-6 text-gray-600" />
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900">보호소</h1>
+        </div>
+      </header>
+
+      <main className="pb-20">
+        <div className="px-4 py-6 space-y-6">
+          <section>
+            <h2 className="font-semibold text-gray-900 mb-3">지역 선택</h2>
+            <RegionPicker value={region} onChange={setRegion} />
+          </section>
+
+          <section className="space-y-3">
+            {!region.orgCd && (
+              <p className="text-center text-sm text-gray-500 py-8">
+                시군구까지 선택하면 지역의 동물보호센터를 보여드려요
+              </p>
+            )}
+
+            {region.orgCd && isLoading && (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                <span className="ml-2 text-gray-600">
+                  보호소를 불러오는 중...
+                </span>
+              </div>
+            )}
+
+            {region.orgCd && error && (
+              <p className="text-center text-sm text-red-600 py-8">
+                {error instanceof Error
+                  ? error.message
+                  : "보호소 목록을 불러오는데 실패했습니다."}
+              </p>
+            )}
+
+            {region.orgCd && !isLoading && !error && shelters.length === 0 && (
+              <p className="text-center text-sm text-gray-500 py-8">
+                선택한 지역에 등록된 보호소가 없습니다
+              </p>
+            )}
+
+            {shelters.map((shelter) => (
+              <Link
+                key={shelter.careRegNo}
+                href={getShelterHref(shelter.careRegNo, shelter.careNm)}
+              >
+                <Card className="border-0 shadow-sm hover:shadow-md transition-shadow cursor-pointer mb-3">
+                  <div className="flex items-center justify-between p-4">
+                    <div className="flex items-center space-x-3">
+                      <Building2 className="h-5 w-5 text-blue-600" />
+                      <span className="font-medium text-gray-900">
+                        {shelter.careNm}
+                      </span>
+                    </div>
+                    <ChevronRight className="h-5 w-5 text-gray-400" />
+                  </div>
+                </Card>
+              </Link>
+            ))}
+          </section>
+        </div>
+      </main>
+
+      <MobileNavigation />
+    </div>
+  );
+}
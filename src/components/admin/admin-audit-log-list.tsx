@@ -0,0 +1,59 @@
+/**
+ * 관리자 작업 감사 로그 목록
+ */
+
+import type { AdminAuditLogEntry } from "@/types/api";
+import { ADMIN_AUDIT_ACTION_LABELS } from "@/utils/constants";
+
+interface AdminAuditLogListProps {
+  entries: AdminAuditLogEntry[];
+  /** 기록이 없을 때 안내 문구 */
+  emptyMessage?: string;
+}
+
+/**
+ * 감사 로그 상세 요약 (사유, 역할 변경 등)
+ */
+function summarizeDetails(details: Record<string, unknown>): string {
+  return Object.entries(details)
+    .filter(([, value]) => value !== undefined && value !== null && value !== "")
+    .map(([key, value]) => `${key}: ${String(value)}`)
+    .join(" • ");
+}
+
+/**
+ * 감사 로그 목록 컴포넌트
+ */
+export function AdminAuditLogList({
+  entries,
+  emptyMessage = "기록된 관리자 작업이 없습니다",
+}: AdminAuditLogListProps) {
+  if (entries.length === 0) {
+    return <p className="text-center text-sm text-gray-500 py-6">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {entries.map((entry) => (
+        <li key={entry.id} className="py-2 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-gray-900">
+              {ADMIN_AUDIT_ACTION_LABELS[entry.action]}
+            </span>
+            <span className="text-xs text-gray-500">
+              {new Date(entry.createdAt).toLocaleString("ko-KR")}
+            </span>
+          </div>
+          <p className="text-xs text-gray-600 break-all">
+            대상 {entry.targetId} • 관리자 {entry.actorId}
+          </p>
+          {summarizeDetails(entry.details) && (
+            <p className="text-xs text-gray-500 break-all">
+              {summarizeDetails(entry.details)}
+            </p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,35 @@
+/**
+ * 관리자 감사 로그 패널
+ */
+
+"use client";
+
+import { Card, CardContent } from "@/components/ui";
+import { useAdminAuditLog } from "@/hooks/use-admin";
+import { AdminAuditLogList } from "./admin-audit-log-list";
+
+/**
+ * 관리자 감사 로그 패널 컴포넌트 (최근 작업 순)
+ */
+export function AdminAuditLogPanel() {
+  const { data, isLoading, error } = useAdminAuditLog();
+
+  if (isLoading) {
+    return <p className="text-center text-gray-500 py-12">감사 로그를 불러오는 중...</p>;
+  }
+  if (error || !data) {
+    return (
+      <p className="text-center text-gray-600 py-12">
+        {error?.message ?? "감사 로그를 불러올 수 없습니다."}
+      </p>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="pt-4">
+        <AdminAuditLogList entries={data} />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * 관리자 대시보드 패널
+ *
+ * 사용자/보호소 소속/입양 신청/신고 집계와 최근 관리자 작업을 보여줍니다.
+ */
+
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui";
+import { useAdminDashboard } from "@/hooks/use-admin";
+import {
+  APPLICATION_STATUS_LABELS,
+  CONTENT_REPORT_STATUS_LABELS,
+  SHELTER_STAFF_STATUS_LABELS,
+  USER_ROLE_LABELS,
+} from "@/utils/constants";
+import { AdminAuditLogList } from "./admin-audit-log-list";
+
+/**
+ * 집계 항목
+ */
+function StatItem({ label, value, highlight }: { label: string; value: number; highlight?: boolean }) {
+  return (
+    <div className={`rounded-lg p-3 text-center ${highlight ? "bg-blue-50" : "bg-gray-50"}`}>
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className={`text-lg font-bold ${highlight ? "text-blue-600" : "text-gray-900"}`}>
+        {value.toLocaleString()}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * 관리자 대시보드 패널 컴포넌트
+ */
+export function AdminDashboardPanel() {
+  const { data, isLoading, error } = useAdminDashboard();
+
+  if (isLoading) {
+    return <p className="text-center text-gray-500 py-12">집계를 불러오는 중...</p>;
+  }
+  if (error || !data) {
+    return (
+      <p className="text-center text-gray-600 py-12">
+        {error?.message ?? "집계를 불러올 수 없습니다."}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">사용자</CardTitle>
+          {!data.users.exact && (
+            <p className="text-xs text-gray-500">(조회 한도까지만 집계)</p>
+          )}
+        </CardHeader>
+        <CardContent className="grid grid-cols-3 gap-2">
+          <StatItem label="전체" value={data.users.total} highlight />
+          <StatItem label="활성" value={data.users.active} />
+          <StatItem label="비활성" value={data.users.inactive} />
+          {(Object.keys(USER_ROLE_LABELS) as (keyof typeof USER_ROLE_LABELS)[]).map((role) => (
+            <StatItem key={role} label={USER_ROLE_LABELS[role]} value={data.users.byRole[role]} />
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">보호소 소속 · 신고</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-3 gap-2">
+          <StatItem
+            label={`소속 ${SHELTER_STAFF_STATUS_LABELS.pending}`}
+            value={data.shelters.pending}
+            highlight
+          />
+          <StatItem
+            label={`소속 ${SHELTER_STAFF_STATUS_LABELS.verified}`}
+            value={data.shelters.verified}
+          />
+          <StatItem
+            label={`신고 ${CONTENT_REPORT_STATUS_LABELS.open}`}
+            value={data.reports.open}
+            highlight
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">입양 신청</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-4 gap-2">
+          {(Object.keys(APPLICATION_STATUS_LABELS) as (keyof typeof APPLICATION_STATUS_LABELS)[]).map(
+            (status) => (
+              <StatItem
+                key={status}
+                label={APPLICATION_STATUS_LABELS[status]}
+                value={data.applications[status]}
+              />
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">최근 관리자 작업</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AdminAuditLogList entries={data.recentActions} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * 관리자 동물 조회 패널
+ *
+ * 유기번호로 공고 정보와 해당 동물의 입양 신청, 신고 내역을 함께 확인합니다.
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Search } from "lucide-react";
+import { Button, Card, CardContent, CardHeader, CardTitle, Input } from "@/components/ui";
+import { ApplicationStatusBadge } from "@/components/applications";
+import { useAdminPetOverview } from "@/hooks/use-admin";
+import {
+  CONTENT_REPORT_REASONS,
+  CONTENT_REPORT_STATUS_LABELS,
+  ROUTES,
+} from "@/utils/constants";
+
+/**
+ * 관리자 동물 조회 패널 컴포넌트
+ */
+export function AdminPetsPanel() {
+  const [petIdInput, setPetIdInput] = useState("");
+  const [petId, setPetId] = useState("");
+  const { data, isLoading, error } = useAdminPetOverview(petId);
+
+  /**
+   * 조회 핸들러
+   */
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPetId(petIdInput.trim());
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSearch} className="flex space-x-2">
+        <Input
+          value={petIdInput}
+          onChange={(e) => setPetIdInput(e.target.value)}
+          placeholder="유기번호"
+          inputMode="numeric"
+        />
+        <Button type="submit" variant="outline" aria-label="동물 조회">
+          <Search className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {!petId ? (
+        <p className="text-center text-gray-500 py-12">
+          유기번호로 공고, 입양 신청, 신고 내역을 조회합니다
+        </p>
+      ) : isLoading ? (
+        <p className="text-center text-gray-500 py-12">동물 정보를 불러오는 중...</p>
+      ) : error || !data ? (
+        <p className="text-center text-gray-600 py-12">
+          {error?.message ?? "동물 정보를 불러올 수 없습니다."}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">공고</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-gray-700 space-y-1">
+              {data.animal ? (
+                <>
+                  <p>
+                    {data.animal.kindFullNm} • {data.animal.processState}
+                  </p>
+                  <p>
+                    {data.animal.careNm} ({data.animal.careRegNo})
+                  </p>
+                  <p>공고번호 {data.animal.noticeNo}</p>
+                  <Link
+                    href={ROUTES.ADOPTION_DETAIL(data.petId)}
+                    className="text-blue-600 font-medium"
+                  >
+                    상세 페이지 보기
+                  </Link>
+                </>
+              ) : (
+                <p className="text-gray-500">공고를 찾을 수 없습니다</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">입양 신청 ({data.applications.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {data.applications.length === 0 ? (
+                <p className="text-sm text-gray-500">입양 신청이 없습니다</p>
+              ) : (
+                data.applications.map((application) => (
+                  <div key={application.id} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-700 truncate">
+                      {new Date(application.applicationDate).toLocaleString("ko-KR")} •{" "}
+                      {application.applicantId}
+                    </span>
+                    <ApplicationStatusBadge status={application.status} />
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">신고 ({data.reports.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {data.reports.length === 0 ? (
+                <p className="text-sm text-gray-500">신고가 없습니다</p>
+              ) : (
+                data.reports.map((report) => (
+                  <div key={report.id} className="text-sm">
+                    <span className="font-medium text-gray-900">
+                      {CONTENT_REPORT_REASONS[
+                        report.reason as keyof typeof CONTENT_REPORT_REASONS
+                      ] ?? report.reason}
+                    </span>{" "}
+                    <span className="text-gray-500">
+                      ({CONTENT_REPORT_STATUS_LABELS[report.status]})
+                    </span>
+                    {report.details && (
+                      <p className="text-xs text-gray-600">{report.details}</p>
+                    )}
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * 관리자 신고 처리 패널
+ *
+ * 접수된 신고를 확인하고 조치 완료/기각으로 처리합니다.
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Flag } from "lucide-react";
+import { Badge, Button, Card, Input } from "@/components/ui";
+import { useAdminReports, useResolveReport } from "@/hooks/use-admin";
+import type { ContentReport, ContentReportStatus } from "@/types/api";
+import {
+  CONTENT_REPORT_REASONS,
+  CONTENT_REPORT_STATUS_LABELS,
+  CONTENT_REPORT_TARGET_LABELS,
+  ROUTES,
+} from "@/utils/constants";
+import { FilterChips } from "./filter-chips";
+
+const STATUS_OPTIONS = (
+  Object.keys(CONTENT_REPORT_STATUS_LABELS) as ContentReportStatus[]
+).map((status) => ({ value: status, label: CONTENT_REPORT_STATUS_LABELS[status] }));
+
+/**
+ * 신고 항목 (접수 상태면 처리 버튼 표시)
+ *
+ * @param {object} props
+ * @param {ContentReport} props.report 신고
+ */
+function AdminReportItem({ report }: { report: ContentReport }) {
+  const resolveReport = useResolveReport();
+  const [note, setNote] = useState("");
+
+  /**
+   * 신고 처리 핸들러
+   */
+  const handleResolve = (status: Exclude<ContentReportStatus, "open">) => {
+    resolveReport.mutate({
+      reportId: report.id,
+      request: { status, resolutionNote: note.trim() || undefined },
+    });
+  };
+
+  return (
+    <Card className="p-4 border-0 shadow-sm space-y-2">
+      <div className="flex items-center space-x-2">
+        <Badge variant="secondary">{CONTENT_REPORT_TARGET_LABELS[report.targetType]}</Badge>
+        <span className="font-semibold text-gray-900">
+          {CONTENT_REPORT_REASONS[report.reason as keyof typeof CONTENT_REPORT_REASONS] ??
+            report.reason}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 break-all">
+        대상{" "}
+        {report.targetType === "pet" ? (
+          <Link href={ROUTES.ADOPTION_DETAIL(report.targetId)} className="text-blue-600">
+            {report.targetId}
+          </Link>
+        ) : (
+          report.targetId
+        )}{" "}
+        • 신고자 {report.reporterId} • {new Date(report.createdAt).toLocaleString("ko-KR")}
+      </p>
+      {report.details && (
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">{report.details}</p>
+      )}
+      {report.resolutionNote && (
+        <p className="text-xs text-gray-600">처리 메모: {report.resolutionNote}</p>
+      )}
+
+      {report.status === "open" && (
+        <div className="space-y-2 pt-1">
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="처리 메모 (감사 로그에 기록됩니다)"
+          />
+          <div className="flex space-x-2">
+            <Button
+              size="sm"
+              disabled={resolveReport.isPending}
+              onClick={() => handleResolve("resolved")}
+            >
+              조치 완료
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={resolveReport.isPending}
+              onClick={() => handleResolve("dismissed")}
+            >
+              기각
+            </Button>
+          </div>
+          {resolveReport.error && (
+            <p className="text-xs text-red-500">{resolveReport.error.message}</p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * 관리자 신고 처리 패널 컴포넌트
+ */
+export function AdminReportsPanel() {
+  const [status, setStatus] = useState<ContentReportStatus>("open");
+  const { data, isLoading, error } = useAdminReports(status);
+
+  return (
+    <div className="space-y-4">
+      <FilterChips options={STATUS_OPTIONS} value={status} onChange={setStatus} />
+
+      {isLoading ? (
+        <p className="text-center text-gray-500 py-12">신고를 불러오는 중...</p>
+      ) : error || !data ? (
+        <p className="text-center text-gray-600 py-12">
+          {error?.message ?? "신고를 불러올 수 없습니다."}
+        </p>
+      ) : data.length === 0 ? (
+        <div className="flex flex-col items-center py-12">
+          <Flag className="h-12 w-12 text-gray-400 mb-2" />
+          <p className="text-gray-500">
+            {CONTENT_REPORT_STATUS_LABELS[status]} 상태의 신고가 없습니다
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {data.map((report) => (
+            <AdminReportItem key={report.id} report={report} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * 관리자 보호소 소속 확인 패널
+ *
+ * 보호소 직원 소속 신청을 확인/거절하고, 확인된 소속을 해제합니다.
+ * 확인하면 신청자에게 보호소 역할이 부여됩니다.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Building2 } from "lucide-react";
+import { Button, Card, Input } from "@/components/ui";
+import {
+  useAdminShelterMemberships,
+  useReviewShelterMembership,
+} from "@/hooks/use-admin";
+import type { ShelterStaffMembership, ShelterStaffStatus } from "@/types/api";
+import { SHELTER_STAFF_STATUS_LABELS } from "@/utils/constants";
+import { FilterChips } from "./filter-chips";
+
+const STATUS_OPTIONS = (
+  Object.keys(SHELTER_STAFF_STATUS_LABELS) as ShelterStaffStatus[]
+).map((status) => ({ value: status, label: SHELTER_STAFF_STATUS_LABELS[status] }));
+
+/**
+ * 관리자 보호소 소속 확인 패널 컴포넌트
+ */
+export function AdminSheltersPanel() {
+  const [status, setStatus] = useState<ShelterStaffStatus>("pending");
+  const [reason, setReason] = useState("");
+  const { data, isLoading, error } = useAdminShelterMemberships(status);
+  const reviewMembership = useReviewShelterMembership();
+
+  /**
+   * 소속 처리 핸들러 (확인 후 요청)
+   */
+  const handleReview = (
+    membership: ShelterStaffMembership,
+    nextStatus: Exclude<ShelterStaffStatus, "pending">
+  ) => {
+    const action =
+      nextStatus === "verified"
+        ? "소속을 확인"
+        : membership.status === "pending"
+          ? "소속 신청을 거절"
+          : "소속을 해제";
+    if (!window.confirm(`${membership.careNm || membership.careRegNo} ${action}할까요?`)) {
+      return;
+    }
+
+    reviewMembership.mutate(
+      {
+        userId: membership.userId,
+        careRegNo: membership.careRegNo,
+        status: nextStatus,
+        reason: reason.trim() || undefined,
+      },
+      { onSuccess: () => setReason("") }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <FilterChips options={STATUS_OPTIONS} value={status} onChange={setStatus} />
+
+      {status !== "revoked" && (
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="처리 사유 (감사 로그에 기록됩니다)"
+        />
+      )}
+
+      {reviewMembership.error && (
+        <p className="text-xs text-red-500">{reviewMembership.error.message}</p>
+      )}
+
+      {isLoading ? (
+        <p className="text-center text-gray-500 py-12">소속 목록을 불러오는 중...</p>
+      ) : error || !data ? (
+        <p className="text-center text-gray-600 py-12">
+          {error?.message ?? "소속 목록을 불러올 수 없습니다."}
+        </p>
+      ) : data.length === 0 ? (
+        <div className="flex flex-col items-center py-12">
+          <Building2 className="h-12 w-12 text-gray-400 mb-2" />
+          <p className="text-gray-500">
+            {SHELTER_STAFF_STATUS_LABELS[status]} 상태의 소속이 없습니다
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {data.map((membership) => (
+            <Card
+              key={`${membership.userId}:${membership.careRegNo}`}
+              className="p-4 border-0 shadow-sm space-y-2"
+            >
+              <div>
+                <h3 className="font-semibold text-gray-900">
+                  {membership.careNm || "보호소명 없음"}
+                </h3>
+                <p className="text-xs text-gray-500 break-all">
+                  보호소 번호 {membership.careRegNo} • 사용자 {membership.userId}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(membership.requestedAt).toLocaleString("ko-KR")} 신청
+                  {membership.reviewedAt &&
+                    ` • ${new Date(membership.reviewedAt).toLocaleString("ko-KR")} 처리`}
+                </p>
+              </div>
+              {membership.status === "pending" && (
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    disabled={reviewMembership.isPending}
+                    onClick={() => handleReview(membership, "verified")}
+                  >
+                    확인
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={reviewMembership.isPending}
+                    onClick={() => handleReview(membership, "revoked")}
+                  >
+                    거절
+                  </Button>
+                </div>
+              )}
+              {membership.status === "verified" && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={reviewMembership.isPending}
+                  onClick={() => handleReview(membership, "revoked")}
+                >
+                  소속 해제
+                </Button>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
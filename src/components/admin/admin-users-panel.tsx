@@ -0,0 +1,266 @@
+/**
+ * 관리자 사용자 관리 패널
+ *
+ * 사용자를 검색하고, 선택한 사용자의 계정 활성 여부와 역할을 변경합니다.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Search, UserX } from "lucide-react";
+import { Badge, Button, Card, Input } from "@/components/ui";
+import {
+  useAdminUser,
+  useAdminUsers,
+  useUpdateAdminUser,
+  type AdminUserFilters,
+} from "@/hooks/use-admin";
+import type { User, UserRole } from "@/types/user";
+import { USER_ROLE_LABELS } from "@/utils/constants";
+import { AdminAuditLogList } from "./admin-audit-log-list";
+import { FilterChips } from "./filter-chips";
+
+type RoleFilter = UserRole | "all";
+type StatusFilter = NonNullable<AdminUserFilters["status"]> | "all";
+
+const ROLES = Object.keys(USER_ROLE_LABELS) as UserRole[];
+
+const ROLE_OPTIONS: { value: RoleFilter; label: string }[] = [
+  { value: "all", label: "전체 역할" },
+  ...ROLES.map((role) => ({ value: role, label: USER_ROLE_LABELS[role] })),
+];
+
+const STATUS_OPTIONS: { value: StatusFilter; label: string }[] = [
+  { value: "all", label: "전체 상태" },
+  { value: "active", label: "활성" },
+  { value: "inactive", label: "비활성" },
+];
+
+/**
+ * 선택한 사용자 관리 (활성화/비활성화, 역할 변경, 최근 작업)
+ *
+ * @param {object} props
+ * @param {string} props.userId 사용자 ID
+ */
+function AdminUserDetail({ userId }: { userId: string }) {
+  const { data, isLoading, error } = useAdminUser(userId);
+  const updateUser = useUpdateAdminUser();
+  const [reason, setReason] = useState("");
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 py-2">불러오는 중...</p>;
+  }
+  if (error || !data) {
+    return <p className="text-sm text-gray-600 py-2">{error?.message ?? "사용자를 찾을 수 없습니다."}</p>;
+  }
+
+  const { user } = data;
+
+  /**
+   * 계정 변경 핸들러 (확인 후 요청)
+   */
+  const handleUpdate = (patch: { isActive?: boolean; role?: UserRole }, message: string) => {
+    if (!window.confirm(message)) return;
+    updateUser.mutate(
+      { userId: user.id, request: { ...patch, reason: reason.trim() || undefined } },
+      { onSuccess: () => setReason("") }
+    );
+  };
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-gray-100">
+      <Input
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="처리 사유 (감사 로그에 기록됩니다)"
+      />
+
+      <div className="flex flex-wrap gap-2">
+        {ROLES.filter((role) => role !== user.role).map((role) => (
+          <Button
+            key={role}
+            size="sm"
+            variant="outline"
+            disabled={updateUser.isPending}
+            onClick={() =>
+              handleUpdate({ role }, `${user.email}의 역할을 ${USER_ROLE_LABELS[role]}(으)로 바꿀까요?`)
+            }
+          >
+            {USER_ROLE_LABELS[role]}(으)로 변경
+          </Button>
+        ))}
+        <Button
+          size="sm"
+          variant={user.isActive ? "destructive" : "default"}
+          disabled={updateUser.isPending}
+          onClick={() =>
+            handleUpdate(
+              { isActive: !user.isActive },
+              user.isActive
+                ? `${user.email} 계정을 비활성화할까요? 로그인이 차단됩니다.`
+                : `${user.email} 계정을 다시 활성화할까요?`
+            )
+          }
+        >
+          {user.isActive ? "비활성화" : "활성화"}
+        </Button>
+      </div>
+
+      {updateUser.error && (
+        <p className="text-xs text-red-500">{updateUser.error.message}</p>
+      )}
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900">최근 관리자 작업</h4>
+        <AdminAuditLogList entries={data.auditLog} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 사용자 항목
+ *
+ * @param {object} props
+ * @param {User} props.user 사용자
+ * @param {boolean} props.isSelected 선택 여부
+ * @param {() => void} props.onSelect 선택 핸들러
+ */
+function AdminUserItem({
+  user,
+  isSelected,
+  onSelect,
+}: {
+  user: User;
+  isSelected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <Card className="p-4 border-0 shadow-sm">
+      <button type="button" onClick={onSelect} className="w-full text-left">
+        <div className="flex items-center space-x-2">
+          <h3 className="font-semibold text-gray-900 truncate">{user.displayName}</h3>
+          <Badge variant="secondary">{USER_ROLE_LABELS[user.role]}</Badge>
+          {!user.isActive && <Badge variant="destructive">비활성</Badge>}
+        </div>
+        <p className="text-xs text-gray-500 truncate">
+          {user.email} • {new Date(user.createdAt).toLocaleDateString("ko-KR")} 가입
+          {user.lastLoginAt &&
+            ` • ${new Date(user.lastLoginAt).toLocaleDateString("ko-KR")} 최근 로그인`}
+        </p>
+      </button>
+      {isSelected && <AdminUserDetail userId={user.id} />}
+    </Card>
+  );
+}
+
+/**
+ * 관리자 사용자 관리 패널 컴포넌트
+ */
+export function AdminUsersPanel() {
+  const [keywordInput, setKeywordInput] = useState("");
+  const [keyword, setKeyword] = useState("");
+  const [role, setRole] = useState<RoleFilter>("all");
+  const [status, setStatus] = useState<StatusFilter>("all");
+  const [page, setPage] = useState(1);
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useAdminUsers({
+    keyword: keyword || undefined,
+    role: role === "all" ? undefined : role,
+    status: status === "all" ? undefined : status,
+    page,
+  });
+
+  /**
+   * 검색 핸들러
+   */
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setKeyword(keywordInput.trim());
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSearch} className="flex space-x-2">
+        <Input
+          value={keywordInput}
+          onChange={(e) => setKeywordInput(e.target.value)}
+          placeholder="이메일, 아이디, 이름 또는 사용자 ID"
+        />
+        <Button type="submit" variant="outline" aria-label="사용자 검색">
+          <Search className="h-4 w-4" />
+        </Button>
+      </form>
+
+      <FilterChips
+        options={ROLE_OPTIONS}
+        value={role}
+        onChange={(value) => {
+          setRole(value);
+          setPage(1);
+        }}
+      />
+      <FilterChips
+        options={STATUS_OPTIONS}
+        value={status}
+        onChange={(value) => {
+          setStatus(value);
+          setPage(1);
+        }}
+      />
+
+      {isLoading ? (
+        <p className="text-center text-gray-500 py-12">사용자를 불러오는 중...</p>
+      ) : error || !data ? (
+        <p className="text-center text-gray-600 py-12">
+          {error?.message ?? "사용자를 불러올 수 없습니다."}
+        </p>
+      ) : data.users.length === 0 ? (
+        <div className="flex flex-col items-center py-12">
+          <UserX className="h-12 w-12 text-gray-400 mb-2" />
+          <p className="text-gray-500">해당하는 사용자가 없습니다</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500">
+            {data.pagination.totalCount.toLocaleString()}명
+            {!data.exact && " (조회 한도까지만 검색)"}
+          </p>
+          {data.users.map((user) => (
+            <AdminUserItem
+              key={user.id}
+              user={user}
+              isSelected={selectedUserId === user.id}
+              onSelect={() =>
+                setSelectedUserId((current) => (current === user.id ? null : user.id))
+              }
+            />
+          ))}
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!data.pagination.hasPrevious}
+              onClick={() => setPage((current) => current - 1)}
+            >
+              이전
+            </Button>
+            <span className="text-sm text-gray-600">
+              {data.pagination.page} / {data.pagination.totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!data.pagination.hasNext}
+              onClick={() => setPage((current) => current + 1)}
+            >
+              다음
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
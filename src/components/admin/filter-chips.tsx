@@ -0,0 +1,44 @@
+/**
+ * 관리자 콘솔 필터 칩
+ *
+ * 상태/역할 등 하나를 고르는 필터를 칩 버튼으로 보여줍니다.
+ */
+
+"use client";
+
+interface FilterChipsProps<T extends string> {
+  /** 선택지 (값 → 표시명) */
+  options: readonly { value: T; label: string }[];
+  /** 선택된 값 */
+  value: T;
+  /** 선택 변경 핸들러 */
+  onChange: (value: T) => void;
+}
+
+/**
+ * 필터 칩 컴포넌트
+ */
+export function FilterChips<T extends string>({
+  options,
+  value,
+  onChange,
+}: FilterChipsProps<T>) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-1.5 rounded-full text-sm border ${
+            value === option.value
+              ? "bg-blue-600 border-blue-600 text-white"
+              : "bg-white border-gray-300 text-gray-700"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
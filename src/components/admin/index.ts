@@ -0,0 +1,13 @@
+/**
+ * 관리자 콘솔 컴포넌트 모듈
+ *
+ * 관리자 콘솔 화면의 탭별 패널 컴포넌트들을 export합니다.
+ */
+
+export { AdminDashboardPanel } from './admin-dashboard-panel';
+export { AdminUsersPanel } from './admin-users-panel';
+export { AdminSheltersPanel } from './admin-shelters-panel';
+export { AdminReportsPanel } from './admin-reports-panel';
+export { AdminPetsPanel } from './admin-pets-panel';
+export { AdminAuditLogPanel } from './admin-audit-log-panel';
+export { AdminAuditLogList } from './admin-audit-log-list';
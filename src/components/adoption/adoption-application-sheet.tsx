@@ -0,0 +1,237 @@
+/**
+ * 입양 신청서 바텀시트
+ *
+ * 체크리스트를 마친 뒤 보호소에 보낼 신청서 질문에 답하는 바텀시트 컴포넌트입니다.
+ * 제출 전 클라이언트에서 먼저 검증하고, 서버 검증 오류도 질문 아래에 표시합니다.
+ */
+
+"use client";
+
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { X } from "lucide-react";
+import { Button, Input, Label, Textarea } from "@/components/ui";
+import {
+  adoptionApplicationQuestions,
+  validateApplicationAnswers,
+} from "@/services/api/adoption-application";
+import type { AdoptionApplicationRequest, ValidationError } from "@/types/api";
+import { ADOPTION_APPLICATION_SETTINGS } from "@/utils/constants";
+
+interface AdoptionApplicationSheetProps {
+  /** 바텀시트 표시 여부 */
+  isOpen: boolean;
+  /** 신청 대상 동물 이름 */
+  petName: string;
+  /** 제출 중 여부 */
+  isSubmitting: boolean;
+  /** 서버 검증 오류 */
+  serverErrors?: ValidationError[];
+  /** 바텀시트 닫기 핸들러 */
+  onClose: () => void;
+  /** 신청서 제출 핸들러 */
+  onSubmit: (request: AdoptionApplicationRequest) => void;
+}
+
+/**
+ * 필드별 오류 메시지 맵으로 변환
+ */
+function toErrorMap(errors: ValidationError[]): Record<string, string> {
+  return Object.fromEntries(errors.map((error) => [error.field, error.message]));
+}
+
+/**
+ * 입양 신청서 바텀시트 컴포넌트
+ *
+ * MVVM 아키텍처:
+ * - View: 이 컴포넌트 (신청서 UI 렌더링)
+ * - ViewModel: useState (답변/오류 상태 관리)
+ * - Model: ADOPTION_APPLICATION_QUESTIONS (신청서 질문)
+ */
+export function AdoptionApplicationSheet({
+  isOpen,
+  petName,
+  isSubmitting,
+  serverErrors,
+  onClose,
+  onSubmit,
+}: AdoptionApplicationSheetProps) {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState("");
+  const [clientErrors, setClientErrors] = useState<ValidationError[]>([]);
+  const [isAnimating, setIsAnimating] = useState(false);
+
+  /**
+   * 열릴 때 애니메이션 시작
+   */
+  useEffect(() => {
+    if (!isOpen) {
+      setIsAnimating(false);
+      return;
+    }
+    const timer = setTimeout(() => setIsAnimating(true), 50);
+    return () => clearTimeout(timer);
+  }, [isOpen]);
+
+  const errorMap = useMemo(
+    () => toErrorMap([...(serverErrors ?? []), ...clientErrors]),
+    [serverErrors, clientErrors]
+  );
+
+  /**
+   * 답변 변경 핸들러 (해당 질문의 오류 해제)
+   */
+  const handleAnswerChange = useCallback((questionId: string, value: string) => {
+    setAnswers((prev) => ({ ...prev, [questionId]: value }));
+    setClientErrors((prev) =>
+      prev.filter((error) => error.field !== `answers.${questionId}`)
+    );
+  }, []);
+
+  /**
+   * 제출 핸들러
+   */
+  const handleSubmit = useCallback(() => {
+    if (isSubmitting) return;
+
+    const errors = validateApplicationAnswers(answers, message);
+    setClientErrors(errors);
+    if (errors.length > 0) return;
+
+    onSubmit({ answers, message: message.trim() || undefined });
+  }, [isSubmitting, answers, message, onSubmit]);
+
+  /**
+   * 백드롭 클릭 핸들러
+   */
+  const handleBackdropClick = useCallback(
+    (e: React.MouseEvent) => {
+      if (e.target === e.currentTarget && !isSubmitting) onClose();
+    },
+    [onClose, isSubmitting]
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/10 backdrop-blur-sm flex items-end z-50"
+      onClick={handleBackdropClick}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="application-title"
+    >
+      <div
+        className={`bg-white rounded-t-3xl w-full max-h-[90vh] overflow-hidden flex flex-col transform transition-transform duration-500 ease-out ${
+          isAnimating ? "translate-y-0" : "translate-y-full"
+        }`}
+      >
+        {/* 핸들러 */}
+        <div className="w-12 h-1 bg-gray-300 rounded-full mx-auto mt-3 mb-4"></div>
+
+        {/* 헤더 */}
+        <div className="flex items-center justify-between px-6 pb-4">
+          <div>
+            <h2 id="application-title" className="text-xl font-bold text-blue-600">
+              입양 신청서
+            </h2>
+            <p className="text-sm text-gray-500">{petName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            aria-label="신청서 닫기"
+          >
+            <X className="h-5 w-5 text-gray-600" />
+          </button>
+        </div>
+
+        {/* 질문 */}
+        <div className="flex-1 overflow-y-auto px-6 space-y-6 pb-6">
+          {adoptionApplicationQuestions.map((question) => {
+            const fieldError = errorMap[`answers.${question.id}`];
+            const answer = answers[question.id] ?? "";
+
+            return (
+              <div key={question.id} className="space-y-2">
+                <Label htmlFor={`question-${question.id}`} className="text-sm font-semibold text-gray-900">
+                  {question.question}
+                  {question.required && <span className="text-red-500"> *</span>}
+                </Label>
+
+                {question.type === "choice" && (
+                  <div id={`question-${question.id}`} className="flex flex-wrap gap-2">
+                    {question.options?.map((option) => (
+                      <button
+                        key={option}
+                        type="button"
+                        onClick={() => handleAnswerChange(question.id, option)}
+                        className={`px-3 py-2 rounded-full text-sm border transition-colors ${
+                          answer === option
+                            ? "bg-blue-600 border-blue-600 text-white"
+                            : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+                        }`}
+                      >
+                        {option}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {question.type === "text" && (
+                  <Textarea
+                    id={`question-${question.id}`}
+                    value={answer}
+                    maxLength={ADOPTION_APPLICATION_SETTINGS.ANSWER_MAX_LENGTH}
+                    onChange={(e) => handleAnswerChange(question.id, e.target.value)}
+                    rows={4}
+                  />
+                )}
+
+                {question.type === "phone" && (
+                  <Input
+                    id={`question-${question.id}`}
+                    type="tel"
+                    inputMode="tel"
+                    placeholder="010-1234-5678"
+                    value={answer}
+                    onChange={(e) => handleAnswerChange(question.id, e.target.value)}
+                  />
+                )}
+
+                {fieldError && <p className="text-xs text-red-500">{fieldError}</p>}
+              </div>
+            );
+          })}
+
+          <div className="space-y-2">
+            <Label htmlFor="application-message" className="text-sm font-semibold text-gray-900">
+              보호소에 전하고 싶은 말 (선택)
+            </Label>
+            <Textarea
+              id="application-message"
+              value={message}
+              maxLength={ADOPTION_APPLICATION_SETTINGS.MESSAGE_MAX_LENGTH}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={3}
+            />
+            {errorMap.message && (
+              <p className="text-xs text-red-500">{errorMap.message}</p>
+            )}
+          </div>
+        </div>
+
+        {/* 하단 버튼 */}
+        <div className="px-6 py-4 border-t border-gray-200 bg-white">
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="w-full h-12 text-base font-semibold"
+          >
+            {isSubmitting ? "신청서를 보내는 중..." : "입양 신청서 제출"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
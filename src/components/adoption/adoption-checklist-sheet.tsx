@@ -17,7 +17,7 @@ interface AdoptionChecklistSheetProps {
   isOpen: boolean;
   /** 바텀시트 닫기 핸들러 */
   onClose: () => void;
-  /** 입양 신청 완료 핸들러 */
+  /** 체크리스트 완료 핸들러 (신청서 작성으로 이동) */
   onApply: () => void;
 }
 
@@ -164,7 +164,6 @@ export function AdoptionChecklistSheet({
 
     onApply();
     handleClose();
-    toast.success("입양 신청이 완료되었습니다! 🎉");
 
     // 처리 완료 후 상태 리셋 (handleClose에서 리셋됨)
   }, [allItemsChecked, onApply, handleClose, isApplying, toast]);
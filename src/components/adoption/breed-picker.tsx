@@ -0,0 +1,86 @@
+/**
+ * 품종 선택 컴포넌트
+ *
+ * 공공데이터 품종 코드 목록으로 검색할 품종을 선택합니다.
+ */
+
+"use client";
+
+import { useCallback } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui";
+import { useBreedList } from "@/hooks/use-breeds";
+
+interface BreedPickerProps {
+  /** 축종 코드 */
+  upkind: string;
+  /** 선택된 품종 코드 */
+  value?: string;
+  /** 품종 변경 핸들러 */
+  onChange: (kindCd?: string) => void;
+}
+
+/**
+ * 전체 품종을 나타내는 Select 값 (Radix Select는 빈 문자열 값을 허용하지 않음)
+ */
+const ALL_BREED_VALUE = "all";
+
+/**
+ * 품종 선택 컴포넌트
+ *
+ * MVVM 아키텍처:
+ * - View: 이 컴포넌트 (품종 Select 렌더링)
+ * - ViewModel: useBreedList (품종 목록 조회)
+ * - Model: 품종 코드 API
+ *
+ * @param {object} props
+ * @param {string} props.upkind 축종 코드
+ * @param {string | undefined} props.value 선택된 품종 코드
+ * @param {(kindCd?: string) => void} props.onChange 품종 변경 핸들러
+ */
+export function BreedPicker({ upkind, value, onChange }: BreedPickerProps) {
+  const { data: breeds = [], isLoading, error } = useBreedList(upkind);
+
+  /**
+   * 품종 변경 핸들러
+   */
+  const handleChange = useCallback(
+    (kindCd: string) => {
+      onChange(kindCd === ALL_BREED_VALUE ? undefined : kindCd);
+    },
+    [onChange]
+  );
+
+  if (error) {
+    return (
+      <p className="text-sm text-red-600" role="alert">
+        품종 목록을 불러오지 못했습니다.
+      </p>
+    );
+  }
+
+  return (
+    <Select
+      value={value ?? ALL_BREED_VALUE}
+      onValueChange={handleChange}
+      disabled={isLoading}
+    >
+      <SelectTrigger className="w-full" aria-label="품종 선택">
+        <SelectValue placeholder={isLoading ? "불러오는 중..." : "품종"} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_BREED_VALUE}>전체 품종</SelectItem>
+        {breeds.map((item) => (
+          <SelectItem key={item.kindCd} value={item.kindCd}>
+            {item.KNm}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,172 @@
+/**
+ * 게시글 신고 바텀시트
+ *
+ * 사실과 다르거나 부적절한 입양 공고를 관리자에게 신고하는 바텀시트 컴포넌트입니다.
+ * 접수된 신고는 관리자 콘솔의 신고 목록에서 처리합니다.
+ */
+
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { X } from "lucide-react";
+import { Button, Label, Textarea } from "@/components/ui";
+import type { ContentReportRequest } from "@/types/api";
+import { ADMIN_SETTINGS, CONTENT_REPORT_REASONS } from "@/utils/constants";
+
+type ContentReportReason = keyof typeof CONTENT_REPORT_REASONS;
+
+interface ContentReportSheetProps {
+  /** 바텀시트 표시 여부 */
+  isOpen: boolean;
+  /** 신고 대상 이름 */
+  targetName: string;
+  /** 제출 중 여부 */
+  isSubmitting: boolean;
+  /** 바텀시트 닫기 핸들러 */
+  onClose: () => void;
+  /** 신고 제출 핸들러 (대상 정보는 호출하는 쪽에서 채움) */
+  onSubmit: (request: Pick<ContentReportRequest, "reason" | "details">) => void;
+}
+
+/**
+ * 게시글 신고 바텀시트 컴포넌트
+ *
+ * MVVM 아키텍처:
+ * - View: 이 컴포넌트 (신고 사유 선택 UI 렌더링)
+ * - ViewModel: useState (사유/상세 내용 상태 관리)
+ * - Model: CONTENT_REPORT_REASONS (신고 사유)
+ */
+export function ContentReportSheet({
+  isOpen,
+  targetName,
+  isSubmitting,
+  onClose,
+  onSubmit,
+}: ContentReportSheetProps) {
+  const [reason, setReason] = useState<ContentReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [isAnimating, setIsAnimating] = useState(false);
+
+  /**
+   * 열릴 때 입력 초기화 및 애니메이션 시작
+   */
+  useEffect(() => {
+    if (!isOpen) {
+      setIsAnimating(false);
+      return;
+    }
+    setReason(null);
+    setDetails("");
+    const timer = setTimeout(() => setIsAnimating(true), 50);
+    return () => clearTimeout(timer);
+  }, [isOpen]);
+
+  /**
+   * 제출 핸들러
+   */
+  const handleSubmit = useCallback(() => {
+    if (isSubmitting || !reason) return;
+    onSubmit({ reason, details: details.trim() || undefined });
+  }, [isSubmitting, reason, details, onSubmit]);
+
+  /**
+   * 백드롭 클릭 핸들러
+   */
+  const handleBackdropClick = useCallback(
+    (e: React.MouseEvent) => {
+      if (e.target === e.currentTarget && !isSubmitting) onClose();
+    },
+    [onClose, isSubmitting]
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/10 backdrop-blur-sm flex items-end z-50"
+      onClick={handleBackdropClick}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="report-title"
+    >
+      <div
+        className={`bg-white rounded-t-3xl w-full max-h-[90vh] overflow-hidden flex flex-col transform transition-transform duration-500 ease-out ${
+          isAnimating ? "translate-y-0" : "translate-y-full"
+        }`}
+      >
+        {/* 핸들러 */}
+        <div className="w-12 h-1 bg-gray-300 rounded-full mx-auto mt-3 mb-4"></div>
+
+        {/* 헤더 */}
+        <div className="flex items-center justify-between px-6 pb-4">
+          <div>
+            <h2 id="report-title" className="text-xl font-bold text-gray-900">
+              신고하기
+            </h2>
+            <p className="text-sm text-gray-500">{targetName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            aria-label="신고 닫기"
+          >
+            <X className="h-5 w-5 text-gray-600" />
+          </button>
+        </div>
+
+        {/* 신고 사유 */}
+        <div className="flex-1 overflow-y-auto px-6 space-y-6 pb-6">
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold text-gray-900">
+              신고 사유<span className="text-red-500"> *</span>
+            </Label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(CONTENT_REPORT_REASONS) as ContentReportReason[]).map(
+                (option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setReason(option)}
+                    className={`px-3 py-2 rounded-full text-sm border transition-colors ${
+                      reason === option
+                        ? "bg-red-500 border-red-500 text-white"
+                        : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    {CONTENT_REPORT_REASONS[option]}
+                  </button>
+                )
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-details" className="text-sm font-semibold text-gray-900">
+              자세한 내용 (선택)
+            </Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              maxLength={ADMIN_SETTINGS.REPORT_DETAILS_MAX_LENGTH}
+              onChange={(e) => setDetails(e.target.value)}
+              rows={4}
+            />
+          </div>
+        </div>
+
+        {/* 하단 버튼 */}
+        <div className="px-6 py-4 border-t border-gray-200 bg-white">
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !reason}
+            variant="destructive"
+            className="w-full h-12 text-base font-semibold"
+          >
+            {isSubmitting ? "신고를 접수하는 중..." : "신고 접수"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,4 +4,11 @@
  * 입양 프로세스와 관련된 컴포넌트들을 export합니다.
  */
 
-export { AdoptionChecklistSheet } from './adoption-checklist-sheet';
\ No newline at end of file
+export { AdoptionChecklistSheet } from './adoption-checklist-sheet';
+export { AdoptionApplicationSheet } from './adoption-application-sheet';
+export { ContentReportSheet } from './content-report-sheet';
+export { RegionPicker } from './region-picker';
+export type { RegionSelection } from './region-picker';
+export { BreedPicker } from './breed-picker';
+export { SimilarPetsSection } from './similar-pets-section';
+export { NoticeUrgencyBadge } from './notice-urgency-badge';
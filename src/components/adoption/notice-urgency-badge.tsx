@@ -0,0 +1,56 @@
+/**
+ * 공고 마감 긴급도 배지
+ *
+ * 공고 종료까지 남은 일수를 "마감 임박 D-1"처럼 표시합니다.
+ * 마감이 가깝지 않거나 공고 정보가 없으면 아무것도 표시하지 않습니다.
+ */
+
+import { Badge } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import type { PetNotice } from "@/types/pet";
+import { NOTICE_URGENCY_LABELS } from "@/utils/constants";
+import { formatNoticeDeadline } from "@/services/api/notice-deadline";
+
+interface NoticeUrgencyBadgeProps {
+  /** 공고 기간 정보 */
+  notice?: PetNotice;
+  /** true면 마감이 멀어도 남은 일수를 표시 (상세 페이지용) */
+  showNormal?: boolean;
+  className?: string;
+}
+
+/**
+ * 긴급도별 배지 색상
+ */
+const URGENCY_CLASS_NAMES = {
+  critical: "bg-red-600 text-white",
+  soon: "bg-orange-500 text-white",
+  normal: "bg-gray-100 text-gray-700",
+  ended: "bg-gray-400 text-white",
+} as const;
+
+/**
+ * 공고 마감 긴급도 배지 컴포넌트
+ *
+ * @param {object} props
+ * @param {PetNotice | undefined} props.notice 공고 기간 정보
+ * @param {boolean} props.showNormal 마감이 멀어도 표시할지 여부
+ * @param {string} props.className 추가 클래스
+ */
+export function NoticeUrgencyBadge({
+  notice,
+  showNormal = false,
+  className,
+}: NoticeUrgencyBadgeProps) {
+  const deadline = formatNoticeDeadline(notice);
+  if (!notice || !deadline || notice.urgency === "unknown") return null;
+  if (notice.urgency === "normal" && !showNormal) return null;
+
+  return (
+    <Badge className={cn(URGENCY_CLASS_NAMES[notice.urgency], className)}>
+      {notice.urgency === "ended"
+        ? NOTICE_URGENCY_LABELS.ended
+        : `${NOTICE_URGENCY_LABELS[notice.urgency]} ${deadline}`}
+    </Badge>
+  );
+}
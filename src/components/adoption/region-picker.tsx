@@ -0,0 +1,130 @@
+/**
+ * 지역 선택 컴포넌트
+ *
+ * 공공데이터 시도/시군구 코드 목록으로 입양처 지역을 선택합니다.
+ */
+
+"use client";
+
+import { useCallback } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui";
+import { useSidoList, useSigunguList } from "@/hooks/use-regions";
+
+/**
+ * 선택된 지역 코드
+ */
+export interface RegionSelection {
+  uprCd?: string;
+  orgCd?: string;
+}
+
+interface RegionPickerProps {
+  /** 선택된 지역 코드 */
+  value: RegionSelection;
+  /** 지역 변경 핸들러 */
+  onChange: (value: RegionSelection) => void;
+}
+
+/**
+ * 전체 지역을 나타내는 Select 값 (Radix Select는 빈 문자열 값을 허용하지 않음)
+ */
+const ALL_REGION_VALUE = "all";
+
+/**
+ * 지역 선택 컴포넌트
+ *
+ * MVVM 아키텍처:
+ * - View: 이 컴포넌트 (시도/시군구 Select 렌더링)
+ * - ViewModel: useSidoList, useSigunguList (코드 목록 조회)
+ * - Model: 지역 코드 API
+ *
+ * @param {object} props
+ * @param {RegionSelection} props.value 선택된 지역 코드
+ * @param {(value: RegionSelection) => void} props.onChange 지역 변경 핸들러
+ */
+export function RegionPicker({ value, onChange }: RegionPickerProps) {
+  const { data: sidoList = [], isLoading: isSidoLoading, error: sidoError } =
+    useSidoList();
+  const { data: sigunguList = [], isLoading: isSigunguLoading } =
+    useSigunguList(value.uprCd);
+
+  /**
+   * 시도 변경 핸들러 (시군구 선택 초기화)
+   */
+  const handleSidoChange = useCallback(
+    (uprCd: string) => {
+      onChange({
+        uprCd: uprCd === ALL_REGION_VALUE ? undefined : uprCd,
+        orgCd: undefined,
+      });
+    },
+    [onChange]
+  );
+
+  /**
+   * 시군구 변경 핸들러
+   */
+  const handleSigunguChange = useCallback(
+    (orgCd: string) => {
+      onChange({
+        uprCd: value.uprCd,
+        orgCd: orgCd === ALL_REGION_VALUE ? undefined : orgCd,
+      });
+    },
+    [onChange, value.uprCd]
+  );
+
+  if (sidoError) {
+    return (
+      <p className="text-sm text-red-600" role="alert">
+        지역 목록을 불러오지 못했습니다.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <Select
+        value={value.uprCd ?? ALL_REGION_VALUE}
+        onValueChange={handleSidoChange}
+        disabled={isSidoLoading}
+      >
+        <SelectTrigger className="w-full" aria-label="시도 선택">
+          <SelectValue placeholder={isSidoLoading ? "불러오는 중..." : "시도"} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_REGION_VALUE}>전체 시도</SelectItem>
+          {sidoList.map((sido) => (
+            <SelectItem key={sido.orgCd} value={sido.orgCd}>
+              {sido.orgdownNm}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={value.orgCd ?? ALL_REGION_VALUE}
+        onValueChange={handleSigunguChange}
+        disabled={!value.uprCd || isSigunguLoading}
+      >
+        <SelectTrigger className="w-full" aria-label="시군구 선택">
+          <SelectValue placeholder="시군구" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_REGION_VALUE}>전체 시군구</SelectItem>
+          {sigunguList.map((sigungu) => (
+            <SelectItem key={sigungu.orgCd} value={sigungu.orgCd}>
+              {sigungu.orgdownNm}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
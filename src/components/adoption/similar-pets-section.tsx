@@ -0,0 +1,108 @@
+/**
+ * 비슷한 아이들 섹션
+ *
+ * 상세 페이지에서 현재 동물과 비슷한 입양 가능 동물을 가로 스크롤 카드로 보여줍니다.
+ */
+
+"use client";
+
+import Link from "next/link";
+import Image from "next/image";
+import { PawPrint } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui";
+import { useSimilarPets } from "@/hooks/use-pets";
+import { SIMILARITY_FACTOR_LABELS } from "@/utils/constants";
+
+interface SimilarPetsSectionProps {
+  /** 기준 동물 유기번호 */
+  petId: string;
+  /** 최대 표시 개수 */
+  limit?: number;
+}
+
+/**
+ * 비슷한 아이들 섹션 컴포넌트
+ *
+ * MVVM 아키텍처:
+ * - View: 이 컴포넌트 (유사 동물 카드 목록 렌더링)
+ * - ViewModel: useSimilarPets (유사 동물 조회)
+ * - Model: 비슷한 반려동물 API
+ *
+ * @param {object} props
+ * @param {string} props.petId 기준 동물 유기번호
+ * @param {number} props.limit 최대 표시 개수
+ */
+export function SimilarPetsSection({ petId, limit }: SimilarPetsSectionProps) {
+  const { data, isLoading, error } = useSimilarPets(petId, limit);
+
+  // 추천할 동물이 없거나 조회에 실패하면 섹션을 숨김
+  if (error || (!isLoading && (!data || data.items.length === 0))) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">비슷한 아이들</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex space-x-3 overflow-hidden">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <div
+                key={index}
+                className="w-32 flex-shrink-0 space-y-2 animate-pulse"
+              >
+                <div className="aspect-square rounded-lg bg-gray-200" />
+                <div className="h-3 w-3/4 rounded bg-gray-200" />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex space-x-3 overflow-x-auto pb-1">
+            {data!.items.map(({ pet, similarity }) => (
+              <Link
+                key={pet.id}
+                href={`/adoption/${pet.id}`}
+                className="w-32 flex-shrink-0"
+              >
+                <div className="aspect-square rounded-lg bg-gray-200 overflow-hidden">
+                  {pet.images[0] ? (
+                    <Image
+                      src={pet.images[0].variants?.card ?? pet.images[0].url}
+                      placeholder={pet.images[0].blurDataURL ? "blur" : "empty"}
+                      blurDataURL={pet.images[0].blurDataURL}
+                      unoptimized
+                      alt={pet.images[0].alt || pet.name}
+                      width={128}
+                      height={128}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <PawPrint className="h-8 w-8 text-gray-400" />
+                    </div>
+                  )}
+                </div>
+                <p className="mt-2 text-sm font-medium text-gray-900 truncate">
+                  {pet.name}
+                </p>
+                <p className="text-xs text-blue-600">
+                  유사도 {similarity.overall}%
+                </p>
+                {similarity.matchedFactors.length > 0 && (
+                  <p className="text-xs text-gray-500 truncate">
+                    {similarity.matchedFactors
+                      .filter((factor) => factor !== "species")
+                      .map((factor) => SIMILARITY_FACTOR_LABELS[factor])
+                      .join(" · ")}
+                  </p>
+                )}
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
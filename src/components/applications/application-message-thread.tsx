@@ -0,0 +1,120 @@
+/**
+ * 입양 신청 메시지 스레드
+ *
+ * 보호소와 신청자가 주고받은 메시지를 보여주고 새 메시지를 보냅니다.
+ * 신청자 화면(내 신청)과 보호소 업무 공간이 함께 사용합니다.
+ */
+
+"use client";
+
+import { useState, useCallback } from "react";
+import { Send } from "lucide-react";
+import { Button, Textarea } from "@/components/ui";
+import type { AdoptionApplicationMessage } from "@/types/pet";
+import { ADOPTION_APPLICATION_SETTINGS } from "@/utils/constants";
+
+interface ApplicationMessageThreadProps {
+  /** 메시지 목록 (오래된 순) */
+  messages: AdoptionApplicationMessage[];
+  /** 화면을 보는 쪽 (내 메시지는 오른쪽에 표시) */
+  viewerRole: AdoptionApplicationMessage["senderRole"];
+  /** 메시지 전송 중 여부 */
+  isSending: boolean;
+  /** 메시지를 보낼 수 없으면 안내 문구 */
+  disabledReason?: string;
+  /** 메시지 전송 핸들러 (성공하면 입력창을 비움) */
+  onSend: (body: string) => Promise<unknown>;
+}
+
+/**
+ * 입양 신청 메시지 스레드 컴포넌트
+ */
+export function ApplicationMessageThread({
+  messages,
+  viewerRole,
+  isSending,
+  disabledReason,
+  onSend,
+}: ApplicationMessageThreadProps) {
+  const [draft, setDraft] = useState("");
+
+  /**
+   * 전송 핸들러
+   */
+  const handleSend = useCallback(async () => {
+    const body = draft.trim();
+    if (!body || isSending) return;
+
+    try {
+      await onSend(body);
+      setDraft("");
+    } catch {
+      // 오류 안내는 onSend를 넘긴 쪽에서 처리
+    }
+  }, [draft, isSending, onSend]);
+
+  return (
+    <div className="space-y-3">
+      {messages.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 py-4">
+          아직 주고받은 메시지가 없습니다
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {messages.map((message) => {
+            const isMine = message.senderRole === viewerRole;
+            return (
+              <li
+                key={message.id}
+                className={`flex ${isMine ? "justify-end" : "justify-start"}`}
+              >
+                <div
+                  className={`max-w-[80%] rounded-2xl px-3 py-2 text-sm ${
+                    isMine ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-800"
+                  }`}
+                >
+                  {!isMine && (
+                    <p className="text-xs font-medium text-gray-500 mb-0.5">
+                      {message.senderRole === "shelter" ? "보호소" : "신청자"}
+                    </p>
+                  )}
+                  <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                  <p
+                    className={`mt-1 text-[10px] ${
+                      isMine ? "text-blue-100" : "text-gray-400"
+                    }`}
+                  >
+                    {new Date(message.createdAt).toLocaleString("ko-KR")}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {disabledReason ? (
+        <p className="text-center text-xs text-gray-500">{disabledReason}</p>
+      ) : (
+        <div className="flex items-end space-x-2">
+          <Textarea
+            value={draft}
+            maxLength={ADOPTION_APPLICATION_SETTINGS.MESSAGE_MAX_LENGTH}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="메시지를 입력하세요"
+            rows={2}
+            className="flex-1"
+          />
+          <Button
+            size="icon"
+            onClick={handleSend}
+            disabled={isSending || !draft.trim()}
+            aria-label="메시지 보내기"
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * 입양 신청 상태 배지
+ */
+
+import { Badge } from "@/components/ui";
+import type { AdoptionApplicationStatus } from "@/types/pet";
+import { APPLICATION_STATUS_LABELS } from "@/utils/constants";
+import { cn } from "@/lib/utils";
+
+/**
+ * 상태별 배지 색상
+ */
+const STATUS_BADGE_CLASSES: Record<AdoptionApplicationStatus, string> = {
+  pending: "bg-blue-100 text-blue-700",
+  approved: "bg-green-100 text-green-700",
+  rejected: "bg-red-100 text-red-700",
+  withdrawn: "bg-gray-100 text-gray-600",
+};
+
+interface ApplicationStatusBadgeProps {
+  status: AdoptionApplicationStatus;
+  className?: string;
+}
+
+/**
+ * 입양 신청 상태 배지 컴포넌트
+ */
+export function ApplicationStatusBadge({
+  status,
+  className,
+}: ApplicationStatusBadgeProps) {
+  return (
+    <Badge className={cn(STATUS_BADGE_CLASSES[status], className)}>
+      {APPLICATION_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
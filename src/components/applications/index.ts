@@ -0,0 +1,8 @@
+/**
+ * 입양 신청 관련 컴포넌트 모듈
+ *
+ * 신청자와 보호소 직원 화면이 함께 사용하는 컴포넌트들을 export합니다.
+ */
+
+export { ApplicationMessageThread } from './application-message-thread';
+export { ApplicationStatusBadge } from './application-status-badge';
@@ -7,4 +7,5 @@
 
 export { SocialLoginButton, SocialIcons } from './social-login-button';
 export { LoginModal, LoginBottomSheet } from './login-modal';
-export { ProfileCompletionModal } from './profile-completion-modal';
\ No newline at end of file
+export { ProfileCompletionModal } from './profile-completion-modal';
+export { RequirePermission } from './require-permission';
\ No newline at end of file
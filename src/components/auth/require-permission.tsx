@@ -0,0 +1,33 @@
+/**
+ * 권한별 UI 표시 컴포넌트
+ *
+ * 현재 사용자에게 권한이 있을 때만 자식 요소를 렌더링합니다.
+ */
+
+"use client";
+
+import { usePermission } from "@/hooks/use-permission";
+import type { Permission } from "@/types";
+
+interface RequirePermissionProps {
+  /** 필요한 권한 */
+  permission: Permission;
+  /** 권한이 있을 때 렌더링할 요소 */
+  children: React.ReactNode;
+  /** 권한이 없을 때 렌더링할 요소 (기본: 렌더링하지 않음) */
+  fallback?: React.ReactNode;
+}
+
+/**
+ * 권한별 UI 표시 컴포넌트
+ *
+ * 화면 표시만 제어하며, 실제 접근 제어는 middleware와 Route Handler가 담당합니다.
+ */
+export function RequirePermission({
+  permission,
+  children,
+  fallback = null,
+}: RequirePermissionProps) {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+}
@@ -8,7 +8,7 @@
 "use client";
 
 import { useEffect } from "react";
-import { useAuthStore } from "@/stores";
+import { resolveUserRole, useAuthStore } from "@/stores";
 import { LoginModal, ProfileCompletionModal } from "@/components/auth";
 import { supabase } from "@/lib/supabase";
 
@@ -64,7 +64,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
           profileImage:
             session.user.user_metadata?.avatar_url ||
             session.user.user_metadata?.picture,
-          role: "user" as const,
+          role: resolveUserRole(session.user.app_metadata),
           authProvider: (session.user.app_metadata?.provider as any) || "email",
           provider: session.user.app_metadata?.provider,
           emailVerified: session.user.email_confirmed_at ? true : false,
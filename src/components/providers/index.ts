@@ -5,4 +5,5 @@
  */
 
 export { QueryProvider } from './query-provider';
-export { AuthProvider } from './auth-provider';
\ No newline at end of file
+export { AuthProvider } from './auth-provider';
+export { NoticeAlertWatcher } from './notice-alert-watcher';
\ No newline at end of file
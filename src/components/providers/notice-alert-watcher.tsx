@@ -0,0 +1,18 @@
+/**
+ * 공고 마감 알림 감시 컴포넌트
+ *
+ * 앱 전역에서 즐겨찾기 공고 마감 알림(useFavoriteNoticeAlerts)을 실행합니다.
+ * 화면에는 아무것도 렌더링하지 않습니다.
+ */
+
+"use client";
+
+import { useFavoriteNoticeAlerts } from "@/hooks/use-notice-alerts";
+
+/**
+ * 공고 마감 알림 감시 컴포넌트
+ */
+export function NoticeAlertWatcher() {
+  useFavoriteNoticeAlerts();
+  return null;
+}
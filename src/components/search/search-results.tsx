@@ -17,13 +17,38 @@ import {
   User,
   BookOpen,
   PawPrint,
+  LocateFixed,
 } from "lucide-react";
 import Image from "next/image";
-import { Card, Button } from "@/components/ui";
-import { ROUTES } from "@/utils/constants";
-import { usePetStore } from "@/stores";
-import { useSearchPets } from "@/hooks/use-pets";
-import type { Pet } from "@/types";
+import {
+  Card,
+  Button,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui";
+import {
+  ROUTES,
+  SEARCH_SORT_LABELS,
+  SEARCH_RADIUS_OPTIONS,
+  DEFAULT_SEARCH_RADIUS,
+} from "@/utils/constants";
+import { usePetStore, useSearchStore, useUserStore } from "@/stores";
+import { usePetSearch } from "@/hooks/use-pets";
+import { ShelterNameLink } from "@/components/shelters";
+import { useGeolocation } from "@/hooks/use-geolocation";
+import {
+  createMatchProfile,
+  matchProfileToFilters,
+} from "@/services/api/match-scoring";
+import type {
+  Pet,
+  SearchRequest,
+  SearchResultItem,
+  SearchSortBy,
+} from "@/types";
 
 interface SearchResultsProps {
   /** 검색어 */
@@ -150,14 +175,50 @@ export function SearchResults({
 }: SearchResultsProps) {
   const router = useRouter();
   const { searchFilters } = usePetStore();
+  const { sort, setSort } = useSearchStore();
+  const { profile, preferences } = useUserStore();
 
-  // React Query로 검색
-  const searchParams = useMemo(
-    () => ({
-      keyword: query,
-      ...searchFilters,
+  // 맞춤 추천용 사용자 정보 (프로필/선호도가 있을 때만 전달)
+  const matchFilters = useMemo(
+    () =>
+      profile || preferences
+        ? matchProfileToFilters(createMatchProfile(profile, preferences))
+        : {},
+    [profile, preferences]
+  );
+
+  // "내 주변" 검색 (현재 위치 + 반경)
+  const {
+    coordinates: myCoordinates,
+    isLocating,
+    error: locationError,
+    locate,
+    reset: resetLocation,
+  } = useGeolocation();
+  const [radius, setRadius] = useState<number>(DEFAULT_SEARCH_RADIUS);
+
+  // React Query로 검색 (스토어 필터를 SearchRequest 필터로 변환)
+  const searchRequest = useMemo(
+    (): Omit<SearchRequest, "pagination"> => ({
+      filters: {
+        ...matchFilters,
+        keyword: query || searchFilters.keyword,
+        ...(searchFilters.species && { species: [searchFilters.species] }),
+        ...(searchFilters.gender && { gender: [searchFilters.gender] }),
+        ...((searchFilters.location || myCoordinates) && {
+          location: {
+            ...(searchFilters.location && { city: searchFilters.location }),
+            ...(myCoordinates && { coordinates: myCoordinates }),
+          },
+        }),
+        ...(myCoordinates && { radius }),
+        ...(searchFilters.isNeutered !== undefined && {
+          spayedNeutered: searchFilters.isNeutered,
+        }),
+      },
+      sort,
     }),
-    [query, searchFilters]
+    [query, searchFilters, sort, myCoordinates, radius, matchFilters]
   );
 
   const {
@@ -167,10 +228,15 @@ export function SearchResults({
     fetchNextPage,
     hasNextPage,
     isFetchingNextPage,
-  } = useSearchPets(searchParams);
+  } = usePetSearch(searchRequest, {
+    enabled:
+      !!query.trim() ||
+      !!myCoordinates ||
+      Object.values(searchFilters).some(Boolean),
+  });
 
-  const searchResults =
-    data?.pages.flatMap((page) => page.items || []).filter(Boolean) ?? [];
+  const searchResults: SearchResultItem[] =
+    data?.pages.flatMap((page) => page.items) ?? [];
 
   const [postResults, setPostResults] = useState<PostItem[]>([]);
 
@@ -202,6 +268,34 @@ export function SearchResults({
     [router]
   );
 
+  /**
+   * 정렬 변경 핸들러 (이름/거리는 오름차순, 그 외는 기준 자체의 방향 사용)
+   */
+  const handleSortChange = useCallback(
+    (sortBy: string) => {
+      setSort({
+        sortBy: sortBy as SearchSortBy,
+        direction: sortBy === "name" || sortBy === "distance" ? "asc" : "desc",
+      });
+    },
+    [setSort]
+  );
+
+  /**
+   * "내 주변" 토글 핸들러 (끌 때는 정렬도 기본값으로 되돌림)
+   */
+  const handleNearbyToggle = useCallback(() => {
+    if (myCoordinates) {
+      resetLocation();
+      if (sort.sortBy === "distance") {
+        setSort({ sortBy: "newest", direction: "desc" });
+      }
+      return;
+    }
+    locate();
+    setSort({ sortBy: "distance", direction: "asc" });
+  }, [myCoordinates, resetLocation, locate, sort.sortBy, setSort]);
+
   /**
    * 입양 아이템 클릭 핸들러 (기존 - 사용 안함)
    */
@@ -289,7 +383,7 @@ export function SearchResults({
    */
   const renderAdoptionResults = () => (
     <div className="space-y-3 p-4">
-      {searchResults.map((pet: Pet) => (
+      {searchResults.map(({ pet, distance, matchScore }) => (
         <Card
           key={pet.id}
           className="p-4 cursor-pointer hover:shadow-md transition-shadow"
@@ -299,7 +393,10 @@ export function SearchResults({
             <div className="w-16 h-16 bg-gray-200 rounded-lg overflow-hidden flex-shrink-0">
               {pet.images && pet.images.length > 0 ? (
                 <Image
-                  src={pet.images[0].url}
+                  src={pet.images[0].variants?.thumb ?? pet.images[0].url}
+                  placeholder={pet.images[0].blurDataURL ? "blur" : "empty"}
+                  blurDataURL={pet.images[0].blurDataURL}
+                  unoptimized
                   alt={pet.name}
                   width={64}
                   height={64}
@@ -326,11 +423,18 @@ export function SearchResults({
                           : "기타")}
                   </p>
                 </div>
-                {pet.adoptionStatus === "available" && (
-                  <span className="bg-green-100 text-green-600 text-xs px-2 py-1 rounded-full">
-                    입양가능
-                  </span>
-                )}
+                <div className="flex flex-shrink-0 items-center gap-1">
+                  {matchScore && (
+                    <span className="bg-purple-100 text-purple-600 text-xs px-2 py-1 rounded-full">
+                      맞춤 {matchScore.overall}%
+                    </span>
+                  )}
+                  {pet.adoptionStatus === "available" && (
+                    <span className="bg-green-100 text-green-600 text-xs px-2 py-1 rounded-full">
+                      입양가능
+                    </span>
+                  )}
+                </div>
               </div>
               <div className="mt-2 space-y-1">
                 <div className="flex items-center text-xs text-gray-500">
@@ -358,12 +462,29 @@ export function SearchResults({
                   <span className="truncate">
                     {pet.location.city || pet.location.address}
                   </span>
+                  {distance !== undefined && (
+                    <span className="ml-1 flex-shrink-0 text-blue-600">
+                      · {distance}km
+                    </span>
+                  )}
                 </div>
+                {matchScore?.explanations?.[0] && (
+                  <p className="text-xs text-purple-600 truncate">
+                    {(
+                      matchScore.explanations.find(
+                        (explanation) => explanation.impact === "positive"
+                      ) ?? matchScore.explanations[0]
+                    ).message}
+                  </p>
+                )}
               </div>
               <div className="mt-2 flex items-center justify-between">
-                <span className="text-xs text-gray-400">
-                  {pet.shelterInfo?.shelterName || "보호소 정보 없음"}
-                </span>
+                <ShelterNameLink
+                  careRegNo={pet.shelterInfo?.shelterId}
+                  name={pet.shelterInfo?.shelterName}
+                  nested
+                  className="text-xs text-gray-400"
+                />
                 <div className="flex items-center text-xs text-gray-400">
                   <Heart className="w-3 h-3 mr-1" />
                   <span>{pet.spayedNeutered ? "중성화" : "미중성화"}</span>
@@ -376,6 +497,62 @@ export function SearchResults({
     </div>
   );
 
+  /**
+   * 검색 도구 모음 렌더링 ("내 주변" 반경 + 정렬)
+   */
+  const renderToolbar = () => (
+    <div className="px-4 pt-4 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button
+            variant={myCoordinates ? "default" : "outline"}
+            size="sm"
+            onClick={handleNearbyToggle}
+            disabled={isLocating}
+            aria-pressed={!!myCoordinates}
+          >
+            <LocateFixed className="w-4 h-4 mr-1" />
+            {isLocating ? "위치 확인 중..." : "내 주변"}
+          </Button>
+          {myCoordinates && (
+            <Select
+              value={String(radius)}
+              onValueChange={(value) => setRadius(Number(value))}
+            >
+              <SelectTrigger className="w-24" aria-label="검색 반경">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEARCH_RADIUS_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option}km
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <Select value={sort.sortBy} onValueChange={handleSortChange}>
+          <SelectTrigger className="w-40" aria-label="정렬 기준">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SEARCH_SORT_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {locationError && (
+        <p className="text-xs text-red-600" role="alert">
+          {locationError}
+        </p>
+      )}
+    </div>
+  );
+
   /**
    * 게시글 결과 렌더링
    */
@@ -472,11 +649,21 @@ export function SearchResults({
     }
 
     if (searchResults.length === 0 && !isLoading) {
-      return renderEmptyState();
+      // "내 주변" 검색 중에는 반경을 바꾸거나 끌 수 있도록 도구 모음 유지
+      return myCoordinates || locationError ? (
+        <div className="h-full overflow-y-auto">
+          {renderToolbar()}
+          {renderEmptyState()}
+        </div>
+      ) : (
+        renderEmptyState()
+      );
     }
 
     return (
       <div className="h-full overflow-y-auto">
+        {renderToolbar()}
+
         {renderAdoptionResults()}
 
         {/* 더 보기 버튼 */}
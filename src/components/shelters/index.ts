@@ -0,0 +1,7 @@
+/**
+ * 보호소 관련 컴포넌트 모듈
+ *
+ * 보호소 목록/상세와 관련된 컴포넌트들을 export합니다.
+ */
+
+export { ShelterNameLink, getShelterHref } from './shelter-name-link';
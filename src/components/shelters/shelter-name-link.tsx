@@ -0,0 +1,98 @@
+/**
+ * 보호소 이름 링크
+ *
+ * 보호소 이름을 보호소 상세 페이지(/shelters/[careRegNo]) 링크로 표시합니다.
+ * 카드 전체가 이미 링크인 곳에서는 a 태그를 중첩할 수 없으므로 nested로 버튼 형태의 링크를 사용합니다.
+ */
+
+"use client";
+
+import { useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { cn } from "@/lib/utils";
+
+interface ShelterNameLinkProps {
+  /** 보호소 번호 (숫자가 아니면 링크 없이 이름만 표시) */
+  careRegNo?: string;
+  /** 보호소 이름 */
+  name?: string;
+  /** 다른 링크 안에 놓이는지 여부 */
+  nested?: boolean;
+  className?: string;
+}
+
+/**
+ * 보호소 상세 페이지 경로
+ * @param {string} careRegNo 보호소 번호
+ * @param {string} name 보호소 이름 (상세 정보가 없을 때 표시용)
+ */
+export function getShelterHref(careRegNo: string, name?: string): string {
+  const query = name ? `?name=${encodeURIComponent(name)}` : "";
+  return `/shelters/${encodeURIComponent(careRegNo)}${query}`;
+}
+
+/**
+ * 보호소 이름 링크 컴포넌트
+ *
+ * @param {object} props
+ * @param {string} props.careRegNo 보호소 번호
+ * @param {string} props.name 보호소 이름
+ * @param {boolean} props.nested 다른 링크 안에 놓이는지 여부
+ * @param {string} props.className 추가 클래스
+ */
+export function ShelterNameLink({
+  careRegNo,
+  name,
+  nested = false,
+  className,
+}: ShelterNameLinkProps) {
+  const router = useRouter();
+  const label = name || "보호소 정보 없음";
+  const href =
+    careRegNo && /^\d+$/.test(careRegNo)
+      ? getShelterHref(careRegNo, name)
+      : null;
+
+  /**
+   * 중첩 링크 클릭 핸들러 (바깥 카드 링크로 이동하지 않도록 차단)
+   */
+  const handleNestedClick = useCallback(
+    (event: React.MouseEvent | React.KeyboardEvent) => {
+      if (!href) return;
+      event.preventDefault();
+      event.stopPropagation();
+      router.push(href);
+    },
+    [href, router]
+  );
+
+  if (!href) {
+    return <span className={className}>{label}</span>;
+  }
+
+  if (nested) {
+    return (
+      <span
+        role="link"
+        tabIndex={0}
+        onClick={handleNestedClick}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") handleNestedClick(event);
+        }}
+        className={cn("underline-offset-2 hover:underline cursor-pointer", className)}
+      >
+        {label}
+      </span>
+    );
+  }
+
+  return (
+    <Link
+      href={href}
+      className={cn("underline-offset-2 hover:underline", className)}
+    >
+      {label}
+    </Link>
+  );
+}
@@ -0,0 +1,248 @@
+/**
+ * 관리자 콘솔 관련 React Query 훅
+ *
+ * 관리자 콘솔 화면과 신고 접수(로그인 사용자)가 함께 사용합니다.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  getAdminAuditLog,
+  getAdminDashboard,
+  getAdminPetOverview,
+  getAdminReports,
+  getAdminShelterMemberships,
+  getAdminUser,
+  resolveAdminReport,
+  reviewAdminShelterMembership,
+  searchAdminUsers,
+  submitContentReport,
+  updateAdminUser,
+} from "@/services/api/admin-api";
+import type {
+  AdminUserUpdateRequest,
+  ContentReportResolutionRequest,
+  ContentReportStatus,
+  ShelterStaffStatus,
+} from "@/types/api";
+import type { UserRole } from "@/types/user";
+import { usePermission } from "./use-permission";
+
+/**
+ * 사용자 검색 조건
+ */
+export interface AdminUserFilters {
+  keyword?: string;
+  role?: UserRole;
+  status?: "active" | "inactive";
+  page?: number;
+}
+
+/**
+ * Query Keys - 일관된 캐시 키 관리
+ */
+export const adminQueryKeys = {
+  all: ["admin"] as const,
+  dashboard: () => [...adminQueryKeys.all, "dashboard"] as const,
+  users: (filters: AdminUserFilters) => [...adminQueryKeys.all, "users", filters] as const,
+  user: (userId: string) => [...adminQueryKeys.all, "user", userId] as const,
+  shelters: (status?: ShelterStaffStatus) =>
+    [...adminQueryKeys.all, "shelters", status ?? "all"] as const,
+  reports: (status: ContentReportStatus) =>
+    [...adminQueryKeys.all, "reports", status] as const,
+  pet: (petId: string) => [...adminQueryKeys.all, "pet", petId] as const,
+  auditLog: () => [...adminQueryKeys.all, "audit-log"] as const,
+};
+
+/**
+ * 관리자 콘솔 권한이 있는지 (없으면 요청하지 않음, 권한은 서버에서 다시 확인)
+ */
+function useIsAdmin() {
+  return usePermission("access:admin");
+}
+
+/**
+ * 관리자 작업 후 대시보드/감사 로그 갱신
+ */
+function useInvalidateAdminSummary() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: adminQueryKeys.dashboard() });
+    queryClient.invalidateQueries({ queryKey: adminQueryKeys.auditLog() });
+  };
+}
+
+/**
+ * 관리자 대시보드 집계 조회
+ */
+export function useAdminDashboard() {
+  const isAdmin = useIsAdmin();
+
+  return useQuery({
+    queryKey: adminQueryKeys.dashboard(),
+    queryFn: getAdminDashboard,
+    enabled: isAdmin,
+    staleTime: 60 * 1000,
+  });
+}
+
+/**
+ * 사용자 검색
+ * @param {AdminUserFilters} filters 검색 조건
+ */
+export function useAdminUsers(filters: AdminUserFilters) {
+  const isAdmin = useIsAdmin();
+
+  return useQuery({
+    queryKey: adminQueryKeys.users(filters),
+    queryFn: () => searchAdminUsers(filters),
+    enabled: isAdmin,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * 사용자 상세 조회
+ * @param {string | null} userId 사용자 ID (선택한 경우에만 요청)
+ */
+export function useAdminUser(userId: string | null) {
+  const isAdmin = useIsAdmin();
+
+  return useQuery({
+    queryKey: adminQueryKeys.user(userId ?? ""),
+    queryFn: () => getAdminUser(userId as string),
+    enabled: isAdmin && !!userId,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * 사용자 계정 변경 (활성화/비활성화, 역할)
+ */
+export function useUpdateAdminUser() {
+  const queryClient = useQueryClient();
+  const invalidateSummary = useInvalidateAdminSummary();
+
+  return useMutation({
+    mutationFn: ({
+      userId,
+      request,
+    }: {
+      userId: string;
+      request: AdminUserUpdateRequest;
+    }) => updateAdminUser(userId, request),
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: [...adminQueryKeys.all, "users"] });
+      queryClient.invalidateQueries({ queryKey: adminQueryKeys.user(user.id) });
+      invalidateSummary();
+    },
+  });
+}
+
+/**
+ * 보호소 직원 소속 목록 조회
+ * @param {ShelterStaffStatus} status 소속 상태 (생략 시 전체)
+ */
+export function useAdminShelterMemberships(status?: ShelterStaffStatus) {
+  const isAdmin = useIsAdmin();
+
+  return useQuery({
+    queryKey: adminQueryKeys.shelters(status),
+    queryFn: () => getAdminShelterMemberships(status),
+    enabled: isAdmin,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * 보호소 소속 확인/거절/해제
+ */
+export function useReviewShelterMembership() {
+  const queryClient = useQueryClient();
+  const invalidateSummary = useInvalidateAdminSummary();
+
+  return useMutation({
+    mutationFn: reviewAdminShelterMembership,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...adminQueryKeys.all, "shelters"] });
+      queryClient.invalidateQueries({ queryKey: [...adminQueryKeys.all, "users"] });
+      invalidateSummary();
+    },
+  });
+}
+
+/**
+ * 신고 목록 조회
+ * @param {ContentReportStatus} status 처리 상태
+ */
+export function useAdminReports(status: ContentReportStatus) {
+  const isAdmin = useIsAdmin();
+
+  return useQuery({
+    queryKey: adminQueryKeys.reports(status),
+    queryFn: () => getAdminReports(status),
+    enabled: isAdmin,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * 신고 처리 (조치 완료/기각)
+ */
+export function useResolveReport() {
+  const queryClient = useQueryClient();
+  const invalidateSummary = useInvalidateAdminSummary();
+
+  return useMutation({
+    mutationFn: ({
+      reportId,
+      request,
+    }: {
+      reportId: string;
+      request: ContentReportResolutionRequest;
+    }) => resolveAdminReport(reportId, request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...adminQueryKeys.all, "reports"] });
+      queryClient.invalidateQueries({ queryKey: [...adminQueryKeys.all, "pet"] });
+      invalidateSummary();
+    },
+  });
+}
+
+/**
+ * 동물 공고 + 입양 신청 + 신고 조회
+ * @param {string} petId 유기번호 (입력한 경우에만 요청)
+ */
+export function useAdminPetOverview(petId: string) {
+  const isAdmin = useIsAdmin();
+
+  return useQuery({
+    queryKey: adminQueryKeys.pet(petId),
+    queryFn: () => getAdminPetOverview(petId),
+    enabled: isAdmin && !!petId,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * 관리자 작업 감사 로그 조회
+ */
+export function useAdminAuditLog() {
+  const isAdmin = useIsAdmin();
+
+  return useQuery({
+    queryKey: adminQueryKeys.auditLog(),
+    queryFn: () => getAdminAuditLog(),
+    enabled: isAdmin,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * 신고 접수 (로그인 사용자)
+ */
+export function useSubmitContentReport() {
+  return useMutation({
+    mutationFn: submitContentReport,
+  });
+}
@@ -0,0 +1,234 @@
+/**
+ * 입양 신청 관련 React Query 훅
+ *
+ * 신청자(내 신청)와 보호소 직원(업무 공간) 화면이 함께 사용합니다.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  getMyAdoptionApplications,
+  getMyApplicationMessages,
+  getMyShelterMemberships,
+  getShelterApplicationDetail,
+  getShelterApplications,
+  requestShelterMembership,
+  reviewShelterApplication,
+  sendMyApplicationMessage,
+  sendShelterApplicationMessage,
+  submitAdoptionApplication,
+  withdrawAdoptionApplication,
+} from "@/services/api/application-api";
+import type {
+  AdoptionApplicationDetail,
+  AdoptionApplicationRequest,
+  AdoptionApplicationStatusRequest,
+} from "@/types/api";
+import type {
+  AdoptionApplication,
+  AdoptionApplicationMessage,
+  AdoptionApplicationStatus,
+} from "@/types/pet";
+import { useAuthStore } from "@/stores";
+
+/**
+ * Query Keys - 일관된 캐시 키 관리
+ */
+export const applicationQueryKeys = {
+  all: ["applications"] as const,
+  mine: () => [...applicationQueryKeys.all, "mine"] as const,
+  messages: (applicationId: string) =>
+    [...applicationQueryKeys.all, "messages", applicationId] as const,
+  memberships: () => [...applicationQueryKeys.all, "memberships"] as const,
+  shelter: (filters: { careRegNo?: string; status?: AdoptionApplicationStatus }) =>
+    [...applicationQueryKeys.all, "shelter", filters] as const,
+  shelterDetail: (applicationId: string) =>
+    [...applicationQueryKeys.all, "shelter-detail", applicationId] as const,
+};
+
+/**
+ * 내 입양 신청 목록 조회 (로그인한 경우에만 요청)
+ */
+export function useMyApplications() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+
+  return useQuery({
+    queryKey: applicationQueryKeys.mine(),
+    queryFn: getMyAdoptionApplications,
+    enabled: isAuthenticated,
+    staleTime: 30 * 1000, // 보호소 검토 결과 반영을 위해 30초간만 fresh
+  });
+}
+
+/**
+ * 입양 신청
+ */
+export function useSubmitApplication() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      petId,
+      request,
+    }: {
+      petId: string;
+      request: AdoptionApplicationRequest;
+    }) => submitAdoptionApplication(petId, request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: applicationQueryKeys.mine() });
+    },
+  });
+}
+
+/**
+ * 입양 신청 철회 (목록 캐시의 해당 신청을 바로 갱신)
+ */
+export function useWithdrawApplication() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: withdrawAdoptionApplication,
+    onSuccess: (updated) => {
+      queryClient.setQueryData<AdoptionApplication[]>(
+        applicationQueryKeys.mine(),
+        (applications) =>
+          applications?.map((application) =>
+            application.id === updated.id ? updated : application
+          )
+      );
+    },
+  });
+}
+
+/**
+ * 내 신청의 메시지 조회
+ * @param {string} applicationId 신청 ID
+ * @param {boolean} enabled 조회 여부 (메시지 영역을 펼쳤을 때만)
+ */
+export function useApplicationMessages(applicationId: string, enabled: boolean) {
+  return useQuery({
+    queryKey: applicationQueryKeys.messages(applicationId),
+    queryFn: () => getMyApplicationMessages(applicationId),
+    enabled,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * 보호소에 답장
+ * @param {string} applicationId 신청 ID
+ */
+export function useSendApplicationMessage(applicationId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (body: string) => sendMyApplicationMessage(applicationId, body),
+    onSuccess: (message) => {
+      queryClient.setQueryData<AdoptionApplicationMessage[]>(
+        applicationQueryKeys.messages(applicationId),
+        (messages) => [...(messages ?? []), message]
+      );
+    },
+  });
+}
+
+/**
+ * 보호소 소속 목록 조회 (확인 대기/거절된 소속 포함)
+ */
+export function useShelterMemberships() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+
+  return useQuery({
+    queryKey: applicationQueryKeys.memberships(),
+    queryFn: getMyShelterMemberships,
+    enabled: isAuthenticated,
+    staleTime: 10 * 60 * 1000,
+    retry: false,
+  });
+}
+
+/**
+ * 보호소 소속 신청
+ */
+export function useRequestShelterMembership() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: requestShelterMembership,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: applicationQueryKeys.memberships() });
+    },
+  });
+}
+
+/**
+ * 보호소 입양 신청 목록 조회
+ * @param {object} filters 보호소 번호/상태 필터
+ * @param {boolean} enabled 조회 여부 (직원 확인 후)
+ */
+export function useShelterApplications(
+  filters: { careRegNo?: string; status?: AdoptionApplicationStatus },
+  enabled: boolean
+) {
+  return useQuery({
+    queryKey: applicationQueryKeys.shelter(filters),
+    queryFn: () => getShelterApplications(filters),
+    enabled,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * 보호소 입양 신청 상세 조회
+ * @param {string} applicationId 신청 ID
+ */
+export function useShelterApplicationDetail(applicationId: string) {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+
+  return useQuery({
+    queryKey: applicationQueryKeys.shelterDetail(applicationId),
+    queryFn: () => getShelterApplicationDetail(applicationId),
+    enabled: isAuthenticated && !!applicationId,
+    staleTime: 30 * 1000,
+  });
+}
+
+/**
+ * 입양 신청 검토 (승인/거절)
+ * @param {string} applicationId 신청 ID
+ */
+export function useReviewApplication(applicationId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: AdoptionApplicationStatusRequest) =>
+      reviewShelterApplication(applicationId, request),
+    onSuccess: (application) => {
+      queryClient.setQueryData<AdoptionApplicationDetail>(
+        applicationQueryKeys.shelterDetail(applicationId),
+        (detail) => (detail ? { ...detail, application } : detail)
+      );
+      queryClient.invalidateQueries({
+        queryKey: [...applicationQueryKeys.all, "shelter"],
+      });
+    },
+  });
+}
+
+/**
+ * 신청자에게 메시지 보내기
+ * @param {string} applicationId 신청 ID
+ */
+export function useSendShelterMessage(applicationId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (body: string) => sendShelterApplicationMessage(applicationId, body),
+    onSuccess: (message) => {
+      queryClient.setQueryData<AdoptionApplicationDetail>(
+        applicationQueryKeys.shelterDetail(applicationId),
+        (detail) =>
+          detail ? { ...detail, messages: [...detail.messages, message] } : detail
+      );
+    },
+  });
+}
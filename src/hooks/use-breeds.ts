@@ -0,0 +1,29 @@
+/**
+ * 품종 카탈로그 관련 React Query 훅들
+ * 품종 코드는 자주 바뀌지 않으므로 정적 캐시 옵션을 사용합니다.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { getKindList, ANIMAL_TYPE_CODES } from "@/services/api/animal-api";
+import { queryOptions } from "@/lib/react-query";
+import type { BreedCatalogItem } from "@/types/api";
+
+/**
+ * Query Keys - 일관된 캐시 키 관리
+ */
+export const breedQueryKeys = {
+  all: ["breeds"] as const,
+  list: (upkind: string) => [...breedQueryKeys.all, "list", upkind] as const,
+};
+
+/**
+ * 축종별 품종 목록 조회
+ * @param {string} upkind 축종 코드 (기본값: 개)
+ */
+export function useBreedList(upkind: string = ANIMAL_TYPE_CODES.DOG) {
+  return useQuery({
+    queryKey: breedQueryKeys.list(upkind),
+    queryFn: (): Promise<BreedCatalogItem[]> => getKindList(upkind),
+    ...queryOptions.static,
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * 관심 목록 훅
+ *
+ * useUserStore의 관심 목록에 최신 동물 상세 정보를 붙여
+ * 그 사이 입양되었거나 공고가 끝난 동물을 표시할 수 있게 합니다.
+ */
+
+import { useMemo } from "react";
+import { useQueries } from "@tanstack/react-query";
+import { useUserStore } from "@/stores";
+import { petDetailQueryOptions } from "./use-pets";
+import {
+  isFavoriteUnavailable,
+  resolveFavoriteAvailability,
+} from "@/services/api/favorite-status";
+import type { Pet } from "@/types/pet";
+import type { FavoriteAvailability, UserFavorites } from "@/types/user";
+
+/**
+ * 관심 동물 항목
+ */
+export interface FavoritePetItem {
+  favorite: UserFavorites;
+  pet: Pet | null | undefined; // undefined: 상세 정보 확인 중
+  availability: FavoriteAvailability | null; // null: 확인 중
+}
+
+/**
+ * 관심 동물 목록 훅
+ *
+ * MVVM 아키텍처:
+ * - View: 관심 목록 페이지
+ * - ViewModel: 이 훅 (관심 목록과 상세 정보 결합, 입양 가능 여부 판단)
+ * - Model: useUserStore (관심 목록), 반려동물 상세 API
+ */
+export function useFavoritePets() {
+  const favorites = useUserStore((state) => state.favorites);
+  const isLoading = useUserStore((state) => state.isFavoritesLoading);
+  const error = useUserStore((state) => state.favoritesError);
+
+  const pets = useQueries({
+    queries: favorites.map((favorite) => petDetailQueryOptions(favorite.petId)),
+    combine: (results) =>
+      results.map(({ data, isSuccess }) => (isSuccess ? data : undefined)),
+  });
+
+  const items = useMemo<FavoritePetItem[]>(
+    () =>
+      favorites.map((favorite, index) => {
+        const pet = pets[index];
+        return {
+          favorite,
+          pet,
+          availability:
+            pet === undefined ? null : resolveFavoriteAvailability(pet),
+        };
+      }),
+    [favorites, pets]
+  );
+
+  const unavailableCount = useMemo(
+    () =>
+      items.filter(
+        ({ availability }) =>
+          availability !== null && isFavoriteUnavailable(availability)
+      ).length,
+    [items]
+  );
+
+  return { items, unavailableCount, isLoading, error };
+}
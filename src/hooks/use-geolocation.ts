@@ -0,0 +1,94 @@
+/**
+ * 현재 위치 훅
+ *
+ * 브라우저 Geolocation API로 사용자의 현재 좌표를 요청합니다.
+ * 권한 요청은 사용자가 직접 요청할 때만 수행합니다.
+ */
+
+import { useState, useCallback } from "react";
+
+/**
+ * 좌표
+ */
+export interface GeolocationCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * 현재 위치 상태
+ */
+export interface GeolocationState {
+  coordinates: GeolocationCoordinates | null;
+  isLocating: boolean;
+  error: string | null;
+}
+
+/**
+ * 위치 오류 메시지
+ */
+const GEOLOCATION_ERROR_MESSAGES: Record<number, string> = {
+  1: "위치 권한이 거부되었습니다.",
+  2: "현재 위치를 확인할 수 없습니다.",
+  3: "위치 확인 시간이 초과되었습니다.",
+};
+
+/**
+ * 현재 위치 훅
+ *
+ * @returns 현재 위치 상태와 위치 요청/초기화 함수
+ */
+export function useGeolocation() {
+  const [state, setState] = useState<GeolocationState>({
+    coordinates: null,
+    isLocating: false,
+    error: null,
+  });
+
+  /**
+   * 현재 위치 요청
+   */
+  const locate = useCallback(() => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      setState({
+        coordinates: null,
+        isLocating: false,
+        error: "이 브라우저는 위치 확인을 지원하지 않습니다.",
+      });
+      return;
+    }
+
+    setState((prev) => ({ ...prev, isLocating: true, error: null }));
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setState({
+          coordinates: {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+          },
+          isLocating: false,
+          error: null,
+        });
+      },
+      (error) => {
+        setState({
+          coordinates: null,
+          isLocating: false,
+          error:
+            GEOLOCATION_ERROR_MESSAGES[error.code] ??
+            "현재 위치를 확인할 수 없습니다.",
+        });
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  }, []);
+
+  /**
+   * 위치 초기화
+   */
+  const reset = useCallback(() => {
+    setState({ coordinates: null, isLocating: false, error: null });
+  }, []);
+
+  return { ...state, locate, reset };
+}
@@ -0,0 +1,76 @@
+/**
+ * 즐겨찾기 공고 마감 알림 훅
+ *
+ * 마감 알림을 신청한 즐겨찾기 동물의 공고 종료일을 확인하여
+ * 마감 예정/임박 단계에 들어서면 단계별로 한 번씩 토스트로 알립니다.
+ */
+
+import { useEffect, useMemo } from "react";
+import { useQueries } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { usePetStore, useUserStore } from "@/stores";
+import { petDetailQueryOptions } from "./use-pets";
+import { formatNoticeDeadline } from "@/services/api/notice-deadline";
+import { NOTICE_URGENCY_LABELS } from "@/utils/constants";
+
+/**
+ * 알림 대상 긴급도
+ */
+const ALERT_URGENCIES = ["soon", "critical"] as const;
+
+/**
+ * 즐겨찾기 공고 마감 알림 훅
+ *
+ * MVVM 아키텍처:
+ * - View: 토스트 알림
+ * - ViewModel: 이 훅 (알림 대상 판단 및 중복 방지)
+ * - Model: usePetStore (알림 신청 목록), useUserStore (관심 목록), 반려동물 상세 API
+ */
+export function useFavoriteNoticeAlerts() {
+  const { noticeAlerts, notifiedNoticeAlerts, markNoticeAlertNotified } =
+    usePetStore();
+  const favorites = useUserStore((state) => state.favorites);
+
+  // 다른 기기에서 관심 목록에서 뺀 동물은 알리지 않음
+  const alertPetIds = useMemo(
+    () =>
+      noticeAlerts.filter((id) =>
+        favorites.some((favorite) => favorite.petId === id)
+      ),
+    [noticeAlerts, favorites]
+  );
+
+  const pets = useQueries({
+    queries: alertPetIds.map((id) => petDetailQueryOptions(id)),
+    combine: (results) => results.map(({ data }) => data),
+  });
+
+  useEffect(() => {
+    pets.forEach((pet) => {
+      const notice = pet?.notice;
+      if (!pet || !notice) return;
+
+      const urgency = notice.urgency;
+      if (!(ALERT_URGENCIES as readonly string[]).includes(urgency)) return;
+      // 같은 단계는 한 번만, 더 긴급한 단계로 바뀌면 다시 알림
+      const notified = notifiedNoticeAlerts[pet.id];
+      if (notified === urgency || notified === "critical") return;
+
+      markNoticeAlertNotified(pet.id, urgency);
+      toast.warning(
+        `${pet.name} 공고가 ${NOTICE_URGENCY_LABELS[urgency]}이에요 (${formatNoticeDeadline(notice)})`,
+        {
+          description: notice.endDate
+            ? `공고 종료일: ${notice.endDate}`
+            : undefined,
+          action: {
+            label: "보러 가기",
+            onClick: () => {
+              window.location.href = `/adoption/${pet.id}`;
+            },
+          },
+        }
+      );
+    });
+  }, [pets, notifiedNoticeAlerts, markNoticeAlertNotified]);
+}
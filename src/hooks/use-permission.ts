@@ -0,0 +1,21 @@
+/**
+ * 권한 확인 커스텀 훅
+ *
+ * 로그인 시 인증 스토어에 채워진 역할별 권한으로 UI 표시 여부를 정합니다.
+ * 실제 접근 제어는 middleware와 Route Handler가 서버에서 다시 확인합니다.
+ */
+
+import { useAuthStore } from '@/stores';
+import type { Permission } from '@/types';
+
+/**
+ * 권한 확인 훅
+ *
+ * @param {Permission} permission 확인할 권한
+ * @returns 로그인했고 권한이 있으면 true
+ */
+export function usePermission(permission: Permission): boolean {
+  return useAuthStore(
+    (state) => state.isAuthenticated && state.permissions.includes(permission)
+  );
+}
@@ -11,7 +11,10 @@ import {
 import {
   getAbandonmentAnimals,
   searchAnimals,
+  searchPets,
   getAnimalDetail,
+  getSimilarPets,
+  getUrgentAnimals,
   ANIMAL_TYPE_CODES,
 } from "@/services/api/animal-api";
 import {
@@ -19,7 +22,7 @@ import {
   convertAbandonmentAnimalToPet,
   searchResultAdapter,
 } from "@/services/api/animal-adapter";
-import type { Pet } from "@/types";
+import type { Pet, SearchRequest, SearchResults } from "@/types";
 
 /**
  * Query Keys - 일관된 캐시 키 관리
@@ -30,9 +33,23 @@ export const petQueryKeys = {
   recent: () => [...petQueryKeys.all, "recent"] as const,
   search: (params: Record<string, unknown>) =>
     [...petQueryKeys.all, "search", params] as const,
+  searchRequest: (request: Omit<SearchRequest, "pagination">) =>
+    [...petQueryKeys.all, "search-request", request] as const,
   detail: (id: string) => [...petQueryKeys.all, "detail", id] as const,
+  similar: (id: string, limit?: number) =>
+    [...petQueryKeys.all, "similar", id, limit] as const,
+  urgent: (params: Record<string, unknown>) =>
+    [...petQueryKeys.all, "urgent", params] as const,
 };
 
+/**
+ * 검색 무한 스크롤 페이지 파라미터
+ */
+interface SearchPageParam {
+  pageNo: number;
+  cursor?: string;
+}
+
 /**
  * 추천 반려동물 목록 조회
  */
@@ -47,7 +64,7 @@ export function useFeaturedPets() {
         state: "notice",
       });
       console.log(response);
-      return convertAbandonmentAnimalsToPets(response.animals);
+      return convertAbandonmentAnimalsToPets(response.animals, response.images);
     },
     staleTime: 5 * 60 * 1000, // 5분간 fresh
     gcTime: 30 * 60 * 1000, // 30분간 캐시 유지
@@ -66,7 +83,7 @@ export function useRecentPets() {
         pageNo: 1,
         state: "notice",
       });
-      return convertAbandonmentAnimalsToPets(response.animals);
+      return convertAbandonmentAnimalsToPets(response.animals, response.images);
     },
     staleTime: 5 * 60 * 1000,
     gcTime: 30 * 60 * 1000,
@@ -75,6 +92,7 @@ export function useRecentPets() {
 
 /**
  * 반려동물 검색 (무한 스크롤)
+ * 서버 필터링 결과가 짧게 잘리지 않도록 서버가 내려준 커서로 다음 페이지를 조회합니다.
  */
 export function useSearchPets(params: {
   keyword?: string;
@@ -85,52 +103,108 @@ export function useSearchPets(params: {
 }) {
   return useInfiniteQuery({
     queryKey: petQueryKeys.search(params),
-    initialPageParam: 1,
-    queryFn: async ({ pageParam = 1 }) => {
-      const searchParams = {
+    initialPageParam: { pageNo: 1 } as SearchPageParam,
+    queryFn: async ({ pageParam }) => {
+      const response = await searchAnimals({
         ...params,
-        page: pageParam,
-        limit: 20,
-      };
-      const response = await searchAnimals(searchParams);
-      return searchResultAdapter.convertSearchResults(
-        response.animals,
-        response.totalCount,
-        response.pageNo,
-        response.numOfRows
-      );
-    },
-    getNextPageParam: (lastPage: any) => {
-      const currentPage = lastPage.currentPage || 1;
-      const totalPages = Math.ceil(lastPage.totalCount / 20);
-      return currentPage < totalPages ? currentPage + 1 : undefined;
+        pageNo: pageParam.pageNo,
+        numOfRows: 20,
+        cursor: pageParam.cursor,
+      });
+      return searchResultAdapter.convertSearchResults(response);
     },
+    getNextPageParam: (lastPage): SearchPageParam | undefined =>
+      lastPage.hasNext && lastPage.nextCursor
+        ? { pageNo: lastPage.currentPage + 1, cursor: lastPage.nextCursor }
+        : undefined,
     enabled: !!params.keyword || Object.values(params).some(Boolean),
     staleTime: 2 * 60 * 1000, // 검색 결과는 2분간 fresh
   });
 }
 
 /**
- * 반려동물 상세 정보 조회
- * 🚀 최적화: React Query 캐시에서 먼저 찾고, 없으면 API 호출
+ * 반려동물 검색 (SearchRequest 기반 무한 스크롤)
+ * 모든 BaseSearchFilters를 서버에서 적용하고 SearchResults 페이지 단위로 반환합니다.
+ * @param {Omit<SearchRequest, "pagination">} request 필터/정렬 조건
+ * @param {object} options
+ * @param {number} options.pageSize 페이지 크기
+ * @param {boolean} options.enabled 조회 여부
  */
-export function usePetDetail(id: string) {
-  return useQuery({
+export function usePetSearch(
+  request: Omit<SearchRequest, "pagination">,
+  { pageSize = 20, enabled = true }: { pageSize?: number; enabled?: boolean } = {}
+) {
+  return useInfiniteQuery({
+    queryKey: petQueryKeys.searchRequest(request),
+    initialPageParam: 1,
+    queryFn: ({ pageParam }): Promise<SearchResults> =>
+      searchPets({ ...request, pagination: { page: pageParam, pageSize } }),
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination.hasNext ? lastPage.pagination.page + 1 : undefined,
+    enabled,
+    staleTime: 2 * 60 * 1000, // 검색 결과는 2분간 fresh
+  });
+}
+
+/**
+ * 반려동물 상세 쿼리 옵션 (usePetDetail과 여러 건을 함께 조회하는 훅에서 공유)
+ * @param {string} id 유기번호
+ */
+export function petDetailQueryOptions(id: string) {
+  return {
     queryKey: petQueryKeys.detail(id),
     queryFn: async (): Promise<Pet | null> => {
-      try {
-        const animalDetail = await getAnimalDetail(id);
-        return animalDetail
-          ? convertAbandonmentAnimalToPet(animalDetail)
-          : null;
-      } catch (error) {
-        console.error("Pet detail fetch error:", error);
-        return null;
-      }
+      const detail = await getAnimalDetail(id);
+      return detail
+        ? convertAbandonmentAnimalToPet(detail.animal, 0, detail.images)
+        : null;
     },
     enabled: !!id,
     staleTime: 10 * 60 * 1000, // 상세 정보는 10분간 fresh
     gcTime: 60 * 60 * 1000, // 1시간 캐시
+  };
+}
+
+/**
+ * 반려동물 상세 정보 조회
+ * 🚀 최적화: 유기번호로 상세 API를 한 번만 호출 (서버 인덱스 + 제한된 폴백 검색)
+ */
+export function usePetDetail(id: string) {
+  return useQuery(petDetailQueryOptions(id));
+}
+
+/**
+ * 비슷한 반려동물 조회 (상세 페이지 "비슷한 아이들" 섹션용)
+ * @param {string} id 기준 동물 유기번호
+ * @param {number} limit 최대 개수
+ */
+export function useSimilarPets(id: string, limit?: number) {
+  return useQuery({
+    queryKey: petQueryKeys.similar(id, limit),
+    queryFn: () => getSimilarPets(id, limit),
+    enabled: !!id,
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+/**
+ * 공고 마감 임박 반려동물 조회 (마감이 가까운 순)
+ * @param {object} params 축종/지역 코드, 남은 일수 상한, 개수
+ */
+export function useUrgentPets(
+  params: Parameters<typeof getUrgentAnimals>[0] = {}
+) {
+  return useQuery({
+    queryKey: petQueryKeys.urgent(params),
+    queryFn: async () => {
+      const response = await getUrgentAnimals(params);
+      return {
+        pets: convertAbandonmentAnimalsToPets(response.animals, response.images),
+        totalCount: response.totalCount,
+        withinDays: response.withinDays,
+      };
+    },
+    staleTime: 10 * 60 * 1000, // 남은 일수는 하루 단위로 바뀌므로 10분간 fresh
   });
 }
 
@@ -149,7 +223,7 @@ export function useAllPets(filters = {}) {
         ...filters,
       });
       return {
-        pets: convertAbandonmentAnimalsToPets(response.animals),
+        pets: convertAbandonmentAnimalsToPets(response.animals, response.images),
         nextPage: (pageParam as number) + 1,
         hasMore: response.animals.length === 20,
       };
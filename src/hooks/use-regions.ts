@@ -0,0 +1,62 @@
+/**
+ * 지역/보호소 코드 관련 React Query 훅들
+ * 자주 바뀌지 않는 코드 데이터이므로 정적 캐시 옵션을 사용합니다.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  getSidoList,
+  getSigunguList,
+  getShelterList,
+} from "@/services/api/animal-api";
+import { queryOptions } from "@/lib/react-query";
+import type { SidoInfo, SigunguInfo, ShelterInfo } from "@/types/api";
+
+/**
+ * Query Keys - 일관된 캐시 키 관리
+ */
+export const regionQueryKeys = {
+  all: ["regions"] as const,
+  sido: () => [...regionQueryKeys.all, "sido"] as const,
+  sigungu: (uprCd: string) => [...regionQueryKeys.all, "sigungu", uprCd] as const,
+  shelters: (uprCd: string, orgCd: string) =>
+    [...regionQueryKeys.all, "shelters", uprCd, orgCd] as const,
+};
+
+/**
+ * 시도 목록 조회
+ */
+export function useSidoList() {
+  return useQuery({
+    queryKey: regionQueryKeys.sido(),
+    queryFn: (): Promise<SidoInfo[]> => getSidoList(),
+    ...queryOptions.static,
+  });
+}
+
+/**
+ * 시군구 목록 조회
+ * @param {string | undefined} uprCd 시도 코드 (없으면 조회하지 않음)
+ */
+export function useSigunguList(uprCd?: string) {
+  return useQuery({
+    queryKey: regionQueryKeys.sigungu(uprCd ?? ""),
+    queryFn: (): Promise<SigunguInfo[]> => getSigunguList(uprCd!),
+    enabled: !!uprCd,
+    ...queryOptions.static,
+  });
+}
+
+/**
+ * 보호소 목록 조회
+ * @param {string | undefined} uprCd 시도 코드
+ * @param {string | undefined} orgCd 시군구 코드
+ */
+export function useShelterList(uprCd?: string, orgCd?: string) {
+  return useQuery({
+    queryKey: regionQueryKeys.shelters(uprCd ?? "", orgCd ?? ""),
+    queryFn: (): Promise<ShelterInfo[]> => getShelterList(uprCd!, orgCd!),
+    enabled: !!uprCd && !!orgCd,
+    ...queryOptions.static,
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * 보호소 상세 관련 React Query 훅
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { getShelterDetail } from "@/services/api/animal-api";
+import { convertAbandonmentAnimalsToPets } from "@/services/api/animal-adapter";
+import type { ShelterAnimalGroup } from "@/types/api";
+import type { Pet } from "@/types/pet";
+
+/**
+ * Query Keys - 일관된 캐시 키 관리
+ */
+export const shelterQueryKeys = {
+  all: ["shelters"] as const,
+  detail: (careRegNo: string) =>
+    [...shelterQueryKeys.all, "detail", careRegNo] as const,
+};
+
+/**
+ * 보호소 상세 조회
+ *
+ * 구분별 동물 목록은 Pet으로 변환해 반환합니다.
+ * @param {string} careRegNo 보호소 번호
+ */
+export function useShelterDetail(careRegNo: string) {
+  return useQuery({
+    queryKey: shelterQueryKeys.detail(careRegNo),
+    queryFn: async () => {
+      const { animals, images, ...shelter } = await getShelterDetail(careRegNo);
+      const pets = Object.fromEntries(
+        Object.entries(animals).map(([group, items]) => [
+          group,
+          convertAbandonmentAnimalsToPets(items, images),
+        ])
+      ) as Record<ShelterAnimalGroup, Pet[]>;
+
+      return { shelter, pets };
+    },
+    enabled: !!careRegNo,
+    staleTime: 10 * 60 * 1000, // 보호 현황은 10분간 fresh
+  });
+}
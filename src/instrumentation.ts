@@ -0,0 +1,14 @@
+/**
+ * 서버 시작 훅
+ *
+ * Node.js 런타임에서 유기동물 미러 동기화 스케줄러를 시작합니다.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startAnimalMirrorScheduler } = await import(
+      "@/services/server/mirror"
+    );
+    startAnimalMirrorScheduler();
+  }
+}
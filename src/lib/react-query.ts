@@ -12,6 +12,7 @@
 
 import { QueryClient, DefaultOptions, QueryCache, MutationCache } from '@tanstack/react-query';
 import { CACHE_SETTINGS, RETRY_SETTINGS } from '@/utils/constants/api';
+import { ApiError, RateLimitError } from '@/services/api/api-errors';
 import { toast } from 'sonner';
 
 /**
@@ -25,16 +26,22 @@ const defaultOptions: DefaultOptions = {
     
     // 재시도 설정
     retry: (failureCount, error: any) => {
-      // 401, 403, 404는 재시도하지 않음
-      if (error?.status === 401 || error?.status === 403 || error?.status === 404) {
+      // 입력 오류/권한/없는 리소스, 공공데이터 호출 한도 초과 등은 재시도하지 않음
+      if (error instanceof ApiError && !error.retryable) {
         return false;
       }
       return failureCount < RETRY_SETTINGS.MAX_RETRIES;
     },
-    retryDelay: (attemptIndex) => Math.min(
-      RETRY_SETTINGS.BASE_DELAY * Math.pow(RETRY_SETTINGS.BACKOFF_MULTIPLIER, attemptIndex),
-      RETRY_SETTINGS.MAX_DELAY
-    ),
+    retryDelay: (attemptIndex, error) => {
+      // 요청 제한은 서버가 알려준 시간만큼 대기
+      if (error instanceof RateLimitError) {
+        return Math.min(error.retryAfterSeconds * 1000, RETRY_SETTINGS.MAX_DELAY);
+      }
+      return Math.min(
+        RETRY_SETTINGS.BASE_DELAY * Math.pow(RETRY_SETTINGS.BACKOFF_MULTIPLIER, attemptIndex),
+        RETRY_SETTINGS.MAX_DELAY
+      );
+    },
     
     // 네트워크 관련
     refetchOnWindowFocus: false,
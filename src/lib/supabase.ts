@@ -4,8 +4,8 @@
  * 인증, 데이터베이스, 스토리지 등 Supabase 서비스를 위한 클라이언트를 설정합니다.
  */
 
-import { createClient } from "@supabase/supabase-js";
-import { EXTERNAL_SERVICES } from "@/utils/constants";
+import { createClient, type Session } from "@supabase/supabase-js";
+import { COOKIE_KEYS, EXTERNAL_SERVICES } from "@/utils/constants";
 
 // Supabase URL과 익명 키 검증
 const supabaseUrl = EXTERNAL_SERVICES.SUPABASE_URL;
@@ -44,6 +44,33 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   },
 });
 
+/**
+ * 세션 쿠키 동기화
+ *
+ * Supabase 세션은 localStorage에만 저장되므로, middleware가 페이지 요청에서
+ * 로그인 사용자를 확인할 수 있도록 액세스 토큰을 같은 만료 시간의 쿠키로 보관합니다.
+ * 로그인/토큰 갱신/로그아웃 시 인증 상태 변경 이벤트로 갱신됩니다.
+ *
+ * @param session - 현재 세션 (로그아웃 시 null)
+ */
+export const syncSessionCookie = (session: Session | null) => {
+  if (typeof document === "undefined") return;
+
+  const secure = window.location.protocol === "https:" ? "; Secure" : "";
+  const maxAge = session?.expires_at
+    ? Math.max(session.expires_at - Math.floor(Date.now() / 1000), 0)
+    : 0;
+  const value = session && maxAge > 0 ? session.access_token : "";
+
+  document.cookie = `${COOKIE_KEYS.SESSION}=${value}; Path=/; Max-Age=${value ? maxAge : 0}; SameSite=Lax${secure}`;
+};
+
+if (typeof window !== "undefined") {
+  supabase.auth.onAuthStateChange((_event, session) => {
+    syncSessionCookie(session);
+  });
+}
+
 /**
  * 소셜 로그인 제공자 타입
  */
@@ -0,0 +1,91 @@
+/**
+ * 경로별 권한 확인 middleware
+ *
+ * PAGE_ROUTE_PERMISSIONS / API_ROUTE_PERMISSIONS에 등록된 경로는 Supabase 세션을
+ * 서버에서 검증한 뒤 역할별 권한(ROLE_PERMISSIONS)을 확인합니다.
+ * - 페이지: 세션 쿠키로 확인, 로그인하지 않았으면 로그인 페이지로, 권한이 없으면 403 페이지
+ * - API: Authorization 헤더로 확인, 401/403 에러 응답
+ * Route Handler는 소속/소유 여부 등 세부 권한을 다시 확인합니다.
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  AUTH_REDIRECT_PARAM,
+  PAGE_ROUTE_PERMISSIONS,
+  ROUTES,
+} from "@/utils/constants/app";
+import { API_ROUTE_PERMISSIONS } from "@/utils/constants/api";
+import {
+  AuthenticationError,
+  AuthorizationError,
+} from "@/services/api/api-errors";
+import {
+  findRoutePermission,
+  hasRolePermission,
+} from "@/services/api/permissions";
+import { apiErrorResponse } from "@/services/server/api-response";
+import {
+  getBearerToken,
+  getSessionCookieToken,
+  verifyAccessToken,
+} from "@/services/server/request-identity";
+
+/**
+ * 요청 경로의 필요 권한 확인
+ * @param {NextRequest} request 요청
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isApiRequest = pathname.startsWith("/api/");
+
+  const permission = findRoutePermission(
+    isApiRequest ? API_ROUTE_PERMISSIONS : PAGE_ROUTE_PERMISSIONS,
+    pathname,
+    request.method
+  );
+  if (!permission) return NextResponse.next();
+
+  const token = isApiRequest
+    ? getBearerToken(request)
+    : getSessionCookieToken(request);
+  const user = token ? await verifyAccessToken(token) : null;
+
+  if (!user) {
+    if (isApiRequest) {
+      return apiErrorResponse(new AuthenticationError(), "로그인이 필요합니다.");
+    }
+
+    const loginUrl = new URL(ROUTES.LOGIN, request.url);
+    loginUrl.searchParams.set(AUTH_REDIRECT_PARAM, `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (!hasRolePermission(user.role, permission)) {
+    if (isApiRequest) {
+      return apiErrorResponse(new AuthorizationError(), "권한이 없습니다.");
+    }
+
+    // 주소는 그대로 두고 403 페이지를 보여줌
+    return NextResponse.rewrite(new URL(ROUTES.FORBIDDEN, request.url), {
+      status: 403,
+    });
+  }
+
+  return NextResponse.next();
+}
+
+/**
+ * middleware를 실행할 경로 (권한 규칙이 있는 경로만, 정적 값이어야 함)
+ */
+export const config = {
+  matcher: [
+    "/profile/:path*",
+    "/shelter-workspace/:path*",
+    "/admin/:path*",
+    "/api/users/:path*",
+    "/api/pets/:id/apply",
+    "/api/reports/:path*",
+    "/api/shelter-workspace/:path*",
+    "/api/admin/:path*",
+  ],
+};
@@ -0,0 +1,73 @@
+import { createTestPet } from "@/__tests__/fixtures/pet";
+import type { AbandonmentAnimalItem } from "@/types/api";
+import { convertAbandonmentAnimalToPet } from "../animal-adapter";
+import { isFavoriteUnavailable, resolveFavoriteAvailability } from "../favorite-status";
+
+/**
+ * 처리 상태만 다른 공공데이터 레코드
+ */
+function animalWithState(processState: string): AbandonmentAnimalItem {
+  return {
+    desertionNo: "448567202400512",
+    happenDt: "20240502",
+    happenPlace: "경기도 수원시 장안구",
+    kindFullNm: "[개] 믹스견",
+    upKindCd: "417000",
+    upKindNm: "개",
+    kindCd: "000114",
+    kindNm: "믹스견",
+    colorCd: "갈색",
+    age: "2022(년생)",
+    weight: "8(Kg)",
+    noticeNo: "경기-수원-2024-00412",
+    noticeSdt: "20240502",
+    noticeEdt: "20240513",
+    popfile1: "",
+    processState,
+    sexCd: "M",
+    neuterYn: "N",
+    specialMark: "",
+    careRegNo: "341362202100001",
+    careNm: "수원시동물보호센터",
+    careTel: "031-228-3000",
+    careAddr: "경기도 수원시 권선구",
+    careOwnerNm: "수원시",
+    orgNm: "경기도 수원시",
+    updTm: "2024-05-02 14:10:22.0",
+  };
+}
+
+describe("resolveFavoriteAvailability", () => {
+  it.each([
+    ["종료(입양)", "adopted"],
+    ["종료(반환)", "closed"],
+    ["종료(안락사)", "closed"],
+    ["종료(자연사)", "closed"],
+    ["종료(기증)", "closed"],
+  ] as const)("처리 상태 %s → %s", (processState, expected) => {
+    const pet = convertAbandonmentAnimalToPet(animalWithState(processState));
+
+    expect(resolveFavoriteAvailability(pet)).toBe(expected);
+    expect(isFavoriteUnavailable(resolveFavoriteAvailability(pet))).toBe(true);
+  });
+
+  it("보호 중이고 공고 기간이 남았으면 입양 가능하다", () => {
+    const pet = createTestPet({
+      notice: { daysRemaining: 3, urgency: "soon" },
+    });
+
+    expect(resolveFavoriteAvailability(pet)).toBe("available");
+  });
+
+  it("보호 중이어도 공고가 끝났으면 공고 종료로 본다", () => {
+    const pet = createTestPet({
+      notice: { daysRemaining: -1, urgency: "ended" },
+    });
+
+    expect(resolveFavoriteAvailability(pet)).toBe("notice_ended");
+  });
+
+  it("상세 정보를 찾을 수 없으면 missing", () => {
+    expect(resolveFavoriteAvailability(null)).toBe("missing");
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * 특징 텍스트 추출 테스트 데이터
+ *
+ * 보호소 공고에 실제로 자주 나오는 문구와 기대 결과입니다.
+ * 기대 결과에 적지 않은 항목은 unknown이어야 합니다.
+ */
+
+import type { HealthStatus, PersonalityTrait } from "@/types/pet";
+
+export interface SpecialMarkFixture {
+  name: string;
+  specialMark: string;
+  etcBigo?: string;
+  personality?: PersonalityTrait[];
+  healthStatus?: Exclude<HealthStatus, "unknown">;
+  specialNeeds?: string[];
+  goodWith?: { children?: boolean; otherPets?: boolean; cats?: boolean; dogs?: boolean };
+  houseTrained?: boolean;
+}
+
+export const SPECIAL_MARK_FIXTURES: SpecialMarkFixture[] = [
+  {
+    name: "사람을 잘 따름",
+    specialMark: "사람을 잘 따름",
+    personality: ["friendly"],
+  },
+  {
+    name: "피부병",
+    specialMark: "피부병 있음, 치료 중",
+    healthStatus: "needs-attention",
+    specialNeeds: ["피부 질환 치료"],
+  },
+  {
+    name: "경계심 많음",
+    specialMark: "경계심 많음",
+    personality: ["shy"],
+  },
+  {
+    name: "다리 절음",
+    specialMark: "뒷다리 절음",
+    healthStatus: "special-care",
+    specialNeeds: ["보행 장애"],
+  },
+  {
+    name: "여러 문구",
+    specialMark: "애교 많고 온순함. 배변 가림",
+    etcBigo: "다른 강아지와 잘 지냄",
+    personality: ["affectionate", "gentle"],
+    goodWith: { dogs: true, otherPets: true },
+    houseTrained: true,
+  },
+  {
+    name: "부정 표현 (성격/건강)",
+    specialMark: "입질 없음, 피부병 없음",
+  },
+  {
+    name: "부정 표현 뒤의 긍정 문구",
+    specialMark: "공격성 없고 사람을 잘 따름",
+    personality: ["friendly"],
+  },
+  {
+    name: "부정 표현 (배변)",
+    specialMark: "배변 못 가림",
+    houseTrained: false,
+  },
+  {
+    name: "근거 없음",
+    specialMark: "갈색 털, 목줄 착용",
+  },
+];
@@ -0,0 +1,209 @@
+import { createTestPet } from "@/__tests__/fixtures/pet";
+import type { PetBreed } from "@/types/pet";
+import {
+  calculateMatchScore,
+  resolveMatchWeights,
+  scoreExperience,
+  scoreLifestyle,
+  scoreLocation,
+  scorePreferences,
+} from "../match-scoring";
+import { DEFAULT_MATCH_WEIGHTS, MATCH_SCORE_SETTINGS } from "@/utils/constants";
+
+const demandingBreed = {
+  id: "breed-1",
+  name: "보더콜리",
+  species: "dog",
+  size: "medium",
+  lifespan: { min: 12, max: 15 },
+  description: "",
+  characteristics: ["energetic"],
+  careLevel: "high",
+  exerciseNeeds: "high",
+  groomingNeeds: "medium",
+  createdAt: "",
+  updatedAt: "",
+} satisfies PetBreed;
+
+describe("scoreLifestyle", () => {
+  it("아파트에서는 큰 개보다 작은 개의 점수가 높다", () => {
+    const small = scoreLifestyle(createTestPet({ size: "small" }), { livingSpace: "apartment" });
+    const large = scoreLifestyle(createTestPet({ size: "extra-large" }), { livingSpace: "apartment" });
+
+    expect(small.score).toBe(95);
+    expect(large.score).toBe(25);
+    expect(large.explanations[0]).toMatchObject({ factor: "lifestyle", impact: "negative" });
+  });
+
+  it("아이가 있는 가정에 아이와 지내기 어려운 동물은 낮은 점수를 받는다", () => {
+    const result = scoreLifestyle(
+      createTestPet({ goodWith: { children: false, otherPets: null } }),
+      { hasChildren: true }
+    );
+
+    expect(result.score).toBe(20);
+  });
+
+  it("다른 동물과의 동반 여부를 모르면 비교하지 않는다", () => {
+    const result = scoreLifestyle(
+      createTestPet({ goodWith: { children: null, otherPets: null } }),
+      { hasOtherPets: true }
+    );
+
+    expect(result.score).toBeNull();
+    expect(result.explanations).toEqual([]);
+  });
+
+  it("비교할 정보가 없으면 null을 반환한다", () => {
+    expect(scoreLifestyle(createTestPet(), {}).score).toBeNull();
+  });
+});
+
+describe("scoreLifestyle (예산)", () => {
+  it("월 예산이 예상 양육비 이상이면 만점이다", () => {
+    const result = scoreLifestyle(createTestPet({ size: "medium" }), {
+      budget: { monthly: 170000 },
+    });
+
+    expect(result.score).toBe(100);
+  });
+
+  it("월 예산이 예상 양육비의 70% 이상이면 빠듯함으로 본다", () => {
+    const result = scoreLifestyle(createTestPet({ size: "medium" }), {
+      budget: { monthly: 120000 },
+    });
+
+    expect(result.score).toBe(60);
+  });
+
+  it("고양이는 같은 크기의 개보다 예상 양육비가 낮다", () => {
+    const result = scoreLifestyle(createTestPet({ species: "cat", size: "medium" }), {
+      budget: { monthly: 140000 },
+    });
+
+    expect(result.score).toBe(100);
+  });
+
+  it("입양비가 초기 예산을 넘으면 낮은 점수를 받는다", () => {
+    const result = scoreLifestyle(createTestPet({ adoptionFee: 300000 }), {
+      budget: { initial: 100000 },
+    });
+
+    expect(result.score).toBe(30);
+  });
+});
+
+describe("scoreExperience", () => {
+  it("경험 정보가 없으면 null을 반환한다", () => {
+    expect(scoreExperience(createTestPet(), {}).score).toBeNull();
+  });
+
+  it("필요한 경험을 갖추면 만점이다", () => {
+    expect(scoreExperience(createTestPet(), { experience: "beginner" }).score).toBe(100);
+  });
+
+  it("관리가 까다로운 품종과 예민한 성격은 더 많은 경험을 요구한다", () => {
+    const pet = createTestPet({ breed: demandingBreed, personality: ["shy"] });
+
+    const beginner = scoreExperience(pet, { experience: "beginner" });
+    const intermediate = scoreExperience(pet, { experience: "intermediate" });
+    const experienced = scoreExperience(pet, { experience: "experienced" });
+
+    expect(beginner.score).toBe(25);
+    expect(intermediate.score).toBe(60);
+    expect(experienced.score).toBe(100);
+    expect(beginner.explanations[0].message).toContain("관리가 까다로운 품종");
+    expect(beginner.explanations[0].message).toContain("예민한 성격");
+  });
+});
+
+describe("scoreLocation", () => {
+  it("반경의 절반 안이면 만점이고, 반경을 넘으면 점수가 줄어든다", () => {
+    const pet = createTestPet();
+
+    expect(scoreLocation(pet, { searchRadius: 20 }, 5).score).toBe(100);
+    expect(scoreLocation(pet, { searchRadius: 20 }, 20).score).toBe(60);
+    expect(scoreLocation(pet, { searchRadius: 20 }, 200).score).toBe(10);
+  });
+
+  it("거리 정보가 없으면 지역 이름 일치로 비교한다", () => {
+    const pet = createTestPet({ location: { city: "서울특별시", district: "강남구" } });
+
+    expect(
+      scoreLocation(pet, { location: { city: "서울특별시", district: "강남구" } }).score
+    ).toBe(95);
+    expect(
+      scoreLocation(pet, { location: { city: "서울특별시", district: "마포구" } }).score
+    ).toBe(75);
+    expect(scoreLocation(pet, { location: { city: "부산광역시" } }).score).toBe(30);
+  });
+
+  it("위치 정보가 없으면 null을 반환한다", () => {
+    expect(scoreLocation(createTestPet(), {}).score).toBeNull();
+  });
+});
+
+describe("scorePreferences", () => {
+  it("선호 축종이 아니면 크게 감점된다", () => {
+    const result = scorePreferences(createTestPet({ species: "cat" }), {
+      preferredSpecies: ["dog"],
+    });
+
+    expect(result.score).toBe(10);
+  });
+
+  it("선호 성격 일치 비율에 따라 점수가 오른다", () => {
+    const pet = createTestPet({ personality: ["calm", "friendly"] });
+
+    expect(
+      scorePreferences(pet, { preferredPersonalities: ["calm", "playful"] }).score
+    ).toBe(70);
+    expect(
+      scorePreferences(pet, { preferredPersonalities: ["calm", "friendly"] }).score
+    ).toBe(100);
+  });
+
+  it("확인되지 않은 필수 조건은 만족/불만족 대신 확인 필요로 본다", () => {
+    const result = scorePreferences(createTestPet({ vaccinated: null }), {
+      requirements: { mustBeVaccinated: true },
+    });
+
+    expect(result.score).toBe(45);
+    expect(result.explanations[0].message).toContain("확인되지 않았어요");
+  });
+});
+
+describe("calculateMatchScore", () => {
+  it("정보가 있는 항목만 가중 평균하고 나머지는 중립 점수로 표시한다", () => {
+    const score = calculateMatchScore(createTestPet({ species: "cat" }), {
+      preferredSpecies: ["dog"],
+    });
+
+    expect(score.overall).toBe(10);
+    expect(score.preferences).toBe(10);
+    expect(score.lifestyle).toBe(MATCH_SCORE_SETTINGS.NEUTRAL_SCORE);
+    expect(score.experience).toBe(MATCH_SCORE_SETTINGS.NEUTRAL_SCORE);
+    expect(score.location).toBe(MATCH_SCORE_SETTINGS.NEUTRAL_SCORE);
+  });
+
+  it("가중치를 바꾸면 종합 점수가 달라진다", () => {
+    const pet = createTestPet({ species: "cat" });
+    const profile = { preferredSpecies: ["dog" as const], experience: "beginner" as const };
+
+    const preferencesOnly = calculateMatchScore(pet, profile, {
+      weights: { experience: 0 },
+    });
+    const experienceOnly = calculateMatchScore(pet, profile, {
+      weights: { preferences: 0 },
+    });
+
+    expect(preferencesOnly.overall).toBe(10);
+    expect(experienceOnly.overall).toBe(100);
+  });
+
+  it("가중치 합이 0이면 기본 가중치를 사용한다", () => {
+    expect(
+      resolveMatchWeights({ lifestyle: 0, experience: 0, location: 0, preferences: 0 })
+    ).toEqual(DEFAULT_MATCH_WEIGHTS);
+  });
+});
@@ -0,0 +1,74 @@
+import { createTestPet } from "@/__tests__/fixtures/pet";
+import type { SimilarityFactor } from "@/types/search";
+import { DEFAULT_SIMILARITY_WEIGHTS } from "@/utils/constants";
+import { calculateSimilarity, resolveSimilarityWeights } from "../similarity";
+
+const ZERO_WEIGHTS = Object.fromEntries(
+  Object.keys(DEFAULT_SIMILARITY_WEIGHTS).map((factor) => [factor, 0])
+) as Record<SimilarityFactor, number>;
+
+const base = createTestPet({ id: "1" });
+
+describe("resolveSimilarityWeights", () => {
+  it("지정하지 않은 항목은 기본 가중치를 사용한다", () => {
+    expect(resolveSimilarityWeights({ size: 0.5 })).toEqual({
+      ...DEFAULT_SIMILARITY_WEIGHTS,
+      size: 0.5,
+    });
+  });
+
+  it("가중치 합계가 0이면 기본 가중치로 되돌린다", () => {
+    expect(resolveSimilarityWeights(ZERO_WEIGHTS)).toEqual(DEFAULT_SIMILARITY_WEIGHTS);
+  });
+
+  it("음수 가중치만 남아 합계가 0 이하이면 기본 가중치로 되돌린다", () => {
+    expect(resolveSimilarityWeights({ ...ZERO_WEIGHTS, species: -1, size: -0.5 })).toEqual(
+      DEFAULT_SIMILARITY_WEIGHTS
+    );
+  });
+});
+
+describe("calculateSimilarity", () => {
+  it("정보가 없는 항목은 0점이 아니라 가중치에서 제외한다", () => {
+    const other = createTestPet({ id: "2", color: ["미상"], gender: "unknown" });
+
+    const result = calculateSimilarity(base, other);
+
+    expect(result.factors).toMatchObject({ breed: null, color: null, gender: null });
+    expect(result.overall).toBe(100);
+    expect(result.matchedFactors).not.toContain("color");
+  });
+
+  it("가중치를 지정하면 해당 항목 비중으로 종합 점수를 계산한다", () => {
+    // 크기 한 단계 차이 → 크기 유사도 0.75
+    const other = createTestPet({ id: "2", size: "large" });
+
+    expect(calculateSimilarity(base, other).overall).toBe(95);
+    expect(calculateSimilarity(base, other, { ...ZERO_WEIGHTS, size: 1 }).overall).toBe(75);
+  });
+
+  it("가중치가 0인 항목은 일치 근거에 포함하지 않는다", () => {
+    const other = createTestPet({ id: "2" });
+
+    const result = calculateSimilarity(base, other, { ...ZERO_WEIGHTS, species: 1 });
+
+    expect(result.matchedFactors).toEqual(["species"]);
+  });
+
+  it("가중치 합계가 0 이하이면 기본 가중치와 같은 결과를 낸다", () => {
+    const other = createTestPet({ id: "2", species: "cat", size: "small", gender: "female" });
+
+    expect(calculateSimilarity(base, other, ZERO_WEIGHTS)).toEqual(
+      calculateSimilarity(base, other)
+    );
+  });
+
+  it("비교할 수 있는 항목의 가중치가 모두 0이면 종합 점수는 0이다", () => {
+    const other = createTestPet({ id: "2" });
+
+    const result = calculateSimilarity(base, other, { ...ZERO_WEIGHTS, breed: 1 });
+
+    expect(result.factors.breed).toBeNull();
+    expect(result.overall).toBe(0);
+  });
+});
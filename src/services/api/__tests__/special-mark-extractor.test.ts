@@ -0,0 +1,48 @@
+import { extractPetTextInsights } from "../special-mark-extractor";
+import { SPECIAL_MARK_FIXTURES } from "./fixtures/special-marks";
+
+describe("extractPetTextInsights", () => {
+  it.each(SPECIAL_MARK_FIXTURES)("$name", (fixture) => {
+    const insights = extractPetTextInsights(fixture.specialMark, fixture.etcBigo);
+
+    expect(insights.personality.map(({ trait }) => trait).sort()).toEqual(
+      [...(fixture.personality ?? [])].sort()
+    );
+    expect(insights.healthStatus.value).toBe(fixture.healthStatus ?? "unknown");
+    expect(insights.specialNeeds.map(({ need }) => need)).toEqual(
+      fixture.specialNeeds ?? []
+    );
+    (["children", "otherPets", "cats", "dogs"] as const).forEach((key) => {
+      expect(insights.goodWith[key].value).toBe(fixture.goodWith?.[key] ?? "unknown");
+    });
+    expect(insights.houseTrained.value).toBe(fixture.houseTrained ?? "unknown");
+    expect(insights.vaccinated.value).toBe("unknown");
+    expect(insights.microchipped.value).toBe("unknown");
+  });
+
+  it("경계심은 보호 성향이 아니라 겁 많음으로만 분류한다", () => {
+    const { personality } = extractPetTextInsights("경계심이 있어 천천히 다가가야 함");
+
+    expect(personality.map(({ trait }) => trait)).toEqual(["shy"]);
+  });
+
+  it("근거가 된 문구와 신뢰도를 함께 보고한다", () => {
+    const { personality } = extractPetTextInsights("사람을 잘 따름");
+
+    expect(personality[0]).toEqual({
+      trait: "friendly",
+      confidence: 0.8,
+      evidence: ["사람을 잘 따름"],
+    });
+  });
+
+  it("텍스트가 없으면 모든 값이 unknown이다", () => {
+    const insights = extractPetTextInsights(undefined, "  ");
+
+    expect(insights.personality).toEqual([]);
+    expect(insights.specialNeeds).toEqual([]);
+    expect(insights.healthStatus).toEqual({ value: "unknown", confidence: 0, evidence: [] });
+    expect(insights.goodWith.children.value).toBe("unknown");
+    expect(insights.houseTrained.value).toBe("unknown");
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * 관리자 콘솔 API 클라이언트 서비스
+ *
+ * 관리자 콘솔 API와 로그인 사용자의 신고 접수 API를 호출합니다.
+ * 관리자 API는 관리자 계정이 아니면 AuthorizationError로 실패합니다.
+ */
+
+import type {
+  AdminAuditLogEntry,
+  AdminDashboard,
+  AdminPetOverview,
+  AdminShelterReviewRequest,
+  AdminUserDetail,
+  AdminUserList,
+  AdminUserUpdateRequest,
+  ContentReport,
+  ContentReportRequest,
+  ContentReportResolutionRequest,
+  ContentReportStatus,
+  ShelterStaffMembership,
+  ShelterStaffStatus,
+} from "@/types/api";
+import type { User, UserRole } from "@/types/user";
+import { API_ENDPOINTS } from "@/utils/constants/api";
+import { fetchWithSession } from "./session-fetch";
+
+/**
+ * 관리자 API 인증 요청
+ * @param {string} endpoint API_ENDPOINTS 경로
+ * @param {RequestInit} init 요청 설정
+ */
+function fetchAdminApi<T>(endpoint: string, init: RequestInit = {}): Promise<T> {
+  return fetchWithSession<T>(endpoint, init, "관리자 요청에 실패했습니다.");
+}
+
+/**
+ * 빈 값을 제외한 쿼리 문자열 (앞의 ? 포함)
+ * @param {Record<string, string | number | undefined>} params 쿼리 파라미터
+ */
+function toQueryString(params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") query.set(key, String(value));
+  });
+
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : "";
+}
+
+/**
+ * 관리자 대시보드 집계 조회
+ */
+export async function getAdminDashboard(): Promise<AdminDashboard> {
+  return fetchAdminApi<AdminDashboard>(API_ENDPOINTS.ADMIN.DASHBOARD);
+}
+
+/**
+ * 사용자 검색
+ * @param {object} filters 검색어/역할/활성 여부/페이지
+ */
+export async function searchAdminUsers(filters: {
+  keyword?: string;
+  role?: UserRole;
+  status?: "active" | "inactive";
+  page?: number;
+}): Promise<AdminUserList> {
+  return fetchAdminApi<AdminUserList>(
+    `${API_ENDPOINTS.ADMIN.USERS}${toQueryString(filters)}`
+  );
+}
+
+/**
+ * 사용자 상세 조회 (최근 관리자 작업 포함)
+ * @param {string} userId 사용자 ID
+ */
+export async function getAdminUser(userId: string): Promise<AdminUserDetail> {
+  return fetchAdminApi<AdminUserDetail>(
+    `${API_ENDPOINTS.ADMIN.USERS}/${encodeURIComponent(userId)}`
+  );
+}
+
+/**
+ * 사용자 계정 변경 (활성화/비활성화, 역할)
+ * @param {string} userId 사용자 ID
+ * @param {AdminUserUpdateRequest} request 변경 내용과 사유
+ */
+export async function updateAdminUser(
+  userId: string,
+  request: AdminUserUpdateRequest
+): Promise<User> {
+  return fetchAdminApi<User>(
+    `${API_ENDPOINTS.ADMIN.USERS}/${encodeURIComponent(userId)}`,
+    { method: "PATCH", body: JSON.stringify(request) }
+  );
+}
+
+/**
+ * 보호소 직원 소속 목록 조회
+ * @param {ShelterStaffStatus} status 소속 상태 (생략 시 전체)
+ */
+export async function getAdminShelterMemberships(
+  status?: ShelterStaffStatus
+): Promise<ShelterStaffMembership[]> {
+  return fetchAdminApi<ShelterStaffMembership[]>(
+    `${API_ENDPOINTS.ADMIN.SHELTERS}${toQueryString({ status })}`
+  );
+}
+
+/**
+ * 보호소 소속 확인/거절/해제
+ * @param {AdminShelterReviewRequest} request 대상 소속과 처리 결과
+ */
+export async function reviewAdminShelterMembership(
+  request: AdminShelterReviewRequest
+): Promise<ShelterStaffMembership> {
+  return fetchAdminApi<ShelterStaffMembership>(API_ENDPOINTS.ADMIN.SHELTERS, {
+    method: "PATCH",
+    body: JSON.stringify(request),
+  });
+}
+
+/**
+ * 신고 목록 조회
+ * @param {ContentReportStatus} status 처리 상태
+ */
+export async function getAdminReports(
+  status: ContentReportStatus
+): Promise<ContentReport[]> {
+  return fetchAdminApi<ContentReport[]>(
+    `${API_ENDPOINTS.ADMIN.REPORTS}${toQueryString({ status })}`
+  );
+}
+
+/**
+ * 신고 처리 (조치 완료/기각)
+ * @param {string} reportId 신고 ID
+ * @param {ContentReportResolutionRequest} request 처리 결과와 메모
+ */
+export async function resolveAdminReport(
+  reportId: string,
+  request: ContentReportResolutionRequest
+): Promise<ContentReport> {
+  return fetchAdminApi<ContentReport>(
+    `${API_ENDPOINTS.ADMIN.REPORTS}/${encodeURIComponent(reportId)}`,
+    { method: "PATCH", body: JSON.stringify(request) }
+  );
+}
+
+/**
+ * 동물 공고 + 입양 신청 + 신고 조회
+ * @param {string} petId 유기번호
+ */
+export async function getAdminPetOverview(petId: string): Promise<AdminPetOverview> {
+  return fetchAdminApi<AdminPetOverview>(
+    `${API_ENDPOINTS.ADMIN.PETS}/${encodeURIComponent(petId)}`
+  );
+}
+
+/**
+ * 관리자 작업 감사 로그 조회 (최근 순)
+ * @param {string} targetId 대상 ID (생략 시 전체)
+ */
+export async function getAdminAuditLog(
+  targetId?: string
+): Promise<AdminAuditLogEntry[]> {
+  return fetchAdminApi<AdminAuditLogEntry[]>(
+    `${API_ENDPOINTS.ADMIN.AUDIT_LOG}${toQueryString({ targetId })}`
+  );
+}
+
+/**
+ * 신고 접수 (로그인 사용자)
+ * @param {ContentReportRequest} request 신고 대상과 사유
+ */
+export async function submitContentReport(
+  request: ContentReportRequest
+): Promise<ContentReport> {
+  return fetchWithSession<ContentReport>(
+    API_ENDPOINTS.REPORTS.CREATE,
+    { method: "POST", body: JSON.stringify(request) },
+    "신고를 접수하지 못했습니다."
+  );
+}
@@ -0,0 +1,152 @@
+/**
+ * 입양 신청서 검증 및 상태 전이
+ *
+ * 신청서 답변 검증과 상태 전이 규칙(검토 중 → 승인/거절/철회)을
+ * 신청 폼(클라이언트)과 Route Handler(서버)가 함께 사용합니다.
+ */
+
+import type { ValidationError } from "@/types/api";
+import type {
+  AdoptionApplication,
+  AdoptionApplicationQuestion,
+  AdoptionApplicationStatus,
+} from "@/types/pet";
+import {
+  ADOPTION_APPLICATION_QUESTIONS,
+  ADOPTION_APPLICATION_SETTINGS,
+  APPLICATION_STATUS_LABELS,
+  APPLICATION_STATUS_TRANSITIONS,
+} from "@/utils/constants/pet";
+import { ConflictError } from "./api-errors";
+
+const PHONE_PATTERN = /^0\d{1,2}-?\d{3,4}-?\d{4}$/;
+
+/**
+ * 신청서 질문 목록
+ */
+export const adoptionApplicationQuestions: readonly AdoptionApplicationQuestion[] =
+  ADOPTION_APPLICATION_QUESTIONS;
+
+/**
+ * 상태 전이 가능 여부
+ * @param {AdoptionApplicationStatus} from 현재 상태
+ * @param {AdoptionApplicationStatus} to 변경할 상태
+ */
+export function canTransitionApplication(
+  from: AdoptionApplicationStatus,
+  to: AdoptionApplicationStatus
+): boolean {
+  return (
+    APPLICATION_STATUS_TRANSITIONS[from] as readonly AdoptionApplicationStatus[]
+  ).includes(to);
+}
+
+/**
+ * 상태 전이 검증 (허용되지 않으면 ConflictError)
+ * @param {AdoptionApplicationStatus} from 현재 상태
+ * @param {AdoptionApplicationStatus} to 변경할 상태
+ */
+export function assertApplicationTransition(
+  from: AdoptionApplicationStatus,
+  to: AdoptionApplicationStatus
+): void {
+  if (canTransitionApplication(from, to)) return;
+
+  throw new ConflictError(
+    `${APPLICATION_STATUS_LABELS[from]} 상태의 신청은 ${APPLICATION_STATUS_LABELS[to]} 상태로 바꿀 수 없습니다.`,
+    { from, to }
+  );
+}
+
+/**
+ * 진행 중인 신청인지 (같은 동물에 중복 신청을 막는 기준)
+ * @param {AdoptionApplication} application 입양 신청
+ */
+export function isActiveApplication(application: AdoptionApplication): boolean {
+  return application.status === "pending" || application.status === "approved";
+}
+
+/**
+ * 답변 하나 검증
+ * @param {AdoptionApplicationQuestion} question 질문
+ * @param {string} answer 답변 (앞뒤 공백 제거 후)
+ */
+function validateAnswer(
+  question: AdoptionApplicationQuestion,
+  answer: string
+): string | null {
+  if (!answer) return question.required ? "답변이 필요합니다." : null;
+
+  if (answer.length > ADOPTION_APPLICATION_SETTINGS.ANSWER_MAX_LENGTH) {
+    return `${ADOPTION_APPLICATION_SETTINGS.ANSWER_MAX_LENGTH}자 이내로 입력해주세요.`;
+  }
+
+  switch (question.type) {
+    case "choice":
+      return question.options?.includes(answer)
+        ? null
+        : "보기 중 하나를 선택해주세요.";
+    case "phone":
+      return PHONE_PATTERN.test(answer)
+        ? null
+        : "전화번호 형식이 올바르지 않습니다.";
+    case "text":
+      return question.minLength && answer.length < question.minLength
+        ? `${question.minLength}자 이상 입력해주세요.`
+        : null;
+  }
+}
+
+/**
+ * 신청서 답변 검증
+ *
+ * 오류는 필드(answers.{질문 ID}, message)별 ValidationError로 반환합니다.
+ * @param {Record<string, string>} answers 질문 ID → 답변
+ * @param {string} message 보호소에 전할 말 (선택)
+ */
+export function validateApplicationAnswers(
+  answers: Record<string, string>,
+  message?: string
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  adoptionApplicationQuestions.forEach((question) => {
+    const error = validateAnswer(question, (answers[question.id] ?? "").trim());
+    if (error) {
+      errors.push({
+        field: `answers.${question.id}`,
+        message: error,
+        code: "INVALID_ANSWER",
+      });
+    }
+  });
+
+  if (
+    message &&
+    message.length > ADOPTION_APPLICATION_SETTINGS.MESSAGE_MAX_LENGTH
+  ) {
+    errors.push({
+      field: "message",
+      message: `${ADOPTION_APPLICATION_SETTINGS.MESSAGE_MAX_LENGTH}자 이내로 입력해주세요.`,
+      code: "TOO_LONG",
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * 답변을 신청서 응답 목록으로 변환 (질문 순서, 빈 답변 제외)
+ * @param {Record<string, string>} answers 질문 ID → 답변
+ */
+export function buildApplicationResponses(
+  answers: Record<string, string>
+): AdoptionApplication["responses"] {
+  return adoptionApplicationQuestions
+    .map((question) => ({
+      questionId: question.id,
+      question: question.question,
+      answer: (answers[question.id] ?? "").trim(),
+    }))
+    .filter((response) => response.answer);
+}
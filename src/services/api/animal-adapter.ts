@@ -5,23 +5,31 @@
  * 내부 데이터를 외부 API 형식으로 변환합니다.
  */
 
-import type { AbandonmentAnimalItem } from "@/types/api";
+import type { AbandonmentAnimalItem, AnimalSearchResult } from "@/types/api";
 import type {
   Pet,
   PetSpecies,
   PetSize,
   AdoptionStatus,
   PetAgeGroup,
-  HealthStatus,
 } from "@/types/pet";
 import type { Gender } from "@/types/common";
-import type { ImageInfo } from "@/types/common";
+import type { ImageInfo, ImageMetadata } from "@/types/common";
 import { animalDataUtils, ANIMAL_TYPE_CODES } from "./animal-api";
+import { createPetBreed, estimatePetSize } from "./breed-catalog";
+import { createProxiedImageInfo } from "./image-url";
+import { createPetNotice } from "./notice-deadline";
+import { classifyShelterOutcome } from "./shelter-summary";
+import {
+  extractPetTextInsights,
+  PERSONALITY_MIN_CONFIDENCE,
+  toKnownBoolean,
+} from "./special-mark-extractor";
 
 /**
  * 축종 코드를 PetSpecies로 변환
  */
-function mapSpeciesFromUpkind(upkind: string): PetSpecies {
+export function mapSpeciesFromUpkind(upkind: string): PetSpecies {
   switch (upkind) {
     case ANIMAL_TYPE_CODES.DOG:
       return "dog";
@@ -32,78 +40,11 @@ function mapSpeciesFromUpkind(upkind: string): PetSpecies {
   }
 }
 
-/**
- * 품종명을 기준으로 크기 추정
- */
-function estimateSizeFromBreed(kindCd: string): PetSize {
-  const breed = kindCd.toLowerCase();
-
-  // 초소형견
-  if (
-    breed.includes("치와와") ||
-    breed.includes("요크셔") ||
-    breed.includes("말티즈") ||
-    breed.includes("포메라니안") ||
-    breed.includes("파피용")
-  ) {
-    return "extra-small";
-  }
-
-  // 소형견
-  if (
-    breed.includes("시츄") ||
-    breed.includes("비숑") ||
-    breed.includes("코커") ||
-    breed.includes("닥스훈트") ||
-    breed.includes("푸들") ||
-    breed.includes("웰시코기")
-  ) {
-    return "small";
-  }
-
-  // 대형견
-  if (
-    breed.includes("골든") ||
-    breed.includes("래브라도") ||
-    breed.includes("셰퍼드") ||
-    breed.includes("허스키") ||
-    breed.includes("도베르만") ||
-    breed.includes("로트와일러")
-  ) {
-    return "large";
-  }
-
-  // 초대형견
-  if (
-    breed.includes("세인트") ||
-    breed.includes("그레이트") ||
-    breed.includes("마스티프") ||
-    breed.includes("뉴펀들랜드") ||
-    breed.includes("아이리시")
-  ) {
-    return "extra-large";
-  }
-
-  // 고양이는 기본적으로 소형
-  if (
-    breed.includes("고양이") ||
-    breed.includes("코리안숏헤어") ||
-    breed.includes("페르시안") ||
-    breed.includes("러시안블루") ||
-    breed.includes("브리티시숏헤어")
-  ) {
-    return "small";
-  }
-
-  // 기본값: 중형
-  return "medium";
-}
-
 /**
  * 성별 코드를 Gender로 변환
  */
 function mapGenderFromSexCd(sexCd: string): Gender {
-  switch (sexCd.toLowerCase()) {
+  switch ((sexCd || "").toLowerCase()) {
     case "m":
       return "male";
     case "f":
@@ -187,15 +128,20 @@ function calculateAgeGroup(age: string): {
 
 /**
  * 프로세스 상태를 AdoptionStatus로 변환
+ *
+ * 보호 종료 사유가 입양인 경우만 adopted이고, 반환/안락사/자연사 등은 unavailable입니다.
  */
 function mapAdoptionStatus(processState: string): AdoptionStatus {
-  const state = processState.toLowerCase();
+  const state = processState || "";
 
   if (state.includes("보호중") || state.includes("공고중")) {
     return "available";
-  } else if (state.includes("입양") || state.includes("종료")) {
+  }
+
+  const outcome = classifyShelterOutcome(state);
+  if (outcome === "adopted") {
     return "adopted";
-  } else if (state.includes("안락사") || state.includes("자연사")) {
+  } else if (outcome !== "other" || state.includes("종료")) {
     return "unavailable";
   }
 
@@ -231,30 +177,39 @@ function parseColors(colorCd: string): string[] {
 
 /**
  * 이미지 정보 생성 (실제 API: popfile1, popfile2)
+ *
+ * 원본 URL은 /api/images 프록시 URL로 바꾸고, 프록시가 이미 변환한 원본이면
+ * 실제 크기와 블러 플레이스홀더를 함께 채웁니다.
  */
-function createImageInfo(popfile1?: string, popfile2?: string): ImageInfo[] {
+function createImageInfo(
+  popfile1?: string,
+  popfile2?: string,
+  imageMetadata: Record<string, ImageMetadata> = {}
+): ImageInfo[] {
   const images: ImageInfo[] = [];
 
   if (popfile1) {
-    images.push({
-      id: "1",
-      url: popfile1,
-      alt: "반려동물 사진 1",
-      width: 400,
-      height: 300,
-      isMain: true,
-    });
+    images.push(
+      createProxiedImageInfo({
+        id: "1",
+        sourceUrl: popfile1,
+        alt: "반려동물 사진 1",
+        isMain: true,
+        metadata: imageMetadata[popfile1],
+      })
+    );
   }
 
   if (popfile2 && popfile2 !== popfile1) {
-    images.push({
-      id: "2",
-      url: popfile2,
-      alt: "반려동물 사진 2",
-      width: 400,
-      height: 300,
-      isMain: false,
-    });
+    images.push(
+      createProxiedImageInfo({
+        id: "2",
+        sourceUrl: popfile2,
+        alt: "반려동물 사진 2",
+        isMain: false,
+        metadata: imageMetadata[popfile2],
+      })
+    );
   }
 
   return images;
@@ -262,19 +217,31 @@ function createImageInfo(popfile1?: string, popfile2?: string): ImageInfo[] {
 
 /**
  * 공공데이터 유기동물 정보를 Pet 타입으로 변환
+ * @param {AbandonmentAnimalItem} animal 공공데이터 유기동물 정보
+ * @param {number} index 유기번호가 없을 때 ID 생성용 순번
+ * @param {Record<string, ImageMetadata>} imageMetadata 원본 사진 URL별 프록시 변환 정보
  */
 export function convertAbandonmentAnimalToPet(
   animal: AbandonmentAnimalItem,
-  index: number = 0
+  index: number = 0,
+  imageMetadata?: Record<string, ImageMetadata>
 ): Pet {
   const species = mapSpeciesFromUpkind(animal.upKindCd); // 실제 API: upKindCd 사용
-  const size = estimateSizeFromBreed(animal.kindNm || animal.kindFullNm);
   const gender = mapGenderFromSexCd(animal.sexCd);
   const ageInfo = calculateAgeGroup(animal.age);
   const adoptionStatus = mapAdoptionStatus(animal.processState);
   const weight = parseWeight(animal.weight);
+  const kindName = animal.kindNm || animal.kindFullNm;
+  const size = estimatePetSize({ breedName: kindName, species, weight });
+  const breed = createPetBreed({
+    kindCd: animal.kindCd,
+    name: kindName,
+    species,
+    size,
+  });
   const colors = parseColors(animal.colorCd);
-  const images = createImageInfo(animal.popfile1, animal.popfile2); // 실제 API: popfile1, popfile2 사용
+  const images = createImageInfo(animal.popfile1, animal.popfile2, imageMetadata); // 실제 API: popfile1, popfile2 사용
+  const insights = extractPetTextInsights(animal.specialMark, animal.etcBigo);
 
   // 이름 생성: "[개] 믹스견"에서 "믹스견" 추출
   const breedName =
@@ -285,18 +252,21 @@ export function convertAbandonmentAnimalToPet(
     id: animal.desertionNo || `animal-${index}`,
     name: petName,
     species,
-    breed: null, // 품종 정보는 별도 매핑 필요
+    breed,
     age: ageInfo,
     gender,
     size,
     weight,
     color: colors,
-    personality: [], // 성격은 특징에서 추론 가능하지만 기본값으로 빈 배열
-    healthStatus: "good" as HealthStatus, // 기본값, 특징에서 건강 상태 추론 가능
+    personality: insights.personality
+      .filter(({ confidence }) => confidence >= PERSONALITY_MIN_CONFIDENCE)
+      .map(({ trait }) => trait),
+    healthStatus: insights.healthStatus.value,
     medicalRecords: [],
 
     // 입양 관련
     adoptionStatus,
+    notice: createPetNotice(animal),
     location: {
       address: animal.happenPlace || animal.careAddr,
       city: animal.orgNm,
@@ -314,17 +284,18 @@ export function convertAbandonmentAnimalToPet(
 
     // 추가 정보
     description: animal.specialMark || "특이사항 없음",
-    specialNeeds: animal.specialMark ? [animal.specialMark] : [],
+    specialNeeds: insights.specialNeeds.map(({ need }) => need),
     goodWith: {
-      children: true, // 기본값
-      otherPets: true,
-      cats: true,
-      dogs: true,
+      children: toKnownBoolean(insights.goodWith.children),
+      otherPets: toKnownBoolean(insights.goodWith.otherPets),
+      cats: toKnownBoolean(insights.goodWith.cats),
+      dogs: toKnownBoolean(insights.goodWith.dogs),
     },
-    houseTrained: true, // 기본값
+    houseTrained: toKnownBoolean(insights.houseTrained),
     spayedNeutered: animal.neuterYn === "Y",
-    microchipped: false, // 정보 없음
-    vaccinated: true, // 보호소에서 관리하므로 기본값 true
+    microchipped: toKnownBoolean(insights.microchipped),
+    vaccinated: toKnownBoolean(insights.vaccinated),
+    textInsights: insights,
 
     // 타임스탬프
     createdAt: animalDataUtils.formatDate(animal.happenDt),
@@ -334,12 +305,15 @@ export function convertAbandonmentAnimalToPet(
 
 /**
  * 여러 유기동물 정보를 Pet 배열로 변환
+ * @param {AbandonmentAnimalItem[]} animals 공공데이터 유기동물 목록
+ * @param {Record<string, ImageMetadata>} imageMetadata 원본 사진 URL별 프록시 변환 정보
  */
 export function convertAbandonmentAnimalsToPets(
-  animals: AbandonmentAnimalItem[]
+  animals: AbandonmentAnimalItem[],
+  imageMetadata?: Record<string, ImageMetadata>
 ): Pet[] {
   return animals.map((animal, index) =>
-    convertAbandonmentAnimalToPet(animal, index)
+    convertAbandonmentAnimalToPet(animal, index, imageMetadata)
   );
 }
 
@@ -382,21 +356,18 @@ export const searchResultAdapter = {
   /**
    * API 검색 결과를 UI용 데이터로 변환
    */
-  convertSearchResults: (
-    animals: AbandonmentAnimalItem[],
-    totalCount: number,
-    currentPage: number,
-    itemsPerPage: number
-  ) => {
-    const pets = convertAbandonmentAnimalsToPets(animals);
+  convertSearchResults: (result: AnimalSearchResult) => {
+    const pets = convertAbandonmentAnimalsToPets(result.animals, result.images);
 
     return {
       items: pets,
-      totalCount,
-      currentPage,
-      totalPages: Math.ceil(totalCount / itemsPerPage),
-      hasNext: currentPage * itemsPerPage < totalCount,
-      hasPrev: currentPage > 1,
+      totalCount: result.totalCount,
+      totalCountExact: result.totalCountExact,
+      currentPage: result.pageNo,
+      totalPages: Math.ceil(result.totalCount / result.numOfRows),
+      hasNext: result.hasMore,
+      hasPrev: result.pageNo > 1,
+      nextCursor: result.nextCursor,
     };
   },
 
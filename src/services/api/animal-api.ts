@@ -7,13 +7,26 @@
 
 import type {
   AnimalApiParams,
-  AbandonmentAnimalItem,
-  KindInfo,
+  AnimalListResult,
+  AnimalSearchResult,
+  AnimalDetailResult,
+  AnimalMirrorSearchResult,
+  BreedCatalogItem,
   SidoInfo,
   SigunguInfo,
   ShelterInfo,
+  ShelterDetail,
+  UrgentAnimalsResult,
   ApiResponse,
 } from "@/types/api";
+import type {
+  SearchRequest,
+  SearchResults,
+  SimilarPetsResult,
+} from "@/types/search";
+import type { ImageVariant } from "@/types/common";
+import { buildImageProxyUrl, PET_PLACEHOLDER_IMAGE } from "./image-url";
+import { ApiError, NotFoundError, apiErrorFromResponse } from "./api-errors";
 
 /**
  * 내부 API 기본 설정
@@ -49,6 +62,8 @@ export const NEUTER_CODE_MAP = {
 
 /**
  * 내부 API 요청 함수
+ *
+ * 실패 응답은 에러 코드에 맞는 ApiError 하위 클래스로 복원하여 던집니다.
  */
 async function fetchFromInternalAPI<T>(
   endpoint: string,
@@ -80,21 +95,25 @@ async function fetchFromInternalAPI<T>(
     }
 
     const response = await fetch(url, requestInit);
-
-    if (!response.ok) {
-      throw new Error(`HTTP Error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const data = await response.json().catch(() => null);
 
     // 내부 API 응답 상태 체크
-    if (!data.success) {
-      throw new Error(data.error?.message || "API 요청에 실패했습니다.");
+    if (!response.ok || !data?.success) {
+      throw apiErrorFromResponse(
+        data,
+        response.ok ? 500 : response.status,
+        response.ok
+          ? "API 요청에 실패했습니다."
+          : `HTTP Error: ${response.status} ${response.statusText}`
+      );
     }
 
     return data;
   } catch (error) {
-    console.error("내부 API 요청 오류:", error);
+    // 요청 제한/입력 오류 등 예상 가능한 실패는 콘솔 오류로 남기지 않음
+    if (!(error instanceof ApiError) || error.status >= 500) {
+      console.error("내부 API 요청 오류:", error);
+    }
     throw error;
   }
 }
@@ -104,12 +123,7 @@ async function fetchFromInternalAPI<T>(
  */
 export async function getAbandonmentAnimals(
   params: Partial<AnimalApiParams> = {}
-): Promise<{
-  animals: AbandonmentAnimalItem[];
-  totalCount: number;
-  pageNo: number;
-  numOfRows: number;
-}> {
+): Promise<AnimalListResult> {
   const defaultParams = {
     numOfRows: 20,
     pageNo: 1,
@@ -117,111 +131,126 @@ export async function getAbandonmentAnimals(
     state: "notice", // 기본값: 공고중
   };
 
-  const response = await fetchFromInternalAPI<{
-    animals: AbandonmentAnimalItem[];
-    totalCount: number;
-    pageNo: number;
-    numOfRows: number;
-  }>("animals", { ...defaultParams, ...params }, "GET");
+  const response = await fetchFromInternalAPI<AnimalListResult>(
+    "animals",
+    { ...defaultParams, ...params },
+    "GET"
+  );
 
   return response.data!;
 }
 
 /**
- * 품종 코드 목록 조회
- * TODO: fetchPublicData 함수 구현 필요
+ * 품종 코드 목록 조회 (로컬 품종 메타데이터 포함)
+ * @param {string} upkind 축종 코드
  */
-// export async function getKindList(
-//   upkind: string = ANIMAL_TYPE_CODES.DOG
-// ): Promise<KindInfo[]> {
-//   const response = await fetchPublicData<KindInfo>("kind", {
-//     up_kind_cd: upkind,
-//   });
-
-//   return response.response.body.items?.item || [];
-// }
+export async function getKindList(
+  upkind: string = ANIMAL_TYPE_CODES.DOG
+): Promise<BreedCatalogItem[]> {
+  const response = await fetchFromInternalAPI<BreedCatalogItem[]>("kinds", {
+    upkind,
+  });
+  return response.data || [];
+}
 
 /**
  * 시도 코드 목록 조회
- * TODO: fetchPublicData 함수 구현 필요
  */
-// export async function getSidoList(): Promise<SidoInfo[]> {
-//   const response = await fetchPublicData<SidoInfo>("sido", {});
-//   return response.response.body.items?.item || [];
-// }
+export async function getSidoList(): Promise<SidoInfo[]> {
+  const response = await fetchFromInternalAPI<SidoInfo[]>("regions/sido");
+  return response.data || [];
+}
 
 /**
  * 시군구 코드 목록 조회
- * TODO: fetchPublicData 함수 구현 필요
+ * @param {string} uprCd 시도 코드
  */
-// export async function getSigunguList(uprCd: string): Promise<SigunguInfo[]> {
-//   const response = await fetchPublicData<SigunguInfo>("sigungu", {
-//     upr_cd: uprCd,
-//   });
-
-//   return response.response.body.items?.item || [];
-// }
+export async function getSigunguList(uprCd: string): Promise<SigunguInfo[]> {
+  const response = await fetchFromInternalAPI<SigunguInfo[]>(
+    "regions/sigungu",
+    { upr_cd: uprCd }
+  );
+  return response.data || [];
+}
 
 /**
  * 보호소 목록 조회
- * TODO: fetchPublicData 함수 구현 필요
+ * @param {string} uprCd 시도 코드
+ * @param {string} orgCd 시군구 코드
+ */
+export async function getShelterList(
+  uprCd: string,
+  orgCd: string
+): Promise<ShelterInfo[]> {
+  const response = await fetchFromInternalAPI<ShelterInfo[]>("shelters", {
+    upr_cd: uprCd,
+    org_cd: orgCd,
+  });
+  return response.data || [];
+}
+
+/**
+ * 보호소 상세 조회 (연락처/주소, 구분별 동물 목록, 입소/종료 통계)
+ * @param {string} careRegNo 보호소 번호
  */
-// export async function getShelterList(
-//   upr_cd?: string,
-//   org_cd?: string
-// ): Promise<ShelterInfo[]> {
-//   const params: Record<string, string> = {};
-//   if (upr_cd) params.upr_cd = upr_cd;
-//   if (org_cd) params.org_cd = org_cd;
-
-//   const response = await fetchPublicData<ShelterInfo>("shelter", params);
-//   return response.response.body.items?.item || [];
-// }
+export async function getShelterDetail(
+  careRegNo: string
+): Promise<ShelterDetail> {
+  const response = await fetchFromInternalAPI<ShelterDetail>(
+    `shelters/${encodeURIComponent(careRegNo)}`
+  );
+  return response.data!;
+}
 
 /**
  * 유기동물 상세 정보 조회 (유기번호로)
+ *
+ * 서버 인덱스 기반 상세 API(/api/animals/[desertionNo])를 호출합니다.
+ * 없는 유기번호면 null을 반환하고, 그 외 오류는 재시도/오류 표시를 위해 그대로 던집니다.
  */
 export async function getAnimalDetail(
   desertionNo: string
-): Promise<AbandonmentAnimalItem | null> {
+): Promise<AnimalDetailResult | null> {
   try {
-    // 🔧 여러 페이지에서 동물을 찾아야 합니다
-    let currentPage = 1;
-    const maxPages = 50; // 최대 50페이지까지 검색 (1000개 동물)
-
-    while (currentPage <= maxPages) {
-      const response = await getAbandonmentAnimals({
-        numOfRows: 20, // 한 번에 20개씩 가져오기
-        pageNo: currentPage,
-      });
-
-      // 현재 페이지에서 해당 동물 찾기
-      const animal = response.animals.find(
-        (item) => item.desertionNo === desertionNo
-      );
+    const response = await fetchFromInternalAPI<AnimalDetailResult>(
+      `animals/${encodeURIComponent(desertionNo)}`
+    );
 
-      if (animal) {
-        return animal;
-      }
-
-      // 더 이상 데이터가 없으면 종료
-      if (response.animals.length < 20) {
-        break;
-      }
-
-      currentPage++;
-    }
-
-    console.log("동물을 찾을 수 없습니다:", desertionNo);
-    return null;
+    return response.data ?? null;
   } catch (error) {
-    console.error("동물 상세 정보 조회 오류:", error);
-    return null;
+    if (error instanceof NotFoundError) return null;
+    throw error;
   }
 }
 
+/**
+ * 공고 마감 임박 동물 조회 (마감이 가까운 순)
+ * @param {object} params
+ * @param {string} params.upkind 축종 코드
+ * @param {string} params.upr_cd 시도 코드
+ * @param {string} params.org_cd 시군구 코드
+ * @param {number} params.within 공고 종료까지 남은 일수 상한
+ */
+export async function getUrgentAnimals(params: {
+  upkind?: string;
+  upr_cd?: string;
+  org_cd?: string;
+  within?: number;
+  pageNo?: number;
+  numOfRows?: number;
+} = {}): Promise<UrgentAnimalsResult> {
+  const response = await fetchFromInternalAPI<UrgentAnimalsResult>(
+    "animals/urgent",
+    params
+  );
+
+  return response.data!;
+}
+
 /**
  * 유기동물 검색 (복합 조건)
+ *
+ * 다음 페이지는 이전 응답의 nextCursor를 cursor로 전달해 조회합니다.
  */
 export async function searchAnimals(searchParams: {
   keyword?: string;
@@ -234,19 +263,75 @@ export async function searchAnimals(searchParams: {
   state?: string;
   pageNo?: number;
   numOfRows?: number;
-}): Promise<{
-  animals: AbandonmentAnimalItem[];
-  totalCount: number;
-  pageNo: number;
-  numOfRows: number;
-}> {
+  cursor?: string;
+}): Promise<AnimalSearchResult> {
   // POST 요청으로 검색 파라미터 전달
-  const response = await fetchFromInternalAPI<{
-    animals: AbandonmentAnimalItem[];
-    totalCount: number;
-    pageNo: number;
-    numOfRows: number;
-  }>("animals", searchParams, "POST");
+  const response = await fetchFromInternalAPI<AnimalSearchResult>(
+    "animals",
+    searchParams,
+    "POST"
+  );
+
+  return response.data!;
+}
+
+/**
+ * 유기동물 미러 검색 (전문 검색 + 다중 값 필터 + 패싯 집계)
+ *
+ * 서버에 미러(ANIMAL_MIRROR_STORE)가 설정되어 있어야 합니다.
+ */
+export async function searchAnimalMirror(searchParams: {
+  keyword?: string;
+  species?: string[];
+  breeds?: string[];
+  sizes?: string[];
+  ageGroups?: string[];
+  locations?: string[];
+  personalities?: string[];
+  genders?: string[];
+  neutered?: string[];
+  states?: string[];
+  careRegNos?: string[];
+  pageNo?: number;
+  numOfRows?: number;
+  cursor?: string;
+}): Promise<AnimalMirrorSearchResult> {
+  const response = await fetchFromInternalAPI<AnimalMirrorSearchResult>(
+    "animals",
+    { ...searchParams, mode: "mirror" },
+    "POST"
+  );
+
+  return response.data!;
+}
+
+/**
+ * 반려동물 검색 (SearchRequest의 모든 필터 적용)
+ * @param {SearchRequest} request 검색 요청
+ */
+export async function searchPets(request: SearchRequest): Promise<SearchResults> {
+  const response = await fetchFromInternalAPI<SearchResults>(
+    "pets/search",
+    request,
+    "POST"
+  );
+
+  return response.data!;
+}
+
+/**
+ * 비슷한 반려동물 조회
+ * @param {string} desertionNo 기준 동물 유기번호
+ * @param {number} limit 최대 개수
+ */
+export async function getSimilarPets(
+  desertionNo: string,
+  limit?: number
+): Promise<SimilarPetsResult> {
+  const response = await fetchFromInternalAPI<SimilarPetsResult>(
+    `pets/${encodeURIComponent(desertionNo)}/similar`,
+    { limit }
+  );
 
   return response.data!;
 }
@@ -279,16 +364,21 @@ export const animalDataUtils = {
 
   /**
    * 이미지 URL 검증 및 기본 이미지 설정
+   * 원본 URL은 이미지 프록시(/api/images) URL로 변환합니다.
    */
-  getImageUrl: (popfile: string, filename: string): string => {
-    // 실제 이미지 URL이 있으면 사용, 없으면 기본 이미지
+  getImageUrl: (
+    popfile: string,
+    filename: string,
+    variant: ImageVariant = "card"
+  ): string => {
+    // 실제 이미지 URL이 있으면 프록시 URL 사용, 없으면 로컬 플레이스홀더
     if (popfile && popfile !== "") {
-      return popfile;
+      return buildImageProxyUrl(popfile, variant);
     }
     if (filename && filename !== "") {
-      return filename;
+      return buildImageProxyUrl(filename, variant);
     }
-    return "/images/default-pet.jpg"; // 기본 이미지
+    return PET_PLACEHOLDER_IMAGE;
   },
 
   /**
@@ -0,0 +1,295 @@
+/**
+ * API 에러 모델
+ *
+ * Route Handler와 클라이언트가 함께 사용하는 에러 클래스 계층입니다.
+ * - 서버: 에러를 ApiErrorResponse 형식과 HTTP 상태로 변환
+ * - 클라이언트: 에러 응답을 같은 클래스로 복원하여 UI/재시도 로직에서 구분
+ */
+
+import type {
+  ApiErrorCode,
+  ApiErrorResponse,
+  HttpStatusCode,
+  ValidationError,
+} from "@/types/api";
+
+/**
+ * 에러 코드별 HTTP 상태
+ */
+export const API_ERROR_STATUS: Record<ApiErrorCode, HttpStatusCode> = {
+  VALIDATION_ERROR: 400,
+  AUTHENTICATION_REQUIRED: 401,
+  AUTHORIZATION_DENIED: 403,
+  RESOURCE_NOT_FOUND: 404,
+  RESOURCE_CONFLICT: 409,
+  RATE_LIMIT_EXCEEDED: 429,
+  SERVER_ERROR: 500,
+  SERVICE_UNAVAILABLE: 503,
+  DATABASE_ERROR: 500,
+  EXTERNAL_SERVICE_ERROR: 502,
+  UPSTREAM_QUOTA_EXCEEDED: 503,
+  UPSTREAM_AUTH_FAILED: 502,
+  UPSTREAM_NO_DATA: 404,
+};
+
+/**
+ * 에러 생성 옵션
+ */
+export interface ApiErrorOptions {
+  status?: number;
+  details?: Record<string, unknown>;
+  field?: string;
+  cause?: unknown;
+}
+
+/**
+ * API 에러 기본 클래스
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly details?: Record<string, unknown>;
+  readonly field?: string;
+
+  constructor(
+    code: ApiErrorCode,
+    message: string,
+    options: ApiErrorOptions = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "ApiError";
+    this.code = code;
+    this.status = options.status ?? API_ERROR_STATUS[code] ?? 500;
+    this.details = options.details;
+    this.field = options.field;
+  }
+
+  /**
+   * 재시도해도 되는 에러인지 (서버 일시 장애와 요청 제한만 재시도)
+   */
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+
+  /**
+   * 에러 응답 본문으로 변환
+   */
+  toResponseBody(): ApiErrorResponse {
+    return {
+      success: false,
+      error: {
+        code: this.code,
+        message: this.message,
+        ...(this.details && { details: this.details }),
+        ...(this.field && { field: this.field }),
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * 요청 값 검증 실패 (400)
+ */
+export class ValidationApiError extends ApiError {
+  constructor(message: string, field?: string, errors?: ValidationError[]) {
+    super("VALIDATION_ERROR", message, {
+      field,
+      details: errors ? { errors } : undefined,
+    });
+    this.name = "ValidationApiError";
+  }
+
+  /** 필드별 검증 오류 목록 (ValidationErrorResponse.details.errors) */
+  get errors(): ValidationError[] {
+    return (this.details?.errors as ValidationError[] | undefined) ?? [];
+  }
+}
+
+/**
+ * 로그인 필요 (401)
+ */
+export class AuthenticationError extends ApiError {
+  constructor(message = "로그인이 필요합니다.") {
+    super("AUTHENTICATION_REQUIRED", message);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * 권한 없음 (403)
+ */
+export class AuthorizationError extends ApiError {
+  constructor(message = "권한이 없습니다.") {
+    super("AUTHORIZATION_DENIED", message);
+    this.name = "AuthorizationError";
+  }
+}
+
+/**
+ * 리소스 없음 (404)
+ */
+export class NotFoundError extends ApiError {
+  constructor(
+    message = "요청한 정보를 찾을 수 없습니다.",
+    code: ApiErrorCode = "RESOURCE_NOT_FOUND"
+  ) {
+    super(code, message);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * 리소스 충돌 (409)
+ */
+export class ConflictError extends ApiError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super("RESOURCE_CONFLICT", message, { details });
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * 요청 제한 초과 (429)
+ */
+export class RateLimitError extends ApiError {
+  constructor(
+    message: string,
+    retryAfterSeconds: number,
+    details?: Record<string, unknown>
+  ) {
+    super("RATE_LIMIT_EXCEEDED", message, {
+      details: { ...details, retryAfterSeconds },
+    });
+    this.name = "RateLimitError";
+  }
+
+  /** 다시 시도할 수 있을 때까지 남은 시간 (초) */
+  get retryAfterSeconds(): number {
+    return Number(this.details?.retryAfterSeconds) || 1;
+  }
+}
+
+/**
+ * 서비스 일시 중단 (503)
+ */
+export class ServiceUnavailableError extends ApiError {
+  constructor(message: string) {
+    super("SERVICE_UNAVAILABLE", message);
+    this.name = "ServiceUnavailableError";
+  }
+}
+
+/**
+ * 외부 서비스 오류 (공공데이터포털 등)
+ */
+export class ExternalServiceError extends ApiError {
+  constructor(
+    message: string,
+    options: ApiErrorOptions & { code?: ApiErrorCode } = {}
+  ) {
+    super(options.code ?? "EXTERNAL_SERVICE_ERROR", message, options);
+    this.name = "ExternalServiceError";
+  }
+}
+
+/**
+ * 공공데이터 호출 한도 초과 (503, 한도가 초기화될 때까지 재시도하지 않음)
+ */
+export class UpstreamQuotaExceededError extends ExternalServiceError {
+  constructor(
+    message = "공공데이터 일일 호출 한도를 초과했습니다. 잠시 후 다시 시도해주세요.",
+    details?: Record<string, unknown>
+  ) {
+    super(message, { code: "UPSTREAM_QUOTA_EXCEEDED", details });
+    this.name = "UpstreamQuotaExceededError";
+  }
+
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * 공공데이터 서비스 키 오류 (502, 설정을 고치기 전까지 재시도하지 않음)
+ */
+export class UpstreamAuthError extends ExternalServiceError {
+  constructor(
+    message = "공공데이터 서비스 키가 유효하지 않습니다.",
+    details?: Record<string, unknown>
+  ) {
+    super(message, { code: "UPSTREAM_AUTH_FAILED", details });
+    this.name = "UpstreamAuthError";
+  }
+
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * API 에러 여부 확인
+ * @param {unknown} error 확인할 값
+ */
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * 에러 코드가 없는 응답의 HTTP 상태로 코드 추정
+ * @param {number} status HTTP 상태
+ */
+function errorCodeFromStatus(status: number): ApiErrorCode {
+  const matched = (Object.keys(API_ERROR_STATUS) as ApiErrorCode[]).find(
+    (code) => API_ERROR_STATUS[code] === status
+  );
+  if (matched) return matched;
+  return status >= 500 ? "SERVER_ERROR" : "VALIDATION_ERROR";
+}
+
+/**
+ * 에러 응답 본문을 에러 클래스로 복원 (클라이언트)
+ * @param {Partial<ApiErrorResponse> | null} body 응답 본문
+ * @param {number} status HTTP 상태
+ * @param {string} fallbackMessage 본문에 메시지가 없을 때 사용할 메시지
+ */
+export function apiErrorFromResponse(
+  body: Partial<ApiErrorResponse> | null,
+  status: number,
+  fallbackMessage = "API 요청에 실패했습니다."
+): ApiError {
+  const code = body?.error?.code ?? errorCodeFromStatus(status);
+  const message = body?.error?.message || fallbackMessage;
+  const details = body?.error?.details;
+  const field = body?.error?.field;
+
+  switch (code) {
+    case "VALIDATION_ERROR":
+      return new ValidationApiError(message, field, details?.errors);
+    case "AUTHENTICATION_REQUIRED":
+      return new AuthenticationError(message);
+    case "AUTHORIZATION_DENIED":
+      return new AuthorizationError(message);
+    case "RESOURCE_NOT_FOUND":
+    case "UPSTREAM_NO_DATA":
+      return new NotFoundError(message, code);
+    case "RESOURCE_CONFLICT":
+      return new ConflictError(message, details);
+    case "RATE_LIMIT_EXCEEDED":
+      return new RateLimitError(
+        message,
+        Number(details?.retryAfterSeconds) || 1,
+        details
+      );
+    case "SERVICE_UNAVAILABLE":
+      return new ServiceUnavailableError(message);
+    case "EXTERNAL_SERVICE_ERROR":
+      return new ExternalServiceError(message, { status, details });
+    case "UPSTREAM_QUOTA_EXCEEDED":
+      return new UpstreamQuotaExceededError(message, details);
+    case "UPSTREAM_AUTH_FAILED":
+      return new UpstreamAuthError(message, details);
+    default:
+      return new ApiError(code, message, { status, details, field });
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * 입양 신청 API 클라이언트 서비스
+ *
+ * 로그인 세션의 액세스 토큰을 Authorization 헤더로 보내
+ * 신청자용 입양 신청 API와 보호소 직원 업무 공간 API를 호출합니다.
+ */
+
+import type {
+  AdoptionApplicationDetail,
+  AdoptionApplicationRequest,
+  AdoptionApplicationStatusRequest,
+  ShelterStaffMembership,
+  ShelterStaffMembershipRequest,
+} from "@/types/api";
+import type {
+  AdoptionApplication,
+  AdoptionApplicationMessage,
+  AdoptionApplicationStatus,
+} from "@/types/pet";
+import { API_ENDPOINTS } from "@/utils/constants/api";
+import { fetchWithSession } from "./session-fetch";
+
+/**
+ * 입양 신청 API 인증 요청
+ * @param {string} endpoint API_ENDPOINTS 경로
+ * @param {RequestInit} init 요청 설정
+ */
+function fetchApplicationApi<T>(endpoint: string, init: RequestInit = {}): Promise<T> {
+  return fetchWithSession<T>(endpoint, init, "입양 신청 요청에 실패했습니다.");
+}
+
+/**
+ * 입양 신청
+ * @param {string} petId 유기번호
+ * @param {AdoptionApplicationRequest} request 신청서 답변과 전하고 싶은 말
+ */
+export async function submitAdoptionApplication(
+  petId: string,
+  request: AdoptionApplicationRequest
+): Promise<AdoptionApplication> {
+  return fetchApplicationApi<AdoptionApplication>(
+    API_ENDPOINTS.PETS.APPLY.replace("{id}", encodeURIComponent(petId)),
+    { method: "POST", body: JSON.stringify(request) }
+  );
+}
+
+/**
+ * 내 입양 신청 목록 조회 (최근 신청 순)
+ */
+export async function getMyAdoptionApplications(): Promise<AdoptionApplication[]> {
+  return fetchApplicationApi<AdoptionApplication[]>(API_ENDPOINTS.USERS.APPLICATIONS);
+}
+
+/**
+ * 입양 신청 철회
+ * @param {string} applicationId 신청 ID
+ */
+export async function withdrawAdoptionApplication(
+  applicationId: string
+): Promise<AdoptionApplication> {
+  return fetchApplicationApi<AdoptionApplication>(
+    `${API_ENDPOINTS.USERS.APPLICATIONS}/${encodeURIComponent(applicationId)}`,
+    { method: "PATCH", body: JSON.stringify({ status: "withdrawn" }) }
+  );
+}
+
+/**
+ * 내 입양 신청 메시지 조회 (오래된 순)
+ * @param {string} applicationId 신청 ID
+ */
+export async function getMyApplicationMessages(
+  applicationId: string
+): Promise<AdoptionApplicationMessage[]> {
+  return fetchApplicationApi<AdoptionApplicationMessage[]>(
+    API_ENDPOINTS.USERS.APPLICATION_MESSAGES.replace(
+      "{id}",
+      encodeURIComponent(applicationId)
+    )
+  );
+}
+
+/**
+ * 보호소에 답장
+ * @param {string} applicationId 신청 ID
+ * @param {string} body 메시지 내용
+ */
+export async function sendMyApplicationMessage(
+  applicationId: string,
+  body: string
+): Promise<AdoptionApplicationMessage> {
+  return fetchApplicationApi<AdoptionApplicationMessage>(
+    API_ENDPOINTS.USERS.APPLICATION_MESSAGES.replace(
+      "{id}",
+      encodeURIComponent(applicationId)
+    ),
+    { method: "POST", body: JSON.stringify({ body }) }
+  );
+}
+
+/**
+ * 보호소 소속 목록 조회 (확인 대기/거절된 소속 포함)
+ */
+export async function getMyShelterMemberships(): Promise<ShelterStaffMembership[]> {
+  return fetchApplicationApi<ShelterStaffMembership[]>(
+    API_ENDPOINTS.SHELTER_WORKSPACE.ME
+  );
+}
+
+/**
+ * 보호소 소속 신청 (관리자 확인 후 업무 공간 이용 가능)
+ * @param {ShelterStaffMembershipRequest} request 보호소 번호와 보호소명
+ */
+export async function requestShelterMembership(
+  request: ShelterStaffMembershipRequest
+): Promise<ShelterStaffMembership> {
+  return fetchApplicationApi<ShelterStaffMembership>(
+    API_ENDPOINTS.SHELTER_WORKSPACE.ME,
+    { method: "POST", body: JSON.stringify(request) }
+  );
+}
+
+/**
+ * 보호소 입양 신청 목록 조회
+ * @param {object} filters
+ * @param {string} filters.careRegNo 보호소 번호 (생략 시 소속된 모든 보호소)
+ * @param {AdoptionApplicationStatus} filters.status 신청 상태
+ */
+export async function getShelterApplications(
+  filters: { careRegNo?: string; status?: AdoptionApplicationStatus } = {}
+): Promise<AdoptionApplication[]> {
+  const query = new URLSearchParams();
+  if (filters.careRegNo) query.set("careRegNo", filters.careRegNo);
+  if (filters.status) query.set("status", filters.status);
+
+  const queryString = query.toString();
+
+  return fetchApplicationApi<AdoptionApplication[]>(
+    `${API_ENDPOINTS.SHELTER_WORKSPACE.APPLICATIONS}${queryString ? `?${queryString}` : ""}`
+  );
+}
+
+/**
+ * 보호소 입양 신청 상세 조회 (신청서 + 메시지)
+ * @param {string} applicationId 신청 ID
+ */
+export async function getShelterApplicationDetail(
+  applicationId: string
+): Promise<AdoptionApplicationDetail> {
+  return fetchApplicationApi<AdoptionApplicationDetail>(
+    `${API_ENDPOINTS.SHELTER_WORKSPACE.APPLICATIONS}/${encodeURIComponent(applicationId)}`
+  );
+}
+
+/**
+ * 입양 신청 검토 (승인/거절)
+ * @param {string} applicationId 신청 ID
+ * @param {AdoptionApplicationStatusRequest} request 검토 결과와 메모
+ */
+export async function reviewShelterApplication(
+  applicationId: string,
+  request: AdoptionApplicationStatusRequest
+): Promise<AdoptionApplication> {
+  return fetchApplicationApi<AdoptionApplication>(
+    `${API_ENDPOINTS.SHELTER_WORKSPACE.APPLICATIONS}/${encodeURIComponent(applicationId)}`,
+    { method: "PATCH", body: JSON.stringify(request) }
+  );
+}
+
+/**
+ * 신청자에게 메시지 보내기
+ * @param {string} applicationId 신청 ID
+ * @param {string} body 메시지 내용
+ */
+export async function sendShelterApplicationMessage(
+  applicationId: string,
+  body: string
+): Promise<AdoptionApplicationMessage> {
+  return fetchApplicationApi<AdoptionApplicationMessage>(
+    API_ENDPOINTS.SHELTER_WORKSPACE.MESSAGES.replace(
+      "{id}",
+      encodeURIComponent(applicationId)
+    ),
+    { method: "POST", body: JSON.stringify({ body }) }
+  );
+}
@@ -0,0 +1,172 @@
+/**
+ * 품종 카탈로그 서비스
+ *
+ * 공공데이터 품종명(kindNm/KNm)을 로컬 품종 메타데이터 테이블과 매칭하여
+ * PetBreed 정보와 크기 추정을 제공합니다.
+ */
+
+import type { BreedMetadata, PetBreed, PetSize, PetSpecies } from "@/types/pet";
+import type { BreedCatalogItem, KindInfo } from "@/types/api";
+import {
+  BREED_METADATA,
+  BREED_METADATA_VERSION,
+  PET_SIZE_WEIGHT_RANGES,
+} from "@/utils/constants";
+
+/**
+ * 품종명 정규화 ("[개] 골든 리트리버" → "골든리트리버")
+ * @param {string} name 품종명
+ */
+export function normalizeBreedName(name: string): string {
+  return (name || "")
+    .replace(/\[[^\]]*\]/g, "")
+    .replace(/\s+/g, "")
+    .toLowerCase();
+}
+
+/**
+ * 품종명으로 메타데이터 조회
+ * @param {string} name 품종명
+ * @param {PetSpecies} species 축종 (지정 시 해당 축종 항목만 검색)
+ */
+export function findBreedMetadata(
+  name: string,
+  species?: PetSpecies
+): BreedMetadata | null {
+  const normalized = normalizeBreedName(name);
+  if (!normalized) return null;
+
+  return (
+    BREED_METADATA.find(
+      (metadata) =>
+        (!species || metadata.species === species) &&
+        metadata.keywords.some((keyword) =>
+          normalized.includes(normalizeBreedName(keyword))
+        )
+    ) ?? null
+  );
+}
+
+/**
+ * 체중으로 크기 추정
+ * @param {number | undefined} weight 체중 (kg)
+ */
+export function estimateSizeFromWeight(weight?: number): PetSize | null {
+  if (weight === undefined || Number.isNaN(weight) || weight <= 0) return null;
+
+  const sizes = Object.entries(PET_SIZE_WEIGHT_RANGES) as [
+    PetSize,
+    { min: number; max: number },
+  ][];
+  const matched = sizes.find(([, range]) => weight < range.max);
+  return matched ? matched[0] : "extra-large";
+}
+
+/**
+ * 품종/체중/축종 정보로 크기 추정
+ *
+ * 순종은 품종 메타데이터를, 믹스나 미등록 품종은 체중을 우선 사용합니다.
+ * @param {object} params
+ * @param {string} params.breedName 품종명
+ * @param {PetSpecies} params.species 축종
+ * @param {number} params.weight 체중 (kg)
+ */
+export function estimatePetSize({
+  breedName,
+  species,
+  weight,
+}: {
+  breedName: string;
+  species: PetSpecies;
+  weight?: number;
+}): PetSize {
+  const metadata = findBreedMetadata(breedName, species);
+  if (metadata && !metadata.isMixed) return metadata.size;
+
+  const sizeByWeight = species === "dog" ? estimateSizeFromWeight(weight) : null;
+  if (sizeByWeight) return sizeByWeight;
+
+  if (metadata) return metadata.size;
+  return species === "cat" ? "small" : "medium";
+}
+
+/**
+ * 축종별 기본(믹스) 메타데이터 조회
+ * @param {PetSpecies} species 축종
+ */
+function findDefaultMetadata(species: PetSpecies): BreedMetadata | null {
+  return (
+    BREED_METADATA.find(
+      (metadata) => metadata.species === species && metadata.isMixed
+    ) ?? null
+  );
+}
+
+/**
+ * 공공데이터 품종 정보를 PetBreed로 변환
+ *
+ * 메타데이터가 없는 품종은 축종 기본값을 사용하고 설명에 미등록임을 표시합니다.
+ * @param {object} params
+ * @param {string} params.kindCd 품종 코드
+ * @param {string} params.name 품종명
+ * @param {PetSpecies} params.species 축종
+ * @param {PetSize} params.size 개체 크기 (지정 시 메타데이터 크기보다 우선)
+ */
+export function createPetBreed({
+  kindCd,
+  name,
+  species,
+  size,
+}: {
+  kindCd: string;
+  name: string;
+  species: PetSpecies;
+  size?: PetSize;
+}): PetBreed | null {
+  const displayName = (name || "").replace(/\[[^\]]*\]/g, "").trim();
+  if (!displayName) return null;
+
+  const matchedMetadata = findBreedMetadata(displayName, species);
+  const metadata = matchedMetadata ?? findDefaultMetadata(species);
+
+  return {
+    id: kindCd || normalizeBreedName(displayName),
+    name: displayName,
+    species,
+    size: size ?? metadata?.size ?? "medium",
+    lifespan: metadata?.lifespan ?? { min: 10, max: 15 },
+    description: matchedMetadata
+      ? matchedMetadata.description
+      : "등록된 품종 정보가 없습니다.",
+    characteristics: metadata?.characteristics ?? [],
+    careLevel: metadata?.careLevel ?? "medium",
+    exerciseNeeds: metadata?.exerciseNeeds ?? "medium",
+    groomingNeeds: metadata?.groomingNeeds ?? "medium",
+    createdAt: BREED_METADATA_VERSION,
+    updatedAt: BREED_METADATA_VERSION,
+  };
+}
+
+/**
+ * 공식 품종 코드 목록을 카탈로그 항목으로 변환
+ * @param {KindInfo[]} kinds 공공데이터 품종 코드 목록
+ * @param {PetSpecies} species 축종
+ */
+export function buildBreedCatalog(
+  kinds: KindInfo[],
+  species: PetSpecies
+): BreedCatalogItem[] {
+  return kinds.map((kind) => {
+    const breed = createPetBreed({
+      kindCd: kind.kindCd,
+      name: kind.KNm,
+      species,
+    });
+
+    return {
+      ...kind,
+      breed,
+      hasMetadata: !!findBreedMetadata(kind.KNm, species),
+    };
+  });
+}
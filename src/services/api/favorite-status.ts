@@ -0,0 +1,29 @@
+/**
+ * 관심 동물 입양 가능 여부 판단
+ *
+ * 관심 목록에 담아 둔 동물이 그 사이 입양되었거나 공고가 끝났는지
+ * 최신 상세 정보로 판단합니다.
+ */
+
+import type { Pet } from "@/types/pet";
+import type { FavoriteAvailability } from "@/types/user";
+
+/**
+ * 관심 동물 입양 가능 여부
+ * @param {Pet | null} pet 상세 정보 (공고가 내려가 찾을 수 없으면 null)
+ */
+export function resolveFavoriteAvailability(pet: Pet | null): FavoriteAvailability {
+  if (!pet) return "missing";
+  if (pet.adoptionStatus === "adopted") return "adopted";
+  if (pet.adoptionStatus === "unavailable") return "closed";
+  if (pet.notice?.urgency === "ended") return "notice_ended";
+  return "available";
+}
+
+/**
+ * 더 이상 입양할 수 없는 관심 동물인지 여부
+ * @param {FavoriteAvailability} availability 입양 가능 여부
+ */
+export function isFavoriteUnavailable(availability: FavoriteAvailability): boolean {
+  return availability !== "available";
+}
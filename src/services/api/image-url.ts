@@ -0,0 +1,113 @@
+/**
+ * 보호소 사진 프록시 URL 유틸리티
+ *
+ * 공공데이터 원본 사진(popfile1/popfile2) URL을 /api/images 프록시 URL로 바꾸고,
+ * 프록시가 변환해 둔 실제 크기/블러 플레이스홀더를 ImageInfo에 반영합니다.
+ */
+
+import type { ImageInfo, ImageMetadata, ImageVariant } from "@/types/common";
+import { IMAGE_PROXY_SETTINGS } from "@/utils/constants/api";
+
+/**
+ * 이미지 프록시 경로
+ */
+export const IMAGE_PROXY_PATH = "/api/images";
+
+/**
+ * 원본 사진이 없을 때 사용하는 로컬 플레이스홀더
+ */
+export const PET_PLACEHOLDER_IMAGE = "/placeholder-pet.svg";
+
+/**
+ * 프록시 허용 호스트의 원본 URL인지 확인
+ * @param {string} sourceUrl 원본 URL
+ */
+export function isProxiableImageUrl(sourceUrl: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(sourceUrl);
+    return (
+      (protocol === "http:" || protocol === "https:") &&
+      (IMAGE_PROXY_SETTINGS.ALLOWED_HOSTS as readonly string[]).includes(hostname)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 프록시 URL 생성 (허용되지 않은 원본은 그대로 반환)
+ * @param {string} sourceUrl 원본 URL
+ * @param {ImageVariant} variant 크기 변형
+ */
+export function buildImageProxyUrl(
+  sourceUrl: string,
+  variant: ImageVariant
+): string {
+  if (!isProxiableImageUrl(sourceUrl)) return sourceUrl;
+  return `${IMAGE_PROXY_PATH}?${new URLSearchParams({ url: sourceUrl, variant })}`;
+}
+
+/**
+ * 원본 URL로 크기별 이미지 정보 생성
+ * @param {object} params
+ * @param {string} params.id 이미지 ID
+ * @param {string} params.sourceUrl 원본 URL
+ * @param {string} params.alt 대체 텍스트
+ * @param {boolean} params.isMain 대표 이미지 여부
+ * @param {ImageMetadata} params.metadata 프록시가 변환해 둔 원본 정보
+ */
+export function createProxiedImageInfo({
+  id,
+  sourceUrl,
+  alt,
+  isMain,
+  metadata,
+}: {
+  id: string;
+  sourceUrl: string;
+  alt: string;
+  isMain: boolean;
+  metadata?: ImageMetadata;
+}): ImageInfo {
+  const variants: Record<ImageVariant, string> = {
+    thumb: buildImageProxyUrl(sourceUrl, "thumb"),
+    card: buildImageProxyUrl(sourceUrl, "card"),
+    full: buildImageProxyUrl(sourceUrl, "full"),
+  };
+
+  return {
+    id,
+    url: variants.full,
+    alt,
+    isMain,
+    sourceUrl,
+    variants,
+    ...(metadata && {
+      width: metadata.width,
+      height: metadata.height,
+      blurDataURL: metadata.blurDataURL,
+    }),
+  };
+}
+
+/**
+ * 이미지 목록에 프록시 변환 정보 반영 (원본 URL 기준)
+ * @param {ImageInfo[]} images 이미지 목록
+ * @param {Record<string, ImageMetadata>} metadata 원본 URL별 변환 정보
+ */
+export function applyImageMetadata(
+  images: ImageInfo[],
+  metadata: Record<string, ImageMetadata>
+): ImageInfo[] {
+  return images.map((image) => {
+    const matched = image.sourceUrl ? metadata[image.sourceUrl] : undefined;
+    return matched
+      ? {
+          ...image,
+          width: matched.width,
+          height: matched.height,
+          blurDataURL: matched.blurDataURL,
+        }
+      : image;
+  });
+}
@@ -0,0 +1,645 @@
+/**
+ * 입양 매칭 점수 엔진
+ *
+ * 사용자 생활 환경(UserProfile)과 선호도(UserPreferences)를 Pet과 비교하여
+ * 항목별(생활 환경/양육 경험/거리/선호 조건) 점수와 근거를 계산합니다.
+ * 비교할 정보가 없는 항목은 중립 점수를 받고 종합 점수 가중치에서 제외됩니다.
+ */
+
+import type { Location } from "@/types/common";
+import type { PersonalityTrait, Pet, PetAgeGroup, PetSize, PetSpecies } from "@/types/pet";
+import type {
+  AdvancedSearchFilters,
+  MatchExplanation,
+  MatchFactor,
+  MatchScore,
+} from "@/types/search";
+import type {
+  ActivityLevel,
+  ExperienceLevel,
+  LivingSpace,
+  UserPreferences,
+  UserProfile,
+} from "@/types/user";
+import {
+  DEFAULT_MATCH_WEIGHTS,
+  MATCH_SCORE_SETTINGS,
+  PET_MONTHLY_COST_ESTIMATES,
+  PET_SIZE_LABELS,
+} from "@/utils/constants";
+
+/**
+ * 매칭 비교용 사용자 정보 (프로필/선호도/검색 필터에서 생성)
+ */
+export interface MatchProfile {
+  livingSpace?: LivingSpace;
+  hasYard?: boolean;
+  hasChildren?: boolean;
+  hasOtherPets?: boolean;
+  experience?: ExperienceLevel;
+  activityLevel?: ActivityLevel;
+  timeAvailable?: ActivityLevel;
+  budget?: {
+    monthly?: number;
+    initial?: number;
+  };
+  location?: Location;
+  searchRadius?: number; // km
+  preferredSpecies?: PetSpecies[];
+  preferredSizes?: PetSize[];
+  preferredAgeGroups?: PetAgeGroup[];
+  preferredPersonalities?: PersonalityTrait[];
+  maxAdoptionFee?: number;
+  requirements?: Partial<UserPreferences["requirements"]>;
+}
+
+/**
+ * 항목별 가중치
+ */
+export type MatchWeights = Record<MatchFactor, number>;
+
+/**
+ * 항목 점수 (score가 null이면 비교할 정보 없음)
+ */
+export interface FactorScore {
+  score: number | null;
+  explanations: MatchExplanation[];
+}
+
+/**
+ * 점수 계산 옵션
+ */
+export interface MatchScoreOptions {
+  weights?: Partial<MatchWeights>;
+  /** 사용자 위치와의 거리 (km, 미리 계산된 경우) */
+  distanceKm?: number;
+}
+
+/**
+ * 개별 비교 결과
+ */
+interface MatchCheck {
+  score: number;
+  message: string;
+}
+
+const ACTIVITY_RANK: Record<ActivityLevel, number> = { low: 0, medium: 1, high: 2 };
+
+const EXPERIENCE_RANK: Record<ExperienceLevel, number> = {
+  none: 0,
+  beginner: 1,
+  intermediate: 2,
+  experienced: 3,
+};
+
+const LIVING_SPACE_SIZE_SCORES: Record<LivingSpace, Record<PetSize, number>> = {
+  apartment: {
+    "extra-small": 100,
+    small: 95,
+    medium: 70,
+    large: 40,
+    "extra-large": 25,
+  },
+  house: {
+    "extra-small": 95,
+    small: 100,
+    medium: 100,
+    large: 90,
+    "extra-large": 80,
+  },
+  farm: {
+    "extra-small": 80,
+    small: 85,
+    medium: 95,
+    large: 100,
+    "extra-large": 100,
+  },
+  other: {
+    "extra-small": 90,
+    small: 85,
+    medium: 70,
+    large: 55,
+    "extra-large": 45,
+  },
+};
+
+const HIGH_ENERGY_TRAITS: PersonalityTrait[] = ["energetic", "playful"];
+const LOW_ENERGY_TRAITS: PersonalityTrait[] = ["calm", "gentle"];
+const CHILD_FRIENDLY_TRAITS: PersonalityTrait[] = ["gentle", "friendly", "affectionate"];
+const CAUTIOUS_TRAITS: PersonalityTrait[] = ["shy", "protective"];
+
+/**
+ * 비교 결과들을 항목 점수로 합산 (비교 결과가 없으면 null)
+ */
+function toFactorScore(factor: MatchFactor, checks: MatchCheck[]): FactorScore {
+  if (checks.length === 0) {
+    return { score: null, explanations: [] };
+  }
+
+  const score = Math.round(
+    checks.reduce((sum, check) => sum + check.score, 0) / checks.length
+  );
+  return {
+    score,
+    explanations: checks.map((check) => ({
+      factor,
+      impact: check.score >= 75 ? "positive" : check.score < 50 ? "negative" : "neutral",
+      message: check.message,
+    })),
+  };
+}
+
+/**
+ * 두 수준의 차이를 점수로 변환 (같으면 100, 한 단계 65, 두 단계 이상 30)
+ */
+function levelGapScore(gap: number): number {
+  const distance = Math.abs(gap);
+  return distance === 0 ? 100 : distance === 1 ? 65 : 30;
+}
+
+/**
+ * 반려동물 활동량 추정 (성격 → 연령 → 품종 운동량 순)
+ * @param {Pet} pet 반려동물
+ */
+export function estimatePetEnergy(pet: Pet): ActivityLevel | null {
+  if (pet.personality.some((trait) => HIGH_ENERGY_TRAITS.includes(trait))) return "high";
+  if (pet.personality.some((trait) => LOW_ENERGY_TRAITS.includes(trait))) return "low";
+  if (pet.age.ageGroup === "puppy") return "high";
+  if (pet.age.ageGroup === "senior") return "low";
+  return pet.breed?.exerciseNeeds ?? null;
+}
+
+/**
+ * 반려동물 돌봄 필요 시간 추정 (어린 개체/특별 관리는 높음)
+ * @param {Pet} pet 반려동물
+ */
+function estimateCareTime(pet: Pet): ActivityLevel | null {
+  if (pet.age.ageGroup === "puppy") return "high";
+  if (pet.healthStatus === "special-care") return "high";
+  return pet.breed?.careLevel ?? null;
+}
+
+/**
+ * 건강상 추가 관리가 필요한지 여부
+ */
+function needsHealthCare(pet: Pet): boolean {
+  return (
+    pet.healthStatus === "needs-attention" ||
+    pet.healthStatus === "special-care" ||
+    (pet.specialNeeds?.length ?? 0) > 0
+  );
+}
+
+/**
+ * 월 예상 양육비 (고양이는 같은 크기의 개보다 낮게 추정)
+ * @param {Pet} pet 반려동물
+ */
+export function estimateMonthlyCost(pet: Pet): number {
+  const base = PET_MONTHLY_COST_ESTIMATES[pet.size];
+  return pet.species === "cat" ? Math.round(base * 0.8) : base;
+}
+
+/**
+ * 생활 환경 점수 (주거 형태/마당/활동량/돌봄 시간/아이·다른 동물/예산)
+ * @param {Pet} pet 반려동물
+ * @param {MatchProfile} profile 사용자 정보
+ */
+export function scoreLifestyle(pet: Pet, profile: MatchProfile): FactorScore {
+  const checks: MatchCheck[] = [];
+  const sizeLabel = PET_SIZE_LABELS[pet.size];
+
+  if (profile.livingSpace) {
+    const score =
+      pet.species === "dog"
+        ? LIVING_SPACE_SIZE_SCORES[profile.livingSpace][pet.size]
+        : profile.livingSpace === "apartment" ? 95 : 90;
+    checks.push({
+      score,
+      message:
+        score >= 75
+          ? `${sizeLabel} 아이가 지내기 좋은 주거 환경이에요.`
+          : `${sizeLabel} 아이에게는 주거 공간이 좁을 수 있어요.`,
+    });
+  }
+
+  const energy = estimatePetEnergy(pet);
+  const needsRoom =
+    pet.species === "dog" &&
+    (energy === "high" || pet.size === "large" || pet.size === "extra-large");
+  if (profile.hasYard !== undefined && needsRoom) {
+    checks.push(
+      profile.hasYard
+        ? { score: 100, message: "마당이 있어 활동량이 많은 아이가 뛰어놀기 좋아요." }
+        : { score: 55, message: "마당이 없다면 매일 충분한 산책이 필요해요." }
+    );
+  }
+
+  if (profile.activityLevel && energy) {
+    const score = levelGapScore(ACTIVITY_RANK[profile.activityLevel] - ACTIVITY_RANK[energy]);
+    checks.push({
+      score,
+      message:
+        score === 100
+          ? "생활 활동량이 아이의 에너지와 잘 맞아요."
+          : ACTIVITY_RANK[energy] > ACTIVITY_RANK[profile.activityLevel]
+            ? "아이의 활동량이 생활 패턴보다 많은 편이에요."
+            : "아이는 생활 패턴보다 차분한 편이에요.",
+    });
+  }
+
+  const careTime = estimateCareTime(pet);
+  if (profile.timeAvailable && careTime) {
+    const gap = ACTIVITY_RANK[careTime] - ACTIVITY_RANK[profile.timeAvailable];
+    const score = gap <= 0 ? 100 : levelGapScore(gap);
+    checks.push({
+      score,
+      message:
+        gap <= 0
+          ? "돌봄에 쓸 수 있는 시간이 충분해요."
+          : "아이에게 필요한 돌봄 시간이 여유 시간보다 많아요.",
+    });
+  }
+
+  if (profile.hasChildren) {
+    if (pet.goodWith?.children === false) {
+      checks.push({ score: 20, message: "아이와 함께 지내기 어려운 성향으로 알려져 있어요." });
+    } else if (pet.personality.some((trait) => CAUTIOUS_TRAITS.includes(trait))) {
+      checks.push({ score: 55, message: "예민한 성격이라 아이와 천천히 친해져야 해요." });
+    } else if (pet.personality.some((trait) => CHILD_FRIENDLY_TRAITS.includes(trait))) {
+      checks.push({ score: 100, message: "온순한 성격이라 아이가 있는 가정과 잘 맞아요." });
+    } else if (pet.goodWith?.children === true) {
+      checks.push({ score: 85, message: "아이와 함께 지낼 수 있어요." });
+    }
+  }
+
+  // 다른 동물과의 동반 여부를 모르면 비교하지 않음
+  const goodWithOtherPets = pet.goodWith?.otherPets;
+  if (profile.hasOtherPets && goodWithOtherPets !== undefined && goodWithOtherPets !== null) {
+    checks.push(
+      goodWithOtherPets
+        ? { score: 90, message: "다른 반려동물과 함께 지낼 수 있어요." }
+        : { score: 20, message: "다른 반려동물과 함께 지내기 어려울 수 있어요." }
+    );
+  }
+
+  if (profile.budget?.monthly !== undefined && profile.budget.monthly > 0) {
+    const ratio = profile.budget.monthly / estimateMonthlyCost(pet);
+    checks.push(
+      ratio >= 1
+        ? { score: 100, message: "월 양육비 예산이 충분해요." }
+        : ratio >= 0.7
+          ? { score: 60, message: "월 양육비 예산이 다소 빠듯할 수 있어요." }
+          : { score: 25, message: "예상 월 양육비가 예산보다 많아요." }
+    );
+  }
+
+  if (profile.budget?.initial !== undefined && pet.adoptionFee !== undefined) {
+    checks.push(
+      pet.adoptionFee <= profile.budget.initial
+        ? { score: 100, message: "입양비가 초기 예산 안에 있어요." }
+        : { score: 30, message: "입양비가 초기 예산보다 많아요." }
+    );
+  }
+
+  return toFactorScore("lifestyle", checks);
+}
+
+/**
+ * 양육 경험 점수 (품종 관리 난이도/건강 관리/예민한 성격 대비 경험 수준)
+ * @param {Pet} pet 반려동물
+ * @param {MatchProfile} profile 사용자 정보
+ */
+export function scoreExperience(pet: Pet, profile: MatchProfile): FactorScore {
+  if (!profile.experience) return toFactorScore("experience", []);
+
+  const reasons: string[] = [];
+  let required = pet.breed ? ACTIVITY_RANK[pet.breed.careLevel] : 1;
+  if (pet.breed?.careLevel === "high") reasons.push("관리가 까다로운 품종");
+  if (needsHealthCare(pet)) {
+    required++;
+    reasons.push("건강 관리가 필요한 상태");
+  }
+  if (pet.personality.some((trait) => CAUTIOUS_TRAITS.includes(trait))) {
+    required++;
+    reasons.push("예민한 성격");
+  }
+  required = Math.min(required, EXPERIENCE_RANK.experienced);
+
+  const shortfall = required - EXPERIENCE_RANK[profile.experience];
+  const detail = reasons.length > 0 ? ` (${reasons.join(", ")})` : "";
+  const check: MatchCheck =
+    shortfall <= 0
+      ? { score: 100, message: `필요한 양육 경험을 갖추고 있어요${detail}.` }
+      : shortfall === 1
+        ? { score: 60, message: `조금 더 양육 경험이 있으면 좋아요${detail}.` }
+        : { score: 25, message: `반려 경험이 많은 보호자에게 추천해요${detail}.` };
+
+  return toFactorScore("experience", [check]);
+}
+
+/**
+ * 텍스트 정규화 (공백 제거)
+ */
+function normalize(text?: string | null): string {
+  return (text || "").replace(/\s+/g, "");
+}
+
+/**
+ * 거리 점수 (거리 정보가 있으면 반경 대비 거리로, 없으면 지역 이름 일치로 계산)
+ * @param {Pet} pet 반려동물
+ * @param {MatchProfile} profile 사용자 정보
+ * @param {number | undefined} distanceKm 사용자 위치와의 거리 (km)
+ */
+export function scoreLocation(
+  pet: Pet,
+  profile: MatchProfile,
+  distanceKm?: number
+): FactorScore {
+  const checks: MatchCheck[] = [];
+  const radius = profile.searchRadius ?? MATCH_SCORE_SETTINGS.DEFAULT_LOCATION_RADIUS;
+
+  if (distanceKm !== undefined) {
+    const rounded = Math.round(distanceKm * 10) / 10;
+    const score =
+      distanceKm <= radius / 2
+        ? 100
+        : distanceKm <= radius
+          ? Math.round(100 - ((distanceKm - radius / 2) / (radius / 2)) * 40)
+          : Math.max(10, Math.round(60 - ((distanceKm - radius) / radius) * 50));
+    checks.push({
+      score,
+      message:
+        distanceKm <= radius
+          ? `${rounded}km 거리로 방문하기 가까워요.`
+          : `${rounded}km 거리로 방문에 시간이 걸려요.`,
+    });
+  } else if (profile.location) {
+    const petRegion = normalize(
+      [pet.location.city, pet.location.district, pet.location.address].join(" ")
+    );
+    const city = normalize(profile.location.city);
+    const district = normalize(profile.location.district);
+
+    if (city) {
+      checks.push(
+        petRegion.includes(city)
+          ? district && petRegion.includes(district)
+            ? { score: 95, message: "같은 시군구에 있어요." }
+            : { score: 75, message: "같은 시도에 있어요." }
+          : { score: 30, message: "다른 지역에 있어요." }
+      );
+    }
+  }
+
+  return toFactorScore("location", checks);
+}
+
+/**
+ * 선호 조건 점수 (선호 축종/크기/연령대/성격/입양비와 필수 조건)
+ * @param {Pet} pet 반려동물
+ * @param {MatchProfile} profile 사용자 정보
+ */
+export function scorePreferences(pet: Pet, profile: MatchProfile): FactorScore {
+  const checks: MatchCheck[] = [];
+
+  if (profile.preferredSpecies?.length) {
+    checks.push(
+      profile.preferredSpecies.includes(pet.species)
+        ? { score: 100, message: "선호하는 동물 종류예요." }
+        : { score: 10, message: "선호하는 동물 종류가 아니에요." }
+    );
+  }
+
+  if (profile.preferredSizes?.length) {
+    checks.push(
+      profile.preferredSizes.includes(pet.size)
+        ? { score: 100, message: "선호하는 크기예요." }
+        : { score: 40, message: "선호하는 크기와 달라요." }
+    );
+  }
+
+  if (profile.preferredAgeGroups?.length) {
+    checks.push(
+      profile.preferredAgeGroups.includes(pet.age.ageGroup)
+        ? { score: 100, message: "선호하는 연령대예요." }
+        : { score: 40, message: "선호하는 연령대와 달라요." }
+    );
+  }
+
+  if (profile.preferredPersonalities?.length && pet.personality.length > 0) {
+    const matched = profile.preferredPersonalities.filter((trait) =>
+      pet.personality.includes(trait)
+    ).length;
+    const ratio = matched / profile.preferredPersonalities.length;
+    checks.push({
+      score: Math.round(40 + ratio * 60),
+      message:
+        matched > 0
+          ? `선호하는 성격 ${matched}가지를 가지고 있어요.`
+          : "선호하는 성격과는 다른 아이예요.",
+    });
+  }
+
+  if (profile.maxAdoptionFee !== undefined && pet.adoptionFee !== undefined) {
+    checks.push(
+      pet.adoptionFee <= profile.maxAdoptionFee
+        ? { score: 100, message: "희망 입양비 안에 있어요." }
+        : { score: 20, message: "희망 입양비보다 입양비가 많아요." }
+    );
+  }
+
+  const requirements = profile.requirements ?? {};
+  // 정보 없음(null)은 만족/불만족 대신 확인 필요로 표시
+  const requirementChecks: [boolean | undefined, boolean | null | undefined, string][] = [
+    [requirements.mustBeHouseTrained, pet.houseTrained, "배변 훈련"],
+    [requirements.mustBeSpayedNeutered, pet.spayedNeutered, "중성화"],
+    [requirements.mustBeVaccinated, pet.vaccinated, "예방접종"],
+    [requirements.goodWithChildren, pet.goodWith?.children, "아이와의 친화성"],
+    [requirements.goodWithOtherPets, pet.goodWith?.otherPets, "다른 동물과의 친화성"],
+    [requirements.noSpecialNeeds, !needsHealthCare(pet), "특별 관리 불필요"],
+  ];
+  requirementChecks.forEach(([required, satisfied, label]) => {
+    if (!required) return;
+    checks.push(
+      satisfied === null || satisfied === undefined
+        ? { score: 45, message: `필수 조건(${label})은 확인되지 않았어요.` }
+        : satisfied
+          ? { score: 100, message: `필수 조건(${label})을 만족해요.` }
+          : { score: 20, message: `필수 조건(${label})을 만족하지 않아요.` }
+    );
+  });
+
+  return toFactorScore("preferences", checks);
+}
+
+/**
+ * 가중치 보정 (음수/누락 값은 기본값, 합계가 0이면 기본 가중치 사용)
+ * @param {Partial<MatchWeights>} weights 사용자 지정 가중치
+ */
+export function resolveMatchWeights(weights: Partial<MatchWeights> = {}): MatchWeights {
+  const resolved: MatchWeights = {
+    lifestyle: weights.lifestyle ?? DEFAULT_MATCH_WEIGHTS.lifestyle,
+    experience: weights.experience ?? DEFAULT_MATCH_WEIGHTS.experience,
+    location: weights.location ?? DEFAULT_MATCH_WEIGHTS.location,
+    preferences: weights.preferences ?? DEFAULT_MATCH_WEIGHTS.preferences,
+  };
+  const total = Object.values(resolved).reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  return total > 0 ? resolved : { ...DEFAULT_MATCH_WEIGHTS };
+}
+
+/**
+ * 매칭 점수 계산
+ *
+ * 정보가 있는 항목만 가중 평균하여 종합 점수를 구하고,
+ * 정보가 없는 항목은 중립 점수로 표시합니다.
+ * @param {Pet} pet 반려동물
+ * @param {MatchProfile} profile 사용자 정보
+ * @param {MatchScoreOptions} options 가중치 및 거리
+ */
+export function calculateMatchScore(
+  pet: Pet,
+  profile: MatchProfile,
+  { weights, distanceKm }: MatchScoreOptions = {}
+): MatchScore {
+  const factors: Record<MatchFactor, FactorScore> = {
+    lifestyle: scoreLifestyle(pet, profile),
+    experience: scoreExperience(pet, profile),
+    location: scoreLocation(pet, profile, distanceKm),
+    preferences: scorePreferences(pet, profile),
+  };
+  const resolvedWeights = resolveMatchWeights(weights);
+
+  let weightedSum = 0;
+  let weightTotal = 0;
+  (Object.keys(factors) as MatchFactor[]).forEach((factor) => {
+    const { score } = factors[factor];
+    const weight = Math.max(0, resolvedWeights[factor]);
+    if (score === null || weight === 0) return;
+    weightedSum += score * weight;
+    weightTotal += weight;
+  });
+
+  const neutral = MATCH_SCORE_SETTINGS.NEUTRAL_SCORE;
+  return {
+    overall: weightTotal > 0 ? Math.round(weightedSum / weightTotal) : neutral,
+    lifestyle: factors.lifestyle.score ?? neutral,
+    experience: factors.experience.score ?? neutral,
+    location: factors.location.score ?? neutral,
+    preferences: factors.preferences.score ?? neutral,
+    explanations: (Object.keys(factors) as MatchFactor[]).flatMap(
+      (factor) => factors[factor].explanations
+    ),
+  };
+}
+
+/**
+ * 사용자 프로필/선호도로 매칭 정보 생성
+ * @param {UserProfile | null} profile 사용자 프로필
+ * @param {UserPreferences | null} preferences 사용자 선호도
+ */
+export function createMatchProfile(
+  profile?: UserProfile | null,
+  preferences?: UserPreferences | null
+): MatchProfile {
+  return {
+    ...(profile && {
+      livingSpace: profile.livingSpace,
+      hasYard: profile.hasYard,
+      hasChildren: profile.hasChildren,
+      hasOtherPets: profile.hasOtherPets,
+      experience: profile.petExperience,
+      activityLevel: profile.activityLevel,
+      timeAvailable: profile.timeAvailable,
+      budget: profile.budget,
+      location: profile.location,
+    }),
+    ...(preferences && {
+      searchRadius: preferences.searchRadius,
+      preferredSpecies: preferences.preferredSpecies,
+      preferredSizes: preferences.preferredSizes,
+      preferredAgeGroups: preferences.preferredAgeGroups as PetAgeGroup[],
+      preferredPersonalities: preferences.preferredPersonalities,
+      maxAdoptionFee: preferences.maxAdoptionFee,
+      requirements: preferences.requirements,
+    }),
+  };
+}
+
+/**
+ * 매칭 정보를 검색 필터(AdvancedSearchFilters.user*)로 변환 (클라이언트 → 서버 전달용)
+ * @param {MatchProfile} profile 매칭 정보
+ */
+export function matchProfileToFilters(
+  profile: MatchProfile
+): Partial<AdvancedSearchFilters> {
+  const filters: Partial<AdvancedSearchFilters> = {
+    userLivingSpace: profile.livingSpace,
+    userHasYard: profile.hasYard,
+    userHasChildren: profile.hasChildren,
+    userHasOtherPets: profile.hasOtherPets,
+    userExperience: profile.experience,
+    userActivityLevel: profile.activityLevel,
+    userTimeCommitment: profile.timeAvailable,
+    userBudgetMonthly: profile.budget?.monthly,
+    userBudgetInitial: profile.budget?.initial,
+    userPreferredSpecies: profile.preferredSpecies,
+    userPreferredSizes: profile.preferredSizes,
+    userPreferredAgeGroups: profile.preferredAgeGroups,
+    userPreferredPersonalities: profile.preferredPersonalities,
+    userRequirements: profile.requirements,
+  };
+
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as Partial<AdvancedSearchFilters>;
+}
+
+/**
+ * 검색 필터에서 매칭 정보 추출 (사용자 정보가 하나도 없으면 null)
+ * @param {AdvancedSearchFilters} filters 검색 필터
+ */
+export function matchProfileFromFilters(
+  filters: AdvancedSearchFilters
+): MatchProfile | null {
+  const profile: MatchProfile = {
+    livingSpace: filters.userLivingSpace,
+    hasYard: filters.userHasYard,
+    hasChildren: filters.userHasChildren,
+    hasOtherPets: filters.userHasOtherPets,
+    experience: filters.userExperience,
+    activityLevel: filters.userActivityLevel,
+    timeAvailable: filters.userTimeCommitment,
+    ...((filters.userBudgetMonthly !== undefined ||
+      filters.userBudgetInitial !== undefined) && {
+      budget: {
+        monthly: filters.userBudgetMonthly,
+        initial: filters.userBudgetInitial,
+      },
+    }),
+    preferredSpecies: filters.userPreferredSpecies,
+    preferredSizes: filters.userPreferredSizes,
+    preferredAgeGroups: filters.userPreferredAgeGroups,
+    preferredPersonalities: filters.userPreferredPersonalities,
+    requirements: filters.userRequirements,
+  };
+
+  const hasUserInfo = Object.values(profile).some((value) => value !== undefined);
+  return hasUserInfo
+    ? { ...profile, location: filters.location, searchRadius: filters.radius }
+    : null;
+}
+
+/**
+ * 검색 필터의 가중치(weight*) 추출
+ * @param {AdvancedSearchFilters} filters 검색 필터
+ */
+export function matchWeightsFromFilters(
+  filters: AdvancedSearchFilters
+): Partial<MatchWeights> {
+  return {
+    ...(filters.weightLifestyle !== undefined && { lifestyle: filters.weightLifestyle }),
+    ...(filters.weightExperience !== undefined && { experience: filters.weightExperience }),
+    ...(filters.weightLocation !== undefined && { location: filters.weightLocation }),
+    ...(filters.weightPreferences !== undefined && { preferences: filters.weightPreferences }),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * 공고 마감일 계산
+ *
+ * 공공데이터 공고 기간(noticeSdt/noticeEdt, YYYYMMDD)으로 오늘(KST) 기준 남은 일수와
+ * 마감 긴급도를 계산합니다. 공고 종료일 당일은 0일(D-Day)입니다.
+ */
+
+import type { NoticeUrgency, PetNotice } from "@/types/pet";
+import { NOTICE_URGENCY_SETTINGS } from "@/utils/constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/**
+ * YYYYMMDD를 UTC 자정 타임스탬프로 변환 (형식이 잘못되면 null)
+ * @param {string} value 날짜 문자열
+ */
+function parseCompactDate(value?: string): number | null {
+  if (!value || !/^\d{8}$/.test(value)) return null;
+  const timestamp = Date.UTC(
+    Number(value.slice(0, 4)),
+    Number(value.slice(4, 6)) - 1,
+    Number(value.slice(6, 8))
+  );
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+/**
+ * YYYYMMDD를 YYYY-MM-DD로 변환
+ */
+function toIsoDate(value?: string): string | undefined {
+  return value && /^\d{8}$/.test(value)
+    ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`
+    : undefined;
+}
+
+/**
+ * 한국 시간 기준 오늘 날짜 (YYYYMMDD)
+ * @param {Date} now 기준 시각
+ */
+export function getKstDateString(now: Date = new Date()): string {
+  return new Date(now.getTime() + KST_OFFSET_MS)
+    .toISOString()
+    .slice(0, 10)
+    .replace(/-/g, "");
+}
+
+/**
+ * 한국 시간 기준 날짜에 일수를 더한 날짜 (YYYYMMDD)
+ * @param {number} days 더할 일수 (음수면 과거)
+ * @param {Date} now 기준 시각
+ */
+export function addKstDays(days: number, now: Date = new Date()): string {
+  return getKstDateString(new Date(now.getTime() + days * DAY_MS));
+}
+
+/**
+ * 공고 종료일까지 남은 일수 (오늘 마감이면 0, 지났으면 음수)
+ * @param {string} noticeEdt 공고 종료일 (YYYYMMDD)
+ * @param {Date} now 기준 시각
+ */
+export function calculateNoticeDaysRemaining(
+  noticeEdt?: string,
+  now: Date = new Date()
+): number | null {
+  const end = parseCompactDate(noticeEdt);
+  const today = parseCompactDate(getKstDateString(now));
+  if (end === null || today === null) return null;
+  return Math.round((end - today) / DAY_MS);
+}
+
+/**
+ * 남은 일수로 마감 긴급도 판단
+ * @param {number | null} daysRemaining 남은 일수
+ */
+export function resolveNoticeUrgency(daysRemaining: number | null): NoticeUrgency {
+  if (daysRemaining === null) return "unknown";
+  if (daysRemaining < 0) return "ended";
+  if (daysRemaining <= NOTICE_URGENCY_SETTINGS.CRITICAL_DAYS) return "critical";
+  if (daysRemaining <= NOTICE_URGENCY_SETTINGS.SOON_DAYS) return "soon";
+  return "normal";
+}
+
+/**
+ * 공고 기간 정보 생성
+ * @param {object} notice 공공데이터 공고 정보
+ * @param {string} notice.noticeNo 공고번호
+ * @param {string} notice.noticeSdt 공고 시작일 (YYYYMMDD)
+ * @param {string} notice.noticeEdt 공고 종료일 (YYYYMMDD)
+ * @param {Date} now 기준 시각
+ */
+export function createPetNotice(
+  {
+    noticeNo,
+    noticeSdt,
+    noticeEdt,
+  }: { noticeNo?: string; noticeSdt?: string; noticeEdt?: string },
+  now: Date = new Date()
+): PetNotice {
+  const daysRemaining = calculateNoticeDaysRemaining(noticeEdt, now);
+  return {
+    ...(noticeNo && { noticeNo }),
+    startDate: toIsoDate(noticeSdt),
+    endDate: toIsoDate(noticeEdt),
+    daysRemaining,
+    urgency: resolveNoticeUrgency(daysRemaining),
+  };
+}
+
+/**
+ * 남은 일수 표시 ("D-3", "D-Day", "공고 종료")
+ * @param {PetNotice} notice 공고 기간 정보
+ */
+export function formatNoticeDeadline(notice?: PetNotice): string | null {
+  if (!notice || notice.daysRemaining === null) return null;
+  if (notice.daysRemaining < 0) return "공고 종료";
+  return notice.daysRemaining === 0 ? "D-Day" : `D-${notice.daysRemaining}`;
+}
@@ -0,0 +1,85 @@
+/**
+ * 역할별 권한 확인
+ *
+ * ROLE_PERMISSIONS 표와 경로별 필요 권한을 클라이언트(인증 스토어, RequirePermission)와
+ * 서버(middleware, Route Handler)가 같은 기준으로 해석합니다.
+ */
+
+import type { Permission, RoutePermissionRule, UserRole } from "@/types/user";
+import { ROLE_PERMISSIONS } from "@/utils/constants/app";
+
+/**
+ * 역할에 부여된 권한 목록
+ * @param {UserRole | null} role 사용자 역할 (로그인하지 않았으면 null)
+ */
+export function getRolePermissions(role: UserRole | null): Permission[] {
+  return role ? [...ROLE_PERMISSIONS[role]] : [];
+}
+
+/**
+ * 역할에 권한이 있는지
+ * @param {UserRole | null} role 사용자 역할 (로그인하지 않았으면 null)
+ * @param {Permission} permission 확인할 권한
+ */
+export function hasRolePermission(
+  role: UserRole | null,
+  permission: Permission
+): boolean {
+  return role ? ROLE_PERMISSIONS[role].includes(permission) : false;
+}
+
+/**
+ * 경로가 규칙 경로와 일치하는지 (규칙 경로의 모든 단계가 앞부분과 일치)
+ */
+function matchesRulePath(pathSegments: string[], rulePath: string): boolean {
+  const ruleSegments = rulePath.split("/").filter(Boolean);
+  if (ruleSegments.length > pathSegments.length) return false;
+
+  return ruleSegments.every(
+    (segment, index) => segment === "*" || segment === pathSegments[index]
+  );
+}
+
+/**
+ * 경로에 필요한 권한 조회
+ *
+ * 일치하는 규칙이 여러 개면 가장 구체적인(경로 단계가 많은) 규칙을 사용하고,
+ * 일치하는 규칙이 없으면 null(공개 경로)을 반환합니다.
+ * @param {readonly RoutePermissionRule[]} rules 경로별 필요 권한
+ * @param {string} pathname 요청 경로
+ * @param {string} method HTTP 메서드
+ */
+export function findRoutePermission(
+  rules: readonly RoutePermissionRule[],
+  pathname: string,
+  method = "GET"
+): Permission | null {
+  const pathSegments = pathname.split("/").filter(Boolean);
+  let matched: RoutePermissionRule | null = null;
+  let matchedDepth = -1;
+
+  for (const rule of rules) {
+    if (rule.methods && !rule.methods.includes(method.toUpperCase())) continue;
+    if (!matchesRulePath(pathSegments, rule.path)) continue;
+
+    const depth = rule.path.split("/").filter(Boolean).length;
+    if (depth > matchedDepth) {
+      matched = rule;
+      matchedDepth = depth;
+    }
+  }
+
+  return matched?.permission ?? null;
+}
+
+/**
+ * 로그인 후 돌아갈 경로 확인 (같은 사이트의 절대 경로만 허용)
+ * @param {string | null} path 쿼리 파라미터로 받은 경로
+ * @param {string} fallback 허용되지 않는 경로일 때 사용할 경로
+ */
+export function resolveRedirectPath(path: string | null, fallback: string): string {
+  if (!path || !path.startsWith("/") || path.startsWith("//") || path.startsWith("/\\")) {
+    return fallback;
+  }
+  return path;
+}
@@ -0,0 +1,51 @@
+/**
+ * 로그인 세션 인증 API 요청
+ *
+ * 로그인 세션의 액세스 토큰을 Authorization 헤더로 보내 내부 API를 호출합니다.
+ * 입양 신청, 보호소 업무 공간, 관리자 콘솔 API 클라이언트가 함께 사용합니다.
+ */
+
+import type { ApiResponse } from "@/types/api";
+import { API_BASE_URL, HTTP_HEADERS } from "@/utils/constants/api";
+import { supabase } from "@/lib/supabase";
+import { AuthenticationError, apiErrorFromResponse } from "./api-errors";
+
+/**
+ * 로그인 사용자 인증 API 요청
+ *
+ * 로그인 세션이 없으면 요청하지 않고 AuthenticationError를 던집니다.
+ * @param {string} endpoint API_ENDPOINTS 경로
+ * @param {RequestInit} init 요청 설정
+ * @param {string} fallbackMessage 응답에 오류 메시지가 없을 때 사용할 메시지
+ */
+export async function fetchWithSession<T>(
+  endpoint: string,
+  init: RequestInit = {},
+  fallbackMessage = "요청에 실패했습니다."
+): Promise<T> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) throw new AuthenticationError();
+
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    ...init,
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+      [HTTP_HEADERS.AUTHORIZATION]: `Bearer ${session.access_token}`,
+      ...init.headers,
+    },
+  });
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok || !data?.success) {
+    throw apiErrorFromResponse(
+      data,
+      response.ok ? 500 : response.status,
+      fallbackMessage
+    );
+  }
+
+  return (data as ApiResponse<T>).data as T;
+}
@@ -0,0 +1,85 @@
+/**
+ * 보호소 동물 구분 및 통계
+ *
+ * 공공데이터 처리 상태(processState)와 공고 종료일로 보호소 동물을
+ * 공고중/보호중/보호 종료로 나누고, 입소/종료 건수를 집계합니다.
+ */
+
+import type {
+  AbandonmentAnimalItem,
+  ShelterAnimalGroup,
+  ShelterOutcomeCounts,
+  ShelterStats,
+} from "@/types/api";
+import { addKstDays, calculateNoticeDaysRemaining } from "./notice-deadline";
+
+/**
+ * 보호소 동물 구분
+ *
+ * 처리 상태가 "보호중"이 아니면 보호 종료로, 보호중이면 공고 종료일이 지났는지로 구분합니다.
+ * @param {AbandonmentAnimalItem} animal 유기동물 레코드
+ * @param {Date} now 기준 시각
+ */
+export function classifyShelterAnimal(
+  animal: AbandonmentAnimalItem,
+  now: Date = new Date()
+): ShelterAnimalGroup {
+  if (!(animal.processState || "").includes("보호")) return "ended";
+
+  const daysRemaining = calculateNoticeDaysRemaining(animal.noticeEdt, now);
+  return daysRemaining !== null && daysRemaining < 0 ? "protect" : "notice";
+}
+
+/**
+ * 보호 종료 사유 구분 (예: "종료(입양)" → adopted)
+ * @param {string} processState 처리 상태
+ */
+export function classifyShelterOutcome(
+  processState: string
+): keyof ShelterOutcomeCounts {
+  if (processState.includes("입양")) return "adopted";
+  if (processState.includes("반환")) return "returned";
+  if (processState.includes("안락사")) return "euthanized";
+  if (processState.includes("자연사")) return "naturalDeath";
+  return "other";
+}
+
+/**
+ * 보호소 입소/종료 통계 집계
+ * @param {AbandonmentAnimalItem[]} animals 집계 기간 내 접수된 유기동물 레코드
+ * @param {number} periodDays 집계 기간 (오늘 기준 과거 일수)
+ * @param {Date} now 기준 시각
+ */
+export function summarizeShelterAnimals(
+  animals: AbandonmentAnimalItem[],
+  periodDays: number,
+  now: Date = new Date()
+): ShelterStats {
+  const since7Days = addKstDays(-7, now);
+  const since30Days = addKstDays(-30, now);
+  const stats: ShelterStats = {
+    periodDays,
+    intake: { last7Days: 0, last30Days: 0, total: animals.length },
+    inCare: 0,
+    outcomes: {
+      adopted: 0,
+      returned: 0,
+      euthanized: 0,
+      naturalDeath: 0,
+      other: 0,
+    },
+  };
+
+  animals.forEach((animal) => {
+    if (animal.happenDt > since7Days) stats.intake.last7Days++;
+    if (animal.happenDt > since30Days) stats.intake.last30Days++;
+
+    if (classifyShelterAnimal(animal, now) === "ended") {
+      stats.outcomes[classifyShelterOutcome(animal.processState || "")]++;
+    } else {
+      stats.inCare++;
+    }
+  });
+
+  return stats;
+}
@@ -0,0 +1,180 @@
+/**
+ * 반려동물 유사도 계산
+ *
+ * 기준 동물과 다른 동물을 축종/품종/크기/나이대/털색/성별/지역별로 비교하여
+ * 0~1 항목 유사도와 가중 평균 종합 점수(0~100)를 계산합니다.
+ * 비교할 정보가 없는 항목(털색 미상, 성별 미상 등)은 종합 점수 가중치에서 제외됩니다.
+ */
+
+import type { Pet, PetAgeGroup, PetSize } from "@/types/pet";
+import type { SimilarPet, SimilarityFactor, SimilarityScore } from "@/types/search";
+import {
+  DEFAULT_SIMILARITY_WEIGHTS,
+  SIMILAR_PETS_SETTINGS,
+} from "@/utils/constants";
+import { normalizeBreedName } from "./breed-catalog";
+
+/**
+ * 항목별 가중치
+ */
+export type SimilarityWeights = Record<SimilarityFactor, number>;
+
+/**
+ * 순위 계산 옵션
+ */
+export interface RankSimilarPetsOptions {
+  weights?: Partial<SimilarityWeights>;
+  limit?: number;
+  minScore?: number;
+}
+
+const SIZE_ORDER: PetSize[] = [
+  "extra-small",
+  "small",
+  "medium",
+  "large",
+  "extra-large",
+];
+
+const AGE_GROUP_ORDER: PetAgeGroup[] = ["puppy", "young", "adult", "senior"];
+
+/**
+ * 순서형 값 유사도 (같으면 1, 양 끝이면 0)
+ */
+function ordinalSimilarity<T>(order: T[], a: T, b: T): number | null {
+  const indexA = order.indexOf(a);
+  const indexB = order.indexOf(b);
+  if (indexA < 0 || indexB < 0) return null;
+  return 1 - Math.abs(indexA - indexB) / (order.length - 1);
+}
+
+/**
+ * 품종 유사도 (같은 품종 코드/이름이면 1)
+ */
+function scoreBreed(base: Pet, other: Pet): number | null {
+  if (!base.breed || !other.breed) return null;
+  if (base.breed.id === other.breed.id) return 1;
+  return normalizeBreedName(base.breed.name) === normalizeBreedName(other.breed.name)
+    ? 1
+    : 0;
+}
+
+/**
+ * 털색 유사도 (미상을 제외한 색상 집합의 자카드 계수)
+ */
+function scoreColor(base: Pet, other: Pet): number | null {
+  const known = (colors: string[]) =>
+    new Set(colors.filter((color) => color && color !== "미상"));
+  const baseColors = known(base.color);
+  const otherColors = known(other.color);
+  if (baseColors.size === 0 || otherColors.size === 0) return null;
+
+  const shared = [...baseColors].filter((color) => otherColors.has(color)).length;
+  return shared / (baseColors.size + otherColors.size - shared);
+}
+
+/**
+ * 성별 유사도 (어느 한쪽이라도 미상이면 비교하지 않음)
+ */
+function scoreGender(base: Pet, other: Pet): number | null {
+  if (base.gender === "unknown" || other.gender === "unknown") return null;
+  return base.gender === other.gender ? 1 : 0;
+}
+
+/**
+ * 지역 유사도 (같은 관할 기관이면 1, 같은 시/도면 0.5)
+ */
+function scoreRegion(base: Pet, other: Pet): number | null {
+  const baseCity = base.location.city?.trim();
+  const otherCity = other.location.city?.trim();
+  if (!baseCity || !otherCity) return null;
+  if (baseCity === otherCity) return 1;
+  return baseCity.split(/\s+/)[0] === otherCity.split(/\s+/)[0] ? 0.5 : 0;
+}
+
+/**
+ * 가중치 보정 (누락 값은 기본값, 합계가 0이면 기본 가중치 사용)
+ * @param {Partial<SimilarityWeights>} weights 사용자 지정 가중치
+ */
+export function resolveSimilarityWeights(
+  weights: Partial<SimilarityWeights> = {}
+): SimilarityWeights {
+  const resolved = { ...DEFAULT_SIMILARITY_WEIGHTS, ...weights };
+  const total = Object.values(resolved).reduce(
+    (sum, weight) => sum + Math.max(0, weight),
+    0
+  );
+  return total > 0 ? resolved : { ...DEFAULT_SIMILARITY_WEIGHTS };
+}
+
+/**
+ * 두 반려동물의 유사도 계산
+ * @param {Pet} base 기준 동물
+ * @param {Pet} other 비교 동물
+ * @param {Partial<SimilarityWeights>} weights 항목별 가중치
+ */
+export function calculateSimilarity(
+  base: Pet,
+  other: Pet,
+  weights: Partial<SimilarityWeights> = {}
+): SimilarityScore {
+  const factors: Record<SimilarityFactor, number | null> = {
+    species: base.species === other.species ? 1 : 0,
+    breed: scoreBreed(base, other),
+    size: ordinalSimilarity(SIZE_ORDER, base.size, other.size),
+    ageGroup: ordinalSimilarity(AGE_GROUP_ORDER, base.age.ageGroup, other.age.ageGroup),
+    color: scoreColor(base, other),
+    gender: scoreGender(base, other),
+    region: scoreRegion(base, other),
+  };
+  const resolvedWeights = resolveSimilarityWeights(weights);
+
+  let weightedSum = 0;
+  let weightTotal = 0;
+  (Object.keys(factors) as SimilarityFactor[]).forEach((factor) => {
+    const score = factors[factor];
+    const weight = Math.max(0, resolvedWeights[factor]);
+    if (score === null || weight === 0) return;
+    weightedSum += score * weight;
+    weightTotal += weight;
+  });
+
+  return {
+    overall: weightTotal > 0 ? Math.round((weightedSum / weightTotal) * 100) : 0,
+    factors,
+    matchedFactors: (Object.keys(factors) as SimilarityFactor[]).filter(
+      (factor) =>
+        resolvedWeights[factor] > 0 &&
+        (factors[factor] ?? 0) >= SIMILAR_PETS_SETTINGS.MATCHED_FACTOR_THRESHOLD
+    ),
+  };
+}
+
+/**
+ * 후보 동물을 기준 동물과의 유사도 순으로 정렬
+ *
+ * 기준 동물 자신과 minScore 미만인 후보는 제외하고, 동점이면 id 역순(최근 공고 우선)으로 정렬합니다.
+ * @param {Pet} base 기준 동물
+ * @param {Pet[]} candidates 후보 동물 목록
+ * @param {RankSimilarPetsOptions} options 가중치/개수/최소 점수
+ */
+export function rankSimilarPets(
+  base: Pet,
+  candidates: Pet[],
+  {
+    weights,
+    limit = SIMILAR_PETS_SETTINGS.DEFAULT_LIMIT,
+    minScore = SIMILAR_PETS_SETTINGS.MIN_SCORE,
+  }: RankSimilarPetsOptions = {}
+): SimilarPet[] {
+  return candidates
+    .filter((pet) => pet.id !== base.id)
+    .map((pet) => ({ pet, similarity: calculateSimilarity(base, pet, weights) }))
+    .filter(({ similarity }) => similarity.overall >= minScore)
+    .sort(
+      (a, b) =>
+        b.similarity.overall - a.similarity.overall ||
+        b.pet.id.localeCompare(a.pet.id)
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,343 @@
+/**
+ * 보호소 특징 텍스트 추출기
+ *
+ * 공공데이터 특징(specialMark)과 기타 사항(etcBigo)의 한국어 자유 텍스트를
+ * 규칙 기반으로 분석하여 성격/건강 상태/특별 관리/동반 가능 여부를 신뢰도와 함께 추출합니다.
+ * 근거 문구가 없는 값은 기본값으로 채우지 않고 unknown으로 보고합니다.
+ */
+
+import type {
+  ExtractedAttribute,
+  HealthStatus,
+  PersonalityTrait,
+  PetTextInsights,
+} from "@/types/pet";
+
+/**
+ * 성격 규칙
+ */
+interface PersonalityRule {
+  pattern: RegExp;
+  trait: PersonalityTrait;
+  confidence: number;
+}
+
+/**
+ * 건강 규칙 (need가 있으면 특별 관리 항목으로도 추가)
+ */
+interface HealthRule {
+  pattern: RegExp;
+  status: Exclude<HealthStatus, "unknown">;
+  need?: string;
+  confidence: number;
+}
+
+/**
+ * 참/거짓 규칙 (value가 false인 규칙을 먼저 평가)
+ */
+interface BooleanRule<K extends string> {
+  pattern: RegExp;
+  key: K;
+  value: boolean;
+  confidence: number;
+}
+
+type GoodWithKey = keyof PetTextInsights["goodWith"];
+type CareKey = "houseTrained" | "vaccinated" | "microchipped";
+
+/**
+ * 성격으로 포함할 최소 신뢰도
+ */
+export const PERSONALITY_MIN_CONFIDENCE = 0.5;
+
+const PERSONALITY_RULES: PersonalityRule[] = [
+  { pattern: /사람.{0,4}(잘\s*)?따[름르라]/, trait: "friendly", confidence: 0.8 },
+  { pattern: /사람.{0,3}좋아|친화력|사람\s*친화/, trait: "friendly", confidence: 0.75 },
+  { pattern: /착함|착하/, trait: "friendly", confidence: 0.6 },
+  { pattern: /애교|스킨십|안기는|안아\s*달|무릎/, trait: "affectionate", confidence: 0.8 },
+  { pattern: /장난\s*(꾸러기|많|치)|놀이\s*좋|공놀이|놀기\s*좋/, trait: "playful", confidence: 0.75 },
+  { pattern: /활발|에너지|활동량\s*많|힘이\s*(넘|좋|셈)/, trait: "energetic", confidence: 0.75 },
+  { pattern: /얌전|차분|조용|점잖|느긋/, trait: "calm", confidence: 0.75 },
+  { pattern: /온순|순둥|순함|순한|온화/, trait: "gentle", confidence: 0.8 },
+  { pattern: /겁.{0,2}많|소심|낯.{0,2}가림|낯가림|겁먹|겁을\s*먹/, trait: "shy", confidence: 0.8 },
+  { pattern: /경계심|경계\s*(함|심함|많)|예민/, trait: "shy", confidence: 0.7 },
+  { pattern: /입질|공격성|으르렁|물려고|무는|짖음\s*(심|많)/, trait: "protective", confidence: 0.6 },
+  { pattern: /독립적|혼자서도\s*잘|혼자\s*잘\s*(있|놀)/, trait: "independent", confidence: 0.7 },
+  { pattern: /사회성\s*(좋|있|높)|다른\s*(개|강아지|고양이|동물).{0,6}(잘\s*어울|친화)/, trait: "social", confidence: 0.75 },
+];
+
+const HEALTH_RULES: HealthRule[] = [
+  { pattern: /다리.{0,3}(절|저는)|절뚝|파행/, status: "special-care", need: "보행 장애", confidence: 0.85 },
+  { pattern: /골절/, status: "special-care", need: "골절 치료", confidence: 0.85 },
+  { pattern: /마비|기립\s*불가|보행\s*(불가|어려)/, status: "special-care", need: "마비/보행 불가", confidence: 0.85 },
+  { pattern: /실명|시력\s*(상실|없|저하)|안구\s*(적출|손상)|한쪽\s*눈/, status: "special-care", need: "시력 장애", confidence: 0.8 },
+  { pattern: /청력\s*(상실|없|저하)|귀가?\s*안\s*들/, status: "special-care", need: "청력 장애", confidence: 0.8 },
+  { pattern: /심장사상충/, status: "special-care", need: "심장사상충 치료", confidence: 0.9 },
+  { pattern: /파보|디스템퍼|홍역|범백|복막염/, status: "special-care", need: "전염병 치료", confidence: 0.9 },
+  { pattern: /종양|암\s*(의심|진단)|혹\s*있/, status: "special-care", need: "종양 관리", confidence: 0.8 },
+  { pattern: /당뇨|신부전|심장\s*(병|질환)|간\s*수치/, status: "special-care", need: "만성 질환 관리", confidence: 0.85 },
+  { pattern: /외상|열상|교상|출혈/, status: "special-care", need: "외상 치료", confidence: 0.75 },
+  { pattern: /피부병|피부염|피부\s*질환|탈모|곰팡이|개선충|옴\s*(감염|진드기)|각질/, status: "needs-attention", need: "피부 질환 치료", confidence: 0.8 },
+  { pattern: /외이염|귀\s*염증|귓병|귀\s*진드기/, status: "needs-attention", need: "귀 질환 치료", confidence: 0.8 },
+  { pattern: /결막염|눈물\s*많|안구\s*건조|백내장|눈곱/, status: "needs-attention", need: "안과 관리", confidence: 0.75 },
+  { pattern: /슬개골|탈구/, status: "needs-attention", need: "슬개골 관리", confidence: 0.8 },
+  { pattern: /설사|구토|혈변/, status: "needs-attention", need: "소화기 관리", confidence: 0.7 },
+  { pattern: /기침|콧물|허피스|호흡기|재채기/, status: "needs-attention", need: "호흡기 관리", confidence: 0.75 },
+  { pattern: /영양\s*(결핍|불량|실조)|저체중|많이\s*마름|앙상/, status: "needs-attention", need: "영양 관리", confidence: 0.75 },
+  { pattern: /진드기|벼룩|기생충/, status: "needs-attention", need: "기생충 치료", confidence: 0.7 },
+  { pattern: /치석|치아\s*(불량|상태\s*나쁨)|잇몸/, status: "needs-attention", need: "치아 관리", confidence: 0.6 },
+  { pattern: /상처|염증/, status: "needs-attention", need: "상처 치료", confidence: 0.6 },
+  { pattern: /건강\s*(양호|함|상태\s*(좋|양호))|건강함|건강해/, status: "good", confidence: 0.7 },
+];
+
+const GOOD_WITH_RULES: BooleanRule<GoodWithKey>[] = [
+  { pattern: /(아이들|어린이|아기|유아|아이(와|랑|하고|를)).{0,6}(싫어|무서워|경계|공격|짖)/, key: "children", value: false, confidence: 0.8 },
+  { pattern: /(아이들|어린이|아기|유아|아이(와|랑|하고|를)).{0,6}(잘\s*지|좋아|친화|순함)/, key: "children", value: true, confidence: 0.8 },
+  { pattern: /다른\s*(개|강아지).{0,6}(공격|싫어|경계|짖|싸움|예민)|(개|강아지)\s*공격성/, key: "dogs", value: false, confidence: 0.8 },
+  { pattern: /다른\s*(개|강아지).{0,6}(잘\s*지|친화|어울|좋아)/, key: "dogs", value: true, confidence: 0.8 },
+  { pattern: /고양이.{0,6}(공격|싫어|경계|쫓|싸움|예민)/, key: "cats", value: false, confidence: 0.8 },
+  { pattern: /고양이.{0,6}(잘\s*지|친화|어울|좋아)/, key: "cats", value: true, confidence: 0.75 },
+  { pattern: /합사\s*(불가|어려|힘듦|안\s*됨)|다른\s*동물.{0,6}(공격|싫어|경계)/, key: "otherPets", value: false, confidence: 0.85 },
+  { pattern: /합사\s*(가능|잘|됨)|다른\s*동물.{0,6}(잘\s*지|친화|어울)/, key: "otherPets", value: true, confidence: 0.85 },
+];
+
+const CARE_RULES: BooleanRule<CareKey>[] = [
+  { pattern: /배변.{0,6}(못|안\s*가|실수|필요)/, key: "houseTrained", value: false, confidence: 0.8 },
+  { pattern: /배변.{0,6}(가림|가려|잘\s*함|잘함|완료|훈련\s*됨)/, key: "houseTrained", value: true, confidence: 0.85 },
+  { pattern: /미접종|접종\s*(안|전|필요|미)/, key: "vaccinated", value: false, confidence: 0.8 },
+  { pattern: /접종\s*(완료|함|했|됨)|종합\s*백신|광견병\s*(접종|백신)/, key: "vaccinated", value: true, confidence: 0.8 },
+  { pattern: /칩\s*(없|미)|미등록\s*(동물|칩)/, key: "microchipped", value: false, confidence: 0.8 },
+  { pattern: /내장\s*칩|마이크로\s*칩|칩\s*(있|확인|삽입)|동물\s*등록\s*(됨|완료)/, key: "microchipped", value: true, confidence: 0.85 },
+];
+
+/**
+ * 부정 표현 (일치 문구 바로 뒤에 오면 의미를 뒤집음)
+ */
+const NEGATION_PATTERN = /^.{0,6}?(없음|없고|없어|없는|없다|않음|않고|않아|않는|아님|못함|못\s)/;
+
+/**
+ * 텍스트를 절 단위로 분리 (쉼표/마침표/줄바꿈/접속 표현 기준)
+ * @param {string} text 원문
+ */
+export function splitClauses(text: string): string[] {
+  return text
+    .split(/[,.·;/\n]|\s(?:그리고|하지만|그러나)\s|(?<=[음함됨임])\s+/)
+    .map((clause) => clause.trim())
+    .filter((clause) => clause.length > 0);
+}
+
+/**
+ * 절에서 규칙 일치 검사 (부정 표현이 뒤따르면 negated)
+ */
+function matchClause(
+  clause: string,
+  pattern: RegExp
+): { evidence: string; negated: boolean } | null {
+  const match = pattern.exec(clause);
+  if (!match) return null;
+
+  const rest = clause.slice(match.index + match[0].length);
+  return { evidence: clause, negated: NEGATION_PATTERN.test(rest) };
+}
+
+/**
+ * 독립적인 근거들의 신뢰도 결합 (1 - Π(1 - c))
+ */
+function combineConfidence(current: number, next: number): number {
+  return Math.round((1 - (1 - current) * (1 - next)) * 100) / 100;
+}
+
+/**
+ * 알 수 없음 값 생성
+ */
+function unknownAttribute<T>(): ExtractedAttribute<T> {
+  return { value: "unknown", confidence: 0, evidence: [] };
+}
+
+/**
+ * 참/거짓 규칙 평가
+ *
+ * 같은 절에서 거짓 규칙이 일치하면 참 규칙은 평가하지 않고,
+ * 부정 표현이 뒤따르면 값을 뒤집습니다. 참/거짓 근거가 모두 있으면 신뢰도가 높은 쪽을 사용합니다.
+ */
+function evaluateBooleanRules<K extends string>(
+  clauses: string[],
+  rules: BooleanRule<K>[],
+  keys: readonly K[]
+): Record<K, ExtractedAttribute<boolean>> {
+  const votes = new Map<K, { yes: ExtractedAttribute<boolean>; no: ExtractedAttribute<boolean> }>();
+  keys.forEach((key) =>
+    votes.set(key, {
+      yes: { value: true, confidence: 0, evidence: [] },
+      no: { value: false, confidence: 0, evidence: [] },
+    })
+  );
+
+  clauses.forEach((clause) => {
+    const matchedKeys = new Set<K>();
+    // 거짓 규칙을 먼저 평가 ("배변 못 가림"이 "가림"으로 잘못 잡히지 않도록)
+    [...rules]
+      .sort((a, b) => Number(a.value) - Number(b.value))
+      .forEach((rule) => {
+        if (matchedKeys.has(rule.key)) return;
+        const matched = matchClause(clause, rule.pattern);
+        if (!matched) return;
+
+        matchedKeys.add(rule.key);
+        const value = matched.negated ? !rule.value : rule.value;
+        const vote = votes.get(rule.key)!;
+        const target = value ? vote.yes : vote.no;
+        target.confidence = combineConfidence(target.confidence, rule.confidence);
+        target.evidence.push(matched.evidence);
+      });
+  });
+
+  return Object.fromEntries(
+    keys.map((key) => {
+      const { yes, no } = votes.get(key)!;
+      if (yes.confidence === 0 && no.confidence === 0) {
+        return [key, unknownAttribute<boolean>()];
+      }
+      return [key, yes.confidence >= no.confidence ? yes : no];
+    })
+  ) as Record<K, ExtractedAttribute<boolean>>;
+}
+
+/**
+ * 성격 추출 (부정 표현이 뒤따르는 문구는 제외)
+ */
+function extractPersonality(clauses: string[]): PetTextInsights["personality"] {
+  const traits = new Map<PersonalityTrait, { confidence: number; evidence: string[] }>();
+
+  clauses.forEach((clause) => {
+    PERSONALITY_RULES.forEach((rule) => {
+      const matched = matchClause(clause, rule.pattern);
+      if (!matched || matched.negated) return;
+
+      const current = traits.get(rule.trait) ?? { confidence: 0, evidence: [] };
+      traits.set(rule.trait, {
+        confidence: combineConfidence(current.confidence, rule.confidence),
+        evidence: current.evidence.includes(matched.evidence)
+          ? current.evidence
+          : [...current.evidence, matched.evidence],
+      });
+    });
+  });
+
+  return Array.from(traits, ([trait, { confidence, evidence }]) => ({
+    trait,
+    confidence,
+    evidence,
+  })).sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * 건강 상태/특별 관리 추출
+ *
+ * 특별 관리 > 관심 필요 > 양호 순으로 가장 심각한 근거를 건강 상태로 사용합니다.
+ */
+function extractHealth(clauses: string[]): Pick<PetTextInsights, "healthStatus" | "specialNeeds"> {
+  const statuses = new Map<HealthStatus, { confidence: number; evidence: string[] }>();
+  const needs = new Map<string, { confidence: number; evidence: string[] }>();
+
+  clauses.forEach((clause) => {
+    HEALTH_RULES.forEach((rule) => {
+      const matched = matchClause(clause, rule.pattern);
+      if (!matched || matched.negated) return;
+
+      const status = statuses.get(rule.status) ?? { confidence: 0, evidence: [] };
+      statuses.set(rule.status, {
+        confidence: combineConfidence(status.confidence, rule.confidence),
+        evidence: [...status.evidence, matched.evidence],
+      });
+
+      if (rule.need) {
+        const need = needs.get(rule.need) ?? { confidence: 0, evidence: [] };
+        needs.set(rule.need, {
+          confidence: combineConfidence(need.confidence, rule.confidence),
+          evidence: [...need.evidence, matched.evidence],
+        });
+      }
+    });
+  });
+
+  const severity: Exclude<HealthStatus, "unknown">[] = ["special-care", "needs-attention", "good"];
+  const status = severity.find((candidate) => statuses.has(candidate));
+
+  return {
+    healthStatus: status
+      ? { value: status, ...statuses.get(status)! }
+      : unknownAttribute<HealthStatus>(),
+    specialNeeds: Array.from(needs, ([need, { confidence, evidence }]) => ({
+      need,
+      confidence,
+      evidence,
+    })),
+  };
+}
+
+/**
+ * 다른 동물 전반과의 동반 여부 보정
+ *
+ * 명시적인 근거가 없으면 개/고양이 근거에서 유추합니다 (하나라도 거짓이면 거짓).
+ */
+function resolveOtherPets(
+  goodWith: PetTextInsights["goodWith"]
+): ExtractedAttribute<boolean> {
+  if (goodWith.otherPets.value !== "unknown") return goodWith.otherPets;
+
+  const known = [goodWith.dogs, goodWith.cats].filter(
+    (attribute) => attribute.value !== "unknown"
+  );
+  if (known.length === 0) return goodWith.otherPets;
+
+  const negative = known.find((attribute) => attribute.value === false);
+  const source = negative ?? known[0];
+  return {
+    value: !negative,
+    // 간접 근거이므로 신뢰도를 낮춤
+    confidence: Math.round(source.confidence * 0.8 * 100) / 100,
+    evidence: known.flatMap((attribute) => attribute.evidence),
+  };
+}
+
+/**
+ * 특징 텍스트에서 성격/건강/동반 가능 여부 추출
+ * @param {string | undefined} specialMark 특징
+ * @param {string | undefined} etcBigo 기타 사항
+ */
+export function extractPetTextInsights(
+  specialMark?: string,
+  etcBigo?: string
+): PetTextInsights {
+  const clauses = [specialMark, etcBigo]
+    .filter((text): text is string => !!text?.trim())
+    .flatMap(splitClauses);
+
+  const goodWith = evaluateBooleanRules(clauses, GOOD_WITH_RULES, [
+    "children",
+    "otherPets",
+    "cats",
+    "dogs",
+  ] as const);
+  const care = evaluateBooleanRules(clauses, CARE_RULES, [
+    "houseTrained",
+    "vaccinated",
+    "microchipped",
+  ] as const);
+
+  return {
+    personality: extractPersonality(clauses),
+    ...extractHealth(clauses),
+    goodWith: { ...goodWith, otherPets: resolveOtherPets(goodWith) },
+    ...care,
+  };
+}
+
+/**
+ * 추출 값을 Pet 필드 값으로 변환 (unknown은 null)
+ * @param {ExtractedAttribute<boolean>} attribute 추출 값
+ */
+export function toKnownBoolean(attribute: ExtractedAttribute<boolean>): boolean | null {
+  return attribute.value === "unknown" ? null : attribute.value;
+}
@@ -0,0 +1,79 @@
+/**
+ * 사용자 데이터 기본값
+ *
+ * 프로필/선호도를 처음 저장할 때 입력하지 않은 항목을 채웁니다.
+ */
+
+import type { Id } from "@/types/common";
+import type { UserPreferences, UserProfile } from "@/types/user";
+
+/**
+ * 기본 프로필 생성
+ * @param {Id} userId 사용자 ID
+ * @param {string} now 생성 시각 (ISO 문자열)
+ */
+export function createDefaultUserProfile(userId: Id, now: string): UserProfile {
+  return {
+    id: userId,
+    userId,
+    location: {},
+    livingSpace: "apartment",
+    hasYard: false,
+    hasOtherPets: false,
+    householdSize: 1,
+    hasChildren: false,
+    petExperience: "none",
+    timeAvailable: "medium",
+    activityLevel: "medium",
+    budget: {
+      monthly: 0,
+      initial: 0,
+    },
+    contactPreferences: {
+      email: true,
+      sms: false,
+      push: true,
+    },
+    privacySettings: {
+      showProfile: false,
+      showLocation: false,
+      allowMessages: true,
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * 기본 선호도 생성
+ * @param {Id} userId 사용자 ID
+ * @param {string} now 생성 시각 (ISO 문자열)
+ */
+export function createDefaultUserPreferences(userId: Id, now: string): UserPreferences {
+  return {
+    id: userId,
+    userId,
+    preferredSpecies: [],
+    preferredSizes: [],
+    preferredAgeGroups: [],
+    preferredPersonalities: [],
+    searchRadius: 20,
+    notifications: {
+      newMatches: true,
+      priceDrops: false,
+      applicationUpdates: true,
+      careReminders: true,
+      newsletter: false,
+    },
+    requirements: {
+      mustBeHouseTrained: false,
+      mustBeSpayedNeutered: false,
+      mustBeVaccinated: false,
+      goodWithChildren: false,
+      goodWithOtherPets: false,
+      noSpecialNeeds: false,
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
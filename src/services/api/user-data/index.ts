@@ -0,0 +1,46 @@
+/**
+ * 사용자 데이터 서비스 (프로필, 선호도, 관심 목록, 검색/입양 기록)
+ *
+ * NEXT_PUBLIC_USER_DATA_STORE 환경변수로 저장소를 선택합니다.
+ * - supabase: user_profiles 등 사용자 데이터 테이블 (기본값, 로그인 세션 필요)
+ * - memory: 브라우저 메모리 (개발/테스트용)
+ */
+
+import { supabase } from "@/lib/supabase";
+import { createMemoryUserDataRepository } from "./memory-repository";
+import { createSupabaseUserDataRepository } from "./supabase-repository";
+import type { UserDataRepository } from "./types";
+
+export * from "./types";
+export {
+  createDefaultUserProfile,
+  createDefaultUserPreferences,
+} from "./defaults";
+export {
+  createMemoryUserDataRepository,
+  type MemoryUserDataSeed,
+} from "./memory-repository";
+export { createSupabaseUserDataRepository } from "./supabase-repository";
+
+let repository: UserDataRepository | undefined;
+
+/**
+ * 사용자 데이터 저장소 조회
+ */
+export function getUserDataRepository(): UserDataRepository {
+  if (!repository) {
+    repository =
+      process.env.NEXT_PUBLIC_USER_DATA_STORE === "memory"
+        ? createMemoryUserDataRepository()
+        : createSupabaseUserDataRepository(supabase);
+  }
+  return repository;
+}
+
+/**
+ * 사용자 데이터 저장소 교체 (테스트용)
+ * @param {UserDataRepository} next 사용할 저장소
+ */
+export function configureUserDataRepository(next: UserDataRepository) {
+  repository = next;
+}
@@ -0,0 +1,177 @@
+/**
+ * 메모리 사용자 데이터 저장소
+ *
+ * Supabase 없이 개발하거나 테스트할 때 사용하며, 새로고침하면 사라집니다.
+ */
+
+import type { Id } from "@/types/common";
+import type {
+  AdoptionHistory,
+  UserFavorites,
+  UserPreferences,
+  UserProfile,
+  UserSearchHistory,
+} from "@/types/user";
+import { USER_DATA_SETTINGS } from "@/utils/constants/api";
+import { ConflictError } from "../api-errors";
+import type { FavoriteChangeEvent, UserDataRepository } from "./types";
+
+/**
+ * 메모리 저장소 초기 데이터
+ */
+export interface MemoryUserDataSeed {
+  profiles?: UserProfile[];
+  preferences?: UserPreferences[];
+  favorites?: UserFavorites[];
+  searchHistory?: UserSearchHistory[];
+  adoptionHistory?: AdoptionHistory[];
+}
+
+/**
+ * 최근 순 정렬 (같은 시각이면 나중에 추가된 항목이 먼저)
+ */
+function newestFirst<T>(items: T[], getTime: (item: T) => string): T[] {
+  return [...items]
+    .reverse()
+    .sort((a, b) => getTime(b).localeCompare(getTime(a)));
+}
+
+/**
+ * 메모리 사용자 데이터 저장소 생성
+ * @param {MemoryUserDataSeed} seed 초기 데이터
+ */
+export function createMemoryUserDataRepository(
+  seed: MemoryUserDataSeed = {}
+): UserDataRepository {
+  const profiles = new Map<Id, UserProfile>(
+    (seed.profiles ?? []).map((profile) => [profile.userId, structuredClone(profile)])
+  );
+  const preferences = new Map<Id, UserPreferences>(
+    (seed.preferences ?? []).map((item) => [item.userId, structuredClone(item)])
+  );
+  let favorites = (seed.favorites ?? []).map((item) => structuredClone(item));
+  let searchHistory = (seed.searchHistory ?? []).map((item) => structuredClone(item));
+  const adoptionHistory = (seed.adoptionHistory ?? []).map((item) =>
+    structuredClone(item)
+  );
+  const favoriteListeners = new Set<{
+    userId: Id;
+    onChange: (event: FavoriteChangeEvent) => void;
+  }>();
+
+  /**
+   * 관심 목록 구독자에게 변경 알림
+   */
+  const notifyFavoriteChange = (userId: Id, event: FavoriteChangeEvent) => {
+    favoriteListeners.forEach((listener) => {
+      if (listener.userId === userId) listener.onChange(event);
+    });
+  };
+
+  return {
+    getProfile: async (userId) => {
+      const profile = profiles.get(userId);
+      return profile ? structuredClone(profile) : null;
+    },
+
+    saveProfile: async (profile) => {
+      profiles.set(profile.userId, structuredClone(profile));
+      return structuredClone(profile);
+    },
+
+    getPreferences: async (userId) => {
+      const item = preferences.get(userId);
+      return item ? structuredClone(item) : null;
+    },
+
+    savePreferences: async (item) => {
+      preferences.set(item.userId, structuredClone(item));
+      return structuredClone(item);
+    },
+
+    listFavorites: async (userId) =>
+      newestFirst(
+        favorites.filter((favorite) => favorite.userId === userId),
+        (favorite) => favorite.createdAt
+      ).map((favorite) => structuredClone(favorite)),
+
+    addFavorite: async (favorite) => {
+      const exists = favorites.some(
+        (item) => item.userId === favorite.userId && item.petId === favorite.petId
+      );
+      if (exists) {
+        throw new ConflictError("이미 관심 목록에 있는 동물입니다.", {
+          petId: favorite.petId,
+        });
+      }
+      favorites.push(structuredClone(favorite));
+      notifyFavoriteChange(favorite.userId, { type: "INSERT", favoriteId: favorite.id });
+      return structuredClone(favorite);
+    },
+
+    removeFavorite: async (userId, favoriteId) => {
+      const count = favorites.length;
+      favorites = favorites.filter(
+        (favorite) => !(favorite.userId === userId && favorite.id === favoriteId)
+      );
+      if (favorites.length !== count) {
+        notifyFavoriteChange(userId, { type: "DELETE", favoriteId });
+      }
+    },
+
+    updateFavoriteNotes: async (userId, favoriteId, notes) => {
+      const favorite = favorites.find(
+        (item) => item.userId === userId && item.id === favoriteId
+      );
+      if (!favorite) return null;
+
+      favorite.notes = notes;
+      favorite.updatedAt = new Date().toISOString();
+      notifyFavoriteChange(userId, { type: "UPDATE", favoriteId });
+      return structuredClone(favorite);
+    },
+
+    subscribeFavorites: (userId, onChange) => {
+      const listener = { userId, onChange };
+      favoriteListeners.add(listener);
+      return () => {
+        favoriteListeners.delete(listener);
+      };
+    },
+
+    listSearchHistory: async (userId) =>
+      newestFirst(
+        searchHistory.filter((entry) => entry.userId === userId),
+        (entry) => entry.createdAt
+      )
+        .slice(0, USER_DATA_SETTINGS.SEARCH_HISTORY_LIMIT)
+        .map((entry) => structuredClone(entry)),
+
+    addSearchHistory: async (entry) => {
+      searchHistory.push(structuredClone(entry));
+
+      // 사용자별 최근 기록만 남김
+      const kept = new Set(
+        newestFirst(
+          searchHistory.filter((item) => item.userId === entry.userId),
+          (item) => item.createdAt
+        )
+          .slice(0, USER_DATA_SETTINGS.SEARCH_HISTORY_LIMIT)
+          .map((item) => item.id)
+      );
+      searchHistory = searchHistory.filter(
+        (item) => item.userId !== entry.userId || kept.has(item.id)
+      );
+    },
+
+    clearSearchHistory: async (userId) => {
+      searchHistory = searchHistory.filter((entry) => entry.userId !== userId);
+    },
+
+    listAdoptionHistory: async (userId) =>
+      newestFirst(
+        adoptionHistory.filter((entry) => entry.userId === userId),
+        (entry) => entry.adoptionDate
+      ).map((entry) => structuredClone(entry)),
+  };
+}
@@ -0,0 +1,456 @@
+/**
+ * Supabase 사용자 데이터 저장소
+ *
+ * supabase/migrations의 user_profiles, user_preferences, user_favorites,
+ * user_search_history, adoption_history 테이블을 로그인 세션으로 사용합니다.
+ * 행 수준 보안 정책이 본인(auth.uid() = user_id)의 행만 읽고 쓰도록 제한합니다.
+ * 입양 기록은 읽기만 합니다 (서버나 보호소 직원만 기록).
+ */
+
+import type {
+  PostgrestError,
+  RealtimePostgresChangesPayload,
+  SupabaseClient,
+} from "@supabase/supabase-js";
+import type { Id, Location } from "@/types/common";
+import type {
+  ActivityLevel,
+  AdoptionHistory,
+  ExperienceLevel,
+  LivingSpace,
+  UserFavorites,
+  UserPreferences,
+  UserProfile,
+  UserSearchHistory,
+} from "@/types/user";
+import type { PersonalityTrait, PetSize, PetSpecies } from "@/types/pet";
+import { USER_DATA_SETTINGS } from "@/utils/constants/api";
+import { ApiError, AuthenticationError, ConflictError } from "../api-errors";
+import type { UserDataRepository } from "./types";
+
+const PROFILES_TABLE = "user_profiles";
+const PREFERENCES_TABLE = "user_preferences";
+const FAVORITES_TABLE = "user_favorites";
+const SEARCH_HISTORY_TABLE = "user_search_history";
+const ADOPTION_HISTORY_TABLE = "adoption_history";
+
+/**
+ * PostgreSQL 오류 코드
+ */
+const UNIQUE_VIOLATION = "23505";
+const INSUFFICIENT_PRIVILEGE = "42501"; // 행 수준 보안 정책 위반 (로그인 세션 없음 등)
+
+/**
+ * user_profiles 행
+ */
+interface UserProfileRow {
+  id: string;
+  user_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  date_of_birth: string | null;
+  location: Location;
+  bio: string | null;
+  living_space: LivingSpace;
+  has_yard: boolean;
+  has_other_pets: boolean;
+  household_size: number;
+  has_children: boolean;
+  children_ages: number[] | null;
+  pet_experience: ExperienceLevel;
+  time_available: ActivityLevel;
+  activity_level: ActivityLevel;
+  budget: UserProfile["budget"];
+  contact_preferences: UserProfile["contactPreferences"];
+  privacy_settings: UserProfile["privacySettings"];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * user_preferences 행
+ */
+interface UserPreferencesRow {
+  id: string;
+  user_id: string;
+  preferred_species: PetSpecies[];
+  preferred_sizes: PetSize[];
+  preferred_age_groups: string[];
+  preferred_personalities: PersonalityTrait[];
+  search_radius: number;
+  max_adoption_fee: number | null;
+  notifications: UserPreferences["notifications"];
+  requirements: UserPreferences["requirements"];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * user_favorites 행
+ */
+interface UserFavoriteRow {
+  id: string;
+  user_id: string;
+  pet_id: string;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * user_search_history 행
+ */
+interface UserSearchHistoryRow {
+  id: string;
+  user_id: string;
+  search_query: string;
+  filters: UserSearchHistory["filters"];
+  result_count: number;
+  clicked_pets: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * adoption_history 행
+ */
+interface AdoptionHistoryRow {
+  id: string;
+  user_id: string;
+  pet_id: string;
+  adoption_date: string;
+  status: AdoptionHistory["status"];
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Supabase 오류를 ApiError로 변환하여 throw
+ */
+function assertNoError(error: PostgrestError | null, action: string) {
+  if (!error) return;
+
+  if (error.code === INSUFFICIENT_PRIVILEGE) {
+    throw new AuthenticationError();
+  }
+  throw new ApiError("DATABASE_ERROR", `${action}에 실패했습니다.`, {
+    cause: error,
+  });
+}
+
+function toProfile(row: UserProfileRow): UserProfile {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    firstName: row.first_name ?? undefined,
+    lastName: row.last_name ?? undefined,
+    dateOfBirth: row.date_of_birth ?? undefined,
+    location: row.location,
+    bio: row.bio ?? undefined,
+    livingSpace: row.living_space,
+    hasYard: row.has_yard,
+    hasOtherPets: row.has_other_pets,
+    householdSize: row.household_size,
+    hasChildren: row.has_children,
+    childrenAges: row.children_ages ?? undefined,
+    petExperience: row.pet_experience,
+    timeAvailable: row.time_available,
+    activityLevel: row.activity_level,
+    budget: row.budget,
+    contactPreferences: row.contact_preferences,
+    privacySettings: row.privacy_settings,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toProfileRow(profile: UserProfile): UserProfileRow {
+  return {
+    id: profile.id,
+    user_id: profile.userId,
+    first_name: profile.firstName ?? null,
+    last_name: profile.lastName ?? null,
+    date_of_birth: profile.dateOfBirth ?? null,
+    location: profile.location,
+    bio: profile.bio ?? null,
+    living_space: profile.livingSpace,
+    has_yard: profile.hasYard,
+    has_other_pets: profile.hasOtherPets,
+    household_size: profile.householdSize,
+    has_children: profile.hasChildren,
+    children_ages: profile.childrenAges ?? null,
+    pet_experience: profile.petExperience,
+    time_available: profile.timeAvailable,
+    activity_level: profile.activityLevel,
+    budget: profile.budget,
+    contact_preferences: profile.contactPreferences,
+    privacy_settings: profile.privacySettings,
+    created_at: profile.createdAt,
+    updated_at: profile.updatedAt,
+  };
+}
+
+function toPreferences(row: UserPreferencesRow): UserPreferences {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    preferredSpecies: row.preferred_species,
+    preferredSizes: row.preferred_sizes,
+    preferredAgeGroups: row.preferred_age_groups,
+    preferredPersonalities: row.preferred_personalities,
+    searchRadius: row.search_radius,
+    maxAdoptionFee: row.max_adoption_fee ?? undefined,
+    notifications: row.notifications,
+    requirements: row.requirements,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toPreferencesRow(preferences: UserPreferences): UserPreferencesRow {
+  return {
+    id: preferences.id,
+    user_id: preferences.userId,
+    preferred_species: preferences.preferredSpecies,
+    preferred_sizes: preferences.preferredSizes,
+    preferred_age_groups: preferences.preferredAgeGroups,
+    preferred_personalities: preferences.preferredPersonalities,
+    search_radius: preferences.searchRadius,
+    max_adoption_fee: preferences.maxAdoptionFee ?? null,
+    notifications: preferences.notifications,
+    requirements: preferences.requirements,
+    created_at: preferences.createdAt,
+    updated_at: preferences.updatedAt,
+  };
+}
+
+function toFavorite(row: UserFavoriteRow): UserFavorites {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    petId: row.pet_id,
+    notes: row.notes ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toSearchHistory(row: UserSearchHistoryRow): UserSearchHistory {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    searchQuery: row.search_query,
+    filters: row.filters,
+    resultCount: row.result_count,
+    clickedPets: row.clicked_pets,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toAdoptionHistory(row: AdoptionHistoryRow): AdoptionHistory {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    petId: row.pet_id,
+    adoptionDate: row.adoption_date,
+    status: row.status,
+    notes: row.notes ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Supabase 사용자 데이터 저장소 생성
+ * @param {SupabaseClient} client 로그인 세션을 가진 Supabase 클라이언트
+ */
+export function createSupabaseUserDataRepository(
+  client: SupabaseClient
+): UserDataRepository {
+  return {
+    getProfile: async (userId: Id) => {
+      const { data, error } = await client
+        .from(PROFILES_TABLE)
+        .select("*")
+        .eq("user_id", userId)
+        .maybeSingle<UserProfileRow>();
+      assertNoError(error, "프로필 조회");
+      return data ? toProfile(data) : null;
+    },
+
+    saveProfile: async (profile) => {
+      const { data, error } = await client
+        .from(PROFILES_TABLE)
+        .upsert(toProfileRow(profile), { onConflict: "user_id" })
+        .select("*")
+        .single<UserProfileRow>();
+      assertNoError(error, "프로필 저장");
+      return toProfile(data!);
+    },
+
+    getPreferences: async (userId) => {
+      const { data, error } = await client
+        .from(PREFERENCES_TABLE)
+        .select("*")
+        .eq("user_id", userId)
+        .maybeSingle<UserPreferencesRow>();
+      assertNoError(error, "선호도 조회");
+      return data ? toPreferences(data) : null;
+    },
+
+    savePreferences: async (preferences) => {
+      const { data, error } = await client
+        .from(PREFERENCES_TABLE)
+        .upsert(toPreferencesRow(preferences), { onConflict: "user_id" })
+        .select("*")
+        .single<UserPreferencesRow>();
+      assertNoError(error, "선호도 저장");
+      return toPreferences(data!);
+    },
+
+    listFavorites: async (userId) => {
+      const { data, error } = await client
+        .from(FAVORITES_TABLE)
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .returns<UserFavoriteRow[]>();
+      assertNoError(error, "관심 목록 조회");
+      return (data ?? []).map(toFavorite);
+    },
+
+    addFavorite: async (favorite) => {
+      const { data, error } = await client
+        .from(FAVORITES_TABLE)
+        .insert({
+          id: favorite.id,
+          user_id: favorite.userId,
+          pet_id: favorite.petId,
+          notes: favorite.notes ?? null,
+          created_at: favorite.createdAt,
+          updated_at: favorite.updatedAt,
+        })
+        .select("*")
+        .single<UserFavoriteRow>();
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new ConflictError("이미 관심 목록에 있는 동물입니다.", {
+          petId: favorite.petId,
+        });
+      }
+      assertNoError(error, "관심 목록 추가");
+      return toFavorite(data!);
+    },
+
+    removeFavorite: async (userId, favoriteId) => {
+      const { error } = await client
+        .from(FAVORITES_TABLE)
+        .delete()
+        .eq("user_id", userId)
+        .eq("id", favoriteId);
+      assertNoError(error, "관심 목록 삭제");
+    },
+
+    updateFavoriteNotes: async (userId, favoriteId, notes) => {
+      const { data, error } = await client
+        .from(FAVORITES_TABLE)
+        .update({ notes, updated_at: new Date().toISOString() })
+        .eq("user_id", userId)
+        .eq("id", favoriteId)
+        .select("*")
+        .maybeSingle<UserFavoriteRow>();
+      assertNoError(error, "관심 목록 메모 저장");
+      return data ? toFavorite(data) : null;
+    },
+
+    // 추가/변경은 user_id로 걸러 받지만, Realtime은 삭제 알림을 걸러 주지 않으므로
+    // 삭제는 모두 받아 id만 전달합니다 (행 수준 보안으로 다른 사용자의 내용은 오지 않음)
+    subscribeFavorites: (userId, onChange) => {
+      const notify = (payload: RealtimePostgresChangesPayload<UserFavoriteRow>) => {
+        const row = payload.eventType === "DELETE" ? payload.old : payload.new;
+        if (!row.id) return;
+        onChange({ type: payload.eventType, favoriteId: row.id });
+      };
+
+      const channel = client
+        .channel(`${FAVORITES_TABLE}:${userId}`)
+        .on(
+          "postgres_changes",
+          {
+            event: "INSERT",
+            schema: "public",
+            table: FAVORITES_TABLE,
+            filter: `user_id=eq.${userId}`,
+          },
+          notify
+        )
+        .on(
+          "postgres_changes",
+          {
+            event: "UPDATE",
+            schema: "public",
+            table: FAVORITES_TABLE,
+            filter: `user_id=eq.${userId}`,
+          },
+          notify
+        )
+        .on(
+          "postgres_changes",
+          { event: "DELETE", schema: "public", table: FAVORITES_TABLE },
+          notify
+        )
+        .subscribe();
+
+      return () => {
+        void client.removeChannel(channel);
+      };
+    },
+
+    listSearchHistory: async (userId) => {
+      const { data, error } = await client
+        .from(SEARCH_HISTORY_TABLE)
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(USER_DATA_SETTINGS.SEARCH_HISTORY_LIMIT)
+        .returns<UserSearchHistoryRow[]>();
+      assertNoError(error, "검색 기록 조회");
+      return (data ?? []).map(toSearchHistory);
+    },
+
+    // 오래된 기록 정리는 user_search_history 트리거가 담당
+    addSearchHistory: async (entry) => {
+      const { error } = await client.from(SEARCH_HISTORY_TABLE).insert({
+        id: entry.id,
+        user_id: entry.userId,
+        search_query: entry.searchQuery,
+        filters: entry.filters,
+        result_count: entry.resultCount,
+        clicked_pets: entry.clickedPets,
+        created_at: entry.createdAt,
+        updated_at: entry.updatedAt,
+      });
+      assertNoError(error, "검색 기록 저장");
+    },
+
+    clearSearchHistory: async (userId) => {
+      const { error } = await client
+        .from(SEARCH_HISTORY_TABLE)
+        .delete()
+        .eq("user_id", userId);
+      assertNoError(error, "검색 기록 삭제");
+    },
+
+    listAdoptionHistory: async (userId) => {
+      const { data, error } = await client
+        .from(ADOPTION_HISTORY_TABLE)
+        .select("*")
+        .eq("user_id", userId)
+        .order("adoption_date", { ascending: false })
+        .returns<AdoptionHistoryRow[]>();
+      assertNoError(error, "입양 기록 조회");
+      return (data ?? []).map(toAdoptionHistory);
+    },
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * 사용자 데이터 저장소 타입 정의
+ */
+
+import type { Id } from "@/types/common";
+import type {
+  AdoptionHistory,
+  UserFavorites,
+  UserPreferences,
+  UserProfile,
+  UserSearchHistory,
+} from "@/types/user";
+
+/**
+ * 관심 목록 변경 알림 (다른 탭/기기에서 변경된 경우 포함)
+ */
+export interface FavoriteChangeEvent {
+  type: "INSERT" | "UPDATE" | "DELETE";
+  favoriteId: Id;
+}
+
+/**
+ * 사용자 데이터 저장소 인터페이스
+ *
+ * 모든 조회/변경은 로그인 사용자 본인의 데이터만 대상으로 합니다.
+ * (Supabase 구현은 행 수준 보안 정책으로 한 번 더 제한)
+ */
+export interface UserDataRepository {
+  /** 프로필 조회 (저장한 적이 없으면 null) */
+  getProfile(userId: Id): Promise<UserProfile | null>;
+  /** 프로필 저장 (없으면 생성) */
+  saveProfile(profile: UserProfile): Promise<UserProfile>;
+
+  /** 선호도 조회 (저장한 적이 없으면 null) */
+  getPreferences(userId: Id): Promise<UserPreferences | null>;
+  /** 선호도 저장 (없으면 생성) */
+  savePreferences(preferences: UserPreferences): Promise<UserPreferences>;
+
+  /** 관심 목록 조회 (최근 추가 순) */
+  listFavorites(userId: Id): Promise<UserFavorites[]>;
+  /** 관심 목록에 추가 (같은 동물이 이미 있으면 ConflictError) */
+  addFavorite(favorite: UserFavorites): Promise<UserFavorites>;
+  /** 관심 목록에서 제거 */
+  removeFavorite(userId: Id, favoriteId: Id): Promise<void>;
+  /** 관심 목록 메모 변경 (없으면 null) */
+  updateFavoriteNotes(
+    userId: Id,
+    favoriteId: Id,
+    notes: string
+  ): Promise<UserFavorites | null>;
+  /**
+   * 관심 목록 변경 구독
+   * 삭제 알림은 다른 사용자의 항목일 수 있으므로 favoriteId로 확인해야 합니다.
+   * @returns 구독 해제 함수
+   */
+  subscribeFavorites(
+    userId: Id,
+    onChange: (event: FavoriteChangeEvent) => void
+  ): () => void;
+
+  /** 검색 기록 조회 (최근 순, SEARCH_HISTORY_LIMIT개까지) */
+  listSearchHistory(userId: Id): Promise<UserSearchHistory[]>;
+  /** 검색 기록 추가 (오래된 기록은 SEARCH_HISTORY_LIMIT개만 남기고 삭제) */
+  addSearchHistory(entry: UserSearchHistory): Promise<void>;
+  /** 검색 기록 전체 삭제 */
+  clearSearchHistory(userId: Id): Promise<void>;
+
+  /** 입양 기록 조회 (최근 입양 순, 기록은 서버나 보호소 직원이 남김) */
+  listAdoptionHistory(userId: Id): Promise<AdoptionHistory[]>;
+}
@@ -0,0 +1,25 @@
+/**
+ * 사용자 역할/계정 상태 해석
+ *
+ * Supabase app_metadata(서버에서만 설정 가능)의 role, is_active 값을
+ * 클라이언트 인증 스토어와 서버 Route Handler가 같은 기준으로 해석합니다.
+ */
+
+import type { UserRole } from "@/types/user";
+
+/**
+ * app_metadata의 역할 확인 (없거나 알 수 없는 값이면 일반 사용자)
+ * @param {Record<string, unknown>} appMetadata Supabase 사용자 app_metadata
+ */
+export function resolveUserRole(appMetadata?: Record<string, unknown>): UserRole {
+  const role = appMetadata?.role;
+  return role === "shelter" || role === "admin" ? role : "user";
+}
+
+/**
+ * app_metadata의 계정 활성 여부 확인 (관리자가 비활성화한 경우에만 false)
+ * @param {Record<string, unknown>} appMetadata Supabase 사용자 app_metadata
+ */
+export function resolveUserActive(appMetadata?: Record<string, unknown>): boolean {
+  return appMetadata?.is_active !== false;
+}
@@ -0,0 +1,66 @@
+import { animalQuarantine, validateAnimalRecord } from "../animal-records";
+
+/**
+ * 검증을 통과하는 업스트림 레코드
+ */
+function rawAnimal(overrides: Record<string, unknown> = {}) {
+  return {
+    desertionNo: "448567202400512",
+    happenDt: "20240502",
+    happenPlace: "경기도 수원시 장안구 정자동 공원 앞",
+    kindFullNm: "[개] 믹스견",
+    upKindCd: "417000",
+    upKindNm: "개",
+    kindCd: "000114",
+    kindNm: "믹스견",
+    colorCd: "흰색&갈색",
+    age: "2022(년생)",
+    weight: "8.2(Kg)",
+    noticeNo: "경기-수원-2024-00412",
+    noticeSdt: "20240502",
+    noticeEdt: "20240513",
+    popfile1: "",
+    processState: "보호중",
+    sexCd: "M",
+    neuterYn: "N",
+    careNm: "수원시동물보호센터",
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  // 격리 경고는 검증 대상이 아니므로 출력하지 않음
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  animalQuarantine.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("validateAnimalRecord 나이", () => {
+  it.each(["2022(년생)", "2025(60일미만)(년생)", "3살", "6개월"])(
+    "해석할 수 있는 나이(%s)는 유지한다",
+    (age) => {
+      const result = validateAnimalRecord(rawAnimal({ age }));
+
+      expect(result).toMatchObject({ status: "valid", animal: { age } });
+    }
+  );
+
+  it("표기만 다른 출생년도는 보정한다", () => {
+    const result = validateAnimalRecord(rawAnimal({ age: "2020년생" }));
+
+    expect(result).toMatchObject({ status: "repaired", animal: { age: "2020(년생)" } });
+  });
+
+  it.each(["", "미상", "1850(년생)", "9999"])(
+    "해석할 수 없는 나이(%s)는 격리한다",
+    (age) => {
+      const result = validateAnimalRecord(rawAnimal({ age }));
+
+      expect(result.status).toBe("dropped");
+      expect(animalQuarantine.size()).toBe(1);
+    }
+  );
+});
@@ -0,0 +1,94 @@
+import { NextRequest } from "next/server";
+import { getClientIp } from "../request-identity";
+
+const mockCreateClient = jest.fn();
+jest.mock("@supabase/supabase-js", () => ({
+  createClient: (...args: unknown[]) => mockCreateClient(...args),
+}));
+
+/**
+ * 헤더를 지정한 요청
+ */
+function requestWith(headers: Record<string, string>): NextRequest {
+  return new NextRequest("http://localhost/api/animals", { headers });
+}
+
+describe("getClientIp", () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_HOPS;
+  });
+
+  it("클라이언트가 넣은 왼쪽 값이 아니라 신뢰 프록시가 덧붙인 오른쪽 주소를 사용한다", () => {
+    const request = requestWith({ "x-forwarded-for": "1.1.1.1, 203.0.113.7" });
+
+    expect(getClientIp(request)).toBe("203.0.113.7");
+  });
+
+  it("신뢰 프록시 수만큼 오른쪽에서 센 주소를 사용한다", () => {
+    process.env.TRUSTED_PROXY_HOPS = "2";
+    const request = requestWith({
+      "x-forwarded-for": "1.1.1.1, 203.0.113.7, 10.0.0.2",
+    });
+
+    expect(getClientIp(request)).toBe("203.0.113.7");
+  });
+
+  it("주소가 신뢰 프록시 수보다 적으면 가장 왼쪽 주소를 사용한다", () => {
+    process.env.TRUSTED_PROXY_HOPS = "3";
+
+    expect(getClientIp(requestWith({ "x-forwarded-for": "203.0.113.7" }))).toBe(
+      "203.0.113.7"
+    );
+  });
+
+  it("신뢰 프록시가 없으면 X-Forwarded-For를 무시하고 x-real-ip를 사용한다", () => {
+    process.env.TRUSTED_PROXY_HOPS = "0";
+    const request = requestWith({
+      "x-forwarded-for": "1.1.1.1",
+      "x-real-ip": "203.0.113.7",
+    });
+
+    expect(getClientIp(request)).toBe("203.0.113.7");
+  });
+
+  it("주소를 알 수 없으면 unknown을 반환한다", () => {
+    expect(getClientIp(requestWith({}))).toBe("unknown");
+  });
+});
+
+describe("verifyAccessToken", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    mockCreateClient.mockReset();
+  });
+
+  it("서비스 롤 키가 없어도 익명 키로 토큰을 확인한다", async () => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = "https://example.supabase.co";
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = "anon-key";
+    delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+    const getUser = jest.fn().mockResolvedValue({
+      data: { user: { id: "user-1", app_metadata: { role: "shelter" } } },
+      error: null,
+    });
+    mockCreateClient.mockReturnValue({ auth: { getUser } });
+
+    // 환경 변수는 모듈을 불러올 때 읽으므로 설정 후 다시 불러옴
+    let verifyAccessToken!: typeof import("../request-identity").verifyAccessToken;
+    await jest.isolateModulesAsync(async () => {
+      ({ verifyAccessToken } = await import("../request-identity"));
+    });
+
+    await expect(verifyAccessToken("access-token")).resolves.toEqual({
+      id: "user-1",
+      role: "shelter",
+    });
+    expect(mockCreateClient).toHaveBeenCalledWith(
+      "https://example.supabase.co",
+      "anon-key",
+      expect.anything()
+    );
+    expect(getUser).toHaveBeenCalledWith("access-token");
+  });
+});
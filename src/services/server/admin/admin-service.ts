@@ -0,0 +1,368 @@
+/**
+ * 관리자 콘솔 처리 (서버 전용)
+ *
+ * 사용자 활성화/비활성화와 역할 변경, 보호소 소속 확인, 신고 처리를 수행하고
+ * 모든 관리자 작업을 감사 로그에 남깁니다. 작업이 반영된 뒤 감사 로그를 기록하며,
+ * 감사 로그 기록에 실패하면 오류를 그대로 던져 응답에서 드러나게 합니다.
+ */
+
+import { randomUUID } from "node:crypto";
+import type {
+  AdminAuditLogEntry,
+  AdminDashboard,
+  AdminPetOverview,
+  AdminShelterReviewRequest,
+  AdminUserUpdateRequest,
+  ContentReport,
+  ContentReportRequest,
+  ContentReportResolutionRequest,
+  ShelterStaffMembership,
+} from "@/types/api";
+import type { User, UserRole } from "@/types/user";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationApiError,
+} from "@/services/api/api-errors";
+import { ADMIN_SETTINGS } from "@/utils/constants/api";
+import {
+  CONTENT_REPORT_REASONS,
+  CONTENT_REPORT_TARGET_LABELS,
+} from "@/utils/constants/app";
+import { lookupAnimal } from "../animal-index";
+import type {
+  AdminContext,
+  AdminRepositories,
+  AuditLogRepository,
+  ContentReportRepository,
+} from "./types";
+
+const TARGET_ID_MAX_LENGTH = 100;
+
+/**
+ * 사유/메모 검증 (앞뒤 공백 제거 후, 비어 있으면 undefined)
+ * @param {string | undefined} value 사유/메모
+ * @param {string} field 필드명
+ * @param {number} maxLength 최대 길이
+ */
+function normalizeNote(
+  value: string | undefined,
+  field: string,
+  maxLength: number = ADMIN_SETTINGS.REASON_MAX_LENGTH
+): string | undefined {
+  const note = value?.trim() || undefined;
+  if (note && note.length > maxLength) {
+    throw new ValidationApiError(`${maxLength}자 이내로 입력해주세요.`, field);
+  }
+  return note;
+}
+
+/**
+ * 관리자 작업 감사 로그 기록
+ * @param {AuditLogRepository} auditLog 감사 로그 저장소
+ * @param {AdminContext} admin 작업한 관리자
+ * @param {object} action 작업 내용 (action, targetType, targetId, details)
+ */
+export async function recordAdminAction(
+  auditLog: AuditLogRepository,
+  admin: AdminContext,
+  action: Pick<AdminAuditLogEntry, "action" | "targetType" | "targetId" | "details">
+): Promise<AdminAuditLogEntry> {
+  const entry: AdminAuditLogEntry = {
+    id: randomUUID(),
+    actorId: admin.userId,
+    ...action,
+    createdAt: new Date().toISOString(),
+  };
+  await auditLog.append(entry);
+  return entry;
+}
+
+/**
+ * 관리자 대시보드 집계
+ * @param {AdminRepositories} repositories 관리자 저장소 묶음
+ */
+export async function getAdminDashboard(
+  repositories: AdminRepositories
+): Promise<AdminDashboard> {
+  const [users, memberships, applications, reports, recentActions] =
+    await Promise.all([
+      repositories.users.count(),
+      repositories.shelterStaff.list({}),
+      repositories.applications.countByStatus(),
+      repositories.reports.countByStatus(),
+      repositories.auditLog.list({ limit: ADMIN_SETTINGS.DASHBOARD_RECENT_ACTIONS }),
+    ]);
+
+  const shelters = { pending: 0, verified: 0, revoked: 0 };
+  memberships.forEach((membership) => {
+    shelters[membership.status] += 1;
+  });
+
+  return { users, shelters, applications, reports, recentActions };
+}
+
+/**
+ * 사용자 계정 변경 (활성화/비활성화, 역할)
+ *
+ * 관리자는 자신의 계정을 비활성화하거나 역할을 바꿀 수 없습니다.
+ * @param {AdminRepositories} repositories 관리자 저장소 묶음
+ * @param {AdminContext} admin 작업한 관리자
+ * @param {string} userId 대상 사용자 ID
+ * @param {AdminUserUpdateRequest} request 변경 내용과 사유
+ */
+export async function updateUserAccount(
+  repositories: AdminRepositories,
+  admin: AdminContext,
+  userId: string,
+  request: AdminUserUpdateRequest
+): Promise<User> {
+  const reason = normalizeNote(request.reason, "reason");
+
+  if (userId === admin.userId) {
+    throw new ConflictError("자신의 계정은 변경할 수 없습니다.");
+  }
+
+  const user = await repositories.users.get(userId);
+  if (!user) throw new NotFoundError("사용자를 찾을 수 없습니다.");
+
+  const activeChanged =
+    request.isActive !== undefined && request.isActive !== user.isActive;
+  const roleChanged = request.role !== undefined && request.role !== user.role;
+  if (!activeChanged && !roleChanged) return user;
+
+  const updated = await repositories.users.update(userId, {
+    ...(activeChanged && { isActive: request.isActive }),
+    ...(roleChanged && { role: request.role }),
+  });
+
+  if (activeChanged) {
+    await recordAdminAction(repositories.auditLog, admin, {
+      action: request.isActive ? "user.activate" : "user.deactivate",
+      targetType: "user",
+      targetId: userId,
+      details: { email: user.email, reason },
+    });
+  }
+  if (roleChanged) {
+    await recordAdminAction(repositories.auditLog, admin, {
+      action: "user.role",
+      targetType: "user",
+      targetId: userId,
+      details: { email: user.email, from: user.role, to: request.role, reason },
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * 보호소 소속 확인/거절/해제
+ *
+ * 확인하면 일반 회원에게 보호소 역할을 부여하고, 해제로 확인된 소속이 모두 사라지면
+ * 보호소 역할을 일반 회원으로 되돌립니다. (관리자 역할은 그대로 유지)
+ * @param {AdminRepositories} repositories 관리자 저장소 묶음
+ * @param {AdminContext} admin 작업한 관리자
+ * @param {AdminShelterReviewRequest} request 대상 소속과 처리 결과
+ */
+export async function reviewShelterMembership(
+  repositories: AdminRepositories,
+  admin: AdminContext,
+  request: AdminShelterReviewRequest
+): Promise<ShelterStaffMembership> {
+  const reason = normalizeNote(request.reason, "reason");
+
+  const [membership] = await repositories.shelterStaff.list({
+    userId: request.userId,
+    careRegNo: request.careRegNo,
+  });
+  if (!membership) throw new NotFoundError("보호소 소속 신청을 찾을 수 없습니다.");
+
+  const allowed =
+    request.status === "verified"
+      ? membership.status === "pending"
+      : membership.status !== "revoked";
+  if (!allowed) {
+    throw new ConflictError("이미 처리된 보호소 소속입니다.", {
+      status: membership.status,
+    });
+  }
+
+  const updated = await repositories.shelterStaff.updateStatus(
+    membership.userId,
+    membership.careRegNo,
+    membership.status,
+    {
+      status: request.status,
+      reviewedAt: new Date().toISOString(),
+      reviewedBy: admin.userId,
+    }
+  );
+  if (!updated) {
+    throw new ConflictError("다른 관리자가 먼저 처리했습니다. 다시 확인해주세요.");
+  }
+
+  const roleChange = await syncShelterRole(repositories, membership.userId, request.status);
+
+  await recordAdminAction(repositories.auditLog, admin, {
+    action: request.status === "verified" ? "shelter.verify" : "shelter.revoke",
+    targetType: "shelter_staff",
+    targetId: `${membership.userId}:${membership.careRegNo}`,
+    details: {
+      careNm: membership.careNm,
+      from: membership.status,
+      reason,
+      ...(roleChange && { roleFrom: roleChange.from, roleTo: roleChange.to }),
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * 소속 확인/해제에 맞춰 사용자 역할 조정
+ *
+ * 디렉터리에 없는 사용자(개발용 메모리 저장소 등)는 건너뜁니다.
+ * @returns 역할이 바뀐 경우 변경 전후 역할
+ */
+async function syncShelterRole(
+  repositories: AdminRepositories,
+  userId: string,
+  status: AdminShelterReviewRequest["status"]
+): Promise<{ from: UserRole; to: UserRole } | null> {
+  const user = await repositories.users.get(userId);
+  if (!user) return null;
+
+  if (status === "verified" && user.role === "user") {
+    await repositories.users.update(userId, { role: "shelter" });
+    return { from: "user", to: "shelter" };
+  }
+
+  if (status === "revoked" && user.role === "shelter") {
+    const remaining = await repositories.shelterStaff.list({
+      userId,
+      statuses: ["verified"],
+    });
+    if (remaining.length === 0) {
+      await repositories.users.update(userId, { role: "user" });
+      return { from: "shelter", to: "user" };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 신고 접수
+ * @param {ContentReportRepository} repository 신고 저장소
+ * @param {string} reporterId 신고자 ID
+ * @param {ContentReportRequest} request 신고 대상과 사유
+ */
+export async function submitContentReport(
+  repository: ContentReportRepository,
+  reporterId: string,
+  request: ContentReportRequest
+): Promise<ContentReport> {
+  if (!(request.targetType in CONTENT_REPORT_TARGET_LABELS)) {
+    throw new ValidationApiError("신고 대상 종류가 올바르지 않습니다.", "targetType");
+  }
+  const targetId = request.targetId.trim();
+  if (!targetId || targetId.length > TARGET_ID_MAX_LENGTH) {
+    throw new ValidationApiError("신고 대상이 올바르지 않습니다.", "targetId");
+  }
+  if (!(request.reason in CONTENT_REPORT_REASONS)) {
+    throw new ValidationApiError("신고 사유를 선택해주세요.", "reason");
+  }
+  if (request.targetType === "user" && targetId === reporterId) {
+    throw new ValidationApiError("자신을 신고할 수 없습니다.", "targetId");
+  }
+
+  const report: ContentReport = {
+    id: randomUUID(),
+    targetType: request.targetType,
+    targetId,
+    reporterId,
+    reason: request.reason,
+    details: normalizeNote(
+      request.details,
+      "details",
+      ADMIN_SETTINGS.REPORT_DETAILS_MAX_LENGTH
+    ),
+    status: "open",
+    createdAt: new Date().toISOString(),
+  };
+  await repository.create(report);
+
+  return report;
+}
+
+/**
+ * 신고 처리 (조치 완료/기각)
+ * @param {AdminRepositories} repositories 관리자 저장소 묶음
+ * @param {AdminContext} admin 작업한 관리자
+ * @param {string} reportId 신고 ID
+ * @param {ContentReportResolutionRequest} request 처리 결과와 메모
+ */
+export async function resolveContentReport(
+  repositories: AdminRepositories,
+  admin: AdminContext,
+  reportId: string,
+  request: ContentReportResolutionRequest
+): Promise<ContentReport> {
+  const resolutionNote = normalizeNote(request.resolutionNote, "resolutionNote");
+
+  const report = await repositories.reports.get(reportId);
+  if (!report) throw new NotFoundError("신고를 찾을 수 없습니다.");
+  if (report.status !== "open") {
+    throw new ConflictError("이미 처리된 신고입니다.", { status: report.status });
+  }
+
+  const updated = await repositories.reports.updateStatus(reportId, "open", {
+    status: request.status,
+    resolvedAt: new Date().toISOString(),
+    resolvedBy: admin.userId,
+    resolutionNote,
+  });
+  if (!updated) {
+    throw new ConflictError("다른 관리자가 먼저 처리했습니다. 다시 확인해주세요.");
+  }
+
+  await recordAdminAction(repositories.auditLog, admin, {
+    action: request.status === "resolved" ? "report.resolve" : "report.dismiss",
+    targetType: "report",
+    targetId: reportId,
+    details: {
+      reportTargetType: report.targetType,
+      reportTargetId: report.targetId,
+      reason: report.reason,
+      resolutionNote,
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * 관리자 동물 조회 (공고 + 입양 신청 + 신고)
+ *
+ * 공고 조회에 실패해도 신청/신고 내역은 보여줄 수 있도록 공고만 비워 반환합니다.
+ * @param {AdminRepositories} repositories 관리자 저장소 묶음
+ * @param {string} petId 유기번호
+ */
+export async function getAdminPetOverview(
+  repositories: AdminRepositories,
+  petId: string
+): Promise<AdminPetOverview> {
+  const [animal, applications, reports] = await Promise.all([
+    lookupAnimal(petId)
+      .then((result) => result.animal)
+      .catch((error) => {
+        console.warn(`관리자 동물 조회 실패 (${petId}):`, error);
+        return null;
+      }),
+    repositories.applications.list({ petId }),
+    repositories.reports.list({ targetType: "pet", targetId: petId }),
+  ]);
+
+  return { petId, animal, applications, reports };
+}
@@ -0,0 +1,31 @@
+/**
+ * 관리자 권한 확인 (서버 전용)
+ *
+ * 관리자 역할은 Supabase app_metadata.role로 확인하고 (서버에서만 설정 가능),
+ * 기능별 권한은 ROLE_PERMISSIONS 표로 확인합니다.
+ */
+
+import type { NextRequest } from "next/server";
+import type { Permission } from "@/types/user";
+import { requireRequestPermission } from "../request-identity";
+import type { AdminContext } from "./types";
+
+/**
+ * 요청자가 관리자 기능을 쓸 수 있는지 확인
+ *
+ * 로그인하지 않았으면 AuthenticationError, 권한이 없으면 AuthorizationError를 던집니다.
+ * @param {NextRequest} request 요청
+ * @param {Permission} permission 필요한 권한 (기본: 관리자 콘솔 접근)
+ */
+export async function requireAdmin(
+  request: NextRequest,
+  permission: Permission = "access:admin"
+): Promise<AdminContext> {
+  const user = await requireRequestPermission(
+    request,
+    permission,
+    "관리자만 이용할 수 있습니다."
+  );
+
+  return { userId: user.id };
+}
@@ -0,0 +1,135 @@
+/**
+ * 관리자 콘솔 (서버 전용)
+ *
+ * ADMIN_STORE 환경변수로 감사 로그/신고 저장소를 선택합니다.
+ * - supabase: admin_audit_log, content_reports 테이블 (SUPABASE_SERVICE_ROLE_KEY 필요)
+ * - memory: 서버 프로세스 메모리 (개발/테스트용, 기본값)
+ *
+ * 사용자 디렉터리는 SUPABASE_SERVICE_ROLE_KEY가 있으면 Supabase Auth를,
+ * 없으면 빈 메모리 디렉터리를 사용합니다.
+ */
+
+import { getSupabaseAdminClient } from "../supabase-admin";
+import { getAdoptionApplicationRepository } from "../applications";
+import { getShelterStaffRepository } from "../shelter-staff";
+import {
+  createMemoryAuditLogRepository,
+  createMemoryContentReportRepository,
+  createMemoryUserDirectory,
+} from "./memory-repository";
+import {
+  createSupabaseAuditLogRepository,
+  createSupabaseContentReportRepository,
+  createSupabaseUserDirectory,
+} from "./supabase-repository";
+import type {
+  AdminRepositories,
+  AuditLogRepository,
+  ContentReportRepository,
+  UserDirectory,
+} from "./types";
+
+export * from "./types";
+export {
+  createMemoryAuditLogRepository,
+  createMemoryContentReportRepository,
+  createMemoryUserDirectory,
+} from "./memory-repository";
+export {
+  createSupabaseAuditLogRepository,
+  createSupabaseContentReportRepository,
+  createSupabaseUserDirectory,
+} from "./supabase-repository";
+export { requireAdmin } from "./authorization";
+export {
+  recordAdminAction,
+  getAdminDashboard,
+  updateUserAccount,
+  reviewShelterMembership,
+  submitContentReport,
+  resolveContentReport,
+  getAdminPetOverview,
+} from "./admin-service";
+
+let userDirectory: UserDirectory | undefined;
+let auditLogRepository: AuditLogRepository | undefined;
+let reportRepository: ContentReportRepository | undefined;
+
+/**
+ * ADMIN_STORE=supabase일 때 사용할 Supabase 클라이언트
+ */
+function getAdminStoreClient() {
+  if (process.env.ADMIN_STORE !== "supabase") return null;
+
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    console.error(
+      "관리자 저장소로 supabase가 지정되었지만 SUPABASE_SERVICE_ROLE_KEY가 없습니다. 메모리 저장소를 사용합니다."
+    );
+  }
+  return client;
+}
+
+/**
+ * 사용자 디렉터리 조회
+ */
+export function getUserDirectory(): UserDirectory {
+  if (!userDirectory) {
+    const client = getSupabaseAdminClient();
+    userDirectory = client
+      ? createSupabaseUserDirectory(client)
+      : createMemoryUserDirectory();
+  }
+  return userDirectory;
+}
+
+/**
+ * 감사 로그 저장소 조회
+ */
+export function getAuditLogRepository(): AuditLogRepository {
+  if (!auditLogRepository) {
+    const client = getAdminStoreClient();
+    auditLogRepository = client
+      ? createSupabaseAuditLogRepository(client)
+      : createMemoryAuditLogRepository();
+  }
+  return auditLogRepository;
+}
+
+/**
+ * 신고 저장소 조회
+ */
+export function getContentReportRepository(): ContentReportRepository {
+  if (!reportRepository) {
+    const client = getAdminStoreClient();
+    reportRepository = client
+      ? createSupabaseContentReportRepository(client)
+      : createMemoryContentReportRepository();
+  }
+  return reportRepository;
+}
+
+/**
+ * 관리자 콘솔 저장소 묶음 조회
+ */
+export function getAdminRepositories(): AdminRepositories {
+  return {
+    users: getUserDirectory(),
+    auditLog: getAuditLogRepository(),
+    reports: getContentReportRepository(),
+    shelterStaff: getShelterStaffRepository(),
+    applications: getAdoptionApplicationRepository(),
+  };
+}
+
+/**
+ * 관리자 저장소 교체 (지정한 저장소만)
+ * @param {Partial<Pick<AdminRepositories, "users" | "auditLog" | "reports">>} repositories 교체할 저장소
+ */
+export function configureAdminRepositories(
+  repositories: Partial<Pick<AdminRepositories, "users" | "auditLog" | "reports">>
+) {
+  if (repositories.users) userDirectory = repositories.users;
+  if (repositories.auditLog) auditLogRepository = repositories.auditLog;
+  if (repositories.reports) reportRepository = repositories.reports;
+}
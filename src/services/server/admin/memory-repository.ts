@@ -0,0 +1,145 @@
+/**
+ * 메모리 관리자 저장소 (서버 전용)
+ *
+ * 단일 서버 프로세스와 테스트용 저장소입니다. 재시작하면 감사 로그와 신고 내역이 사라집니다.
+ */
+
+import type { AdminAuditLogEntry, ContentReport } from "@/types/api";
+import type { User } from "@/types/user";
+import { ConflictError, NotFoundError } from "@/services/api/api-errors";
+import type {
+  AuditLogRepository,
+  ContentReportQuery,
+  ContentReportRepository,
+  UserDirectory,
+} from "./types";
+import { countUsers, searchUsers } from "./user-query";
+
+/**
+ * 메모리 사용자 디렉터리 생성
+ * @param {User[]} initial 초기 사용자 목록
+ */
+export function createMemoryUserDirectory(initial: User[] = []): UserDirectory {
+  const users = new Map<string, User>(
+    initial.map((user) => [user.id, structuredClone(user)])
+  );
+
+  return {
+    search: async (query) =>
+      searchUsers(
+        Array.from(users.values()).map((user) => structuredClone(user)),
+        query,
+        true
+      ),
+
+    get: async (userId) => {
+      const user = users.get(userId);
+      return user ? structuredClone(user) : null;
+    },
+
+    update: async (userId, patch) => {
+      const user = users.get(userId);
+      if (!user) throw new NotFoundError("사용자를 찾을 수 없습니다.");
+
+      const updated = { ...user, ...patch, updatedAt: new Date().toISOString() };
+      users.set(userId, updated);
+      return structuredClone(updated);
+    },
+
+    count: async () => countUsers(Array.from(users.values()), true),
+  };
+}
+
+/**
+ * 메모리 감사 로그 저장소 생성
+ * @param {AdminAuditLogEntry[]} initial 초기 감사 로그
+ */
+export function createMemoryAuditLogRepository(
+  initial: AdminAuditLogEntry[] = []
+): AuditLogRepository {
+  const entries = initial.map((entry) => structuredClone(entry));
+
+  return {
+    append: async (entry) => {
+      entries.push(structuredClone(entry));
+    },
+
+    // 같은 시각에 기록된 항목은 나중에 추가된 것이 먼저 오도록 뒤집은 뒤 정렬
+    list: async (query) =>
+      [...entries]
+        .reverse()
+        .filter(
+          (entry) =>
+            (!query.actorId || entry.actorId === query.actorId) &&
+            (!query.targetId || entry.targetId === query.targetId)
+        )
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, query.limit)
+        .map((entry) => structuredClone(entry)),
+  };
+}
+
+/**
+ * 조회 조건 일치 여부
+ */
+function matchesReportQuery(report: ContentReport, query: ContentReportQuery): boolean {
+  if (query.statuses && !query.statuses.includes(report.status)) return false;
+  if (query.targetType && report.targetType !== query.targetType) return false;
+  if (query.targetId && report.targetId !== query.targetId) return false;
+  return true;
+}
+
+/**
+ * 메모리 신고 저장소 생성
+ * @param {ContentReport[]} initial 초기 신고 목록
+ */
+export function createMemoryContentReportRepository(
+  initial: ContentReport[] = []
+): ContentReportRepository {
+  const reports = new Map<string, ContentReport>(
+    initial.map((report) => [report.id, structuredClone(report)])
+  );
+
+  return {
+    create: async (report) => {
+      const duplicate = Array.from(reports.values()).some(
+        (existing) =>
+          existing.status === "open" &&
+          existing.reporterId === report.reporterId &&
+          existing.targetType === report.targetType &&
+          existing.targetId === report.targetId
+      );
+      if (duplicate) throw new ConflictError("이미 신고가 접수되었습니다.");
+
+      reports.set(report.id, structuredClone(report));
+    },
+
+    get: async (id) => {
+      const report = reports.get(id);
+      return report ? structuredClone(report) : null;
+    },
+
+    list: async (query) =>
+      Array.from(reports.values())
+        .filter((report) => matchesReportQuery(report, query))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map((report) => structuredClone(report)),
+
+    countByStatus: async () => {
+      const counts = { open: 0, resolved: 0, dismissed: 0 };
+      reports.forEach((report) => {
+        counts[report.status] += 1;
+      });
+      return counts;
+    },
+
+    updateStatus: async (id, expectedStatus, patch) => {
+      const report = reports.get(id);
+      if (!report || report.status !== expectedStatus) return null;
+
+      const updated = { ...report, ...patch };
+      reports.set(id, updated);
+      return structuredClone(updated);
+    },
+  };
+}
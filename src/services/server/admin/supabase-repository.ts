@@ -0,0 +1,332 @@
+/**
+ * Supabase 관리자 저장소 (서버 전용)
+ *
+ * 사용자는 Supabase Auth 관리 API로, 감사 로그와 신고는
+ * supabase/migrations의 admin_audit_log, content_reports 테이블을 서비스 롤로 사용합니다.
+ * 계정 비활성화는 app_metadata.is_active와 로그인 차단(ban)을 함께 설정합니다.
+ */
+
+import type { SupabaseClient, User as SupabaseUser } from "@supabase/supabase-js";
+import type {
+  AdminAuditLogEntry,
+  ContentReport,
+  ContentReportStatus,
+  ContentReportTargetType,
+} from "@/types/api";
+import type { AuthProvider, User } from "@/types/user";
+import { ConflictError } from "@/services/api/api-errors";
+import { resolveUserActive, resolveUserRole } from "@/services/api/user-roles";
+import { ADMIN_SETTINGS } from "@/utils/constants/api";
+import type {
+  AuditLogRepository,
+  ContentReportRepository,
+  UserDirectory,
+} from "./types";
+import { countUsers, searchUsers } from "./user-query";
+
+const AUDIT_LOG_TABLE = "admin_audit_log";
+const REPORTS_TABLE = "content_reports";
+const REPORT_STATUSES: ContentReportStatus[] = ["open", "resolved", "dismissed"];
+
+/**
+ * 고유 제약 위반 오류 코드 (PostgreSQL)
+ */
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * admin_audit_log 행
+ */
+interface AdminAuditLogRow {
+  id: string;
+  actor_id: string;
+  action: AdminAuditLogEntry["action"];
+  target_type: AdminAuditLogEntry["targetType"];
+  target_id: string;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+/**
+ * content_reports 행
+ */
+interface ContentReportRow {
+  id: string;
+  target_type: ContentReportTargetType;
+  target_id: string;
+  reporter_id: string;
+  reason: string;
+  details: string | null;
+  status: ContentReportStatus;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+}
+
+/**
+ * Supabase 오류를 Error로 변환하여 throw
+ */
+function assertNoError(error: { message: string } | null, action: string) {
+  if (error) {
+    throw new Error(`관리자 저장소 ${action} 실패: ${error.message}`);
+  }
+}
+
+/**
+ * Supabase Auth 사용자를 User로 변환
+ */
+function toUser(authUser: SupabaseUser): User {
+  const metadata = authUser.user_metadata ?? {};
+  const email = authUser.email ?? "";
+  const username = metadata.username || email.split("@")[0] || "user";
+
+  return {
+    id: authUser.id,
+    email,
+    username,
+    displayName: metadata.full_name || metadata.name || username,
+    avatar: metadata.avatar_url || metadata.picture,
+    role: resolveUserRole(authUser.app_metadata),
+    authProvider: (authUser.app_metadata?.provider as AuthProvider) || "email",
+    emailVerified: !!authUser.email_confirmed_at,
+    phoneNumber: authUser.phone || undefined,
+    phoneVerified: !!authUser.phone_confirmed_at,
+    isActive: resolveUserActive(authUser.app_metadata),
+    lastLoginAt: authUser.last_sign_in_at,
+    createdAt: authUser.created_at,
+    updatedAt: authUser.updated_at || authUser.created_at,
+  };
+}
+
+/**
+ * Supabase Auth 사용자 디렉터리 생성
+ *
+ * Auth 관리 API는 검색을 지원하지 않으므로 USER_SCAN_MAX_PAGES까지 가져온 뒤 거릅니다.
+ * @param {SupabaseClient} client 서비스 롤 Supabase 클라이언트
+ */
+export function createSupabaseUserDirectory(client: SupabaseClient): UserDirectory {
+  /**
+   * 조회 한도까지 사용자 목록 조회
+   */
+  const scanUsers = async (): Promise<{ users: User[]; exact: boolean }> => {
+    const users: User[] = [];
+
+    for (let page = 1; page <= ADMIN_SETTINGS.USER_SCAN_MAX_PAGES; page++) {
+      const { data, error } = await client.auth.admin.listUsers({
+        page,
+        perPage: ADMIN_SETTINGS.USER_SCAN_PAGE_SIZE,
+      });
+      assertNoError(error, "사용자 목록 조회");
+
+      users.push(...data.users.map(toUser));
+      if (data.users.length < ADMIN_SETTINGS.USER_SCAN_PAGE_SIZE) {
+        return { users, exact: true };
+      }
+    }
+
+    return { users, exact: false };
+  };
+
+  return {
+    search: async (query) => {
+      const { users, exact } = await scanUsers();
+      return searchUsers(users, query, exact);
+    },
+
+    get: async (userId) => {
+      const { data, error } = await client.auth.admin.getUserById(userId);
+      if (error?.status === 404) return null;
+      assertNoError(error, "사용자 조회");
+
+      return data.user ? toUser(data.user) : null;
+    },
+
+    update: async (userId, patch) => {
+      const appMetadata: Record<string, unknown> = {};
+      if (patch.role !== undefined) appMetadata.role = patch.role;
+      if (patch.isActive !== undefined) appMetadata.is_active = patch.isActive;
+
+      const { data, error } = await client.auth.admin.updateUserById(userId, {
+        app_metadata: appMetadata,
+        ...(patch.isActive !== undefined && {
+          ban_duration: patch.isActive
+            ? "none"
+            : ADMIN_SETTINGS.DEACTIVATION_BAN_DURATION,
+        }),
+      });
+      assertNoError(error, "사용자 변경");
+
+      return toUser(data.user as SupabaseUser);
+    },
+
+    count: async () => {
+      const { users, exact } = await scanUsers();
+      return countUsers(users, exact);
+    },
+  };
+}
+
+/**
+ * Supabase 감사 로그 저장소 생성
+ * @param {SupabaseClient} client 서비스 롤 Supabase 클라이언트
+ */
+export function createSupabaseAuditLogRepository(
+  client: SupabaseClient
+): AuditLogRepository {
+  return {
+    append: async (entry) => {
+      const row: AdminAuditLogRow = {
+        id: entry.id,
+        actor_id: entry.actorId,
+        action: entry.action,
+        target_type: entry.targetType,
+        target_id: entry.targetId,
+        details: entry.details,
+        created_at: entry.createdAt,
+      };
+      const { error } = await client.from(AUDIT_LOG_TABLE).insert(row);
+      assertNoError(error, "감사 로그 저장");
+    },
+
+    list: async (query) => {
+      let request = client.from(AUDIT_LOG_TABLE).select("*");
+      if (query.actorId) request = request.eq("actor_id", query.actorId);
+      if (query.targetId) request = request.eq("target_id", query.targetId);
+
+      const { data, error } = await request
+        .order("created_at", { ascending: false })
+        .limit(query.limit);
+      assertNoError(error, "감사 로그 조회");
+
+      return ((data ?? []) as AdminAuditLogRow[]).map((row) => ({
+        id: row.id,
+        actorId: row.actor_id,
+        action: row.action,
+        targetType: row.target_type,
+        targetId: row.target_id,
+        details: row.details ?? {},
+        createdAt: row.created_at,
+      }));
+    },
+  };
+}
+
+/**
+ * 신고를 행으로 변환
+ */
+function toReportRow(report: ContentReport): ContentReportRow {
+  return {
+    id: report.id,
+    target_type: report.targetType,
+    target_id: report.targetId,
+    reporter_id: report.reporterId,
+    reason: report.reason,
+    details: report.details ?? null,
+    status: report.status,
+    created_at: report.createdAt,
+    resolved_at: report.resolvedAt ?? null,
+    resolved_by: report.resolvedBy ?? null,
+    resolution_note: report.resolutionNote ?? null,
+  };
+}
+
+/**
+ * 행을 신고로 변환
+ */
+function fromReportRow(row: ContentReportRow): ContentReport {
+  return {
+    id: row.id,
+    targetType: row.target_type,
+    targetId: row.target_id,
+    reporterId: row.reporter_id,
+    reason: row.reason,
+    details: row.details ?? undefined,
+    status: row.status,
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at ?? undefined,
+    resolvedBy: row.resolved_by ?? undefined,
+    resolutionNote: row.resolution_note ?? undefined,
+  };
+}
+
+/**
+ * Supabase 신고 저장소 생성
+ *
+ * 같은 신고자의 같은 대상 접수 중 신고 중복은 부분 고유 인덱스로 막습니다.
+ * @param {SupabaseClient} client 서비스 롤 Supabase 클라이언트
+ */
+export function createSupabaseContentReportRepository(
+  client: SupabaseClient
+): ContentReportRepository {
+  return {
+    create: async (report) => {
+      const { error } = await client.from(REPORTS_TABLE).insert(toReportRow(report));
+
+      if (error && "code" in error && error.code === UNIQUE_VIOLATION) {
+        throw new ConflictError("이미 신고가 접수되었습니다.");
+      }
+      assertNoError(error, "신고 저장");
+    },
+
+    get: async (id) => {
+      const { data, error } = await client
+        .from(REPORTS_TABLE)
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+      assertNoError(error, "신고 조회");
+
+      return data ? fromReportRow(data as ContentReportRow) : null;
+    },
+
+    list: async (query) => {
+      let request = client.from(REPORTS_TABLE).select("*");
+      if (query.statuses) request = request.in("status", query.statuses);
+      if (query.targetType) request = request.eq("target_type", query.targetType);
+      if (query.targetId) request = request.eq("target_id", query.targetId);
+
+      const { data, error } = await request.order("created_at", {
+        ascending: false,
+      });
+      assertNoError(error, "신고 목록 조회");
+
+      return ((data ?? []) as ContentReportRow[]).map(fromReportRow);
+    },
+
+    countByStatus: async () => {
+      const results = await Promise.all(
+        REPORT_STATUSES.map((status) =>
+          client
+            .from(REPORTS_TABLE)
+            .select("id", { count: "exact", head: true })
+            .eq("status", status)
+        )
+      );
+
+      return Object.fromEntries(
+        REPORT_STATUSES.map((status, index) => {
+          assertNoError(results[index].error, "신고 집계");
+          return [status, results[index].count ?? 0];
+        })
+      ) as Record<ContentReportStatus, number>;
+    },
+
+    updateStatus: async (id, expectedStatus, patch) => {
+      const { data, error } = await client
+        .from(REPORTS_TABLE)
+        .update({
+          status: patch.status,
+          resolved_at: patch.resolvedAt ?? null,
+          resolved_by: patch.resolvedBy ?? null,
+          resolution_note: patch.resolutionNote ?? null,
+        })
+        .eq("id", id)
+        .eq("status", expectedStatus)
+        .select("*")
+        .maybeSingle();
+      assertNoError(error, "신고 처리");
+
+      return data ? fromReportRow(data as ContentReportRow) : null;
+    },
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * 관리자 콘솔 타입 정의 (서버 전용)
+ */
+
+import type {
+  AdminAuditLogEntry,
+  AdminUserList,
+  ContentReport,
+  ContentReportStatus,
+  ContentReportTargetType,
+} from "@/types/api";
+import type { User, UserRole } from "@/types/user";
+import type { AdoptionApplicationRepository } from "../applications";
+import type { ShelterStaffRepository } from "../shelter-staff";
+
+/**
+ * 사용자 검색 조건
+ */
+export interface AdminUserQuery {
+  keyword?: string; // 이메일/아이디/이름 부분 일치 또는 사용자 ID
+  role?: UserRole;
+  isActive?: boolean;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * 사용자 집계
+ */
+export interface AdminUserCounts {
+  total: number;
+  active: number;
+  inactive: number;
+  byRole: Record<UserRole, number>;
+  exact: boolean; // false면 조회 한도를 넘어 일부 사용자만 집계한 경우
+}
+
+/**
+ * 사용자 계정 변경 내용
+ */
+export interface AdminUserPatch {
+  isActive?: boolean;
+  role?: UserRole;
+}
+
+/**
+ * 사용자 디렉터리 인터페이스 (Supabase Auth 사용자)
+ */
+export interface UserDirectory {
+  /** 사용자 검색 (최근 가입 순) */
+  search(query: AdminUserQuery): Promise<AdminUserList>;
+  /** ID로 조회 */
+  get(userId: string): Promise<User | null>;
+  /** 계정 활성 여부/역할 변경 */
+  update(userId: string, patch: AdminUserPatch): Promise<User>;
+  /** 역할/활성 여부별 사용자 수 */
+  count(): Promise<AdminUserCounts>;
+}
+
+/**
+ * 감사 로그 조회 조건
+ */
+export interface AuditLogQuery {
+  actorId?: string;
+  targetId?: string;
+  limit: number;
+}
+
+/**
+ * 관리자 작업 감사 로그 저장소 인터페이스 (추가만 가능)
+ */
+export interface AuditLogRepository {
+  /** 감사 로그 추가 */
+  append(entry: AdminAuditLogEntry): Promise<void>;
+  /** 조건별 조회 (최근 순) */
+  list(query: AuditLogQuery): Promise<AdminAuditLogEntry[]>;
+}
+
+/**
+ * 신고 조회 조건 (지정한 조건은 모두 AND)
+ */
+export interface ContentReportQuery {
+  statuses?: ContentReportStatus[];
+  targetType?: ContentReportTargetType;
+  targetId?: string;
+}
+
+/**
+ * 신고 처리 내용
+ */
+export type ContentReportResolutionPatch = Pick<
+  ContentReport,
+  "status" | "resolvedAt" | "resolvedBy" | "resolutionNote"
+>;
+
+/**
+ * 신고 저장소 인터페이스
+ */
+export interface ContentReportRepository {
+  /** 신고 저장 (같은 신고자가 같은 대상을 이미 신고해 접수 중이면 ConflictError) */
+  create(report: ContentReport): Promise<void>;
+  /** ID로 조회 */
+  get(id: string): Promise<ContentReport | null>;
+  /** 조건별 조회 (최근 신고 순) */
+  list(query: ContentReportQuery): Promise<ContentReport[]>;
+  /** 처리 상태별 신고 수 */
+  countByStatus(): Promise<Record<ContentReportStatus, number>>;
+  /**
+   * 처리 상태 변경
+   *
+   * 현재 상태가 expectedStatus일 때만 변경하며, 그 사이 다른 요청이 상태를 바꿨으면 null을 반환합니다.
+   */
+  updateStatus(
+    id: string,
+    expectedStatus: ContentReportStatus,
+    patch: ContentReportResolutionPatch
+  ): Promise<ContentReport | null>;
+}
+
+/**
+ * 관리자 콘솔이 사용하는 저장소 묶음
+ */
+export interface AdminRepositories {
+  users: UserDirectory;
+  auditLog: AuditLogRepository;
+  reports: ContentReportRepository;
+  shelterStaff: ShelterStaffRepository;
+  applications: AdoptionApplicationRepository;
+}
+
+/**
+ * 인증된 관리자 (요청 단위)
+ */
+export interface AdminContext {
+  userId: string;
+}
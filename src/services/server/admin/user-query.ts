@@ -0,0 +1,82 @@
+/**
+ * 사용자 검색/집계 (서버 전용)
+ *
+ * Supabase Auth는 사용자 검색을 지원하지 않으므로, 가져온 사용자 목록을
+ * 메모리/Supabase 디렉터리가 같은 기준으로 거르고 나눕니다.
+ */
+
+import type { AdminUserList } from "@/types/api";
+import type { User } from "@/types/user";
+import type { AdminUserCounts, AdminUserQuery } from "./types";
+
+/**
+ * 검색 조건 일치 여부
+ */
+function matchesQuery(user: User, query: AdminUserQuery): boolean {
+  if (query.role && user.role !== query.role) return false;
+  if (query.isActive !== undefined && user.isActive !== query.isActive) return false;
+
+  const keyword = query.keyword?.trim().toLowerCase();
+  if (!keyword) return true;
+
+  return (
+    user.id === keyword ||
+    [user.email, user.username, user.displayName].some((value) =>
+      value.toLowerCase().includes(keyword)
+    )
+  );
+}
+
+/**
+ * 사용자 검색 결과 페이지 구성 (최근 가입 순)
+ * @param {User[]} users 전체(또는 조회 한도까지의) 사용자
+ * @param {AdminUserQuery} query 검색 조건
+ * @param {boolean} exact 전체 사용자를 조회했는지 여부
+ */
+export function searchUsers(
+  users: User[],
+  query: AdminUserQuery,
+  exact: boolean
+): AdminUserList {
+  const matched = users
+    .filter((user) => matchesQuery(user, query))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const totalPages = Math.max(1, Math.ceil(matched.length / query.pageSize));
+  const start = (query.page - 1) * query.pageSize;
+
+  return {
+    users: matched.slice(start, start + query.pageSize),
+    pagination: {
+      page: query.page,
+      pageSize: query.pageSize,
+      totalCount: matched.length,
+      totalPages,
+      hasNext: query.page < totalPages,
+      hasPrevious: query.page > 1,
+    },
+    exact,
+  };
+}
+
+/**
+ * 역할/활성 여부별 사용자 수 집계
+ * @param {User[]} users 전체(또는 조회 한도까지의) 사용자
+ * @param {boolean} exact 전체 사용자를 조회했는지 여부
+ */
+export function countUsers(users: User[], exact: boolean): AdminUserCounts {
+  const counts: AdminUserCounts = {
+    total: users.length,
+    active: 0,
+    inactive: 0,
+    byRole: { user: 0, shelter: 0, admin: 0 },
+    exact,
+  };
+
+  users.forEach((user) => {
+    if (user.isActive) counts.active += 1;
+    else counts.inactive += 1;
+    counts.byRole[user.role] += 1;
+  });
+
+  return counts;
+}
@@ -0,0 +1,173 @@
+/**
+ * 유기동물 서버 인덱스 (서버 전용)
+ *
+ * 목록 조회 등으로 최근에 확인한 AbandonmentAnimalItem을 유기번호 기준으로 보관하여
+ * 상세 조회 시 업스트림 페이지를 반복해서 훑지 않도록 합니다.
+ * 인덱스에 없으면 축종/상태 버킷을 제한된 횟수만큼 검색하는 폴백을 수행합니다.
+ */
+
+import type { AbandonmentAnimalItem } from "@/types/api";
+import { ANIMAL_INDEX_SETTINGS } from "@/utils/constants/api";
+import { ANIMAL_TYPE_CODES } from "@/services/api/animal-api";
+import {
+  fetchFromPublicAPICached,
+  PUBLIC_API_ENDPOINTS,
+} from "./public-data-client";
+import { extractAnimalRecords } from "./animal-records";
+
+/**
+ * 인덱스 엔트리
+ */
+interface AnimalIndexEntry {
+  animal: AbandonmentAnimalItem;
+  indexedAt: number;
+}
+
+/**
+ * 상세 조회 결과
+ */
+export interface AnimalLookupResult {
+  animal: AbandonmentAnimalItem | null;
+  source: "index" | "fallback" | "none";
+  upstreamRequests: number;
+}
+
+/**
+ * 유기번호 → 동물 정보 맵 (삽입 순서를 LRU 순서로 사용)
+ */
+const entries = new Map<string, AnimalIndexEntry>();
+
+/**
+ * 동일 유기번호에 대한 동시 폴백 검색 공유
+ */
+const pendingLookups = new Map<string, Promise<AnimalLookupResult>>();
+
+/**
+ * 오래된 엔트리 정리 (최대 개수 초과분을 오래된 순으로 제거)
+ */
+function evictOverflow(): void {
+  while (entries.size > ANIMAL_INDEX_SETTINGS.MAX_ENTRIES) {
+    const oldestKey = entries.keys().next().value;
+    if (oldestKey === undefined) break;
+    entries.delete(oldestKey);
+  }
+}
+
+/**
+ * 유기동물 인덱스
+ */
+export const animalIndex = {
+  /**
+   * 조회된 동물들을 인덱스에 기록
+   * @param {AbandonmentAnimalItem[]} animals 업스트림에서 받은 동물 목록
+   */
+  remember: (animals: AbandonmentAnimalItem[]): void => {
+    const now = Date.now();
+    animals.forEach((animal) => {
+      if (!animal?.desertionNo) return;
+      entries.delete(animal.desertionNo);
+      entries.set(animal.desertionNo, { animal, indexedAt: now });
+    });
+    evictOverflow();
+  },
+
+  /**
+   * 유기번호로 인덱스 조회 (만료된 엔트리는 제거)
+   * @param {string} desertionNo 유기번호
+   */
+  get: (desertionNo: string): AbandonmentAnimalItem | null => {
+    const entry = entries.get(desertionNo);
+    if (!entry) return null;
+
+    if (Date.now() - entry.indexedAt > ANIMAL_INDEX_SETTINGS.TTL) {
+      entries.delete(desertionNo);
+      return null;
+    }
+
+    // 최근 사용 순서 갱신
+    entries.delete(desertionNo);
+    entries.set(desertionNo, entry);
+    return entry.animal;
+  },
+
+  /**
+   * 현재 인덱스 크기
+   */
+  size: (): number => entries.size,
+
+  /**
+   * 인덱스 초기화
+   */
+  clear: (): void => {
+    entries.clear();
+  },
+};
+
+/**
+ * 축종/상태 버킷을 순회하며 유기번호 검색 (업스트림 호출 수 제한)
+ * @param {string} desertionNo 유기번호
+ */
+async function searchUpstream(
+  desertionNo: string
+): Promise<AnimalLookupResult> {
+  const upkinds = Object.values(ANIMAL_TYPE_CODES);
+  const pageSize = ANIMAL_INDEX_SETTINGS.FALLBACK_PAGE_SIZE;
+  let upstreamRequests = 0;
+
+  for (const state of ANIMAL_INDEX_SETTINGS.FALLBACK_STATES) {
+    for (const upkind of upkinds) {
+      let pageNo = 1;
+
+      while (upstreamRequests < ANIMAL_INDEX_SETTINGS.FALLBACK_MAX_REQUESTS) {
+        const { value: response, status } =
+          await fetchFromPublicAPICached<AbandonmentAnimalItem>(
+            PUBLIC_API_ENDPOINTS.ANIMALS,
+            { upkind, state, pageNo, numOfRows: pageSize }
+          );
+        if (status !== "HIT") upstreamRequests++;
+
+        const { animals, received } = extractAnimalRecords(response);
+        animalIndex.remember(animals);
+
+        const found = animals.find((item) => item.desertionNo === desertionNo);
+        if (found) {
+          return { animal: found, source: "fallback", upstreamRequests };
+        }
+
+        const totalCount = response.response.body.totalCount || 0;
+        if (received < pageSize || pageNo * pageSize >= totalCount) {
+          break;
+        }
+        pageNo++;
+      }
+
+      if (upstreamRequests >= ANIMAL_INDEX_SETTINGS.FALLBACK_MAX_REQUESTS) {
+        return { animal: null, source: "none", upstreamRequests };
+      }
+    }
+  }
+
+  return { animal: null, source: "none", upstreamRequests };
+}
+
+/**
+ * 유기번호로 동물 조회 (인덱스 우선, 없으면 제한된 폴백 검색)
+ * @param {string} desertionNo 유기번호
+ */
+export async function lookupAnimal(
+  desertionNo: string
+): Promise<AnimalLookupResult> {
+  const indexed = animalIndex.get(desertionNo);
+  if (indexed) {
+    return { animal: indexed, source: "index", upstreamRequests: 0 };
+  }
+
+  const pending = pendingLookups.get(desertionNo);
+  if (pending) return pending;
+
+  const lookup = searchUpstream(desertionNo).finally(() => {
+    pendingLookups.delete(desertionNo);
+  });
+  pendingLookups.set(desertionNo, lookup);
+  return lookup;
+}
@@ -0,0 +1,391 @@
+/**
+ * 업스트림 유기동물 레코드 검증 (서버 전용)
+ *
+ * abandonmentPublic_v2 응답의 각 아이템을 알려진 변형(날짜 구분자, 성별/중성화 표기,
+ * 나이/체중 표기 등)으로 정규화한 뒤 스키마로 검증합니다.
+ * 정규화로 값이 바뀐 레코드는 repaired로, 검증에 실패한 레코드는 격리(quarantine)하고
+ * 사유와 함께 기록하여 목록 전체가 깨지지 않도록 합니다.
+ */
+
+import { z } from "zod";
+import type {
+  AbandonmentAnimalItem,
+  PublicDataResponse,
+  RecordValidationSummary,
+} from "@/types/api";
+import { ANIMAL_RECORD_SETTINGS } from "@/utils/constants/api";
+import { ANIMAL_TYPE_CODES } from "@/services/api/animal-api";
+import { extractItems } from "./public-data-client";
+
+/**
+ * 레코드 검증 결과
+ */
+export type AnimalRecordValidation =
+  | { status: "valid"; animal: AbandonmentAnimalItem }
+  | { status: "repaired"; animal: AbandonmentAnimalItem; repairs: string[] }
+  | { status: "dropped"; reasons: string[] };
+
+/**
+ * 격리된 레코드
+ */
+export interface QuarantinedAnimalRecord {
+  desertionNo: string | null;
+  reasons: string[];
+  record: unknown;
+  quarantinedAt: string;
+}
+
+/**
+ * 응답 단위 검증 결과
+ */
+export interface AnimalRecordBatch extends RecordValidationSummary {
+  animals: AbandonmentAnimalItem[];
+  /** 업스트림이 보낸 아이템 수 (페이지 종료 판단용, 격리 전 개수) */
+  received: number;
+}
+
+const DATE_PATTERN = /^\d{8}$/;
+
+const animalRecordSchema = z.object({
+  desertionNo: z.string().regex(/^\d+$/, "유기번호가 없거나 숫자가 아닙니다."),
+  happenDt: z.string().regex(DATE_PATTERN, "접수일 형식이 올바르지 않습니다."),
+  noticeSdt: z.string().regex(DATE_PATTERN, "공고시작일 형식이 올바르지 않습니다.").or(z.literal("")),
+  noticeEdt: z.string().regex(DATE_PATTERN, "공고종료일 형식이 올바르지 않습니다.").or(z.literal("")),
+  upKindCd: z.string().regex(/^\d{6}$/, "축종 코드 형식이 올바르지 않습니다."),
+  sexCd: z.enum(["M", "F", "Q"]),
+  neuterYn: z.enum(["Y", "N", "U"]),
+  kindFullNm: z.string().min(1, "품종명이 없습니다."),
+  age: z.string().min(1, "나이를 해석할 수 없습니다."),
+  processState: z.string(),
+  careNm: z.string(),
+});
+
+/**
+ * 문자열로 표기되어야 하는 필드 (숫자/null로 오는 경우 문자열로 변환)
+ */
+const TEXT_FIELDS = [
+  "desertionNo",
+  "happenDt",
+  "happenPlace",
+  "kindFullNm",
+  "upKindCd",
+  "upKindNm",
+  "kindCd",
+  "kindNm",
+  "colorCd",
+  "age",
+  "weight",
+  "noticeNo",
+  "noticeSdt",
+  "noticeEdt",
+  "popfile1",
+  "processState",
+  "sexCd",
+  "neuterYn",
+  "specialMark",
+  "careRegNo",
+  "careNm",
+  "careTel",
+  "careAddr",
+  "careOwnerNm",
+  "orgNm",
+  "updTm",
+] as const;
+
+/**
+ * 축종명 → 축종 코드
+ */
+const UPKIND_BY_NAME: Record<string, string> = {
+  개: ANIMAL_TYPE_CODES.DOG,
+  고양이: ANIMAL_TYPE_CODES.CAT,
+  기타축종: ANIMAL_TYPE_CODES.OTHER,
+};
+
+/**
+ * 최근 격리된 레코드 (유기번호+사유 기준, 삽입 순서를 보관 순서로 사용)
+ *
+ * 캐시된 응답을 다시 검증할 때마다 같은 레코드가 중복 기록되지 않도록 키로 관리합니다.
+ */
+const quarantined = new Map<string, QuarantinedAnimalRecord>();
+
+/**
+ * 날짜 정규화 ("2024-01-02", "2024.01.02" → "20240102", 해석할 수 없으면 빈 값)
+ */
+function normalizeDate(value: string): string {
+  const match = value.trim().match(/^(\d{4})[-./]?(\d{1,2})[-./]?(\d{1,2})$/);
+  if (!match) return "";
+
+  const [, year, month, day] = match;
+  const isoDate = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(isoDate)
+    ? isoDate.replace(/-/g, "")
+    : "";
+}
+
+/**
+ * 성별 코드 정규화 (소문자/한글 표기 → M/F/Q)
+ */
+function normalizeSexCd(value: string): string {
+  const sex = value.trim().toUpperCase();
+  if (sex === "M" || sex === "수컷" || sex === "수") return "M";
+  if (sex === "F" || sex === "암컷" || sex === "암") return "F";
+  return "Q";
+}
+
+/**
+ * 중성화 여부 정규화 (소문자/한글 표기 → Y/N/U)
+ */
+function normalizeNeuterYn(value: string): string {
+  const neuter = value.trim().toUpperCase();
+  if (neuter === "Y" || neuter === "예" || neuter === "O") return "Y";
+  if (neuter === "N" || neuter === "아니오" || neuter === "X") return "N";
+  return "U";
+}
+
+/**
+ * 나이 정규화 ("2020년생", "2020" → "2020(년생)", 범위를 벗어난 출생년도는 빈 값)
+ *
+ * 빈 값은 어댑터에서 가장 어린 연령대로 분류되므로 스키마 검증에서 격리합니다.
+ */
+function normalizeAge(value: string): string {
+  const age = value.trim();
+  if (/^\d{4}(\([^)]*\))?\(년생\)$/.test(age)) {
+    const year = parseInt(age.slice(0, 4));
+    return isPlausibleBirthYear(year) ? age : "";
+  }
+
+  const yearMatch = age.match(/^(\d{4})\s*(년생|년)?$/);
+  if (yearMatch) {
+    const year = parseInt(yearMatch[1]);
+    return isPlausibleBirthYear(year) ? `${year}(년생)` : "";
+  }
+
+  // "3살", "6개월" 등 어댑터가 해석할 수 있는 표기는 유지
+  return /\d+\s*(살|개월|년)/.test(age) ? age : "";
+}
+
+/**
+ * 출생년도 범위 확인
+ */
+function isPlausibleBirthYear(year: number): boolean {
+  return year >= 1990 && year <= new Date().getFullYear();
+}
+
+/**
+ * 체중 정규화 ("5kg", "5 Kg", "5" → "5(Kg)", 해석할 수 없으면 빈 값)
+ */
+function normalizeWeight(value: string): string {
+  const weight = value.trim();
+  if (/^\d+(\.\d+)?\(Kg\)$/.test(weight)) return weight;
+
+  const match = weight.replace(",", ".").match(/^(\d+(?:\.\d+)?)\s*(\(?\s*kg\s*\)?)?$/i);
+  return match && parseFloat(match[1]) > 0 ? `${match[1]}(Kg)` : "";
+}
+
+/**
+ * 이미지 URL 정규화 (http/https가 아니면 빈 값)
+ */
+function normalizeImageUrl(value: string): string {
+  const url = value.trim();
+  return /^https?:\/\//i.test(url) ? url : "";
+}
+
+/**
+ * 레코드 정규화 (바뀐 필드 목록을 함께 반환)
+ * @param {Record<string, unknown>} raw 업스트림 아이템
+ */
+function normalizeRecord(raw: Record<string, unknown>): {
+  record: AbandonmentAnimalItem;
+  repairs: string[];
+} {
+  const repairs: string[] = [];
+  const record: Record<string, string | undefined> = {};
+
+  Object.entries(raw).forEach(([key, value]) => {
+    if (value === null || value === undefined) return;
+    record[key] = typeof value === "string" ? value : String(value);
+  });
+
+  /**
+   * 필드 값 교체 (값이 실제로 바뀐 경우만 repairs에 기록)
+   */
+  const apply = (field: string, next: string, reason: string) => {
+    if ((record[field] ?? "") !== next) {
+      repairs.push(`${field}: ${reason}`);
+    }
+    record[field] = next;
+  };
+
+  TEXT_FIELDS.forEach((field) => {
+    if (record[field] === undefined) apply(field, "", "누락되어 빈 값으로 채움");
+  });
+
+  apply("desertionNo", record.desertionNo!.trim(), "공백 제거");
+  apply("happenDt", normalizeDate(record.happenDt!), "날짜 형식 정규화");
+  apply("noticeSdt", normalizeDate(record.noticeSdt!), "날짜 형식 정규화");
+  apply("noticeEdt", normalizeDate(record.noticeEdt!), "날짜 형식 정규화");
+  apply("sexCd", normalizeSexCd(record.sexCd!), "성별 코드 정규화");
+  apply("neuterYn", normalizeNeuterYn(record.neuterYn!), "중성화 코드 정규화");
+  apply("age", normalizeAge(record.age!), "나이 표기 정규화");
+  apply("weight", normalizeWeight(record.weight!), "체중 표기 정규화");
+  apply("popfile1", normalizeImageUrl(record.popfile1!), "이미지 URL 정리");
+  if (record.popfile2 !== undefined) {
+    apply("popfile2", normalizeImageUrl(record.popfile2), "이미지 URL 정리");
+  }
+
+  // 접수일이 없으면 공고시작일로 대체
+  if (!DATE_PATTERN.test(record.happenDt!) && DATE_PATTERN.test(record.noticeSdt!)) {
+    apply("happenDt", record.noticeSdt!, "공고시작일로 대체");
+  }
+
+  // 축종 코드가 없으면 축종명 또는 "[개] 믹스견" 형태의 품종명에서 유추
+  if (!/^\d{6}$/.test(record.upKindCd!)) {
+    const speciesName =
+      record.upKindNm!.trim() || record.kindFullNm!.match(/^\[([^\]]+)\]/)?.[1] || "";
+    const upKindCd = UPKIND_BY_NAME[speciesName];
+    if (upKindCd) apply("upKindCd", upKindCd, "축종명으로 축종 코드 보완");
+  }
+
+  // 품종명 상호 보완
+  if (!record.kindFullNm!.trim() && record.kindNm!.trim()) {
+    const speciesName = record.upKindNm!.trim();
+    apply(
+      "kindFullNm",
+      speciesName ? `[${speciesName}] ${record.kindNm!.trim()}` : record.kindNm!.trim(),
+      "품종명으로 전체 품종명 보완"
+    );
+  }
+  if (!record.kindNm!.trim() && record.kindFullNm!.trim()) {
+    apply(
+      "kindNm",
+      record.kindFullNm!.replace(/\[[^\]]*\]/g, "").trim(),
+      "전체 품종명으로 품종명 보완"
+    );
+  }
+
+  return { record: record as AbandonmentAnimalItem, repairs };
+}
+
+/**
+ * 격리 기록
+ */
+function quarantine(raw: unknown, reasons: string[]): void {
+  const desertionNo =
+    raw && typeof raw === "object" && "desertionNo" in raw
+      ? String((raw as Record<string, unknown>).desertionNo ?? "") || null
+      : null;
+
+  const key = `${desertionNo ?? ""}|${reasons.join("|")}`;
+  const isNew = !quarantined.has(key);
+  quarantined.delete(key);
+  quarantined.set(key, {
+    desertionNo,
+    reasons,
+    record: raw,
+    quarantinedAt: new Date().toISOString(),
+  });
+  while (quarantined.size > ANIMAL_RECORD_SETTINGS.QUARANTINE_MAX_ENTRIES) {
+    const oldestKey = quarantined.keys().next().value;
+    if (oldestKey === undefined) break;
+    quarantined.delete(oldestKey);
+  }
+
+  if (!isNew) return;
+  console.warn(
+    `유기동물 레코드 격리 (${desertionNo ?? "유기번호 없음"}):`,
+    reasons.join(", ")
+  );
+}
+
+/**
+ * 업스트림 레코드 1건 검증
+ * @param {unknown} raw 업스트림 아이템
+ */
+export function validateAnimalRecord(raw: unknown): AnimalRecordValidation {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    const reasons = ["레코드가 객체가 아닙니다."];
+    quarantine(raw, reasons);
+    return { status: "dropped", reasons };
+  }
+
+  const { record, repairs } = normalizeRecord(raw as Record<string, unknown>);
+  const result = animalRecordSchema.safeParse(record);
+  if (!result.success) {
+    const reasons = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "record"}: ${issue.message}`
+    );
+    quarantine(raw, reasons);
+    return { status: "dropped", reasons };
+  }
+
+  return repairs.length > 0
+    ? { status: "repaired", animal: record, repairs }
+    : { status: "valid", animal: record };
+}
+
+/**
+ * 업스트림 응답에서 검증된 유기동물 목록 추출
+ * @param {PublicDataResponse<AbandonmentAnimalItem>} response 업스트림 응답
+ */
+export function extractAnimalRecords(
+  response: PublicDataResponse<AbandonmentAnimalItem>
+): AnimalRecordBatch {
+  const items: unknown[] = extractItems(response);
+  const batch: AnimalRecordBatch = {
+    animals: [],
+    received: items.length,
+    dropped: 0,
+    repaired: 0,
+  };
+
+  items.forEach((item) => {
+    const result = validateAnimalRecord(item);
+    if (result.status === "dropped") {
+      batch.dropped++;
+      return;
+    }
+    if (result.status === "repaired") batch.repaired++;
+    batch.animals.push(result.animal);
+  });
+
+  return batch;
+}
+
+/**
+ * 검증 결과 합산
+ * @param {RecordValidationSummary[]} summaries 응답별 검증 결과
+ */
+export function mergeValidationSummaries(
+  summaries: RecordValidationSummary[]
+): RecordValidationSummary {
+  return summaries.reduce(
+    (total, summary) => ({
+      dropped: total.dropped + summary.dropped,
+      repaired: total.repaired + summary.repaired,
+    }),
+    { dropped: 0, repaired: 0 }
+  );
+}
+
+/**
+ * 격리된 레코드 조회/관리
+ */
+export const animalQuarantine = {
+  /**
+   * 최근 격리된 레코드 (최신순)
+   */
+  list: (): QuarantinedAnimalRecord[] => Array.from(quarantined.values()).reverse(),
+
+  /**
+   * 격리된 레코드 수
+   */
+  size: (): number => quarantined.size,
+
+  /**
+   * 격리 기록 초기화
+   */
+  clear: (): void => {
+    quarantined.clear();
+  },
+};
@@ -0,0 +1,48 @@
+/**
+ * Route Handler 에러 응답 (서버 전용)
+ *
+ * ApiError 계층을 ApiErrorResponse 본문과 HTTP 상태로 변환합니다.
+ */
+
+import { NextResponse } from "next/server";
+import type { ApiErrorCode } from "@/types/api";
+import { RATE_LIMIT_HEADERS } from "@/utils/constants/api";
+import {
+  ApiError,
+  RateLimitError,
+  isApiError,
+} from "@/services/api/api-errors";
+
+/**
+ * 에러 응답 생성
+ *
+ * ApiError가 아닌 에러는 fallbackCode로 감싸며, 서버 내부 오류는 로그로 남깁니다.
+ * @param {unknown} error 처리 중 발생한 에러
+ * @param {string} fallbackMessage 메시지가 없을 때 사용할 메시지
+ * @param {ApiErrorCode} fallbackCode ApiError가 아닐 때 사용할 코드
+ */
+export function apiErrorResponse(
+  error: unknown,
+  fallbackMessage: string,
+  fallbackCode: ApiErrorCode = "SERVER_ERROR"
+) {
+  const apiError = isApiError(error)
+    ? error
+    : new ApiError(
+        fallbackCode,
+        error instanceof Error && error.message ? error.message : fallbackMessage,
+        { cause: error }
+      );
+
+  if (apiError.status >= 500) {
+    console.error(`[${apiError.code}] ${apiError.message}`, apiError.cause ?? "");
+  }
+
+  return NextResponse.json(apiError.toResponseBody(), {
+    status: apiError.status,
+    headers:
+      apiError instanceof RateLimitError
+        ? { [RATE_LIMIT_HEADERS.RETRY_AFTER]: String(apiError.retryAfterSeconds) }
+        : undefined,
+  });
+}
@@ -0,0 +1,143 @@
+import { createTestApplication } from "@/__tests__/fixtures/application";
+import { ConflictError, NotFoundError } from "@/services/api/api-errors";
+import type { AdoptionApplicationStatus } from "@/types/pet";
+import {
+  findApplicantApplication,
+  postApplicationMessage,
+  reviewAdoptionApplication,
+  withdrawAdoptionApplication,
+} from "../application-service";
+import { createMemoryApplicationRepository } from "../memory-repository";
+
+/**
+ * 주어진 상태의 신청 하나가 있는 저장소
+ */
+function setup(status: AdoptionApplicationStatus = "pending") {
+  const application = createTestApplication({ status });
+  return {
+    application,
+    repository: createMemoryApplicationRepository([application]),
+  };
+}
+
+describe("입양 신청 상태 전이", () => {
+  it.each(["approved", "rejected"] as const)("심사 대기 → %s", async (status) => {
+    const { application, repository } = setup();
+
+    const updated = await reviewAdoptionApplication(repository, application, {
+      status,
+      reviewerId: "staff-1",
+      reviewNotes: "  방문 상담 완료  ",
+    });
+
+    expect(updated).toMatchObject({
+      status,
+      reviewedBy: "staff-1",
+      reviewNotes: "방문 상담 완료",
+    });
+    expect(updated.reviewedAt).toBeDefined();
+    expect((await repository.get(application.id))?.status).toBe(status);
+  });
+
+  it("심사 대기 → withdrawn (신청자 철회)", async () => {
+    const { application, repository } = setup();
+
+    const updated = await withdrawAdoptionApplication(
+      repository,
+      application.id,
+      application.applicantId
+    );
+
+    expect(updated.status).toBe("withdrawn");
+  });
+
+  it.each(["approved", "rejected", "withdrawn"] as const)(
+    "%s 상태에서는 다시 검토하거나 철회할 수 없다",
+    async (status) => {
+      const { application, repository } = setup(status);
+
+      await expect(
+        reviewAdoptionApplication(repository, application, {
+          status: "approved",
+          reviewerId: "staff-1",
+        })
+      ).rejects.toBeInstanceOf(ConflictError);
+      await expect(
+        withdrawAdoptionApplication(repository, application.id, application.applicantId)
+      ).rejects.toBeInstanceOf(ConflictError);
+      expect((await repository.get(application.id))?.status).toBe(status);
+    }
+  );
+
+  it("검토하는 사이 신청자가 철회했으면 ConflictError", async () => {
+    const { application, repository } = setup();
+    await withdrawAdoptionApplication(repository, application.id, application.applicantId);
+
+    // 철회 전에 조회한 신청으로 검토
+    await expect(
+      reviewAdoptionApplication(repository, application, {
+        status: "approved",
+        reviewerId: "staff-1",
+      })
+    ).rejects.toThrow("신청 상태가 그 사이 변경되었습니다");
+    expect((await repository.get(application.id))?.status).toBe("withdrawn");
+  });
+});
+
+describe("findApplicantApplication", () => {
+  it("본인 신청은 조회한다", async () => {
+    const { application, repository } = setup();
+
+    await expect(
+      findApplicantApplication(repository, application.id, application.applicantId)
+    ).resolves.toMatchObject({ id: application.id });
+  });
+
+  it("다른 사람의 신청은 존재 여부를 드러내지 않고 NotFoundError", async () => {
+    const { application, repository } = setup();
+
+    await expect(
+      findApplicantApplication(repository, application.id, "applicant-2")
+    ).rejects.toBeInstanceOf(NotFoundError);
+    await expect(
+      findApplicantApplication(repository, "missing", "applicant-2")
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it("다른 사람의 신청은 철회할 수 없다", async () => {
+    const { application, repository } = setup();
+
+    await expect(
+      withdrawAdoptionApplication(repository, application.id, "applicant-2")
+    ).rejects.toBeInstanceOf(NotFoundError);
+    expect((await repository.get(application.id))?.status).toBe("pending");
+  });
+});
+
+describe("postApplicationMessage", () => {
+  it("진행 중인 신청에 메시지를 저장한다", async () => {
+    const { application, repository } = setup();
+
+    const message = await postApplicationMessage(repository, application, {
+      senderId: "staff-1",
+      senderRole: "shelter",
+      body: " 방문 일정을 알려주세요. ",
+    });
+
+    expect(message.body).toBe("방문 일정을 알려주세요.");
+    expect(await repository.listMessages(application.id)).toEqual([message]);
+  });
+
+  it("철회된 신청에는 메시지를 보낼 수 없다", async () => {
+    const { application, repository } = setup("withdrawn");
+
+    await expect(
+      postApplicationMessage(repository, application, {
+        senderId: "staff-1",
+        senderRole: "shelter",
+        body: "안녕하세요",
+      })
+    ).rejects.toBeInstanceOf(ConflictError);
+    expect(await repository.listMessages(application.id)).toEqual([]);
+  });
+});
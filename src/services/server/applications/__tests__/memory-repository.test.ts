@@ -0,0 +1,59 @@
+import { createTestApplication } from "@/__tests__/fixtures/application";
+import { ConflictError } from "@/services/api/api-errors";
+import { createMemoryApplicationRepository } from "../memory-repository";
+
+const approvedPatch = {
+  status: "approved" as const,
+  updatedAt: "2024-05-02T00:00:00.000Z",
+  reviewedAt: "2024-05-02T00:00:00.000Z",
+  reviewedBy: "staff-1",
+};
+
+describe("createMemoryApplicationRepository", () => {
+  it("현재 상태가 기대한 상태일 때만 상태를 바꾼다", async () => {
+    const repository = createMemoryApplicationRepository([createTestApplication()]);
+
+    const updated = await repository.updateStatus("application-1", "pending", approvedPatch);
+
+    expect(updated).toMatchObject({ status: "approved", reviewedBy: "staff-1" });
+    expect((await repository.get("application-1"))?.status).toBe("approved");
+  });
+
+  it("그 사이 상태가 바뀌었으면 null을 반환하고 덮어쓰지 않는다", async () => {
+    const repository = createMemoryApplicationRepository([
+      createTestApplication({ status: "withdrawn" }),
+    ]);
+
+    const updated = await repository.updateStatus("application-1", "pending", approvedPatch);
+
+    expect(updated).toBeNull();
+    expect((await repository.get("application-1"))?.status).toBe("withdrawn");
+  });
+
+  it("같은 동물에 진행 중인 신청이 있으면 ConflictError", async () => {
+    const repository = createMemoryApplicationRepository([createTestApplication()]);
+
+    await expect(
+      repository.create(createTestApplication({ id: "application-2" }))
+    ).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it("철회한 신청이 있어도 다시 신청할 수 있다", async () => {
+    const repository = createMemoryApplicationRepository([
+      createTestApplication({ status: "withdrawn" }),
+    ]);
+
+    await repository.create(createTestApplication({ id: "application-2" }));
+
+    expect(await repository.list({ applicantId: "applicant-1" })).toHaveLength(2);
+  });
+
+  it("조회 결과를 고쳐도 저장된 신청은 바뀌지 않는다", async () => {
+    const repository = createMemoryApplicationRepository([createTestApplication()]);
+
+    const application = await repository.get("application-1");
+    application!.status = "approved";
+
+    expect((await repository.get("application-1"))?.status).toBe("pending");
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * 입양 신청 처리 (서버 전용)
+ *
+ * 신청 접수, 신청자 철회, 보호소 검토(승인/거절)를 처리합니다.
+ * 상태 전이 규칙은 services/api/adoption-application을 따릅니다.
+ */
+
+import { randomUUID } from "node:crypto";
+import type {
+  AdoptionApplication,
+  AdoptionApplicationMessage,
+  AdoptionApplicationStatus,
+} from "@/types/pet";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationApiError,
+} from "@/services/api/api-errors";
+import {
+  assertApplicationTransition,
+  buildApplicationResponses,
+  validateApplicationAnswers,
+} from "@/services/api/adoption-application";
+import { convertAbandonmentAnimalToPet } from "@/services/api/animal-adapter";
+import { ADOPTION_APPLICATION_SETTINGS } from "@/utils/constants/pet";
+import { lookupAnimal } from "../animal-index";
+import type {
+  AdoptionApplicationRepository,
+  AdoptionApplicationStatusPatch,
+} from "./types";
+
+/**
+ * 신청 접수 입력
+ */
+export interface SubmitAdoptionApplicationInput {
+  petId: string;
+  applicantId: string;
+  answers: Record<string, string>;
+  message?: string;
+}
+
+/**
+ * 검토 입력
+ */
+export interface ReviewAdoptionApplicationInput {
+  status: Extract<AdoptionApplicationStatus, "approved" | "rejected">;
+  reviewerId: string;
+  reviewNotes?: string;
+}
+
+/**
+ * 메시지 작성 입력
+ */
+export interface PostApplicationMessageInput {
+  senderId: string;
+  senderRole: AdoptionApplicationMessage["senderRole"];
+  body: string;
+}
+
+/**
+ * 입양 신청 접수
+ *
+ * 신청서를 검증하고, 동물이 아직 보호 중인지 확인한 뒤 신청 당시 정보와 함께 저장합니다.
+ * @param {AdoptionApplicationRepository} repository 입양 신청 저장소
+ * @param {SubmitAdoptionApplicationInput} input 신청 내용
+ */
+export async function submitAdoptionApplication(
+  repository: AdoptionApplicationRepository,
+  input: SubmitAdoptionApplicationInput
+): Promise<AdoptionApplication> {
+  const message = input.message?.trim() || undefined;
+  const errors = validateApplicationAnswers(input.answers, message);
+  if (errors.length > 0) {
+    throw new ValidationApiError("입양 신청서를 확인해주세요.", errors[0].field, errors);
+  }
+
+  const { animal } = await lookupAnimal(input.petId);
+  if (!animal) {
+    throw new NotFoundError("해당 동물을 찾을 수 없습니다.");
+  }
+  if (!(animal.processState || "").includes("보호")) {
+    throw new ConflictError("입양 신청을 받고 있지 않은 동물입니다.", {
+      processState: animal.processState,
+    });
+  }
+
+  const now = new Date().toISOString();
+  const application: AdoptionApplication = {
+    id: randomUUID(),
+    petId: input.petId,
+    applicantId: input.applicantId,
+    status: "pending",
+    applicationDate: now,
+    message,
+    responses: buildApplicationResponses(input.answers),
+    pet: {
+      name: convertAbandonmentAnimalToPet(animal).name,
+      imageUrl: animal.popfile1 || undefined,
+      careNm: animal.careNm,
+      careRegNo: animal.careRegNo || "",
+      careTel: animal.careTel || undefined,
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await repository.create(application);
+  return application;
+}
+
+/**
+ * 상태 변경 (전이 규칙 검증 후 현재 상태 기준으로 갱신)
+ */
+async function transitionApplication(
+  repository: AdoptionApplicationRepository,
+  application: AdoptionApplication,
+  patch: Omit<AdoptionApplicationStatusPatch, "updatedAt">
+): Promise<AdoptionApplication> {
+  assertApplicationTransition(application.status, patch.status);
+
+  const updated = await repository.updateStatus(application.id, application.status, {
+    ...patch,
+    updatedAt: new Date().toISOString(),
+  });
+  if (!updated) {
+    throw new ConflictError("신청 상태가 그 사이 변경되었습니다. 다시 확인해주세요.", {
+      applicationId: application.id,
+    });
+  }
+  return updated;
+}
+
+/**
+ * 신청자 본인의 입양 신청 조회
+ *
+ * 다른 사람의 신청은 존재 여부를 드러내지 않도록 찾을 수 없음으로 처리합니다.
+ * @param {AdoptionApplicationRepository} repository 입양 신청 저장소
+ * @param {string} applicationId 신청 ID
+ * @param {string} applicantId 요청한 사용자 ID
+ */
+export async function findApplicantApplication(
+  repository: AdoptionApplicationRepository,
+  applicationId: string,
+  applicantId: string
+): Promise<AdoptionApplication> {
+  const application = await repository.get(applicationId);
+  if (!application || application.applicantId !== applicantId) {
+    throw new NotFoundError("입양 신청을 찾을 수 없습니다.");
+  }
+  return application;
+}
+
+/**
+ * 신청자의 입양 신청 철회
+ * @param {AdoptionApplicationRepository} repository 입양 신청 저장소
+ * @param {string} applicationId 신청 ID
+ * @param {string} applicantId 요청한 사용자 ID
+ */
+export async function withdrawAdoptionApplication(
+  repository: AdoptionApplicationRepository,
+  applicationId: string,
+  applicantId: string
+): Promise<AdoptionApplication> {
+  const application = await findApplicantApplication(
+    repository,
+    applicationId,
+    applicantId
+  );
+
+  return transitionApplication(repository, application, { status: "withdrawn" });
+}
+
+/**
+ * 입양 신청 검토 (승인/거절)
+ *
+ * 신청 조회와 보호소 권한 확인은 호출하는 쪽에서 먼저 수행합니다.
+ * @param {AdoptionApplicationRepository} repository 입양 신청 저장소
+ * @param {AdoptionApplication} application 검토할 신청
+ * @param {ReviewAdoptionApplicationInput} input 검토 결과
+ */
+export async function reviewAdoptionApplication(
+  repository: AdoptionApplicationRepository,
+  application: AdoptionApplication,
+  input: ReviewAdoptionApplicationInput
+): Promise<AdoptionApplication> {
+  const reviewNotes = input.reviewNotes?.trim() || undefined;
+  if (
+    reviewNotes &&
+    reviewNotes.length > ADOPTION_APPLICATION_SETTINGS.REVIEW_NOTES_MAX_LENGTH
+  ) {
+    throw new ValidationApiError(
+      `검토 메모는 ${ADOPTION_APPLICATION_SETTINGS.REVIEW_NOTES_MAX_LENGTH}자 이내로 입력해주세요.`,
+      "reviewNotes"
+    );
+  }
+
+  return transitionApplication(repository, application, {
+    status: input.status,
+    reviewedAt: new Date().toISOString(),
+    reviewedBy: input.reviewerId,
+    reviewNotes,
+  });
+}
+
+/**
+ * 입양 신청 메시지 작성 (보호소 ↔ 신청자)
+ *
+ * 철회된 신청에는 메시지를 보낼 수 없습니다.
+ * @param {AdoptionApplicationRepository} repository 입양 신청 저장소
+ * @param {AdoptionApplication} application 메시지를 보낼 신청
+ * @param {PostApplicationMessageInput} input 메시지 내용
+ */
+export async function postApplicationMessage(
+  repository: AdoptionApplicationRepository,
+  application: AdoptionApplication,
+  input: PostApplicationMessageInput
+): Promise<AdoptionApplicationMessage> {
+  const body = input.body.trim();
+  if (!body) {
+    throw new ValidationApiError("메시지를 입력해주세요.", "body");
+  }
+  if (body.length > ADOPTION_APPLICATION_SETTINGS.MESSAGE_MAX_LENGTH) {
+    throw new ValidationApiError(
+      `메시지는 ${ADOPTION_APPLICATION_SETTINGS.MESSAGE_MAX_LENGTH}자 이내로 입력해주세요.`,
+      "body"
+    );
+  }
+  if (application.status === "withdrawn") {
+    throw new ConflictError("철회된 신청에는 메시지를 보낼 수 없습니다.");
+  }
+
+  const message: AdoptionApplicationMessage = {
+    id: randomUUID(),
+    applicationId: application.id,
+    senderId: input.senderId,
+    senderRole: input.senderRole,
+    body,
+    createdAt: new Date().toISOString(),
+  };
+  await repository.addMessage(message);
+  return message;
+}
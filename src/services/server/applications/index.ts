@@ -0,0 +1,65 @@
+/**
+ * 입양 신청 (서버 전용)
+ *
+ * ADOPTION_APPLICATION_STORE 환경변수로 저장소를 선택합니다.
+ * - supabase: adoption_applications 테이블 (SUPABASE_SERVICE_ROLE_KEY 필요)
+ * - memory: 서버 프로세스 메모리 (개발/테스트용, 기본값)
+ */
+
+import { getSupabaseAdminClient } from "../supabase-admin";
+import { createMemoryApplicationRepository } from "./memory-repository";
+import { createSupabaseApplicationRepository } from "./supabase-repository";
+import type { AdoptionApplicationRepository } from "./types";
+
+export * from "./types";
+export { createMemoryApplicationRepository } from "./memory-repository";
+export { createSupabaseApplicationRepository } from "./supabase-repository";
+export {
+  submitAdoptionApplication,
+  findApplicantApplication,
+  withdrawAdoptionApplication,
+  reviewAdoptionApplication,
+  postApplicationMessage,
+} from "./application-service";
+export type {
+  SubmitAdoptionApplicationInput,
+  ReviewAdoptionApplicationInput,
+  PostApplicationMessageInput,
+} from "./application-service";
+
+let applicationRepository: AdoptionApplicationRepository | undefined;
+
+/**
+ * 환경변수 기반 입양 신청 저장소 생성
+ */
+function createApplicationRepositoryFromEnv(): AdoptionApplicationRepository {
+  if (process.env.ADOPTION_APPLICATION_STORE === "supabase") {
+    const client = getSupabaseAdminClient();
+    if (client) return createSupabaseApplicationRepository(client);
+
+    console.error(
+      "입양 신청 저장소로 supabase가 지정되었지만 SUPABASE_SERVICE_ROLE_KEY가 없습니다. 메모리 저장소를 사용합니다."
+    );
+  }
+  return createMemoryApplicationRepository();
+}
+
+/**
+ * 입양 신청 저장소 조회
+ */
+export function getAdoptionApplicationRepository(): AdoptionApplicationRepository {
+  if (!applicationRepository) {
+    applicationRepository = createApplicationRepositoryFromEnv();
+  }
+  return applicationRepository;
+}
+
+/**
+ * 입양 신청 저장소 교체 (테스트용 메모리 저장소 등)
+ * @param {AdoptionApplicationRepository} repository 입양 신청 저장소
+ */
+export function configureAdoptionApplicationRepository(
+  repository: AdoptionApplicationRepository
+) {
+  applicationRepository = repository;
+}
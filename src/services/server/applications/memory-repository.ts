@@ -0,0 +1,105 @@
+/**
+ * 메모리 입양 신청 저장소 (서버 전용)
+ *
+ * 단일 서버 프로세스와 테스트용 저장소입니다. 재시작하면 신청 내역이 사라집니다.
+ */
+
+import type {
+  AdoptionApplication,
+  AdoptionApplicationMessage,
+} from "@/types/pet";
+import { ConflictError } from "@/services/api/api-errors";
+import { isActiveApplication } from "@/services/api/adoption-application";
+import type {
+  AdoptionApplicationQuery,
+  AdoptionApplicationRepository,
+} from "./types";
+
+/**
+ * 조회 조건 일치 여부
+ */
+function matchesQuery(
+  application: AdoptionApplication,
+  query: AdoptionApplicationQuery
+): boolean {
+  if (query.applicantId && application.applicantId !== query.applicantId) {
+    return false;
+  }
+  if (query.petId && application.petId !== query.petId) return false;
+  if (query.careRegNos && !query.careRegNos.includes(application.pet.careRegNo)) {
+    return false;
+  }
+  if (query.statuses && !query.statuses.includes(application.status)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 메모리 입양 신청 저장소 생성
+ * @param {AdoptionApplication[]} initial 초기 신청 목록
+ */
+export function createMemoryApplicationRepository(
+  initial: AdoptionApplication[] = []
+): AdoptionApplicationRepository {
+  const applications = new Map<string, AdoptionApplication>(
+    initial.map((application) => [application.id, structuredClone(application)])
+  );
+  const messages: AdoptionApplicationMessage[] = [];
+
+  return {
+    create: async (application) => {
+      const duplicate = Array.from(applications.values()).find(
+        (existing) =>
+          existing.applicantId === application.applicantId &&
+          existing.petId === application.petId &&
+          isActiveApplication(existing)
+      );
+      if (duplicate) {
+        throw new ConflictError("이미 입양을 신청한 동물입니다.", {
+          applicationId: duplicate.id,
+        });
+      }
+
+      applications.set(application.id, structuredClone(application));
+    },
+
+    get: async (id) => {
+      const application = applications.get(id);
+      return application ? structuredClone(application) : null;
+    },
+
+    list: async (query) =>
+      Array.from(applications.values())
+        .filter((application) => matchesQuery(application, query))
+        .sort((a, b) => b.applicationDate.localeCompare(a.applicationDate))
+        .map((application) => structuredClone(application)),
+
+    countByStatus: async () => {
+      const counts = { pending: 0, approved: 0, rejected: 0, withdrawn: 0 };
+      applications.forEach((application) => {
+        counts[application.status] += 1;
+      });
+      return counts;
+    },
+
+    updateStatus: async (id, expectedStatus, patch) => {
+      const application = applications.get(id);
+      if (!application || application.status !== expectedStatus) return null;
+
+      const updated = { ...application, ...patch };
+      applications.set(id, updated);
+      return structuredClone(updated);
+    },
+
+    addMessage: async (message) => {
+      messages.push(structuredClone(message));
+    },
+
+    listMessages: async (applicationId) =>
+      messages
+        .filter((message) => message.applicationId === applicationId)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map((message) => structuredClone(message)),
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * Supabase 입양 신청 저장소 (서버 전용)
+ *
+ * supabase/migrations의 adoption_applications 테이블을 서비스 롤로 사용합니다.
+ * 진행 중 신청의 중복은 부분 고유 인덱스로 막습니다.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  AdoptionApplication,
+  AdoptionApplicationMessage,
+  AdoptionApplicationPetSnapshot,
+  AdoptionApplicationStatus,
+} from "@/types/pet";
+import { ConflictError } from "@/services/api/api-errors";
+import { APPLICATION_STATUS } from "@/utils/constants/pet";
+import type {
+  AdoptionApplicationRepository,
+  AdoptionApplicationStatusPatch,
+} from "./types";
+
+const APPLICATIONS_TABLE = "adoption_applications";
+const MESSAGES_TABLE = "adoption_application_messages";
+
+/**
+ * 고유 제약 위반 오류 코드 (PostgreSQL)
+ */
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * adoption_applications 행
+ */
+interface AdoptionApplicationRow {
+  id: string;
+  pet_id: string;
+  applicant_id: string;
+  care_reg_no: string;
+  status: AdoptionApplicationStatus;
+  message: string | null;
+  responses: AdoptionApplication["responses"];
+  pet: AdoptionApplicationPetSnapshot;
+  application_date: string;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  review_notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * adoption_application_messages 행
+ */
+interface AdoptionApplicationMessageRow {
+  id: string;
+  application_id: string;
+  sender_id: string;
+  sender_role: AdoptionApplicationMessage["senderRole"];
+  body: string;
+  created_at: string;
+}
+
+/**
+ * Supabase 오류를 Error로 변환하여 throw
+ */
+function assertNoError(error: { message: string } | null, action: string) {
+  if (error) {
+    throw new Error(`입양 신청 저장소 ${action} 실패: ${error.message}`);
+  }
+}
+
+/**
+ * 신청을 행으로 변환
+ */
+function toRow(application: AdoptionApplication): AdoptionApplicationRow {
+  return {
+    id: application.id,
+    pet_id: application.petId,
+    applicant_id: application.applicantId,
+    care_reg_no: application.pet.careRegNo,
+    status: application.status,
+    message: application.message ?? null,
+    responses: application.responses,
+    pet: application.pet,
+    application_date: application.applicationDate,
+    reviewed_at: application.reviewedAt ?? null,
+    reviewed_by: application.reviewedBy ?? null,
+    review_notes: application.reviewNotes ?? null,
+    created_at: application.createdAt,
+    updated_at: application.updatedAt,
+  };
+}
+
+/**
+ * 행을 신청으로 변환
+ */
+function fromRow(row: AdoptionApplicationRow): AdoptionApplication {
+  return {
+    id: row.id,
+    petId: row.pet_id,
+    applicantId: row.applicant_id,
+    status: row.status,
+    applicationDate: row.application_date,
+    message: row.message ?? undefined,
+    responses: row.responses ?? [],
+    pet: row.pet,
+    reviewedAt: row.reviewed_at ?? undefined,
+    reviewedBy: row.reviewed_by ?? undefined,
+    reviewNotes: row.review_notes ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Supabase 입양 신청 저장소 생성
+ * @param {SupabaseClient} client 서비스 롤 Supabase 클라이언트
+ */
+export function createSupabaseApplicationRepository(
+  client: SupabaseClient
+): AdoptionApplicationRepository {
+  return {
+    create: async (application) => {
+      const { error } = await client
+        .from(APPLICATIONS_TABLE)
+        .insert(toRow(application));
+
+      if (error && "code" in error && error.code === UNIQUE_VIOLATION) {
+        throw new ConflictError("이미 입양을 신청한 동물입니다.");
+      }
+      assertNoError(error, "저장");
+    },
+
+    get: async (id) => {
+      const { data, error } = await client
+        .from(APPLICATIONS_TABLE)
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+      assertNoError(error, "조회");
+
+      return data ? fromRow(data as AdoptionApplicationRow) : null;
+    },
+
+    list: async (query) => {
+      let request = client.from(APPLICATIONS_TABLE).select("*");
+      if (query.applicantId) request = request.eq("applicant_id", query.applicantId);
+      if (query.petId) request = request.eq("pet_id", query.petId);
+      if (query.careRegNos) request = request.in("care_reg_no", query.careRegNos);
+      if (query.statuses) request = request.in("status", query.statuses);
+
+      const { data, error } = await request.order("application_date", {
+        ascending: false,
+      });
+      assertNoError(error, "목록 조회");
+
+      return ((data ?? []) as AdoptionApplicationRow[]).map(fromRow);
+    },
+
+    countByStatus: async () => {
+      const statuses = Object.values(APPLICATION_STATUS);
+      const results = await Promise.all(
+        statuses.map((status) =>
+          client
+            .from(APPLICATIONS_TABLE)
+            .select("id", { count: "exact", head: true })
+            .eq("status", status)
+        )
+      );
+
+      return Object.fromEntries(
+        statuses.map((status, index) => {
+          assertNoError(results[index].error, "집계");
+          return [status, results[index].count ?? 0];
+        })
+      ) as Record<AdoptionApplicationStatus, number>;
+    },
+
+    updateStatus: async (
+      id,
+      expectedStatus,
+      patch: AdoptionApplicationStatusPatch
+    ) => {
+      const { data, error } = await client
+        .from(APPLICATIONS_TABLE)
+        .update({
+          status: patch.status,
+          updated_at: patch.updatedAt,
+          reviewed_at: patch.reviewedAt ?? null,
+          reviewed_by: patch.reviewedBy ?? null,
+          review_notes: patch.reviewNotes ?? null,
+        })
+        .eq("id", id)
+        .eq("status", expectedStatus)
+        .select("*")
+        .maybeSingle();
+      assertNoError(error, "상태 변경");
+
+      return data ? fromRow(data as AdoptionApplicationRow) : null;
+    },
+
+    addMessage: async (message) => {
+      const row: AdoptionApplicationMessageRow = {
+        id: message.id,
+        application_id: message.applicationId,
+        sender_id: message.senderId,
+        sender_role: message.senderRole,
+        body: message.body,
+        created_at: message.createdAt,
+      };
+      const { error } = await client.from(MESSAGES_TABLE).insert(row);
+      assertNoError(error, "메시지 저장");
+    },
+
+    listMessages: async (applicationId) => {
+      const { data, error } = await client
+        .from(MESSAGES_TABLE)
+        .select("*")
+        .eq("application_id", applicationId)
+        .order("created_at", { ascending: true });
+      assertNoError(error, "메시지 조회");
+
+      return ((data ?? []) as AdoptionApplicationMessageRow[]).map((row) => ({
+        id: row.id,
+        applicationId: row.application_id,
+        senderId: row.sender_id,
+        senderRole: row.sender_role,
+        body: row.body,
+        createdAt: row.created_at,
+      }));
+    },
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * 입양 신청 저장소 타입 정의 (서버 전용)
+ */
+
+import type {
+  AdoptionApplication,
+  AdoptionApplicationMessage,
+  AdoptionApplicationStatus,
+} from "@/types/pet";
+
+/**
+ * 입양 신청 조회 조건 (지정한 조건은 모두 AND)
+ */
+export interface AdoptionApplicationQuery {
+  applicantId?: string;
+  petId?: string;
+  careRegNos?: string[];
+  statuses?: AdoptionApplicationStatus[];
+}
+
+/**
+ * 상태 변경 내용
+ */
+export type AdoptionApplicationStatusPatch = Pick<
+  AdoptionApplication,
+  "status" | "updatedAt" | "reviewedAt" | "reviewedBy" | "reviewNotes"
+>;
+
+/**
+ * 입양 신청 저장소 인터페이스
+ */
+export interface AdoptionApplicationRepository {
+  /** 신청 저장 (같은 신청자의 같은 동물 진행 중 신청이 있으면 ConflictError) */
+  create(application: AdoptionApplication): Promise<void>;
+  /** ID로 조회 */
+  get(id: string): Promise<AdoptionApplication | null>;
+  /** 조건별 조회 (최근 신청 순) */
+  list(query: AdoptionApplicationQuery): Promise<AdoptionApplication[]>;
+  /** 상태별 신청 수 */
+  countByStatus(): Promise<Record<AdoptionApplicationStatus, number>>;
+  /**
+   * 상태 변경
+   *
+   * 현재 상태가 expectedStatus일 때만 변경하며, 그 사이 다른 요청이 상태를 바꿨으면 null을 반환합니다.
+   */
+  updateStatus(
+    id: string,
+    expectedStatus: AdoptionApplicationStatus,
+    patch: AdoptionApplicationStatusPatch
+  ): Promise<AdoptionApplication | null>;
+  /** 메시지 저장 */
+  addMessage(message: AdoptionApplicationMessage): Promise<void>;
+  /** 신청의 메시지 조회 (오래된 순) */
+  listMessages(applicationId: string): Promise<AdoptionApplicationMessage[]>;
+}
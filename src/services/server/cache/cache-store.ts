@@ -0,0 +1,132 @@
+/**
+ * 서버 캐시 저장소 (서버 전용)
+ *
+ * 응답 캐시가 사용하는 저장소 인터페이스와 구현체를 정의합니다.
+ * - 메모리 LRU: 기본 1차 저장소
+ * - 파일: 서버 재시작 후에도 유지되는 2차 저장소
+ * - KV: Redis/Upstash 등 외부 키-값 저장소 어댑터
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * 캐시 엔트리
+ */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+/**
+ * 캐시 저장소 인터페이스
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * 외부 KV 클라이언트 인터페이스 (Redis/Upstash 등)
+ */
+export interface KeyValueClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options?: { ttlSeconds?: number }): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+/**
+ * 메모리 LRU 저장소 생성
+ * @param {number} maxEntries 최대 엔트리 수
+ */
+export function createMemoryLruStore(maxEntries: number): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get: async <T>(key: string) => {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.staleUntil < Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      // 최근 사용 순서 갱신
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry as CacheEntry<T>;
+    },
+    set: async <T>(key: string, entry: CacheEntry<T>) => {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) break;
+        entries.delete(oldestKey);
+      }
+    },
+    delete: async (key: string) => {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * 파일 저장소 생성 (키를 해시한 JSON 파일로 저장)
+ * @param {string} directory 저장 디렉터리
+ */
+export function createFileStore(directory: string): CacheStore {
+  const filePathOf = (key: string) =>
+    path.join(directory, `${createHash("sha1").update(key).digest("hex")}.json`);
+
+  return {
+    get: async <T>(key: string) => {
+      try {
+        const raw = await readFile(filePathOf(key), "utf-8");
+        const entry = JSON.parse(raw) as CacheEntry<T>;
+        return entry.staleUntil < Date.now() ? null : entry;
+      } catch {
+        return null;
+      }
+    },
+    set: async <T>(key: string, entry: CacheEntry<T>) => {
+      await mkdir(directory, { recursive: true });
+      await writeFile(filePathOf(key), JSON.stringify(entry), "utf-8");
+    },
+    delete: async (key: string) => {
+      await rm(filePathOf(key), { force: true });
+    },
+  };
+}
+
+/**
+ * KV 저장소 생성
+ * @param {KeyValueClient} client 외부 KV 클라이언트
+ * @param {string} prefix 키 접두사
+ */
+export function createKeyValueStore(
+  client: KeyValueClient,
+  prefix = "pawwise:cache:"
+): CacheStore {
+  return {
+    get: async <T>(key: string) => {
+      const raw = await client.get(`${prefix}${key}`);
+      if (!raw) return null;
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+      return entry.staleUntil < Date.now() ? null : entry;
+    },
+    set: async <T>(key: string, entry: CacheEntry<T>) => {
+      const ttlSeconds = Math.max(
+        1,
+        Math.ceil((entry.staleUntil - Date.now()) / 1000)
+      );
+      await client.set(`${prefix}${key}`, JSON.stringify(entry), { ttlSeconds });
+    },
+    delete: async (key: string) => {
+      await client.del(`${prefix}${key}`);
+    },
+  };
+}
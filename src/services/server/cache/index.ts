@@ -0,0 +1,8 @@
+/**
+ * 서버 캐시 모듈
+ *
+ * 응답 캐시와 저장소 구현체를 export합니다.
+ */
+
+export * from "./cache-store";
+export * from "./response-cache";
@@ -0,0 +1,187 @@
+/**
+ * 응답 캐시 (서버 전용)
+ *
+ * 메모리 LRU를 1차, 선택적인 파일/KV 저장소를 2차로 사용하는 2계층 캐시입니다.
+ * - 동일 키에 대한 동시 요청은 하나의 업스트림 호출로 합칩니다.
+ * - 업스트림 호출이 실패하면 보관 기간 내의 stale 데이터를 제공합니다.
+ */
+
+import type { CacheEntry, CacheStore } from "./cache-store";
+
+/**
+ * 캐시 조회 결과 상태
+ */
+export type CacheStatus = "HIT" | "MISS" | "STALE" | "COALESCED";
+
+/**
+ * 캐시 조회 결과
+ */
+export interface CachedResult<T> {
+  value: T;
+  status: CacheStatus;
+  ageMs: number;
+}
+
+/**
+ * TTL 정책
+ */
+export interface CacheTtlPolicy {
+  freshTtl: number;
+  staleTtl: number;
+}
+
+/**
+ * 응답 캐시 생성 옵션
+ */
+export interface ResponseCacheOptions {
+  memoryStore: CacheStore;
+  secondaryStore?: CacheStore | null;
+}
+
+/**
+ * 응답 캐시 인터페이스
+ */
+export interface ResponseCache {
+  getOrFetch<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    policy: CacheTtlPolicy
+  ): Promise<CachedResult<T>>;
+  invalidate(key: string): Promise<void>;
+}
+
+/**
+ * 응답 캐시 생성
+ * @param {ResponseCacheOptions} options 저장소 설정
+ */
+export function createResponseCache({
+  memoryStore,
+  secondaryStore = null,
+}: ResponseCacheOptions): ResponseCache {
+  const inflight = new Map<string, Promise<CachedResult<unknown>>>();
+
+  /**
+   * 1차 → 2차 순서로 엔트리 조회 (2차 적중 시 1차에 적재)
+   */
+  const readEntry = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+    const memoryEntry = await memoryStore.get<T>(key);
+    if (memoryEntry) return memoryEntry;
+    if (!secondaryStore) return null;
+
+    try {
+      const secondaryEntry = await secondaryStore.get<T>(key);
+      if (secondaryEntry) await memoryStore.set(key, secondaryEntry);
+      return secondaryEntry;
+    } catch (error) {
+      console.warn("2차 캐시 조회 실패:", error);
+      return null;
+    }
+  };
+
+  /**
+   * 1차/2차 저장소에 엔트리 기록 (2차 실패는 무시)
+   */
+  const writeEntry = async <T>(key: string, entry: CacheEntry<T>) => {
+    await memoryStore.set(key, entry);
+    if (!secondaryStore) return;
+    try {
+      await secondaryStore.set(key, entry);
+    } catch (error) {
+      console.warn("2차 캐시 저장 실패:", error);
+    }
+  };
+
+  /**
+   * 업스트림 호출 후 캐시에 기록, 실패 시 stale 엔트리로 대체
+   */
+  const refresh = async <T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    policy: CacheTtlPolicy,
+    staleEntry: CacheEntry<T> | null
+  ): Promise<CachedResult<T>> => {
+    try {
+      const value = await fetcher();
+      const now = Date.now();
+      await writeEntry(key, {
+        value,
+        storedAt: now,
+        freshUntil: now + policy.freshTtl,
+        staleUntil: now + policy.staleTtl,
+      });
+      return { value, status: "MISS", ageMs: 0 };
+    } catch (error) {
+      if (staleEntry && staleEntry.staleUntil >= Date.now()) {
+        console.warn("업스트림 호출 실패, stale 캐시를 제공합니다:", error);
+        return {
+          value: staleEntry.value,
+          status: "STALE",
+          ageMs: Date.now() - staleEntry.storedAt,
+        };
+      }
+      throw error;
+    }
+  };
+
+  return {
+    getOrFetch: async <T>(
+      key: string,
+      fetcher: () => Promise<T>,
+      policy: CacheTtlPolicy
+    ): Promise<CachedResult<T>> => {
+      const entry = await readEntry<T>(key);
+      if (entry && entry.freshUntil >= Date.now()) {
+        return {
+          value: entry.value,
+          status: "HIT",
+          ageMs: Date.now() - entry.storedAt,
+        };
+      }
+
+      const pending = inflight.get(key) as Promise<CachedResult<T>> | undefined;
+      if (pending) {
+        const result = await pending;
+        return { ...result, status: result.status === "MISS" ? "COALESCED" : result.status };
+      }
+
+      const request = refresh(key, fetcher, policy, entry).finally(() => {
+        inflight.delete(key);
+      });
+      inflight.set(key, request);
+      return request;
+    },
+
+    invalidate: async (key: string) => {
+      await memoryStore.delete(key);
+      if (secondaryStore) await secondaryStore.delete(key);
+    },
+  };
+}
+
+/**
+ * 파라미터를 정규화하여 캐시 키 생성
+ *
+ * 키 순서를 정렬하고 빈 값과 서비스 키를 제외하여
+ * 같은 의미의 요청이 같은 키를 갖도록 합니다.
+ * @param {string} namespace 키 네임스페이스 (엔드포인트 등)
+ * @param {Record<string, unknown>} params 요청 파라미터
+ */
+export function buildCacheKey(
+  namespace: string,
+  params: Record<string, unknown>
+): string {
+  const normalized = Object.entries(params)
+    .filter(
+      ([key, value]) =>
+        key !== "serviceKey" &&
+        value !== undefined &&
+        value !== null &&
+        String(value).trim() !== ""
+    )
+    .map(([key, value]) => [key, String(value).trim()] as const)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join("&");
+
+  return `${namespace}?${normalized}`;
+}
@@ -0,0 +1,215 @@
+/**
+ * 서버 필터링 검색 (서버 전용)
+ *
+ * 업스트림이 지원하지 않는 조건으로 필터링할 때 한 페이지만 보고 결과를 자르면
+ * 페이지가 비거나 짧아지므로, 요청한 개수를 채우거나 호출 예산을 소진할 때까지
+ * 업스트림 페이지를 이어서 가져옵니다. 스캔 위치는 불투명 커서로 전달합니다.
+ */
+
+import type {
+  AbandonmentAnimalItem,
+  RecordValidationSummary,
+} from "@/types/api";
+import { FILTERED_SEARCH_SETTINGS } from "@/utils/constants/api";
+import { ValidationApiError } from "@/services/api/api-errors";
+import type { CachedResult } from "./cache";
+import {
+  fetchFromPublicAPICached,
+  extractItems,
+  PUBLIC_API_ENDPOINTS,
+} from "./public-data-client";
+import { animalIndex } from "./animal-index";
+import { validateAnimalRecord } from "./animal-records";
+
+/**
+ * 검색 커서 (업스트림 스캔 위치와 누적 통계)
+ */
+interface SearchCursor {
+  /** 다음에 읽을 업스트림 페이지 번호 */
+  upstreamPageNo: number;
+  /** 해당 페이지에서 이미 읽은 아이템 수 */
+  offset: number;
+  /** 지금까지 스캔한 업스트림 아이템 수 */
+  scanned: number;
+  /** 지금까지 일치한 아이템 수 */
+  matched: number;
+}
+
+/**
+ * 커서 형식 오류
+ */
+export class InvalidSearchCursorError extends ValidationApiError {
+  constructor() {
+    super("유효하지 않은 검색 커서입니다.", "cursor");
+    this.name = "InvalidSearchCursorError";
+  }
+}
+
+/**
+ * 서버 필터링 검색 옵션
+ */
+export interface FilteredSearchOptions {
+  /** 업스트림 파라미터 (pageNo, numOfRows 제외) */
+  params: Record<string, string | number | undefined>;
+  /** 서버 필터 조건 (없으면 업스트림 결과를 그대로 사용) */
+  predicate?: (animal: AbandonmentAnimalItem) => boolean;
+  /** 반환할 아이템 수 */
+  pageSize: number;
+  /** 이전 응답의 커서 */
+  cursor?: string | null;
+  /** 커서가 없을 때 건너뛸 일치 아이템 수 (pageNo 기반 호환용) */
+  skip?: number;
+}
+
+/**
+ * 서버 필터링 검색 결과
+ */
+export interface FilteredSearchResult {
+  animals: AbandonmentAnimalItem[];
+  totalCount: number;
+  totalCountExact: boolean;
+  nextCursor: string | null;
+  cacheResults: CachedResult<unknown>[];
+  /** 이번 요청에서 스캔한 업스트림 레코드의 검증 결과 */
+  validation: RecordValidationSummary;
+}
+
+/**
+ * 커서 인코딩
+ * @param {SearchCursor} cursor 커서
+ */
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * 커서 디코딩 (형식이 잘못되면 InvalidSearchCursorError)
+ * @param {string} value 인코딩된 커서
+ */
+function decodeCursor(value: string): SearchCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    const fields = [parsed.upstreamPageNo, parsed.offset, parsed.scanned, parsed.matched];
+    if (
+      fields.every((field) => Number.isInteger(field) && field >= 0) &&
+      parsed.upstreamPageNo >= 1
+    ) {
+      return parsed as SearchCursor;
+    }
+  } catch {
+    // 아래에서 공통 처리
+  }
+  throw new InvalidSearchCursorError();
+}
+
+/**
+ * 요청한 개수를 채울 때까지 업스트림 페이지를 스캔하며 검색
+ *
+ * 총 개수는 업스트림 전체를 스캔했거나 필터가 없으면 정확한 값이고,
+ * 그 외에는 지금까지 스캔한 범위의 일치 비율로 추정합니다.
+ * @param {FilteredSearchOptions} options 검색 옵션
+ */
+export async function runFilteredSearch({
+  params,
+  predicate,
+  pageSize,
+  cursor,
+  skip = 0,
+}: FilteredSearchOptions): Promise<FilteredSearchResult> {
+  const upstreamPageSize = FILTERED_SEARCH_SETTINGS.UPSTREAM_PAGE_SIZE;
+  const position: SearchCursor = cursor
+    ? decodeCursor(cursor)
+    : { upstreamPageNo: 1, offset: 0, scanned: 0, matched: 0 };
+  let remainingSkip = cursor ? 0 : skip;
+
+  // 필터가 없으면 pageNo 기반 위치로 바로 이동
+  if (!predicate && !cursor && skip > 0) {
+    position.upstreamPageNo = Math.floor(skip / upstreamPageSize) + 1;
+    position.offset = skip % upstreamPageSize;
+    position.scanned = skip;
+    position.matched = skip;
+    remainingSkip = 0;
+  }
+
+  const animals: AbandonmentAnimalItem[] = [];
+  const cacheResults: CachedResult<unknown>[] = [];
+  const validation: RecordValidationSummary = { dropped: 0, repaired: 0 };
+  let upstreamTotal = 0;
+  let upstreamRequests = 0;
+  let exhausted = false;
+
+  while (
+    animals.length < pageSize &&
+    upstreamRequests < FILTERED_SEARCH_SETTINGS.MAX_UPSTREAM_REQUESTS
+  ) {
+    const cached = await fetchFromPublicAPICached<AbandonmentAnimalItem>(
+      PUBLIC_API_ENDPOINTS.ANIMALS,
+      { ...params, pageNo: position.upstreamPageNo, numOfRows: upstreamPageSize }
+    );
+    cacheResults.push(cached);
+    upstreamRequests++;
+
+    // 커서 위치가 업스트림 페이지 기준이므로 원본 순서를 유지한 채 레코드별로 검증
+    const items = extractItems(cached.value);
+    upstreamTotal = cached.value.response.body.totalCount || 0;
+
+    for (let index = position.offset; index < items.length; index++) {
+      const record = validateAnimalRecord(items[index]);
+      position.offset = index + 1;
+      position.scanned++;
+
+      if (record.status === "dropped") {
+        validation.dropped++;
+        continue;
+      }
+      if (record.status === "repaired") validation.repaired++;
+      const item = record.animal;
+      animalIndex.remember([item]);
+
+      if (predicate && !predicate(item)) continue;
+      position.matched++;
+
+      if (remainingSkip > 0) {
+        remainingSkip--;
+        continue;
+      }
+
+      animals.push(item);
+      if (animals.length >= pageSize) break;
+    }
+
+    const pageConsumed = position.offset >= items.length;
+    if (pageConsumed) {
+      const isLastPage =
+        items.length < upstreamPageSize ||
+        position.upstreamPageNo * upstreamPageSize >= upstreamTotal;
+      if (isLastPage) {
+        exhausted = true;
+        break;
+      }
+      position.upstreamPageNo++;
+      position.offset = 0;
+    }
+  }
+
+  const totalCountExact = exhausted || !predicate;
+  const totalCount = exhausted
+    ? position.matched
+    : !predicate
+      ? upstreamTotal
+      : Math.max(
+          position.matched,
+          position.scanned > 0
+            ? Math.round((position.matched / position.scanned) * upstreamTotal)
+            : upstreamTotal
+        );
+
+  return {
+    animals,
+    totalCount,
+    totalCountExact,
+    nextCursor: exhausted ? null : encodeCursor(position),
+    cacheResults,
+    validation,
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * 주소 지오코더 (서버 전용)
+ *
+ * 조회 순서: 주소→좌표 캐시 → 지오코딩 제공자 → 시군구/시도 중심점 테이블
+ * 제공자 결과(찾지 못한 경우 포함)만 캐시에 저장하며, 중심점은 항상 즉시 계산합니다.
+ */
+
+import { GEOCODING_SETTINGS } from "@/utils/constants/api";
+import {
+  createFileStore,
+  createMemoryLruStore,
+  type CacheStore,
+} from "../cache";
+import { lookupRegionCentroid } from "./region-centroids";
+import type {
+  Coordinates,
+  GeocodeResult,
+  GeocodingProvider,
+} from "./types";
+
+/**
+ * 지오코더 옵션
+ */
+export interface GeocoderOptions {
+  provider: GeocodingProvider | null;
+  memoryStore: CacheStore;
+  persistentStore: CacheStore | null;
+}
+
+/**
+ * 주소 조회 옵션
+ */
+export interface GeocodeOptions {
+  /** false면 제공자를 호출하지 않고 캐시와 중심점만 사용 */
+  allowProvider?: boolean;
+}
+
+/**
+ * 지오코더
+ */
+export interface Geocoder {
+  geocode(address: string, options?: GeocodeOptions): Promise<GeocodeResult | null>;
+}
+
+/**
+ * 캐시 키 생성 (공백 정규화)
+ */
+function toCacheKey(providerName: string, address: string): string {
+  return `geocode:${providerName}:${address.replace(/\s+/g, " ").trim()}`;
+}
+
+/**
+ * 지오코더 생성
+ * @param {GeocoderOptions} options 제공자 및 캐시 저장소
+ */
+export function createGeocoder({
+  provider,
+  memoryStore,
+  persistentStore,
+}: GeocoderOptions): Geocoder {
+  /**
+   * 캐시 조회 (메모리 → 영구 저장소 순, 영구 저장소 적중 시 메모리에 승격)
+   */
+  const readCache = async (key: string) => {
+    const memoryEntry = await memoryStore.get<Coordinates | null>(key);
+    if (memoryEntry) return memoryEntry;
+    if (!persistentStore) return null;
+
+    const persistentEntry = await persistentStore
+      .get<Coordinates | null>(key)
+      .catch(() => null);
+    if (persistentEntry) await memoryStore.set(key, persistentEntry);
+    return persistentEntry;
+  };
+
+  /**
+   * 캐시 저장 (영구 저장소 오류는 무시)
+   */
+  const writeCache = async (key: string, value: Coordinates | null) => {
+    const now = Date.now();
+    const ttl = value
+      ? GEOCODING_SETTINGS.CACHE_TTL
+      : GEOCODING_SETTINGS.MISS_CACHE_TTL;
+    const entry = { value, storedAt: now, freshUntil: now + ttl, staleUntil: now + ttl };
+
+    await memoryStore.set(key, entry);
+    await persistentStore?.set(key, entry).catch((error) => {
+      console.error("지오코딩 캐시 저장 오류:", error);
+    });
+  };
+
+  /**
+   * 중심점 폴백
+   */
+  const fromCentroid = (address: string): GeocodeResult | null => {
+    const centroid = lookupRegionCentroid(address);
+    return centroid
+      ? {
+          coordinates: centroid.coordinates,
+          precision: centroid.precision,
+          source: "centroid",
+        }
+      : null;
+  };
+
+  return {
+    geocode: async (address, { allowProvider = true } = {}) => {
+      const trimmed = address?.trim();
+      if (!trimmed) return null;
+      if (!provider) return fromCentroid(trimmed);
+
+      const key = toCacheKey(provider.name, trimmed);
+      const cached = await readCache(key);
+      if (cached) {
+        return cached.value
+          ? { coordinates: cached.value, precision: "address", source: "cache" }
+          : fromCentroid(trimmed);
+      }
+
+      if (!allowProvider) return fromCentroid(trimmed);
+
+      try {
+        const coordinates = await provider.geocode(trimmed);
+        await writeCache(key, coordinates);
+        return coordinates
+          ? { coordinates, precision: "address", source: "provider" }
+          : fromCentroid(trimmed);
+      } catch (error) {
+        // 제공자 장애 시 캐시하지 않고 중심점으로 대체
+        console.error(`지오코딩 오류 (${provider.name}):`, error);
+        return fromCentroid(trimmed);
+      }
+    },
+  };
+}
+
+/**
+ * 환경변수 기반 기본 지오코더 생성
+ *
+ * - GEOCODING_PROVIDER=kakao + KAKAO_REST_API_KEY: 카카오 로컬 API 사용
+ * - GEOCODING_CACHE_STORE=memory: 영구 캐시 없이 메모리만 사용 (기본값은 파일)
+ * 제공자가 없으면 중심점 테이블만 사용합니다.
+ */
+export function createGeocoderFromEnv(
+  createProvider: () => GeocodingProvider | null
+): Geocoder {
+  return createGeocoder({
+    provider: createProvider(),
+    memoryStore: createMemoryLruStore(GEOCODING_SETTINGS.MEMORY_MAX_ENTRIES),
+    persistentStore:
+      process.env.GEOCODING_CACHE_STORE === "memory"
+        ? null
+        : createFileStore(
+            process.env.GEOCODING_CACHE_DIR ||
+              GEOCODING_SETTINGS.DEFAULT_FILE_DIRECTORY
+          ),
+  });
+}
@@ -0,0 +1,58 @@
+/**
+ * 지오코딩 (서버 전용)
+ *
+ * GEOCODING_PROVIDER 환경변수로 제공자를 선택합니다.
+ * - kakao: 카카오 로컬 API (KAKAO_REST_API_KEY 필요)
+ * 설정하지 않으면 내장 시군구 중심점 테이블만 사용합니다.
+ */
+
+import { createGeocoderFromEnv, type Geocoder } from "./geocoder";
+import { createKakaoGeocodingProvider } from "./kakao-provider";
+import type { GeocodingProvider } from "./types";
+
+export * from "./types";
+export { createGeocoder } from "./geocoder";
+export type { Geocoder, GeocoderOptions, GeocodeOptions } from "./geocoder";
+export { createKakaoGeocodingProvider } from "./kakao-provider";
+export { lookupRegionCentroid } from "./region-centroids";
+export type { RegionCentroid } from "./region-centroids";
+
+let geocoder: Geocoder | undefined;
+
+/**
+ * 환경변수 기반 지오코딩 제공자 생성
+ */
+function createProviderFromEnv(): GeocodingProvider | null {
+  switch (process.env.GEOCODING_PROVIDER) {
+    case "kakao": {
+      const apiKey = process.env.KAKAO_REST_API_KEY;
+      if (!apiKey) {
+        console.error(
+          "지오코딩 제공자로 kakao가 지정되었지만 KAKAO_REST_API_KEY가 없습니다."
+        );
+        return null;
+      }
+      return createKakaoGeocodingProvider(apiKey);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * 지오코더 조회
+ */
+export function getGeocoder(): Geocoder {
+  if (!geocoder) {
+    geocoder = createGeocoderFromEnv(createProviderFromEnv);
+  }
+  return geocoder;
+}
+
+/**
+ * 지오코더 교체
+ * @param {Geocoder} next 사용할 지오코더
+ */
+export function configureGeocoder(next: Geocoder): void {
+  geocoder = next;
+}
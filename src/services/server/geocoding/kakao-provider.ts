@@ -0,0 +1,53 @@
+/**
+ * 카카오 로컬 API 지오코딩 제공자 (서버 전용)
+ */
+
+import { GEOCODING_SETTINGS } from "@/utils/constants/api";
+import type { Coordinates, GeocodingProvider } from "./types";
+
+/**
+ * 카카오 주소 검색 응답 (필요한 필드만)
+ */
+interface KakaoAddressResponse {
+  documents: {
+    x: string; // 경도
+    y: string; // 위도
+  }[];
+}
+
+/**
+ * 카카오 지오코딩 제공자 생성
+ * @param {string} restApiKey 카카오 REST API 키
+ */
+export function createKakaoGeocodingProvider(
+  restApiKey: string
+): GeocodingProvider {
+  return {
+    name: "kakao",
+    geocode: async (address: string): Promise<Coordinates | null> => {
+      const url = `${GEOCODING_SETTINGS.KAKAO_ADDRESS_URL}?${new URLSearchParams({
+        query: address,
+        size: "1",
+      }).toString()}`;
+
+      const response = await fetch(url, {
+        headers: { Authorization: `KakaoAK ${restApiKey}` },
+        signal: AbortSignal.timeout(GEOCODING_SETTINGS.REQUEST_TIMEOUT),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP Error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as KakaoAddressResponse;
+      const document = data.documents?.[0];
+      if (!document) return null;
+
+      const latitude = parseFloat(document.y);
+      const longitude = parseFloat(document.x);
+      if (Number.isNaN(latitude) || Number.isNaN(longitude)) return null;
+
+      return { latitude, longitude };
+    },
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * 시도/시군구 중심점 테이블 (서버 전용)
+ *
+ * 네트워크 없이 사용할 수 있는 지오코딩 폴백입니다.
+ * 좌표는 시군구청 위치 기준 근사값이며, 표에 없는 군 지역은 시도 중심점을 사용합니다.
+ */
+
+import type { Coordinates, GeocodePrecision } from "./types";
+
+/**
+ * 시도 중심점
+ */
+interface SidoCentroid extends Coordinates {
+  name: string;
+  aliases: string[];
+}
+
+type SigunguEntry = [name: string, latitude: number, longitude: number];
+
+const SIDO_CENTROIDS: SidoCentroid[] = [
+  { name: "서울특별시", aliases: ["서울", "서울시"], latitude: 37.5665, longitude: 126.978 },
+  { name: "부산광역시", aliases: ["부산", "부산시"], latitude: 35.1796, longitude: 129.0756 },
+  { name: "대구광역시", aliases: ["대구", "대구시"], latitude: 35.8714, longitude: 128.6014 },
+  { name: "인천광역시", aliases: ["인천", "인천시"], latitude: 37.4563, longitude: 126.7052 },
+  { name: "광주광역시", aliases: ["광주"], latitude: 35.1595, longitude: 126.8526 },
+  { name: "대전광역시", aliases: ["대전", "대전시"], latitude: 36.3504, longitude: 127.3845 },
+  { name: "울산광역시", aliases: ["울산", "울산시"], latitude: 35.5384, longitude: 129.3114 },
+  { name: "세종특별자치시", aliases: ["세종", "세종시"], latitude: 36.48, longitude: 127.289 },
+  { name: "경기도", aliases: ["경기"], latitude: 37.4138, longitude: 127.5183 },
+  { name: "강원특별자치도", aliases: ["강원도", "강원"], latitude: 37.8228, longitude: 128.1555 },
+  { name: "충청북도", aliases: ["충북"], latitude: 36.8, longitude: 127.7 },
+  { name: "충청남도", aliases: ["충남"], latitude: 36.5184, longitude: 126.8 },
+  { name: "전북특별자치도", aliases: ["전라북도", "전북"], latitude: 35.7175, longitude: 127.153 },
+  { name: "전라남도", aliases: ["전남"], latitude: 34.8679, longitude: 126.991 },
+  { name: "경상북도", aliases: ["경북"], latitude: 36.4919, longitude: 128.8889 },
+  { name: "경상남도", aliases: ["경남"], latitude: 35.4606, longitude: 128.2132 },
+  { name: "제주특별자치도", aliases: ["제주도", "제주"], latitude: 33.489, longitude: 126.4983 },
+];
+
+const SIGUNGU_CENTROIDS: Record<string, SigunguEntry[]> = {
+  서울특별시: [
+    ["종로구", 37.5735, 126.979], ["중구", 37.5641, 126.9979], ["용산구", 37.5324, 126.99],
+    ["성동구", 37.5634, 127.0369], ["광진구", 37.5385, 127.0823], ["동대문구", 37.5744, 127.0396],
+    ["중랑구", 37.6063, 127.0927], ["성북구", 37.5894, 127.0167], ["강북구", 37.6396, 127.0257],
+    ["도봉구", 37.6688, 127.0471], ["노원구", 37.6542, 127.0568], ["은평구", 37.6027, 126.9291],
+    ["서대문구", 37.5791, 126.9368], ["마포구", 37.5663, 126.9019], ["양천구", 37.517, 126.8665],
+    ["강서구", 37.5509, 126.8495], ["구로구", 37.4954, 126.8874], ["금천구", 37.4569, 126.8955],
+    ["영등포구", 37.5264, 126.8962], ["동작구", 37.5124, 126.9393], ["관악구", 37.4784, 126.9516],
+    ["서초구", 37.4837, 127.0324], ["강남구", 37.5172, 127.0473], ["송파구", 37.5145, 127.1059],
+    ["강동구", 37.5301, 127.1238],
+  ],
+  부산광역시: [
+    ["중구", 35.1062, 129.0323], ["서구", 35.0979, 129.0244], ["동구", 35.1293, 129.0454],
+    ["영도구", 35.0911, 129.0679], ["부산진구", 35.163, 129.0532], ["동래구", 35.2047, 129.0837],
+    ["남구", 35.1366, 129.0843], ["북구", 35.1972, 128.9903], ["해운대구", 35.1631, 129.1635],
+    ["사하구", 35.1046, 128.9749], ["금정구", 35.2429, 129.0922], ["강서구", 35.2122, 128.9806],
+    ["연제구", 35.1762, 129.0799], ["수영구", 35.1456, 129.1131], ["사상구", 35.1526, 128.991],
+    ["기장군", 35.2446, 129.2222],
+  ],
+  대구광역시: [
+    ["중구", 35.8694, 128.6062], ["동구", 35.8866, 128.6355], ["서구", 35.8718, 128.5592],
+    ["남구", 35.846, 128.5974], ["북구", 35.8858, 128.5828], ["수성구", 35.8582, 128.6306],
+    ["달서구", 35.8298, 128.5327], ["달성군", 35.7746, 128.4314], ["군위군", 36.2428, 128.5728],
+  ],
+  인천광역시: [
+    ["중구", 37.4738, 126.6216], ["동구", 37.4739, 126.6432], ["미추홀구", 37.4635, 126.6503],
+    ["연수구", 37.4101, 126.6783], ["남동구", 37.4473, 126.7314], ["부평구", 37.507, 126.7219],
+    ["계양구", 37.5372, 126.7376], ["서구", 37.5456, 126.676], ["강화군", 37.7466, 126.4881],
+    ["옹진군", 37.4465, 126.6365],
+  ],
+  광주광역시: [
+    ["동구", 35.1461, 126.9232], ["서구", 35.152, 126.89], ["남구", 35.133, 126.9025],
+    ["북구", 35.174, 126.912], ["광산구", 35.1396, 126.7937],
+  ],
+  대전광역시: [
+    ["동구", 36.312, 127.4548], ["중구", 36.3255, 127.4213], ["서구", 36.3554, 127.3838],
+    ["유성구", 36.3623, 127.3563], ["대덕구", 36.3467, 127.4156],
+  ],
+  울산광역시: [
+    ["중구", 35.5693, 129.3327], ["남구", 35.5438, 129.3302], ["동구", 35.5048, 129.4167],
+    ["북구", 35.5826, 129.3613], ["울주군", 35.5624, 129.2426],
+  ],
+  경기도: [
+    ["수원시", 37.2636, 127.0286], ["성남시", 37.42, 127.1267], ["의정부시", 37.7381, 127.0338],
+    ["안양시", 37.3943, 126.9568], ["부천시", 37.5034, 126.766], ["광명시", 37.4786, 126.8646],
+    ["평택시", 36.9921, 127.1129], ["동두천시", 37.9036, 127.0606], ["안산시", 37.3219, 126.8309],
+    ["고양시", 37.6584, 126.832], ["과천시", 37.4292, 126.9876], ["구리시", 37.5943, 127.1296],
+    ["남양주시", 37.636, 127.2165], ["오산시", 37.1498, 127.0772], ["시흥시", 37.38, 126.8029],
+    ["군포시", 37.3616, 126.9352], ["의왕시", 37.3448, 126.9683], ["하남시", 37.5393, 127.2149],
+    ["용인시", 37.2411, 127.1776], ["파주시", 37.76, 126.78], ["이천시", 37.272, 127.435],
+    ["안성시", 37.008, 127.2797], ["김포시", 37.6153, 126.7156], ["화성시", 37.1995, 126.8312],
+    ["광주시", 37.4095, 127.255], ["양주시", 37.7853, 127.0458], ["포천시", 37.8949, 127.2002],
+    ["여주시", 37.2984, 127.637], ["연천군", 38.0966, 127.0747], ["가평군", 37.8315, 127.5105],
+    ["양평군", 37.4917, 127.4876],
+  ],
+  강원특별자치도: [
+    ["춘천시", 37.8813, 127.7298], ["원주시", 37.3422, 127.9202], ["강릉시", 37.7519, 128.8761],
+    ["동해시", 37.5247, 129.1143], ["태백시", 37.1641, 128.9856], ["속초시", 38.207, 128.5918],
+    ["삼척시", 37.45, 129.1651], ["홍천군", 37.697, 127.8888], ["횡성군", 37.4917, 127.985],
+    ["영월군", 37.1837, 128.4617], ["평창군", 37.3708, 128.3903], ["정선군", 37.3807, 128.6608],
+    ["철원군", 38.1467, 127.3133], ["화천군", 38.1062, 127.7082], ["양구군", 38.11, 127.9899],
+    ["인제군", 38.0697, 128.1707], ["고성군", 38.3806, 128.4679], ["양양군", 38.0754, 128.619],
+  ],
+  충청북도: [
+    ["청주시", 36.6424, 127.489], ["충주시", 36.991, 127.9259], ["제천시", 37.1326, 128.191],
+    ["보은군", 36.4895, 127.7295], ["옥천군", 36.3064, 127.5714], ["영동군", 36.175, 127.7764],
+    ["증평군", 36.7853, 127.5815], ["진천군", 36.8553, 127.4356], ["괴산군", 36.8154, 127.7867],
+    ["음성군", 36.9403, 127.6905], ["단양군", 36.9845, 128.3655],
+  ],
+  충청남도: [
+    ["천안시", 36.8151, 127.1139], ["공주시", 36.4465, 127.119], ["보령시", 36.3334, 126.6128],
+    ["아산시", 36.7898, 127.0019], ["서산시", 36.7845, 126.4503], ["논산시", 36.1872, 127.0987],
+    ["계룡시", 36.2745, 127.2486], ["당진시", 36.8898, 126.6459], ["금산군", 36.1088, 127.4881],
+    ["부여군", 36.2757, 126.9098], ["서천군", 36.0803, 126.6919], ["청양군", 36.4592, 126.8022],
+    ["홍성군", 36.6012, 126.6608], ["예산군", 36.6826, 126.8451], ["태안군", 36.7456, 126.298],
+  ],
+  전북특별자치도: [
+    ["전주시", 35.8242, 127.148], ["군산시", 35.9676, 126.7366], ["익산시", 35.9483, 126.9577],
+    ["정읍시", 35.5699, 126.856], ["남원시", 35.4164, 127.3904], ["김제시", 35.8036, 126.8809],
+    ["완주군", 35.9046, 127.1622], ["진안군", 35.7917, 127.4249], ["무주군", 36.0068, 127.6608],
+    ["장수군", 35.6474, 127.5212], ["임실군", 35.6178, 127.289], ["순창군", 35.3745, 127.1374],
+    ["고창군", 35.4358, 126.7019], ["부안군", 35.7317, 126.7334],
+  ],
+  전라남도: [
+    ["목포시", 34.8118, 126.3922], ["여수시", 34.7604, 127.6622], ["순천시", 34.9506, 127.4872],
+    ["나주시", 35.016, 126.7108], ["광양시", 34.9407, 127.6959], ["담양군", 35.3212, 126.9882],
+    ["곡성군", 35.282, 127.292], ["구례군", 35.2025, 127.4629], ["고흥군", 34.6112, 127.285],
+    ["보성군", 34.7715, 127.08], ["화순군", 35.0645, 126.9865], ["장흥군", 34.6817, 126.907],
+    ["강진군", 34.642, 126.7672], ["해남군", 34.5733, 126.5993], ["영암군", 34.8002, 126.6967],
+    ["무안군", 34.9904, 126.4817], ["함평군", 35.0659, 126.5166], ["영광군", 35.2772, 126.512],
+    ["장성군", 35.3018, 126.7848], ["완도군", 34.311, 126.7551], ["진도군", 34.4868, 126.2634],
+    ["신안군", 34.8335, 126.3517],
+  ],
+  경상북도: [
+    ["포항시", 36.019, 129.3435], ["경주시", 35.8562, 129.2247], ["김천시", 36.1398, 128.1136],
+    ["안동시", 36.5684, 128.7294], ["구미시", 36.1195, 128.3446], ["영주시", 36.8057, 128.624],
+    ["영천시", 35.9733, 128.9386], ["상주시", 36.4109, 128.159], ["문경시", 36.5865, 128.1867],
+    ["경산시", 35.8251, 128.7415], ["의성군", 36.3527, 128.697], ["청송군", 36.4359, 129.0572],
+    ["영양군", 36.6667, 129.1124], ["영덕군", 36.415, 129.3654], ["청도군", 35.6473, 128.734],
+    ["고령군", 35.7284, 128.2629], ["성주군", 35.9192, 128.2829], ["칠곡군", 35.9955, 128.4017],
+    ["예천군", 36.6581, 128.4517], ["봉화군", 36.8931, 128.7325], ["울진군", 36.9931, 129.4004],
+    ["울릉군", 37.4844, 130.9057],
+  ],
+  경상남도: [
+    ["창원시", 35.2281, 128.6811], ["진주시", 35.18, 128.1076], ["통영시", 34.8544, 128.4332],
+    ["사천시", 35.0037, 128.0642], ["김해시", 35.2285, 128.8894], ["밀양시", 35.5038, 128.7467],
+    ["거제시", 34.8806, 128.6211], ["양산시", 35.335, 129.0373], ["의령군", 35.3222, 128.2617],
+    ["함안군", 35.2725, 128.4065], ["창녕군", 35.5444, 128.4924], ["고성군", 34.973, 128.3223],
+    ["남해군", 34.8376, 127.8924], ["하동군", 35.0674, 127.7513], ["산청군", 35.4155, 127.8735],
+    ["함양군", 35.5205, 127.7252], ["거창군", 35.6867, 127.9095], ["합천군", 35.5666, 128.1658],
+  ],
+  제주특별자치도: [
+    ["제주시", 33.4996, 126.5312], ["서귀포시", 33.2541, 126.5601],
+  ],
+};
+
+/**
+ * 중심점 조회 결과
+ */
+export interface RegionCentroid {
+  coordinates: Coordinates;
+  precision: Exclude<GeocodePrecision, "address">;
+  sido: string;
+  sigungu?: string;
+}
+
+/**
+ * 주소를 공백 기준 토큰으로 분리
+ */
+function tokenize(address: string): string[] {
+  return address
+    .replace(/[(),]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * 주소 첫 토큰으로 시도 찾기
+ */
+function findSido(tokens: string[]): SidoCentroid | null {
+  const first = tokens[0];
+  if (!first) return null;
+
+  return (
+    SIDO_CENTROIDS.find(
+      (sido) => sido.name === first || sido.aliases.includes(first)
+    ) ?? null
+  );
+}
+
+/**
+ * 시도 내에서 주소 토큰과 일치하는 시군구 찾기 ("수원시" / "수원" 모두 허용)
+ */
+function findSigungu(sido: string, tokens: string[]): SigunguEntry | null {
+  const entries = SIGUNGU_CENTROIDS[sido] ?? [];
+  for (const token of tokens) {
+    const matched = entries.find(
+      ([name]) => name === token || name.slice(0, -1) === token
+    );
+    if (matched) return matched;
+  }
+  return null;
+}
+
+/**
+ * 시도 없이 시군구만 있는 주소 처리 (전국에서 이름이 유일한 시군구만 사용)
+ */
+function findUniqueSigungu(
+  tokens: string[]
+): { sido: string; entry: SigunguEntry } | null {
+  for (const token of tokens) {
+    const matches = Object.entries(SIGUNGU_CENTROIDS).flatMap(([sido, entries]) =>
+      entries
+        .filter(([name]) => name === token)
+        .map((entry) => ({ sido, entry }))
+    );
+    if (matches.length === 1) return matches[0];
+  }
+  return null;
+}
+
+/**
+ * 주소에서 시군구(또는 시도) 중심점 찾기
+ * @param {string} address 주소 또는 관할기관명
+ */
+export function lookupRegionCentroid(address: string): RegionCentroid | null {
+  const tokens = tokenize(address);
+  const sido = findSido(tokens);
+
+  if (sido) {
+    const sigungu = findSigungu(sido.name, tokens.slice(1));
+    if (sigungu) {
+      return {
+        coordinates: { latitude: sigungu[1], longitude: sigungu[2] },
+        precision: "sigungu",
+        sido: sido.name,
+        sigungu: sigungu[0],
+      };
+    }
+    return {
+      coordinates: { latitude: sido.latitude, longitude: sido.longitude },
+      precision: "sido",
+      sido: sido.name,
+    };
+  }
+
+  const unique = findUniqueSigungu(tokens);
+  if (!unique) return null;
+
+  return {
+    coordinates: { latitude: unique.entry[1], longitude: unique.entry[2] },
+    precision: "sigungu",
+    sido: unique.sido,
+    sigungu: unique.entry[0],
+  };
+}
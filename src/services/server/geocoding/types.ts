@@ -0,0 +1,38 @@
+/**
+ * 지오코딩 타입 정의 (서버 전용)
+ */
+
+/**
+ * 좌표
+ */
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * 좌표 정밀도
+ * - address: 주소 단위 (지오코딩 제공자 결과)
+ * - sigungu: 시군구 중심점
+ * - sido: 시도 중심점
+ */
+export type GeocodePrecision = "address" | "sigungu" | "sido";
+
+/**
+ * 지오코딩 결과
+ */
+export interface GeocodeResult {
+  coordinates: Coordinates;
+  precision: GeocodePrecision;
+  source: "provider" | "cache" | "centroid";
+}
+
+/**
+ * 지오코딩 제공자 인터페이스
+ *
+ * 주소를 찾지 못하면 null을, 네트워크/인증 오류는 throw합니다.
+ */
+export interface GeocodingProvider {
+  name: string;
+  geocode(address: string): Promise<Coordinates | null>;
+}
@@ -0,0 +1,56 @@
+/**
+ * 이미지 변환 (서버 전용)
+ *
+ * 원본 사진을 EXIF 방향에 맞게 회전한 뒤 크기별 webp 변형과
+ * 블러 플레이스홀더(data URL)를 만듭니다.
+ */
+
+import sharp from "sharp";
+import type { ImageVariant } from "@/types/common";
+import { IMAGE_PROXY_SETTINGS } from "@/utils/constants/api";
+import type { ProcessedImage } from "./types";
+
+/**
+ * 원본 이미지 변환
+ * @param {Buffer} source 원본 이미지
+ * @throws 이미지로 해석할 수 없는 경우
+ */
+export async function processSourceImage(source: Buffer): Promise<ProcessedImage> {
+  const { width, height, orientation } = await sharp(source).metadata();
+  if (!width || !height) {
+    throw new Error("이미지 크기를 확인할 수 없습니다.");
+  }
+
+  // EXIF 방향 5~8은 90도 회전이므로 가로/세로가 바뀜
+  const rotated = orientation !== undefined && orientation >= 5;
+  const variantWidths = IMAGE_PROXY_SETTINGS.VARIANTS;
+
+  const entries = await Promise.all(
+    (Object.keys(variantWidths) as ImageVariant[]).map(
+      async (variant) =>
+        [
+          variant,
+          await sharp(source)
+            .rotate()
+            .resize({ width: variantWidths[variant], withoutEnlargement: true })
+            .webp({ quality: IMAGE_PROXY_SETTINGS.OUTPUT_QUALITY })
+            .toBuffer(),
+        ] as const
+    )
+  );
+
+  const blur = await sharp(source)
+    .rotate()
+    .resize({ width: IMAGE_PROXY_SETTINGS.BLUR_WIDTH })
+    .webp({ quality: 40 })
+    .toBuffer();
+
+  return {
+    metadata: {
+      width: rotated ? height : width,
+      height: rotated ? width : height,
+      blurDataURL: `data:image/webp;base64,${blur.toString("base64")}`,
+    },
+    variants: Object.fromEntries(entries) as Record<ImageVariant, Buffer>,
+  };
+}
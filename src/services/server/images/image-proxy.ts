@@ -0,0 +1,175 @@
+/**
+ * 보호소 사진 프록시 (서버 전용)
+ *
+ * 허용된 호스트의 원본 사진만 한 번 가져와 크기별로 변환해 저장하고,
+ * 이후 요청은 저장소에서 바로 응답합니다. 같은 원본에 대한 동시 요청은 하나로 합칩니다.
+ */
+
+import type { ImageMetadata, ImageVariant } from "@/types/common";
+import { IMAGE_PROXY_SETTINGS } from "@/utils/constants/api";
+import { isProxiableImageUrl } from "@/services/api/image-url";
+import {
+  ExternalServiceError,
+  ValidationApiError,
+} from "@/services/api/api-errors";
+import { processSourceImage } from "./image-processor";
+import type { ImageStore, ProcessedImage } from "./types";
+
+/**
+ * 허용되지 않은 원본 URL
+ */
+export class DisallowedImageSourceError extends ValidationApiError {
+  constructor() {
+    super("허용되지 않은 이미지 주소입니다.", "url");
+    this.name = "DisallowedImageSourceError";
+  }
+}
+
+/**
+ * 원본 사진을 가져오거나 변환하지 못한 경우
+ */
+export class ImageSourceFetchError extends ExternalServiceError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageSourceFetchError";
+  }
+}
+
+/**
+ * 프록시 옵션
+ */
+export interface ImageProxyOptions {
+  store: ImageStore;
+  fetchSource?: (sourceUrl: string) => Promise<Buffer>;
+}
+
+/**
+ * 이미지 프록시
+ */
+export interface ImageProxy {
+  /** 크기 변형 조회 (저장소에 없으면 원본을 가져와 변환) */
+  getVariant(
+    sourceUrl: string,
+    variant: ImageVariant
+  ): Promise<{ body: Buffer; metadata: ImageMetadata }>;
+  /**
+   * 변환된 원본 정보 일괄 조회 (원본을 기다리지 않음)
+   * 아직 변환되지 않은 원본은 요청당 제한된 수만큼 백그라운드 변환을 시작합니다.
+   */
+  lookupMetadata(sourceUrls: string[]): Promise<Record<string, ImageMetadata>>;
+}
+
+/**
+ * 원본 사진 다운로드 (시간/크기 제한, 리다이렉트 거부)
+ * @param {string} sourceUrl 원본 URL
+ */
+async function fetchSourceImage(sourceUrl: string): Promise<Buffer> {
+  // 허용 호스트 검사를 우회하지 않도록 리다이렉트는 따라가지 않음
+  const response = await fetch(sourceUrl, {
+    redirect: "manual",
+    signal: AbortSignal.timeout(IMAGE_PROXY_SETTINGS.FETCH_TIMEOUT),
+  });
+
+  if (response.type === "opaqueredirect" || (response.status >= 300 && response.status < 400)) {
+    throw new ImageSourceFetchError("리다이렉트되는 이미지 주소는 사용할 수 없습니다.");
+  }
+
+  if (!response.ok) {
+    throw new ImageSourceFetchError(
+      `HTTP Error: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const contentType = response.headers.get("content-type") || "";
+  if (!contentType.startsWith("image/")) {
+    throw new ImageSourceFetchError(`이미지가 아닌 응답입니다: ${contentType}`);
+  }
+
+  const body = Buffer.from(await response.arrayBuffer());
+  if (body.length > IMAGE_PROXY_SETTINGS.MAX_SOURCE_BYTES) {
+    throw new ImageSourceFetchError("원본 이미지가 너무 큽니다.");
+  }
+  return body;
+}
+
+/**
+ * 이미지 프록시 생성
+ * @param {ImageProxyOptions} options 저장소 및 원본 다운로드 함수
+ */
+export function createImageProxy({
+  store,
+  fetchSource = fetchSourceImage,
+}: ImageProxyOptions): ImageProxy {
+  const pending = new Map<string, Promise<ProcessedImage>>();
+
+  /**
+   * 원본을 가져와 변환 후 저장 (동시 요청은 하나로 합침)
+   */
+  const prepare = (sourceUrl: string): Promise<ProcessedImage> => {
+    const inFlight = pending.get(sourceUrl);
+    if (inFlight) return inFlight;
+
+    const task = (async () => {
+      let processed: ProcessedImage;
+      try {
+        processed = await processSourceImage(await fetchSource(sourceUrl));
+      } catch (error) {
+        if (error instanceof ImageSourceFetchError) throw error;
+        throw new ImageSourceFetchError(
+          error instanceof Error ? error.message : "이미지를 가져오지 못했습니다."
+        );
+      }
+      await store.save(sourceUrl, processed);
+      return processed;
+    })().finally(() => {
+      pending.delete(sourceUrl);
+    });
+
+    pending.set(sourceUrl, task);
+    return task;
+  };
+
+  return {
+    getVariant: async (sourceUrl, variant) => {
+      if (!isProxiableImageUrl(sourceUrl)) {
+        throw new DisallowedImageSourceError();
+      }
+
+      const [metadata, body] = await Promise.all([
+        store.getMetadata(sourceUrl),
+        store.getVariant(sourceUrl, variant),
+      ]);
+      if (metadata && body) return { body, metadata };
+
+      const processed = await prepare(sourceUrl);
+      return { body: processed.variants[variant], metadata: processed.metadata };
+    },
+
+    lookupMetadata: async (sourceUrls) => {
+      const uniqueUrls = Array.from(new Set(sourceUrls)).filter(isProxiableImageUrl);
+      const found: Record<string, ImageMetadata> = {};
+      let prepareBudget = IMAGE_PROXY_SETTINGS.MAX_PREPARE_PER_REQUEST;
+
+      await Promise.all(
+        uniqueUrls.map(async (sourceUrl) => {
+          const metadata = await store.getMetadata(sourceUrl);
+          if (metadata) {
+            found[sourceUrl] = metadata;
+            return;
+          }
+          if (prepareBudget <= 0 || pending.has(sourceUrl)) return;
+
+          prepareBudget--;
+          prepare(sourceUrl).catch((error) => {
+            console.warn(
+              `이미지 미리 변환 실패 (${sourceUrl}):`,
+              error instanceof Error ? error.message : error
+            );
+          });
+        })
+      );
+
+      return found;
+    },
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * 변환 이미지 저장소 (서버 전용)
+ *
+ * - 파일: 원본 URL 해시별로 정보(JSON)와 크기별 webp 파일을 저장 (기본값)
+ * - 메모리 LRU: 파일 시스템을 쓸 수 없는 환경용
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ImageMetadata, ImageVariant } from "@/types/common";
+import type { ImageStore, ProcessedImage } from "./types";
+
+/**
+ * 원본 URL 해시
+ */
+function hashSourceUrl(sourceUrl: string): string {
+  return createHash("sha1").update(sourceUrl).digest("hex");
+}
+
+/**
+ * 파일 저장소 생성
+ * @param {string} directory 저장 디렉터리
+ */
+export function createFileImageStore(directory: string): ImageStore {
+  const metadataPathOf = (sourceUrl: string) =>
+    path.join(directory, `${hashSourceUrl(sourceUrl)}.json`);
+  const variantPathOf = (sourceUrl: string, variant: ImageVariant) =>
+    path.join(directory, `${hashSourceUrl(sourceUrl)}-${variant}.webp`);
+
+  return {
+    getMetadata: async (sourceUrl) => {
+      try {
+        const raw = await readFile(metadataPathOf(sourceUrl), "utf-8");
+        return JSON.parse(raw) as ImageMetadata;
+      } catch {
+        return null;
+      }
+    },
+    getVariant: async (sourceUrl, variant) => {
+      try {
+        return await readFile(variantPathOf(sourceUrl, variant));
+      } catch {
+        return null;
+      }
+    },
+    save: async (sourceUrl, { metadata, variants }) => {
+      await mkdir(directory, { recursive: true });
+      await Promise.all(
+        (Object.keys(variants) as ImageVariant[]).map((variant) =>
+          writeFile(variantPathOf(sourceUrl, variant), variants[variant])
+        )
+      );
+      // 변형 파일을 모두 쓴 뒤 정보 파일을 기록해 정보가 있으면 변형도 있도록 보장
+      await writeFile(metadataPathOf(sourceUrl), JSON.stringify(metadata), "utf-8");
+    },
+  };
+}
+
+/**
+ * 메모리 LRU 저장소 생성
+ * @param {number} maxEntries 최대 원본 수
+ */
+export function createMemoryImageStore(maxEntries: number): ImageStore {
+  const entries = new Map<string, ProcessedImage>();
+
+  const touch = (sourceUrl: string) => {
+    const entry = entries.get(sourceUrl);
+    if (!entry) return null;
+    // 최근 사용 순서 갱신
+    entries.delete(sourceUrl);
+    entries.set(sourceUrl, entry);
+    return entry;
+  };
+
+  return {
+    getMetadata: async (sourceUrl) => touch(sourceUrl)?.metadata ?? null,
+    getVariant: async (sourceUrl, variant) =>
+      touch(sourceUrl)?.variants[variant] ?? null,
+    save: async (sourceUrl, image) => {
+      entries.delete(sourceUrl);
+      entries.set(sourceUrl, image);
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) break;
+        entries.delete(oldestKey);
+      }
+    },
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * 보호소 사진 프록시 (서버 전용)
+ *
+ * IMAGE_CACHE_STORE 환경변수로 변환 이미지 저장소를 선택합니다.
+ * - file (기본값): IMAGE_CACHE_DIR (기본 .cache/images)에 저장
+ * - memory: 프로세스 메모리에만 보관 (파일 시스템을 쓸 수 없는 환경)
+ */
+
+import { IMAGE_PROXY_SETTINGS } from "@/utils/constants/api";
+import { createImageProxy, type ImageProxy } from "./image-proxy";
+import { createFileImageStore, createMemoryImageStore } from "./image-store";
+
+export * from "./types";
+export {
+  createImageProxy,
+  DisallowedImageSourceError,
+  ImageSourceFetchError,
+} from "./image-proxy";
+export type { ImageProxy, ImageProxyOptions } from "./image-proxy";
+export { createFileImageStore, createMemoryImageStore } from "./image-store";
+export { processSourceImage } from "./image-processor";
+export {
+  attachPetImageMetadata,
+  lookupAnimalImageMetadata,
+} from "./pet-images";
+
+let imageProxy: ImageProxy | undefined;
+
+/**
+ * 이미지 프록시 조회
+ */
+export function getImageProxy(): ImageProxy {
+  if (!imageProxy) {
+    imageProxy = createImageProxy({
+      store:
+        process.env.IMAGE_CACHE_STORE === "memory"
+          ? createMemoryImageStore(IMAGE_PROXY_SETTINGS.MEMORY_MAX_ENTRIES)
+          : createFileImageStore(
+              process.env.IMAGE_CACHE_DIR ||
+                IMAGE_PROXY_SETTINGS.DEFAULT_FILE_DIRECTORY
+            ),
+    });
+  }
+  return imageProxy;
+}
+
+/**
+ * 이미지 프록시 교체
+ * @param {ImageProxy} next 사용할 프록시
+ */
+export function configureImageProxy(next: ImageProxy): void {
+  imageProxy = next;
+}
@@ -0,0 +1,56 @@
+/**
+ * 반려동물 사진 정보 보강 (서버 전용)
+ *
+ * 목록 응답에 프록시가 이미 변환한 사진의 실제 크기와 블러 플레이스홀더를 채웁니다.
+ * 정보 조회에 실패해도 목록 응답은 그대로 반환합니다.
+ */
+
+import type { AbandonmentAnimalItem } from "@/types/api";
+import type { ImageMetadata } from "@/types/common";
+import type { Pet } from "@/types/pet";
+import { applyImageMetadata } from "@/services/api/image-url";
+import { getImageProxy } from "./index";
+
+/**
+ * 원본 URL 목록의 변환 정보 조회 (실패 시 빈 결과)
+ */
+async function lookupSafely(
+  sourceUrls: string[]
+): Promise<Record<string, ImageMetadata>> {
+  try {
+    return await getImageProxy().lookupMetadata(sourceUrls);
+  } catch (error) {
+    console.warn("이미지 정보 조회 실패:", error);
+    return {};
+  }
+}
+
+/**
+ * 유기동물 목록의 원본 사진 변환 정보 조회
+ * @param {AbandonmentAnimalItem[]} animals 공공데이터 유기동물 목록
+ */
+export function lookupAnimalImageMetadata(
+  animals: AbandonmentAnimalItem[]
+): Promise<Record<string, ImageMetadata>> {
+  return lookupSafely(
+    animals.flatMap((animal) =>
+      [animal.popfile1, animal.popfile2].filter((url): url is string => !!url)
+    )
+  );
+}
+
+/**
+ * Pet 목록의 사진 정보 보강
+ * @param {Pet[]} pets 반려동물 목록
+ */
+export async function attachPetImageMetadata(pets: Pet[]): Promise<Pet[]> {
+  const metadata = await lookupSafely(
+    pets.flatMap((pet) =>
+      pet.images.flatMap((image) => (image.sourceUrl ? [image.sourceUrl] : []))
+    )
+  );
+  return pets.map((pet) => ({
+    ...pet,
+    images: applyImageMetadata(pet.images, metadata),
+  }));
+}
@@ -0,0 +1,22 @@
+/**
+ * 이미지 프록시 타입 정의
+ */
+
+import type { ImageMetadata, ImageVariant } from "@/types/common";
+
+/**
+ * 변환이 끝난 이미지 (크기별 webp 변형 + 원본 정보)
+ */
+export interface ProcessedImage {
+  metadata: ImageMetadata;
+  variants: Record<ImageVariant, Buffer>;
+}
+
+/**
+ * 변환 이미지 저장소 (원본 URL 기준)
+ */
+export interface ImageStore {
+  getMetadata(sourceUrl: string): Promise<ImageMetadata | null>;
+  getVariant(sourceUrl: string, variant: ImageVariant): Promise<Buffer | null>;
+  save(sourceUrl: string, image: ProcessedImage): Promise<void>;
+}
@@ -0,0 +1,57 @@
+import { configurePublicDataTransport } from "../../public-data-client";
+import {
+  createFakePublicDataService,
+  createFakeTransport,
+} from "../../public-data-fake";
+import { createMemoryMirrorStore } from "../memory-store";
+import { syncAnimalMirror } from "../sync";
+
+const fakeService = createFakePublicDataService({
+  seed: 11,
+  animalCount: 60,
+  now: new Date("2026-10-01T03:00:00Z"),
+});
+
+/**
+ * 공고중/보호중 응답을 서로 바꿔 주는 전송 계층
+ * (수정 시각은 그대로 두고 공고 상태만 바뀐 상황)
+ */
+function swappedStateTransport() {
+  const transport = createFakeTransport(fakeService);
+  return (endpoint: string, params: Record<string, string>) =>
+    transport(endpoint, {
+      ...params,
+      state: params.state === "notice" ? "protect" : "notice",
+    });
+}
+
+afterAll(() => {
+  configurePublicDataTransport(null);
+});
+
+describe("syncAnimalMirror", () => {
+  it("updTm이 같아도 바뀐 공고 상태를 반영한다", async () => {
+    const store = createMemoryMirrorStore();
+    const query = { states: ["notice" as const], offset: 0, limit: 100 };
+
+    configurePublicDataTransport(createFakeTransport(fakeService));
+    await syncAnimalMirror(store, "full");
+    const before = await store.query(query);
+    expect(before.totalCount).toBeGreaterThan(0);
+
+    configurePublicDataTransport(swappedStateTransport());
+    const result = await syncAnimalMirror(store, "full");
+    expect(result.upserted).toBe(0);
+
+    const noticeIds = before.records.map((record) => record.desertionNo);
+    const protect = await store.query({ ...query, states: ["protect"] });
+    const notice = await store.query(query);
+
+    expect(protect.records.map((record) => record.desertionNo)).toEqual(
+      expect.arrayContaining(noticeIds)
+    );
+    expect(notice.records.some((record) => noticeIds.includes(record.desertionNo))).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * 유기동물 미러 (서버 전용)
+ *
+ * ANIMAL_MIRROR_STORE 환경변수로 저장소를 선택합니다.
+ * - memory: 서버 프로세스 메모리 (단일 인스턴스용)
+ * - supabase: shelter_animals 테이블 (SUPABASE_SERVICE_ROLE_KEY 필요)
+ * 설정하지 않으면 미러를 사용하지 않습니다.
+ */
+
+import { ANIMAL_MIRROR_SETTINGS } from "@/utils/constants/api";
+import { getSupabaseAdminClient } from "../supabase-admin";
+import { createMemoryMirrorStore } from "./memory-store";
+import { createSupabaseMirrorStore } from "./supabase-store";
+import { syncAnimalMirror } from "./sync";
+import type { AnimalMirrorStore } from "./types";
+
+export * from "./types";
+export { createMemoryMirrorStore } from "./memory-store";
+export { createSupabaseMirrorStore } from "./supabase-store";
+export { syncAnimalMirror, resolveSyncMode } from "./sync";
+export type { MirrorSyncMode, MirrorSyncResult } from "./sync";
+export { searchAnimalMirror } from "./query";
+
+let mirrorStore: AnimalMirrorStore | null | undefined;
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * 환경변수 기반 미러 저장소 생성
+ */
+function createMirrorStoreFromEnv(): AnimalMirrorStore | null {
+  switch (process.env.ANIMAL_MIRROR_STORE) {
+    case "memory":
+      return createMemoryMirrorStore();
+    case "supabase": {
+      const client = getSupabaseAdminClient();
+      if (!client) {
+        console.error(
+          "미러 저장소로 supabase가 지정되었지만 SUPABASE_SERVICE_ROLE_KEY가 없습니다."
+        );
+        return null;
+      }
+      return createSupabaseMirrorStore(client);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * 미러 저장소 조회 (미러를 사용하지 않으면 null)
+ */
+export function getAnimalMirrorStore(): AnimalMirrorStore | null {
+  if (mirrorStore === undefined) {
+    mirrorStore = createMirrorStoreFromEnv();
+  }
+  return mirrorStore;
+}
+
+/**
+ * 미러 저장소 교체
+ * @param {AnimalMirrorStore | null} store 미러 저장소
+ */
+export function configureAnimalMirrorStore(store: AnimalMirrorStore | null) {
+  mirrorStore = store;
+}
+
+/**
+ * 주기적 미러 동기화 시작
+ *
+ * 서버 시작 시 한 번 동기화하고 이후 증분 동기화 주기마다 실행합니다.
+ * 전체 동기화 여부는 동기화 상태에 따라 자동으로 결정됩니다.
+ * 서버리스 환경에서는 ANIMAL_MIRROR_SCHEDULER=off로 끄고 /api/mirror/sync를 크론으로 호출합니다.
+ */
+export function startAnimalMirrorScheduler(): void {
+  const store = getAnimalMirrorStore();
+  if (!store || schedulerTimer || process.env.ANIMAL_MIRROR_SCHEDULER === "off") {
+    return;
+  }
+
+  const run = () => {
+    syncAnimalMirror(store).catch((error) => {
+      console.error("유기동물 미러 동기화 오류:", error);
+    });
+  };
+
+  run();
+  schedulerTimer = setInterval(
+    run,
+    ANIMAL_MIRROR_SETTINGS.INCREMENTAL_SYNC_INTERVAL
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * 메모리 미러 저장소 (서버 전용)
+ *
+ * 단일 서버 프로세스용 기본 저장소입니다. 재시작하면 다시 전체 동기화가 필요합니다.
+ */
+
+import { queryRecords } from "./mirror-record";
+import type {
+  AnimalMirrorStore,
+  MirrorRecord,
+  MirrorSyncState,
+} from "./types";
+
+/**
+ * 최신 공고 순 정렬 비교 함수
+ */
+export function compareByNewest(a: MirrorRecord, b: MirrorRecord): number {
+  return (
+    (b.item.noticeSdt || "").localeCompare(a.item.noticeSdt || "") ||
+    b.desertionNo.localeCompare(a.desertionNo)
+  );
+}
+
+/**
+ * 메모리 미러 저장소 생성
+ */
+export function createMemoryMirrorStore(): AnimalMirrorStore {
+  const records = new Map<string, MirrorRecord>();
+  let syncState: MirrorSyncState = {
+    lastIncrementalSyncAt: null,
+    lastFullSyncAt: null,
+    lastUpdTm: null,
+  };
+
+  return {
+    upsertMany: async (items) => {
+      items.forEach((record) => {
+        const existing = records.get(record.desertionNo);
+        records.set(record.desertionNo, {
+          ...record,
+          firstSeenAt: existing?.firstSeenAt ?? record.firstSeenAt,
+        });
+      });
+    },
+
+    touch: async (desertionNos, state, seenAt) => {
+      desertionNos.forEach((desertionNo) => {
+        const record = records.get(desertionNo);
+        if (!record) return;
+        record.state = state;
+        record.lastSeenAt = seenAt;
+        record.disappearedAt = null;
+      });
+    },
+
+    getUpdTimes: async (desertionNos) => {
+      const result = new Map<string, string>();
+      desertionNos.forEach((desertionNo) => {
+        const record = records.get(desertionNo);
+        if (record) result.set(desertionNo, record.updTm);
+      });
+      return result;
+    },
+
+    markDisappeared: async (seenBefore, disappearedAt) => {
+      let count = 0;
+      records.forEach((record) => {
+        if (record.disappearedAt === null && record.lastSeenAt < seenBefore) {
+          record.disappearedAt = disappearedAt;
+          count++;
+        }
+      });
+      return count;
+    },
+
+    query: async (query) => {
+      const { matched, facets } = queryRecords(records.values(), query);
+      matched.sort(compareByNewest);
+
+      return {
+        records: matched.slice(query.offset, query.offset + query.limit),
+        totalCount: matched.length,
+        facets,
+      };
+    },
+
+    get: async (desertionNo) => records.get(desertionNo) ?? null,
+
+    getSyncState: async () => ({ ...syncState }),
+
+    saveSyncState: async (state) => {
+      syncState = { ...state };
+    },
+  };
+}
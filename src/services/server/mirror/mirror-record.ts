@@ -0,0 +1,241 @@
+/**
+ * 미러 레코드 생성 및 메모리 검색/패싯 계산 (서버 전용)
+ */
+
+import type { AbandonmentAnimalItem } from "@/types/api";
+import { convertAbandonmentAnimalToPet } from "@/services/api/animal-adapter";
+import type {
+  FacetCount,
+  MirrorAnimalState,
+  MirrorFacets,
+  MirrorQuery,
+  MirrorRecord,
+} from "./types";
+
+/**
+ * 검색 텍스트 정규화 (소문자, 공백 정리)
+ * @param {string} text 원본 텍스트
+ */
+export function normalizeSearchText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * 검색어를 검색어 토큰으로 분리
+ *
+ * 한국어는 조사가 붙어 형태소 단위 매칭이 어려우므로 토큰 부분 일치를 사용합니다.
+ * @param {string} keyword 검색어
+ */
+export function tokenizeKeyword(keyword?: string): string[] {
+  if (!keyword) return [];
+  return Array.from(
+    new Set(
+      normalizeSearchText(keyword)
+        .split(/[\s,./()[\]]+/)
+        .filter((term) => term.length > 0)
+    )
+  );
+}
+
+/**
+ * 관할기관명에서 시도명 추출 ("서울특별시 강남구" → "서울특별시")
+ * @param {string} orgNm 관할기관명
+ */
+function extractLocation(orgNm?: string): string {
+  return orgNm?.trim().split(/\s+/)[0] || "미상";
+}
+
+/**
+ * 업스트림 아이템을 미러 레코드로 변환
+ * @param {AbandonmentAnimalItem} item 업스트림 아이템
+ * @param {MirrorAnimalState} state 조회한 공고 상태
+ * @param {string} seenAt 확인 시각
+ */
+export function toMirrorRecord(
+  item: AbandonmentAnimalItem,
+  state: MirrorAnimalState,
+  seenAt: string
+): MirrorRecord {
+  const pet = convertAbandonmentAnimalToPet(item);
+
+  return {
+    desertionNo: item.desertionNo,
+    item,
+    state,
+    species: pet.species,
+    breedName: pet.breed?.name || item.kindNm || "미상",
+    size: pet.size,
+    ageGroup: pet.age.ageGroup,
+    gender: pet.gender,
+    neutered: item.neuterYn || "U",
+    location: extractLocation(item.orgNm),
+    personalities: pet.personality,
+    careRegNo: item.careRegNo || "",
+    searchText: normalizeSearchText(
+      [
+        item.kindCd,
+        item.kindNm,
+        item.kindFullNm,
+        item.happenPlace,
+        item.specialMark,
+        item.careNm,
+        item.orgNm,
+        item.colorCd,
+      ]
+        .filter(Boolean)
+        .join(" ")
+    ),
+    updTm: item.updTm || "",
+    firstSeenAt: seenAt,
+    lastSeenAt: seenAt,
+    disappearedAt: null,
+  };
+}
+
+/**
+ * 패싯 차원
+ */
+type FacetDimension = keyof MirrorFacets;
+
+/**
+ * 다중 값 필터 일치 여부 (필터가 비어 있으면 통과)
+ */
+function matchesAny<T>(filter: T[] | undefined, value: T): boolean {
+  return !filter || filter.length === 0 || filter.includes(value);
+}
+
+/**
+ * 패싯 차원별 필터 일치 여부
+ */
+function matchesDimension(
+  record: MirrorRecord,
+  query: MirrorQuery,
+  dimension: FacetDimension
+): boolean {
+  switch (dimension) {
+    case "species":
+      return matchesAny(query.species, record.species);
+    case "breeds":
+      return matchesAny(query.breeds, record.breedName);
+    case "sizes":
+      return matchesAny(query.sizes, record.size);
+    case "ageGroups":
+      return matchesAny(query.ageGroups, record.ageGroup);
+    case "locations":
+      return matchesAny(query.locations, record.location);
+    case "personalities":
+      return (
+        !query.personalities ||
+        query.personalities.length === 0 ||
+        record.personalities.some((trait) =>
+          query.personalities!.includes(trait)
+        )
+      );
+  }
+}
+
+const FACET_DIMENSIONS: FacetDimension[] = [
+  "species",
+  "breeds",
+  "sizes",
+  "ageGroups",
+  "locations",
+  "personalities",
+];
+
+/**
+ * 패싯 외 조건(검색어, 성별, 중성화, 상태, 보호소) 일치 여부
+ * @param {MirrorRecord} record 레코드
+ * @param {MirrorQuery} query 검색 조건
+ * @param {string[]} terms 검색어 토큰
+ */
+export function matchesBaseConditions(
+  record: MirrorRecord,
+  query: MirrorQuery,
+  terms: string[]
+): boolean {
+  return (
+    record.disappearedAt === null &&
+    terms.every((term) => record.searchText.includes(term)) &&
+    matchesAny(query.genders, record.gender) &&
+    matchesAny(query.neutered, record.neutered) &&
+    matchesAny(query.states, record.state) &&
+    matchesAny(query.careRegNos, record.careRegNo)
+  );
+}
+
+/**
+ * 레코드가 모든 조건에 일치하는지 확인 (except 차원은 제외)
+ */
+function matchesFacets(
+  record: MirrorRecord,
+  query: MirrorQuery,
+  except?: FacetDimension
+): boolean {
+  return FACET_DIMENSIONS.every(
+    (dimension) =>
+      dimension === except || matchesDimension(record, query, dimension)
+  );
+}
+
+/**
+ * 값별 개수를 내림차순 패싯 목록으로 변환
+ */
+function toFacetCounts<T extends string>(counts: Map<T, number>): FacetCount<T>[] {
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  );
+}
+
+/**
+ * 메모리 레코드 목록 검색
+ *
+ * 패싯은 해당 차원의 필터만 제외하고 나머지 조건을 모두 적용해 집계하므로
+ * 다중 선택 시에도 다른 값을 선택했을 때의 결과 수를 정확히 보여줍니다.
+ * @param {Iterable<MirrorRecord>} records 전체 레코드
+ * @param {MirrorQuery} query 검색 조건
+ */
+export function queryRecords(
+  records: Iterable<MirrorRecord>,
+  query: MirrorQuery
+): { matched: MirrorRecord[]; facets: MirrorFacets } {
+  const terms = tokenizeKeyword(query.keyword);
+  const counters = Object.fromEntries(
+    FACET_DIMENSIONS.map((dimension) => [dimension, new Map<string, number>()])
+  ) as Record<FacetDimension, Map<string, number>>;
+  const matched: MirrorRecord[] = [];
+
+  const increment = (dimension: FacetDimension, value: string) => {
+    const counter = counters[dimension];
+    counter.set(value, (counter.get(value) || 0) + 1);
+  };
+
+  for (const record of records) {
+    if (!matchesBaseConditions(record, query, terms)) continue;
+
+    if (matchesFacets(record, query)) matched.push(record);
+
+    if (matchesFacets(record, query, "species")) increment("species", record.species);
+    if (matchesFacets(record, query, "breeds")) increment("breeds", record.breedName);
+    if (matchesFacets(record, query, "sizes")) increment("sizes", record.size);
+    if (matchesFacets(record, query, "ageGroups")) increment("ageGroups", record.ageGroup);
+    if (matchesFacets(record, query, "locations")) increment("locations", record.location);
+    if (matchesFacets(record, query, "personalities")) {
+      record.personalities.forEach((trait) => increment("personalities", trait));
+    }
+  }
+
+  return {
+    matched,
+    facets: {
+      species: toFacetCounts(counters.species) as MirrorFacets["species"],
+      breeds: toFacetCounts(counters.breeds),
+      sizes: toFacetCounts(counters.sizes) as MirrorFacets["sizes"],
+      ageGroups: toFacetCounts(counters.ageGroups) as MirrorFacets["ageGroups"],
+      locations: toFacetCounts(counters.locations),
+      personalities: toFacetCounts(
+        counters.personalities
+      ) as MirrorFacets["personalities"],
+    },
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * 미러 검색 요청 처리 (서버 전용)
+ *
+ * POST /api/animals의 mode: "mirror" 요청 body를 미러 검색 조건으로 변환합니다.
+ */
+
+import type { AnimalMirrorSearchResult } from "@/types/api";
+import { ANIMAL_MIRROR_SETTINGS } from "@/utils/constants/api";
+import { InvalidSearchCursorError } from "../filtered-search";
+import { lookupAnimalImageMetadata } from "../images";
+import type { AnimalMirrorStore, MirrorQuery } from "./types";
+
+/**
+ * 다중 값 파라미터 정규화 (배열 또는 콤마 구분 문자열)
+ */
+function toStringArray<T extends string = string>(value: unknown): T[] | undefined {
+  const values = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(",")
+      : [];
+  const normalized = values
+    .map((item) => String(item).trim())
+    .filter((item) => item.length > 0);
+  return normalized.length > 0 ? (normalized as T[]) : undefined;
+}
+
+/**
+ * 오프셋 커서 인코딩
+ */
+function encodeOffsetCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString("base64url");
+}
+
+/**
+ * 오프셋 커서 디코딩 (형식이 잘못되면 InvalidSearchCursorError)
+ */
+function decodeOffsetCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // 아래에서 공통 처리
+  }
+  throw new InvalidSearchCursorError();
+}
+
+/**
+ * 미러 검색 실행
+ * @param {AnimalMirrorStore} store 미러 저장소
+ * @param {Record<string, unknown>} body 검색 요청 body
+ */
+export async function searchAnimalMirror(
+  store: AnimalMirrorStore,
+  body: Record<string, unknown>
+): Promise<AnimalMirrorSearchResult> {
+  const pageSize = Math.min(
+    Math.max(parseInt(String(body.numOfRows ?? 20)) || 20, 1),
+    ANIMAL_MIRROR_SETTINGS.MAX_PAGE_SIZE
+  );
+  const pageNo = Math.max(parseInt(String(body.pageNo ?? 1)) || 1, 1);
+  const offset =
+    typeof body.cursor === "string" && body.cursor
+      ? decodeOffsetCursor(body.cursor)
+      : (pageNo - 1) * pageSize;
+
+  const query: MirrorQuery = {
+    keyword: typeof body.keyword === "string" ? body.keyword : undefined,
+    species: toStringArray(body.species),
+    breeds: toStringArray(body.breeds),
+    sizes: toStringArray(body.sizes),
+    ageGroups: toStringArray(body.ageGroups),
+    locations: toStringArray(body.locations),
+    personalities: toStringArray(body.personalities),
+    genders: toStringArray(body.genders),
+    neutered: toStringArray(body.neutered),
+    states: toStringArray(body.states),
+    careRegNos: toStringArray(body.careRegNos),
+    offset,
+    limit: pageSize,
+  };
+
+  const [result, syncState] = await Promise.all([
+    store.query(query),
+    store.getSyncState(),
+  ]);
+  const animals = result.records.map((record) => record.item);
+  const nextOffset = offset + result.records.length;
+  const hasMore = nextOffset < result.totalCount;
+
+  return {
+    animals,
+    totalCount: result.totalCount,
+    totalCountExact: true,
+    pageNo,
+    numOfRows: pageSize,
+    nextCursor: hasMore ? encodeOffsetCursor(nextOffset) : null,
+    hasMore,
+    facets: result.facets,
+    syncedAt: syncState.lastIncrementalSyncAt,
+    images: await lookupAnimalImageMetadata(animals),
+  };
+}
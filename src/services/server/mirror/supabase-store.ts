@@ -0,0 +1,316 @@
+/**
+ * Supabase 미러 저장소 (서버 전용)
+ *
+ * supabase/migrations의 shelter_animals 테이블과 shelter_animal_facets 함수를 사용합니다.
+ * 여러 서버 인스턴스가 같은 미러를 공유할 때 사용합니다.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AbandonmentAnimalItem } from "@/types/api";
+import type { Gender } from "@/types/common";
+import type {
+  PersonalityTrait,
+  PetAgeGroup,
+  PetSize,
+  PetSpecies,
+} from "@/types/pet";
+import { tokenizeKeyword } from "./mirror-record";
+import type {
+  AnimalMirrorStore,
+  FacetCount,
+  MirrorAnimalState,
+  MirrorFacets,
+  MirrorQuery,
+  MirrorRecord,
+} from "./types";
+
+const ANIMALS_TABLE = "shelter_animals";
+const SYNC_STATE_TABLE = "shelter_animal_sync_state";
+const FACETS_FUNCTION = "shelter_animal_facets";
+
+/**
+ * 한 번에 처리할 행 수 (요청 크기 제한 대응)
+ */
+const CHUNK_SIZE = 500;
+
+/**
+ * shelter_animals 행
+ */
+interface ShelterAnimalRow {
+  desertion_no: string;
+  item: AbandonmentAnimalItem;
+  state: MirrorAnimalState;
+  species: PetSpecies;
+  breed_name: string;
+  size: PetSize;
+  age_group: PetAgeGroup;
+  gender: Gender;
+  neutered: string;
+  location: string;
+  personalities: PersonalityTrait[];
+  care_reg_no: string;
+  search_text: string;
+  notice_sdt: string;
+  upd_tm: string;
+  first_seen_at: string;
+  last_seen_at: string;
+  disappeared_at: string | null;
+}
+
+/**
+ * 배열을 일정 크기로 분할
+ */
+function chunk<T>(items: T[], size: number = CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+/**
+ * Supabase 오류를 Error로 변환하여 throw
+ */
+function assertNoError(error: { message: string } | null, action: string) {
+  if (error) {
+    throw new Error(`미러 저장소 ${action} 실패: ${error.message}`);
+  }
+}
+
+/**
+ * LIKE 패턴 특수문자 이스케이프
+ */
+function escapeLikePattern(term: string): string {
+  return term.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * 레코드를 행으로 변환 (first_seen_at은 최초 삽입 시 기본값 사용)
+ */
+function toRow(record: MirrorRecord): Omit<ShelterAnimalRow, "first_seen_at"> {
+  return {
+    desertion_no: record.desertionNo,
+    item: record.item,
+    state: record.state,
+    species: record.species,
+    breed_name: record.breedName,
+    size: record.size,
+    age_group: record.ageGroup,
+    gender: record.gender,
+    neutered: record.neutered,
+    location: record.location,
+    personalities: record.personalities,
+    care_reg_no: record.careRegNo,
+    search_text: record.searchText,
+    notice_sdt: record.item.noticeSdt || "",
+    upd_tm: record.updTm,
+    last_seen_at: record.lastSeenAt,
+    disappeared_at: record.disappearedAt,
+  };
+}
+
+/**
+ * 행을 레코드로 변환
+ */
+function fromRow(row: ShelterAnimalRow): MirrorRecord {
+  return {
+    desertionNo: row.desertion_no,
+    item: row.item,
+    state: row.state,
+    species: row.species,
+    breedName: row.breed_name,
+    size: row.size,
+    ageGroup: row.age_group,
+    gender: row.gender,
+    neutered: row.neutered,
+    location: row.location,
+    personalities: row.personalities ?? [],
+    careRegNo: row.care_reg_no,
+    searchText: row.search_text,
+    updTm: row.upd_tm,
+    firstSeenAt: row.first_seen_at,
+    lastSeenAt: row.last_seen_at,
+    disappearedAt: row.disappeared_at,
+  };
+}
+
+/**
+ * 빈 배열은 필터 없음(null)으로 변환
+ */
+function toFilterArray<T>(values?: T[]): T[] | null {
+  return values && values.length > 0 ? values : null;
+}
+
+/**
+ * Supabase 미러 저장소 생성
+ * @param {SupabaseClient} client 서비스 롤 Supabase 클라이언트
+ */
+export function createSupabaseMirrorStore(
+  client: SupabaseClient
+): AnimalMirrorStore {
+  /**
+   * 패싯 집계 조회
+   */
+  const fetchFacets = async (
+    query: MirrorQuery,
+    terms: string[]
+  ): Promise<MirrorFacets> => {
+    const { data, error } = await client.rpc(FACETS_FUNCTION, {
+      p_terms: toFilterArray(terms),
+      p_species: toFilterArray(query.species),
+      p_breeds: toFilterArray(query.breeds),
+      p_sizes: toFilterArray(query.sizes),
+      p_age_groups: toFilterArray(query.ageGroups),
+      p_locations: toFilterArray(query.locations),
+      p_personalities: toFilterArray(query.personalities),
+      p_genders: toFilterArray(query.genders),
+      p_neutered: toFilterArray(query.neutered),
+      p_states: toFilterArray(query.states),
+      p_care_reg_nos: toFilterArray(query.careRegNos),
+    });
+    assertNoError(error, "패싯 집계");
+
+    const facets: Record<keyof MirrorFacets, FacetCount[]> = {
+      species: [],
+      breeds: [],
+      sizes: [],
+      ageGroups: [],
+      locations: [],
+      personalities: [],
+    };
+    (data as { facet: keyof MirrorFacets; value: string; count: number }[])
+      .filter((row) => row.facet in facets)
+      .forEach((row) => {
+        facets[row.facet].push({ value: row.value, count: Number(row.count) });
+      });
+    Object.values(facets).forEach((counts) =>
+      counts.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    );
+
+    return facets as MirrorFacets;
+  };
+
+  return {
+    upsertMany: async (records) => {
+      for (const rows of chunk(records.map(toRow))) {
+        const { error } = await client
+          .from(ANIMALS_TABLE)
+          .upsert(rows, { onConflict: "desertion_no" });
+        assertNoError(error, "저장");
+      }
+    },
+
+    touch: async (desertionNos, state, seenAt) => {
+      for (const ids of chunk(desertionNos)) {
+        const { error } = await client
+          .from(ANIMALS_TABLE)
+          .update({ state, last_seen_at: seenAt, disappeared_at: null })
+          .in("desertion_no", ids);
+        assertNoError(error, "확인 시각 갱신");
+      }
+    },
+
+    getUpdTimes: async (desertionNos) => {
+      const result = new Map<string, string>();
+      for (const ids of chunk(desertionNos)) {
+        const { data, error } = await client
+          .from(ANIMALS_TABLE)
+          .select("desertion_no, upd_tm")
+          .in("desertion_no", ids);
+        assertNoError(error, "수정 시각 조회");
+        (data ?? []).forEach((row) => result.set(row.desertion_no, row.upd_tm));
+      }
+      return result;
+    },
+
+    markDisappeared: async (seenBefore, disappearedAt) => {
+      const { count, error } = await client
+        .from(ANIMALS_TABLE)
+        .update({ disappeared_at: disappearedAt }, { count: "exact" })
+        .is("disappeared_at", null)
+        .lt("last_seen_at", seenBefore);
+      assertNoError(error, "사라짐 표시");
+      return count ?? 0;
+    },
+
+    query: async (query) => {
+      const terms = tokenizeKeyword(query.keyword);
+      let builder = client
+        .from(ANIMALS_TABLE)
+        .select("*", { count: "exact" })
+        .is("disappeared_at", null);
+
+      terms.forEach((term) => {
+        builder = builder.ilike("search_text", `%${escapeLikePattern(term)}%`);
+      });
+
+      const inFilters: [string, string[] | undefined][] = [
+        ["species", query.species],
+        ["breed_name", query.breeds],
+        ["size", query.sizes],
+        ["age_group", query.ageGroups],
+        ["location", query.locations],
+        ["gender", query.genders],
+        ["neutered", query.neutered],
+        ["state", query.states],
+        ["care_reg_no", query.careRegNos],
+      ];
+      inFilters.forEach(([column, values]) => {
+        if (values && values.length > 0) builder = builder.in(column, values);
+      });
+      if (query.personalities && query.personalities.length > 0) {
+        builder = builder.overlaps("personalities", query.personalities);
+      }
+
+      const [{ data, count, error }, facets] = await Promise.all([
+        builder
+          .order("notice_sdt", { ascending: false })
+          .order("desertion_no", { ascending: false })
+          .range(query.offset, query.offset + query.limit - 1),
+        fetchFacets(query, terms),
+      ]);
+      assertNoError(error, "검색");
+
+      return {
+        records: ((data ?? []) as ShelterAnimalRow[]).map(fromRow),
+        totalCount: count ?? 0,
+        facets,
+      };
+    },
+
+    get: async (desertionNo) => {
+      const { data, error } = await client
+        .from(ANIMALS_TABLE)
+        .select("*")
+        .eq("desertion_no", desertionNo)
+        .maybeSingle();
+      assertNoError(error, "조회");
+      return data ? fromRow(data as ShelterAnimalRow) : null;
+    },
+
+    getSyncState: async () => {
+      const { data, error } = await client
+        .from(SYNC_STATE_TABLE)
+        .select("*")
+        .eq("id", 1)
+        .maybeSingle();
+      assertNoError(error, "동기화 상태 조회");
+
+      return {
+        lastIncrementalSyncAt: data?.last_incremental_sync_at ?? null,
+        lastFullSyncAt: data?.last_full_sync_at ?? null,
+        lastUpdTm: data?.last_upd_tm ?? null,
+      };
+    },
+
+    saveSyncState: async (state) => {
+      const { error } = await client.from(SYNC_STATE_TABLE).upsert({
+        id: 1,
+        last_incremental_sync_at: state.lastIncrementalSyncAt,
+        last_full_sync_at: state.lastFullSyncAt,
+        last_upd_tm: state.lastUpdTm,
+      });
+      assertNoError(error, "동기화 상태 저장");
+    },
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * 유기동물 미러 동기화 (서버 전용)
+ *
+ * - 전체 동기화: 공고중/보호중 전체를 훑고, 이번 동기화에서 보이지 않은 동물을 사라짐으로 표시
+ * - 증분 동기화: 마지막 동기화일 이후 수정된 동물(bgupd)만 가져와 updTm이 바뀐 경우 갱신
+ */
+
+import type { AbandonmentAnimalItem } from "@/types/api";
+import { ANIMAL_MIRROR_SETTINGS } from "@/utils/constants/api";
+import {
+  fetchFromPublicAPI,
+  PUBLIC_API_ENDPOINTS,
+} from "../public-data-client";
+import { extractAnimalRecords } from "../animal-records";
+import { toMirrorRecord } from "./mirror-record";
+import type {
+  AnimalMirrorStore,
+  MirrorAnimalState,
+  MirrorSyncState,
+} from "./types";
+
+/**
+ * 동기화 방식
+ */
+export type MirrorSyncMode = "full" | "incremental";
+
+/**
+ * 동기화 결과
+ */
+export interface MirrorSyncResult {
+  mode: MirrorSyncMode;
+  startedAt: string;
+  finishedAt: string;
+  fetched: number; // 업스트림에서 받은 아이템 수
+  dropped: number; // 검증에 실패해 제외한 아이템 수
+  upserted: number; // 새로 추가되거나 수정된 아이템 수
+  unchanged: number; // updTm이 같아 상태와 확인 시각만 갱신한 아이템 수
+  disappeared: number; // 사라짐으로 표시한 아이템 수
+  upstreamRequests: number;
+  completed: boolean; // false면 호출 예산을 소진해 중간에 멈춘 경우
+}
+
+/**
+ * 진행 중인 동기화 (동시 실행 방지)
+ */
+let runningSync: Promise<MirrorSyncResult> | null = null;
+
+/**
+ * 시각을 업스트림 날짜 형식(YYYYMMDD, KST)으로 변환
+ * @param {string} iso ISO 시각
+ */
+function toUpstreamDate(iso: string): string {
+  const kst = new Date(new Date(iso).getTime() + 9 * 60 * 60 * 1000);
+  return kst.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/**
+ * 동기화 방식 결정 (전체 동기화 주기가 지났으면 전체 동기화)
+ * @param {MirrorSyncState} state 동기화 상태
+ * @param {number} now 현재 시각 (ms)
+ */
+export function resolveSyncMode(
+  state: MirrorSyncState,
+  now: number = Date.now()
+): MirrorSyncMode {
+  if (
+    !state.lastFullSyncAt ||
+    now - new Date(state.lastFullSyncAt).getTime() >=
+      ANIMAL_MIRROR_SETTINGS.FULL_SYNC_INTERVAL
+  ) {
+    return "full";
+  }
+  return "incremental";
+}
+
+/**
+ * 한 페이지 분량의 아이템을 저장소에 반영
+ */
+async function applyPage(
+  store: AnimalMirrorStore,
+  items: AbandonmentAnimalItem[],
+  state: MirrorAnimalState,
+  seenAt: string
+): Promise<{ upserted: number; unchanged: number; maxUpdTm: string }> {
+  const valid = items.filter((item) => item?.desertionNo);
+  const storedUpdTimes = await store.getUpdTimes(
+    valid.map((item) => item.desertionNo)
+  );
+
+  const changed = valid.filter(
+    (item) => storedUpdTimes.get(item.desertionNo) !== (item.updTm || "")
+  );
+  const unchanged = valid
+    .filter((item) => !changed.includes(item))
+    .map((item) => item.desertionNo);
+
+  await store.upsertMany(
+    changed.map((item) => toMirrorRecord(item, state, seenAt))
+  );
+  // updTm이 같아도 공고중 → 보호중처럼 상태만 바뀔 수 있으므로 상태는 함께 갱신
+  await store.touch(unchanged, state, seenAt);
+
+  const maxUpdTm = valid.reduce(
+    (max, item) => ((item.updTm || "") > max ? item.updTm : max),
+    ""
+  );
+
+  return { upserted: changed.length, unchanged: unchanged.length, maxUpdTm };
+}
+
+/**
+ * 동기화 실행
+ * @param {AnimalMirrorStore} store 미러 저장소
+ * @param {MirrorSyncMode} mode 동기화 방식
+ */
+async function runSync(
+  store: AnimalMirrorStore,
+  mode: MirrorSyncMode
+): Promise<MirrorSyncResult> {
+  const syncState = await store.getSyncState();
+  const startedAt = new Date().toISOString();
+  const pageSize = ANIMAL_MIRROR_SETTINGS.UPSTREAM_PAGE_SIZE;
+  const result: MirrorSyncResult = {
+    mode,
+    startedAt,
+    finishedAt: startedAt,
+    fetched: 0,
+    dropped: 0,
+    upserted: 0,
+    unchanged: 0,
+    disappeared: 0,
+    upstreamRequests: 0,
+    completed: true,
+  };
+  let lastUpdTm = syncState.lastUpdTm ?? "";
+
+  const incrementalFrom =
+    mode === "incremental" && syncState.lastIncrementalSyncAt
+      ? toUpstreamDate(syncState.lastIncrementalSyncAt)
+      : undefined;
+
+  for (const state of ANIMAL_MIRROR_SETTINGS.SYNC_STATES) {
+    let pageNo = 1;
+
+    while (true) {
+      if (result.upstreamRequests >= ANIMAL_MIRROR_SETTINGS.MAX_UPSTREAM_REQUESTS) {
+        result.completed = false;
+        break;
+      }
+
+      const response = await fetchFromPublicAPI<AbandonmentAnimalItem>(
+        PUBLIC_API_ENDPOINTS.ANIMALS,
+        {
+          state,
+          pageNo,
+          numOfRows: pageSize,
+          ...(incrementalFrom && { bgupd: incrementalFrom }),
+        }
+      );
+      result.upstreamRequests++;
+
+      const { animals: items, received, dropped } = extractAnimalRecords(response);
+      result.fetched += received;
+      result.dropped += dropped;
+
+      const applied = await applyPage(store, items, state, startedAt);
+      result.upserted += applied.upserted;
+      result.unchanged += applied.unchanged;
+      if (applied.maxUpdTm > lastUpdTm) lastUpdTm = applied.maxUpdTm;
+
+      const totalCount = response.response.body.totalCount || 0;
+      if (received < pageSize || pageNo * pageSize >= totalCount) break;
+      pageNo++;
+    }
+
+    if (!result.completed) break;
+  }
+
+  // 전체를 끝까지 훑은 경우에만 보이지 않은 동물을 사라짐으로 표시
+  if (mode === "full" && result.completed) {
+    result.disappeared = await store.markDisappeared(
+      startedAt,
+      new Date().toISOString()
+    );
+  }
+
+  result.finishedAt = new Date().toISOString();
+  await store.saveSyncState({
+    lastIncrementalSyncAt: result.completed
+      ? startedAt
+      : syncState.lastIncrementalSyncAt,
+    lastFullSyncAt:
+      mode === "full" && result.completed ? startedAt : syncState.lastFullSyncAt,
+    lastUpdTm: lastUpdTm || null,
+  });
+
+  return result;
+}
+
+/**
+ * 미러 동기화 (이미 실행 중이면 진행 중인 동기화 결과를 공유)
+ * @param {AnimalMirrorStore} store 미러 저장소
+ * @param {MirrorSyncMode} mode 동기화 방식 (생략 시 동기화 상태로 결정)
+ */
+export async function syncAnimalMirror(
+  store: AnimalMirrorStore,
+  mode?: MirrorSyncMode
+): Promise<MirrorSyncResult> {
+  if (runningSync) return runningSync;
+
+  runningSync = (async () => {
+    const resolvedMode = mode ?? resolveSyncMode(await store.getSyncState());
+    return runSync(store, resolvedMode);
+  })().finally(() => {
+    runningSync = null;
+  });
+
+  return runningSync;
+}
@@ -0,0 +1,115 @@
+/**
+ * 유기동물 미러 타입 정의 (서버 전용)
+ */
+
+import type { AbandonmentAnimalItem } from "@/types/api";
+import type { Gender } from "@/types/common";
+import type {
+  PersonalityTrait,
+  PetAgeGroup,
+  PetSize,
+  PetSpecies,
+} from "@/types/pet";
+import type { SearchResults } from "@/types/search";
+
+/**
+ * 미러 대상 공고 상태
+ */
+export type MirrorAnimalState = "notice" | "protect";
+
+/**
+ * 미러 레코드 (원본 아이템 + 검색/집계용 파생 필드)
+ */
+export interface MirrorRecord {
+  desertionNo: string;
+  item: AbandonmentAnimalItem;
+  state: MirrorAnimalState;
+  species: PetSpecies;
+  breedName: string;
+  size: PetSize;
+  ageGroup: PetAgeGroup;
+  gender: Gender;
+  neutered: string; // Y, N, U
+  location: string; // 시도명 (관할기관 첫 단어)
+  personalities: PersonalityTrait[];
+  careRegNo: string;
+  searchText: string; // 정규화된 검색 대상 텍스트
+  updTm: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  disappearedAt: string | null; // 전체 동기화에서 더 이상 보이지 않은 시각
+}
+
+/**
+ * 미러 검색 조건 (다중 값 필터는 OR, 필터 간에는 AND)
+ */
+export interface MirrorQuery {
+  keyword?: string;
+  species?: PetSpecies[];
+  breeds?: string[];
+  sizes?: PetSize[];
+  ageGroups?: PetAgeGroup[];
+  locations?: string[];
+  personalities?: PersonalityTrait[];
+  genders?: Gender[];
+  neutered?: string[];
+  states?: MirrorAnimalState[];
+  careRegNos?: string[];
+  offset: number;
+  limit: number;
+}
+
+/**
+ * 패싯 항목
+ */
+export interface FacetCount<T extends string = string> {
+  value: T;
+  count: number;
+}
+
+/**
+ * 패싯 집계 결과 (SearchResults.filters.available 형태)
+ */
+export type MirrorFacets = SearchResults["filters"]["available"];
+
+/**
+ * 미러 검색 결과
+ */
+export interface MirrorQueryResult {
+  records: MirrorRecord[];
+  totalCount: number;
+  facets: MirrorFacets;
+}
+
+/**
+ * 동기화 상태
+ */
+export interface MirrorSyncState {
+  lastIncrementalSyncAt: string | null;
+  lastFullSyncAt: string | null;
+  lastUpdTm: string | null; // 지금까지 본 가장 최근 수정 시각
+}
+
+/**
+ * 미러 저장소 인터페이스
+ */
+export interface AnimalMirrorStore {
+  /** 레코드 저장 (기존 레코드는 최초 확인 시각을 유지하며 갱신) */
+  upsertMany(records: MirrorRecord[]): Promise<void>;
+  /** 변경 없는 레코드의 공고 상태와 확인 시각 갱신 (사라짐 표시 해제) */
+  touch(
+    desertionNos: string[],
+    state: MirrorAnimalState,
+    seenAt: string
+  ): Promise<void>;
+  /** 유기번호별 저장된 수정 시각 조회 (사라진 레코드 포함) */
+  getUpdTimes(desertionNos: string[]): Promise<Map<string, string>>;
+  /** 특정 시각 이후 확인되지 않은 활성 레코드를 사라짐으로 표시 */
+  markDisappeared(seenBefore: string, disappearedAt: string): Promise<number>;
+  /** 검색 */
+  query(query: MirrorQuery): Promise<MirrorQueryResult>;
+  /** 유기번호로 조회 */
+  get(desertionNo: string): Promise<MirrorRecord | null>;
+  getSyncState(): Promise<MirrorSyncState>;
+  saveSyncState(state: MirrorSyncState): Promise<void>;
+}
@@ -0,0 +1,301 @@
+/**
+ * 공공데이터포털 API 클라이언트 (서버 전용)
+ *
+ * abandonmentPublicService_v2 호출을 담당합니다.
+ * API 키가 노출되지 않도록 Route Handler 등 서버 코드에서만 사용합니다.
+ *
+ * PUBLIC_DATA_SOURCE 환경변수로 응답 출처를 선택합니다.
+ * - live (기본값): 실제 공공데이터포털 호출
+ * - fake: 로컬 대체 서비스 (API 키/네트워크 불필요)
+ * - record: 실제 호출 응답을 PUBLIC_DATA_RECORDINGS_DIR에 녹화
+ * - replay: 녹화된 응답으로만 응답
+ */
+
+import type { PublicDataResponse } from "@/types/api";
+import {
+  ExternalServiceError,
+  NotFoundError,
+  UpstreamAuthError,
+  UpstreamQuotaExceededError,
+  ValidationApiError,
+  type ApiError,
+} from "@/services/api/api-errors";
+import {
+  CACHE_HEADERS,
+  PUBLIC_DATA_CACHE_SETTINGS,
+  PUBLIC_DATA_FAKE_SETTINGS,
+  PUBLIC_DATA_RESULT_CODES,
+} from "@/utils/constants/api";
+import {
+  buildCacheKey,
+  createFileStore,
+  createMemoryLruStore,
+  createResponseCache,
+  type CacheStore,
+  type CachedResult,
+  type ResponseCache,
+} from "./cache";
+import {
+  createFakeTransport,
+  createRecordingTransport,
+  createReplayTransport,
+  type PublicDataTransport,
+} from "./public-data-fake";
+
+const PUBLIC_API_BASE_URL =
+  "https://apis.data.go.kr/1543061/abandonmentPublicService_v2";
+const API_KEY = process.env.ANIMAL_API_KEY; // NEXT_PUBLIC_ 제거
+
+/**
+ * 공공데이터 API 엔드포인트
+ */
+export const PUBLIC_API_ENDPOINTS = {
+  ANIMALS: "abandonmentPublic_v2",
+  KIND: "kind_v2",
+  SIDO: "sido_v2",
+  SIGUNGU: "sigungu_v2",
+  SHELTER: "shelter_v2",
+} as const;
+
+/**
+ * 실제 공공데이터포털 전송
+ */
+const liveTransport: PublicDataTransport = async (endpoint, params) => {
+  if (!API_KEY) {
+    throw new UpstreamAuthError(
+      "API 키가 설정되지 않았습니다. 환경변수를 확인해주세요."
+    );
+  }
+
+  const queryParams = new URLSearchParams({
+    serviceKey: API_KEY,
+    _type: "json",
+    ...params,
+  });
+
+  const url = `${PUBLIC_API_BASE_URL}/${endpoint}?${queryParams.toString()}`;
+
+  const response = await fetch(url, {
+    method: "GET",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+  });
+
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    // 서비스 키 오류 등 게이트웨이 단계 오류는 _type과 무관하게 XML로 응답
+    const reasonCode = text.match(/<returnReasonCode>(\d+)<\/returnReasonCode>/)?.[1];
+    if (reasonCode) {
+      throw publicDataResultError(
+        reasonCode,
+        text.match(/<returnAuthMsg>([^<]*)<\/returnAuthMsg>/)?.[1] ?? ""
+      );
+    }
+    throw new ExternalServiceError(
+      response.ok
+        ? "공공데이터 API 응답을 해석할 수 없습니다."
+        : `HTTP Error: ${response.status} ${response.statusText}`,
+      { details: { httpStatus: response.status } }
+    );
+  }
+};
+
+/**
+ * 환경변수 기반 전송 생성
+ */
+function createTransportFromEnv(): PublicDataTransport {
+  const recordingsDirectory =
+    process.env.PUBLIC_DATA_RECORDINGS_DIR ||
+    PUBLIC_DATA_FAKE_SETTINGS.DEFAULT_RECORDINGS_DIRECTORY;
+
+  switch (process.env.PUBLIC_DATA_SOURCE) {
+    case "fake":
+      return createFakeTransport();
+    case "record":
+      return createRecordingTransport(liveTransport, recordingsDirectory);
+    case "replay":
+      return createReplayTransport(recordingsDirectory);
+    default:
+      return liveTransport;
+  }
+}
+
+let publicDataTransport: PublicDataTransport | undefined;
+
+/**
+ * 공공데이터 전송 교체 (대체 서비스 연결 등)
+ * @param {PublicDataTransport | null} transport 사용할 전송 (null이면 환경변수 설정으로 복원)
+ */
+export function configurePublicDataTransport(
+  transport: PublicDataTransport | null
+) {
+  publicDataTransport = transport ?? undefined;
+}
+
+/**
+ * 공통 API 요청 함수 (서버사이드)
+ * @param {string} endpoint 공공데이터 API 엔드포인트
+ * @param {Record<string, string | number>} params 쿼리 파라미터
+ */
+export async function fetchFromPublicAPI<T>(
+  endpoint: string,
+  params: Record<string, string | number>
+): Promise<PublicDataResponse<T>> {
+  publicDataTransport ??= createTransportFromEnv();
+
+  const data = (await publicDataTransport(
+    endpoint,
+    Object.fromEntries(
+      Object.entries(params).map(([key, value]) => [key, String(value)])
+    )
+  )) as PublicDataResponse<T>;
+
+  // API 응답 상태 체크
+  const header = data.response?.header;
+  if (header?.resultCode !== PUBLIC_DATA_RESULT_CODES.NORMAL_SERVICE) {
+    throw publicDataResultError(
+      header?.resultCode ?? PUBLIC_DATA_RESULT_CODES.UNKNOWN_ERROR,
+      header?.resultMsg ?? ""
+    );
+  }
+
+  return data;
+}
+
+/**
+ * 공공데이터 결과 코드를 API 에러로 변환
+ *
+ * 호출 한도 초과와 서비스 키 오류는 재시도해도 소용없으므로 별도 에러로 구분합니다.
+ * @param {string} resultCode 공공데이터 결과 코드 (header.resultCode)
+ * @param {string} resultMsg 공공데이터 결과 메시지
+ */
+export function publicDataResultError(
+  resultCode: string,
+  resultMsg: string
+): ApiError {
+  const details = { resultCode, resultMsg };
+
+  switch (resultCode) {
+    case PUBLIC_DATA_RESULT_CODES.LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR:
+      return new UpstreamQuotaExceededError(undefined, details);
+    case PUBLIC_DATA_RESULT_CODES.SERVICE_ACCESS_DENIED_ERROR:
+    case PUBLIC_DATA_RESULT_CODES.SERVICE_KEY_IS_NOT_REGISTERED_ERROR:
+    case PUBLIC_DATA_RESULT_CODES.DEADLINE_HAS_EXPIRED_ERROR:
+    case PUBLIC_DATA_RESULT_CODES.UNREGISTERED_IP_ERROR:
+      return new UpstreamAuthError(undefined, details);
+    case PUBLIC_DATA_RESULT_CODES.NODATA_ERROR:
+      return new NotFoundError("조회된 데이터가 없습니다.", "UPSTREAM_NO_DATA");
+    case PUBLIC_DATA_RESULT_CODES.INVALID_REQUEST_PARAMETER_ERROR:
+    case PUBLIC_DATA_RESULT_CODES.NO_MANDATORY_REQUEST_PARAMETERS_ERROR:
+      return new ValidationApiError(
+        `잘못된 검색 조건입니다. (${resultMsg || resultCode})`
+      );
+    default:
+      return new ExternalServiceError(resultMsg || "API 요청에 실패했습니다.", {
+        details,
+      });
+  }
+}
+
+/**
+ * 공공데이터 응답에서 아이템 배열 추출
+ *
+ * 결과가 1건이면 배열이 아닌 객체로, 0건이면 빈 문자열로 내려오는 경우를 보정합니다.
+ * @param {PublicDataResponse<T>} response 공공데이터 API 응답
+ */
+export function extractItems<T>(response: PublicDataResponse<T>): T[] {
+  const items = response.response.body.items?.item;
+  if (!items) return [];
+  return Array.isArray(items) ? items : [items];
+}
+
+/**
+ * 환경변수 기반 2차 캐시 저장소 생성
+ *
+ * PUBLIC_DATA_CACHE_STORE=file 이면 파일 저장소를 사용하고, 그 외에는 메모리만 사용합니다.
+ */
+function createSecondaryStoreFromEnv(): CacheStore | null {
+  if (process.env.PUBLIC_DATA_CACHE_STORE === "file") {
+    return createFileStore(
+      process.env.PUBLIC_DATA_CACHE_DIR ||
+        PUBLIC_DATA_CACHE_SETTINGS.DEFAULT_FILE_DIRECTORY
+    );
+  }
+  return null;
+}
+
+let publicDataCache: ResponseCache = createResponseCache({
+  memoryStore: createMemoryLruStore(PUBLIC_DATA_CACHE_SETTINGS.MEMORY_MAX_ENTRIES),
+  secondaryStore: createSecondaryStoreFromEnv(),
+});
+
+/**
+ * 공공데이터 캐시 저장소 교체 (KV 저장소 연결 등)
+ * @param {CacheStore | null} secondaryStore 2차 저장소
+ */
+export function configurePublicDataCache(secondaryStore: CacheStore | null) {
+  publicDataCache = createResponseCache({
+    memoryStore: createMemoryLruStore(
+      PUBLIC_DATA_CACHE_SETTINGS.MEMORY_MAX_ENTRIES
+    ),
+    secondaryStore,
+  });
+}
+
+/**
+ * 캐시를 거치는 공공데이터 API 요청 함수
+ *
+ * 정규화된 파라미터를 키로 사용하며, 동시 요청 병합과 장애 시 stale 응답을 지원합니다.
+ * @param {string} endpoint 공공데이터 API 엔드포인트
+ * @param {Record<string, string | number | undefined>} params 쿼리 파라미터
+ * @param {number} freshTtl 신선 유지 시간 (ms)
+ */
+export async function fetchFromPublicAPICached<T>(
+  endpoint: string,
+  params: Record<string, string | number | undefined>,
+  freshTtl: number = PUBLIC_DATA_CACHE_SETTINGS.FRESH_TTL.ANIMALS
+): Promise<CachedResult<PublicDataResponse<T>>> {
+  const definedParams = Object.fromEntries(
+    Object.entries(params).filter(
+      (entry): entry is [string, string | number] =>
+        entry[1] !== undefined && entry[1] !== ""
+    )
+  );
+
+  return publicDataCache.getOrFetch(
+    buildCacheKey(endpoint, definedParams),
+    () => fetchFromPublicAPI<T>(endpoint, definedParams),
+    { freshTtl, staleTtl: PUBLIC_DATA_CACHE_SETTINGS.STALE_TTL }
+  );
+}
+
+/**
+ * 캐시 상태 응답 헤더 생성
+ * @param {CachedResult<unknown>[]} results 요청 처리에 사용된 캐시 결과들
+ */
+export function buildCacheHeaders(
+  results: CachedResult<unknown>[]
+): Record<string, string> {
+  if (results.length === 0) return {};
+
+  const statuses = results.map((result) => result.status);
+  const status = statuses.includes("STALE")
+    ? "STALE"
+    : statuses.every((item) => item === "HIT")
+      ? "HIT"
+      : statuses.includes("MISS")
+        ? "MISS"
+        : statuses[0];
+  const maxAgeSeconds = Math.floor(
+    Math.max(...results.map((result) => result.ageMs)) / 1000
+  );
+
+  return {
+    [CACHE_HEADERS.STATUS]: status,
+    [CACHE_HEADERS.AGE]: String(maxAgeSeconds),
+  };
+}
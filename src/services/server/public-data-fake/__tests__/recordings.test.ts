@@ -0,0 +1,86 @@
+import path from "node:path";
+import type { AbandonmentAnimalItem } from "@/types/api";
+import {
+  configurePublicDataTransport,
+  fetchFromPublicAPI,
+  PUBLIC_API_ENDPOINTS,
+} from "../../public-data-client";
+import { extractAnimalRecords } from "../../animal-records";
+import { runFilteredSearch } from "../../filtered-search";
+import { createReplayTransport, MissingRecordingError } from "../recordings";
+
+/**
+ * 수원시 보호소 개 공고 1페이지 녹화본
+ * (정상 1건, 표기 보정이 필요한 1건, 유기번호가 없는 1건)
+ */
+const RECORDINGS_DIRECTORY = path.join(__dirname, "recordings");
+const RECORDED_PARAMS = {
+  upkind: "417000",
+  state: "notice",
+  pageNo: 1,
+  numOfRows: 100,
+};
+
+beforeAll(() => {
+  configurePublicDataTransport(createReplayTransport(RECORDINGS_DIRECTORY));
+});
+
+afterAll(() => {
+  configurePublicDataTransport(null);
+});
+
+beforeEach(() => {
+  // 격리 경고는 검증 대상이 아니므로 출력하지 않음
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("녹화 응답 재생", () => {
+  it("extractAnimalRecords가 녹화된 레코드를 보정하고 잘못된 레코드를 제외한다", async () => {
+    const response = await fetchFromPublicAPI<AbandonmentAnimalItem>(
+      PUBLIC_API_ENDPOINTS.ANIMALS,
+      RECORDED_PARAMS
+    );
+
+    const { animals, dropped, repaired } = extractAnimalRecords(response);
+
+    expect(animals.map((animal) => animal.desertionNo)).toEqual([
+      "448567202400512",
+      "448567202400519",
+    ]);
+    expect({ dropped, repaired }).toEqual({ dropped: 1, repaired: 1 });
+    expect(animals[1]).toMatchObject({
+      happenDt: "20240503",
+      age: "2019(년생)",
+      weight: "4(Kg)",
+      sexCd: "F",
+    });
+  });
+
+  it("runFilteredSearch가 녹화된 페이지로 서버 필터를 적용한다", async () => {
+    const result = await runFilteredSearch({
+      params: { upkind: "417000", state: "notice" },
+      predicate: (animal) => animal.sexCd === "F",
+      pageSize: 20,
+    });
+
+    expect(result.animals.map((animal) => animal.desertionNo)).toEqual([
+      "448567202400519",
+    ]);
+    expect(result).toMatchObject({
+      totalCount: 1,
+      totalCountExact: true,
+      nextCursor: null,
+      validation: { dropped: 1, repaired: 1 },
+    });
+  });
+
+  it("녹화되지 않은 요청은 MissingRecordingError로 실패한다", async () => {
+    await expect(
+      fetchFromPublicAPI(PUBLIC_API_ENDPOINTS.ANIMALS, { ...RECORDED_PARAMS, pageNo: 2 })
+    ).rejects.toBeInstanceOf(MissingRecordingError);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * abandonmentPublicService_v2 로컬 대체 서비스 (서버 전용)
+ *
+ * 픽스처 데이터셋으로 실제 서비스와 같은 형태의 응답을 만듭니다.
+ * - 페이징(pageNo/numOfRows)과 upkind/kind/upr_cd/org_cd/care_reg_no/state/neut_yn/bgnde/endde 필터
+ * - 품종/시도/시군구/보호소 코드 목록
+ * - 결과가 1건이면 객체, 0건이면 빈 문자열로 내려오는 items 형식
+ * - 잘못된 파라미터/필수 파라미터 누락 등 실제 결과 코드(resultCode)
+ */
+
+import type { AbandonmentAnimalItem, PublicDataResponse } from "@/types/api";
+import {
+  PUBLIC_DATA_FAKE_SETTINGS,
+  PUBLIC_DATA_RESULT_CODES,
+} from "@/utils/constants/api";
+import { getKstDateString } from "@/services/api/notice-deadline";
+import { generateFixtureDataset, type FixtureDataset } from "./fixtures";
+
+/**
+ * 대체 서비스 옵션
+ */
+export interface FakePublicDataOptions {
+  seed?: number;
+  animalCount?: number;
+  now?: Date;
+  /** 지정하면 모든 요청에 이 결과 코드로 오류 응답 (장애 상황 재현용) */
+  forcedResultCode?: string;
+}
+
+/**
+ * 대체 서비스
+ */
+export interface FakePublicDataService {
+  handle(endpoint: string, params: Record<string, string>): PublicDataResponse<unknown>;
+}
+
+type ResultCode = (typeof PUBLIC_DATA_RESULT_CODES)[keyof typeof PUBLIC_DATA_RESULT_CODES];
+
+/**
+ * 결과 코드별 메시지 (실제 서비스 표기)
+ */
+const RESULT_MESSAGES: Record<ResultCode, string> = {
+  "00": "NORMAL SERVICE.",
+  "01": "APPLICATION_ERROR",
+  "03": "NODATA_ERROR",
+  "10": "INVALID_REQUEST_PARAMETER_ERROR",
+  "11": "NO_MANDATORY_REQUEST_PARAMETERS_ERROR",
+  "12": "NO_OPENAPI_SERVICE_ERROR",
+  "20": "SERVICE_ACCESS_DENIED_ERROR",
+  "22": "LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR",
+  "30": "SERVICE_KEY_IS_NOT_REGISTERED_ERROR",
+  "31": "DEADLINE_HAS_EXPIRED_ERROR",
+  "32": "UNREGISTERED_IP_ERROR",
+  "99": "UNKNOWN_ERROR",
+};
+
+/**
+ * 오류 응답 생성
+ */
+function errorResponse(resultCode: string): PublicDataResponse<unknown> {
+  return {
+    response: {
+      header: {
+        resultCode,
+        resultMsg: RESULT_MESSAGES[resultCode as ResultCode] ?? RESULT_MESSAGES["99"],
+      },
+      body: { numOfRows: 0, pageNo: 0, totalCount: 0 },
+    },
+  };
+}
+
+/**
+ * 페이지 응답 생성 (실제 서비스처럼 1건은 객체, 0건은 빈 문자열)
+ */
+function pageResponse<T>(
+  items: T[],
+  params: Record<string, string>,
+  defaultNumOfRows: number = PUBLIC_DATA_FAKE_SETTINGS.DEFAULT_NUM_OF_ROWS
+): PublicDataResponse<unknown> {
+  const pageNo = params.pageNo === undefined ? 1 : Number(params.pageNo);
+  const numOfRows =
+    params.numOfRows === undefined ? defaultNumOfRows : Number(params.numOfRows);
+
+  if (
+    !Number.isInteger(pageNo) ||
+    pageNo < 1 ||
+    !Number.isInteger(numOfRows) ||
+    numOfRows < 1 ||
+    numOfRows > PUBLIC_DATA_FAKE_SETTINGS.MAX_NUM_OF_ROWS
+  ) {
+    return errorResponse(PUBLIC_DATA_RESULT_CODES.INVALID_REQUEST_PARAMETER_ERROR);
+  }
+
+  const page = items.slice((pageNo - 1) * numOfRows, pageNo * numOfRows);
+  return {
+    response: {
+      header: {
+        resultCode: PUBLIC_DATA_RESULT_CODES.NORMAL_SERVICE,
+        resultMsg: RESULT_MESSAGES["00"],
+      },
+      body: {
+        items: (page.length === 0
+          ? ""
+          : { item: page.length === 1 ? page[0] : page }) as { item: unknown[] },
+        numOfRows,
+        pageNo,
+        totalCount: items.length,
+      },
+    },
+  };
+}
+
+/**
+ * 공고 상태 필터 (notice: 공고중, protect: 공고 종료 후 보호중)
+ */
+function matchesState(
+  animal: AbandonmentAnimalItem,
+  state: string,
+  today: string
+): boolean {
+  if (animal.processState !== "보호중") return false;
+  return state === "notice" ? animal.noticeEdt >= today : animal.noticeEdt < today;
+}
+
+/**
+ * 대체 서비스 생성
+ * @param {FakePublicDataOptions} options 시드/데이터 수/기준일/강제 오류 코드
+ */
+export function createFakePublicDataService({
+  seed = PUBLIC_DATA_FAKE_SETTINGS.DEFAULT_SEED,
+  animalCount = PUBLIC_DATA_FAKE_SETTINGS.DEFAULT_ANIMAL_COUNT,
+  now = new Date(),
+  forcedResultCode,
+}: FakePublicDataOptions = {}): FakePublicDataService {
+  let dataset: FixtureDataset | undefined;
+  const getDataset = () => {
+    dataset ??= generateFixtureDataset({
+      seed,
+      animalCount,
+      historyDays: PUBLIC_DATA_FAKE_SETTINGS.HISTORY_DAYS,
+      now,
+    });
+    return dataset;
+  };
+
+  /**
+   * 유기동물 목록 (abandonmentPublic_v2)
+   */
+  const handleAnimals = (params: Record<string, string>) => {
+    const { upkind, kind, upr_cd, org_cd, care_reg_no, state, neut_yn, bgnde, endde } = params;
+    if (
+      (state && state !== "notice" && state !== "protect") ||
+      (neut_yn && !["Y", "N", "U"].includes(neut_yn)) ||
+      (upkind && !/^\d{6}$/.test(upkind)) ||
+      (bgnde && !/^\d{8}$/.test(bgnde)) ||
+      (endde && !/^\d{8}$/.test(endde))
+    ) {
+      return errorResponse(PUBLIC_DATA_RESULT_CODES.INVALID_REQUEST_PARAMETER_ERROR);
+    }
+
+    const { animals, shelters } = getDataset();
+    const today = getKstDateString(now);
+    const shelterByRegNo = new Map(shelters.map((shelter) => [shelter.careRegNo, shelter]));
+
+    const matched = animals.filter((animal) => {
+      const shelter = shelterByRegNo.get(animal.careRegNo);
+      return (
+        (!upkind || animal.upKindCd === upkind) &&
+        (!kind || animal.kindCd === kind) &&
+        (!upr_cd || shelter?.uprCd === upr_cd) &&
+        (!org_cd || shelter?.orgCd === org_cd) &&
+        (!care_reg_no || animal.careRegNo === care_reg_no) &&
+        (!state || matchesState(animal, state, today)) &&
+        (!neut_yn || animal.neuterYn === neut_yn) &&
+        (!bgnde || animal.happenDt >= bgnde) &&
+        (!endde || animal.happenDt <= endde)
+      );
+    });
+
+    return pageResponse(matched, params);
+  };
+
+  return {
+    handle: (endpoint, params) => {
+      if (forcedResultCode) return errorResponse(forcedResultCode);
+
+      const { kinds, sido, sigungu, shelters } = getDataset();
+      switch (endpoint) {
+        case "abandonmentPublic_v2":
+          return handleAnimals(params);
+        case "kind_v2":
+          if (!params.up_kind_cd) {
+            return errorResponse(PUBLIC_DATA_RESULT_CODES.NO_MANDATORY_REQUEST_PARAMETERS_ERROR);
+          }
+          return pageResponse(kinds[params.up_kind_cd] ?? [], params, 1000);
+        case "sido_v2":
+          return pageResponse(sido, params);
+        case "sigungu_v2":
+          if (!params.upr_cd) {
+            return errorResponse(PUBLIC_DATA_RESULT_CODES.NO_MANDATORY_REQUEST_PARAMETERS_ERROR);
+          }
+          return pageResponse(
+            sigungu.filter((item) => item.uprCd === params.upr_cd),
+            params,
+            1000
+          );
+        case "shelter_v2":
+          if (!params.upr_cd || !params.org_cd) {
+            return errorResponse(PUBLIC_DATA_RESULT_CODES.NO_MANDATORY_REQUEST_PARAMETERS_ERROR);
+          }
+          return pageResponse(
+            shelters
+              .filter(
+                (shelter) =>
+                  shelter.uprCd === params.upr_cd && shelter.orgCd === params.org_cd
+              )
+              .map(({ careRegNo, careNm }) => ({ careRegNo, careNm })),
+            params,
+            1000
+          );
+        default:
+          return errorResponse(PUBLIC_DATA_RESULT_CODES.NO_OPENAPI_SERVICE_ERROR);
+      }
+    },
+  };
+}
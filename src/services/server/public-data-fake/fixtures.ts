@@ -0,0 +1,268 @@
+/**
+ * 공공데이터 대체 서비스 픽스처 (서버 전용)
+ *
+ * 시드 기반 의사 난수로 유기동물 데이터셋을 생성합니다. 같은 시드와 기준일이면 항상 같은 데이터가 나옵니다.
+ * 지역/품종 코드는 실제 서비스와 형식이 같은 대표 값 일부만 포함합니다.
+ */
+
+import type {
+  AbandonmentAnimalItem,
+  KindInfo,
+  ShelterInfo,
+  SidoInfo,
+  SigunguInfo,
+} from "@/types/api";
+import { ANIMAL_TYPE_CODES } from "@/services/api/animal-api";
+
+/**
+ * 픽스처 보호소 (ShelterInfo + 소속 지역)
+ */
+export interface FixtureShelter extends ShelterInfo {
+  uprCd: string;
+  orgCd: string;
+  careTel: string;
+  careAddr: string;
+  careOwnerNm: string;
+  orgNm: string;
+}
+
+/**
+ * 픽스처 데이터셋
+ */
+export interface FixtureDataset {
+  animals: AbandonmentAnimalItem[];
+  kinds: Record<string, KindInfo[]>; // 축종 코드별 품종 목록
+  sido: SidoInfo[];
+  sigungu: SigunguInfo[];
+  shelters: FixtureShelter[];
+}
+
+type SigunguFixture = [orgCd: string, name: string];
+
+const REGION_FIXTURES: { sido: SidoInfo; sigungu: SigunguFixture[] }[] = [
+  {
+    sido: { orgCd: "6110000", orgdownNm: "서울특별시" },
+    sigungu: [["3000000", "종로구"], ["3130000", "마포구"], ["3220000", "강남구"], ["3230000", "송파구"]],
+  },
+  {
+    sido: { orgCd: "6260000", orgdownNm: "부산광역시" },
+    sigungu: [["3290000", "부산진구"], ["3330000", "해운대구"]],
+  },
+  {
+    sido: { orgCd: "6270000", orgdownNm: "대구광역시" },
+    sigungu: [["3410000", "수성구"]],
+  },
+  {
+    sido: { orgCd: "6280000", orgdownNm: "인천광역시" },
+    sigungu: [["3500000", "남동구"]],
+  },
+  {
+    sido: { orgCd: "6410000", orgdownNm: "경기도" },
+    sigungu: [["3740000", "수원시"], ["3780000", "성남시"], ["3940000", "고양시"]],
+  },
+  {
+    sido: { orgCd: "6530000", orgdownNm: "강원특별자치도" },
+    sigungu: [["4181000", "춘천시"]],
+  },
+  {
+    sido: { orgCd: "6500000", orgdownNm: "제주특별자치도" },
+    sigungu: [["6510000", "제주시"], ["6520000", "서귀포시"]],
+  },
+];
+
+const KIND_FIXTURES: Record<string, KindInfo[]> = {
+  [ANIMAL_TYPE_CODES.DOG]: [
+    { kindCd: "000114", KNm: "믹스견" },
+    { kindCd: "000054", KNm: "진도견" },
+    { kindCd: "000056", KNm: "말티즈" },
+    { kindCd: "000073", KNm: "푸들" },
+    { kindCd: "000083", KNm: "시츄" },
+    { kindCd: "000093", KNm: "포메라니안" },
+    { kindCd: "000037", KNm: "골든 리트리버" },
+    { kindCd: "000120", KNm: "웰시 코기 펨브로크" },
+  ],
+  [ANIMAL_TYPE_CODES.CAT]: [
+    { kindCd: "000200", KNm: "한국 고양이" },
+    { kindCd: "000201", KNm: "코리안 숏헤어" },
+    { kindCd: "000207", KNm: "러시안 블루" },
+    { kindCd: "000212", KNm: "페르시안" },
+  ],
+  [ANIMAL_TYPE_CODES.OTHER]: [
+    { kindCd: "000300", KNm: "기타축종" },
+    { kindCd: "000301", KNm: "토끼" },
+  ],
+};
+
+const UPKIND_NAMES: Record<string, string> = {
+  [ANIMAL_TYPE_CODES.DOG]: "개",
+  [ANIMAL_TYPE_CODES.CAT]: "고양이",
+  [ANIMAL_TYPE_CODES.OTHER]: "기타축종",
+};
+
+const COLORS = ["흰색", "검정", "갈색", "황색", "회색", "크림", "흰색&갈색", "검정&흰색", "삼색"];
+
+const SPECIAL_MARKS = [
+  "사람을 잘 따르고 온순함",
+  "겁이 많아 낯선 사람을 경계함",
+  "활발하고 호기심이 많음",
+  "피부병 치료 중",
+  "다른 강아지와 잘 지냄",
+  "배변 훈련 되어 있음",
+  "목줄 착용, 인식칩 없음",
+  "",
+];
+
+const PROCESS_STATES: [state: string, weight: number][] = [
+  ["보호중", 70],
+  ["종료(입양)", 15],
+  ["종료(반환)", 5],
+  ["종료(안락사)", 5],
+  ["종료(자연사)", 5],
+];
+
+/**
+ * 시드 기반 의사 난수 생성기 (mulberry32)
+ * @param {number} seed 시드
+ */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]) => items[Math.floor(next() * items.length)],
+    weighted: <T>(items: readonly [T, number][]) => {
+      const total = items.reduce((sum, [, weight]) => sum + weight, 0);
+      let roll = next() * total;
+      for (const [item, weight] of items) {
+        roll -= weight;
+        if (roll < 0) return item;
+      }
+      return items[items.length - 1][0];
+    },
+  };
+}
+
+/**
+ * 날짜를 YYYYMMDD로 변환 (UTC 기준)
+ */
+function toCompactDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/**
+ * 지역별 보호소 픽스처 생성 (시군구마다 한 곳)
+ */
+function buildShelters(): FixtureShelter[] {
+  return REGION_FIXTURES.flatMap(({ sido, sigungu }) =>
+    sigungu.map(([orgCd, name], index) => ({
+      careRegNo: `${sido.orgCd.slice(0, 3)}${orgCd.slice(0, 4)}${String(index + 1).padStart(5, "0")}`,
+      careNm: `${name} 동물보호센터`,
+      uprCd: sido.orgCd,
+      orgCd,
+      careTel: `0${sido.orgCd.slice(1, 3)}-${orgCd.slice(0, 3)}-${String(1000 + index).slice(-4)}`,
+      careAddr: `${sido.orgdownNm} ${name} 보호센터로 ${index + 1}`,
+      careOwnerNm: `${name}청`,
+      orgNm: `${sido.orgdownNm} ${name}`,
+    }))
+  );
+}
+
+/**
+ * 픽스처 데이터셋 생성
+ * @param {object} options
+ * @param {number} options.seed 난수 시드
+ * @param {number} options.animalCount 생성할 동물 수
+ * @param {number} options.historyDays 접수일 분포 범위 (기준일 이전 일수)
+ * @param {Date} options.now 기준일
+ */
+export function generateFixtureDataset({
+  seed,
+  animalCount,
+  historyDays,
+  now,
+}: {
+  seed: number;
+  animalCount: number;
+  historyDays: number;
+  now: Date;
+}): FixtureDataset {
+  const random = createRandom(seed);
+  const shelters = buildShelters();
+  const upkinds: [string, number][] = [
+    [ANIMAL_TYPE_CODES.DOG, 65],
+    [ANIMAL_TYPE_CODES.CAT, 30],
+    [ANIMAL_TYPE_CODES.OTHER, 5],
+  ];
+  const dayMs = 24 * 60 * 60 * 1000;
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+  const animals = Array.from({ length: animalCount }, (_, index) => {
+    const shelter = random.pick(shelters);
+    const upKindCd = random.weighted(upkinds);
+    const kind = random.pick(KIND_FIXTURES[upKindCd]);
+    const happen = new Date(today - random.int(0, historyDays) * dayMs);
+    const noticeStart = new Date(happen.getTime() + random.int(0, 2) * dayMs);
+    const noticeEnd = new Date(noticeStart.getTime() + random.int(9, 13) * dayMs);
+    const happenDt = toCompactDate(happen);
+    const birthYear = now.getUTCFullYear() - random.int(0, 12);
+    const isDog = upKindCd === ANIMAL_TYPE_CODES.DOG;
+    const weight = isDog
+      ? random.int(15, 350) / 10
+      : random.int(10, 60) / 10;
+    const photoPath = `shelter/${happenDt.slice(0, 4)}/${happenDt.slice(4, 6)}/${happenDt}${String(index).padStart(5, "0")}`;
+
+    return {
+      desertionNo: `${shelter.careRegNo.slice(0, 6)}${happenDt.slice(0, 4)}${String(index + 1).padStart(5, "0")}`,
+      happenDt,
+      happenPlace: `${shelter.orgNm} ${random.pick(["공원", "주택가", "시장 인근", "도로변", "아파트 단지"])}`,
+      kindFullNm: `[${UPKIND_NAMES[upKindCd]}] ${kind.KNm}`,
+      upKindCd,
+      upKindNm: UPKIND_NAMES[upKindCd],
+      kindCd: kind.kindCd,
+      kindNm: kind.KNm,
+      colorCd: random.pick(COLORS),
+      age: birthYear === now.getUTCFullYear() ? `${birthYear}(60일미만)(년생)` : `${birthYear}(년생)`,
+      weight: `${weight}(Kg)`,
+      noticeNo: `${shelter.orgNm.split(" ")[1]}-${happenDt.slice(0, 4)}-${String(index + 1).padStart(5, "0")}`,
+      noticeSdt: toCompactDate(noticeStart),
+      noticeEdt: toCompactDate(noticeEnd),
+      popfile1: `http://openapi.animal.go.kr/openapi/service/rest/fileDownloadSrvc/files/${photoPath}_1.jpg`,
+      ...(random.next() < 0.5 && {
+        popfile2: `http://openapi.animal.go.kr/openapi/service/rest/fileDownloadSrvc/files/${photoPath}_2.jpg`,
+      }),
+      processState: random.weighted(PROCESS_STATES),
+      sexCd: random.weighted<string>([["M", 45], ["F", 45], ["Q", 10]]),
+      neuterYn: random.weighted<string>([["Y", 30], ["N", 50], ["U", 20]]),
+      specialMark: random.pick(SPECIAL_MARKS),
+      careRegNo: shelter.careRegNo,
+      careNm: shelter.careNm,
+      careTel: shelter.careTel,
+      careAddr: shelter.careAddr,
+      careOwnerNm: shelter.careOwnerNm,
+      orgNm: shelter.orgNm,
+      updTm: `${noticeStart.toISOString().slice(0, 10)} 09:00:00.0`,
+    } satisfies AbandonmentAnimalItem;
+  }).sort(
+    (a, b) =>
+      b.happenDt.localeCompare(a.happenDt) ||
+      b.desertionNo.localeCompare(a.desertionNo)
+  );
+
+  return {
+    animals,
+    kinds: KIND_FIXTURES,
+    sido: REGION_FIXTURES.map(({ sido }) => sido),
+    sigungu: REGION_FIXTURES.flatMap(({ sido, sigungu }) =>
+      sigungu.map(([orgCd, orgdownNm]) => ({ uprCd: sido.orgCd, orgCd, orgdownNm }))
+    ),
+    shelters,
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * 공공데이터 로컬 대체 서비스 (서버 전용)
+ *
+ * API 키나 네트워크 없이 개발/테스트할 수 있도록 abandonmentPublicService_v2를 대신합니다.
+ * PUBLIC_DATA_SOURCE 환경변수로 선택합니다 (public-data-client 참고).
+ */
+
+import { createFakePublicDataService, type FakePublicDataService } from "./fake-service";
+import type { PublicDataTransport } from "./types";
+
+export * from "./types";
+export { createFakePublicDataService } from "./fake-service";
+export type { FakePublicDataOptions, FakePublicDataService } from "./fake-service";
+export { generateFixtureDataset } from "./fixtures";
+export type { FixtureDataset, FixtureShelter } from "./fixtures";
+export {
+  createRecordingTransport,
+  createReplayTransport,
+  MissingRecordingError,
+} from "./recordings";
+
+/**
+ * 대체 서비스 전송 생성
+ * @param {FakePublicDataService} service 대체 서비스 (기본값: 환경변수 설정으로 생성)
+ */
+export function createFakeTransport(
+  service: FakePublicDataService = createFakePublicDataService({
+    seed: Number(process.env.PUBLIC_DATA_FAKE_SEED) || undefined,
+    animalCount: Number(process.env.PUBLIC_DATA_FAKE_ANIMAL_COUNT) || undefined,
+    forcedResultCode: process.env.PUBLIC_DATA_FAKE_RESULT_CODE || undefined,
+  })
+): PublicDataTransport {
+  return async (endpoint, params) => service.handle(endpoint, params);
+}
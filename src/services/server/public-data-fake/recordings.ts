@@ -0,0 +1,97 @@
+/**
+ * 공공데이터 응답 녹화/재생 (서버 전용)
+ *
+ * - 녹화(record): 실제 서비스 응답을 요청별 JSON 파일로 저장
+ * - 재생(replay): 저장된 파일로만 응답하며, 녹화되지 않은 요청은 오류
+ *
+ * 파일 이름은 엔드포인트와 정렬된 파라미터의 해시입니다. 전송 파라미터에는 serviceKey가 없으므로 키가 기록되지 않습니다.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { ExternalServiceError } from "@/services/api/api-errors";
+import { buildCacheKey } from "../cache";
+import type { PublicDataRecording, PublicDataTransport } from "./types";
+
+/**
+ * 재생할 녹화 파일이 없을 때 발생하는 오류
+ */
+export class MissingRecordingError extends ExternalServiceError {
+  constructor(endpoint: string, params: Record<string, string>) {
+    super(
+      `녹화된 공공데이터 응답이 없습니다: ${buildCacheKey(endpoint, params)} (PUBLIC_DATA_SOURCE=record로 먼저 녹화해주세요.)`
+    );
+    this.name = "MissingRecordingError";
+  }
+}
+
+/**
+ * 녹화 파일 경로
+ * @param {string} directory 녹화 디렉터리
+ * @param {string} endpoint 공공데이터 API 엔드포인트
+ * @param {Record<string, string>} params 쿼리 파라미터
+ */
+function recordingPathOf(
+  directory: string,
+  endpoint: string,
+  params: Record<string, string>
+): string {
+  const hash = createHash("sha1")
+    .update(buildCacheKey(endpoint, params))
+    .digest("hex");
+  return path.join(directory, `${endpoint}-${hash.slice(0, 16)}.json`);
+}
+
+/**
+ * 녹화 전송 생성 (실제 전송을 감싸 응답을 파일로 저장)
+ * @param {PublicDataTransport} upstream 실제 서비스 전송
+ * @param {string} directory 녹화 디렉터리
+ */
+export function createRecordingTransport(
+  upstream: PublicDataTransport,
+  directory: string
+): PublicDataTransport {
+  return async (endpoint, params) => {
+    const response = await upstream(endpoint, params);
+    const recording: PublicDataRecording = {
+      endpoint,
+      params,
+      recordedAt: new Date().toISOString(),
+      response,
+    };
+
+    try {
+      await mkdir(directory, { recursive: true });
+      await writeFile(
+        recordingPathOf(directory, endpoint, params),
+        `${JSON.stringify(recording, null, 2)}\n`,
+        "utf-8"
+      );
+    } catch (error) {
+      console.warn("공공데이터 응답 녹화 실패:", error);
+    }
+
+    return response;
+  };
+}
+
+/**
+ * 재생 전송 생성 (녹화 파일로만 응답)
+ * @param {string} directory 녹화 디렉터리
+ */
+export function createReplayTransport(directory: string): PublicDataTransport {
+  return async (endpoint, params) => {
+    let raw: string;
+    try {
+      raw = await readFile(
+        recordingPathOf(directory, endpoint, params),
+        "utf-8"
+      );
+    } catch {
+      throw new MissingRecordingError(endpoint, params);
+    }
+
+    return (JSON.parse(raw) as PublicDataRecording).response;
+  };
+}
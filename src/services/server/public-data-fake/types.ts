@@ -0,0 +1,24 @@
+/**
+ * 공공데이터 전송 계층 타입 (서버 전용)
+ */
+
+/**
+ * 공공데이터 전송 함수
+ *
+ * 엔드포인트와 쿼리 파라미터(serviceKey/_type 제외)를 받아 응답 JSON을 그대로 반환합니다.
+ * resultCode 검사는 호출하는 쪽(fetchFromPublicAPI)에서 합니다.
+ */
+export type PublicDataTransport = (
+  endpoint: string,
+  params: Record<string, string>
+) => Promise<unknown>;
+
+/**
+ * 녹화된 응답 파일 형식
+ */
+export interface PublicDataRecording {
+  endpoint: string;
+  params: Record<string, string>;
+  recordedAt: string;
+  response: unknown;
+}
@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { RATE_LIMIT_POLICIES } from "@/utils/constants/api";
+import { configureRateLimitStore, createMemoryRateLimitStore } from "../index";
+import { checkRateLimit } from "../with-rate-limit";
+
+const mockGetUser = jest.fn();
+
+jest.mock("../../supabase-admin", () => ({
+  getSupabaseAnonClient: () => ({ auth: { getUser: mockGetUser } }),
+}));
+
+/**
+ * 같은 IP에서 보낸 요청 (token이 있으면 Authorization 헤더 포함)
+ */
+function requestFrom(token?: string): NextRequest {
+  return new NextRequest("http://localhost/api/applications", {
+    headers: {
+      "x-forwarded-for": "203.0.113.7",
+      ...(token && { authorization: `Bearer ${token}` }),
+    },
+  });
+}
+
+beforeEach(() => {
+  configureRateLimitStore(createMemoryRateLimitStore(100));
+  mockGetUser.mockReset();
+  mockGetUser.mockImplementation(async (token: string) =>
+    token.startsWith("valid-")
+      ? { data: { user: { id: "user-1", app_metadata: {} } }, error: null }
+      : { data: { user: null }, error: new Error("invalid token") }
+  );
+});
+
+describe("checkRateLimit", () => {
+  it("토큰이 없으면 IP 버킷만 사용하고 토큰을 확인하지 않는다", async () => {
+    const { key, decision } = await checkRateLimit(requestFrom(), "APPLICATIONS");
+
+    expect(key).toBe("APPLICATIONS:ip:203.0.113.7");
+    expect(decision.limit).toBe(RATE_LIMIT_POLICIES.APPLICATIONS.capacity);
+    expect(mockGetUser).not.toHaveBeenCalled();
+  });
+
+  it("확인된 사용자는 로그인 사용자 한도의 사용자 버킷을 사용한다", async () => {
+    const { key, decision } = await checkRateLimit(requestFrom("valid-token"), "APPLICATIONS");
+
+    expect(key).toBe("APPLICATIONS:user:user-1");
+    expect(decision.limit).toBe(RATE_LIMIT_POLICIES.APPLICATIONS.capacity * 2);
+  });
+
+  it("유효하지 않은 토큰은 비로그인 IP 버킷을 사용한다", async () => {
+    const { key } = await checkRateLimit(requestFrom("invalid-token"), "APPLICATIONS");
+
+    expect(key).toBe("APPLICATIONS:ip:203.0.113.7");
+  });
+
+  it("IP 한도를 넘은 요청은 토큰을 확인하지 않고 거절한다", async () => {
+    const gateCapacity = RATE_LIMIT_POLICIES.APPLICATIONS.capacity * 2;
+    const checks = [];
+    for (let index = 0; index < gateCapacity + 5; index++) {
+      checks.push(await checkRateLimit(requestFrom(`forged-${index}`), "APPLICATIONS"));
+    }
+
+    expect(mockGetUser).toHaveBeenCalledTimes(gateCapacity);
+    expect(checks.slice(gateCapacity).every(({ decision }) => !decision.allowed)).toBe(true);
+  });
+
+  it("같은 토큰은 한 번만 확인한다", async () => {
+    // 확인 결과는 모듈 단위로 보관되므로 다른 테스트와 겹치지 않는 토큰 사용
+    await checkRateLimit(requestFrom("valid-cached"), "APPLICATIONS");
+    await checkRateLimit(requestFrom("valid-cached"), "APPLICATIONS");
+
+    expect(mockGetUser).toHaveBeenCalledTimes(1);
+  });
+});
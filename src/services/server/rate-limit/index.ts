@@ -0,0 +1,46 @@
+/**
+ * API 라우트 요청 제한 (서버 전용)
+ *
+ * 기본은 인스턴스별 메모리 저장소를 사용합니다.
+ * 여러 인스턴스가 한도를 공유해야 하면 configureRateLimitStore로 KV 저장소를 연결합니다.
+ */
+
+import { RATE_LIMIT_SETTINGS } from "@/utils/constants/api";
+import {
+  createMemoryRateLimitStore,
+  type RateLimitStore,
+} from "./rate-limit-store";
+
+export * from "./token-bucket";
+export {
+  createKeyValueRateLimitStore,
+  createMemoryRateLimitStore,
+} from "./rate-limit-store";
+export type { RateLimitStore } from "./rate-limit-store";
+export {
+  buildRateLimitHeaders,
+  checkRateLimit,
+  rateLimitExceededResponse,
+  withRateLimit,
+} from "./with-rate-limit";
+export type { RateLimitCheck, RateLimitPolicyName } from "./with-rate-limit";
+
+let rateLimitStore: RateLimitStore | undefined;
+
+/**
+ * 요청 제한 저장소 조회
+ */
+export function getRateLimitStore(): RateLimitStore {
+  rateLimitStore ??= createMemoryRateLimitStore(
+    RATE_LIMIT_SETTINGS.MEMORY_MAX_KEYS
+  );
+  return rateLimitStore;
+}
+
+/**
+ * 요청 제한 저장소 교체 (KV 저장소 연결 등)
+ * @param {RateLimitStore} store 사용할 저장소
+ */
+export function configureRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
@@ -0,0 +1,87 @@
+/**
+ * 요청 제한 저장소 (서버 전용)
+ *
+ * 키별 토큰 버킷 상태를 보관합니다.
+ * - 메모리: 기본 저장소 (인스턴스마다 별도로 집계)
+ * - KV: Redis/Upstash 등 외부 키-값 저장소 어댑터 (여러 인스턴스가 한도를 공유)
+ */
+
+import type { KeyValueClient } from "../cache";
+import {
+  consumeToken,
+  type RateLimitDecision,
+  type TokenBucketConfig,
+  type TokenBucketState,
+} from "./token-bucket";
+
+/**
+ * 요청 제한 저장소 인터페이스
+ *
+ * 원자적 연산을 지원하는 저장소(Redis 스크립트 등)는 consume 전체를 직접 구현할 수 있습니다.
+ */
+export interface RateLimitStore {
+  consume(
+    key: string,
+    config: TokenBucketConfig,
+    cost?: number
+  ): Promise<RateLimitDecision>;
+}
+
+/**
+ * 메모리 요청 제한 저장소 생성
+ * @param {number} maxKeys 보관할 최대 버킷 수 (초과 시 오래 사용하지 않은 버킷부터 제거)
+ */
+export function createMemoryRateLimitStore(maxKeys: number): RateLimitStore {
+  const buckets = new Map<string, TokenBucketState>();
+
+  return {
+    consume: async (key, config, cost = 1) => {
+      const { state, decision } = consumeToken(
+        buckets.get(key) ?? null,
+        config,
+        Date.now(),
+        cost
+      );
+
+      buckets.delete(key);
+      buckets.set(key, state);
+      while (buckets.size > maxKeys) {
+        const oldestKey = buckets.keys().next().value;
+        if (oldestKey === undefined) break;
+        buckets.delete(oldestKey);
+      }
+
+      return decision;
+    },
+  };
+}
+
+/**
+ * KV 요청 제한 저장소 생성
+ *
+ * 읽기-계산-쓰기 순서로 동작하므로 동시 요청이 몰리면 한도를 조금 넘길 수 있습니다.
+ * @param {KeyValueClient} client 외부 KV 클라이언트
+ * @param {string} prefix 키 접두사
+ */
+export function createKeyValueRateLimitStore(
+  client: KeyValueClient,
+  prefix = "pawwise:ratelimit:"
+): RateLimitStore {
+  return {
+    consume: async (key, config, cost = 1) => {
+      const raw = await client.get(`${prefix}${key}`);
+      const { state, decision } = consumeToken(
+        raw ? (JSON.parse(raw) as TokenBucketState) : null,
+        config,
+        Date.now(),
+        cost
+      );
+
+      await client.set(`${prefix}${key}`, JSON.stringify(state), {
+        ttlSeconds: Math.max(1, Math.ceil(decision.resetMs / 1000)),
+      });
+
+      return decision;
+    },
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * 토큰 버킷 계산 (서버 전용)
+ *
+ * 저장소 구현체가 공통으로 사용하는 순수 함수입니다.
+ */
+
+/**
+ * 토큰 버킷 설정
+ */
+export interface TokenBucketConfig {
+  capacity: number; // 최대 토큰 수 (순간 허용량)
+  perMinute: number; // 분당 보충 토큰 수
+}
+
+/**
+ * 저장되는 버킷 상태
+ */
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * 요청 제한 판정 결과
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterMs: number; // 허용되지 않았을 때 다음 토큰까지 대기 시간
+  resetMs: number; // 버킷이 가득 찰 때까지 남은 시간
+}
+
+/**
+ * 토큰 소비
+ * @param {TokenBucketState | null} state 현재 버킷 상태 (없으면 가득 찬 버킷)
+ * @param {TokenBucketConfig} config 버킷 설정
+ * @param {number} now 현재 시각 (ms)
+ * @param {number} cost 소비할 토큰 수
+ */
+export function consumeToken(
+  state: TokenBucketState | null,
+  config: TokenBucketConfig,
+  now: number,
+  cost = 1
+): { state: TokenBucketState; decision: RateLimitDecision } {
+  const refillPerMs = config.perMinute / 60000;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state
+    ? Math.min(config.capacity, state.tokens + elapsed * refillPerMs)
+    : config.capacity;
+
+  const allowed = available >= cost;
+  const tokens = allowed ? available - cost : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    decision: {
+      allowed,
+      limit: config.capacity,
+      remaining: Math.floor(tokens),
+      retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / refillPerMs),
+      resetMs: Math.ceil((config.capacity - tokens) / refillPerMs),
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Route Handler 요청 제한 미들웨어 (서버 전용)
+ *
+ * 로그인 사용자는 사용자 ID, 그 외에는 IP 단위로 토큰 버킷을 적용합니다.
+ * 액세스 토큰 확인(Supabase 호출)은 IP 단위 한도를 먼저 통과한 요청에만 수행합니다.
+ * 한도를 넘으면 429 응답과 Retry-After 헤더를 반환하고,
+ * 허용된 응답에는 남은 요청 수 헤더를 덧붙입니다.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { RateLimitError } from "@/services/api/api-errors";
+import {
+  RATE_LIMIT_HEADERS,
+  RATE_LIMIT_POLICIES,
+  RATE_LIMIT_SETTINGS,
+} from "@/utils/constants/api";
+import { getBearerToken, getClientIp, verifyAccessToken } from "../request-identity";
+import { getRateLimitStore } from "./index";
+import type { RateLimitDecision, TokenBucketConfig } from "./token-bucket";
+
+/**
+ * 요청 제한 정책 이름
+ */
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+/**
+ * 요청 제한 확인 결과
+ */
+export interface RateLimitCheck {
+  key: string;
+  decision: RateLimitDecision;
+}
+
+/**
+ * 요청 제한 확인 (토큰 1개 소비)
+ *
+ * 1. 액세스 토큰이 없으면 IP 버킷만 적용합니다.
+ * 2. 토큰이 있으면 로그인 사용자 한도로 IP 버킷을 먼저 소비하고, 통과한 경우에만 토큰을 확인합니다.
+ * 3. 확인된 사용자는 사용자 버킷을, 유효하지 않은 토큰은 비로그인 IP 버킷을 추가로 적용합니다.
+ * @param {NextRequest} request 요청
+ * @param {RateLimitPolicyName} policyName 적용할 정책
+ */
+export async function checkRateLimit(
+  request: NextRequest,
+  policyName: RateLimitPolicyName
+): Promise<RateLimitCheck> {
+  const store = getRateLimitStore();
+  const policy = RATE_LIMIT_POLICIES[policyName];
+  const ipKey = `${policyName}:ip:${getClientIp(request)}`;
+  const token = getBearerToken(request);
+
+  if (!token) {
+    return { key: ipKey, decision: await store.consume(ipKey, policy) };
+  }
+
+  const authenticatedConfig: TokenBucketConfig = {
+    capacity: policy.capacity * RATE_LIMIT_SETTINGS.AUTHENTICATED_MULTIPLIER,
+    perMinute: policy.perMinute * RATE_LIMIT_SETTINGS.AUTHENTICATED_MULTIPLIER,
+  };
+  const gateKey = `${ipKey}:token`;
+  const gate = await store.consume(gateKey, authenticatedConfig);
+  if (!gate.allowed) return { key: gateKey, decision: gate };
+
+  const user = await verifyAccessToken(token);
+  const key = user ? `${policyName}:user:${user.id}` : ipKey;
+  const config = user ? authenticatedConfig : policy;
+
+  return { key, decision: await store.consume(key, config) };
+}
+
+/**
+ * 요청 제한 응답 헤더 생성
+ * @param {RateLimitDecision} decision 판정 결과
+ */
+export function buildRateLimitHeaders(
+  decision: RateLimitDecision
+): Record<string, string> {
+  return {
+    [RATE_LIMIT_HEADERS.LIMIT]: String(decision.limit),
+    [RATE_LIMIT_HEADERS.REMAINING]: String(decision.remaining),
+    [RATE_LIMIT_HEADERS.RESET]: String(Math.ceil(decision.resetMs / 1000)),
+    ...(!decision.allowed && {
+      [RATE_LIMIT_HEADERS.RETRY_AFTER]: String(
+        Math.max(1, Math.ceil(decision.retryAfterMs / 1000))
+      ),
+    }),
+  };
+}
+
+/**
+ * 한도 초과 응답 생성
+ * @param {RateLimitDecision} decision 판정 결과
+ */
+export function rateLimitExceededResponse(decision: RateLimitDecision) {
+  const retryAfterSeconds = Math.max(1, Math.ceil(decision.retryAfterMs / 1000));
+  const error = new RateLimitError(
+    `요청이 너무 많습니다. ${retryAfterSeconds}초 후 다시 시도해주세요.`,
+    retryAfterSeconds,
+    { limit: decision.limit }
+  );
+
+  return NextResponse.json(error.toResponseBody(), {
+    status: 429,
+    headers: buildRateLimitHeaders(decision),
+  });
+}
+
+/**
+ * Route Handler에 요청 제한 적용
+ *
+ * 저장소 오류가 나면 요청을 막지 않고 그대로 처리합니다.
+ * @param {RateLimitPolicyName} policyName 적용할 정책
+ * @param {Function} handler 원래 Route Handler
+ */
+export function withRateLimit<TContext>(
+  policyName: RateLimitPolicyName,
+  handler: (request: NextRequest, context: TContext) => Promise<Response>
+) {
+  return async (request: NextRequest, context: TContext): Promise<Response> => {
+    let check: RateLimitCheck | null = null;
+    try {
+      check = await checkRateLimit(request, policyName);
+    } catch (error) {
+      console.warn("요청 제한 확인 실패:", error);
+    }
+
+    if (check && !check.decision.allowed) {
+      return rateLimitExceededResponse(check.decision);
+    }
+
+    const response = await handler(request, context);
+    if (check) {
+      Object.entries(buildRateLimitHeaders(check.decision)).forEach(
+        ([name, value]) => response.headers.set(name, value)
+      );
+    }
+    return response;
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * 요청자 식별 (서버 전용)
+ *
+ * Route Handler와 middleware에서 요청자의 IP와 로그인 사용자를 확인합니다.
+ * API 요청은 Authorization: Bearer <Supabase 액세스 토큰> 헤더로,
+ * 페이지 요청은 클라이언트가 동기화한 세션 쿠키로 식별합니다.
+ * middleware(Edge 런타임)에서도 쓰이므로 Node 전용 모듈을 사용하지 않습니다.
+ */
+
+import type { NextRequest } from "next/server";
+import type { Permission, UserRole } from "@/types/user";
+import { COOKIE_KEYS } from "@/utils/constants/app";
+import { HTTP_HEADERS, RATE_LIMIT_SETTINGS } from "@/utils/constants/api";
+import { AuthenticationError, AuthorizationError } from "@/services/api/api-errors";
+import { hasRolePermission } from "@/services/api/permissions";
+import { resolveUserActive, resolveUserRole } from "@/services/api/user-roles";
+import { getSupabaseAnonClient } from "./supabase-admin";
+
+/**
+ * 인증된 요청자
+ */
+export interface RequestUser {
+  id: string;
+  role: UserRole;
+}
+
+const verifiedTokens = new Map<string, { user: RequestUser | null; expiresAt: number }>();
+
+/**
+ * 앞단 신뢰 프록시 수 (0이면 X-Forwarded-For를 사용하지 않음)
+ */
+function getTrustedProxyHops(): number {
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS ?? "");
+  return Number.isInteger(hops) && hops >= 0 ? hops : RATE_LIMIT_SETTINGS.TRUSTED_PROXY_HOPS;
+}
+
+/**
+ * 요청자 IP 조회
+ *
+ * X-Forwarded-For는 프록시마다 오른쪽에 주소를 덧붙이고 왼쪽 값은 클라이언트가 임의로 넣을 수 있으므로,
+ * 신뢰 프록시 수만큼 오른쪽에서 센 주소를 사용합니다. 없으면 플랫폼이 설정한 x-real-ip를 사용합니다.
+ * @param {NextRequest} request 요청
+ */
+export function getClientIp(request: NextRequest): string {
+  const hops = getTrustedProxyHops();
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  if (forwardedFor && hops > 0) {
+    const addresses = forwardedFor
+      .split(",")
+      .map((address) => address.trim())
+      .filter((address) => address.length > 0);
+    const clientIp = addresses[Math.max(0, addresses.length - hops)];
+    if (clientIp) return clientIp;
+  }
+  return request.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+/**
+ * Authorization 헤더의 Bearer 토큰 추출
+ * @param {NextRequest} request 요청
+ */
+export function getBearerToken(request: NextRequest): string | null {
+  const authorization = request.headers.get(HTTP_HEADERS.AUTHORIZATION);
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * 세션 쿠키의 액세스 토큰 추출 (페이지 요청용)
+ * @param {NextRequest} request 요청
+ */
+export function getSessionCookieToken(request: NextRequest): string | null {
+  return request.cookies.get(COOKIE_KEYS.SESSION)?.value || null;
+}
+
+/**
+ * 토큰 SHA-256 해시 (캐시 키, 원본 토큰은 보관하지 않음)
+ */
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * 액세스 토큰으로 로그인 사용자 확인
+ *
+ * 토큰을 Supabase로 검증하며, 확인 결과는 토큰 해시 기준으로 잠시 보관합니다 (최대 USER_CACHE_MAX_ENTRIES개).
+ * 토큰이 유효하지 않거나 Supabase가 설정되지 않았으면 null을 반환하고,
+ * 관리자가 비활성화한 계정도 로그인하지 않은 것으로 처리합니다.
+ * 역할/활성 여부 변경은 보관 시간(USER_CACHE_TTL)이 지난 뒤 반영됩니다.
+ * @param {string} token Supabase 액세스 토큰
+ */
+export async function verifyAccessToken(token: string): Promise<RequestUser | null> {
+  // 토큰 확인에는 서비스 롤 키가 필요 없으므로 익명 키로 확인
+  const client = getSupabaseAnonClient();
+  if (!client) return null;
+
+  const tokenHash = await hashToken(token);
+  const now = Date.now();
+  const cached = verifiedTokens.get(tokenHash);
+  if (cached && cached.expiresAt > now) {
+    // 최근 사용 순서 갱신
+    verifiedTokens.delete(tokenHash);
+    verifiedTokens.set(tokenHash, cached);
+    return cached.user;
+  }
+
+  let user: RequestUser | null = null;
+  try {
+    const { data, error } = await client.auth.getUser(token);
+    if (!error && data.user && resolveUserActive(data.user.app_metadata)) {
+      user = { id: data.user.id, role: resolveUserRole(data.user.app_metadata) };
+    }
+  } catch (error) {
+    console.warn("액세스 토큰 확인 실패:", error);
+  }
+
+  // 만료된 항목 정리 후 저장 (한도를 넘으면 오래 사용하지 않은 항목부터 제거)
+  verifiedTokens.forEach((entry, key) => {
+    if (entry.expiresAt <= now) verifiedTokens.delete(key);
+  });
+  verifiedTokens.delete(tokenHash);
+  verifiedTokens.set(tokenHash, {
+    user,
+    expiresAt: now + RATE_LIMIT_SETTINGS.USER_CACHE_TTL,
+  });
+  while (verifiedTokens.size > RATE_LIMIT_SETTINGS.USER_CACHE_MAX_ENTRIES) {
+    const oldestKey = verifiedTokens.keys().next().value;
+    if (oldestKey === undefined) break;
+    verifiedTokens.delete(oldestKey);
+  }
+
+  return user;
+}
+
+/**
+ * 로그인 사용자 조회 (Authorization 헤더 기준, 없거나 유효하지 않으면 null)
+ * @param {NextRequest} request 요청
+ */
+export async function resolveRequestUser(
+  request: NextRequest
+): Promise<RequestUser | null> {
+  const token = getBearerToken(request);
+  return token ? verifyAccessToken(token) : null;
+}
+
+/**
+ * 로그인 사용자 ID 조회 (로그인하지 않았으면 null)
+ * @param {NextRequest} request 요청
+ */
+export async function resolveRequestUserId(
+  request: NextRequest
+): Promise<string | null> {
+  return (await resolveRequestUser(request))?.id ?? null;
+}
+
+/**
+ * 로그인 사용자 조회 (로그인하지 않았으면 AuthenticationError)
+ * @param {NextRequest} request 요청
+ */
+export async function requireRequestUser(request: NextRequest): Promise<RequestUser> {
+  const user = await resolveRequestUser(request);
+  if (!user) throw new AuthenticationError();
+  return user;
+}
+
+/**
+ * 로그인 사용자 ID 조회 (로그인하지 않았으면 AuthenticationError)
+ * @param {NextRequest} request 요청
+ */
+export async function requireRequestUserId(request: NextRequest): Promise<string> {
+  return (await requireRequestUser(request)).id;
+}
+
+/**
+ * 권한이 있는 로그인 사용자 조회
+ *
+ * 로그인하지 않았으면 AuthenticationError, 역할에 권한이 없으면 AuthorizationError를 던집니다.
+ * @param {NextRequest} request 요청
+ * @param {Permission} permission 필요한 권한
+ * @param {string} message 권한이 없을 때 메시지
+ */
+export async function requireRequestPermission(
+  request: NextRequest,
+  permission: Permission,
+  message?: string
+): Promise<RequestUser> {
+  const user = await requireRequestUser(request);
+  if (!hasRolePermission(user.role, permission)) {
+    throw new AuthorizationError(message);
+  }
+  return user;
+}
@@ -0,0 +1,85 @@
+import type { AdvancedSearchFilters, SearchRequest } from "@/types/search";
+import { configurePublicDataTransport } from "../../public-data-client";
+import {
+  createFakePublicDataService,
+  createFakeTransport,
+} from "../../public-data-fake";
+import { configureAnimalMirrorStore } from "../../mirror";
+import { configureImageProxy } from "../../images";
+import { searchPets } from "../search-service";
+
+/**
+ * 맞춤 추천 검색 요청
+ */
+function matchRequest(filters: Partial<AdvancedSearchFilters>): SearchRequest {
+  return {
+    filters: {
+      userPreferredSpecies: ["dog"],
+      userPreferredSizes: ["small"],
+      ...filters,
+    } as AdvancedSearchFilters,
+    sort: { sortBy: "match", direction: "desc" },
+    pagination: { page: 1, pageSize: 100 },
+  };
+}
+
+beforeAll(() => {
+  configureAnimalMirrorStore(null);
+  configurePublicDataTransport(
+    createFakeTransport(createFakePublicDataService({ seed: 7, animalCount: 80 }))
+  );
+  // 사진 변환은 검색 결과와 무관하므로 네트워크 없이 빈 정보로 대체
+  configureImageProxy({
+    getVariant: async () => {
+      throw new Error("테스트에서는 사용하지 않습니다.");
+    },
+    lookupMetadata: async () => ({}),
+  });
+});
+
+afterAll(() => {
+  configurePublicDataTransport(null);
+});
+
+describe("searchPets 기본 검색", () => {
+  it("조건이 없어도 입양·안락사 등으로 종료된 동물은 반환하지 않는다", async () => {
+    const { results } = await searchPets({
+      filters: {},
+      sort: { sortBy: "newest", direction: "desc" },
+      pagination: { page: 1, pageSize: 100 },
+    });
+
+    expect(results.items.length).toBeGreaterThan(0);
+    expect(results.totalCount).toBeLessThan(80);
+    expect(
+      results.items.every((item) => item.pet.adoptionStatus === "available")
+    ).toBe(true);
+  });
+});
+
+describe("searchPets 맞춤 추천", () => {
+  it("매칭 점수가 높은 순으로 정렬한다", async () => {
+    const { results } = await searchPets(matchRequest({}));
+    const scores = results.items.map((item) => item.matchScore!.overall);
+
+    expect(scores.length).toBeGreaterThan(1);
+    expect(new Set(scores).size).toBeGreaterThan(1);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it("minMatchScore 미만은 결과에서 제외한다", async () => {
+    const minMatchScore = 60;
+    const { results: all } = await searchPets(matchRequest({}));
+    const { results: filtered } = await searchPets(matchRequest({ minMatchScore }));
+
+    const expectedIds = all.items
+      .filter((item) => item.matchScore!.overall >= minMatchScore)
+      .map((item) => item.pet.id);
+
+    expect(expectedIds.length).toBeLessThan(all.items.length);
+    expect(filtered.items.map((item) => item.pet.id)).toEqual(expectedIds);
+    expect(
+      filtered.items.every((item) => item.matchScore!.overall >= minMatchScore)
+    ).toBe(true);
+  });
+});
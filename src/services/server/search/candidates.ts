@@ -0,0 +1,140 @@
+/**
+ * 검색 후보 수집 (서버 전용)
+ *
+ * 미러가 설정되어 있으면 미러에서, 없으면 업스트림 페이지를 제한된 횟수만큼 스캔해
+ * 필터를 적용할 후보 동물을 모읍니다. 업스트림이 지원하는 조건은 미리 전달해 스캔량을 줄입니다.
+ * 업스트림 스캔도 미러와 같이 공고중/보호중 동물만 대상으로 합니다.
+ */
+
+import type { AbandonmentAnimalItem } from "@/types/api";
+import type { BaseSearchFilters } from "@/types/search";
+import {
+  ANIMAL_MIRROR_SETTINGS,
+  PET_SEARCH_SETTINGS,
+} from "@/utils/constants/api";
+import { ANIMAL_TYPE_CODES } from "@/services/api/animal-api";
+import type { CachedResult } from "../cache";
+import {
+  fetchFromPublicAPICached,
+  PUBLIC_API_ENDPOINTS,
+} from "../public-data-client";
+import { extractAnimalRecords } from "../animal-records";
+import { animalIndex } from "../animal-index";
+import type { AnimalMirrorStore } from "../mirror";
+
+/**
+ * 후보 수집 결과
+ */
+export interface SearchCandidates {
+  animals: AbandonmentAnimalItem[];
+  /** 조건에 해당할 수 있는 전체 후보를 모두 모았는지 여부 */
+  complete: boolean;
+  /** 업스트림(또는 미러)이 보고한 전체 후보 수 */
+  sourceTotal: number;
+  cacheResults: CachedResult<unknown>[];
+}
+
+/**
+ * 단일 축종 필터를 업스트림 축종 코드로 변환
+ */
+function toUpkind(species?: BaseSearchFilters["species"]): string | undefined {
+  if (!species || species.length !== 1) return undefined;
+
+  switch (species[0]) {
+    case "dog":
+      return ANIMAL_TYPE_CODES.DOG;
+    case "cat":
+      return ANIMAL_TYPE_CODES.CAT;
+    default:
+      return ANIMAL_TYPE_CODES.OTHER;
+  }
+}
+
+/**
+ * 미러에서 후보 수집 (미러가 정확히 표현할 수 있는 조건만 미리 적용)
+ * @param {AnimalMirrorStore} store 미러 저장소
+ * @param {BaseSearchFilters} filters 검색 필터
+ */
+export async function collectMirrorCandidates(
+  store: AnimalMirrorStore,
+  filters: BaseSearchFilters
+): Promise<SearchCandidates> {
+  const limit = PET_SEARCH_SETTINGS.MAX_MIRROR_CANDIDATES;
+  const result = await store.query({
+    species: filters.species,
+    sizes: filters.sizes,
+    ageGroups: filters.ageGroups,
+    genders: filters.gender,
+    personalities: filters.personalities,
+    neutered:
+      filters.spayedNeutered === undefined
+        ? undefined
+        : filters.spayedNeutered
+          ? ["Y"]
+          : ["N", "U"],
+    offset: 0,
+    limit,
+  });
+
+  return {
+    animals: result.records.map((record) => record.item),
+    complete: result.totalCount <= limit,
+    sourceTotal: result.totalCount,
+    cacheResults: [],
+  };
+}
+
+/**
+ * 업스트림 페이지를 스캔하며 후보 수집
+ *
+ * 미러 동기화와 같은 상태(공고중/보호중)만 스캔해 입양·안락사 등으로 종료된 동물은 제외합니다.
+ * 정렬과 페이지 위치가 요청마다 달라지지 않도록 상태별로 같은 범위(호출 예산을 나눈 만큼)를 스캔합니다.
+ * 이후 페이지 요청은 응답 캐시에서 처리됩니다.
+ * @param {BaseSearchFilters} filters 검색 필터
+ */
+export async function collectUpstreamCandidates(
+  filters: BaseSearchFilters
+): Promise<SearchCandidates> {
+  const pageSize = PET_SEARCH_SETTINGS.UPSTREAM_PAGE_SIZE;
+  const states = ANIMAL_MIRROR_SETTINGS.SYNC_STATES;
+  const requestsPerState = Math.max(
+    1,
+    Math.floor(PET_SEARCH_SETTINGS.MAX_UPSTREAM_REQUESTS / states.length)
+  );
+  const params = {
+    upkind: toUpkind(filters.species),
+    neut_yn: filters.spayedNeutered ? "Y" : undefined,
+  };
+  const animals: AbandonmentAnimalItem[] = [];
+  const cacheResults: CachedResult<unknown>[] = [];
+  let sourceTotal = 0;
+  let complete = true;
+
+  for (const state of states) {
+    let stateComplete = false;
+    let stateTotal = 0;
+
+    for (let pageNo = 1; pageNo <= requestsPerState; pageNo++) {
+      const cached = await fetchFromPublicAPICached<AbandonmentAnimalItem>(
+        PUBLIC_API_ENDPOINTS.ANIMALS,
+        { ...params, state, pageNo, numOfRows: pageSize }
+      );
+      cacheResults.push(cached);
+
+      const { animals: items, received } = extractAnimalRecords(cached.value);
+      animalIndex.remember(items);
+      animals.push(...items);
+      stateTotal = cached.value.response.body.totalCount || 0;
+
+      if (received < pageSize || pageNo * pageSize >= stateTotal) {
+        stateComplete = true;
+        break;
+      }
+    }
+
+    sourceTotal += stateTotal;
+    complete &&= stateComplete;
+  }
+
+  return { animals, complete, sourceTotal, cacheResults };
+}
@@ -0,0 +1,92 @@
+/**
+ * 검색 후보 좌표 보강 (서버 전용)
+ *
+ * 반경 검색/거리 정렬을 위해 보호소 주소(careAddr)를 좌표로 변환합니다.
+ * 보호소 주소가 없거나 변환되지 않으면 발견 장소, 관할 기관 순으로 시도합니다.
+ * 제공자 호출은 요청당 제한하며 초과분은 캐시와 중심점 테이블만 사용합니다.
+ */
+
+import type { AbandonmentAnimalItem } from "@/types/api";
+import type { Pet } from "@/types/pet";
+import { GEOCODING_SETTINGS } from "@/utils/constants/api";
+import { getGeocoder } from "../geocoding";
+import type { Coordinates, GeocodeResult } from "../geocoding";
+
+/**
+ * 좌표 보강 대상
+ */
+interface LocatablePet {
+  animal: AbandonmentAnimalItem;
+  pet: Pet;
+}
+
+/**
+ * 동물별 주소 후보 (정확도가 높은 순)
+ * @param {AbandonmentAnimalItem} animal 공공데이터 동물 정보
+ */
+function addressCandidates(animal: AbandonmentAnimalItem): string[] {
+  return [animal.careAddr, animal.happenPlace, animal.orgNm].filter(
+    (address): address is string => !!address?.trim()
+  );
+}
+
+/**
+ * 후보들의 Pet 위치에 좌표를 채워 반환 (원본은 변경하지 않음)
+ * @param {LocatablePet[]} items 좌표를 채울 후보 목록
+ */
+export async function attachPetCoordinates<T extends LocatablePet>(
+  items: T[]
+): Promise<T[]> {
+  const geocoder = getGeocoder();
+  const resolved = new Map<string, Promise<GeocodeResult | null>>();
+  let providerLookups = 0;
+
+  /**
+   * 같은 주소는 한 번만 조회
+   */
+  const geocode = (address: string) => {
+    const pending = resolved.get(address);
+    if (pending) return pending;
+
+    const allowProvider =
+      providerLookups < GEOCODING_SETTINGS.MAX_PROVIDER_LOOKUPS_PER_REQUEST;
+    if (allowProvider) providerLookups++;
+
+    const lookup = geocoder.geocode(address, { allowProvider });
+    resolved.set(address, lookup);
+    return lookup;
+  };
+
+  const locate = async (
+    animal: AbandonmentAnimalItem
+  ): Promise<Coordinates | null> => {
+    for (const address of addressCandidates(animal)) {
+      const result = await geocode(address);
+      if (result) return result.coordinates;
+    }
+    return null;
+  };
+
+  // 주소 조회는 순서대로 진행하여 제공자 호출 예산이 보호소 주소에 먼저 쓰이도록 함
+  const located: T[] = [];
+  for (const item of items) {
+    if (item.pet.location.coordinates) {
+      located.push(item);
+      continue;
+    }
+
+    const coordinates = await locate(item.animal);
+    located.push(
+      coordinates
+        ? {
+            ...item,
+            pet: {
+              ...item.pet,
+              location: { ...item.pet.location, coordinates },
+            },
+          }
+        : item
+    );
+  }
+  return located;
+}
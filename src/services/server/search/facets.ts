@@ -0,0 +1,47 @@
+/**
+ * 검색 결과 패싯 집계 (서버 전용)
+ */
+
+import type { Pet } from "@/types/pet";
+import type { SearchResults } from "@/types/search";
+import { PET_SEARCH_SETTINGS } from "@/utils/constants/api";
+
+/**
+ * 패싯 집계 결과 (SearchResults.filters.available)
+ */
+export type SearchFacets = SearchResults["filters"]["available"];
+
+/**
+ * 값별 개수를 내림차순 패싯 목록으로 변환
+ */
+function toFacetCounts<T extends string>(
+  values: T[]
+): { value: T; count: number }[] {
+  const counts = new Map<T, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, PET_SEARCH_SETTINGS.MAX_FACET_VALUES);
+}
+
+/**
+ * 필터가 적용된 반려동물 목록으로 패싯 집계
+ * @param {Pet[]} pets 검색 결과 전체
+ */
+export function buildSearchFacets(pets: Pet[]): SearchFacets {
+  return {
+    species: toFacetCounts(pets.map((pet) => pet.species)),
+    breeds: toFacetCounts(
+      pets.map((pet) => pet.breed?.name).filter((name): name is string => !!name)
+    ),
+    sizes: toFacetCounts(pets.map((pet) => pet.size)),
+    ageGroups: toFacetCounts(pets.map((pet) => pet.age.ageGroup)),
+    locations: toFacetCounts(
+      pets
+        .map((pet) => pet.location.city?.split(/\s+/)[0])
+        .filter((city): city is string => !!city)
+    ),
+    personalities: toFacetCounts(pets.flatMap((pet) => pet.personality)),
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * 검색 필터 적용 (서버 전용)
+ *
+ * convertAbandonmentAnimalToPet으로 만든 Pet의 파생 필드에 BaseSearchFilters를 적용합니다.
+ */
+
+import type { Pet } from "@/types/pet";
+import type { BaseSearchFilters } from "@/types/search";
+
+/**
+ * 텍스트 정규화 (소문자, 공백 제거)
+ */
+function normalize(text?: string | null): string {
+  return (text || "").toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * 검색어를 토큰으로 분리
+ * @param {string} keyword 검색어
+ */
+export function tokenizeSearchKeyword(keyword?: string): string[] {
+  if (!keyword) return [];
+  return Array.from(
+    new Set(
+      keyword
+        .toLowerCase()
+        .split(/[\s,./()[\]]+/)
+        .filter((term) => term.length > 0)
+    )
+  );
+}
+
+/**
+ * 두 좌표 사이 거리 (km, 하버사인 공식)
+ */
+export function calculateDistanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degree: number) => (degree * Math.PI) / 180;
+  const earthRadiusKm = 6371;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+  return earthRadiusKm * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * 다중 값 필터 일치 여부 (필터가 비어 있으면 통과)
+ */
+function matchesAny<T>(filter: T[] | undefined, value: T): boolean {
+  return !filter || filter.length === 0 || filter.includes(value);
+}
+
+/**
+ * 불리언 필터 일치 여부 (필터가 없으면 통과, 정보 없음(null)은 어느 쪽에도 일치하지 않음)
+ */
+function matchesFlag(
+  filter: boolean | undefined,
+  value: boolean | null | undefined
+): boolean {
+  return filter === undefined || filter === value;
+}
+
+/**
+ * 품종 필터 일치 여부 (품종 코드 또는 품종명 부분 일치)
+ */
+function matchesBreed(pet: Pet, breeds?: string[]): boolean {
+  if (!breeds || breeds.length === 0) return true;
+  if (!pet.breed) return false;
+
+  const breedName = normalize(pet.breed.name);
+  return breeds.some(
+    (breed) => breed === pet.breed!.id || breedName.includes(normalize(breed))
+  );
+}
+
+/**
+ * 위치 필터 일치 여부
+ *
+ * 기준 좌표와 반경이 있으면 거리로, 그렇지 않으면 시도/시군구 이름으로 비교합니다.
+ */
+function matchesLocation(pet: Pet, filters: BaseSearchFilters): boolean {
+  const { location, radius } = filters;
+  if (!location) return true;
+
+  // 반경 검색: 좌표를 구하지 못한 동물은 거리를 판단할 수 없으므로 제외
+  const petCoordinates = pet.location.coordinates;
+  if (location.coordinates && radius) {
+    return (
+      !!petCoordinates &&
+      calculateDistanceKm(location.coordinates, petCoordinates) <= radius
+    );
+  }
+
+  const regionTerms = [location.city, location.district]
+    .map(normalize)
+    .filter((term) => term.length > 0);
+  const terms =
+    regionTerms.length > 0
+      ? regionTerms
+      : [normalize(location.address)].filter((term) => term.length > 0);
+  if (terms.length === 0) return true;
+
+  const petLocation = normalize(
+    [pet.location.city, pet.location.district, pet.location.address].join(" ")
+  );
+  return terms.every((term) => petLocation.includes(term));
+}
+
+/**
+ * 입양비 필터 일치 여부 (입양비 정보가 없는 보호소 동물은 0원으로 취급)
+ */
+function matchesFee(pet: Pet, filters: BaseSearchFilters): boolean {
+  const fee = pet.adoptionFee ?? 0;
+  return (
+    (filters.minFee === undefined || fee >= filters.minFee) &&
+    (filters.maxFee === undefined || fee <= filters.maxFee)
+  );
+}
+
+/**
+ * 검색어 대상 텍스트
+ */
+function getSearchableText(pet: Pet): string {
+  return [
+    pet.name,
+    pet.breed?.name,
+    pet.description,
+    pet.location.address,
+    pet.location.city,
+    pet.shelterInfo?.shelterName,
+    ...(pet.specialNeeds ?? []),
+    ...pet.color,
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
+
+/**
+ * 검색어 관련도 점수 (일치한 토큰 수 + 품종/이름 일치 가중치)
+ * @param {Pet} pet 반려동물
+ * @param {string[]} terms 검색어 토큰
+ */
+export function calculateRelevanceScore(pet: Pet, terms: string[]): number {
+  if (terms.length === 0) return 0;
+
+  const text = getSearchableText(pet);
+  const breedName = (pet.breed?.name || "").toLowerCase();
+  return terms.reduce((score, term) => {
+    if (!text.includes(term)) return score;
+    return score + 1 + (breedName.includes(term) ? 2 : 0);
+  }, 0);
+}
+
+/**
+ * Pet이 모든 검색 필터에 일치하는지 확인
+ * @param {Pet} pet 반려동물
+ * @param {BaseSearchFilters} filters 검색 필터
+ * @param {string[]} terms 검색어 토큰 (모두 포함해야 일치)
+ */
+export function matchesSearchFilters(
+  pet: Pet,
+  filters: BaseSearchFilters,
+  terms: string[] = tokenizeSearchKeyword(filters.keyword)
+): boolean {
+  const searchableText = terms.length > 0 ? getSearchableText(pet) : "";
+
+  return (
+    matchesAny(filters.species, pet.species) &&
+    matchesBreed(pet, filters.breeds) &&
+    matchesAny(filters.ageGroups, pet.age.ageGroup) &&
+    matchesAny(filters.sizes, pet.size) &&
+    matchesAny(filters.gender, pet.gender) &&
+    matchesAny(filters.adoptionStatus, pet.adoptionStatus) &&
+    matchesAny(filters.healthStatus, pet.healthStatus) &&
+    (!filters.personalities ||
+      filters.personalities.length === 0 ||
+      pet.personality.some((trait) => filters.personalities!.includes(trait))) &&
+    matchesLocation(pet, filters) &&
+    matchesFee(pet, filters) &&
+    matchesFlag(filters.houseTrained, pet.houseTrained) &&
+    matchesFlag(filters.spayedNeutered, pet.spayedNeutered) &&
+    matchesFlag(filters.vaccinated, pet.vaccinated) &&
+    matchesFlag(filters.microchipped, pet.microchipped) &&
+    matchesFlag(filters.goodWithChildren, pet.goodWith?.children) &&
+    matchesFlag(filters.goodWithOtherPets, pet.goodWith?.otherPets) &&
+    matchesFlag(filters.hasSpecialNeeds, (pet.specialNeeds?.length ?? 0) > 0) &&
+    terms.every((term) => searchableText.includes(term))
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * 반려동물 검색 (서버 전용)
+ */
+
+export { parseSearchRequest } from "./schema";
+export { searchPets } from "./search-service";
+export type { PetSearchOutcome } from "./search-service";
+export {
+  matchesSearchFilters,
+  calculateRelevanceScore,
+  calculateDistanceKm,
+  tokenizeSearchKeyword,
+} from "./filters";
+export { sortSearchEntries, resolveProximity } from "./sort";
+export type { SearchEntry } from "./sort";
+export { findSimilarPets } from "./similar-pets";
+export type { SimilarPetsOptions, SimilarPetsOutcome } from "./similar-pets";
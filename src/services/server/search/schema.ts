@@ -0,0 +1,163 @@
+/**
+ * 검색 요청 스키마 (서버 전용)
+ *
+ * SearchRequest body를 검증하고 ValidationError 목록으로 변환합니다.
+ */
+
+import { z } from "zod";
+import type { ValidationError } from "@/types/api";
+import type { SearchRequest } from "@/types/search";
+import { PET_SEARCH_SETTINGS } from "@/utils/constants/api";
+
+const petSpeciesSchema = z.enum(["dog", "cat", "rabbit", "bird", "hamster", "other"]);
+const petSizeSchema = z.enum(["extra-small", "small", "medium", "large", "extra-large"]);
+const petAgeGroupSchema = z.enum(["puppy", "young", "adult", "senior"]);
+const genderSchema = z.enum(["male", "female", "unknown"]);
+const adoptionStatusSchema = z.enum(["available", "pending", "adopted", "unavailable"]);
+const healthStatusSchema = z.enum([
+  "excellent",
+  "good",
+  "fair",
+  "needs-attention",
+  "special-care",
+  "unknown",
+]);
+const personalityTraitSchema = z.enum([
+  "friendly",
+  "playful",
+  "calm",
+  "energetic",
+  "affectionate",
+  "independent",
+  "social",
+  "shy",
+  "protective",
+  "gentle",
+]);
+const activityLevelSchema = z.enum(["low", "medium", "high"]);
+
+const locationSchema = z.object({
+  address: z.string().optional(),
+  city: z.string().optional(),
+  district: z.string().optional(),
+  coordinates: z
+    .object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+    })
+    .nullable()
+    .optional(),
+});
+
+const baseFiltersSchema = z.object({
+  species: z.array(petSpeciesSchema).optional(),
+  breeds: z.array(z.string()).optional(),
+  ageGroups: z.array(petAgeGroupSchema).optional(),
+  sizes: z.array(petSizeSchema).optional(),
+  gender: z.array(genderSchema).optional(),
+  adoptionStatus: z.array(adoptionStatusSchema).optional(),
+  healthStatus: z.array(healthStatusSchema).optional(),
+  location: locationSchema.optional(),
+  radius: z.number().positive().optional(),
+  maxFee: z.number().min(0).optional(),
+  minFee: z.number().min(0).optional(),
+  personalities: z.array(personalityTraitSchema).optional(),
+  houseTrained: z.boolean().optional(),
+  spayedNeutered: z.boolean().optional(),
+  vaccinated: z.boolean().optional(),
+  microchipped: z.boolean().optional(),
+  goodWithChildren: z.boolean().optional(),
+  goodWithOtherPets: z.boolean().optional(),
+  hasSpecialNeeds: z.boolean().optional(),
+  keyword: z.string().max(100).optional(),
+});
+
+const advancedFiltersSchema = baseFiltersSchema.extend({
+  userLivingSpace: z.enum(["apartment", "house", "farm", "other"]).optional(),
+  userHasYard: z.boolean().optional(),
+  userHasChildren: z.boolean().optional(),
+  userHasOtherPets: z.boolean().optional(),
+  userExperience: z
+    .enum(["none", "beginner", "intermediate", "experienced"])
+    .optional(),
+  userActivityLevel: activityLevelSchema.optional(),
+  userTimeCommitment: activityLevelSchema.optional(),
+  userBudgetMonthly: z.number().min(0).optional(),
+  userBudgetInitial: z.number().min(0).optional(),
+  userPreferredSpecies: z.array(petSpeciesSchema).optional(),
+  userPreferredSizes: z.array(petSizeSchema).optional(),
+  userPreferredAgeGroups: z.array(petAgeGroupSchema).optional(),
+  userPreferredPersonalities: z.array(personalityTraitSchema).optional(),
+  userRequirements: z
+    .object({
+      mustBeHouseTrained: z.boolean().optional(),
+      mustBeSpayedNeutered: z.boolean().optional(),
+      mustBeVaccinated: z.boolean().optional(),
+      goodWithChildren: z.boolean().optional(),
+      goodWithOtherPets: z.boolean().optional(),
+      noSpecialNeeds: z.boolean().optional(),
+    })
+    .optional(),
+  minMatchScore: z.number().min(0).max(100).optional(),
+  weightLifestyle: z.number().min(0).optional(),
+  weightExperience: z.number().min(0).optional(),
+  weightLocation: z.number().min(0).optional(),
+  weightPreferences: z.number().min(0).optional(),
+});
+
+export const searchRequestSchema = z.object({
+  filters: advancedFiltersSchema.default({}),
+  sort: z
+    .object({
+      sortBy: z.enum([
+        "relevance",
+        "newest",
+        "oldest",
+        "age-young",
+        "age-old",
+        "size-small",
+        "size-large",
+        "distance",
+        "fee-low",
+        "fee-high",
+        "name",
+        "match",
+      ]),
+      direction: z.enum(["asc", "desc"]),
+    })
+    .default({ sortBy: "newest", direction: "desc" }),
+  pagination: z
+    .object({
+      page: z.number().int().min(1),
+      pageSize: z.number().int().min(1).max(PET_SEARCH_SETTINGS.MAX_PAGE_SIZE),
+    })
+    .default({ page: 1, pageSize: 20 }),
+  userId: z.string().optional(),
+});
+
+/**
+ * 검색 요청 검증 결과
+ */
+export type SearchRequestParseResult =
+  | { success: true; data: SearchRequest }
+  | { success: false; errors: ValidationError[] };
+
+/**
+ * 검색 요청 body 검증
+ * @param {unknown} body 요청 body
+ */
+export function parseSearchRequest(body: unknown): SearchRequestParseResult {
+  const result = searchRequestSchema.safeParse(body);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => ({
+      field: issue.path.join(".") || "body",
+      message: issue.message,
+      code: issue.code,
+    })),
+  };
+}
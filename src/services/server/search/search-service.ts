@@ -0,0 +1,169 @@
+/**
+ * 반려동물 검색 서비스 (서버 전용)
+ *
+ * SearchRequest의 모든 필터를 Pet 파생 필드에 적용하고, 정렬한 뒤
+ * SearchResults 형태로 반환합니다.
+ */
+
+import type {
+  AdvancedSearchFilters,
+  SearchRequest,
+  SearchResultItem,
+  SearchResults,
+} from "@/types/search";
+import { convertAbandonmentAnimalToPet } from "@/services/api/animal-adapter";
+import {
+  calculateMatchScore,
+  matchProfileFromFilters,
+  matchWeightsFromFilters,
+  type MatchProfile,
+} from "@/services/api/match-scoring";
+import type { CachedResult } from "../cache";
+import { getAnimalMirrorStore } from "../mirror";
+import { attachPetImageMetadata } from "../images";
+import {
+  collectMirrorCandidates,
+  collectUpstreamCandidates,
+} from "./candidates";
+import { attachPetCoordinates } from "./coordinates";
+import { buildSearchFacets } from "./facets";
+import {
+  calculateRelevanceScore,
+  matchesSearchFilters,
+  tokenizeSearchKeyword,
+} from "./filters";
+import { resolveProximity, sortSearchEntries, type SearchEntry } from "./sort";
+
+/**
+ * 검색 실행 결과 (응답 헤더용 캐시 결과 포함)
+ */
+export interface PetSearchOutcome {
+  results: SearchResults;
+  cacheResults: CachedResult<unknown>[];
+}
+
+/**
+ * 매칭 점수 계산에 사용할 사용자 정보
+ *
+ * 사용자 정보(user* 필터)가 있거나 맞춤 추천 정렬/최소 점수가 요청되면 계산합니다.
+ * 사용자 정보 없이 맞춤 추천만 요청되면 위치만으로 비교합니다.
+ */
+function resolveMatchProfile(request: SearchRequest): MatchProfile | null {
+  const filters = request.filters as AdvancedSearchFilters;
+  const profile = matchProfileFromFilters(filters);
+  if (profile) return profile;
+
+  const needsMatchScore =
+    request.sort.sortBy === "match" || filters.minMatchScore !== undefined;
+  return needsMatchScore
+    ? { location: filters.location, searchRadius: filters.radius }
+    : null;
+}
+
+/**
+ * 반려동물 검색
+ * @param {SearchRequest} request 검색 요청
+ */
+export async function searchPets(request: SearchRequest): Promise<PetSearchOutcome> {
+  const startedAt = performance.now();
+  const { filters, pagination } = request;
+  const terms = tokenizeSearchKeyword(filters.keyword);
+  const matchProfile = resolveMatchProfile(request);
+  const matchWeights = matchWeightsFromFilters(filters as AdvancedSearchFilters);
+  const { minMatchScore } = filters as AdvancedSearchFilters;
+  const offset = (pagination.page - 1) * pagination.pageSize;
+
+  const mirrorStore = getAnimalMirrorStore();
+  const candidates = mirrorStore
+    ? await collectMirrorCandidates(mirrorStore, filters)
+    : await collectUpstreamCandidates(filters);
+
+  // 같은 유기번호가 중복으로 들어오지 않도록 정리 후 Pet으로 변환
+  const uniqueAnimals = Array.from(
+    new Map(
+      candidates.animals.map((animal) => [animal.desertionNo, animal])
+    ).values()
+  );
+  const converted = uniqueAnimals.map((animal) => ({
+    animal,
+    pet: convertAbandonmentAnimalToPet(animal),
+  }));
+
+  // 기준 좌표가 있을 때만 후보 좌표를 보강 (반경 필터/거리 정렬용)
+  const candidatePets = filters.location?.coordinates
+    ? await attachPetCoordinates(converted)
+    : converted;
+
+  const entries: SearchEntry[] = candidatePets
+    .filter(({ pet }) => matchesSearchFilters(pet, filters, terms))
+    .map(({ animal, pet }) => {
+      const proximity = resolveProximity(pet, filters.location);
+      return {
+        animal,
+        pet,
+        ...(terms.length > 0 && {
+          relevanceScore: calculateRelevanceScore(pet, terms),
+        }),
+        ...(matchProfile && {
+          matchScore: calculateMatchScore(pet, matchProfile, {
+            weights: matchWeights,
+            distanceKm: proximity.distance,
+          }),
+        }),
+        ...proximity,
+      };
+    })
+    .filter(
+      ({ matchScore }) =>
+        minMatchScore === undefined ||
+        (matchScore?.overall ?? 0) >= minMatchScore
+    );
+  const sorted = sortSearchEntries(entries, request.sort);
+
+  const totalCount = candidates.complete
+    ? sorted.length
+    : Math.max(
+        sorted.length,
+        uniqueAnimals.length > 0
+          ? Math.round(
+              (sorted.length / uniqueAnimals.length) * candidates.sourceTotal
+            )
+          : 0
+      );
+  const totalPages = Math.ceil(totalCount / pagination.pageSize);
+
+  const pageEntries = sorted.slice(offset, offset + pagination.pageSize);
+  const pagePets = await attachPetImageMetadata(
+    pageEntries.map((entry) => entry.pet)
+  );
+  const items: SearchResultItem[] = pageEntries.map(
+    ({ relevanceScore, matchScore, distance }, index) => ({
+      pet: pagePets[index],
+      ...(matchScore && { matchScore }),
+      ...(relevanceScore !== undefined && { relevanceScore }),
+      ...(distance !== undefined && { distance: Math.round(distance * 10) / 10 }),
+    })
+  );
+
+  return {
+    results: {
+      items,
+      pagination: {
+        page: pagination.page,
+        pageSize: pagination.pageSize,
+        totalCount,
+        totalPages,
+        hasNext: offset + items.length < sorted.length,
+        hasPrevious: pagination.page > 1,
+      },
+      totalCount,
+      totalCountExact: candidates.complete,
+      searchTime: Math.round(performance.now() - startedAt),
+      filters: {
+        applied: filters,
+        available: buildSearchFacets(sorted.map((entry) => entry.pet)),
+      },
+    },
+    cacheResults: candidates.cacheResults,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * 비슷한 반려동물 조회 (서버 전용)
+ *
+ * 유기번호로 기준 동물을 찾고, 같은 축종의 입양 가능한 후보를 모아
+ * 유사도(축종/품종/크기/나이대/털색/성별/지역) 순으로 반환합니다.
+ */
+
+import type { SimilarPetsResult } from "@/types/search";
+import { convertAbandonmentAnimalToPet } from "@/services/api/animal-adapter";
+import {
+  rankSimilarPets,
+  resolveSimilarityWeights,
+  type SimilarityWeights,
+} from "@/services/api/similarity";
+import type { CachedResult } from "../cache";
+import { lookupAnimal } from "../animal-index";
+import { getAnimalMirrorStore } from "../mirror";
+import { attachPetImageMetadata } from "../images";
+import {
+  collectMirrorCandidates,
+  collectUpstreamCandidates,
+} from "./candidates";
+
+/**
+ * 비슷한 반려동물 조회 옵션
+ */
+export interface SimilarPetsOptions {
+  limit?: number;
+  weights?: Partial<SimilarityWeights>;
+}
+
+/**
+ * 비슷한 반려동물 조회 결과 (응답 캐시 헤더 계산용 캐시 결과 포함)
+ */
+export interface SimilarPetsOutcome {
+  result: SimilarPetsResult;
+  cacheResults: CachedResult<unknown>[];
+}
+
+/**
+ * 비슷한 반려동물 조회
+ * @param {string} desertionNo 기준 동물 유기번호
+ * @param {SimilarPetsOptions} options 개수/가중치
+ * @returns 기준 동물을 찾지 못하면 null
+ */
+export async function findSimilarPets(
+  desertionNo: string,
+  { limit, weights }: SimilarPetsOptions = {}
+): Promise<SimilarPetsOutcome | null> {
+  const { animal } = await lookupAnimal(desertionNo);
+  if (!animal) return null;
+
+  const base = convertAbandonmentAnimalToPet(animal);
+  const filters = { species: [base.species] };
+  const mirrorStore = getAnimalMirrorStore();
+  const candidates = mirrorStore
+    ? await collectMirrorCandidates(mirrorStore, filters)
+    : await collectUpstreamCandidates(filters);
+
+  const candidatePets = Array.from(
+    new Map(
+      candidates.animals.map((candidate) => [candidate.desertionNo, candidate])
+    ).values()
+  )
+    .map((candidate) => convertAbandonmentAnimalToPet(candidate))
+    .filter((pet) => pet.adoptionStatus === "available");
+
+  const resolvedWeights = resolveSimilarityWeights(weights);
+  const ranked = rankSimilarPets(base, candidatePets, {
+    weights: resolvedWeights,
+    limit,
+  });
+  const rankedPets = await attachPetImageMetadata(ranked.map(({ pet }) => pet));
+
+  return {
+    result: {
+      baseId: base.id,
+      items: ranked.map((item, index) => ({ ...item, pet: rankedPets[index] })),
+      weights: resolvedWeights,
+    },
+    cacheResults: candidates.cacheResults,
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * 검색 결과 정렬 (서버 전용)
+ *
+ * 모든 SearchSortBy를 변환된 Pet 데이터 기준으로 정렬합니다.
+ * 페이지가 바뀌어도 순서가 흔들리지 않도록 마지막 기준으로 유기번호를 사용합니다.
+ */
+
+import type { AbandonmentAnimalItem } from "@/types/api";
+import type { Location } from "@/types/common";
+import type { Pet, PetSize } from "@/types/pet";
+import type { MatchScore, SearchSort } from "@/types/search";
+import { calculateDistanceKm } from "./filters";
+
+/**
+ * 정렬 대상 항목
+ */
+export interface SearchEntry {
+  animal: AbandonmentAnimalItem;
+  pet: Pet;
+  relevanceScore?: number;
+  /** 사용자 정보가 있을 때의 매칭 점수 */
+  matchScore?: MatchScore;
+  /** 기준 좌표와의 거리 (km, 양쪽 좌표가 있을 때만) */
+  distance?: number;
+  /** 좌표가 없을 때 사용하는 지역 근접도 (0: 같은 시군구, 1: 같은 시도, 2: 그 외) */
+  regionRank: number;
+}
+
+type Comparator = (a: SearchEntry, b: SearchEntry) => number;
+
+/**
+ * 크기 정렬 순서
+ */
+const SIZE_ORDER: Record<PetSize, number> = {
+  "extra-small": 0,
+  small: 1,
+  medium: 2,
+  large: 3,
+  "extra-large": 4,
+};
+
+/**
+ * 텍스트 정규화 (공백 제거)
+ */
+function normalize(text?: string | null): string {
+  return (text || "").replace(/\s+/g, "");
+}
+
+/**
+ * 기준 위치와의 거리/지역 근접도 계산
+ *
+ * 양쪽 좌표가 있으면 실제 거리를, 없으면 시도/시군구 이름 일치 여부로 근접도를 구합니다.
+ * @param {Pet} pet 반려동물
+ * @param {Location | undefined} origin 기준 위치
+ */
+export function resolveProximity(
+  pet: Pet,
+  origin?: Location
+): Pick<SearchEntry, "distance" | "regionRank"> {
+  if (!origin) return { regionRank: 2 };
+
+  const distance =
+    origin.coordinates && pet.location.coordinates
+      ? calculateDistanceKm(origin.coordinates, pet.location.coordinates)
+      : undefined;
+
+  const petRegion = normalize(
+    [pet.location.city, pet.location.district, pet.location.address].join(" ")
+  );
+  const city = normalize(origin.city);
+  const district = normalize(origin.district);
+  const regionRank =
+    city && petRegion.includes(city)
+      ? district && petRegion.includes(district)
+        ? 0
+        : 1
+      : 2;
+
+  return { distance, regionRank };
+}
+
+/**
+ * 나이(개월 수)
+ */
+function ageInMonths(pet: Pet): number {
+  return pet.age.years * 12 + pet.age.months;
+}
+
+const byNoticeDesc: Comparator = (a, b) =>
+  (b.animal.noticeSdt || "").localeCompare(a.animal.noticeSdt || "") ||
+  (b.animal.happenDt || "").localeCompare(a.animal.happenDt || "");
+
+const byNoticeAsc: Comparator = (a, b) =>
+  (a.animal.noticeSdt || "").localeCompare(b.animal.noticeSdt || "") ||
+  (a.animal.happenDt || "").localeCompare(b.animal.happenDt || "");
+
+const byAgeAsc: Comparator = (a, b) => ageInMonths(a.pet) - ageInMonths(b.pet);
+
+const bySizeAsc: Comparator = (a, b) =>
+  SIZE_ORDER[a.pet.size] - SIZE_ORDER[b.pet.size] ||
+  (a.pet.weight ?? 0) - (b.pet.weight ?? 0);
+
+const byFeeAsc: Comparator = (a, b) =>
+  (a.pet.adoptionFee ?? 0) - (b.pet.adoptionFee ?? 0);
+
+const byNameAsc: Comparator = (a, b) => a.pet.name.localeCompare(b.pet.name, "ko");
+
+const byRelevanceAsc: Comparator = (a, b) =>
+  (a.relevanceScore ?? 0) - (b.relevanceScore ?? 0);
+
+const byMatchDesc: Comparator = (a, b) =>
+  (b.matchScore?.overall ?? 0) - (a.matchScore?.overall ?? 0);
+
+/**
+ * 거리 오름차순 (거리를 아는 항목 우선, 그다음 지역 근접도)
+ */
+const byDistanceAsc: Comparator = (a, b) => {
+  if (a.distance !== undefined && b.distance !== undefined) {
+    return a.distance - b.distance;
+  }
+  if (a.distance !== undefined) return -1;
+  if (b.distance !== undefined) return 1;
+  return a.regionRank - b.regionRank;
+};
+
+/**
+ * 비교 함수 방향 반전
+ */
+function reverse(comparator: Comparator): Comparator {
+  return (a, b) => comparator(b, a);
+}
+
+/**
+ * 정렬 기준별 비교 함수
+ *
+ * 짝이 있는 기준(newest/oldest 등)과 맞춤 추천(match)은 기준 자체가 방향을 정하고,
+ * relevance/distance/name은 SearchSort.direction을 따릅니다.
+ */
+function getComparator(sort: SearchSort): Comparator {
+  const descending = sort.direction === "desc";
+
+  switch (sort.sortBy) {
+    case "newest":
+      return byNoticeDesc;
+    case "oldest":
+      return byNoticeAsc;
+    case "age-young":
+      return byAgeAsc;
+    case "age-old":
+      return reverse(byAgeAsc);
+    case "size-small":
+      return bySizeAsc;
+    case "size-large":
+      return reverse(bySizeAsc);
+    case "fee-low":
+      return byFeeAsc;
+    case "fee-high":
+      return reverse(byFeeAsc);
+    case "match":
+      return byMatchDesc;
+    case "name":
+      return descending ? reverse(byNameAsc) : byNameAsc;
+    case "distance":
+      return descending ? reverse(byDistanceAsc) : byDistanceAsc;
+    case "relevance":
+    default:
+      return descending ? reverse(byRelevanceAsc) : byRelevanceAsc;
+  }
+}
+
+/**
+ * 검색 결과 정렬 (최신 공고 → 유기번호 순으로 동점 처리)
+ * @param {SearchEntry[]} entries 정렬 대상
+ * @param {SearchSort} sort 정렬 설정
+ */
+export function sortSearchEntries(
+  entries: SearchEntry[],
+  sort: SearchSort
+): SearchEntry[] {
+  const comparator = getComparator(sort);
+
+  return [...entries].sort(
+    (a, b) =>
+      comparator(a, b) ||
+      byNoticeDesc(a, b) ||
+      a.pet.id.localeCompare(b.pet.id)
+  );
+}
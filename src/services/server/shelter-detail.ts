@@ -0,0 +1,119 @@
+/**
+ * 보호소 상세 (서버 전용)
+ *
+ * 공공데이터는 보호소 연락처/주소를 동물 공고에만 담아 제공하므로,
+ * 보호소 코드(care_reg_no)로 최근 LOOKBACK_DAYS 이내 접수 건을 조회해
+ * 보호소 정보, 구분별 동물 목록, 입소/종료 통계를 구성합니다.
+ */
+
+import type {
+  AbandonmentAnimalItem,
+  ShelterAnimalGroup,
+  ShelterDetail,
+} from "@/types/api";
+import { SHELTER_DETAIL_SETTINGS } from "@/utils/constants/api";
+import { addKstDays, getKstDateString } from "@/services/api/notice-deadline";
+import {
+  classifyShelterAnimal,
+  summarizeShelterAnimals,
+} from "@/services/api/shelter-summary";
+import type { CachedResult } from "./cache";
+import {
+  fetchFromPublicAPICached,
+  PUBLIC_API_ENDPOINTS,
+} from "./public-data-client";
+import { extractAnimalRecords } from "./animal-records";
+import { animalIndex } from "./animal-index";
+
+/**
+ * 보호소 상세 조회 결과
+ */
+export interface ShelterDetailOutcome {
+  detail: Omit<ShelterDetail, "images">;
+  cacheResults: CachedResult<unknown>[];
+}
+
+/**
+ * 보호소 상세 조회
+ *
+ * 집계 기간 내 접수 건이 없으면 보호소 정보 필드가 비어 있는 결과를 반환합니다.
+ * @param {string} careRegNo 보호소 번호
+ */
+export async function findShelterDetail(
+  careRegNo: string
+): Promise<ShelterDetailOutcome> {
+  const now = new Date();
+  const pageSize = SHELTER_DETAIL_SETTINGS.UPSTREAM_PAGE_SIZE;
+  const params = {
+    care_reg_no: careRegNo,
+    bgnde: addKstDays(-SHELTER_DETAIL_SETTINGS.LOOKBACK_DAYS, now),
+    endde: getKstDateString(now),
+  };
+  const collected = new Map<string, AbandonmentAnimalItem>();
+  const cacheResults: CachedResult<unknown>[] = [];
+  let complete = false;
+
+  for (
+    let upstreamPage = 1;
+    upstreamPage <= SHELTER_DETAIL_SETTINGS.MAX_UPSTREAM_REQUESTS;
+    upstreamPage++
+  ) {
+    const cached = await fetchFromPublicAPICached<AbandonmentAnimalItem>(
+      PUBLIC_API_ENDPOINTS.ANIMALS,
+      { ...params, pageNo: upstreamPage, numOfRows: pageSize }
+    );
+    cacheResults.push(cached);
+
+    const { animals, received } = extractAnimalRecords(cached.value);
+    animalIndex.remember(animals);
+    // 업스트림이 보호소 필터를 무시하는 경우에 대비해 한 번 더 확인
+    animals
+      .filter((animal) => animal.careRegNo === careRegNo)
+      .forEach((animal) => collected.set(animal.desertionNo, animal));
+
+    const totalCount = cached.value.response.body.totalCount || 0;
+    if (received < pageSize || upstreamPage * pageSize >= totalCount) {
+      complete = true;
+      break;
+    }
+  }
+
+  const animals = Array.from(collected.values()).sort(
+    (a, b) =>
+      b.happenDt.localeCompare(a.happenDt) ||
+      b.desertionNo.localeCompare(a.desertionNo)
+  );
+  const grouped: Record<ShelterAnimalGroup, AbandonmentAnimalItem[]> = {
+    notice: [],
+    protect: [],
+    ended: [],
+  };
+  animals.forEach((animal) => {
+    const group = grouped[classifyShelterAnimal(animal, now)];
+    if (group.length < SHELTER_DETAIL_SETTINGS.MAX_ANIMALS_PER_GROUP) {
+      group.push(animal);
+    }
+  });
+
+  // 가장 최근 공고의 보호소 정보를 사용 (연락처 변경 반영)
+  const latest = animals[0];
+
+  return {
+    detail: {
+      careRegNo,
+      careNm: latest?.careNm ?? "",
+      careTel: latest?.careTel || undefined,
+      careAddr: latest?.careAddr || undefined,
+      orgNm: latest?.orgNm || undefined,
+      careOwnerNm: latest?.careOwnerNm || undefined,
+      stats: summarizeShelterAnimals(
+        animals,
+        SHELTER_DETAIL_SETTINGS.LOOKBACK_DAYS,
+        now
+      ),
+      animals: grouped,
+      totalCountExact: complete,
+    },
+    cacheResults,
+  };
+}
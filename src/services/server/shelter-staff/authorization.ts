@@ -0,0 +1,54 @@
+/**
+ * 보호소 직원 권한 확인 (서버 전용)
+ *
+ * 직원은 소속된 보호소(careRegNo)의 입양 신청만 조회/처리할 수 있습니다.
+ */
+
+import type { NextRequest } from "next/server";
+import type { AdoptionApplication } from "@/types/pet";
+import { AuthorizationError, NotFoundError } from "@/services/api/api-errors";
+import { requireRequestUserId } from "../request-identity";
+import type { ShelterStaffContext, ShelterStaffRepository } from "./types";
+
+/**
+ * 요청자가 보호소 직원인지 확인
+ *
+ * 로그인하지 않았으면 AuthenticationError, 관리자가 확인한 소속 보호소가 없으면 AuthorizationError를 던집니다.
+ * @param {NextRequest} request 요청
+ * @param {ShelterStaffRepository} repository 보호소 직원 소속 저장소
+ */
+export async function requireShelterStaff(
+  request: NextRequest,
+  repository: ShelterStaffRepository
+): Promise<ShelterStaffContext> {
+  const userId = await requireRequestUserId(request);
+  const memberships = (await repository.listByUser(userId)).filter(
+    (membership) => membership.status === "verified"
+  );
+
+  if (memberships.length === 0) {
+    throw new AuthorizationError("보호소 직원만 이용할 수 있습니다.");
+  }
+
+  return {
+    userId,
+    memberships,
+    careRegNos: memberships.map((membership) => membership.careRegNo),
+  };
+}
+
+/**
+ * 소속 보호소의 신청인지 확인
+ *
+ * 다른 보호소의 신청은 존재 여부를 드러내지 않도록 찾을 수 없음으로 처리합니다.
+ * @param {ShelterStaffContext} staff 보호소 직원
+ * @param {AdoptionApplication | null} application 입양 신청
+ */
+export function assertShelterApplicationAccess(
+  staff: ShelterStaffContext,
+  application: AdoptionApplication | null
+): asserts application is AdoptionApplication {
+  if (!application || !staff.careRegNos.includes(application.pet.careRegNo)) {
+    throw new NotFoundError("입양 신청을 찾을 수 없습니다.");
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * 보호소 직원 (서버 전용)
+ *
+ * SHELTER_STAFF_STORE 환경변수로 저장소를 선택합니다.
+ * - supabase: shelter_staff 테이블 (SUPABASE_SERVICE_ROLE_KEY 필요)
+ * - memory: SHELTER_STAFF_MEMBERS 환경변수의 소속 목록 (확인 완료 상태, 개발/테스트용, 기본값)
+ *
+ * 신청 검토 API는 middleware가 review:applications 권한을 먼저 확인하므로,
+ * 환경변수로 등록한 직원 계정도 app_metadata.role이 shelter(또는 admin)여야 합니다.
+ */
+
+import { getSupabaseAdminClient } from "../supabase-admin";
+import {
+  createMemoryShelterStaffRepository,
+  parseShelterStaffMembers,
+} from "./memory-repository";
+import { createSupabaseShelterStaffRepository } from "./supabase-repository";
+import type { ShelterStaffRepository } from "./types";
+
+export * from "./types";
+export {
+  createMemoryShelterStaffRepository,
+  parseShelterStaffMembers,
+} from "./memory-repository";
+export { createSupabaseShelterStaffRepository } from "./supabase-repository";
+export {
+  requireShelterStaff,
+  assertShelterApplicationAccess,
+} from "./authorization";
+export { requestShelterMembership } from "./membership-service";
+
+let staffRepository: ShelterStaffRepository | undefined;
+
+/**
+ * 환경변수 기반 보호소 직원 소속 저장소 생성
+ */
+function createShelterStaffRepositoryFromEnv(): ShelterStaffRepository {
+  if (process.env.SHELTER_STAFF_STORE === "supabase") {
+    const client = getSupabaseAdminClient();
+    if (client) return createSupabaseShelterStaffRepository(client);
+
+    console.error(
+      "보호소 직원 저장소로 supabase가 지정되었지만 SUPABASE_SERVICE_ROLE_KEY가 없습니다. 메모리 저장소를 사용합니다."
+    );
+  }
+  return createMemoryShelterStaffRepository(
+    parseShelterStaffMembers(process.env.SHELTER_STAFF_MEMBERS)
+  );
+}
+
+/**
+ * 보호소 직원 소속 저장소 조회
+ */
+export function getShelterStaffRepository(): ShelterStaffRepository {
+  if (!staffRepository) {
+    staffRepository = createShelterStaffRepositoryFromEnv();
+  }
+  return staffRepository;
+}
+
+/**
+ * 보호소 직원 소속 저장소 교체
+ * @param {ShelterStaffRepository} repository 보호소 직원 소속 저장소
+ */
+export function configureShelterStaffRepository(
+  repository: ShelterStaffRepository
+) {
+  staffRepository = repository;
+}
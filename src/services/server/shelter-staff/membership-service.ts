@@ -0,0 +1,48 @@
+/**
+ * 보호소 직원 소속 신청 서비스 (서버 전용)
+ *
+ * 사용자가 보호소 소속을 신청하면 관리자가 확인한 뒤에 업무 공간을 이용할 수 있습니다.
+ */
+
+import { ValidationApiError } from "@/services/api/api-errors";
+import type { ShelterStaffMembership, ShelterStaffRepository } from "./types";
+
+const CARE_REG_NO_PATTERN = /^[0-9A-Za-z-]{1,30}$/;
+const CARE_NM_MAX_LENGTH = 100;
+
+/**
+ * 보호소 소속 신청
+ * @param {ShelterStaffRepository} repository 보호소 직원 소속 저장소
+ * @param {object} input 신청 내용
+ * @param {string} input.userId 신청자 ID
+ * @param {string} input.careRegNo 보호소 번호
+ * @param {string} input.careNm 보호소명
+ */
+export async function requestShelterMembership(
+  repository: ShelterStaffRepository,
+  input: { userId: string; careRegNo: string; careNm: string }
+): Promise<ShelterStaffMembership> {
+  const careRegNo = input.careRegNo.trim();
+  const careNm = input.careNm.trim();
+
+  if (!CARE_REG_NO_PATTERN.test(careRegNo)) {
+    throw new ValidationApiError("보호소 번호 형식이 올바르지 않습니다.", "careRegNo");
+  }
+  if (!careNm || careNm.length > CARE_NM_MAX_LENGTH) {
+    throw new ValidationApiError(
+      `보호소명은 1~${CARE_NM_MAX_LENGTH}자로 입력해주세요.`,
+      "careNm"
+    );
+  }
+
+  const membership: ShelterStaffMembership = {
+    userId: input.userId,
+    careRegNo,
+    careNm,
+    status: "pending",
+    requestedAt: new Date().toISOString(),
+  };
+  await repository.request(membership);
+
+  return membership;
+}
@@ -0,0 +1,105 @@
+/**
+ * 메모리 보호소 직원 소속 저장소 (서버 전용)
+ *
+ * 개발/테스트용 저장소입니다.
+ */
+
+import { ConflictError } from "@/services/api/api-errors";
+import type {
+  ShelterStaffMembership,
+  ShelterStaffQuery,
+  ShelterStaffRepository,
+} from "./types";
+
+/**
+ * SHELTER_STAFF_MEMBERS 환경변수 파싱
+ *
+ * 형식: "사용자ID:보호소번호:보호소명" 항목을 쉼표로 구분 (보호소명 생략 가능)
+ * 환경변수로 등록한 소속은 확인 완료 상태로 취급합니다.
+ * @param {string} value 환경변수 값
+ */
+export function parseShelterStaffMembers(value?: string): ShelterStaffMembership[] {
+  const requestedAt = new Date().toISOString();
+
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim().split(":"))
+    .filter(([userId, careRegNo]) => userId && careRegNo)
+    .map(([userId, careRegNo, careNm]) => ({
+      userId,
+      careRegNo,
+      careNm: careNm ?? "",
+      status: "verified" as const,
+      requestedAt,
+      reviewedAt: requestedAt,
+    }));
+}
+
+/**
+ * 소속 키 (사용자 ID + 보호소 번호)
+ */
+function membershipKey(userId: string, careRegNo: string): string {
+  return `${userId}:${careRegNo}`;
+}
+
+/**
+ * 조회 조건 일치 여부
+ */
+function matchesQuery(
+  membership: ShelterStaffMembership,
+  query: ShelterStaffQuery
+): boolean {
+  if (query.userId && membership.userId !== query.userId) return false;
+  if (query.careRegNo && membership.careRegNo !== query.careRegNo) return false;
+  if (query.statuses && !query.statuses.includes(membership.status)) return false;
+  return true;
+}
+
+/**
+ * 메모리 보호소 직원 소속 저장소 생성
+ * @param {ShelterStaffMembership[]} memberships 소속 목록
+ */
+export function createMemoryShelterStaffRepository(
+  memberships: ShelterStaffMembership[] = []
+): ShelterStaffRepository {
+  const store = new Map<string, ShelterStaffMembership>(
+    memberships.map((membership) => [
+      membershipKey(membership.userId, membership.careRegNo),
+      { ...membership },
+    ])
+  );
+
+  const list = async (query: ShelterStaffQuery) =>
+    Array.from(store.values())
+      .filter((membership) => matchesQuery(membership, query))
+      .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt))
+      .map((membership) => ({ ...membership }));
+
+  return {
+    listByUser: (userId) => list({ userId }),
+
+    list,
+
+    request: async (membership) => {
+      const key = membershipKey(membership.userId, membership.careRegNo);
+      const existing = store.get(key);
+      if (existing && existing.status !== "revoked") {
+        throw new ConflictError("이미 소속을 신청한 보호소입니다.", {
+          status: existing.status,
+        });
+      }
+
+      store.set(key, { ...membership });
+    },
+
+    updateStatus: async (userId, careRegNo, expectedStatus, patch) => {
+      const key = membershipKey(userId, careRegNo);
+      const membership = store.get(key);
+      if (!membership || membership.status !== expectedStatus) return null;
+
+      const updated = { ...membership, ...patch };
+      store.set(key, updated);
+      return { ...updated };
+    },
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Supabase 보호소 직원 소속 저장소 (서버 전용)
+ *
+ * supabase/migrations의 shelter_staff 테이블을 서비스 롤로 사용합니다.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ConflictError } from "@/services/api/api-errors";
+import type {
+  ShelterStaffMembership,
+  ShelterStaffRepository,
+  ShelterStaffStatus,
+} from "./types";
+
+const STAFF_TABLE = "shelter_staff";
+
+/**
+ * shelter_staff 행
+ */
+interface ShelterStaffRow {
+  user_id: string;
+  care_reg_no: string;
+  care_nm: string;
+  status: ShelterStaffStatus;
+  requested_at: string;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+}
+
+/**
+ * Supabase 오류를 Error로 변환하여 throw
+ */
+function assertNoError(error: { message: string } | null, action: string) {
+  if (error) {
+    throw new Error(`보호소 직원 소속 ${action} 실패: ${error.message}`);
+  }
+}
+
+/**
+ * 행을 소속으로 변환
+ */
+function fromRow(row: ShelterStaffRow): ShelterStaffMembership {
+  return {
+    userId: row.user_id,
+    careRegNo: row.care_reg_no,
+    careNm: row.care_nm,
+    status: row.status,
+    requestedAt: row.requested_at,
+    reviewedAt: row.reviewed_at ?? undefined,
+    reviewedBy: row.reviewed_by ?? undefined,
+  };
+}
+
+/**
+ * Supabase 보호소 직원 소속 저장소 생성
+ * @param {SupabaseClient} client 서비스 롤 Supabase 클라이언트
+ */
+export function createSupabaseShelterStaffRepository(
+  client: SupabaseClient
+): ShelterStaffRepository {
+  return {
+    listByUser: async (userId) => {
+      const { data, error } = await client
+        .from(STAFF_TABLE)
+        .select("*")
+        .eq("user_id", userId)
+        .order("requested_at", { ascending: false });
+      assertNoError(error, "조회");
+
+      return ((data ?? []) as ShelterStaffRow[]).map(fromRow);
+    },
+
+    list: async (query) => {
+      let request = client.from(STAFF_TABLE).select("*");
+      if (query.userId) request = request.eq("user_id", query.userId);
+      if (query.careRegNo) request = request.eq("care_reg_no", query.careRegNo);
+      if (query.statuses) request = request.in("status", query.statuses);
+
+      const { data, error } = await request.order("requested_at", {
+        ascending: false,
+      });
+      assertNoError(error, "목록 조회");
+
+      return ((data ?? []) as ShelterStaffRow[]).map(fromRow);
+    },
+
+    request: async (membership) => {
+      const { data: existing, error: selectError } = await client
+        .from(STAFF_TABLE)
+        .select("status")
+        .eq("user_id", membership.userId)
+        .eq("care_reg_no", membership.careRegNo)
+        .maybeSingle();
+      assertNoError(selectError, "조회");
+
+      if (existing && existing.status !== "revoked") {
+        throw new ConflictError("이미 소속을 신청한 보호소입니다.", {
+          status: existing.status,
+        });
+      }
+
+      const row: ShelterStaffRow = {
+        user_id: membership.userId,
+        care_reg_no: membership.careRegNo,
+        care_nm: membership.careNm,
+        status: membership.status,
+        requested_at: membership.requestedAt,
+        reviewed_at: membership.reviewedAt ?? null,
+        reviewed_by: membership.reviewedBy ?? null,
+      };
+      const { error } = await client
+        .from(STAFF_TABLE)
+        .upsert(row, { onConflict: "user_id,care_reg_no" });
+      assertNoError(error, "신청 저장");
+    },
+
+    updateStatus: async (userId, careRegNo, expectedStatus, patch) => {
+      const { data, error } = await client
+        .from(STAFF_TABLE)
+        .update({
+          status: patch.status,
+          reviewed_at: patch.reviewedAt ?? null,
+          reviewed_by: patch.reviewedBy ?? null,
+        })
+        .eq("user_id", userId)
+        .eq("care_reg_no", careRegNo)
+        .eq("status", expectedStatus)
+        .select("*")
+        .maybeSingle();
+      assertNoError(error, "상태 변경");
+
+      return data ? fromRow(data as ShelterStaffRow) : null;
+    },
+  };
+}
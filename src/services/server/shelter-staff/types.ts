@@ -0,0 +1,60 @@
+/**
+ * 보호소 직원 소속 타입 정의 (서버 전용)
+ */
+
+import type { ShelterStaffMembership, ShelterStaffStatus } from "@/types/api";
+
+export type { ShelterStaffMembership, ShelterStaffStatus };
+
+/**
+ * 소속 조회 조건 (지정한 조건은 모두 AND)
+ */
+export interface ShelterStaffQuery {
+  userId?: string;
+  careRegNo?: string;
+  statuses?: ShelterStaffStatus[];
+}
+
+/**
+ * 소속 상태 변경 내용
+ */
+export type ShelterStaffReviewPatch = Pick<
+  ShelterStaffMembership,
+  "status" | "reviewedAt" | "reviewedBy"
+>;
+
+/**
+ * 보호소 직원 소속 저장소 인터페이스
+ */
+export interface ShelterStaffRepository {
+  /** 사용자의 소속 목록 (모든 상태) */
+  listByUser(userId: string): Promise<ShelterStaffMembership[]>;
+  /** 조건별 조회 (최근 신청 순) */
+  list(query: ShelterStaffQuery): Promise<ShelterStaffMembership[]>;
+  /**
+   * 소속 신청 저장
+   *
+   * 확인 대기/완료된 소속이 이미 있으면 ConflictError를 던지고, 거절/해제된 소속은 다시 신청할 수 있습니다.
+   */
+  request(membership: ShelterStaffMembership): Promise<void>;
+  /**
+   * 소속 상태 변경
+   *
+   * 현재 상태가 expectedStatus일 때만 변경하며, 그 사이 다른 요청이 상태를 바꿨으면 null을 반환합니다.
+   */
+  updateStatus(
+    userId: string,
+    careRegNo: string,
+    expectedStatus: ShelterStaffStatus,
+    patch: ShelterStaffReviewPatch
+  ): Promise<ShelterStaffMembership | null>;
+}
+
+/**
+ * 인증된 보호소 직원 (요청 단위, 확인 완료된 소속만 포함)
+ */
+export interface ShelterStaffContext {
+  userId: string;
+  memberships: ShelterStaffMembership[];
+  careRegNos: string[];
+}
@@ -0,0 +1,52 @@
+/**
+ * Supabase 서버 클라이언트 (서버 전용)
+ *
+ * 서비스 롤 키를 사용하므로 Route Handler 등 서버 코드에서만 사용합니다.
+ * 액세스 토큰 확인처럼 서비스 롤 권한이 필요 없는 작업은 익명 키 클라이언트를 사용합니다.
+ */
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { EXTERNAL_SERVICES } from "@/utils/constants";
+
+let adminClient: SupabaseClient | null = null;
+let anonClient: SupabaseClient | null = null;
+
+/**
+ * 서비스 롤 Supabase 클라이언트 조회
+ *
+ * URL이나 서비스 롤 키가 설정되지 않았으면 null을 반환합니다.
+ */
+export function getSupabaseAdminClient(): SupabaseClient | null {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!EXTERNAL_SERVICES.SUPABASE_URL || !serviceRoleKey) return null;
+
+  if (!adminClient) {
+    adminClient = createClient(EXTERNAL_SERVICES.SUPABASE_URL, serviceRoleKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    });
+  }
+  return adminClient;
+}
+
+/**
+ * 익명 키 Supabase 클라이언트 조회 (세션을 저장하지 않는 서버용)
+ *
+ * URL이나 익명 키가 설정되지 않았으면 null을 반환합니다.
+ */
+export function getSupabaseAnonClient(): SupabaseClient | null {
+  const { SUPABASE_URL, SUPABASE_ANON_KEY } = EXTERNAL_SERVICES;
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) return null;
+
+  if (!anonClient) {
+    anonClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    });
+  }
+  return anonClient;
+}
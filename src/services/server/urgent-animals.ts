@@ -0,0 +1,115 @@
+/**
+ * 공고 마감 임박 피드 (서버 전용)
+ *
+ * 공고중인 동물 중 공고 종료일까지 남은 일수가 withinDays 이하인 동물을
+ * 마감이 가까운 순으로 반환합니다. 공고 기간은 접수일 이후에 시작하므로
+ * 최근 LOOKBACK_DAYS 이내 접수 건만 제한된 횟수로 스캔합니다.
+ */
+
+import type { AbandonmentAnimalItem } from "@/types/api";
+import { URGENT_FEED_SETTINGS } from "@/utils/constants/api";
+import {
+  addKstDays,
+  calculateNoticeDaysRemaining,
+  getKstDateString,
+} from "@/services/api/notice-deadline";
+import type { CachedResult } from "./cache";
+import {
+  fetchFromPublicAPICached,
+  PUBLIC_API_ENDPOINTS,
+} from "./public-data-client";
+import { extractAnimalRecords } from "./animal-records";
+import { animalIndex } from "./animal-index";
+
+/**
+ * 피드 조회 옵션
+ */
+export interface UrgentAnimalsOptions {
+  upkind?: string;
+  uprCd?: string;
+  orgCd?: string;
+  withinDays: number;
+  pageNo: number;
+  numOfRows: number;
+}
+
+/**
+ * 피드 조회 결과
+ */
+export interface UrgentAnimalsOutcome {
+  animals: AbandonmentAnimalItem[];
+  totalCount: number;
+  totalCountExact: boolean;
+  cacheResults: CachedResult<unknown>[];
+}
+
+/**
+ * 공고 마감 임박 동물 조회
+ * @param {UrgentAnimalsOptions} options 축종/지역 조건, 남은 일수 상한, 페이지
+ */
+export async function findUrgentAnimals({
+  upkind,
+  uprCd,
+  orgCd,
+  withinDays,
+  pageNo,
+  numOfRows,
+}: UrgentAnimalsOptions): Promise<UrgentAnimalsOutcome> {
+  const now = new Date();
+  const pageSize = URGENT_FEED_SETTINGS.UPSTREAM_PAGE_SIZE;
+  const params = {
+    state: "notice",
+    upkind,
+    upr_cd: uprCd,
+    org_cd: orgCd,
+    bgnde: addKstDays(-URGENT_FEED_SETTINGS.LOOKBACK_DAYS, now),
+    endde: getKstDateString(now),
+  };
+  const matched: { animal: AbandonmentAnimalItem; daysRemaining: number }[] = [];
+  const cacheResults: CachedResult<unknown>[] = [];
+  let complete = false;
+
+  for (
+    let upstreamPage = 1;
+    upstreamPage <= URGENT_FEED_SETTINGS.MAX_UPSTREAM_REQUESTS;
+    upstreamPage++
+  ) {
+    const cached = await fetchFromPublicAPICached<AbandonmentAnimalItem>(
+      PUBLIC_API_ENDPOINTS.ANIMALS,
+      { ...params, pageNo: upstreamPage, numOfRows: pageSize }
+    );
+    cacheResults.push(cached);
+
+    const { animals, received } = extractAnimalRecords(cached.value);
+    animalIndex.remember(animals);
+
+    animals.forEach((animal) => {
+      const daysRemaining = calculateNoticeDaysRemaining(animal.noticeEdt, now);
+      if (daysRemaining !== null && daysRemaining >= 0 && daysRemaining <= withinDays) {
+        matched.push({ animal, daysRemaining });
+      }
+    });
+
+    const totalCount = cached.value.response.body.totalCount || 0;
+    if (received < pageSize || upstreamPage * pageSize >= totalCount) {
+      complete = true;
+      break;
+    }
+  }
+
+  const sorted = Array.from(
+    new Map(matched.map((entry) => [entry.animal.desertionNo, entry])).values()
+  ).sort(
+    (a, b) =>
+      a.daysRemaining - b.daysRemaining ||
+      a.animal.desertionNo.localeCompare(b.animal.desertionNo)
+  );
+  const offset = (pageNo - 1) * numOfRows;
+
+  return {
+    animals: sorted.slice(offset, offset + numOfRows).map(({ animal }) => animal),
+    totalCount: sorted.length,
+    totalCountExact: complete,
+    cacheResults,
+  };
+}
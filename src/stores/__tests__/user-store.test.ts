@@ -0,0 +1,211 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { deserialize, serialize } from "node:v8";
+import type { UserFavorites } from "@/types";
+import {
+  configureUserDataRepository,
+  createDefaultUserProfile,
+  createMemoryUserDataRepository,
+  type UserDataRepository,
+} from "@/services/api/user-data";
+import { useAuthStore, type ExtendedUser } from "../auth-store";
+import { useUserStore } from "../user-store";
+
+jest.mock("@/lib/supabase", () => ({ supabase: {} }));
+
+// jsdom 환경에는 structuredClone이 없어 메모리 저장소용으로 채움
+globalThis.structuredClone ??= (value) => deserialize(serialize(value));
+
+const USER_ID = "user-1";
+const NOW = "2024-05-01T00:00:00.000Z";
+
+/**
+ * 이벤트 루프 한 바퀴 대기 (로그인 시 시작된 로드 완료 대기)
+ */
+function flushPromises(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * 메모리 저장소 연결 (overrides로 일부 메서드를 실패/지연시킴)
+ */
+function installRepository(
+  base: UserDataRepository = createMemoryUserDataRepository(),
+  overrides: Partial<UserDataRepository> = {}
+): UserDataRepository {
+  const repository = { ...base, ...overrides };
+  configureUserDataRepository(repository);
+  return repository;
+}
+
+/**
+ * 로그인 (user-store의 로그인 구독이 사용자 데이터를 불러옴)
+ */
+async function signIn(userId: string = USER_ID) {
+  useAuthStore.setState({ user: { id: userId } as ExtendedUser });
+  await flushPromises();
+}
+
+/**
+ * 관심 동물 항목
+ */
+function favorite(petId: string, userId: string): UserFavorites {
+  return { id: `favorite-${petId}`, userId, petId, createdAt: NOW, updatedAt: NOW };
+}
+
+beforeEach(async () => {
+  installRepository();
+  useAuthStore.setState({ user: null });
+  await flushPromises();
+  useUserStore.getState().reset();
+  localStorage.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("useUserStore 낙관적 업데이트", () => {
+  it("프로필은 저장이 끝나기 전에 먼저 반영한다", async () => {
+    let finishSave: () => void = () => {};
+    const base = createMemoryUserDataRepository();
+    installRepository(base, {
+      saveProfile: (profile) =>
+        new Promise((resolve) => {
+          finishSave = () => resolve(base.saveProfile(profile));
+        }),
+    });
+    await signIn();
+
+    const saving = useUserStore.getState().updateProfile({ firstName: "길동" });
+
+    expect(useUserStore.getState().profile).toMatchObject({
+      userId: USER_ID,
+      firstName: "길동",
+    });
+    expect(useUserStore.getState().isProfileLoading).toBe(true);
+
+    finishSave();
+    await saving;
+
+    expect(useUserStore.getState().isProfileLoading).toBe(false);
+    expect((await base.getProfile(USER_ID))?.firstName).toBe("길동");
+  });
+
+  it("프로필 저장에 실패하면 이전 프로필로 되돌린다", async () => {
+    const base = createMemoryUserDataRepository({
+      profiles: [{ ...createDefaultUserProfile(USER_ID, NOW), firstName: "철수" }],
+    });
+    installRepository(base, {
+      saveProfile: async () => {
+        throw new Error("프로필 저장 실패");
+      },
+    });
+    await signIn();
+
+    await expect(
+      useUserStore.getState().updateProfile({ firstName: "길동" })
+    ).rejects.toThrow("프로필 저장 실패");
+
+    expect(useUserStore.getState().profile?.firstName).toBe("철수");
+    expect(useUserStore.getState().profileError).toBe("프로필 저장 실패");
+  });
+
+  it("선호도는 바로 반영하고 저장에 실패하면 되돌린다", async () => {
+    installRepository(createMemoryUserDataRepository(), {
+      savePreferences: async () => {
+        throw new Error("선호도 저장 실패");
+      },
+    });
+    await signIn();
+    const previous = useUserStore.getState().preferences;
+
+    const saving = useUserStore.getState().updatePreferences({ preferredSpecies: ["cat"] });
+    expect(useUserStore.getState().preferences?.preferredSpecies).toEqual(["cat"]);
+
+    await expect(saving).rejects.toThrow("선호도 저장 실패");
+    expect(useUserStore.getState().preferences).toEqual(previous);
+    expect(useUserStore.getState().preferencesError).toBe("선호도 저장 실패");
+  });
+
+  it("검색 기록은 바로 추가하고 저장에 실패하면 뺀다", async () => {
+    let failSave: (error: Error) => void = () => {};
+    installRepository(createMemoryUserDataRepository(), {
+      addSearchHistory: () =>
+        new Promise((_, reject) => {
+          failSave = reject;
+        }),
+    });
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    await signIn();
+
+    const saving = useUserStore.getState().addSearchHistory("말티즈", {}, 3);
+    expect(useUserStore.getState().searchHistory.map((entry) => entry.searchQuery)).toEqual([
+      "말티즈",
+    ]);
+
+    failSave(new Error("검색 기록 저장 실패"));
+    await saving;
+
+    expect(useUserStore.getState().searchHistory).toEqual([]);
+  });
+});
+
+describe("useUserStore 로그인 시 병합", () => {
+  it("비로그인 상태에서 추가한 관심 동물을 계정 관심 목록과 합친다", async () => {
+    const repository = installRepository(
+      createMemoryUserDataRepository({
+        favorites: [favorite("pet-b", USER_ID), favorite("pet-c", USER_ID)],
+      })
+    );
+
+    await useUserStore.getState().addToFavorites("pet-a");
+    await useUserStore.getState().addToFavorites("pet-b");
+    await signIn();
+
+    const { favorites } = useUserStore.getState();
+    expect(favorites.map((fav) => fav.petId).sort()).toEqual(["pet-a", "pet-b", "pet-c"]);
+    expect(favorites.every((fav) => fav.userId === USER_ID)).toBe(true);
+    expect((await repository.listFavorites(USER_ID)).map((fav) => fav.petId).sort()).toEqual([
+      "pet-a",
+      "pet-b",
+      "pet-c",
+    ]);
+  });
+
+  it("계정으로 옮기지 못한 관심 동물은 기기에 남겨 다시 시도한다", async () => {
+    const base = createMemoryUserDataRepository({ favorites: [favorite("pet-c", USER_ID)] });
+    installRepository(base, {
+      addFavorite: async () => {
+        throw new Error("관심 목록 저장 실패");
+      },
+    });
+
+    await useUserStore.getState().addToFavorites("pet-a");
+    await signIn();
+
+    const { favorites } = useUserStore.getState();
+    expect(favorites.map((fav) => [fav.petId, fav.userId])).toEqual([
+      ["pet-a", ""],
+      ["pet-c", USER_ID],
+    ]);
+  });
+
+  it("다른 사용자로 바뀌면 이전 사용자의 데이터를 비운다", async () => {
+    installRepository(
+      createMemoryUserDataRepository({
+        profiles: [createDefaultUserProfile(USER_ID, NOW)],
+        favorites: [favorite("pet-c", USER_ID)],
+      })
+    );
+    await signIn();
+    expect(useUserStore.getState().favorites).toHaveLength(1);
+
+    await signIn("user-2");
+
+    expect(useUserStore.getState().profile?.userId).not.toBe(USER_ID);
+    expect(useUserStore.getState().favorites).toEqual([]);
+  });
+});
@@ -15,9 +15,13 @@
 import { create } from 'zustand';
 import { devtools, persist, subscribeWithSelector } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
-import type { User, UserRole, AuthProvider } from '@/types';
+import type { User, UserRole, AuthProvider, Permission } from '@/types';
 import { STORAGE_KEYS } from '@/utils/constants';
 import { supabase, signInWithSocial, signOut, type SocialProvider } from '@/lib/supabase';
+import { resolveUserRole } from '@/services/api/user-roles';
+import { getRolePermissions } from '@/services/api/permissions';
+
+export { resolveUserRole };
 
 /**
  * Progressive Profiling 단계
@@ -35,8 +39,8 @@ export interface AuthState {
   accessToken: string | null;
   refreshToken: string | null;
   
-  // 권한 정보
-  permissions: string[];
+  // 권한 정보 (역할별 권한 표 ROLE_PERMISSIONS에서 채움)
+  permissions: Permission[];
   role: UserRole | null;
   
   // Progressive Profiling 상태
@@ -96,7 +100,7 @@ export interface AuthActions {
   requireProfileCompletion: (requiredStep: ProfileCompletionStep) => boolean;
   
   // 권한 관리
-  hasPermission: (permission: string) => boolean;
+  hasPermission: (permission: Permission) => boolean;
   hasRole: (role: UserRole) => boolean;
   hasAnyRole: (roles: UserRole[]) => boolean;
   
@@ -175,7 +179,7 @@ export const useAuthStore = create<AuthStore>()(
                   username: session.user.user_metadata?.username || session.user.email?.split('@')[0] || 'user',
                   displayName: session.user.user_metadata?.full_name || session.user.user_metadata?.name || '사용자',
                   profileImage: session.user.user_metadata?.avatar_url || session.user.user_metadata?.picture,
-                  role: 'user',
+                  role: resolveUserRole(session.user.app_metadata),
                   authProvider: session.user.app_metadata?.provider as AuthProvider || 'email',
                   provider: session.user.app_metadata?.provider,
                   emailVerified: session.user.email_confirmed_at ? true : false,
@@ -194,7 +198,7 @@ export const useAuthStore = create<AuthStore>()(
                   state.isAuthenticated = true;
                   state.user = extendedUser;
                   state.role = extendedUser.role;
-                  state.permissions = ['read:profile', 'write:profile'];
+                  state.permissions = getRolePermissions(extendedUser.role);
                   state.profileCompletionStep = session.user.user_metadata?.profile_completion_step || 'basic';
                 });
 
@@ -228,7 +232,7 @@ export const useAuthStore = create<AuthStore>()(
                   email: data.user.email || '',
                   username: data.user.user_metadata?.username || email.split('@')[0],
                   displayName: data.user.user_metadata?.full_name || '사용자',
-                  role: 'user',
+                  role: resolveUserRole(data.user.app_metadata),
                   authProvider: 'email',
                   emailVerified: data.user.email_confirmed_at ? true : false,
                   phoneVerified: data.user.phone_confirmed_at ? true : false,
@@ -243,7 +247,7 @@ export const useAuthStore = create<AuthStore>()(
                   state.isAuthenticated = true;
                   state.user = extendedUser;
                   state.role = extendedUser.role;
-                  state.permissions = ['read:profile', 'write:profile'];
+                  state.permissions = getRolePermissions(extendedUser.role);
                   state.isLoading = false;
                   state.showLoginModal = false;
                 });
@@ -284,6 +288,7 @@ export const useAuthStore = create<AuthStore>()(
             set((state) => {
               state.user = user;
               state.role = user.role;
+              state.permissions = getRolePermissions(user.role ?? null);
             });
           },
 
@@ -452,7 +457,7 @@ export const useAuthStore = create<AuthStore>()(
           },
           
           // 권한 확인
-          hasPermission: (permission: string) => {
+          hasPermission: (permission: Permission) => {
             const { permissions } = get();
             return permissions.includes(permission);
           },
@@ -12,7 +12,7 @@
  */
 
 // Auth Store - 인증 및 권한 관리
-export { useAuthStore } from './auth-store';
+export { useAuthStore, resolveUserRole } from './auth-store';
 export type { AuthStore } from './auth-store';
 
 // User Store - 사용자 정보 및 프로필 관리
@@ -2,14 +2,16 @@
  * Pet 관련 클라이언트 상태 관리 스토어
  * 
  * 서버 상태는 React Query로 이동하고,
- * 클라이언트 상태만 관리합니다. (즐겨찾기, 필터 설정 등)
+ * 클라이언트 상태만 관리합니다. (필터 설정, 공고 마감 알림 등)
+ * 관심 목록(즐겨찾기)은 useUserStore에서 관리합니다.
  */
 
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
-import type { PetSpecies } from '@/types/pet';
+import type { NoticeUrgency, PetSpecies } from '@/types/pet';
 import type { Gender } from '@/types/common';
+import { STORAGE_KEYS } from '@/utils/constants';
 
 /**
  * Pet 클라이언트 상태 인터페이스
@@ -24,8 +26,10 @@ export interface PetClientState {
     keyword?: string;
   };
   
-  // 즐겨찾기 (로컬 저장소)
-  favorites: string[];
+  // 공고 마감 알림을 신청한 관심 동물 ID
+  noticeAlerts: string[];
+  // 이미 알린 긴급도 (같은 단계는 한 번만 알림)
+  notifiedNoticeAlerts: Record<string, NoticeUrgency>;
   
   // UI 상태
   selectedCategory: 'adoption' | 'posts';
@@ -39,9 +43,11 @@ export interface PetClientActions {
   setSearchFilters: (filters: Partial<PetClientState['searchFilters']>) => void;
   clearFilters: () => void;
   
-  // 즐겨찾기 관리
-  toggleFavorite: (petId: string) => void;
-  isFavorite: (petId: string) => boolean;
+  // 공고 마감 알림 관리
+  toggleNoticeAlert: (petId: string) => void;
+  removeNoticeAlert: (petId: string) => void;
+  hasNoticeAlert: (petId: string) => boolean;
+  markNoticeAlertNotified: (petId: string, urgency: NoticeUrgency) => void;
   
   // UI 상태 관리
   setSelectedCategory: (category: 'adoption' | 'posts') => void;
@@ -60,7 +66,8 @@ export type PetClientStore = PetClientState & PetClientActions;
  */
 const initialState: PetClientState = {
   searchFilters: {},
-  favorites: [],
+  noticeAlerts: [],
+  notifiedNoticeAlerts: {},
   selectedCategory: 'adoption',
 };
 
@@ -92,20 +99,34 @@ export const usePetStore = create<PetClientStore>()(
           });
         },
 
-        // 즐겨찾기 관리
-        toggleFavorite: (petId: string) => {
+        // 공고 마감 알림 관리 (관심 등록 여부는 호출하는 쪽에서 확인)
+        toggleNoticeAlert: (petId: string) => {
           set((state) => {
-            const isFavorite = state.favorites.includes(petId);
-            if (isFavorite) {
-              state.favorites = state.favorites.filter(id => id !== petId);
+            if (state.noticeAlerts.includes(petId)) {
+              state.noticeAlerts = state.noticeAlerts.filter(id => id !== petId);
+              delete state.notifiedNoticeAlerts[petId];
             } else {
-              state.favorites = [...state.favorites, petId];
+              state.noticeAlerts = [...state.noticeAlerts, petId];
             }
           });
         },
 
-        isFavorite: (petId: string) => {
-          return get().favorites.includes(petId);
+        // 관심 목록에서 해제하면 마감 알림도 함께 해제
+        removeNoticeAlert: (petId: string) => {
+          set((state) => {
+            state.noticeAlerts = state.noticeAlerts.filter(id => id !== petId);
+            delete state.notifiedNoticeAlerts[petId];
+          });
+        },
+
+        hasNoticeAlert: (petId: string) => {
+          return get().noticeAlerts.includes(petId);
+        },
+
+        markNoticeAlertNotified: (petId: string, urgency: NoticeUrgency) => {
+          set((state) => {
+            state.notifiedNoticeAlerts[petId] = urgency;
+          });
         },
 
         // UI 상태 관리
@@ -124,9 +145,21 @@ export const usePetStore = create<PetClientStore>()(
       })),
       {
         name: 'pet-client-store',
+        version: 1,
+        // v0에 저장된 즐겨찾기 ID는 useUserStore가 가져가도록 넘겨줌
+        migrate: (persistedState, version) => {
+          const { favorites, ...state } = persistedState as Partial<PetClientState> & {
+            favorites?: string[];
+          };
+          if (version === 0 && favorites?.length) {
+            localStorage.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify(favorites));
+          }
+          return state as PetClientStore;
+        },
         partialize: (state) => ({
           searchFilters: state.searchFilters,
-          favorites: state.favorites,
+          noticeAlerts: state.noticeAlerts,
+          notifiedNoticeAlerts: state.notifiedNoticeAlerts,
           selectedCategory: state.selectedCategory,
         }),
       }
@@ -23,7 +23,15 @@ import type {
   UserSearchHistory,
   AdoptionHistory 
 } from '@/types';
-import { STORAGE_KEYS } from '@/utils/constants';
+import { STORAGE_KEYS, USER_DATA_SETTINGS } from '@/utils/constants';
+import { AuthenticationError, ConflictError } from '@/services/api/api-errors';
+import {
+  createDefaultUserPreferences,
+  createDefaultUserProfile,
+  getUserDataRepository,
+} from '@/services/api/user-data';
+import { useAuthStore } from './auth-store';
+import { usePetStore } from './pet-store';
 
 /**
  * 사용자 상태 인터페이스
@@ -76,6 +84,7 @@ export interface UserActions {
   loadFavorites: () => Promise<void>;
   addToFavorites: (petId: Id, notes?: string) => Promise<void>;
   removeFromFavorites: (favoriteId: Id) => Promise<void>;
+  toggleFavorite: (petId: Id) => Promise<void>;
   updateFavoriteNotes: (favoriteId: Id, notes: string) => Promise<void>;
   isFavorite: (petId: Id) => boolean;
   
@@ -84,9 +93,8 @@ export interface UserActions {
   addSearchHistory: (query: string, filters: Record<string, any>, resultCount: number) => Promise<void>;
   clearSearchHistory: () => Promise<void>;
   
-  // 입양 히스토리 관리
+  // 입양 히스토리 조회 (기록은 서버나 보호소 직원이 남김)
   loadAdoptionHistory: () => Promise<void>;
-  addAdoptionHistory: (petId: Id, adoptionDate: string, status: string) => Promise<void>;
   
   // 온보딩 관리
   startOnboarding: () => void;
@@ -141,6 +149,22 @@ const initialState: UserState = {
   showProfileCompleteModal: false,
 };
 
+/**
+ * 로그인 사용자 ID (비로그인 시 null)
+ */
+function getCurrentUserId(): Id | null {
+  return useAuthStore.getState().user?.id ?? null;
+}
+
+/**
+ * 로그인 사용자 ID (비로그인 시 AuthenticationError)
+ */
+function requireCurrentUserId(): Id {
+  const userId = getCurrentUserId();
+  if (!userId) throw new AuthenticationError();
+  return userId;
+}
+
 /**
  * 사용자 상태 관리 스토어
  */
@@ -153,53 +177,19 @@ export const useUserStore = create<UserStore>()(
           
           // 프로필 로드
           loadProfile: async () => {
+            const userId = getCurrentUserId();
+            if (!userId) return;
+            
             set((state) => {
               state.isProfileLoading = true;
               state.profileError = null;
             });
             
             try {
-              // TODO: API 호출 구현
-              // const profile = await userApi.getProfile();
-              
-              // 임시 모의 데이터
-              const mockProfile: UserProfile = {
-                id: '1',
-                userId: '1',
-                firstName: '홍',
-                lastName: '길동',
-                location: {
-                  city: '서울',
-                  district: '강남구',
-                },
-                livingSpace: 'apartment',
-                hasYard: false,
-                hasOtherPets: false,
-                householdSize: 2,
-                hasChildren: false,
-                petExperience: 'beginner',
-                timeAvailable: 'medium',
-                activityLevel: 'medium',
-                budget: {
-                  monthly: 200000,
-                  initial: 500000,
-                },
-                contactPreferences: {
-                  email: true,
-                  sms: true,
-                  push: true,
-                },
-                privacySettings: {
-                  showProfile: true,
-                  showLocation: false,
-                  allowMessages: true,
-                },
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-              };
+              const profile = await getUserDataRepository().getProfile(userId);
               
               set((state) => {
-                state.profile = mockProfile;
+                state.profile = profile;
                 state.isProfileLoading = false;
               });
               
@@ -212,27 +202,35 @@ export const useUserStore = create<UserStore>()(
             }
           },
           
-          // 프로필 업데이트
+          // 프로필 업데이트 (낙관적 업데이트, 실패 시 이전 프로필로 되돌림)
           updateProfile: async (profileData: Partial<UserProfile>) => {
+            const userId = requireCurrentUserId();
+            const previous = get().profile;
+            const now = new Date().toISOString();
+            const nextProfile: UserProfile = {
+              ...(previous ?? createDefaultUserProfile(userId, now)),
+              ...profileData,
+              userId,
+              updatedAt: now,
+            };
+            
             set((state) => {
+              state.profile = nextProfile;
               state.isProfileLoading = true;
               state.profileError = null;
             });
             
             try {
-              // TODO: API 호출 구현
-              // const updatedProfile = await userApi.updateProfile(profileData);
+              const savedProfile = await getUserDataRepository().saveProfile(nextProfile);
               
               set((state) => {
-                if (state.profile) {
-                  Object.assign(state.profile, profileData);
-                  state.profile.updatedAt = new Date().toISOString();
-                }
+                state.profile = savedProfile;
                 state.isProfileLoading = false;
               });
               
             } catch (error: any) {
               set((state) => {
+                state.profile = previous;
                 state.isProfileLoading = false;
                 state.profileError = error.message || '프로필 업데이트에 실패했습니다.';
               });
@@ -242,46 +240,19 @@ export const useUserStore = create<UserStore>()(
           
           // 선호도 로드
           loadPreferences: async () => {
+            const userId = getCurrentUserId();
+            if (!userId) return;
+            
             set((state) => {
               state.isPreferencesLoading = true;
               state.preferencesError = null;
             });
             
             try {
-              // TODO: API 호출 구현
-              // const preferences = await userApi.getPreferences();
-              
-              // 임시 모의 데이터
-              const mockPreferences: UserPreferences = {
-                id: '1',
-                userId: '1',
-                preferredSpecies: ['dog'],
-                preferredSizes: ['small', 'medium'],
-                preferredAgeGroups: ['young', 'adult'],
-                preferredPersonalities: ['friendly', 'calm'],
-                searchRadius: 20,
-                maxAdoptionFee: 300000,
-                notifications: {
-                  newMatches: true,
-                  priceDrops: true,
-                  applicationUpdates: true,
-                  careReminders: true,
-                  newsletter: false,
-                },
-                requirements: {
-                  mustBeHouseTrained: true,
-                  mustBeSpayedNeutered: true,
-                  mustBeVaccinated: true,
-                  goodWithChildren: false,
-                  goodWithOtherPets: false,
-                  noSpecialNeeds: false,
-                },
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-              };
+              const preferences = await getUserDataRepository().getPreferences(userId);
               
               set((state) => {
-                state.preferences = mockPreferences;
+                state.preferences = preferences;
                 state.isPreferencesLoading = false;
               });
               
@@ -294,27 +265,35 @@ export const useUserStore = create<UserStore>()(
             }
           },
           
-          // 선호도 업데이트
+          // 선호도 업데이트 (낙관적 업데이트, 실패 시 이전 선호도로 되돌림)
           updatePreferences: async (preferencesData: Partial<UserPreferences>) => {
+            const userId = requireCurrentUserId();
+            const previous = get().preferences;
+            const now = new Date().toISOString();
+            const nextPreferences: UserPreferences = {
+              ...(previous ?? createDefaultUserPreferences(userId, now)),
+              ...preferencesData,
+              userId,
+              updatedAt: now,
+            };
+            
             set((state) => {
+              state.preferences = nextPreferences;
               state.isPreferencesLoading = true;
               state.preferencesError = null;
             });
             
             try {
-              // TODO: API 호출 구현
-              // const updatedPreferences = await userApi.updatePreferences(preferencesData);
+              const savedPreferences = await getUserDataRepository().savePreferences(nextPreferences);
               
               set((state) => {
-                if (state.preferences) {
-                  Object.assign(state.preferences, preferencesData);
-                  state.preferences.updatedAt = new Date().toISOString();
-                }
+                state.preferences = savedPreferences;
                 state.isPreferencesLoading = false;
               });
               
             } catch (error: any) {
               set((state) => {
+                state.preferences = previous;
                 state.isPreferencesLoading = false;
                 state.preferencesError = error.message || '선호도 업데이트에 실패했습니다.';
               });
@@ -322,19 +301,37 @@ export const useUserStore = create<UserStore>()(
             }
           },
           
-          // 관심 목록 로드
+          // 관심 목록 로드 (비로그인 상태에서 추가한 항목은 계정으로 옮김)
           loadFavorites: async () => {
+            const userId = getCurrentUserId();
+            if (!userId) return;
+            
             set((state) => {
               state.isFavoritesLoading = true;
               state.favoritesError = null;
             });
             
             try {
-              // TODO: API 호출 구현
-              // const favorites = await userApi.getFavorites();
+              const repository = getUserDataRepository();
+              let favorites = await repository.listFavorites(userId);
+              
+              const localFavorites = get().favorites.filter(
+                fav => !fav.userId && !favorites.some(saved => saved.petId === fav.petId)
+              );
+              const results = await Promise.allSettled(
+                localFavorites.map(fav => repository.addFavorite({ ...fav, userId }))
+              );
+              // 옮기지 못한 항목은 다음 로드 때 다시 시도
+              const pendingFavorites = localFavorites.filter((_, index) => {
+                const result = results[index];
+                return result.status === 'rejected' && !(result.reason instanceof ConflictError);
+              });
+              if (localFavorites.length > 0) {
+                favorites = await repository.listFavorites(userId);
+              }
               
               set((state) => {
-                state.favorites = []; // 임시로 빈 배열
+                state.favorites = [...pendingFavorites, ...favorites];
                 state.isFavoritesLoading = false;
               });
               
@@ -347,60 +344,115 @@ export const useUserStore = create<UserStore>()(
             }
           },
           
-          // 관심 목록에 추가
+          // 관심 목록에 추가 (비로그인 사용자는 기기에만 저장)
           addToFavorites: async (petId: Id, notes?: string) => {
+            if (get().isFavorite(petId)) return;
+            
+            const userId = getCurrentUserId();
+            const now = new Date().toISOString();
+            const newFavorite: UserFavorites = {
+              id: crypto.randomUUID(),
+              userId: userId ?? '',
+              petId,
+              notes,
+              createdAt: now,
+              updatedAt: now,
+            };
+            
+            set((state) => {
+              state.favorites.unshift(newFavorite);
+              state.favoritesError = null;
+            });
+            
+            if (!userId) return;
+            
             try {
-              // TODO: API 호출 구현
-              // const favorite = await userApi.addFavorite({ petId, notes });
-              
-              const newFavorite: UserFavorites = {
-                id: Date.now().toString(),
-                userId: '1',
-                petId,
-                notes,
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-              };
+              const savedFavorite = await getUserDataRepository().addFavorite(newFavorite);
               
               set((state) => {
-                state.favorites.push(newFavorite);
+                const index = state.favorites.findIndex(fav => fav.id === newFavorite.id);
+                if (index >= 0) state.favorites[index] = savedFavorite;
               });
               
             } catch (error: any) {
+              set((state) => {
+                state.favorites = state.favorites.filter(fav => fav.id !== newFavorite.id);
+                state.favoritesError = error.message || '관심 목록에 추가하지 못했습니다.';
+              });
               throw error;
             }
           },
           
           // 관심 목록에서 제거
           removeFromFavorites: async (favoriteId: Id) => {
+            const index = get().favorites.findIndex(fav => fav.id === favoriteId);
+            if (index < 0) return;
+            const removed = get().favorites[index];
+            
+            set((state) => {
+              state.favorites = state.favorites.filter(fav => fav.id !== favoriteId);
+              state.favoritesError = null;
+            });
+            usePetStore.getState().removeNoticeAlert(removed.petId);
+            
+            if (!removed.userId) return;
+            
             try {
-              // TODO: API 호출 구현
-              // await userApi.removeFavorite(favoriteId);
+              await getUserDataRepository().removeFavorite(removed.userId, favoriteId);
               
+            } catch (error: any) {
               set((state) => {
-                state.favorites = state.favorites.filter(fav => fav.id !== favoriteId);
+                state.favorites.splice(Math.min(index, state.favorites.length), 0, removed);
+                state.favoritesError = error.message || '관심 목록에서 삭제하지 못했습니다.';
               });
-              
-            } catch (error: any) {
               throw error;
             }
           },
           
+          // 관심 목록 추가/제거 전환
+          toggleFavorite: async (petId: Id) => {
+            const favorite = get().favorites.find(fav => fav.petId === petId);
+            if (favorite) {
+              await get().removeFromFavorites(favorite.id);
+            } else {
+              await get().addToFavorites(petId);
+            }
+          },
+          
           // 관심 목록 메모 업데이트
           updateFavoriteNotes: async (favoriteId: Id, notes: string) => {
+            const previous = get().favorites.find(fav => fav.id === favoriteId);
+            if (!previous) return;
+            
+            set((state) => {
+              const favorite = state.favorites.find(fav => fav.id === favoriteId);
+              if (favorite) {
+                favorite.notes = notes;
+                favorite.updatedAt = new Date().toISOString();
+              }
+              state.favoritesError = null;
+            });
+            
+            if (!previous.userId) return;
+            
             try {
-              // TODO: API 호출 구현
-              // await userApi.updateFavoriteNotes(favoriteId, notes);
+              const savedFavorite = await getUserDataRepository().updateFavoriteNotes(
+                previous.userId,
+                favoriteId,
+                notes
+              );
               
               set((state) => {
-                const favorite = state.favorites.find(fav => fav.id === favoriteId);
-                if (favorite) {
-                  favorite.notes = notes;
-                  favorite.updatedAt = new Date().toISOString();
-                }
+                const index = state.favorites.findIndex(fav => fav.id === favoriteId);
+                if (index >= 0 && savedFavorite) state.favorites[index] = savedFavorite;
               });
               
             } catch (error: any) {
+              set((state) => {
+                const index = state.favorites.findIndex(fav => fav.id === favoriteId);
+                if (index >= 0) state.favorites[index] = previous;
+                state.favoritesError = error.message || '메모를 저장하지 못했습니다.';
+              });
               throw error;
             }
           },
@@ -411,19 +463,21 @@ export const useUserStore = create<UserStore>()(
             return favorites.some(fav => fav.petId === petId);
           },
           
-          // 검색 기록 로드
+          // 검색 기록 로드 (비로그인 사용자는 기기에 저장된 기록 유지)
           loadSearchHistory: async () => {
+            const userId = getCurrentUserId();
+            if (!userId) return;
+            
             set((state) => {
               state.isSearchHistoryLoading = true;
               state.searchHistoryError = null;
             });
             
             try {
-              // TODO: API 호출 구현
-              // const history = await userApi.getSearchHistory();
+              const history = await getUserDataRepository().listSearchHistory(userId);
               
               set((state) => {
-                state.searchHistory = []; // 임시로 빈 배열
+                state.searchHistory = history;
                 state.isSearchHistoryLoading = false;
               });
               
@@ -435,26 +489,37 @@ export const useUserStore = create<UserStore>()(
             }
           },
           
-          // 검색 기록 추가
+          // 검색 기록 추가 (비로그인 사용자는 기기에만 저장)
           addSearchHistory: async (query: string, filters: Record<string, any>, resultCount: number) => {
+            const userId = getCurrentUserId();
+            const now = new Date().toISOString();
+            const newHistory: UserSearchHistory = {
+              id: crypto.randomUUID(),
+              userId: userId ?? '',
+              searchQuery: query,
+              filters,
+              resultCount,
+              clickedPets: [],
+              createdAt: now,
+              updatedAt: now,
+            };
+            
+            set((state) => {
+              state.searchHistory = [newHistory, ...state.searchHistory].slice(
+                0,
+                USER_DATA_SETTINGS.SEARCH_HISTORY_LIMIT
+              );
+            });
+            
+            if (!userId) return;
+            
             try {
-              const newHistory: UserSearchHistory = {
-                id: Date.now().toString(),
-                userId: '1',
-                searchQuery: query,
-                filters,
-                resultCount,
-                clickedPets: [],
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-              };
+              await getUserDataRepository().addSearchHistory(newHistory);
               
+            } catch (error: any) {
               set((state) => {
-                // 최근 10개만 유지
-                state.searchHistory = [newHistory, ...state.searchHistory].slice(0, 10);
+                state.searchHistory = state.searchHistory.filter(entry => entry.id !== newHistory.id);
               });
-              
-            } catch (error: any) {
               // 검색 기록 저장 실패는 사용자에게 알리지 않음
               console.warn('Failed to save search history:', error);
             }
@@ -462,32 +527,43 @@ export const useUserStore = create<UserStore>()(
           
           // 검색 기록 삭제
           clearSearchHistory: async () => {
+            const userId = getCurrentUserId();
+            const previous = get().searchHistory;
+            
+            set((state) => {
+              state.searchHistory = [];
+              state.searchHistoryError = null;
+            });
+            
+            if (!userId) return;
+            
             try {
-              // TODO: API 호출 구현
-              // await userApi.clearSearchHistory();
+              await getUserDataRepository().clearSearchHistory(userId);
               
+            } catch (error: any) {
               set((state) => {
-                state.searchHistory = [];
+                state.searchHistory = previous;
+                state.searchHistoryError = error.message || '검색 기록을 삭제하지 못했습니다.';
               });
-              
-            } catch (error: any) {
               throw error;
             }
           },
           
           // 입양 히스토리 로드
           loadAdoptionHistory: async () => {
+            const userId = getCurrentUserId();
+            if (!userId) return;
+            
             set((state) => {
               state.isAdoptionHistoryLoading = true;
               state.adoptionHistoryError = null;
             });
             
             try {
-              // TODO: API 호출 구현
-              // const history = await userApi.getAdoptionHistory();
+              const history = await getUserDataRepository().listAdoptionHistory(userId);
               
               set((state) => {
-                state.adoptionHistory = []; // 임시로 빈 배열
+                state.adoptionHistory = history;
                 state.isAdoptionHistoryLoading = false;
               });
               
@@ -499,28 +575,6 @@ export const useUserStore = create<UserStore>()(
             }
           },
           
-          // 입양 히스토리 추가
-          addAdoptionHistory: async (petId: Id, adoptionDate: string, status: string) => {
-            try {
-              const newHistory: AdoptionHistory = {
-                id: Date.now().toString(),
-                userId: '1',
-                petId,
-                adoptionDate,
-                status: status as any,
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-              };
-              
-              set((state) => {
-                state.adoptionHistory.push(newHistory);
-              });
-              
-            } catch (error: any) {
-              throw error;
-            }
-          },
-          
           // 온보딩 시작
           startOnboarding: () => {
             set((state) => {
@@ -660,6 +714,8 @@ export const useUserStore = create<UserStore>()(
         name: STORAGE_KEYS.USER_PREFERENCES,
         partialize: (state) => ({
           preferences: state.preferences,
+          // 계정 관심 목록은 서버에서 다시 불러오므로 비로그인 항목만 저장
+          favorites: state.favorites.filter(fav => !fav.userId),
           searchHistory: state.searchHistory,
           showOnboarding: state.showOnboarding,
         }),
@@ -667,4 +723,85 @@ export const useUserStore = create<UserStore>()(
     ),
     { name: 'user-store' }
   )
-);
\ No newline at end of file
+);
+
+/**
+ * 이전 버전(pet-client-store)에 저장된 즐겨찾기 ID 꺼내기
+ */
+function takeLegacyFavoriteIds(): Id[] {
+  const raw = localStorage.getItem(STORAGE_KEYS.FAVORITES);
+  if (!raw) return [];
+  localStorage.removeItem(STORAGE_KEYS.FAVORITES);
+  
+  try {
+    const ids: unknown = JSON.parse(raw);
+    return Array.isArray(ids) ? ids.filter((id): id is Id => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 관심 목록 실시간 동기화 해제 함수
+ */
+let stopFavoritesSync: (() => void) | null = null;
+
+if (typeof window !== 'undefined') {
+  // 이전 버전 즐겨찾기는 비로그인 관심 목록으로 옮김 (로그인하면 계정으로 옮겨짐)
+  const legacyFavoriteIds = takeLegacyFavoriteIds();
+  if (legacyFavoriteIds.length > 0) {
+    const now = new Date().toISOString();
+    const { favorites } = useUserStore.getState();
+    useUserStore.setState({
+      favorites: [
+        ...favorites,
+        ...legacyFavoriteIds
+          .filter(petId => !favorites.some(fav => fav.petId === petId))
+          .map((petId): UserFavorites => ({
+            id: crypto.randomUUID(),
+            userId: '',
+            petId,
+            createdAt: now,
+            updatedAt: now,
+          })),
+      ],
+    });
+  }
+  
+  // 로그인 사용자가 바뀌면 이전 사용자의 데이터를 비우고 새 사용자의 데이터를 불러옴
+  // (비로그인 상태에서 추가한 관심 목록은 남겨 두었다가 loadFavorites에서 계정으로 옮김)
+  useAuthStore.subscribe(
+    (state) => state.user?.id,
+    (userId, previousUserId) => {
+      const store = useUserStore.getState();
+      if (userId !== previousUserId) {
+        const localFavorites = store.favorites.filter(fav => !fav.userId);
+        store.reset();
+        useUserStore.setState({ favorites: localFavorites });
+      }
+      
+      stopFavoritesSync?.();
+      stopFavoritesSync = null;
+      if (!userId) return;
+      
+      void Promise.allSettled([
+        store.loadProfile(),
+        store.loadPreferences(),
+        store.loadFavorites(),
+        store.loadSearchHistory(),
+      ]);
+      
+      // 다른 탭/기기에서 바뀐 관심 목록 반영
+      stopFavoritesSync = getUserDataRepository().subscribeFavorites(userId, (event) => {
+        const { favorites, loadFavorites } = useUserStore.getState();
+        if (event.type === 'DELETE' && !favorites.some(fav => fav.id === event.favoriteId)) {
+          return;
+        }
+        loadFavorites().catch((error) => {
+          console.warn('Failed to sync favorites:', error);
+        });
+      });
+    },
+    { fireImmediately: true }
+  );
+}
@@ -4,7 +4,15 @@
  * API 응답, 요청, 에러 등 API 통신과 관련된 모든 타입을 정의합니다.
  */
 
-import type { PaginationInfo } from './common';
+import type { ImageMetadata, PaginationInfo } from './common';
+import type {
+  AdoptionApplication,
+  AdoptionApplicationMessage,
+  AdoptionApplicationStatus,
+  PetBreed,
+} from './pet';
+import type { SearchResults } from './search';
+import type { User, UserRole } from './user';
 
 /**
  * HTTP 상태 코드 타입
@@ -27,7 +35,10 @@ export type ApiErrorCode =
   | 'SERVER_ERROR'
   | 'SERVICE_UNAVAILABLE'
   | 'DATABASE_ERROR'
-  | 'EXTERNAL_SERVICE_ERROR';
+  | 'EXTERNAL_SERVICE_ERROR'
+  | 'UPSTREAM_QUOTA_EXCEEDED' // 공공데이터 일일 호출 한도 초과
+  | 'UPSTREAM_AUTH_FAILED' // 공공데이터 서비스 키 오류
+  | 'UPSTREAM_NO_DATA'; // 공공데이터 조회 결과 없음
 
 /**
  * 기본 API 응답 인터페이스
@@ -306,12 +317,70 @@ export interface AbandonmentAnimalItem {
   [key: string]: string | undefined; // 추가 필드 대응을 위한 인덱스 시그니처
 }
 
+// 업스트림 레코드 검증 결과 (응답 단위 집계)
+export interface RecordValidationSummary {
+  dropped: number; // 검증에 실패해 격리된 레코드 수
+  repaired: number; // 정규화로 값이 보정된 레코드 수
+}
+
+// 유기동물 목록 조회 결과
+export interface AnimalListResult {
+  animals: AbandonmentAnimalItem[];
+  totalCount: number;
+  pageNo: number;
+  numOfRows: number;
+  validation: RecordValidationSummary;
+  images: Record<string, ImageMetadata>; // 원본 사진 URL별 프록시 변환 정보 (변환된 사진만)
+}
+
+// 유기동물 검색 결과 (서버 필터링 + 연속 커서)
+export interface AnimalSearchResult {
+  animals: AbandonmentAnimalItem[];
+  totalCount: number;
+  totalCountExact: boolean; // false면 스캔한 범위의 일치 비율로 추정한 값
+  pageNo: number;
+  numOfRows: number;
+  nextCursor: string | null; // 다음 페이지 조회용 불투명 커서
+  hasMore: boolean;
+  validation?: RecordValidationSummary; // 업스트림에서 직접 조회한 경우
+  images: Record<string, ImageMetadata>; // 원본 사진 URL별 프록시 변환 정보 (변환된 사진만)
+}
+
+// 유기동물 상세 조회 결과
+export interface AnimalDetailResult {
+  animal: AbandonmentAnimalItem;
+  images: Record<string, ImageMetadata>;
+}
+
+// 공고 마감 임박 피드 (공고 종료일이 가까운 순)
+export interface UrgentAnimalsResult {
+  animals: AbandonmentAnimalItem[];
+  totalCount: number;
+  totalCountExact: boolean; // false면 스캔 예산을 소진해 일부만 확인한 경우
+  pageNo: number;
+  numOfRows: number;
+  withinDays: number; // 공고 종료까지 남은 일수 상한
+  images: Record<string, ImageMetadata>;
+}
+
+// 미러 검색 결과 (패싯 집계 + 마지막 동기화 시각 포함)
+export interface AnimalMirrorSearchResult extends AnimalSearchResult {
+  facets: SearchResults['filters']['available'];
+  syncedAt: string | null;
+}
+
 // 품종 코드 정보
 export interface KindInfo {
   kindCd: string;
   KNm: string; // 한글명
 }
 
+// 품종 카탈로그 항목 (공식 품종 코드 + 로컬 메타데이터)
+export interface BreedCatalogItem extends KindInfo {
+  breed: PetBreed | null;
+  hasMetadata: boolean; // 로컬 메타데이터 매칭 여부
+}
+
 // 시도 코드 정보  
 export interface SidoInfo {
   orgCd: string;
@@ -329,4 +398,230 @@ export interface SigunguInfo {
 export interface ShelterInfo {
   careRegNo: string;
   careNm: string; // 보호센터명
+}
+
+// 보호소 동물 구분 (notice: 공고중, protect: 공고 종료 후 보호중, ended: 입양/반환 등 종료)
+export type ShelterAnimalGroup = 'notice' | 'protect' | 'ended';
+
+// 보호 종료 사유별 건수
+export interface ShelterOutcomeCounts {
+  adopted: number; // 입양
+  returned: number; // 주인 반환
+  euthanized: number; // 안락사
+  naturalDeath: number; // 자연사
+  other: number; // 기증/방사 등
+}
+
+// 보호소 입소/종료 통계 (집계 기간 내 접수 건 기준)
+export interface ShelterStats {
+  periodDays: number; // 집계 기간 (오늘 기준 과거 일수)
+  intake: {
+    last7Days: number;
+    last30Days: number;
+    total: number; // 집계 기간 전체
+  };
+  inCare: number; // 현재 보호중 (공고중 포함)
+  outcomes: ShelterOutcomeCounts;
+}
+
+// 보호소 상세 (보호소 정보는 최근 공고의 보호소 필드로 구성)
+export interface ShelterDetail extends ShelterInfo {
+  careTel?: string;
+  careAddr?: string;
+  orgNm?: string; // 관할 기관
+  careOwnerNm?: string; // 보호센터 소유자명
+  stats: ShelterStats;
+  animals: Record<ShelterAnimalGroup, AbandonmentAnimalItem[]>;
+  totalCountExact: boolean; // false면 스캔 예산을 소진해 일부만 집계한 경우
+  images: Record<string, ImageMetadata>;
+}
+
+/**
+ * 입양 신청 요청 본문
+ */
+export interface AdoptionApplicationRequest {
+  message?: string;
+  answers: Record<string, string>; // 질문 ID → 답변
+}
+
+/**
+ * 입양 신청 상태 변경 요청 본문
+ */
+export interface AdoptionApplicationStatusRequest {
+  status: AdoptionApplicationStatus;
+  reviewNotes?: string;
+}
+
+/**
+ * 입양 신청 상세 (신청서 + 메시지)
+ */
+export interface AdoptionApplicationDetail {
+  application: AdoptionApplication;
+  messages: AdoptionApplicationMessage[];
+}
+
+/**
+ * 입양 신청 메시지 요청 본문
+ */
+export interface AdoptionApplicationMessageRequest {
+  body: string;
+}
+
+/**
+ * 보호소 직원 소속 상태 (pending: 확인 대기, verified: 확인 완료, revoked: 거절/해제)
+ */
+export type ShelterStaffStatus = 'pending' | 'verified' | 'revoked';
+
+/**
+ * 보호소 직원 소속 정보
+ */
+export interface ShelterStaffMembership {
+  userId: string;
+  careRegNo: string;
+  careNm: string;
+  status: ShelterStaffStatus;
+  requestedAt: string;
+  reviewedAt?: string;
+  reviewedBy?: string; // 확인/해제한 관리자 ID
+}
+
+/**
+ * 보호소 직원 소속 신청 요청 본문
+ */
+export interface ShelterStaffMembershipRequest {
+  careRegNo: string;
+  careNm: string;
+}
+
+/**
+ * 신고 대상 (pet: 유기동물 공고, application_message: 입양 신청 메시지, user: 사용자)
+ */
+export type ContentReportTargetType = 'pet' | 'application_message' | 'user';
+
+/**
+ * 신고 처리 상태 (open: 접수, resolved: 조치 완료, dismissed: 기각)
+ */
+export type ContentReportStatus = 'open' | 'resolved' | 'dismissed';
+
+/**
+ * 신고
+ */
+export interface ContentReport {
+  id: string;
+  targetType: ContentReportTargetType;
+  targetId: string;
+  reporterId: string;
+  reason: string; // CONTENT_REPORT_REASONS 코드
+  details?: string;
+  status: ContentReportStatus;
+  createdAt: string;
+  resolvedAt?: string;
+  resolvedBy?: string; // 처리한 관리자 ID
+  resolutionNote?: string;
+}
+
+/**
+ * 신고 요청 본문
+ */
+export interface ContentReportRequest {
+  targetType: ContentReportTargetType;
+  targetId: string;
+  reason: string;
+  details?: string;
+}
+
+/**
+ * 신고 처리 요청 본문
+ */
+export interface ContentReportResolutionRequest {
+  status: Exclude<ContentReportStatus, 'open'>;
+  resolutionNote?: string;
+}
+
+/**
+ * 관리자 작업 종류 (감사 로그)
+ */
+export type AdminAuditAction =
+  | 'user.activate'
+  | 'user.deactivate'
+  | 'user.role'
+  | 'shelter.verify'
+  | 'shelter.revoke'
+  | 'report.resolve'
+  | 'report.dismiss';
+
+/**
+ * 관리자 작업 감사 로그
+ */
+export interface AdminAuditLogEntry {
+  id: string;
+  actorId: string; // 작업한 관리자 ID
+  action: AdminAuditAction;
+  targetType: 'user' | 'shelter_staff' | 'report';
+  targetId: string;
+  details: Record<string, unknown>; // 변경 전후 값, 사유 등
+  createdAt: string;
+}
+
+/**
+ * 관리자 사용자 목록 응답
+ */
+export interface AdminUserList {
+  users: User[];
+  pagination: PaginationInfo;
+  exact: boolean; // false면 조회 한도를 넘어 일부 사용자만 검색한 경우
+}
+
+/**
+ * 관리자 사용자 상세 (해당 사용자에 대한 최근 관리자 작업 포함)
+ */
+export interface AdminUserDetail {
+  user: User;
+  auditLog: AdminAuditLogEntry[];
+}
+
+/**
+ * 관리자 사용자 변경 요청 본문
+ */
+export interface AdminUserUpdateRequest {
+  isActive?: boolean;
+  role?: UserRole;
+  reason?: string;
+}
+
+/**
+ * 관리자 보호소 소속 확인 요청 본문
+ */
+export interface AdminShelterReviewRequest {
+  userId: string;
+  careRegNo: string;
+  status: Exclude<ShelterStaffStatus, 'pending'>;
+  reason?: string;
+}
+
+/**
+ * 관리자 대시보드 집계
+ */
+export interface AdminDashboard {
+  users: {
+    total: number;
+    active: number;
+    inactive: number;
+    byRole: Record<UserRole, number>;
+    exact: boolean;
+  };
+  shelters: Record<ShelterStaffStatus, number>;
+  applications: Record<AdoptionApplicationStatus, number>;
+  reports: Record<ContentReportStatus, number>;
+  recentActions: AdminAuditLogEntry[];
+}
+
+/**
+ * 관리자 동물 조회 (공고 + 입양 신청 + 신고)
+ */
+export interface AdminPetOverview {
+  petId: string;
+  animal: AbandonmentAnimalItem | null; // 공고를 찾지 못하면 null
+  applications: AdoptionApplication[];
+  reports: ContentReport[];
 }
\ No newline at end of file
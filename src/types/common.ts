@@ -65,7 +65,24 @@ export interface ImageInfo {
   id: Id;
   url: string;
   alt: string;
-  width?: number;
-  height?: number;
+  width?: number; // 원본 너비 (프록시가 변환한 경우)
+  height?: number; // 원본 높이 (프록시가 변환한 경우)
   isMain?: boolean;
+  sourceUrl?: string; // 프록시 이전 원본 URL
+  variants?: Record<ImageVariant, string>; // 크기별 프록시 URL
+  blurDataURL?: string; // next/image placeholder="blur"용 data URL
+}
+
+/**
+ * 프록시 이미지 크기 변형
+ */
+export type ImageVariant = 'thumb' | 'card' | 'full';
+
+/**
+ * 프록시가 변환한 원본 이미지 정보
+ */
+export interface ImageMetadata {
+  width: number;
+  height: number;
+  blurDataURL: string;
 }
\ No newline at end of file
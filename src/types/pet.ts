@@ -27,9 +27,28 @@ export type PetAgeGroup = 'puppy' | 'young' | 'adult' | 'senior';
 export type AdoptionStatus = 'available' | 'pending' | 'adopted' | 'unavailable';
 
 /**
- * 건강 상태
+ * 공고 마감 긴급도
+ * - ended: 공고 기간 종료
+ * - critical / soon: 마감 임박 (NOTICE_URGENCY_SETTINGS 기준)
+ * - unknown: 공고 종료일 정보 없음
  */
-export type HealthStatus = 'excellent' | 'good' | 'fair' | 'needs-attention' | 'special-care';
+export type NoticeUrgency = 'ended' | 'critical' | 'soon' | 'normal' | 'unknown';
+
+/**
+ * 공고 기간 정보 (daysRemaining: 오늘(KST) 기준 남은 일수, 0이면 오늘 마감)
+ */
+export interface PetNotice {
+  noticeNo?: string;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+  daysRemaining: number | null;
+  urgency: NoticeUrgency;
+}
+
+/**
+ * 건강 상태 (unknown: 근거가 없어 판단할 수 없음)
+ */
+export type HealthStatus = 'excellent' | 'good' | 'fair' | 'needs-attention' | 'special-care' | 'unknown';
 
 /**
  * 성격 특성
@@ -102,6 +121,7 @@ export interface Pet extends BaseEntity {
   // 입양 관련
   adoptionStatus: AdoptionStatus;
   adoptionFee?: number;
+  notice?: PetNotice;
   location: Location;
   shelterInfo?: {
     shelterId: Id;
@@ -116,16 +136,20 @@ export interface Pet extends BaseEntity {
   // 추가 정보
   description: string;
   specialNeeds?: string[];
+  // null: 정보 없음 (확인되지 않은 값을 기본값으로 채우지 않음)
   goodWith?: {
-    children: boolean;
-    otherPets: boolean;
-    cats?: boolean;
-    dogs?: boolean;
+    children: boolean | null;
+    otherPets: boolean | null;
+    cats?: boolean | null;
+    dogs?: boolean | null;
   };
-  houseTrained: boolean;
+  houseTrained: boolean | null;
   spayedNeutered: boolean;
-  microchipped: boolean;
-  vaccinated: boolean;
+  microchipped: boolean | null;
+  vaccinated: boolean | null;
+  
+  // 특징 텍스트(specialMark/etcBigo)에서 추출한 근거와 신뢰도
+  textInsights?: PetTextInsights;
   
   // 입양 관련 요구사항
   adoptionRequirements?: {
@@ -137,20 +161,121 @@ export interface Pet extends BaseEntity {
   };
 }
 
+/**
+ * 입양 신청 상태
+ */
+export type AdoptionApplicationStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'withdrawn';
+
+/**
+ * 입양 신청서 질문 (choice: 보기 선택, text: 서술형, phone: 전화번호)
+ */
+export interface AdoptionApplicationQuestion {
+  id: string;
+  question: string;
+  type: 'choice' | 'text' | 'phone';
+  options?: readonly string[];
+  minLength?: number;
+  required: boolean;
+}
+
+/**
+ * 신청 당시 동물 정보 (목록 표시와 보호소별 조회용)
+ */
+export interface AdoptionApplicationPetSnapshot {
+  name: string;
+  imageUrl?: string;
+  careNm: string;
+  careRegNo: string;
+  careTel?: string;
+}
+
 /**
  * 입양 신청 정보
  */
 export interface AdoptionApplication extends BaseEntity {
   petId: Id;
   applicantId: Id;
-  status: 'pending' | 'approved' | 'rejected' | 'withdrawn';
+  status: AdoptionApplicationStatus;
   applicationDate: Timestamp;
   message?: string;
   responses: {
+    questionId: string;
     question: string;
     answer: string;
   }[];
+  pet: AdoptionApplicationPetSnapshot;
   reviewedAt?: Timestamp;
   reviewedBy?: Id;
   reviewNotes?: string;
-}
\ No newline at end of file
+}
+
+/**
+ * 입양 신청 메시지 (보호소 ↔ 신청자)
+ */
+export interface AdoptionApplicationMessage {
+  id: Id;
+  applicationId: Id;
+  senderId: Id;
+  senderRole: 'applicant' | 'shelter';
+  body: string;
+  createdAt: Timestamp;
+}
+
+/**
+ * 품종 메타데이터 (로컬 품종 테이블 항목)
+ */
+export interface BreedMetadata {
+  name: string;
+  keywords: string[];
+  species: PetSpecies;
+  size: PetSize;
+  lifespan: {
+    min: number;
+    max: number;
+  };
+  description: string;
+  characteristics: PersonalityTrait[];
+  careLevel: 'low' | 'medium' | 'high';
+  exerciseNeeds: 'low' | 'medium' | 'high';
+  groomingNeeds: 'low' | 'medium' | 'high';
+  isMixed?: boolean;
+}
+
+/**
+ * 텍스트에서 추출한 값 (근거가 없으면 value가 'unknown', confidence 0)
+ */
+export interface ExtractedAttribute<T> {
+  value: T | 'unknown';
+  confidence: number; // 0~1
+  evidence: string[]; // 근거가 된 원문 문구
+}
+
+/**
+ * 보호소 특징 텍스트 추출 결과
+ */
+export interface PetTextInsights {
+  personality: {
+    trait: PersonalityTrait;
+    confidence: number;
+    evidence: string[];
+  }[];
+  healthStatus: ExtractedAttribute<HealthStatus>;
+  specialNeeds: {
+    need: string;
+    confidence: number;
+    evidence: string[];
+  }[];
+  goodWith: {
+    children: ExtractedAttribute<boolean>;
+    otherPets: ExtractedAttribute<boolean>;
+    cats: ExtractedAttribute<boolean>;
+    dogs: ExtractedAttribute<boolean>;
+  };
+  houseTrained: ExtractedAttribute<boolean>;
+  vaccinated: ExtractedAttribute<boolean>;
+  microchipped: ExtractedAttribute<boolean>;
+}
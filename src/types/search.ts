@@ -8,7 +8,8 @@ import type { Id, Location, PaginationInfo } from './common';
 import type { 
   ActivityLevel, 
   ExperienceLevel, 
-  LivingSpace 
+  LivingSpace,
+  UserPreferences
 } from './user';
 import type { 
   AdoptionStatus, 
@@ -39,10 +40,25 @@ export type SearchSortBy =
   | 'distance'
   | 'fee-low'
   | 'fee-high'
-  | 'name';
+  | 'name'
+  | 'match';
 
 /**
- * 매칭 점수 타입
+ * 매칭 점수 항목
+ */
+export type MatchFactor = 'lifestyle' | 'experience' | 'location' | 'preferences';
+
+/**
+ * 매칭 점수 근거
+ */
+export interface MatchExplanation {
+  factor: MatchFactor;
+  impact: 'positive' | 'negative' | 'neutral';
+  message: string;
+}
+
+/**
+ * 매칭 점수 타입 (0~100)
  */
 export type MatchScore = {
   overall: number;
@@ -50,8 +66,47 @@ export type MatchScore = {
   experience: number;
   location: number;
   preferences: number;
+  explanations?: MatchExplanation[];
 };
 
+/**
+ * 유사도 비교 항목
+ */
+export type SimilarityFactor =
+  | 'species'
+  | 'breed'
+  | 'size'
+  | 'ageGroup'
+  | 'color'
+  | 'gender'
+  | 'region';
+
+/**
+ * 두 반려동물의 유사도 (overall 0~100, 항목별 0~1, 비교 정보가 없으면 null)
+ */
+export type SimilarityScore = {
+  overall: number;
+  factors: Record<SimilarityFactor, number | null>;
+  matchedFactors: SimilarityFactor[];
+};
+
+/**
+ * 비슷한 반려동물 항목
+ */
+export interface SimilarPet {
+  pet: Pet;
+  similarity: SimilarityScore;
+}
+
+/**
+ * 비슷한 반려동물 조회 결과
+ */
+export interface SimilarPetsResult {
+  baseId: string;
+  items: SimilarPet[];
+  weights: Record<SimilarityFactor, number>;
+}
+
 /**
  * 기본 검색 필터
  */
@@ -103,6 +158,15 @@ export interface AdvancedSearchFilters extends BaseSearchFilters {
   userExperience?: ExperienceLevel;
   userActivityLevel?: ActivityLevel;
   userTimeCommitment?: ActivityLevel;
+  userBudgetMonthly?: number;
+  userBudgetInitial?: number;
+  
+  // 사용자 선호도 (UserPreferences)
+  userPreferredSpecies?: PetSpecies[];
+  userPreferredSizes?: PetSize[];
+  userPreferredAgeGroups?: PetAgeGroup[];
+  userPreferredPersonalities?: PersonalityTrait[];
+  userRequirements?: Partial<UserPreferences['requirements']>;
   
   // 매칭 점수 최소값
   minMatchScore?: number;
@@ -157,6 +221,7 @@ export interface SearchResults {
   items: SearchResultItem[];
   pagination: PaginationInfo;
   totalCount: number;
+  totalCountExact?: boolean; // false면 스캔한 범위의 일치 비율로 추정한 값
   searchTime: number; // ms
   suggestions?: string[];
   filters: {
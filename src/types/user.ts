@@ -12,6 +12,33 @@ import type { PersonalityTrait, PetSize, PetSpecies } from './pet';
  */
 export type UserRole = 'user' | 'shelter' | 'admin';
 
+/**
+ * 권한 ('동작:대상' 형식, 역할별 부여 목록은 ROLE_PERMISSIONS)
+ */
+export type Permission =
+  | 'read:profile'
+  | 'write:profile'
+  | 'submit:application'
+  | 'submit:report'
+  | 'review:applications'
+  | 'access:admin'
+  | 'manage:users'
+  | 'manage:shelters'
+  | 'manage:reports'
+  | 'read:audit_log';
+
+/**
+ * 경로별 필요 권한 (middleware에서 확인)
+ */
+export interface RoutePermissionRule {
+  /** 경로 접두사 ('*'는 경로 한 단계와 일치) */
+  path: string;
+  /** 필요한 권한 */
+  permission: Permission;
+  /** 적용할 HTTP 메서드 (생략 시 모든 메서드) */
+  methods?: readonly string[];
+}
+
 /**
  * 인증 제공자
  */
@@ -132,11 +159,20 @@ export interface UserPreferences extends BaseEntity {
  * 사용자 관심 목록
  */
 export interface UserFavorites extends BaseEntity {
-  userId: Id;
+  userId: Id; // 비로그인 상태에서 추가한 항목은 빈 문자열 (로그인하면 계정으로 옮겨짐)
   petId: Id;
   notes?: string;
 }
 
+/**
+ * 관심 동물 입양 가능 여부
+ * - adopted: 입양 완료
+ * - closed: 보호 종료 (안락사/자연사 등)
+ * - notice_ended: 공고 기간 종료
+ * - missing: 공고가 내려가 정보를 찾을 수 없음
+ */
+export type FavoriteAvailability = 'available' | 'adopted' | 'closed' | 'notice_ended' | 'missing';
+
 /**
  * 사용자 검색 기록
  */
@@ -4,6 +4,8 @@
  * API 엔드포인트, HTTP 상태 코드, 타임아웃 등 API 통신과 관련된 상수들을 정의합니다.
  */
 
+import type { RoutePermissionRule } from "@/types/user";
+
 /**
  * API 기본 설정
  */
@@ -69,6 +71,7 @@ export const API_ENDPOINTS = {
     FAVORITES: "/users/favorites",
     SEARCH_HISTORY: "/users/search-history",
     APPLICATIONS: "/users/applications",
+    APPLICATION_MESSAGES: "/users/applications/{id}/messages",
     STATISTICS: "/users/statistics",
   },
 
@@ -91,6 +94,13 @@ export const API_ENDPOINTS = {
     CONTACT: "/shelters/{id}/contact",
   },
 
+  // 보호소 직원 업무 공간
+  SHELTER_WORKSPACE: {
+    ME: "/shelter-workspace/me",
+    APPLICATIONS: "/shelter-workspace/applications", // /shelter-workspace/applications/{id}
+    MESSAGES: "/shelter-workspace/applications/{id}/messages",
+  },
+
   // 케어 시스템
   CARE: {
     ACTIVITIES: "/care/activities",
@@ -133,16 +143,46 @@ export const API_ENDPOINTS = {
     DELETE: "/reviews/{id}",
   },
 
+  // 신고
+  REPORTS: {
+    CREATE: "/reports",
+  },
+
   // 관리자
   ADMIN: {
     DASHBOARD: "/admin/dashboard",
-    USERS: "/admin/users",
-    PETS: "/admin/pets",
+    USERS: "/admin/users", // /admin/users/{id}
+    PETS: "/admin/pets", // /admin/pets/{id}
     SHELTERS: "/admin/shelters",
-    REPORTS: "/admin/reports",
+    REPORTS: "/admin/reports", // /admin/reports/{id}
+    AUDIT_LOG: "/admin/audit-log",
   },
 } as const;
 
+/**
+ * API 경로별 필요 권한
+ *
+ * middleware가 Route Handler보다 먼저 확인하며, 로그인하지 않았으면 401,
+ * 권한이 없으면 403으로 응답합니다. (Route Handler도 소속/소유 여부를 다시 확인)
+ */
+export const API_ROUTE_PERMISSIONS: readonly RoutePermissionRule[] = [
+  { path: `/api${API_ENDPOINTS.USERS.APPLICATIONS}`, permission: "submit:application" },
+  {
+    path: `/api${API_ENDPOINTS.PETS.APPLY.replace("{id}", "*")}`,
+    permission: "submit:application",
+    methods: ["POST"],
+  },
+  { path: `/api${API_ENDPOINTS.REPORTS.CREATE}`, permission: "submit:report", methods: ["POST"] },
+  { path: `/api${API_ENDPOINTS.SHELTER_WORKSPACE.ME}`, permission: "read:profile" },
+  { path: `/api${API_ENDPOINTS.SHELTER_WORKSPACE.APPLICATIONS}`, permission: "review:applications" },
+  { path: "/api/admin", permission: "access:admin" },
+  { path: `/api${API_ENDPOINTS.ADMIN.USERS}`, permission: "manage:users" },
+  { path: `/api${API_ENDPOINTS.ADMIN.SHELTERS}`, permission: "manage:shelters" },
+  { path: `/api${API_ENDPOINTS.ADMIN.REPORTS}`, permission: "manage:reports" },
+  { path: `/api${API_ENDPOINTS.ADMIN.PETS}`, permission: "manage:reports" },
+  { path: `/api${API_ENDPOINTS.ADMIN.AUDIT_LOG}`, permission: "read:audit_log" },
+];
+
 /**
  * API 에러 코드
  */
@@ -178,6 +218,11 @@ export const API_ERROR_CODES = {
   DATABASE_ERROR: "DATABASE_ERROR",
   EXTERNAL_SERVICE_ERROR: "EXTERNAL_SERVICE_ERROR",
 
+  // 공공데이터 연동
+  UPSTREAM_QUOTA_EXCEEDED: "UPSTREAM_QUOTA_EXCEEDED",
+  UPSTREAM_AUTH_FAILED: "UPSTREAM_AUTH_FAILED",
+  UPSTREAM_NO_DATA: "UPSTREAM_NO_DATA",
+
   // 파일 업로드
   FILE_TOO_LARGE: "FILE_TOO_LARGE",
   INVALID_FILE_TYPE: "INVALID_FILE_TYPE",
@@ -246,3 +291,220 @@ export const RATE_LIMITS = {
   FILE_UPLOADS_PER_HOUR: 50,
   PASSWORD_RESET_PER_HOUR: 5,
 } as const;
+
+/**
+ * API 라우트 요청 제한 정책 (토큰 버킷)
+ *
+ * capacity: 순간적으로 허용하는 최대 요청 수, perMinute: 분당 토큰 보충량
+ */
+export const RATE_LIMIT_POLICIES = {
+  PUBLIC_DATA: { capacity: 30, perMinute: 120 }, // 공공데이터 API를 호출하는 라우트
+  SEARCH: { capacity: 20, perMinute: RATE_LIMITS.SEARCH_PER_MINUTE },
+  IMAGES: { capacity: 200, perMinute: RATE_LIMITS.API_CALLS_PER_MINUTE },
+  APPLICATIONS: { capacity: 10, perMinute: 20 }, // 입양 신청 등 사용자 데이터 변경
+  ADMIN: { capacity: 30, perMinute: 60 }, // 관리자 콘솔
+} as const;
+
+/**
+ * 요청 제한 설정
+ */
+export const RATE_LIMIT_SETTINGS = {
+  AUTHENTICATED_MULTIPLIER: 2, // 로그인 사용자는 정책 한도의 2배
+  MEMORY_MAX_KEYS: 10000, // 메모리 저장소가 보관할 최대 버킷 수
+  USER_CACHE_TTL: 60 * 1000, // 액세스 토큰 → 사용자(ID/역할) 확인 결과 보관 시간
+  USER_CACHE_MAX_ENTRIES: 5000, // 확인 결과를 보관할 최대 토큰 수 (초과 시 오래 쓰지 않은 것부터 제거)
+  TRUSTED_PROXY_HOPS: 1, // 앞단 신뢰 프록시 수 (TRUSTED_PROXY_HOPS 환경변수로 변경)
+} as const;
+
+/**
+ * 관리자 콘솔 설정
+ */
+export const ADMIN_SETTINGS = {
+  USER_PAGE_SIZE: 20,
+  USER_SCAN_PAGE_SIZE: 1000, // Supabase 사용자 목록을 한 번에 가져올 수
+  USER_SCAN_MAX_PAGES: 10, // 검색/집계 시 최대 조회 페이지 수
+  DEACTIVATION_BAN_DURATION: "876000h", // 비활성화 계정의 로그인 차단 기간 (사실상 무기한)
+  AUDIT_LOG_LIMIT: 50,
+  DASHBOARD_RECENT_ACTIONS: 10,
+  REASON_MAX_LENGTH: 500, // 작업 사유/처리 메모
+  REPORT_DETAILS_MAX_LENGTH: 1000,
+} as const;
+
+/**
+ * 사용자 데이터(프로필/선호도/관심 목록/기록) 설정
+ */
+export const USER_DATA_SETTINGS = {
+  SEARCH_HISTORY_LIMIT: 10, // 보관할 최근 검색 기록 수 (user_search_history 트리거와 같은 값)
+  FAVORITE_NOTES_MAX_LENGTH: 500,
+} as const;
+
+/**
+ * 업스트림 유기동물 레코드 검증 설정
+ */
+export const ANIMAL_RECORD_SETTINGS = {
+  QUARANTINE_MAX_ENTRIES: 500, // 보관할 최근 격리 레코드 수
+} as const;
+
+/**
+ * 유기동물 상세 조회용 서버 인덱스 설정
+ */
+export const ANIMAL_INDEX_SETTINGS = {
+  MAX_ENTRIES: 5000, // 인덱스에 보관할 최대 동물 수
+  TTL: 2 * 60 * 60 * 1000, // 2시간
+  FALLBACK_PAGE_SIZE: 500, // 폴백 검색 시 한 번에 가져올 행 수
+  FALLBACK_MAX_REQUESTS: 12, // 폴백 검색 시 최대 업스트림 호출 수
+  FALLBACK_STATES: ["notice", "protect"],
+} as const;
+
+/**
+ * 공공데이터 프록시 서버 캐시 설정
+ */
+export const PUBLIC_DATA_CACHE_SETTINGS = {
+  MEMORY_MAX_ENTRIES: 500,
+  // 신선하게 취급하는 시간
+  FRESH_TTL: {
+    ANIMALS: CACHE_SETTINGS.STALE_TIME.SHORT, // 목록/검색
+    CODES: CACHE_SETTINGS.STALE_TIME.VERY_LONG, // 품종·지역·보호소 코드
+  },
+  // 업스트림 장애 시 stale 데이터를 제공할 수 있는 최대 보관 시간
+  STALE_TTL: CACHE_SETTINGS.CACHE_TIME.VERY_LONG,
+  DEFAULT_FILE_DIRECTORY: ".cache/public-data",
+} as const;
+
+/**
+ * 공공데이터 응답 결과 코드 (header.resultCode)
+ */
+export const PUBLIC_DATA_RESULT_CODES = {
+  NORMAL_SERVICE: "00",
+  APPLICATION_ERROR: "01",
+  NODATA_ERROR: "03",
+  INVALID_REQUEST_PARAMETER_ERROR: "10",
+  NO_MANDATORY_REQUEST_PARAMETERS_ERROR: "11",
+  NO_OPENAPI_SERVICE_ERROR: "12",
+  SERVICE_ACCESS_DENIED_ERROR: "20",
+  LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR: "22",
+  SERVICE_KEY_IS_NOT_REGISTERED_ERROR: "30",
+  DEADLINE_HAS_EXPIRED_ERROR: "31",
+  UNREGISTERED_IP_ERROR: "32",
+  UNKNOWN_ERROR: "99",
+} as const;
+
+/**
+ * 공공데이터 로컬 대체 서비스 설정 (PUBLIC_DATA_SOURCE=fake|record|replay)
+ */
+export const PUBLIC_DATA_FAKE_SETTINGS = {
+  DEFAULT_SEED: 20240601, // 같은 시드면 항상 같은 데이터셋 생성
+  DEFAULT_ANIMAL_COUNT: 1200,
+  DEFAULT_NUM_OF_ROWS: 10, // 업스트림 기본값과 동일
+  MAX_NUM_OF_ROWS: 1000, // 초과 시 INVALID_REQUEST_PARAMETER_ERROR
+  HISTORY_DAYS: 120, // 접수일 분포 범위 (오늘 기준 과거 일수)
+  DEFAULT_RECORDINGS_DIRECTORY: "fixtures/public-data",
+} as const;
+
+/**
+ * 캐시 상태 응답 헤더
+ */
+export const CACHE_HEADERS = {
+  STATUS: "X-Cache",
+  AGE: "X-Cache-Age",
+} as const;
+
+/**
+ * 요청 제한 응답 헤더
+ */
+export const RATE_LIMIT_HEADERS = {
+  LIMIT: "X-RateLimit-Limit",
+  REMAINING: "X-RateLimit-Remaining",
+  RESET: "X-RateLimit-Reset", // 버킷이 가득 찰 때까지 남은 초
+  RETRY_AFTER: "Retry-After",
+} as const;
+
+/**
+ * 서버 필터링 검색 설정
+ *
+ * 업스트림에서 지원하지 않는 조건(키워드, 성별 등)은 서버에서 필터링하므로
+ * 요청한 페이지를 채울 때까지 업스트림 페이지를 순차적으로 가져옵니다.
+ */
+export const FILTERED_SEARCH_SETTINGS = {
+  UPSTREAM_PAGE_SIZE: 100, // 한 번에 가져올 업스트림 행 수
+  MAX_UPSTREAM_REQUESTS: 5, // 검색 요청 1회당 최대 업스트림 호출 수
+  MAX_PAGE_SIZE: 100, // 클라이언트가 요청할 수 있는 최대 페이지 크기
+} as const;
+
+/**
+ * 유기동물 미러 동기화 설정
+ */
+export const ANIMAL_MIRROR_SETTINGS = {
+  SYNC_STATES: ["notice", "protect"],
+  UPSTREAM_PAGE_SIZE: 1000, // 업스트림 최대 행 수
+  MAX_UPSTREAM_REQUESTS: 200, // 동기화 1회당 최대 업스트림 호출 수
+  INCREMENTAL_SYNC_INTERVAL: 30 * 60 * 1000, // 30분
+  FULL_SYNC_INTERVAL: 24 * 60 * 60 * 1000, // 24시간 (사라진 동물 확인)
+  MAX_PAGE_SIZE: 100,
+} as const;
+
+/**
+ * 반려동물 검색(SearchRequest) 설정
+ */
+export const PET_SEARCH_SETTINGS = {
+  MAX_PAGE_SIZE: 100,
+  UPSTREAM_PAGE_SIZE: 500, // 미러가 없을 때 한 번에 가져올 업스트림 행 수
+  MAX_UPSTREAM_REQUESTS: 6, // 미러가 없을 때 검색 1회당 최대 업스트림 호출 수
+  MAX_MIRROR_CANDIDATES: 5000, // 미러에서 한 번에 가져올 최대 후보 수
+  MAX_FACET_VALUES: 20, // 패싯 차원별 최대 항목 수
+} as const;
+
+/**
+ * 공고 마감 임박 피드 설정 (/api/animals/urgent)
+ */
+export const URGENT_FEED_SETTINGS = {
+  DEFAULT_WITHIN_DAYS: 5, // 기본 조회 범위 (남은 일수)
+  MAX_WITHIN_DAYS: 14,
+  LOOKBACK_DAYS: 30, // 접수일(happenDt)을 이 기간 안으로 제한해 스캔량을 줄임
+  UPSTREAM_PAGE_SIZE: 500,
+  MAX_UPSTREAM_REQUESTS: 4, // 피드 1회당 최대 업스트림 호출 수
+  MAX_PAGE_SIZE: 100,
+} as const;
+
+/**
+ * 보호소 상세 설정
+ */
+export const SHELTER_DETAIL_SETTINGS = {
+  LOOKBACK_DAYS: 90, // 접수일 기준 집계 기간
+  UPSTREAM_PAGE_SIZE: 500,
+  MAX_UPSTREAM_REQUESTS: 4, // 상세 1회당 최대 업스트림 호출 수
+  MAX_ANIMALS_PER_GROUP: 60, // 구분별로 응답에 포함할 최대 동물 수
+} as const;
+
+/**
+ * 보호소 사진 프록시 설정 (/api/images)
+ */
+export const IMAGE_PROXY_SETTINGS = {
+  ALLOWED_HOSTS: ["openapi.animal.go.kr", "www.animal.go.kr"], // 원본 이미지를 가져올 수 있는 호스트
+  VARIANTS: {
+    thumb: 160, // 목록 썸네일 (너비 px)
+    card: 480, // 카드/추천 목록
+    full: 1200, // 상세 캐러셀
+  },
+  OUTPUT_QUALITY: 75, // webp 품질
+  BLUR_WIDTH: 16, // 블러 플레이스홀더 너비 (px)
+  MAX_SOURCE_BYTES: 10 * 1024 * 1024, // 원본 최대 크기
+  FETCH_TIMEOUT: 8000,
+  MEMORY_MAX_ENTRIES: 200, // IMAGE_CACHE_STORE=memory일 때 보관할 원본 수
+  MAX_PREPARE_PER_REQUEST: 12, // 목록 응답 1회당 새로 변환을 시작할 최대 원본 수
+  DEFAULT_FILE_DIRECTORY: ".cache/images",
+  BROWSER_CACHE_MAX_AGE: 30 * 24 * 60 * 60, // 변형 이미지 브라우저 캐시 (초)
+} as const;
+
+/**
+ * 지오코딩 설정
+ */
+export const GEOCODING_SETTINGS = {
+  MEMORY_MAX_ENTRIES: 5000,
+  CACHE_TTL: 90 * 24 * 60 * 60 * 1000, // 주소 좌표는 거의 바뀌지 않으므로 90일
+  MISS_CACHE_TTL: 7 * 24 * 60 * 60 * 1000, // 찾지 못한 주소는 7일 뒤 재시도
+  MAX_PROVIDER_LOOKUPS_PER_REQUEST: 20, // 검색 1회당 제공자 호출 수 (나머지는 중심점 사용)
+  DEFAULT_FILE_DIRECTORY: ".cache/geocode",
+  KAKAO_ADDRESS_URL: "https://dapi.kakao.com/v2/local/search/address.json",
+  REQUEST_TIMEOUT: 3000,
+} as const;
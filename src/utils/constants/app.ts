@@ -4,6 +4,8 @@
  * 앱 이름, 버전, 기본 설정 등 애플리케이션 전체에서 사용되는 상수들을 정의합니다.
  */
 
+import type { Permission, RoutePermissionRule, UserRole } from '@/types/user';
+
 /**
  * 애플리케이션 기본 정보
  */
@@ -31,6 +33,8 @@ export const STORAGE_KEYS = {
   SEARCH_HISTORY: 'pawwise_search_history',
   FAVORITES: 'pawwise_favorites',
   ONBOARDING_COMPLETED: 'pawwise_onboarding_completed',
+  AUTH_REDIRECT: 'pawwise_auth_redirect', // 소셜 로그인 후 돌아갈 경로 (sessionStorage)
+  AUTH_FORWARDED_AT: 'pawwise_auth_forwarded_at', // 로그인 페이지가 원래 경로로 보낸 시각 (sessionStorage)
 } as const;
 
 /**
@@ -53,6 +57,10 @@ export const ROUTES = {
   PET_DETAIL: '/pets/[id]',
   FAVORITES: '/favorites',
   PROFILE: '/profile',
+  MY_APPLICATIONS: '/profile/applications',
+  SHELTER_WORKSPACE: '/shelter-workspace',
+  ADMIN: '/admin',
+  FORBIDDEN: '/forbidden',
   SETTINGS: '/settings',
   CARE: '/care',
   CARE_DASHBOARD: '/care/dashboard',
@@ -61,6 +69,7 @@ export const ROUTES = {
   CARE_SIMULATIONS: '/care/simulations',
   // 상세 페이지 라우트
   ADOPTION_DETAIL: (id: string) => `/adoption/${id}`,
+  SHELTER_APPLICATION_DETAIL: (id: string) => `/shelter-workspace/applications/${id}`,
   DICTIONARY_DETAIL: (id: string) => `/study/dictionary/${id}`,
   QNA_DETAIL: (id: string) => `/study/qna/${id}`,
   // 인증 관련
@@ -176,6 +185,113 @@ export const SOCIAL_LINKS = {
   YOUTUBE: 'https://youtube.com/pawwise',
 } as const;
 
+/**
+ * 사용자 역할별 한국어 표시명
+ */
+export const USER_ROLE_LABELS = {
+  user: '일반 회원',
+  shelter: '보호소',
+  admin: '관리자',
+} as const;
+
+/**
+ * 역할별 권한
+ *
+ * 로그인 시 인증 스토어에 채워지고, middleware와 Route Handler도 같은 표로 확인합니다.
+ * 상위 역할은 하위 역할의 권한을 모두 포함합니다.
+ */
+const MEMBER_PERMISSIONS: readonly Permission[] = [
+  'read:profile',
+  'write:profile',
+  'submit:application',
+  'submit:report',
+];
+
+const SHELTER_PERMISSIONS: readonly Permission[] = [
+  ...MEMBER_PERMISSIONS,
+  'review:applications',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  user: MEMBER_PERMISSIONS,
+  shelter: SHELTER_PERMISSIONS,
+  admin: [
+    ...SHELTER_PERMISSIONS,
+    'access:admin',
+    'manage:users',
+    'manage:shelters',
+    'manage:reports',
+    'read:audit_log',
+  ],
+};
+
+/**
+ * 페이지별 필요 권한 (로그인하지 않았으면 로그인 페이지로, 권한이 없으면 403 페이지로)
+ */
+export const PAGE_ROUTE_PERMISSIONS: readonly RoutePermissionRule[] = [
+  { path: ROUTES.PROFILE, permission: 'read:profile' },
+  // 소속 신청은 모든 회원이 할 수 있고, 신청 검토는 보호소 역할만
+  { path: ROUTES.SHELTER_WORKSPACE, permission: 'read:profile' },
+  { path: `${ROUTES.SHELTER_WORKSPACE}/applications`, permission: 'review:applications' },
+  { path: ROUTES.ADMIN, permission: 'access:admin' },
+];
+
+/**
+ * 로그인 페이지에서 로그인 후 돌아갈 경로를 담는 쿼리 파라미터
+ */
+export const AUTH_REDIRECT_PARAM = 'next' as const;
+
+/**
+ * 보호소 직원 소속 상태별 한국어 표시명
+ */
+export const SHELTER_STAFF_STATUS_LABELS = {
+  pending: '확인 대기',
+  verified: '확인 완료',
+  revoked: '거절/해제',
+} as const;
+
+/**
+ * 신고 사유 (코드 → 한국어 표시명)
+ */
+export const CONTENT_REPORT_REASONS = {
+  inaccurate: '사실과 다른 정보',
+  inappropriate: '부적절한 내용',
+  spam: '광고/스팸',
+  fraud: '사기 또는 금전 요구',
+  other: '기타',
+} as const;
+
+/**
+ * 신고 대상별 한국어 표시명
+ */
+export const CONTENT_REPORT_TARGET_LABELS = {
+  pet: '동물 공고',
+  application_message: '입양 신청 메시지',
+  user: '사용자',
+} as const;
+
+/**
+ * 신고 처리 상태별 한국어 표시명
+ */
+export const CONTENT_REPORT_STATUS_LABELS = {
+  open: '접수',
+  resolved: '조치 완료',
+  dismissed: '기각',
+} as const;
+
+/**
+ * 관리자 작업별 한국어 표시명 (감사 로그)
+ */
+export const ADMIN_AUDIT_ACTION_LABELS = {
+  'user.activate': '계정 활성화',
+  'user.deactivate': '계정 비활성화',
+  'user.role': '역할 변경',
+  'shelter.verify': '보호소 소속 확인',
+  'shelter.revoke': '보호소 소속 거절/해제',
+  'report.resolve': '신고 조치',
+  'report.dismiss': '신고 기각',
+} as const;
+
 /**
  * 외부 서비스 설정
  */
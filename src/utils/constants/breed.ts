@@ -0,0 +1,563 @@
+/**
+ * 품종 메타데이터 상수 정의
+ *
+ * 공공데이터 품종 코드(kind)에 크기, 수명, 관리 난이도 등 로컬 정보를 덧붙이기 위한 테이블입니다.
+ * 품종명 매칭은 keywords를 공백 제거 후 부분 일치로 비교하며, 위에서부터 먼저 일치한 항목을 사용합니다.
+ */
+
+import type { BreedMetadata } from '@/types/pet';
+
+/**
+ * 품종 메타데이터 기준일 (PetBreed의 createdAt/updatedAt에 사용)
+ */
+export const BREED_METADATA_VERSION = '2025-08-01T00:00:00.000Z' as const;
+
+/**
+ * 개 품종 메타데이터
+ */
+export const DOG_BREED_METADATA: BreedMetadata[] = [
+  {
+    name: '치와와',
+    keywords: ['치와와'],
+    species: 'dog',
+    size: 'extra-small',
+    lifespan: { min: 14, max: 18 },
+    description: '가장 작은 견종 중 하나로 경계심이 강하고 보호자에게 애착이 깊습니다.',
+    characteristics: ['affectionate', 'protective'],
+    careLevel: 'medium',
+    exerciseNeeds: 'low',
+    groomingNeeds: 'low',
+  },
+  {
+    name: '요크셔 테리어',
+    keywords: ['요크셔', '요키'],
+    species: 'dog',
+    size: 'extra-small',
+    lifespan: { min: 13, max: 16 },
+    description: '작지만 용감한 테리어로 긴 털의 꾸준한 관리가 필요합니다.',
+    characteristics: ['energetic', 'affectionate'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '말티즈',
+    keywords: ['말티즈', '몰티즈'],
+    species: 'dog',
+    size: 'extra-small',
+    lifespan: { min: 12, max: 15 },
+    description: '온순하고 사람을 좋아하는 소형견으로 실내 생활에 잘 적응합니다.',
+    characteristics: ['affectionate', 'gentle', 'playful'],
+    careLevel: 'medium',
+    exerciseNeeds: 'low',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '포메라니안',
+    keywords: ['포메라니안', '포메'],
+    species: 'dog',
+    size: 'extra-small',
+    lifespan: { min: 12, max: 16 },
+    description: '풍성한 이중모를 가진 활발한 소형견입니다.',
+    characteristics: ['energetic', 'playful'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '파피용',
+    keywords: ['파피용'],
+    species: 'dog',
+    size: 'extra-small',
+    lifespan: { min: 13, max: 16 },
+    description: '나비 모양 귀가 특징인 영리하고 다정한 소형견입니다.',
+    characteristics: ['friendly', 'playful'],
+    careLevel: 'low',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'medium',
+  },
+  {
+    name: '시츄',
+    keywords: ['시츄', '시추'],
+    species: 'dog',
+    size: 'small',
+    lifespan: { min: 10, max: 16 },
+    description: '느긋하고 다정한 성격으로 초보 보호자에게도 잘 맞습니다.',
+    characteristics: ['calm', 'affectionate', 'friendly'],
+    careLevel: 'medium',
+    exerciseNeeds: 'low',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '비숑 프리제',
+    keywords: ['비숑'],
+    species: 'dog',
+    size: 'small',
+    lifespan: { min: 14, max: 15 },
+    description: '명랑하고 사교적이며 털 빠짐이 적은 편입니다.',
+    characteristics: ['playful', 'social', 'friendly'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '푸들',
+    keywords: ['푸들'],
+    species: 'dog',
+    size: 'small',
+    lifespan: { min: 12, max: 15 },
+    description: '영리하고 훈련이 쉬우며 털 빠짐이 적습니다.',
+    characteristics: ['playful', 'social', 'affectionate'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '닥스훈트',
+    keywords: ['닥스훈트', '닥스'],
+    species: 'dog',
+    size: 'small',
+    lifespan: { min: 12, max: 16 },
+    description: '긴 허리와 짧은 다리가 특징으로 허리 건강 관리가 필요합니다.',
+    characteristics: ['playful', 'independent'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'low',
+  },
+  {
+    name: '코커 스파니엘',
+    keywords: ['코커'],
+    species: 'dog',
+    size: 'small',
+    lifespan: { min: 10, max: 14 },
+    description: '온화하고 다정하지만 귀 관리에 신경 써야 합니다.',
+    characteristics: ['gentle', 'affectionate', 'playful'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '슈나우저',
+    keywords: ['슈나우저', '슈나우져'],
+    species: 'dog',
+    size: 'small',
+    lifespan: { min: 12, max: 15 },
+    description: '수염이 특징인 영리하고 경계심 있는 견종입니다.',
+    characteristics: ['protective', 'playful'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'medium',
+  },
+  {
+    name: '비글',
+    keywords: ['비글'],
+    species: 'dog',
+    size: 'small',
+    lifespan: { min: 12, max: 15 },
+    description: '호기심이 많고 에너지가 넘쳐 충분한 산책이 필요합니다.',
+    characteristics: ['energetic', 'friendly', 'playful'],
+    careLevel: 'medium',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'low',
+  },
+  {
+    name: '웰시 코기',
+    keywords: ['웰시코기', '코기'],
+    species: 'dog',
+    size: 'small',
+    lifespan: { min: 12, max: 15 },
+    description: '목양견 출신으로 활동량이 많고 털 빠짐이 많은 편입니다.',
+    characteristics: ['energetic', 'friendly'],
+    careLevel: 'medium',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'medium',
+  },
+  {
+    name: '스피츠',
+    keywords: ['스피츠'],
+    species: 'dog',
+    size: 'small',
+    lifespan: { min: 12, max: 16 },
+    description: '경계심이 강하고 활발하며 풍성한 이중모를 가졌습니다.',
+    characteristics: ['energetic', 'protective'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '시바견',
+    keywords: ['시바', '시바견'],
+    species: 'dog',
+    size: 'medium',
+    lifespan: { min: 12, max: 15 },
+    description: '독립적이고 깔끔한 성격으로 일관된 훈련이 필요합니다.',
+    characteristics: ['independent', 'protective'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'medium',
+  },
+  {
+    name: '진돗개',
+    keywords: ['진도', '진돗'],
+    species: 'dog',
+    size: 'medium',
+    lifespan: { min: 12, max: 15 },
+    description: '충성심과 영리함이 뛰어난 한국 토종견으로 충분한 운동이 필요합니다.',
+    characteristics: ['protective', 'independent'],
+    careLevel: 'high',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'medium',
+  },
+  {
+    name: '풍산개',
+    keywords: ['풍산'],
+    species: 'dog',
+    size: 'large',
+    lifespan: { min: 12, max: 15 },
+    description: '용맹하고 보호 본능이 강한 한국 토종견입니다.',
+    characteristics: ['protective', 'independent'],
+    careLevel: 'high',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'medium',
+  },
+  {
+    name: '삽살개',
+    keywords: ['삽살'],
+    species: 'dog',
+    size: 'medium',
+    lifespan: { min: 12, max: 15 },
+    description: '긴 털로 덮인 온순하고 충직한 한국 토종견입니다.',
+    characteristics: ['gentle', 'protective'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '보더 콜리',
+    keywords: ['보더콜리', '보더 콜리'],
+    species: 'dog',
+    size: 'medium',
+    lifespan: { min: 12, max: 15 },
+    description: '매우 영리하고 활동량이 많아 정신적·신체적 자극이 필요합니다.',
+    characteristics: ['energetic', 'playful'],
+    careLevel: 'high',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'medium',
+  },
+  {
+    name: '골든 리트리버',
+    keywords: ['골든'],
+    species: 'dog',
+    size: 'large',
+    lifespan: { min: 10, max: 12 },
+    description: '온화하고 사람을 좋아하며 가족견으로 인기가 높습니다.',
+    characteristics: ['friendly', 'gentle', 'social'],
+    careLevel: 'medium',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'medium',
+  },
+  {
+    name: '래브라도 리트리버',
+    keywords: ['래브라도', '라브라도'],
+    species: 'dog',
+    size: 'large',
+    lifespan: { min: 10, max: 12 },
+    description: '친화력이 좋고 활발하며 훈련 성과가 좋습니다.',
+    characteristics: ['friendly', 'energetic', 'social'],
+    careLevel: 'medium',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'low',
+  },
+  {
+    name: '저먼 셰퍼드',
+    keywords: ['셰퍼드', '세퍼드'],
+    species: 'dog',
+    size: 'large',
+    lifespan: { min: 9, max: 13 },
+    description: '충성스럽고 영리한 작업견으로 꾸준한 훈련과 운동이 필요합니다.',
+    characteristics: ['protective', 'energetic'],
+    careLevel: 'high',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'medium',
+  },
+  {
+    name: '시베리안 허스키',
+    keywords: ['허스키'],
+    species: 'dog',
+    size: 'large',
+    lifespan: { min: 12, max: 14 },
+    description: '체력이 매우 좋고 독립적이며 더위에 약합니다.',
+    characteristics: ['energetic', 'independent', 'social'],
+    careLevel: 'high',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '알래스칸 말라뮤트',
+    keywords: ['말라뮤트'],
+    species: 'dog',
+    size: 'extra-large',
+    lifespan: { min: 10, max: 14 },
+    description: '힘이 세고 털이 많아 넓은 공간과 꾸준한 관리가 필요합니다.',
+    characteristics: ['energetic', 'friendly', 'independent'],
+    careLevel: 'high',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '사모예드',
+    keywords: ['사모예드'],
+    species: 'dog',
+    size: 'large',
+    lifespan: { min: 12, max: 14 },
+    description: '미소 짓는 얼굴이 특징인 사교적인 견종으로 털 관리가 많이 필요합니다.',
+    characteristics: ['friendly', 'social', 'playful'],
+    careLevel: 'high',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '도베르만',
+    keywords: ['도베르만'],
+    species: 'dog',
+    size: 'large',
+    lifespan: { min: 10, max: 12 },
+    description: '충성심과 보호 본능이 강하며 체계적인 사회화가 필요합니다.',
+    characteristics: ['protective', 'energetic'],
+    careLevel: 'high',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'low',
+  },
+  {
+    name: '로트와일러',
+    keywords: ['로트와일러', '롯트와일러'],
+    species: 'dog',
+    size: 'large',
+    lifespan: { min: 9, max: 10 },
+    description: '강인하고 보호 본능이 뛰어나 경험 있는 보호자에게 적합합니다.',
+    characteristics: ['protective', 'calm'],
+    careLevel: 'high',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'low',
+  },
+  {
+    name: '그레이트 피레니즈',
+    keywords: ['피레니즈', '그레이트피레'],
+    species: 'dog',
+    size: 'extra-large',
+    lifespan: { min: 10, max: 12 },
+    description: '차분하고 보호 본능이 강한 대형 목양견입니다.',
+    characteristics: ['calm', 'protective', 'gentle'],
+    careLevel: 'high',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '그레이트 데인',
+    keywords: ['그레이트데인', '그레이트 데인'],
+    species: 'dog',
+    size: 'extra-large',
+    lifespan: { min: 7, max: 10 },
+    description: '거대한 체구와 달리 온순하고 다정한 견종입니다.',
+    characteristics: ['gentle', 'calm', 'friendly'],
+    careLevel: 'high',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'low',
+  },
+  {
+    name: '세인트 버나드',
+    keywords: ['세인트'],
+    species: 'dog',
+    size: 'extra-large',
+    lifespan: { min: 8, max: 10 },
+    description: '온화하고 인내심이 많은 초대형 구조견입니다.',
+    characteristics: ['gentle', 'calm'],
+    careLevel: 'high',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '마스티프',
+    keywords: ['마스티프'],
+    species: 'dog',
+    size: 'extra-large',
+    lifespan: { min: 6, max: 10 },
+    description: '차분하고 보호 본능이 강한 초대형견입니다.',
+    characteristics: ['calm', 'protective'],
+    careLevel: 'high',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'low',
+  },
+  {
+    name: '뉴펀들랜드',
+    keywords: ['뉴펀들랜드'],
+    species: 'dog',
+    size: 'extra-large',
+    lifespan: { min: 8, max: 10 },
+    description: '수영을 좋아하는 온순한 초대형견입니다.',
+    characteristics: ['gentle', 'calm', 'friendly'],
+    careLevel: 'high',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '믹스견',
+    keywords: ['믹스', '잡종'],
+    species: 'dog',
+    size: 'medium',
+    lifespan: { min: 12, max: 16 },
+    description: '여러 품종이 섞인 개로 개체마다 크기와 성격이 다양합니다.',
+    characteristics: [],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'medium',
+    isMixed: true,
+  },
+];
+
+/**
+ * 고양이 품종 메타데이터
+ */
+export const CAT_BREED_METADATA: BreedMetadata[] = [
+  {
+    name: '페르시안',
+    keywords: ['페르시안'],
+    species: 'cat',
+    size: 'small',
+    lifespan: { min: 12, max: 17 },
+    description: '조용하고 느긋하며 긴 털의 매일 빗질이 필요합니다.',
+    characteristics: ['calm', 'gentle'],
+    careLevel: 'high',
+    exerciseNeeds: 'low',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '러시안 블루',
+    keywords: ['러시안블루', '러시안 블루'],
+    species: 'cat',
+    size: 'small',
+    lifespan: { min: 15, max: 20 },
+    description: '조용하고 낯을 가리지만 보호자에게 깊은 애정을 보입니다.',
+    characteristics: ['shy', 'gentle', 'affectionate'],
+    careLevel: 'low',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'low',
+  },
+  {
+    name: '브리티시 숏헤어',
+    keywords: ['브리티시'],
+    species: 'cat',
+    size: 'medium',
+    lifespan: { min: 12, max: 17 },
+    description: '온순하고 독립적인 성격으로 실내 생활에 잘 맞습니다.',
+    characteristics: ['calm', 'independent'],
+    careLevel: 'low',
+    exerciseNeeds: 'low',
+    groomingNeeds: 'medium',
+  },
+  {
+    name: '샴',
+    keywords: ['샴'],
+    species: 'cat',
+    size: 'small',
+    lifespan: { min: 15, max: 20 },
+    description: '수다스럽고 사람을 좋아하는 사교적인 고양이입니다.',
+    characteristics: ['social', 'affectionate', 'energetic'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'low',
+  },
+  {
+    name: '스코티시 폴드',
+    keywords: ['스코티시', '폴드'],
+    species: 'cat',
+    size: 'small',
+    lifespan: { min: 11, max: 15 },
+    description: '접힌 귀가 특징이며 관절 건강을 주의 깊게 살펴야 합니다.',
+    characteristics: ['calm', 'affectionate'],
+    careLevel: 'high',
+    exerciseNeeds: 'low',
+    groomingNeeds: 'medium',
+  },
+  {
+    name: '먼치킨',
+    keywords: ['먼치킨'],
+    species: 'cat',
+    size: 'extra-small',
+    lifespan: { min: 12, max: 15 },
+    description: '짧은 다리가 특징인 호기심 많은 고양이입니다.',
+    characteristics: ['playful', 'friendly'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'medium',
+  },
+  {
+    name: '노르웨이 숲',
+    keywords: ['노르웨이'],
+    species: 'cat',
+    size: 'large',
+    lifespan: { min: 14, max: 16 },
+    description: '큰 체구와 풍성한 털을 가진 온화한 고양이입니다.',
+    characteristics: ['gentle', 'independent'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '랙돌',
+    keywords: ['랙돌', '렉돌'],
+    species: 'cat',
+    size: 'large',
+    lifespan: { min: 12, max: 17 },
+    description: '안기는 것을 좋아하는 매우 온순한 대형 고양이입니다.',
+    characteristics: ['gentle', 'affectionate', 'calm'],
+    careLevel: 'medium',
+    exerciseNeeds: 'low',
+    groomingNeeds: 'high',
+  },
+  {
+    name: '터키시 앙고라',
+    keywords: ['앙고라'],
+    species: 'cat',
+    size: 'small',
+    lifespan: { min: 12, max: 18 },
+    description: '활발하고 영리하며 부드러운 장모를 가졌습니다.',
+    characteristics: ['playful', 'energetic'],
+    careLevel: 'medium',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'medium',
+  },
+  {
+    name: '아비시니안',
+    keywords: ['아비시니안'],
+    species: 'cat',
+    size: 'small',
+    lifespan: { min: 12, max: 15 },
+    description: '호기심과 활동량이 많은 고양이입니다.',
+    characteristics: ['energetic', 'playful', 'social'],
+    careLevel: 'medium',
+    exerciseNeeds: 'high',
+    groomingNeeds: 'low',
+  },
+  {
+    name: '코리안 숏헤어',
+    keywords: ['코리안숏헤어', '코숏', '한국고양이', '믹스묘', '믹스'],
+    species: 'cat',
+    size: 'small',
+    lifespan: { min: 12, max: 18 },
+    description: '한국에서 가장 흔한 고양이로 건강하고 적응력이 좋습니다.',
+    characteristics: ['independent'],
+    careLevel: 'low',
+    exerciseNeeds: 'medium',
+    groomingNeeds: 'low',
+    isMixed: true,
+  },
+];
+
+/**
+ * 전체 품종 메타데이터
+ */
+export const BREED_METADATA: BreedMetadata[] = [
+  ...DOG_BREED_METADATA,
+  ...CAT_BREED_METADATA,
+];
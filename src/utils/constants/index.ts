@@ -10,4 +10,5 @@ export * from './api';
 export * from './ui';
 export * from './validation';
 export * from './pet';
-export * from './care';
\ No newline at end of file
+export * from './care';
+export * from './breed';
\ No newline at end of file
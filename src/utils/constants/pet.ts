@@ -128,6 +128,7 @@ export const HEALTH_STATUS = {
   FAIR: 'fair',
   NEEDS_ATTENTION: 'needs-attention',
   SPECIAL_CARE: 'special-care',
+  UNKNOWN: 'unknown',
 } as const;
 
 /**
@@ -139,6 +140,7 @@ export const HEALTH_STATUS_LABELS = {
   [HEALTH_STATUS.FAIR]: '보통',
   [HEALTH_STATUS.NEEDS_ATTENTION]: '관심 필요',
   [HEALTH_STATUS.SPECIAL_CARE]: '특별 관리',
+  [HEALTH_STATUS.UNKNOWN]: '정보 없음',
 } as const;
 
 /**
@@ -286,6 +288,77 @@ export const APPLICATION_STATUS_LABELS = {
   [APPLICATION_STATUS.WITHDRAWN]: '철회됨',
 } as const;
 
+/**
+ * 입양 신청 상태 전이 (현재 상태 → 변경 가능한 상태)
+ * 승인/거절/철회된 신청은 더 이상 상태를 바꿀 수 없습니다.
+ */
+export const APPLICATION_STATUS_TRANSITIONS = {
+  [APPLICATION_STATUS.PENDING]: [
+    APPLICATION_STATUS.APPROVED,
+    APPLICATION_STATUS.REJECTED,
+    APPLICATION_STATUS.WITHDRAWN,
+  ],
+  [APPLICATION_STATUS.APPROVED]: [],
+  [APPLICATION_STATUS.REJECTED]: [],
+  [APPLICATION_STATUS.WITHDRAWN]: [],
+} as const;
+
+/**
+ * 입양 신청서 질문
+ */
+export const ADOPTION_APPLICATION_QUESTIONS = [
+  {
+    id: 'housing',
+    question: '어떤 곳에서 함께 지내게 되나요?',
+    type: 'choice',
+    options: ['아파트', '빌라/다세대', '단독주택', '기타'],
+    required: true,
+  },
+  {
+    id: 'familyAgreement',
+    question: '함께 사는 가족 모두 입양에 동의했나요?',
+    type: 'choice',
+    options: ['네, 모두 동의했어요', '혼자 살고 있어요', '아직 의논 중이에요'],
+    required: true,
+  },
+  {
+    id: 'experience',
+    question: '반려동물을 키워본 경험이 있나요?',
+    type: 'choice',
+    options: ['처음이에요', '키워본 적 있어요', '지금 키우고 있어요'],
+    required: true,
+  },
+  {
+    id: 'awayHours',
+    question: '하루 중 집을 비우는 시간은 어느 정도인가요?',
+    type: 'choice',
+    options: ['4시간 미만', '4~8시간', '8시간 이상'],
+    required: true,
+  },
+  {
+    id: 'motivation',
+    question: '입양을 결심하게 된 이유를 알려주세요.',
+    type: 'text',
+    minLength: 10,
+    required: true,
+  },
+  {
+    id: 'phone',
+    question: '보호소에서 연락드릴 전화번호를 알려주세요.',
+    type: 'phone',
+    required: true,
+  },
+] as const;
+
+/**
+ * 입양 신청 설정
+ */
+export const ADOPTION_APPLICATION_SETTINGS = {
+  ANSWER_MAX_LENGTH: 500,
+  MESSAGE_MAX_LENGTH: 1000,
+  REVIEW_NOTES_MAX_LENGTH: 1000,
+} as const;
+
 /**
  * 의료 기록 타입
  */
@@ -306,4 +379,156 @@ export const MEDICAL_RECORD_TYPE_LABELS = {
   [MEDICAL_RECORD_TYPES.CHECKUP]: '건강검진',
   [MEDICAL_RECORD_TYPES.TREATMENT]: '치료',
   [MEDICAL_RECORD_TYPES.MEDICATION]: '투약',
-} as const;
\ No newline at end of file
+} as const;
+/**
+ * 검색 정렬 기준별 한국어 표시명
+ */
+export const SEARCH_SORT_LABELS = {
+  relevance: '관련도순',
+  newest: '최신 공고순',
+  oldest: '오래된 공고순',
+  'age-young': '어린 나이순',
+  'age-old': '많은 나이순',
+  'size-small': '작은 크기순',
+  'size-large': '큰 크기순',
+  distance: '가까운 거리순',
+  'fee-low': '입양비 낮은순',
+  'fee-high': '입양비 높은순',
+  name: '이름순',
+  match: '맞춤 추천',
+} as const;
+
+/**
+ * "내 주변" 검색 반경 옵션 (km)
+ */
+export const SEARCH_RADIUS_OPTIONS = [5, 10, 20, 50] as const;
+
+/**
+ * "내 주변" 검색 기본 반경 (km)
+ */
+export const DEFAULT_SEARCH_RADIUS = 10;
+
+/**
+ * 매칭 점수 항목별 한국어 표시명
+ */
+export const MATCH_FACTOR_LABELS = {
+  lifestyle: '생활 환경',
+  experience: '양육 경험',
+  location: '거리',
+  preferences: '선호 조건',
+} as const;
+
+/**
+ * 매칭 점수 기본 가중치 (AdvancedSearchFilters.weight* 미지정 시)
+ */
+export const DEFAULT_MATCH_WEIGHTS = {
+  lifestyle: 0.35,
+  experience: 0.2,
+  location: 0.2,
+  preferences: 0.25,
+} as const;
+
+/**
+ * 매칭 점수 설정
+ */
+export const MATCH_SCORE_SETTINGS = {
+  NEUTRAL_SCORE: 50, // 비교할 정보가 없을 때의 점수
+  DEFAULT_LOCATION_RADIUS: 30, // km, 검색 반경이 없을 때 거리 점수 기준
+} as const;
+
+/**
+ * 크기별 월 예상 양육비 (원, 사료/위생용품/기본 진료 기준)
+ */
+export const PET_MONTHLY_COST_ESTIMATES = {
+  [PET_SIZES.EXTRA_SMALL]: 100000,
+  [PET_SIZES.SMALL]: 120000,
+  [PET_SIZES.MEDIUM]: 170000,
+  [PET_SIZES.LARGE]: 250000,
+  [PET_SIZES.EXTRA_LARGE]: 320000,
+} as const;
+
+/**
+ * 유사도 항목별 한국어 표시명 ("비슷한 아이들" 근거 표시용)
+ */
+export const SIMILARITY_FACTOR_LABELS = {
+  species: '같은 축종',
+  breed: '같은 품종',
+  size: '비슷한 크기',
+  ageGroup: '비슷한 나이',
+  color: '비슷한 털색',
+  gender: '같은 성별',
+  region: '같은 지역',
+} as const;
+
+/**
+ * 유사도 기본 가중치 (/api/pets/{id}/similar의 weight* 파라미터 미지정 시)
+ */
+export const DEFAULT_SIMILARITY_WEIGHTS = {
+  species: 0.25,
+  breed: 0.2,
+  size: 0.15,
+  ageGroup: 0.15,
+  color: 0.1,
+  gender: 0.05,
+  region: 0.1,
+} as const;
+
+/**
+ * 비슷한 동물 추천 설정
+ */
+export const SIMILAR_PETS_SETTINGS = {
+  DEFAULT_LIMIT: 6,
+  MAX_LIMIT: 20,
+  MIN_SCORE: 40, // 이 점수 미만은 "비슷한 아이들"로 보여주지 않음
+  MATCHED_FACTOR_THRESHOLD: 0.8, // 항목 유사도가 이 값 이상이면 근거로 표시
+} as const;
+
+/**
+ * 공고 마감 긴급도 기준 (남은 일수)
+ */
+export const NOTICE_URGENCY_SETTINGS = {
+  CRITICAL_DAYS: 2, // D-2 이하는 마감 임박
+  SOON_DAYS: 5, // D-5 이하는 마감 예정
+} as const;
+
+/**
+ * 공고 마감 긴급도 표시명
+ */
+export const NOTICE_URGENCY_LABELS = {
+  ended: '공고 종료',
+  critical: '마감 임박',
+  soon: '마감 예정',
+  normal: '공고중',
+  unknown: '공고 정보 없음',
+} as const;
+
+/**
+ * 관심 동물 입양 가능 여부 표시명
+ */
+export const FAVORITE_AVAILABILITY_LABELS = {
+  available: '입양 가능',
+  adopted: '입양 완료',
+  closed: '보호 종료',
+  notice_ended: '공고 종료',
+  missing: '공고 내려감',
+} as const;
+
+/**
+ * 보호소 동물 구분 표시명
+ */
+export const SHELTER_ANIMAL_GROUP_LABELS = {
+  notice: '공고중',
+  protect: '보호중',
+  ended: '보호 종료',
+} as const;
+
+/**
+ * 보호 종료 사유 표시명
+ */
+export const SHELTER_OUTCOME_LABELS = {
+  adopted: '입양',
+  returned: '반환',
+  euthanized: '안락사',
+  naturalDeath: '자연사',
+  other: '기타',
+} as const;
@@ -0,0 +1,108 @@
+-- 유기동물 미러 테이블
+-- 공공데이터 abandonmentPublic_v2의 공고중/보호중 동물을 주기적으로 동기화합니다.
+
+create extension if not exists pg_trgm;
+
+create table if not exists public.shelter_animals (
+  desertion_no text primary key,
+  item jsonb not null,
+  state text not null check (state in ('notice', 'protect')),
+  species text not null,
+  breed_name text not null,
+  size text not null,
+  age_group text not null,
+  gender text not null,
+  neutered text not null default 'U',
+  location text not null,
+  personalities text[] not null default '{}',
+  care_reg_no text not null default '',
+  search_text text not null default '',
+  notice_sdt text not null default '',
+  upd_tm text not null default '',
+  first_seen_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  disappeared_at timestamptz
+);
+
+create index if not exists shelter_animals_active_idx
+  on public.shelter_animals (notice_sdt desc, desertion_no desc)
+  where disappeared_at is null;
+create index if not exists shelter_animals_search_text_idx
+  on public.shelter_animals using gin (search_text gin_trgm_ops);
+create index if not exists shelter_animals_last_seen_idx
+  on public.shelter_animals (last_seen_at)
+  where disappeared_at is null;
+
+create table if not exists public.shelter_animal_sync_state (
+  id smallint primary key default 1 check (id = 1),
+  last_incremental_sync_at timestamptz,
+  last_full_sync_at timestamptz,
+  last_upd_tm text
+);
+
+-- 서버(서비스 롤)만 접근하며 익명/인증 사용자에게는 노출하지 않습니다.
+alter table public.shelter_animals enable row level security;
+alter table public.shelter_animal_sync_state enable row level security;
+
+-- 패싯 집계
+-- 각 차원은 자기 자신의 필터만 제외하고 나머지 조건을 모두 적용해 집계합니다.
+create or replace function public.shelter_animal_facets(
+  p_terms text[] default null,
+  p_species text[] default null,
+  p_breeds text[] default null,
+  p_sizes text[] default null,
+  p_age_groups text[] default null,
+  p_locations text[] default null,
+  p_personalities text[] default null,
+  p_genders text[] default null,
+  p_neutered text[] default null,
+  p_states text[] default null,
+  p_care_reg_nos text[] default null
+)
+returns table (facet text, value text, count bigint)
+language sql
+stable
+as $$
+  with base as (
+    select
+      a.*,
+      (p_species is null or a.species = any (p_species)) as m_species,
+      (p_breeds is null or a.breed_name = any (p_breeds)) as m_breeds,
+      (p_sizes is null or a.size = any (p_sizes)) as m_sizes,
+      (p_age_groups is null or a.age_group = any (p_age_groups)) as m_age_groups,
+      (p_locations is null or a.location = any (p_locations)) as m_locations,
+      (p_personalities is null or a.personalities && p_personalities) as m_personalities
+    from public.shelter_animals a
+    where a.disappeared_at is null
+      and (p_terms is null or not exists (
+        select 1 from unnest(p_terms) t where a.search_text not like '%' || t || '%'
+      ))
+      and (p_genders is null or a.gender = any (p_genders))
+      and (p_neutered is null or a.neutered = any (p_neutered))
+      and (p_states is null or a.state = any (p_states))
+      and (p_care_reg_nos is null or a.care_reg_no = any (p_care_reg_nos))
+  )
+  select 'species', species, count(*) from base
+    where m_breeds and m_sizes and m_age_groups and m_locations and m_personalities
+    group by species
+  union all
+  select 'breeds', breed_name, count(*) from base
+    where m_species and m_sizes and m_age_groups and m_locations and m_personalities
+    group by breed_name
+  union all
+  select 'sizes', size, count(*) from base
+    where m_species and m_breeds and m_age_groups and m_locations and m_personalities
+    group by size
+  union all
+  select 'ageGroups', age_group, count(*) from base
+    where m_species and m_breeds and m_sizes and m_locations and m_personalities
+    group by age_group
+  union all
+  select 'locations', location, count(*) from base
+    where m_species and m_breeds and m_sizes and m_age_groups and m_personalities
+    group by location
+  union all
+  select 'personalities', trait, count(*) from base, unnest(base.personalities) trait
+    where m_species and m_breeds and m_sizes and m_age_groups and m_locations
+    group by trait;
+$$;
@@ -0,0 +1,37 @@
+-- 입양 신청 테이블
+-- 신청 당시 동물 정보(pet)를 함께 저장하여 공고가 내려간 뒤에도 내역을 보여줍니다.
+
+create table if not exists public.adoption_applications (
+  id uuid primary key,
+  pet_id text not null,
+  applicant_id uuid not null references auth.users (id) on delete cascade,
+  care_reg_no text not null default '',
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected', 'withdrawn')),
+  message text,
+  responses jsonb not null default '[]',
+  pet jsonb not null,
+  application_date timestamptz not null default now(),
+  reviewed_at timestamptz,
+  reviewed_by uuid references auth.users (id) on delete set null,
+  review_notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists adoption_applications_applicant_idx
+  on public.adoption_applications (applicant_id, application_date desc);
+create index if not exists adoption_applications_shelter_idx
+  on public.adoption_applications (care_reg_no, application_date desc);
+
+-- 같은 신청자가 같은 동물에 진행 중(검토 중/승인) 신청을 두 개 이상 둘 수 없습니다.
+create unique index if not exists adoption_applications_active_unique_idx
+  on public.adoption_applications (applicant_id, pet_id)
+  where status in ('pending', 'approved');
+
+-- 상태 변경은 서버(서비스 롤)가 전이 규칙을 검증한 뒤 수행합니다.
+alter table public.adoption_applications enable row level security;
+
+create policy "applicants read own applications"
+  on public.adoption_applications for select
+  using (auth.uid() = applicant_id);
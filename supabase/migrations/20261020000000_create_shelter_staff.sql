@@ -0,0 +1,55 @@
+-- 보호소 직원 소속과 입양 신청 메시지
+-- 직원은 소속된 보호소(care_reg_no)의 입양 신청만 조회/검토합니다.
+
+create table if not exists public.shelter_staff (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  care_reg_no text not null,
+  care_nm text not null default '',
+  created_at timestamptz not null default now(),
+  primary key (user_id, care_reg_no)
+);
+
+create index if not exists shelter_staff_care_reg_no_idx
+  on public.shelter_staff (care_reg_no);
+
+create table if not exists public.adoption_application_messages (
+  id uuid primary key,
+  application_id uuid not null
+    references public.adoption_applications (id) on delete cascade,
+  sender_id uuid not null references auth.users (id) on delete cascade,
+  sender_role text not null check (sender_role in ('applicant', 'shelter')),
+  body text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists adoption_application_messages_application_idx
+  on public.adoption_application_messages (application_id, created_at);
+
+-- 소속 등록과 메시지 작성은 서버(서비스 롤)가 권한을 확인한 뒤 수행합니다.
+alter table public.shelter_staff enable row level security;
+alter table public.adoption_application_messages enable row level security;
+
+create policy "staff read own memberships"
+  on public.shelter_staff for select
+  using (auth.uid() = user_id);
+
+create policy "staff read shelter applications"
+  on public.adoption_applications for select
+  using (exists (
+    select 1 from public.shelter_staff s
+    where s.user_id = auth.uid() and s.care_reg_no = adoption_applications.care_reg_no
+  ));
+
+create policy "participants read application messages"
+  on public.adoption_application_messages for select
+  using (exists (
+    select 1 from public.adoption_applications a
+    where a.id = adoption_application_messages.application_id
+      and (
+        a.applicant_id = auth.uid()
+        or exists (
+          select 1 from public.shelter_staff s
+          where s.user_id = auth.uid() and s.care_reg_no = a.care_reg_no
+        )
+      )
+  ));
@@ -0,0 +1,109 @@
+-- 관리자 콘솔: 보호소 소속 확인, 신고, 관리자 작업 감사 로그
+-- 관리자 역할은 auth.users의 app_metadata.role = 'admin'으로 지정합니다.
+
+-- 보호소 직원 소속 확인 상태 (기존 소속은 확인 완료로 유지, 새 신청은 확인 대기)
+alter table public.shelter_staff
+  add column if not exists status text not null default 'verified'
+    check (status in ('pending', 'verified', 'revoked')),
+  add column if not exists requested_at timestamptz not null default now(),
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists reviewed_by uuid references auth.users (id) on delete set null;
+
+alter table public.shelter_staff alter column status set default 'pending';
+
+create index if not exists shelter_staff_status_idx
+  on public.shelter_staff (status, requested_at desc);
+
+-- 확인 완료된 소속만 입양 신청과 메시지를 조회할 수 있도록 정책 교체
+drop policy if exists "staff read shelter applications" on public.adoption_applications;
+create policy "staff read shelter applications"
+  on public.adoption_applications for select
+  using (exists (
+    select 1 from public.shelter_staff s
+    where s.user_id = auth.uid()
+      and s.care_reg_no = adoption_applications.care_reg_no
+      and s.status = 'verified'
+  ));
+
+drop policy if exists "participants read application messages" on public.adoption_application_messages;
+create policy "participants read application messages"
+  on public.adoption_application_messages for select
+  using (exists (
+    select 1 from public.adoption_applications a
+    where a.id = adoption_application_messages.application_id
+      and (
+        a.applicant_id = auth.uid()
+        or exists (
+          select 1 from public.shelter_staff s
+          where s.user_id = auth.uid()
+            and s.care_reg_no = a.care_reg_no
+            and s.status = 'verified'
+        )
+      )
+  ));
+
+-- 신고
+create table if not exists public.content_reports (
+  id uuid primary key,
+  target_type text not null check (target_type in ('pet', 'application_message', 'user')),
+  target_id text not null,
+  reporter_id uuid not null references auth.users (id) on delete cascade,
+  reason text not null,
+  details text,
+  status text not null default 'open'
+    check (status in ('open', 'resolved', 'dismissed')),
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by uuid references auth.users (id) on delete set null,
+  resolution_note text
+);
+
+create index if not exists content_reports_status_idx
+  on public.content_reports (status, created_at desc);
+
+create index if not exists content_reports_target_idx
+  on public.content_reports (target_type, target_id);
+
+-- 같은 신고자가 같은 대상을 접수 중에 다시 신고하지 못하도록
+create unique index if not exists content_reports_open_unique_idx
+  on public.content_reports (reporter_id, target_type, target_id)
+  where status = 'open';
+
+-- 관리자 작업 감사 로그 (추가만 허용)
+create table if not exists public.admin_audit_log (
+  id uuid primary key,
+  actor_id uuid not null, -- 관리자 계정이 삭제돼도 기록은 남깁니다
+  action text not null,
+  target_type text not null,
+  target_id text not null,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_created_at_idx
+  on public.admin_audit_log (created_at desc);
+
+create index if not exists admin_audit_log_target_idx
+  on public.admin_audit_log (target_id, created_at desc);
+
+create or replace function public.prevent_admin_audit_log_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'admin_audit_log는 수정하거나 삭제할 수 없습니다.';
+end;
+$$;
+
+drop trigger if exists admin_audit_log_append_only on public.admin_audit_log;
+create trigger admin_audit_log_append_only
+  before update or delete on public.admin_audit_log
+  for each row execute function public.prevent_admin_audit_log_changes();
+
+-- 신고 접수/처리와 감사 로그 기록은 서버(서비스 롤)가 권한을 확인한 뒤 수행합니다.
+alter table public.content_reports enable row level security;
+alter table public.admin_audit_log enable row level security;
+
+create policy "reporters read own reports"
+  on public.content_reports for select
+  using (auth.uid() = reporter_id);
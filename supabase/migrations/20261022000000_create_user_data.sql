@@ -0,0 +1,168 @@
+-- 사용자 데이터: 프로필, 선호도, 관심 목록, 검색 기록, 입양 기록
+-- 모든 테이블은 로그인 사용자 본인의 행만 읽고 쓸 수 있습니다.
+
+create table if not exists public.user_profiles (
+  id uuid primary key,
+  user_id uuid not null unique references auth.users (id) on delete cascade,
+  first_name text,
+  last_name text,
+  date_of_birth date,
+  location jsonb not null default '{}'::jsonb,
+  bio text,
+  living_space text not null default 'apartment'
+    check (living_space in ('apartment', 'house', 'farm', 'other')),
+  has_yard boolean not null default false,
+  has_other_pets boolean not null default false,
+  household_size integer not null default 1 check (household_size > 0),
+  has_children boolean not null default false,
+  children_ages integer[],
+  pet_experience text not null default 'none',
+  time_available text not null default 'medium',
+  activity_level text not null default 'medium',
+  budget jsonb not null default '{"monthly": 0, "initial": 0}'::jsonb,
+  contact_preferences jsonb not null default '{}'::jsonb,
+  privacy_settings jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.user_preferences (
+  id uuid primary key,
+  user_id uuid not null unique references auth.users (id) on delete cascade,
+  preferred_species text[] not null default '{}',
+  preferred_sizes text[] not null default '{}',
+  preferred_age_groups text[] not null default '{}',
+  preferred_personalities text[] not null default '{}',
+  search_radius integer not null default 20 check (search_radius > 0),
+  max_adoption_fee integer check (max_adoption_fee >= 0),
+  notifications jsonb not null default '{}'::jsonb,
+  requirements jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- 관심 목록 (같은 동물은 한 번만)
+create table if not exists public.user_favorites (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  pet_id text not null,
+  notes text check (char_length(notes) <= 500),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, pet_id)
+);
+
+create index if not exists user_favorites_user_idx
+  on public.user_favorites (user_id, created_at desc);
+
+create table if not exists public.user_search_history (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  search_query text not null,
+  filters jsonb not null default '{}'::jsonb,
+  result_count integer not null default 0,
+  clicked_pets text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists user_search_history_user_idx
+  on public.user_search_history (user_id, created_at desc);
+
+-- 사용자별 최근 검색 기록 10개만 유지 (USER_DATA_SETTINGS.SEARCH_HISTORY_LIMIT)
+create or replace function public.trim_user_search_history()
+returns trigger
+language plpgsql
+as $$
+begin
+  delete from public.user_search_history
+  where user_id = new.user_id
+    and id not in (
+      select id from public.user_search_history
+      where user_id = new.user_id
+      order by created_at desc
+      limit 10
+    );
+  return null;
+end;
+$$;
+
+drop trigger if exists user_search_history_trim on public.user_search_history;
+create trigger user_search_history_trim
+  after insert on public.user_search_history
+  for each row execute function public.trim_user_search_history();
+
+create table if not exists public.adoption_history (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  pet_id text not null,
+  care_reg_no text not null default '',
+  adoption_date date not null,
+  status text not null check (status in ('successful', 'returned', 'transferred')),
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists adoption_history_user_idx
+  on public.adoption_history (user_id, adoption_date desc);
+
+alter table public.user_profiles enable row level security;
+alter table public.user_preferences enable row level security;
+alter table public.user_favorites enable row level security;
+alter table public.user_search_history enable row level security;
+alter table public.adoption_history enable row level security;
+
+create policy "owners read own profile"
+  on public.user_profiles for select using (auth.uid() = user_id);
+create policy "owners insert own profile"
+  on public.user_profiles for insert with check (auth.uid() = user_id);
+create policy "owners update own profile"
+  on public.user_profiles for update
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "owners read own preferences"
+  on public.user_preferences for select using (auth.uid() = user_id);
+create policy "owners insert own preferences"
+  on public.user_preferences for insert with check (auth.uid() = user_id);
+create policy "owners update own preferences"
+  on public.user_preferences for update
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "owners read own favorites"
+  on public.user_favorites for select using (auth.uid() = user_id);
+create policy "owners insert own favorites"
+  on public.user_favorites for insert with check (auth.uid() = user_id);
+create policy "owners update own favorites"
+  on public.user_favorites for update
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "owners delete own favorites"
+  on public.user_favorites for delete using (auth.uid() = user_id);
+
+create policy "owners read own search history"
+  on public.user_search_history for select using (auth.uid() = user_id);
+create policy "owners insert own search history"
+  on public.user_search_history for insert with check (auth.uid() = user_id);
+create policy "owners delete own search history"
+  on public.user_search_history for delete using (auth.uid() = user_id);
+
+-- 입양 기록은 본인은 읽기만 하고, 서버(서비스 롤)나 소속 보호소 직원이 남깁니다.
+-- 삭제하지 않고 상태만 바꿉니다.
+create policy "owners read own adoption history"
+  on public.adoption_history for select using (auth.uid() = user_id);
+create policy "staff insert shelter adoption history"
+  on public.adoption_history for insert
+  with check (exists (
+    select 1 from public.shelter_staff s
+    where s.user_id = auth.uid() and s.care_reg_no = adoption_history.care_reg_no
+  ));
+create policy "staff update shelter adoption history"
+  on public.adoption_history for update
+  using (exists (
+    select 1 from public.shelter_staff s
+    where s.user_id = auth.uid() and s.care_reg_no = adoption_history.care_reg_no
+  ))
+  with check (exists (
+    select 1 from public.shelter_staff s
+    where s.user_id = auth.uid() and s.care_reg_no = adoption_history.care_reg_no
+  ));
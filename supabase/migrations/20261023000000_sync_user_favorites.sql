@@ -0,0 +1,16 @@
+-- 관심 목록을 여러 탭/기기에서 실시간으로 동기화
+-- Realtime은 행 수준 보안 정책(owners read own favorites)을 따라 본인 행의 추가/변경만 전달하고,
+-- 삭제는 기본 키(id)만 전달합니다.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'user_favorites'
+  ) then
+    alter publication supabase_realtime add table public.user_favorites;
+  end if;
+end;
+$$;